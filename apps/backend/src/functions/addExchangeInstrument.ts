@@ -0,0 +1,118 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeInstrumentParamsSchema } from '../types/instrument';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange } from '../lib/exchanges';
+import { listInstrument, mapExchangeInstrumentRecord } from '../lib/exchange-instruments';
+import { broadcastExchangeConfigUpdated } from '../lib/signalr-broadcast';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * PUT /api/v1/exchanges/{exchangeId}/instruments/{symbol}
+ *
+ * Lists an instrument on the exchange so it can be traded and is ticked by the market engine
+ * Restricted to RiskManagers (ADR-002)
+ *
+ * Idempotent: listing a symbol that is already listed returns the existing listing. After
+ * commit an ExchangeConfigUpdated event is pushed to ticker:{exchangeId} so connected
+ * clients reload their symbol lists.
+ *
+ * Returns:
+ * - 200: ExchangeInstrumentResponse
+ * - 400: Invalid exchangeId or symbol
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, archived, or caller is not a member; or instrument not found or archived
+ * - 500: Internal server error
+ */
+export async function addExchangeInstrument(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to list ${request.params.symbol} on exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameters with Zod
+    const paramsValidation = ExchangeInstrumentParamsSchema.safeParse({
+      exchangeId: request.params.exchangeId,
+      symbol: request.params.symbol,
+    });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId, symbol } = paramsValidation.data;
+
+    // 3. Check the caller's role and store the listing within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+    let record;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = callerRoles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      if (!exchange) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage exchange listings');
+      }
+
+      record = await listInstrument(transaction, exchangeId, symbol, user.userId);
+
+      if (!record) {
+        await transaction.rollback();
+        return createNotFoundResponse(`Instrument ${symbol} not found`);
+      }
+
+      await transaction.commit();
+
+      context.log(`Instrument ${symbol} listed on exchange ${exchangeId} by user ${user.userId}`);
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+
+    // 4. Notify connected clients
+    await broadcastExchangeConfigUpdated(
+      { exchangeId, updatedBy: user.userId, timestamp: new Date().toISOString() },
+      context
+    );
+
+    // 5. Return the listing
+    return {
+      status: 200,
+      jsonBody: mapExchangeInstrumentRecord(record),
+    };
+  } catch (error) {
+    context.error('Error listing instrument on exchange:', error);
+    return handleError(error);
+  }
+}
+
+app.http('addExchangeInstrument', {
+  methods: ['PUT'],
+  route: 'v1/exchanges/{exchangeId}/instruments/{symbol}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: addExchangeInstrument,
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Int: 'Int',
+  Money: 'Money',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { addExchangeMember } from './addExchangeMember';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('addExchangeMember', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const memberId = '550e8400-e29b-41d4-a716-446655440002';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId },
+      json: vi.fn().mockResolvedValue({ userId: memberId, role: 'PortfolioManager' }),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should grant the role and provision a portfolio for a new PortfolioManager', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ AssignedAt: '2026-01-19T10:00:00.000Z' }] })
+      .mockResolvedValueOnce({ recordset: [] })
+      .mockResolvedValueOnce({ recordset: [{ StartingCash: 1000000, MaxPortfolioSize: 50, PortfolioCount: 1 }] })
+      .mockResolvedValueOnce({ recordset: [{ PortfolioId: 'portfolio-9', ExchangeId: exchangeId, Name: 'Main Portfolio', CashBalance: 1000000 }] });
+
+    const response = await addExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(201);
+    expect(response.jsonBody).toEqual({
+      exchangeId,
+      userId: memberId,
+      role: 'PortfolioManager',
+      assignedAt: '2026-01-19T10:00:00.000Z',
+      portfolioId: 'portfolio-9',
+    });
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should still grant the role when the exchange is full', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ AssignedAt: '2026-01-19T10:00:00.000Z' }] })
+      .mockResolvedValueOnce({ recordset: [] })
+      .mockResolvedValueOnce({ recordset: [{ StartingCash: 1000000, MaxPortfolioSize: 1, PortfolioCount: 1 }] });
+
+    const response = await addExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(201);
+    expect(response.jsonBody.portfolioId).toBeUndefined();
+    expect(mockContext.warn).toHaveBeenCalled();
+  });
+
+  it('should return 409 when the user already holds the role', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [] });
+
+    const response = await addExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(409);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] });
+
+    const response = await addExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member of the exchange', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await addExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should reject an unknown role', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ userId: memberId, role: 'Trader' });
+
+    const response = await addExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+});
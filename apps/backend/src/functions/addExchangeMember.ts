@@ -0,0 +1,127 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { AddExchangeMemberSchema, ExchangeParamsSchema, ExchangeRoleResponse } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles, grantExchangeRole } from '../lib/exchange-roles';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  createConflictResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * POST /api/v1/exchanges/{exchangeId}/members
+ *
+ * Assigns a role to a user, adding them to the exchange if they are not yet a member
+ * Implements ADR-002: Exchange-scoped RBAC, restricted to RiskManagers
+ *
+ * Assigning PortfolioManager provisions the member's first portfolio (see lib/exchange-roles.ts).
+ *
+ * Returns:
+ * - 201: ExchangeRoleResponse (with portfolioId when a portfolio was provisioned)
+ * - 400: Invalid exchangeId, userId or role
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found (or caller is not a member)
+ * - 409: User already holds the role
+ * - 500: Internal server error
+ */
+export async function addExchangeMember(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to add a member to exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameter and request body with Zod
+    const paramsValidation = ExchangeParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const body = await request.json();
+    const validationResult = AddExchangeMemberSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+    const { userId, role } = validationResult.data;
+
+    // 3. Check the caller's role and grant within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+
+      if (callerRoles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage exchange members');
+      }
+
+      const result = await grantExchangeRole(transaction, exchangeId, userId, role);
+
+      if (!result.granted) {
+        await transaction.rollback();
+        return createConflictResponse(`User ${userId} already holds the ${role} role`);
+      }
+
+      await transaction.commit();
+
+      context.log(`User ${user.userId} granted ${role} to ${userId} in exchange ${exchangeId}`);
+
+      if (result.portfolio?.status === 'LIMIT_REACHED') {
+        context.warn(`No portfolio provisioned for ${userId}: exchange ${exchangeId} has reached MaxPortfolioSize`);
+      }
+
+      // 4. Return the new role assignment
+      const response: ExchangeRoleResponse = {
+        exchangeId,
+        userId,
+        role,
+        assignedAt: result.assignedAt,
+      };
+
+      if (result.portfolio?.status === 'CREATED') {
+        response.portfolioId = result.portfolio.portfolio.PortfolioId;
+      }
+
+      return {
+        status: 201,
+        jsonBody: response,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error adding exchange member:', error);
+    return handleError(error);
+  }
+}
+
+app.http('addExchangeMember', {
+  methods: ['POST'],
+  route: 'v1/exchanges/{exchangeId}/members',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: addExchangeMember,
+});
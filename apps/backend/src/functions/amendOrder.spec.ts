@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: 'NVarChar',
+  Decimal: vi.fn(() => 'Decimal'),
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { amendOrder } from './amendOrder';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('amendOrder', () => {
+  const orderId = '550e8400-e29b-41d4-a716-446655440010';
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const portfolioId = '550e8400-e29b-41d4-a716-446655440001';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: {
+    begin: ReturnType<typeof vi.fn>;
+    commit: ReturnType<typeof vi.fn>;
+    rollback: ReturnType<typeof vi.fn>;
+    request: ReturnType<typeof vi.fn>;
+  };
+
+  const orderRecord = (overrides: Record<string, unknown> = {}) => ({
+    OrderId: orderId,
+    ExchangeId: exchangeId,
+    PortfolioId: portfolioId,
+    Symbol: 'AAPL',
+    Side: 'BUY',
+    OrderType: 'LIMIT',
+    Quantity: 100,
+    Price: 150,
+    StopPrice: null,
+    Status: 'PENDING',
+    FilledQuantity: 0,
+    AveragePrice: null,
+    Commission: 0,
+    CreatedAt: '2026-01-19T00:00:00.000Z',
+    UpdatedAt: '2026-01-19T00:00:00.000Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { orderId },
+      json: vi.fn(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({
+        input: vi.fn().mockReturnThis(),
+        query: mockQuery,
+      }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should lower the limit price without a buying power check', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, price: 145 });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord()] })
+      .mockResolvedValueOnce({ recordset: [orderRecord({ Price: 145 })] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ orderId, price: 145, quantity: 100 });
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    expect(mockQuery.mock.calls[1][0]).toContain('PriorityAt = SYSUTCDATETIME()');
+    expect(mockQuery.mock.calls[1][0]).not.toMatch(/CreatedAt\s*=/);
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should keep time priority when only decreasing the quantity', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, quantity: 60 });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord()] })
+      .mockResolvedValueOnce({ recordset: [orderRecord({ Quantity: 60 })] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(mockQuery.mock.calls[1][0]).toContain(
+      'SET Quantity = @quantity, Price = @price, StopPrice = @stopPrice, UpdatedAt = GETUTCDATE()'
+    );
+    expect(mockQuery.mock.calls[1][0]).not.toContain('PriorityAt');
+  });
+
+  it('should check available cash net of other reservations when increasing a BUY order', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, quantity: 200 });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord()] })
+      .mockResolvedValueOnce({ recordset: [{ CashBalance: 40000 }] })
+      .mockResolvedValueOnce({ recordset: [{ ReservedCash: 15000 }] })
+      .mockResolvedValueOnce({ recordset: [{ Commission: 5, CommissionModel: 'BPS' }] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody).toMatchObject({
+      type: 'https://assetsim.com/errors/insufficient-funds',
+      detail: 'Insufficient cash balance. Required: 30015.00 (including 15.00 commission), Available: 25000.00',
+    });
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should reject an increase that only fails once the commission is included', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, quantity: 200 });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord()] })
+      .mockResolvedValueOnce({ recordset: [{ CashBalance: 30010 }] })
+      .mockResolvedValueOnce({ recordset: [{ ReservedCash: 0 }] })
+      .mockResolvedValueOnce({ recordset: [{ Commission: 5, CommissionModel: 'BPS' }] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody.detail).toBe(
+      'Insufficient cash balance. Required: 30015.00 (including 15.00 commission), Available: 30010.00'
+    );
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should reject a SELL increase beyond the position not closed by other orders', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, quantity: 200 });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord({ Side: 'SELL', Status: 'PARTIAL', FilledQuantity: 20 })] })
+      .mockResolvedValueOnce({ recordset: [{ Quantity: 230 }] })
+      .mockResolvedValueOnce({ recordset: [{ OpenQuantity: 100 }] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody.errors).toEqual([
+      expect.objectContaining({
+        path: ['quantity'],
+        message: 'SELL quantity exceeds the long position available to close (150)',
+      }),
+    ]);
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should allow a SELL increase within the position not closed by other orders', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, quantity: 150 });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord({ Side: 'SELL' })] })
+      .mockResolvedValueOnce({ recordset: [{ Quantity: 250 }] })
+      .mockResolvedValueOnce({ recordset: [{ OpenQuantity: 100 }] })
+      .mockResolvedValueOnce({ recordset: [orderRecord({ Side: 'SELL', Quantity: 150 })] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should return 403 when increasing a SHORT on an exchange without margin', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, quantity: 200 });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord({ Side: 'SHORT' })] })
+      .mockResolvedValueOnce({ recordset: [{ AllowMargin: false, InitialMargin: 0.5, MaintenanceMargin: 0.25 }] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should block SHORT increases while the portfolio is in a margin call', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, price: 155 });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord({ Side: 'SHORT' })] })
+      .mockResolvedValueOnce({ recordset: [{ AllowMargin: true, InitialMargin: 0.5, MaintenanceMargin: 0.25 }] })
+      .mockResolvedValueOnce({ recordset: [{ CashBalance: 50000, MarginStatus: 'MARGIN_CALL' }] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody.type).toBe('https://assetsim.com/errors/insufficient-margin');
+  });
+
+  it('should check the initial margin of the amended SHORT quantity', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, quantity: 200 });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord({ Side: 'SHORT' })] })
+      .mockResolvedValueOnce({ recordset: [{ AllowMargin: true, InitialMargin: 0.5, MaintenanceMargin: 0.25 }] })
+      .mockResolvedValueOnce({ recordset: [{ CashBalance: 19000, MarginStatus: 'OK' }] })
+      .mockResolvedValueOnce({ recordset: [] })
+      .mockResolvedValueOnce({ recordset: [{ ReservedCash: 5000 }] })
+      .mockResolvedValueOnce({ recordset: [{ Commission: 0, CommissionModel: 'BPS' }] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody).toMatchObject({
+      type: 'https://assetsim.com/errors/insufficient-margin',
+      detail: 'Insufficient margin. Required: 15000.00 (including 0.00 commission), Available: 14000.00',
+    });
+  });
+
+  it('should reject a quantity at or below the filled quantity', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, quantity: 40 });
+    mockQuery.mockResolvedValueOnce({ recordset: [orderRecord({ Status: 'PARTIAL', FilledQuantity: 40 })] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody.errors).toEqual([
+      expect.objectContaining({ path: ['quantity'] }),
+    ]);
+  });
+
+  it('should reject a stopPrice on a LIMIT order', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, stopPrice: 140 });
+    mockQuery.mockResolvedValueOnce({ recordset: [orderRecord()] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(response.jsonBody.errors).toEqual([
+      expect.objectContaining({ path: ['stopPrice'] }),
+    ]);
+  });
+
+  it('should return 404 without amending when the order is in another user\'s portfolio', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, quantity: 60 });
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    expect(mockQuery.mock.calls[0][0]).toContain(
+      'INNER JOIN [Trade].[Portfolios] p ON p.PortfolioId = o.PortfolioId AND p.UserId = @userId'
+    );
+    expect(mockTransaction.request().input).toHaveBeenCalledWith('userId', 'UniqueIdentifier', 'user-123');
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when the order is CANCELLED', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId, price: 145 });
+    mockQuery.mockResolvedValueOnce({ recordset: [orderRecord({ Status: 'CANCELLED' })] });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(409);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should reject an empty amendment', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ exchangeId });
+
+    const response = await amendOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+});
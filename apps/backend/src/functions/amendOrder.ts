@@ -0,0 +1,332 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import { z } from 'zod';
+import { AmendOrderSchema } from '../types/transaction';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import {
+  OrderRecord,
+  orderColumns,
+  isOpenOrderStatus,
+  mapOrderRecord,
+  calculateReservedCash,
+  getReservedCash,
+  getOpenOrderQuantity,
+} from '../lib/orders';
+import { getCommissionSchedule, estimateOrderCommission } from '../lib/commission';
+import {
+  getMarginSettings,
+  getMarginPositions,
+  calculateMarginSummary,
+  calculateAvailableMargin,
+  calculateShortRequirement,
+} from '../lib/margin';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createConflictResponse,
+  createForbiddenResponse,
+  createInsufficientFundsResponse,
+  createInsufficientMarginResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * Route parameter schema for PATCH /api/v1/orders/{orderId}
+ */
+const AmendOrderParamsSchema = z.object({
+  orderId: z.string().uuid('orderId must be a valid UUID'),
+});
+
+/**
+ * PATCH /api/v1/orders/{orderId}
+ *
+ * Amends (cancel/replace) the quantity, limit price or stop price of an open order
+ * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * Rules:
+ * - Only orders in the caller's own portfolios can be amended; RLS only scopes orders to the
+ *   exchange, so other members' orders are reported as not found (404)
+ * - Only PENDING and PARTIAL orders can be amended
+ * - quantity must stay above the already filled quantity
+ * - price applies to LIMIT and STOP_LIMIT orders, stopPrice to STOP and STOP_LIMIT orders
+ * - SELL and COVER increases cannot exceed the position not already being closed by other orders
+ * - SHORT increases (quantity or limit price) get createOrder's checks: AllowMargin, no margin
+ *   call, and enough equity for the initial margin of the remaining quantity
+ * - BUY and COVER amendments that increase reserved cash are checked against available cash,
+ *   including the estimated commission on the remaining quantity (ADR-006)
+ *
+ * Like a cancel/replace, an amendment loses the order's time priority: apart from a pure
+ * quantity decrease it takes a new PriorityAt, which orders the book in marketEngineTick.
+ * CreatedAt keeps the time the order was placed.
+ *
+ * The order row is locked (UPDLOCK) for the duration of the transaction so the
+ * amendment cannot interleave with a fill from marketEngineTick.
+ */
+export async function amendOrder(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to amend order ${request.params.orderId}`);
+
+    // 2. Validate route parameter and request body with Zod
+    const paramsValidation = AmendOrderParamsSchema.safeParse({ orderId: request.params.orderId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const body = await request.json();
+    const validationResult = AmendOrderSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { orderId } = paramsValidation.data;
+    const { exchangeId, quantity, price, stopPrice } = validationResult.data;
+
+    // 3. Amend inside a transaction so the order row stays locked until commit
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      // Set RLS context on the transaction's connection
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const orderResult = await transaction.request()
+        .input('orderId', sql.UniqueIdentifier, orderId)
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .input('userId', sql.UniqueIdentifier, user.userId)
+        .query<OrderRecord>(`
+          SELECT ${orderColumns('o')}
+          FROM [Trade].[Orders] o WITH (UPDLOCK, ROWLOCK)
+          INNER JOIN [Trade].[Portfolios] p ON p.PortfolioId = o.PortfolioId AND p.UserId = @userId
+          WHERE o.OrderId = @orderId AND o.ExchangeId = @exchangeId
+        `);
+
+      if (orderResult.recordset.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Order not found or you do not have access to it');
+      }
+
+      const order = orderResult.recordset[0];
+
+      if (!isOpenOrderStatus(order.Status)) {
+        await transaction.rollback();
+        return createConflictResponse(
+          `Order ${orderId} is ${order.Status} and can no longer be amended`
+        );
+      }
+
+      // Validate the amendment against the stored order
+      const issues: z.ZodIssue[] = [];
+      const filledQuantity = new Decimal(order.FilledQuantity || 0);
+
+      if (quantity !== undefined && new Decimal(quantity).lessThanOrEqualTo(filledQuantity)) {
+        issues.push({
+          code: z.ZodIssueCode.custom,
+          path: ['quantity'],
+          message: `quantity must be greater than the filled quantity (${filledQuantity.toString()})`,
+        });
+      }
+
+      if (price !== undefined && order.OrderType !== 'LIMIT' && order.OrderType !== 'STOP_LIMIT') {
+        issues.push({
+          code: z.ZodIssueCode.custom,
+          path: ['price'],
+          message: `price cannot be set on ${order.OrderType} orders`,
+        });
+      }
+
+      if (stopPrice !== undefined && order.OrderType !== 'STOP' && order.OrderType !== 'STOP_LIMIT') {
+        issues.push({
+          code: z.ZodIssueCode.custom,
+          path: ['stopPrice'],
+          message: `stopPrice cannot be set on ${order.OrderType} orders`,
+        });
+      }
+
+      const amended = {
+        ...order,
+        Quantity: quantity ?? order.Quantity,
+        Price: price ?? order.Price,
+        StopPrice: stopPrice ?? order.StopPrice,
+      };
+      const remainingQuantity = new Decimal(amended.Quantity).minus(filledQuantity);
+      const increasesQuantity = new Decimal(amended.Quantity).greaterThan(order.Quantity);
+
+      // Closing orders cannot together exceed the position they close, as in createOrder
+      if ((order.Side === 'SELL' || order.Side === 'COVER') && increasesQuantity && issues.length === 0) {
+        const positionResult = await transaction.request()
+          .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
+          .input('symbol', sql.NVarChar, order.Symbol)
+          .query<{ Quantity: number }>(`
+            SELECT Quantity FROM [Trade].[Positions]
+            WHERE PortfolioId = @portfolioId AND Symbol = @symbol
+          `);
+
+        const positionQuantity = new Decimal(positionResult.recordset[0]?.Quantity ?? 0);
+        const heldQuantity = order.Side === 'SELL'
+          ? Decimal.max(0, positionQuantity)
+          : Decimal.max(0, positionQuantity.negated());
+        const openQuantity = await getOpenOrderQuantity(
+          transaction.request(), order.PortfolioId, order.Symbol, order.Side, orderId
+        );
+        const closableQuantity = Decimal.max(0, heldQuantity.minus(openQuantity));
+
+        if (closableQuantity.lessThan(remainingQuantity)) {
+          issues.push({
+            code: z.ZodIssueCode.custom,
+            path: ['quantity'],
+            message: `${order.Side} quantity exceeds the ${order.Side === 'SELL' ? 'long' : 'short'} position available to close (${closableQuantity.plus(filledQuantity).toString()})`,
+          });
+        }
+      }
+
+      if (issues.length > 0) {
+        await transaction.rollback();
+        return createValidationErrorResponse(new z.ZodError(issues));
+      }
+
+      // Check margin when the amendment enlarges a short, as createOrder does for new shorts;
+      // MARKET and STOP shorts are checked during order matching once the price is known
+      if (order.Side === 'SHORT' && (increasesQuantity || new Decimal(amended.Price ?? 0).greaterThan(order.Price ?? 0))) {
+        const marginSettings = await getMarginSettings(transaction.request(), exchangeId);
+
+        if (!marginSettings.allowMargin) {
+          await transaction.rollback();
+          return createForbiddenResponse('Short selling is not allowed on this exchange');
+        }
+
+        const portfolioResult = await transaction.request()
+          .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
+          .query<{ CashBalance: number; MarginStatus: string | null }>(`
+            SELECT CashBalance, MarginStatus
+            FROM [Trade].[Portfolios]
+            WHERE PortfolioId = @portfolioId
+          `);
+        const portfolio = portfolioResult.recordset[0];
+
+        if (portfolio?.MarginStatus === 'MARGIN_CALL') {
+          await transaction.rollback();
+          return createInsufficientMarginResponse(
+            'Portfolio is in a margin call. New short positions are blocked until equity is restored above maintenance margin'
+          );
+        }
+
+        if ((order.OrderType === 'LIMIT' || order.OrderType === 'STOP_LIMIT') && amended.Price) {
+          const positions = await getMarginPositions(transaction.request(), exchangeId, order.PortfolioId);
+          const summary = calculateMarginSummary(portfolio?.CashBalance ?? 0, positions, marginSettings);
+          const reservedCash = await getReservedCash(transaction.request(), order.PortfolioId);
+          const availableMargin = new Decimal(calculateAvailableMargin(summary, reservedCash.toNumber()));
+          const commissionSchedule = await getCommissionSchedule(transaction.request(), exchangeId);
+          const commission = new Decimal(
+            estimateOrderCommission(commissionSchedule, remainingQuantity.toNumber(), amended.Price)
+          );
+          const requiredMargin = new Decimal(
+            calculateShortRequirement(remainingQuantity.toNumber(), amended.Price, marginSettings)
+          ).plus(commission);
+
+          if (availableMargin.lessThan(requiredMargin)) {
+            await transaction.rollback();
+            return createInsufficientMarginResponse(
+              `Insufficient margin. Required: ${requiredMargin.toFixed(2)} (including ${commission.toFixed(2)} commission), Available: ${availableMargin.toFixed(2)}`
+            );
+          }
+        }
+      }
+
+      // Check buying power when the amendment reserves more cash; the remaining quantity must
+      // also cover the commission it will be charged when filled (ADR-006)
+      const currentReservation = calculateReservedCash(order);
+      const amendedReservation = calculateReservedCash(amended);
+
+      if (amendedReservation.greaterThan(currentReservation)) {
+        const portfolioResult = await transaction.request()
+          .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
+          .query<{ CashBalance: number }>(`
+            SELECT CashBalance
+            FROM [Trade].[Portfolios]
+            WHERE PortfolioId = @portfolioId
+          `);
+
+        const cashBalance = new Decimal(portfolioResult.recordset[0]?.CashBalance ?? 0);
+        const reservedElsewhere = await getReservedCash(transaction.request(), order.PortfolioId, orderId);
+        const availableCash = cashBalance.minus(reservedElsewhere);
+        const commissionSchedule = await getCommissionSchedule(transaction.request(), exchangeId);
+        const commission = new Decimal(
+          estimateOrderCommission(commissionSchedule, remainingQuantity.toNumber(), amended.Price as number)
+        );
+        const requiredCash = amendedReservation.plus(commission);
+
+        if (availableCash.lessThan(requiredCash)) {
+          await transaction.rollback();
+          return createInsufficientFundsResponse(
+            `Insufficient cash balance. Required: ${requiredCash.toFixed(2)} (including ${commission.toFixed(2)} commission), Available: ${availableCash.toFixed(2)}`
+          );
+        }
+      }
+
+      // Only a smaller quantity at the same prices keeps its place in the queue
+      const keepsPriority = new Decimal(amended.Quantity).lessThanOrEqualTo(order.Quantity)
+        && new Decimal(amended.Price ?? 0).equals(order.Price ?? 0)
+        && new Decimal(amended.StopPrice ?? 0).equals(order.StopPrice ?? 0);
+
+      const assignments = [
+        'Quantity = @quantity',
+        'Price = @price',
+        'StopPrice = @stopPrice',
+        'UpdatedAt = GETUTCDATE()',
+      ];
+
+      if (!keepsPriority) {
+        assignments.push('PriorityAt = SYSUTCDATETIME()');
+      }
+
+      const updateResult = await transaction.request()
+        .input('orderId', sql.UniqueIdentifier, orderId)
+        .input('quantity', sql.Decimal(18, 8), amended.Quantity)
+        .input('price', sql.Decimal(18, 8), amended.Price ?? null)
+        .input('stopPrice', sql.Decimal(18, 8), amended.StopPrice ?? null)
+        .query<OrderRecord>(`
+          UPDATE [Trade].[Orders]
+          SET ${assignments.join(', ')}
+          OUTPUT ${orderColumns('INSERTED')}
+          WHERE OrderId = @orderId AND Status IN ('PENDING', 'PARTIAL')
+        `);
+
+      await transaction.commit();
+
+      context.log(`Order ${orderId} amended by user ${user.userId}`);
+
+      // 4. Return the amended order
+      return {
+        status: 200,
+        jsonBody: mapOrderRecord(updateResult.recordset[0]),
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error amending order:', error);
+    return handleError(error);
+  }
+}
+
+app.http('amendOrder', {
+  methods: ['PATCH'],
+  route: 'v1/orders/{orderId}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: amendOrder,
+});
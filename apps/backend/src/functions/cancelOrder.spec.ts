@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: 'NVarChar',
+  Decimal: vi.fn(() => 'Decimal'),
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { cancelOrder } from './cancelOrder';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('cancelOrder', () => {
+  const orderId = '550e8400-e29b-41d4-a716-446655440010';
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const portfolioId = '550e8400-e29b-41d4-a716-446655440001';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: {
+    begin: ReturnType<typeof vi.fn>;
+    commit: ReturnType<typeof vi.fn>;
+    rollback: ReturnType<typeof vi.fn>;
+    request: ReturnType<typeof vi.fn>;
+  };
+
+  const orderRecord = (overrides: Record<string, unknown> = {}) => ({
+    OrderId: orderId,
+    ExchangeId: exchangeId,
+    PortfolioId: portfolioId,
+    Symbol: 'AAPL',
+    Side: 'BUY',
+    OrderType: 'LIMIT',
+    Quantity: 100,
+    Price: 150,
+    StopPrice: null,
+    Status: 'PARTIAL',
+    FilledQuantity: 40,
+    AveragePrice: 149.5,
+    Commission: 0,
+    CreatedAt: '2026-01-19T00:00:00.000Z',
+    UpdatedAt: '2026-01-19T00:00:00.000Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { orderId },
+      query: new Map([['exchangeId', exchangeId]]),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({
+        input: vi.fn().mockReturnThis(),
+        query: mockQuery,
+      }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should cancel an open order and return it as CANCELLED', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord()] })
+      .mockResolvedValueOnce({ recordset: [orderRecord({ Status: 'CANCELLED' })] });
+
+    const response = await cancelOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({
+      orderId,
+      status: 'CANCELLED',
+      filledQuantity: 40,
+      averagePrice: 149.5,
+    });
+    expect(database.setSessionContext).toHaveBeenCalledWith(expect.anything(), 'user-123', exchangeId);
+    expect(mockQuery.mock.calls[0][0]).toContain('WITH (UPDLOCK, ROWLOCK)');
+    expect(mockTransaction.commit).toHaveBeenCalled();
+    expect(mockContext.log).toHaveBeenCalledWith(expect.stringContaining('released cash: 9000.00'));
+  });
+
+  it('should return 409 when the order is already FILLED', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [orderRecord({ Status: 'FILLED', FilledQuantity: 100 })] });
+
+    const response = await cancelOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(409);
+    expect(response.jsonBody).toHaveProperty('type', 'https://assetsim.com/errors/conflict');
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the order does not exist', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await cancelOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 without cancelling when the order is in another user\'s portfolio', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await cancelOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+    expect(mockQuery.mock.calls[0][0]).toContain(
+      'INNER JOIN [Trade].[Portfolios] p ON p.PortfolioId = o.PortfolioId AND p.UserId = @userId'
+    );
+    expect(mockTransaction.request().input).toHaveBeenCalledWith('userId', 'UniqueIdentifier', 'user-123');
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when exchangeId is missing', async () => {
+    mockRequest = { ...mockRequest, query: new Map() } as unknown as HttpRequest;
+
+    const response = await cancelOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should require authentication', async () => {
+    vi.mocked(auth.requireAuthentication).mockImplementation(() => {
+      throw new Error('Unauthorized: No valid user principal found');
+    });
+
+    const response = await cancelOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should roll back and return 500 when the update fails', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [orderRecord()] })
+      .mockRejectedValueOnce(new Error('deadlock'));
+
+    const response = await cancelOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(500);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+});
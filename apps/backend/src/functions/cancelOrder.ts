@@ -0,0 +1,138 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { CancelOrderSchema } from '../types/transaction';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import {
+  OrderRecord,
+  orderColumns,
+  isOpenOrderStatus,
+  mapOrderRecord,
+  calculateReservedCash,
+} from '../lib/orders';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createConflictResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * DELETE /api/v1/orders/{orderId}?exchangeId=<uuid>
+ *
+ * Cancels an open (PENDING or PARTIAL) order
+ * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * The order row is locked (UPDLOCK) inside a transaction so a concurrent fill from
+ * marketEngineTick either completes first (and the cancel is refused) or waits and
+ * then sees the CANCELLED status. Already filled quantity is kept; only the unfilled
+ * remainder is cancelled, which releases the cash reserved by that remainder.
+ *
+ * RLS only scopes orders to the exchange, so the locked read joins the order's portfolio
+ * to the caller: other members' orders are reported as not found.
+ *
+ * Returns:
+ * - 200: Cancelled order
+ * - 400: Invalid orderId or exchangeId
+ * - 401: Unauthorized (no valid authentication)
+ * - 404: Order not found, or not in one of the caller's portfolios
+ * - 409: Order is already FILLED, CANCELLED or REJECTED
+ * - 500: Internal server error
+ */
+export async function cancelOrder(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to cancel order ${request.params.orderId}`);
+
+    // 2. Validate route and query parameters with Zod
+    const validationResult = CancelOrderSchema.safeParse({
+      orderId: request.params.orderId,
+      exchangeId: request.query.get('exchangeId') ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { orderId, exchangeId } = validationResult.data;
+
+    // 3. Cancel inside a transaction so the order row stays locked until commit
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      // Set RLS context on the transaction's connection
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const orderResult = await transaction.request()
+        .input('orderId', sql.UniqueIdentifier, orderId)
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .input('userId', sql.UniqueIdentifier, user.userId)
+        .query<OrderRecord>(`
+          SELECT ${orderColumns('o')}
+          FROM [Trade].[Orders] o WITH (UPDLOCK, ROWLOCK)
+          INNER JOIN [Trade].[Portfolios] p ON p.PortfolioId = o.PortfolioId AND p.UserId = @userId
+          WHERE o.OrderId = @orderId AND o.ExchangeId = @exchangeId
+        `);
+
+      if (orderResult.recordset.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Order not found or you do not have access to it');
+      }
+
+      const order = orderResult.recordset[0];
+
+      if (!isOpenOrderStatus(order.Status)) {
+        await transaction.rollback();
+        return createConflictResponse(
+          `Order ${orderId} is ${order.Status} and can no longer be cancelled`
+        );
+      }
+
+      const updateResult = await transaction.request()
+        .input('orderId', sql.UniqueIdentifier, orderId)
+        .query<OrderRecord>(`
+          UPDATE [Trade].[Orders]
+          SET Status = 'CANCELLED',
+              UpdatedAt = GETUTCDATE()
+          OUTPUT ${orderColumns('INSERTED')}
+          WHERE OrderId = @orderId AND Status IN ('PENDING', 'PARTIAL')
+        `);
+
+      await transaction.commit();
+
+      const releasedCash = calculateReservedCash(order);
+      context.log(
+        `Order ${orderId} cancelled by user ${user.userId} (released cash: ${releasedCash.toFixed(2)})`
+      );
+
+      // 4. Return the cancelled order
+      return {
+        status: 200,
+        jsonBody: mapOrderRecord(updateResult.recordset[0]),
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error cancelling order:', error);
+    return handleError(error);
+  }
+}
+
+app.http('cancelOrder', {
+  methods: ['DELETE'],
+  route: 'v1/orders/{orderId}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: cancelOrder,
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/signalr-broadcast');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  Int: 'Int',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { controlScenario } from './controlScenario';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+import * as signalr from '../lib/signalr-broadcast';
+
+describe('controlScenario', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const scenarioId = '660e8400-e29b-41d4-a716-446655440000';
+  const activeExchange = {
+    ExchangeId: exchangeId,
+    Name: 'Test Exchange',
+    CreatedAt: '2026-01-01T00:00:00Z',
+    CreatedBy: 'user-123',
+  };
+  const scenario = {
+    ScenarioId: scenarioId,
+    ExchangeId: exchangeId,
+    Name: 'Tech selloff',
+    Timeline: JSON.stringify([{ type: 'HALT', atSeconds: 30, symbol: 'AAPL' }]),
+    Status: 'RUNNING',
+    ElapsedMs: 0,
+    ResumedAt: '2026-01-02T00:00:00Z',
+    NextEventIndex: 0,
+    CreatedBy: 'user-123',
+    CreatedAt: '2026-01-02T00:00:00Z',
+  };
+
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  function requestFor(action: string): HttpRequest {
+    return {
+      params: { exchangeId, scenarioId, action },
+      query: new Map(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+  }
+
+  function asRiskManager() {
+    return mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] });
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should start a READY scenario', async () => {
+    asRiskManager()
+      .mockResolvedValueOnce({ recordset: [{ Status: 'READY', OtherInProgress: 0 }] })
+      .mockResolvedValueOnce({ recordset: [scenario] });
+
+    const response = await controlScenario(requestFor('start'), mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ scenarioId, status: 'RUNNING' });
+    expect(mockTransaction.commit).toHaveBeenCalled();
+    expect(signalr.broadcastExchangeConfigUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should notify clients when a reset lifts halts and restores the volatility regime', async () => {
+    const halt = {
+      HaltId: 1,
+      ExchangeId: exchangeId,
+      Symbol: 'AAPL',
+      Reason: 'SCENARIO',
+      ScenarioId: scenarioId,
+      HaltedAt: new Date('2026-01-19T10:00:00Z'),
+      ResumeAt: null,
+      ResumedAt: new Date('2026-01-19T10:05:00Z'),
+    };
+    asRiskManager()
+      .mockResolvedValueOnce({ recordset: [{ Status: 'RUNNING', OtherInProgress: 0 }] })
+      .mockResolvedValueOnce({ recordset: [halt], rowsAffected: [1] })
+      .mockResolvedValueOnce({ rowsAffected: [1] })
+      .mockResolvedValueOnce({ recordset: [{ ...scenario, Status: 'READY', ResumedAt: null }] });
+
+    const response = await controlScenario(requestFor('reset'), mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ status: 'READY', elapsedSeconds: 0 });
+    expect(signalr.broadcastTradingHalt).toHaveBeenCalledWith(
+      expect.objectContaining({ exchangeId, symbol: 'AAPL', status: 'RESUMED', reason: 'SCENARIO' }),
+      mockContext
+    );
+    expect(signalr.broadcastExchangeConfigUpdated).toHaveBeenCalledWith(
+      expect.objectContaining({ exchangeId, updatedBy: 'user-123' }),
+      mockContext
+    );
+  });
+
+  it('should return 409 when the scenario cannot make the transition', async () => {
+    asRiskManager().mockResolvedValueOnce({ recordset: [{ Status: 'READY', OtherInProgress: 0 }] });
+
+    const response = await controlScenario(requestFor('pause'), mockContext);
+
+    expect(response.status).toBe(409);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when another scenario is in progress', async () => {
+    asRiskManager().mockResolvedValueOnce({ recordset: [{ Status: 'READY', OtherInProgress: 1 }] });
+
+    const response = await controlScenario(requestFor('start'), mockContext);
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should return 404 when the scenario does not exist', async () => {
+    asRiskManager().mockResolvedValueOnce({ recordset: [] });
+
+    const response = await controlScenario(requestFor('start'), mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 400 for an unknown action', async () => {
+    const response = await controlScenario(requestFor('rewind'), mockContext);
+
+    expect(response.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] });
+
+    const response = await controlScenario(requestFor('start'), mockContext);
+
+    expect(response.status).toBe(403);
+  });
+});
@@ -0,0 +1,137 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ScenarioActionParamsSchema } from '../types/scenario';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange } from '../lib/exchanges';
+import { mapScenarioRecord, transitionScenario } from '../lib/scenarios';
+import { mapTradingHaltEvent } from '../lib/trading-halts';
+import { broadcastExchangeConfigUpdated, broadcastTradingHalt } from '../lib/signalr-broadcast';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  createConflictResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * POST /api/v1/exchanges/{exchangeId}/scenarios/{scenarioId}/{action}
+ *
+ * Starts, pauses or resets a market scenario (action: start | pause | reset)
+ * Restricted to RiskManagers (ADR-002)
+ *
+ * - start: runs a READY scenario, or continues a PAUSED one where it stopped
+ * - pause: stops a RUNNING scenario's clock; halts it placed stay in force
+ * - reset: rewinds any scenario to READY, lifts its halts and restores the VolatilityIndex the
+ *   exchange had before it first started (then TradingHalt RESUMED and ExchangeConfigUpdated
+ *   events are pushed to ticker:{exchangeId})
+ *
+ * Returns:
+ * - 200: ScenarioResponse
+ * - 400: Invalid exchangeId, scenarioId or action
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange or scenario not found, archived, or caller is not a member
+ * - 409: Scenario cannot make this transition, or another scenario is in progress
+ * - 500: Internal server error
+ */
+export async function controlScenario(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting ${request.params.action} of scenario ${request.params.scenarioId}`);
+
+    // 2. Validate route parameters with Zod
+    const paramsValidation = ScenarioActionParamsSchema.safeParse({
+      exchangeId: request.params.exchangeId,
+      scenarioId: request.params.scenarioId,
+      action: request.params.action,
+    });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId, scenarioId, action } = paramsValidation.data;
+
+    // 3. Check the caller's role and change the scenario within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+    let result;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = callerRoles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      if (!exchange) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage market scenarios');
+      }
+
+      result = await transitionScenario(transaction, exchangeId, scenarioId, action);
+
+      switch (result.status) {
+        case 'NOT_FOUND':
+          await transaction.rollback();
+          return createNotFoundResponse('Scenario not found');
+        case 'INVALID_STATE':
+          await transaction.rollback();
+          return createConflictResponse(`Cannot ${action} a ${result.current} scenario`);
+        case 'ANOTHER_IN_PROGRESS':
+          await transaction.rollback();
+          return createConflictResponse('Another scenario is running or paused on this exchange');
+      }
+
+      await transaction.commit();
+
+      context.log(`Scenario ${scenarioId} on exchange ${exchangeId}: ${action} by user ${user.userId}`);
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+
+    // 4. Notify connected clients of lifted halts and a restored volatility regime
+    for (const halt of result.resumedHalts) {
+      await broadcastTradingHalt(mapTradingHaltEvent(halt, 'RESUMED'), context);
+    }
+
+    if (result.volatilityRestored) {
+      await broadcastExchangeConfigUpdated(
+        { exchangeId, updatedBy: user.userId, timestamp: new Date().toISOString() },
+        context
+      );
+    }
+
+    // 5. Return the scenario
+    return {
+      status: 200,
+      jsonBody: mapScenarioRecord(result.scenario),
+    };
+  } catch (error) {
+    context.error('Error controlling scenario:', error);
+    return handleError(error);
+  }
+}
+
+app.http('controlScenario', {
+  methods: ['POST'],
+  route: 'v1/exchanges/{exchangeId}/scenarios/{scenarioId}/{action}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: controlScenario,
+});
@@ -14,6 +14,7 @@ vi.mock('mssql', () => ({
   Request: vi.fn(),
   NVarChar: 'NVarChar',
   UniqueIdentifier: 'UniqueIdentifier',
+  Int: 'Int',
 }));
 vi.mock('./createExchange', () => ({
   createExchange: vi.fn(),
@@ -1,9 +1,10 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import * as sql from 'mssql';
 import { CreateExchangeSchema, ExchangeResponse } from '../types/exchange';
-import { getConnectionPool } from '../lib/database';
+import { getConnectionPool, setSessionContext } from '../lib/database';
 import { requireAuthentication } from '../lib/auth';
 import { cacheExchangeConfig } from '../lib/cache';
+import { listAllInstruments } from '../lib/exchange-instruments';
 import {
   createValidationErrorResponse,
   handleError,
@@ -17,6 +18,7 @@ import {
  * 1. Firm creates a new Simulation Venue via POST /api/v1/exchanges
  * 2. Backend creates Exchange record
  * 3. Backend inserts a record into ExchangeRoles assigning the RiskManager (Admin) role to the creator
+ * 4. Backend lists every active instrument on the new exchange (the RiskManager can delist them later)
  */
 export async function createExchange(
   request: HttpRequest,
@@ -35,7 +37,7 @@ export async function createExchange(
       return createValidationErrorResponse(validationResult.error);
     }
 
-    const { name } = validationResult.data;
+    const { name, simulationSeed } = validationResult.data;
 
     // 3. Create Exchange and assign RiskManager role in a transaction
     const pool = await getConnectionPool();
@@ -57,12 +59,13 @@ export async function createExchange(
 
       const exchange = exchangeResult.recordset[0];
 
-      // Create default configuration for the exchange
+      // Create default configuration for the exchange (optionally seeded for a reproducible market)
       await transaction.request()
         .input('exchangeId', sql.UniqueIdentifier, exchange.ExchangeId)
+        .input('simulationSeed', sql.Int, simulationSeed ?? null)
         .query(`
-          INSERT INTO [Trade].[ExchangeConfigurations] ([ExchangeId])
-          VALUES (@exchangeId)
+          INSERT INTO [Trade].[ExchangeConfigurations] ([ExchangeId], [SimulationSeed])
+          VALUES (@exchangeId, @simulationSeed)
         `);
 
       // Assign RiskManager (Admin) role to the creator
@@ -75,9 +78,14 @@ export async function createExchange(
           VALUES (@exchangeId, @userId, @role)
         `);
 
+      // List every active instrument (ExchangeInstruments is RLS-protected, so the
+      // session context is set once the creator holds a role)
+      await setSessionContext(transaction.request(), user.userId, exchange.ExchangeId);
+      const listedCount = await listAllInstruments(transaction, exchange.ExchangeId);
+
       await transaction.commit();
 
-      context.log(`Exchange ${exchange.ExchangeId} created successfully by user ${user.userId}`);
+      context.log(`Exchange ${exchange.ExchangeId} created successfully by user ${user.userId} with ${listedCount} instruments listed`);
 
       // Cache the default exchange configuration (ADR-008)
       try {
@@ -85,6 +93,7 @@ export async function createExchange(
           volatilityIndex: 1.0,
           startingCash: 10000000.00,
           commission: 5.00,
+          commissionModel: 'BPS',
           allowMargin: true,
           maxPortfolioSize: 50,
           dashboardLayout: '[]',
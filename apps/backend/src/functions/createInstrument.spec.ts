@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  NVarChar: vi.fn(() => 'NVarChar'),
+  Decimal: vi.fn(() => 'Decimal'),
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { createInstrument } from './createInstrument';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+const instrumentRecord = {
+  Symbol: 'AAPL',
+  CompanyName: 'Apple Inc.',
+  Sector: 'Technology',
+  AssetClass: 'EQUITY',
+  BasePrice: 150,
+  VolatilityMultiplier: 1,
+  TickSize: 0.01,
+  LotSize: 1,
+  PriceModel: null,
+  Beta: 1,
+};
+
+describe('createInstrument', () => {
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockInput: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: ['authenticated', 'admin'],
+    });
+
+    mockRequest = {
+      params: {},
+      query: new Map(),
+      headers: { get: vi.fn() },
+      json: vi.fn().mockResolvedValue({ symbol: 'AAPL', companyName: 'Apple Inc.', sector: 'Technology', basePrice: 150 }),
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockInput = vi.fn().mockReturnThis();
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }),
+    } as any);
+  });
+
+  it('should create an instrument with default simulation parameters', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [instrumentRecord] });
+
+    const response = await createInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(201);
+    expect(response.jsonBody).toMatchObject({ symbol: 'AAPL', assetClass: 'EQUITY' });
+    expect(mockInput).toHaveBeenCalledWith('instrumentAssetClass', 'NVarChar', 'EQUITY');
+    expect(mockInput).toHaveBeenCalledWith('instrumentVolatilityMultiplier', 'Decimal', 1);
+    expect(mockInput).toHaveBeenCalledWith('instrumentTickSize', 'Decimal', 0.01);
+    expect(mockInput).toHaveBeenCalledWith('instrumentLotSize', 'Decimal', 1);
+    expect(mockInput).toHaveBeenCalledWith('instrumentPriceModel', 'NVarChar', null);
+    expect(mockInput).toHaveBeenCalledWith('instrumentBeta', 'Decimal', 1);
+    expect(mockQuery.mock.calls[0][0]).toContain('target.IsActive = 0');
+  });
+
+  it('should return 409 when an active instrument already uses the symbol', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await createInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should return 400 when the base price is below one tick', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({
+      symbol: 'PENNY',
+      companyName: 'Penny Corp',
+      basePrice: 0.001,
+      tickSize: 0.01,
+    });
+
+    const response = await createInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when the caller is not a platform administrator', async () => {
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: ['authenticated'],
+    });
+
+    const response = await createInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { CreateInstrumentSchema } from '../types/instrument';
+import { getConnectionPool } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { INSTRUMENT_ADMIN_ROLE, createInstrument as insertInstrument, mapInstrumentRecord } from '../lib/instruments';
+import {
+  createValidationErrorResponse,
+  createForbiddenResponse,
+  createConflictResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * POST /api/v1/instruments
+ *
+ * Adds an instrument to the global instrument master
+ * Restricted to platform administrators (Static Web Apps `admin` role)
+ *
+ * Creating an archived symbol restores it with the new values.
+ *
+ * Returns:
+ * - 201: InstrumentResponse
+ * - 400: Invalid request body
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a platform administrator
+ * - 409: An active instrument already uses the symbol
+ * - 500: Internal server error
+ */
+export async function createInstrument(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID) and check the platform role
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to create an instrument`);
+
+    if (!user.userRoles.includes(INSTRUMENT_ADMIN_ROLE)) {
+      return createForbiddenResponse('Only platform administrators can manage instruments');
+    }
+
+    // 2. Validate request body with Zod
+    const body = await request.json();
+    const validationResult = CreateInstrumentSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const instrumentData = validationResult.data;
+
+    // 3. Insert the instrument (or restore an archived one)
+    const pool = await getConnectionPool();
+    const instrument = await insertInstrument(pool, instrumentData);
+
+    if (!instrument) {
+      return createConflictResponse(`Instrument ${instrumentData.symbol} already exists`);
+    }
+
+    context.log(`Instrument ${instrument.Symbol} created by user ${user.userId}`);
+
+    return {
+      status: 201,
+      jsonBody: mapInstrumentRecord(instrument),
+    };
+  } catch (error) {
+    context.error('Error creating instrument:', error);
+    return handleError(error);
+  }
+}
+
+app.http('createInstrument', {
+  methods: ['POST'],
+  route: 'v1/instruments',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: createInstrument,
+});
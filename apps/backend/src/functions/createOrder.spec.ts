@@ -166,4 +166,37 @@ describe.skip('createOrder', () => {
     expect(result.status).toBe(201);
     expect(result.jsonBody).toHaveProperty('orderId', 'order-123');
   });
+
+  it('should reject symbols not listed on the exchange', async () => {
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    const mockQuery = vi.fn()
+      .mockResolvedValueOnce({ recordset: [] }) // session context
+      .mockResolvedValueOnce({ recordset: [{ ExchangeId: '550e8400-e29b-41d4-a716-446655440000' }] })
+      .mockResolvedValueOnce({ recordset: [] }); // listing check
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    } as any);
+
+    vi.mocked(mockRequest.json).mockResolvedValue({
+      exchangeId: '550e8400-e29b-41d4-a716-446655440000',
+      symbol: 'DELISTED',
+      side: 'BUY',
+      orderType: 'LIMIT',
+      quantity: 100,
+      price: 150.50,
+      portfolioId: '550e8400-e29b-41d4-a716-446655440001',
+    });
+
+    const result = await createOrder(mockRequest, mockContext);
+
+    expect(result.status).toBe(400);
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+  });
 });
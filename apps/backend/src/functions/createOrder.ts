@@ -1,13 +1,37 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import * as sql from 'mssql';
 import Decimal from 'decimal.js';
-import { CreateOrderSchema, OrderResponse } from '../types/transaction';
+import { z } from 'zod';
+import { CreateOrderSchema } from '../types/transaction';
 import { getConnectionPool } from '../lib/database';
 import { requireAuthentication } from '../lib/auth';
+import {
+  OrderRecord,
+  orderColumns,
+  mapOrderRecord,
+  getReservedCash,
+  getOpenOrderQuantity,
+  CASH_PAYING_SIDES,
+} from '../lib/orders';
+import { getCommissionSchedule, estimateOrderCommission } from '../lib/commission';
+import { isInstrumentListed } from '../lib/exchange-instruments';
+import { getActiveHalt } from '../lib/trading-halts';
+import { getMarketSessionPhase, getMarketSessionSchedule, isOrderTypeAccepted } from '../lib/market-sessions';
+import {
+  getMarginSettings,
+  getMarginPositions,
+  calculateMarginSummary,
+  calculateAvailableMargin,
+  calculateShortRequirement,
+} from '../lib/margin';
 import {
   createValidationErrorResponse,
   createNotFoundResponse,
+  createForbiddenResponse,
   createInsufficientFundsResponse,
+  createInsufficientMarginResponse,
+  createTradingHaltedResponse,
+  createMarketClosedResponse,
   handleError,
 } from '../lib/error-handler';
 
@@ -16,6 +40,16 @@ import {
  * 
  * Creates a new order in the exchange
  * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * Orders are only accepted for active instruments listed on the exchange, and not while the
+ * symbol or the whole exchange is halted (409 Trading Halted). Exchanges with a trading session
+ * accept no orders while CLOSED and only MARKET and LIMIT orders during the pre-open and closing
+ * auction phases (409 Market Closed).
+ *
+ * Side semantics:
+ * - BUY / SELL open and close long positions; SELL cannot exceed the long position
+ * - SHORT / COVER open and close short positions; COVER cannot exceed the short position
+ * - SHORT requires AllowMargin, no margin call, and enough equity for the initial margin
  */
 export async function createOrder(
   request: HttpRequest,
@@ -61,12 +95,43 @@ export async function createOrder(
       return createNotFoundResponse('Exchange not found or is inactive');
     }
 
+    // Reject symbols the exchange does not trade (unlisted, archived or unknown)
+    if (!(await isInstrumentListed(pool.request(), exchangeId, symbol))) {
+      return createValidationErrorResponse(
+        new z.ZodError([
+          {
+            code: z.ZodIssueCode.custom,
+            path: ['symbol'],
+            message: `Symbol ${symbol} is not listed on this exchange`,
+          },
+        ])
+      );
+    }
+
+    // Reject orders while a scenario, LULD band or circuit breaker halt covers the symbol
+    const halt = await getActiveHalt(pool.request(), exchangeId, symbol);
+    if (halt) {
+      const scope = halt.Symbol ? `Trading in ${symbol} is` : 'Trading on this exchange is';
+      const until = halt.ResumeAt ? ` until ${new Date(halt.ResumeAt).toISOString()}` : '';
+      return createTradingHaltedResponse(`${scope} halted (${halt.Reason})${until}.`);
+    }
+
+    // Outside continuous trading only the auctions' MARKET and LIMIT orders are accepted
+    const sessionPhase = getMarketSessionPhase(await getMarketSessionSchedule(pool.request(), exchangeId));
+    if (!isOrderTypeAccepted(sessionPhase, orderType)) {
+      return createMarketClosedResponse(
+        sessionPhase === 'CLOSED'
+          ? 'The market is closed; orders are accepted from the pre-open.'
+          : `Only MARKET and LIMIT orders are accepted during ${sessionPhase}.`
+      );
+    }
+
     // Verify portfolio ownership (RLS will enforce this)
     const portfolioCheck = await pool.request()
       .input('portfolioId', sql.UniqueIdentifier, portfolioId)
       .input('exchangeId', sql.UniqueIdentifier, exchangeId)
       .query(`
-        SELECT PortfolioId, CashBalance FROM [Trade].[Portfolios]
+        SELECT PortfolioId, CashBalance, MarginStatus FROM [Trade].[Portfolios]
         WHERE PortfolioId = @portfolioId AND ExchangeId = @exchangeId
       `);
 
@@ -75,20 +140,101 @@ export async function createOrder(
     }
 
     const portfolio = portfolioCheck.recordset[0];
+    const commissionSchedule = await getCommissionSchedule(pool.request(), exchangeId);
+
+    // Validate the order against the current position: longs are closed with SELL,
+    // shorts with COVER, and closing orders cannot exceed what is not already being closed
+    const positionResult = await pool.request()
+      .input('portfolioId', sql.UniqueIdentifier, portfolioId)
+      .input('symbol', sql.NVarChar, symbol)
+      .query<{ Quantity: number }>(`
+        SELECT Quantity FROM [Trade].[Positions]
+        WHERE PortfolioId = @portfolioId AND Symbol = @symbol
+      `);
+
+    const positionQuantity = new Decimal(positionResult.recordset[0]?.Quantity ?? 0);
+    const issues: z.ZodIssue[] = [];
+
+    if ((side === 'BUY' && positionQuantity.isNegative()) || (side === 'SHORT' && positionQuantity.greaterThan(0))) {
+      issues.push({
+        code: z.ZodIssueCode.custom,
+        path: ['side'],
+        message: positionQuantity.isNegative()
+          ? `Portfolio is short ${positionQuantity.abs().toString()} ${symbol}; use COVER to buy back a short position`
+          : `Portfolio is long ${positionQuantity.toString()} ${symbol}; SELL the long position before opening a short`,
+      });
+    }
+
+    if (side === 'SELL' || side === 'COVER') {
+      const heldQuantity = side === 'SELL'
+        ? Decimal.max(0, positionQuantity)
+        : Decimal.max(0, positionQuantity.negated());
+      const openQuantity = await getOpenOrderQuantity(pool.request(), portfolioId, symbol, side);
+      const closableQuantity = Decimal.max(0, heldQuantity.minus(openQuantity));
+
+      if (closableQuantity.lessThan(quantity)) {
+        issues.push({
+          code: z.ZodIssueCode.custom,
+          path: ['quantity'],
+          message: `${side} quantity exceeds the ${side === 'SELL' ? 'long' : 'short'} position available to close (${closableQuantity.toString()})`,
+        });
+      }
+    }
+
+    if (issues.length > 0) {
+      return createValidationErrorResponse(new z.ZodError(issues));
+    }
+
+    // Validate margin for SHORT orders using Decimal.js (ADR-006)
+    // Short sale proceeds are credited to cash, so equity is unchanged by the short itself;
+    // the new short must be covered by equity not already backing existing shorts or open orders.
+    // MARKET and STOP shorts are checked during order matching once the price is known.
+    if (side === 'SHORT') {
+      const marginSettings = await getMarginSettings(pool.request(), exchangeId);
+
+      if (!marginSettings.allowMargin) {
+        return createForbiddenResponse('Short selling is not allowed on this exchange');
+      }
+
+      if (portfolio.MarginStatus === 'MARGIN_CALL') {
+        return createInsufficientMarginResponse(
+          'Portfolio is in a margin call. New short positions are blocked until equity is restored above maintenance margin'
+        );
+      }
+
+      if ((orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && price) {
+        const positions = await getMarginPositions(pool.request(), exchangeId, portfolioId);
+        const summary = calculateMarginSummary(portfolio.CashBalance, positions, marginSettings);
+        const reservedCash = await getReservedCash(pool.request(), portfolioId);
+        const availableMargin = new Decimal(calculateAvailableMargin(summary, reservedCash.toNumber()));
+        const commission = new Decimal(estimateOrderCommission(commissionSchedule, quantity, price));
+        const requiredMargin = new Decimal(calculateShortRequirement(quantity, price, marginSettings)).plus(commission);
+
+        if (availableMargin.lessThan(requiredMargin)) {
+          return createInsufficientMarginResponse(
+            `Insufficient margin. Required: ${requiredMargin.toFixed(2)} (including ${commission.toFixed(2)} commission), Available: ${availableMargin.toFixed(2)}`
+          );
+        }
+      }
+    }
     
-    // Validate sufficient cash balance for BUY orders using Decimal.js (ADR-006)
+    // Validate sufficient cash balance for BUY and COVER orders using Decimal.js (ADR-006)
     // Note: MARKET orders cannot be validated at creation time since they don't have a price.
     // MARKET orders will be validated during order matching in the market engine when the
     // current market price is known.
-    if (side === 'BUY' && (orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && price) {
-      const cashBalance = new Decimal(portfolio.CashBalance);
+    // Cash already reserved by the portfolio's other open BUY and COVER orders is not available,
+    // and the order must also cover the commission it will be charged when filled.
+    if (CASH_PAYING_SIDES.includes(side) && (orderType === 'LIMIT' || orderType === 'STOP_LIMIT') && price) {
+      const reservedCash = await getReservedCash(pool.request(), portfolioId);
+      const cashBalance = new Decimal(portfolio.CashBalance).minus(reservedCash);
       const orderQuantity = new Decimal(quantity);
       const orderPrice = new Decimal(price);
-      const requiredCash = orderQuantity.times(orderPrice);
+      const commission = new Decimal(estimateOrderCommission(commissionSchedule, quantity, price));
+      const requiredCash = orderQuantity.times(orderPrice).plus(commission);
       
       if (cashBalance.lessThan(requiredCash)) {
         return createInsufficientFundsResponse(
-          `Insufficient cash balance. Required: ${requiredCash.toFixed(2)}, Available: ${cashBalance.toFixed(2)}`
+          `Insufficient cash balance. Required: ${requiredCash.toFixed(2)} (including ${commission.toFixed(2)} commission), Available: ${cashBalance.toFixed(2)}`
         );
       }
     }
@@ -105,23 +251,10 @@ export async function createOrder(
       .input('stopPrice', sql.Decimal(18, 8), stopPrice ?? null)
       .input('status', sql.NVarChar, 'PENDING')
       .input('filledQuantity', sql.Decimal(18, 8), 0)
-      .query(`
+      .query<OrderRecord>(`
         INSERT INTO [Trade].[Orders] 
         ([ExchangeId], [PortfolioId], [Symbol], [Side], [OrderType], [Quantity], [Price], [StopPrice], [Status], [FilledQuantity])
-        OUTPUT 
-          INSERTED.[OrderId], 
-          INSERTED.[ExchangeId],
-          INSERTED.[PortfolioId],
-          INSERTED.[Symbol],
-          INSERTED.[Side],
-          INSERTED.[OrderType],
-          INSERTED.[Quantity],
-          INSERTED.[Price],
-          INSERTED.[StopPrice],
-          INSERTED.[Status],
-          INSERTED.[FilledQuantity],
-          INSERTED.[CreatedAt],
-          INSERTED.[UpdatedAt]
+        OUTPUT ${orderColumns('INSERTED')}
         VALUES 
         (@exchangeId, @portfolioId, @symbol, @side, @orderType, @quantity, @price, @stopPrice, @status, @filledQuantity)
       `);
@@ -131,21 +264,7 @@ export async function createOrder(
     context.log(`Order ${order.OrderId} created successfully for portfolio ${portfolioId}`);
 
     // 5. Return response using Decimal.js for precision (ADR-006)
-    const response: OrderResponse = {
-      orderId: order.OrderId,
-      exchangeId: order.ExchangeId,
-      portfolioId: order.PortfolioId,
-      symbol: order.Symbol,
-      side: order.Side,
-      orderType: order.OrderType,
-      quantity: new Decimal(order.Quantity).toNumber(),
-      price: order.Price ? new Decimal(order.Price).toNumber() : undefined,
-      stopPrice: order.StopPrice ? new Decimal(order.StopPrice).toNumber() : undefined,
-      status: order.Status,
-      filledQuantity: new Decimal(order.FilledQuantity).toNumber(),
-      createdAt: order.CreatedAt,
-      updatedAt: order.UpdatedAt,
-    };
+    const response = mapOrderRecord(order);
 
     return {
       status: 201,
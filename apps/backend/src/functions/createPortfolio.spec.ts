@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Money: 'Money',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { createPortfolio } from './createPortfolio';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('createPortfolio', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const portfolioId = '550e8400-e29b-41d4-a716-446655440001';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockInput: ReturnType<typeof vi.fn>;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId },
+      json: vi.fn().mockResolvedValue({ name: 'Growth' }),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockInput = vi.fn().mockReturnThis();
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should create a portfolio funded from StartingCash', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ StartingCash: 1000000, MaxPortfolioSize: 50, PortfolioCount: 3 }] })
+      .mockResolvedValueOnce({
+        recordset: [{
+          PortfolioId: portfolioId,
+          ExchangeId: exchangeId,
+          Name: 'Growth',
+          CashBalance: 1000000,
+          RealizedPnL: 0,
+          MarginStatus: 'OK',
+        }],
+      });
+
+    const response = await createPortfolio(mockRequest, mockContext);
+
+    expect(response.status).toBe(201);
+    expect(response.jsonBody).toEqual({
+      portfolioId,
+      exchangeId,
+      name: 'Growth',
+      cashBalance: 1000000,
+      totalValue: 1000000,
+      unrealizedPnL: 0,
+      realizedPnL: 0,
+      marginStatus: 'OK',
+      positions: [],
+    });
+    expect(mockInput).toHaveBeenCalledWith('provisionUserId', 'UniqueIdentifier', 'user-123');
+    expect(database.setSessionContext).toHaveBeenCalledWith(expect.anything(), 'user-123', exchangeId);
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should return 409 when the exchange has reached MaxPortfolioSize', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ StartingCash: 1000000, MaxPortfolioSize: 3, PortfolioCount: 3 }] });
+
+    const response = await createPortfolio(mockRequest, mockContext);
+
+    expect(response.status).toBe(409);
+    expect(response.jsonBody.detail).toContain('maximum of 3 portfolios');
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 for Analysts', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [{ Role: 'Analyst' }] });
+
+    const response = await createPortfolio(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member of the exchange', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await createPortfolio(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should reject an invalid exchangeId', async () => {
+    mockRequest = { ...mockRequest, params: { exchangeId: 'not-a-uuid' } } as unknown as HttpRequest;
+
+    const response = await createPortfolio(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should reject an empty name', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValue({ name: '  ' });
+
+    const response = await createPortfolio(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,128 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { CreatePortfolioParamsSchema, CreatePortfolioSchema } from '../types/transaction';
+import { ExchangeRole } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { buildPortfolioResponse, provisionPortfolio } from '../lib/portfolio';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  createConflictResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * Roles that may own portfolios
+ */
+const PORTFOLIO_OWNER_ROLES: readonly ExchangeRole[] = ['RiskManager', 'PortfolioManager'];
+
+/**
+ * POST /api/v1/exchanges/{exchangeId}/portfolios
+ *
+ * Creates a portfolio for the caller, funded with the exchange's StartingCash
+ * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * PortfolioManagers also get their first portfolio automatically when the role is granted
+ * (see lib/exchange-roles.ts); this endpoint creates additional portfolios.
+ *
+ * Returns:
+ * - 201: PortfolioResponse for the new portfolio
+ * - 400: Invalid exchangeId or name
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is an Analyst (read-only)
+ * - 404: Exchange not found (or caller is not a member)
+ * - 409: Exchange has reached MaxPortfolioSize
+ * - 500: Internal server error
+ */
+export async function createPortfolio(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting a portfolio in exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameter and request body with Zod
+    const paramsValidation = CreatePortfolioParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const body = await request.json();
+    const validationResult = CreatePortfolioSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+    const { name } = validationResult.data;
+
+    // 3. Check membership and provision within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const roles = await getExchangeRoles(transaction, exchangeId, user.userId);
+
+      if (roles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!roles.some((role) => PORTFOLIO_OWNER_ROLES.includes(role))) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers and PortfolioManagers can own portfolios');
+      }
+
+      // 4. Fund from StartingCash, enforcing MaxPortfolioSize
+      const result = await provisionPortfolio(transaction, exchangeId, user.userId, name);
+
+      if (result.status === 'EXCHANGE_NOT_FOUND') {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (result.status === 'LIMIT_REACHED') {
+        await transaction.rollback();
+        return createConflictResponse(
+          `Exchange has reached its maximum of ${result.maxPortfolioSize} portfolios`
+        );
+      }
+
+      await transaction.commit();
+
+      context.log(`Portfolio ${result.portfolio.PortfolioId} created in exchange ${exchangeId} for user ${user.userId}`);
+
+      // 5. Return the new portfolio (no positions yet, so it is valued at its cash balance)
+      return {
+        status: 201,
+        jsonBody: buildPortfolioResponse(result.portfolio, [], new Map()),
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error creating portfolio:', error);
+    return handleError(error);
+  }
+}
+
+app.http('createPortfolio', {
+  methods: ['POST'],
+  route: 'v1/exchanges/{exchangeId}/portfolios',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: createPortfolio,
+});
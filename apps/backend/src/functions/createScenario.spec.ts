@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: -1,
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { createScenario } from './createScenario';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('createScenario', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const activeExchange = {
+    ExchangeId: exchangeId,
+    Name: 'Test Exchange',
+    CreatedAt: '2026-01-01T00:00:00Z',
+    CreatedBy: 'user-123',
+  };
+  const events = [
+    { type: 'VOLATILITY_REGIME', atSeconds: 0, volatilityIndex: 2 },
+    { type: 'GAP', atSeconds: 30, percent: -8, sector: 'Technology' },
+    { type: 'HALT', atSeconds: 30, symbol: 'AAPL', durationSeconds: 60 },
+  ];
+  const scenario = {
+    ScenarioId: '660e8400-e29b-41d4-a716-446655440000',
+    ExchangeId: exchangeId,
+    Name: 'Tech selloff',
+    Timeline: JSON.stringify(events),
+    Status: 'READY',
+    ElapsedMs: 0,
+    ResumedAt: null,
+    NextEventIndex: 0,
+    CreatedBy: 'user-123',
+    CreatedAt: '2026-01-02T00:00:00Z',
+  };
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  function requestWithBody(body: unknown): HttpRequest {
+    return {
+      params: { exchangeId },
+      query: new Map(),
+      headers: { get: vi.fn() },
+      json: vi.fn().mockResolvedValue(body),
+    } as unknown as HttpRequest;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = requestWithBody({ name: 'Tech selloff', events });
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should store a READY scenario and return 201', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockResolvedValueOnce({ recordset: [scenario] });
+
+    const response = await createScenario(mockRequest, mockContext);
+
+    expect(response.status).toBe(201);
+    expect(response.jsonBody).toMatchObject({
+      scenarioId: scenario.ScenarioId,
+      status: 'READY',
+      elapsedSeconds: 0,
+      nextEventIndex: 0,
+      events,
+    });
+    expect(mockQuery.mock.calls[2][0]).toContain('INSERT INTO [Trade].[MarketScenarios]');
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should return 400 for a GAP that targets both a symbol and a sector', async () => {
+    mockRequest = requestWithBody({
+      name: 'Invalid',
+      events: [{ type: 'GAP', atSeconds: 0, percent: 5, symbol: 'AAPL', sector: 'Technology' }],
+    });
+
+    const response = await createScenario(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an unknown event type or an empty timeline', async () => {
+    const unknownType = await createScenario(
+      requestWithBody({ name: 'Invalid', events: [{ type: 'SPLIT', atSeconds: 0 }] }),
+      mockContext
+    );
+    const empty = await createScenario(requestWithBody({ name: 'Invalid', events: [] }), mockContext);
+
+    expect(unknownType.status).toBe(400);
+    expect(empty.status).toBe(400);
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] });
+
+    const response = await createScenario(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await createScenario(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+});
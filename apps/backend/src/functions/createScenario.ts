@@ -0,0 +1,110 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeParamsSchema } from '../types/exchange';
+import { CreateScenarioSchema } from '../types/scenario';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange } from '../lib/exchanges';
+import { createScenario as storeScenario, mapScenarioRecord } from '../lib/scenarios';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * POST /api/v1/exchanges/{exchangeId}/scenarios
+ *
+ * Uploads a market scenario: a timeline of volatility regimes, gap moves and trading halts
+ * Restricted to RiskManagers (ADR-002)
+ *
+ * The scenario is stored READY with its events ordered by atSeconds; nothing happens until it
+ * is started (POST /api/v1/exchanges/{exchangeId}/scenarios/{scenarioId}/start).
+ *
+ * Returns:
+ * - 201: ScenarioResponse
+ * - 400: Invalid exchangeId or scenario
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, archived, or caller is not a member
+ * - 500: Internal server error
+ */
+export async function createScenario(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} uploading a scenario to exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameter and request body with Zod
+    const paramsValidation = ExchangeParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const body = await request.json();
+    const validationResult = CreateScenarioSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+
+    // 3. Check the caller's role and store the scenario within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+    let record;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = callerRoles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      if (!exchange) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage market scenarios');
+      }
+
+      record = await storeScenario(transaction, exchangeId, user.userId, validationResult.data);
+
+      await transaction.commit();
+
+      context.log(`Scenario ${record.ScenarioId} uploaded to exchange ${exchangeId} by user ${user.userId}`);
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+
+    // 4. Return the scenario
+    return {
+      status: 201,
+      jsonBody: mapScenarioRecord(record),
+    };
+  } catch (error) {
+    context.error('Error creating scenario:', error);
+    return handleError(error);
+  }
+}
+
+app.http('createScenario', {
+  methods: ['POST'],
+  route: 'v1/exchanges/{exchangeId}/scenarios',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: createScenario,
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Int: 'Int',
+  Money: 'Money',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { deleteExchange } from './deleteExchange';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+import * as cache from '../lib/cache';
+
+describe('deleteExchange', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId },
+      query: new Map(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should archive the exchange, stop the market engine and purge the cache', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ rowsAffected: [1] })
+      .mockResolvedValueOnce({ rowsAffected: [1] });
+
+    const response = await deleteExchange(mockRequest, mockContext);
+
+    expect(response.status).toBe(204);
+    expect(mockQuery.mock.calls[1][0]).toContain('SET IsActive = 0');
+    expect(mockQuery.mock.calls[2][0]).toContain('SET MarketEngineEnabled = 0');
+    expect(mockTransaction.commit).toHaveBeenCalled();
+    expect(cache.invalidateExchangeQuotes).toHaveBeenCalledWith(exchangeId);
+    expect(cache.invalidateExchangeConfig).toHaveBeenCalledWith(exchangeId);
+  });
+
+  it('should still succeed when the cache purge fails', async () => {
+    vi.mocked(cache.invalidateExchangeQuotes).mockRejectedValueOnce(new Error('Redis unavailable'));
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ rowsAffected: [1] })
+      .mockResolvedValueOnce({ rowsAffected: [1] });
+
+    const response = await deleteExchange(mockRequest, mockContext);
+
+    expect(response.status).toBe(204);
+    expect(mockContext.warn).toHaveBeenCalled();
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [{ Role: 'Analyst' }] });
+
+    const response = await deleteExchange(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(cache.invalidateExchangeQuotes).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the exchange is already archived', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ rowsAffected: [0] });
+
+    const response = await deleteExchange(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(cache.invalidateExchangeQuotes).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await deleteExchange(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+});
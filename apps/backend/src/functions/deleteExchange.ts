@@ -0,0 +1,128 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { ExchangeParamsSchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { invalidateExchangeConfig, invalidateExchangeQuotes } from '../lib/cache';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * DELETE /api/v1/exchanges/{exchangeId}
+ *
+ * Archives (soft-deletes) an exchange
+ * Implements ADR-002: Exchange-scoped RBAC, restricted to RiskManagers
+ *
+ * Sets IsActive = 0 and disables the market engine, so the ticker generator and market
+ * engine skip the venue and new orders are rejected. Orders, executions and portfolios
+ * are kept for audit. Cached quotes and configuration are purged after commit (ADR-008).
+ *
+ * Returns:
+ * - 204: Exchange archived
+ * - 400: Invalid exchangeId
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, already archived, or caller is not a member
+ * - 500: Internal server error
+ */
+export async function deleteExchange(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to archive exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameter with Zod
+    const paramsValidation = ExchangeParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+
+    // 3. Check the caller's role and archive within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+
+      if (callerRoles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can archive the exchange');
+      }
+
+      const archiveResult = await transaction.request()
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .query(`
+          UPDATE [Trade].[Exchanges]
+          SET IsActive = 0, ArchivedAt = SYSDATETIMEOFFSET()
+          WHERE ExchangeId = @exchangeId AND IsActive = 1
+        `);
+
+      if (archiveResult.rowsAffected[0] === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      // Stop the market engine for the venue
+      await transaction.request()
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .query(`
+          UPDATE [Trade].[ExchangeConfigurations]
+          SET MarketEngineEnabled = 0
+          WHERE ExchangeId = @exchangeId
+        `);
+
+      await transaction.commit();
+
+      context.log(`Exchange ${exchangeId} archived by user ${user.userId}`);
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+
+    // 4. Purge cached quotes and configuration (ADR-008)
+    try {
+      await invalidateExchangeQuotes(exchangeId);
+      await invalidateExchangeConfig(exchangeId);
+    } catch (cacheError) {
+      // Log but don't fail the request: the exchange is archived and cached entries expire
+      context.warn(`Failed to purge cache for archived exchange ${exchangeId}: ${cacheError}`);
+    }
+
+    return {
+      status: 204,
+    };
+  } catch (error) {
+    context.error('Error archiving exchange:', error);
+    return handleError(error);
+  }
+}
+
+app.http('deleteExchange', {
+  methods: ['DELETE'],
+  route: 'v1/exchanges/{exchangeId}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: deleteExchange,
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/signalr-broadcast');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: 'NVarChar',
+  Bit: 'Bit',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { deleteExchangeFlag } from './deleteExchangeFlag';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+import * as signalr from '../lib/signalr-broadcast';
+
+describe('deleteExchangeFlag', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const activeExchange = {
+    ExchangeId: exchangeId,
+    Name: 'Test Exchange',
+    CreatedAt: '2026-01-01T00:00:00Z',
+    CreatedBy: 'user-123',
+  };
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId, featureName: 'advanced-charts' },
+      query: new Map(),
+      json: vi.fn().mockResolvedValue({ isEnabled: true }),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should remove the override and notify clients', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockResolvedValueOnce({ rowsAffected: [1] });
+
+    const response = await deleteExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(204);
+    expect(mockTransaction.commit).toHaveBeenCalled();
+    expect(signalr.broadcastExchangeConfigUpdated).toHaveBeenCalledWith(
+      expect.objectContaining({ exchangeId }),
+      mockContext
+    );
+  });
+
+  it('should accept names missing from the registry so legacy overrides can be removed', async () => {
+    mockRequest = { ...mockRequest, params: { exchangeId, featureName: 'enableAdvancedCharts' } } as unknown as HttpRequest;
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockResolvedValueOnce({ rowsAffected: [1] });
+
+    const response = await deleteExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(204);
+  });
+
+  it('should return 404 when no override is stored', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockResolvedValueOnce({ rowsAffected: [0] });
+
+    const response = await deleteExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(signalr.broadcastExchangeConfigUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'Analyst' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] });
+
+    const response = await deleteExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await deleteExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,114 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { FeatureFlagParamsSchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange } from '../lib/exchanges';
+import { deleteFeatureFlag } from '../lib/feature-flags';
+import { broadcastExchangeConfigUpdated } from '../lib/signalr-broadcast';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * DELETE /api/v1/exchanges/{exchangeId}/flags/{featureName}
+ *
+ * Removes a feature flag override so the flag reverts to its registry default
+ * Implements ADR-021: Feature Flag Engine, restricted to RiskManagers (ADR-002)
+ *
+ * Names outside the registry are accepted so legacy overrides can be cleaned up. After
+ * commit an ExchangeConfigUpdated event is pushed to ticker:{exchangeId}.
+ *
+ * Returns:
+ * - 204: Override removed
+ * - 400: Invalid exchangeId or featureName
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, archived, caller is not a member, or no override is stored
+ * - 500: Internal server error
+ */
+export async function deleteExchangeFlag(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to reset feature flag ${request.params.featureName} on exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameters with Zod
+    const paramsValidation = FeatureFlagParamsSchema.safeParse({
+      exchangeId: request.params.exchangeId,
+      featureName: request.params.featureName,
+    });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId, featureName } = paramsValidation.data;
+
+    // 3. Check the caller's role and delete the override within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = callerRoles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      if (!exchange) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage feature flags');
+      }
+
+      const deleted = await deleteFeatureFlag(transaction, exchangeId, featureName);
+
+      if (deleted === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse(`No override is stored for feature flag ${featureName}`);
+      }
+
+      await transaction.commit();
+
+      context.log(`Feature flag ${featureName} reset to default on exchange ${exchangeId} by user ${user.userId}`);
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+
+    // 4. Notify connected clients
+    await broadcastExchangeConfigUpdated(
+      { exchangeId, updatedBy: user.userId, timestamp: new Date().toISOString() },
+      context
+    );
+
+    return {
+      status: 204,
+    };
+  } catch (error) {
+    context.error('Error resetting feature flag:', error);
+    return handleError(error);
+  }
+}
+
+app.http('deleteExchangeFlag', {
+  methods: ['DELETE'],
+  route: 'v1/exchanges/{exchangeId}/flags/{featureName}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: deleteExchangeFlag,
+});
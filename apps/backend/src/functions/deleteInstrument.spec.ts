@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  NVarChar: vi.fn(() => 'NVarChar'),
+  Decimal: vi.fn(() => 'Decimal'),
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { deleteInstrument } from './deleteInstrument';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+const instrumentRecord = {
+  Symbol: 'AAPL',
+  CompanyName: 'Apple Inc.',
+  Sector: 'Technology',
+  AssetClass: 'EQUITY',
+  BasePrice: 150,
+  VolatilityMultiplier: 1,
+  TickSize: 0.01,
+  LotSize: 1,
+  PriceModel: null,
+  Beta: 1,
+};
+
+describe('deleteInstrument', () => {
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockInput: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: ['authenticated', 'admin'],
+    });
+
+    mockRequest = {
+      params: { symbol: 'AAPL' },
+      query: new Map(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockInput = vi.fn().mockReturnThis();
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }),
+    } as any);
+  });
+
+  it('should archive the instrument', async () => {
+    mockQuery.mockResolvedValueOnce({ rowsAffected: [1] });
+
+    const response = await deleteInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(204);
+    expect(mockQuery.mock.calls[0][0]).toContain('SET IsActive = 0');
+  });
+
+  it('should return 404 when the instrument does not exist or is already archived', async () => {
+    mockQuery.mockResolvedValueOnce({ rowsAffected: [0] });
+
+    const response = await deleteInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 403 when the caller is not a platform administrator', async () => {
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: ['authenticated'],
+    });
+
+    const response = await deleteInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
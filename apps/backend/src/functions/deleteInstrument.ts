@@ -0,0 +1,83 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { InstrumentParamsSchema } from '../types/instrument';
+import { getConnectionPool } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { INSTRUMENT_ADMIN_ROLE } from '../lib/instruments';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * DELETE /api/v1/instruments/{symbol}
+ *
+ * Archives (soft-deletes) an instrument
+ * Restricted to platform administrators (Static Web Apps `admin` role)
+ *
+ * Sets IsActive = 0 so the market engine and ticker generator stop ticking the symbol.
+ * Positions, orders and market data that reference it are kept.
+ *
+ * Returns:
+ * - 204: Instrument archived
+ * - 400: Invalid symbol
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a platform administrator
+ * - 404: Instrument not found or already archived
+ * - 500: Internal server error
+ */
+export async function deleteInstrument(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID) and check the platform role
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to archive instrument ${request.params.symbol}`);
+
+    if (!user.userRoles.includes(INSTRUMENT_ADMIN_ROLE)) {
+      return createForbiddenResponse('Only platform administrators can manage instruments');
+    }
+
+    // 2. Validate route parameter with Zod
+    const paramsValidation = InstrumentParamsSchema.safeParse({ symbol: request.params.symbol });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { symbol } = paramsValidation.data;
+
+    // 3. Archive the instrument
+    const pool = await getConnectionPool();
+    const result = await pool.request()
+      .input('symbol', sql.NVarChar, symbol)
+      .query(`
+        UPDATE [Trade].[Instruments]
+        SET IsActive = 0
+        WHERE Symbol = @symbol AND IsActive = 1
+      `);
+
+    if (result.rowsAffected[0] === 0) {
+      return createNotFoundResponse(`Instrument ${symbol} not found`);
+    }
+
+    context.log(`Instrument ${symbol} archived by user ${user.userId}`);
+
+    return {
+      status: 204,
+    };
+  } catch (error) {
+    context.error('Error archiving instrument:', error);
+    return handleError(error);
+  }
+}
+
+app.http('deleteInstrument', {
+  methods: ['DELETE'],
+  route: 'v1/instruments/{symbol}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: deleteInstrument,
+});
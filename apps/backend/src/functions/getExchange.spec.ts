@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Int: 'Int',
+  Money: 'Money',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { getExchange } from './getExchange';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('getExchange', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId },
+      query: new Map(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should return the exchange with the caller\'s roles', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'Analyst' }] })
+      .mockResolvedValueOnce({ recordset: [{ ExchangeId: exchangeId, Name: 'Alpha', CreatedAt: '2026-01-01T00:00:00.000Z', CreatedBy: 'user-123' }] });
+
+    const response = await getExchange(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual({
+      exchangeId,
+      name: 'Alpha',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      createdBy: 'user-123',
+      roles: ['Analyst'],
+    });
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await getExchange(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return 404 when the exchange is archived', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [] });
+
+    const response = await getExchange(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockQuery.mock.calls[1][0]).toContain('IsActive = 1');
+  });
+
+  it('should return 400 for an invalid exchangeId', async () => {
+    mockRequest = { ...mockRequest, params: { exchangeId: 'not-a-uuid' } } as unknown as HttpRequest;
+
+    const response = await getExchange(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,87 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeParamsSchema, ExchangeResponse } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange, mapExchangeRecord } from '../lib/exchanges';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/exchanges/{exchangeId}
+ *
+ * Retrieves an exchange with the caller's roles
+ * Implements ADR-002: Exchange-scoped RBAC, open to every member
+ *
+ * Returns:
+ * - 200: ExchangeResponse
+ * - 400: Invalid exchangeId
+ * - 401: Unauthorized (no valid authentication)
+ * - 404: Exchange not found, archived, or caller is not a member
+ * - 500: Internal server error
+ */
+export async function getExchange(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameter with Zod
+    const paramsValidation = ExchangeParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+
+    // 3. Check membership and read the exchange within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const roles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = roles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      await transaction.commit();
+
+      if (!exchange) {
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      // 4. Return the exchange
+      const response: ExchangeResponse = { ...mapExchangeRecord(exchange), roles };
+
+      return {
+        status: 200,
+        jsonBody: response,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error fetching exchange:', error);
+    return handleError(error);
+  }
+}
+
+app.http('getExchange', {
+  methods: ['GET'],
+  route: 'v1/exchanges/{exchangeId}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: getExchange,
+});
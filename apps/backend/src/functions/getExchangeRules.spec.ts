@@ -240,6 +240,7 @@ describe.skip('getExchangeRules', () => {
           VolatilityIndex: 1.5,
           StartingCash: 5000000.00,
           Commission: 10.00,
+          CommissionModel: 'FLAT',
           AllowMargin: true,
           MaxPortfolioSize: 50,
           DashboardLayout: '["market-status", "holdings-blotter", "risk-metrics"]',
@@ -272,6 +273,7 @@ describe.skip('getExchangeRules', () => {
       configuration: {
         initialAum: 5000000.00,
         commissionBps: 10.00,
+        commissionModel: 'FLAT',
         allowMargin: true,
         volatilityIndex: 1.5,
         dashboardLayout: ['market-status', 'holdings-blotter', 'risk-metrics'],
@@ -285,6 +287,7 @@ describe.skip('getExchangeRules', () => {
         volatilityIndex: 1.5,
         startingCash: 5000000.00,
         commission: 10.00,
+        commissionModel: 'FLAT',
         allowMargin: true,
       })
     );
@@ -335,7 +338,12 @@ describe.skip('getExchangeRules', () => {
 
     expect(response.status).toBe(200);
     expect(response.jsonBody).toMatchObject({
-      flags: {}, // Empty object when no flags are set
+      flags: {
+        // Registry defaults when no overrides are stored
+        'advanced-charts': false,
+        'margin-trading': false,
+        'real-time-data': true,
+      },
       configuration: {
         initialAum: 10000000.00,
         commissionBps: 5.00,
@@ -6,6 +6,8 @@ import { FeatureFlagResponse, ExchangeConfig, ExchangeFeatureFlags } from '@asse
 import { getConnectionPool } from '../lib/database';
 import { requireAuthentication } from '../lib/auth';
 import { getExchangeConfig, cacheExchangeConfig } from '../lib/cache';
+import { FeatureFlagRecord, resolveFeatureFlags } from '../lib/feature-flags';
+import { CommissionModel } from '../types/exchange';
 import {
   createValidationErrorResponse,
   createNotFoundResponse,
@@ -31,22 +33,21 @@ interface ConfigRecord {
   VolatilityIndex: number;
   StartingCash: number;
   Commission: number;
+  CommissionModel: CommissionModel;
   AllowMargin: boolean;
   MaxPortfolioSize: number;
   DashboardLayout: string;
 }
 
-interface FlagRecord {
-  FeatureName: string;
-  IsEnabled: boolean;
-}
-
 /**
  * GET /api/v1/exchange/rules
  * 
  * Retrieves feature flags and exchange configuration for the specified exchange
  * Implements ADR-021: Feature Flag Engine
  * 
+ * Flags are resolved for the caller (role/user targeting and percentage rollout),
+ * so each value in the payload is a plain boolean.
+ * 
  * Query Parameters:
  * - exchangeId: UUID of the exchange
  * 
@@ -127,6 +128,7 @@ export async function getExchangeRules(
         VolatilityIndex: cachedConfig.volatilityIndex || 1.0,
         StartingCash: cachedConfig.startingCash || 10000000.00,
         Commission: cachedConfig.commission || 5.00,
+        CommissionModel: cachedConfig.commissionModel || 'BPS',
         AllowMargin: cachedConfig.allowMargin !== undefined ? cachedConfig.allowMargin : true,
         MaxPortfolioSize: cachedConfig.maxPortfolioSize || 50,
         DashboardLayout: cachedConfig.dashboardLayout || '[]',
@@ -142,6 +144,7 @@ export async function getExchangeRules(
             ec.VolatilityIndex,
             ec.StartingCash,
             ec.Commission,
+            ec.CommissionModel,
             ec.AllowMargin,
             ec.MaxPortfolioSize,
             ec.DashboardLayout
@@ -164,6 +167,7 @@ export async function getExchangeRules(
           volatilityIndex: dbConfig.VolatilityIndex,
           startingCash: dbConfig.StartingCash,
           commission: dbConfig.Commission,
+          commissionModel: dbConfig.CommissionModel,
           allowMargin: dbConfig.AllowMargin,
           maxPortfolioSize: dbConfig.MaxPortfolioSize,
           dashboardLayout: dbConfig.DashboardLayout,
@@ -175,19 +179,20 @@ export async function getExchangeRules(
       }
     }
 
-    // 6. Query Feature Flags from database (not cached separately)
+    // 6. Query Feature Flags from database (not cached separately: flags are resolved per caller)
     const flagsResult = await pool.request()
       .input('exchangeId', sql.UniqueIdentifier, validExchangeId)
-      .query<FlagRecord>(`
-        SELECT FeatureName, IsEnabled
+      .query<FeatureFlagRecord>(`
+        SELECT FeatureName, IsEnabled, RolloutPercentage, TargetRoles, TargetUserIds, UpdatedAt
         FROM [Trade].[ExchangeFeatureFlags]
         WHERE ExchangeId = @exchangeId
       `);
 
-    // Transform feature flags array to key-value pairs
-    const flags: ExchangeFeatureFlags = {};
-    flagsResult.recordset.forEach((flag: FlagRecord) => {
-      flags[flag.FeatureName] = flag.IsEnabled;
+    // Start from the registry defaults, then resolve the exchange's overrides
+    // (role/user targeting and percentage rollout) for the caller
+    const flags: ExchangeFeatureFlags = resolveFeatureFlags(flagsResult.recordset, {
+      userId: user.userId,
+      roles: roleCheck.recordset.map((r: RoleRecord) => r.Role),
     });
 
     // 7. Parse dashboard layout JSON
@@ -203,9 +208,11 @@ export async function getExchangeRules(
     const configuration: ExchangeConfig = {
       initialAum: new Decimal(dbConfig.StartingCash).toNumber(),
       commissionBps: new Decimal(dbConfig.Commission).toNumber(),
+      commissionModel: dbConfig.CommissionModel,
       allowMargin: dbConfig.AllowMargin,
       volatilityIndex: new Decimal(dbConfig.VolatilityIndex).toNumber(),
       dashboardLayout,
+      maxPortfolioSize: dbConfig.MaxPortfolioSize,
     };
 
     // 9. Build and return FeatureFlagResponse
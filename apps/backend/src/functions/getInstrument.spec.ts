@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  NVarChar: vi.fn(() => 'NVarChar'),
+  Decimal: vi.fn(() => 'Decimal'),
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { getInstrument } from './getInstrument';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+const instrumentRecord = {
+  Symbol: 'AAPL',
+  CompanyName: 'Apple Inc.',
+  Sector: 'Technology',
+  AssetClass: 'EQUITY',
+  BasePrice: 150,
+  VolatilityMultiplier: 1,
+  TickSize: 0.01,
+  LotSize: 1,
+  PriceModel: null,
+  Beta: 1,
+};
+
+describe('getInstrument', () => {
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockInput: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: ['authenticated'],
+    });
+
+    mockRequest = {
+      params: { symbol: 'AAPL' },
+      query: new Map(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockInput = vi.fn().mockReturnThis();
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }),
+    } as any);
+  });
+
+  it('should return an active instrument', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [instrumentRecord] });
+
+    const response = await getInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ symbol: 'AAPL', basePrice: 150, tickSize: 0.01 });
+    expect(mockQuery.mock.calls[0][0]).toContain('IsActive = 1');
+  });
+
+  it('should return 404 when the instrument does not exist or is archived', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await getInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 for an invalid symbol', async () => {
+    mockRequest = { ...mockRequest, params: { symbol: 'not a symbol' } } as unknown as HttpRequest;
+
+    const response = await getInstrument(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
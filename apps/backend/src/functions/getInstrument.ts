@@ -0,0 +1,66 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { InstrumentParamsSchema } from '../types/instrument';
+import { getConnectionPool } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getActiveInstrument, mapInstrumentRecord } from '../lib/instruments';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/instruments/{symbol}
+ *
+ * Retrieves an instrument with its simulation parameters
+ * Open to every authenticated user (Instruments is shared and not RLS-protected)
+ *
+ * Returns:
+ * - 200: InstrumentResponse
+ * - 400: Invalid symbol
+ * - 401: Unauthorized (no valid authentication)
+ * - 404: Instrument not found or archived
+ * - 500: Internal server error
+ */
+export async function getInstrument(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting instrument ${request.params.symbol}`);
+
+    // 2. Validate route parameter with Zod
+    const paramsValidation = InstrumentParamsSchema.safeParse({ symbol: request.params.symbol });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { symbol } = paramsValidation.data;
+
+    // 3. Read the instrument
+    const pool = await getConnectionPool();
+    const instrument = await getActiveInstrument(pool, symbol);
+
+    if (!instrument) {
+      return createNotFoundResponse(`Instrument ${symbol} not found`);
+    }
+
+    return {
+      status: 200,
+      jsonBody: mapInstrumentRecord(instrument),
+    };
+  } catch (error) {
+    context.error('Error fetching instrument:', error);
+    return handleError(error);
+  }
+}
+
+app.http('getInstrument', {
+  methods: ['GET'],
+  route: 'v1/instruments/{symbol}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: getInstrument,
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: 'NVarChar',
+  Int: 'Int',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { getMarketDepth } from './getMarketDepth';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+import * as cache from '../lib/cache';
+
+describe('getMarketDepth', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+
+  let mockContext: InvocationContext;
+  let mockInput: ReturnType<typeof vi.fn>;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  const requestWithQuery = (query: Record<string, string>) => ({
+    query: new Map(Object.entries(query)),
+    headers: { get: vi.fn() },
+  }) as unknown as HttpRequest;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockContext = {
+      log: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockInput = vi.fn().mockReturnThis();
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }),
+    };
+
+    vi.mocked(cache.getDepthSequence).mockResolvedValue(41);
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should return aggregated levels on each side with the caller\'s own size', async () => {
+    mockQuery.mockResolvedValueOnce({
+      recordset: [
+        { BookSide: 'ASK', Price: 150.5, Quantity: 200, OrderCount: 1, OwnQuantity: 0 },
+        { BookSide: 'ASK', Price: 151, Quantity: 500, OrderCount: 3, OwnQuantity: 100 },
+        { BookSide: 'BID', Price: 149.75, Quantity: 300, OrderCount: 2, OwnQuantity: 300 },
+      ],
+    });
+
+    const response = await getMarketDepth(
+      requestWithQuery({ exchangeId, symbol: 'AAPL', levels: '5' }),
+      mockContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({
+      exchangeId,
+      symbol: 'AAPL',
+      bids: [{ price: 149.75, quantity: 300, orderCount: 2, ownQuantity: 300 }],
+      asks: [
+        { price: 150.5, quantity: 200, orderCount: 1, ownQuantity: 0 },
+        { price: 151, quantity: 500, orderCount: 3, ownQuantity: 100 },
+      ],
+      sequence: 41,
+    });
+    expect(cache.getDepthSequence).toHaveBeenCalledWith(exchangeId, 'AAPL');
+    expect(mockInput).toHaveBeenCalledWith('depthLevels', 'Int', 5);
+    expect(mockInput).toHaveBeenCalledWith('depthUserId', 'UniqueIdentifier', 'user-123');
+    expect(database.setSessionContext).toHaveBeenCalledWith(expect.anything(), 'user-123', exchangeId);
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should default to 10 levels per side', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await getMarketDepth(requestWithQuery({ exchangeId, symbol: 'AAPL' }), mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ bids: [], asks: [] });
+    expect(mockInput).toHaveBeenCalledWith('depthLevels', 'Int', 10);
+  });
+
+  it('should reject more levels than the depth feed publishes', async () => {
+    const response = await getMarketDepth(
+      requestWithQuery({ exchangeId, symbol: 'AAPL', levels: '21' }),
+      mockContext
+    );
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should require symbol', async () => {
+    const response = await getMarketDepth(requestWithQuery({ exchangeId }), mockContext);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should roll back and return 500 on database errors', async () => {
+    mockQuery.mockRejectedValueOnce(new Error('connection reset'));
+
+    const response = await getMarketDepth(requestWithQuery({ exchangeId, symbol: 'AAPL' }), mockContext);
+
+    expect(response.status).toBe(500);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+});
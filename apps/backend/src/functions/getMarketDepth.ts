@@ -0,0 +1,98 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { GetMarketDepthQuerySchema, MarketDepthSnapshot } from '../types/market-depth';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getOrderBookDepth } from '../lib/market-depth';
+import { getDepthSequence } from '../lib/cache';
+import {
+  createValidationErrorResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/marketdata/depth
+ *
+ * Level 2 snapshot of a symbol's order book: resting limit orders aggregated by price, best
+ * price first, with the caller's own size per level. Clients apply the DepthUpdate events
+ * broadcast to ticker:{exchangeId} after each market engine tick on top of it, skipping those
+ * numbered at or below the snapshot's sequence.
+ * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * Query Parameters (GetMarketDepthQuerySchema):
+ * - exchangeId (required), symbol (required)
+ * - levels (default 10, max 20 = the levels the depth feed publishes): price levels per side
+ *
+ * Returns:
+ * - 200: MarketDepthSnapshot
+ * - 400: Invalid query parameters
+ * - 401: Unauthorized (no valid authentication)
+ * - 500: Internal server error
+ */
+export async function getMarketDepth(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting market depth`);
+
+    // 2. Validate query parameters with Zod
+    const validationResult = GetMarketDepthQuerySchema.safeParse(Object.fromEntries(request.query.entries()));
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId, symbol, levels } = validationResult.data;
+
+    // 3. Query within a transaction so RLS session context and queries share one connection
+    const pool = await getConnectionPool();
+    let transaction;
+
+    // Read the sequence before the book: an update numbered after it may already be in the
+    // snapshot, and applying it again is harmless because changes carry absolute sizes
+    const sequence = await getDepthSequence(exchangeId, symbol);
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const depth = await getOrderBookDepth(transaction.request(), exchangeId, symbol, levels, user.userId);
+
+      await transaction.commit();
+
+      const response: MarketDepthSnapshot = {
+        exchangeId,
+        symbol,
+        ...depth,
+        sequence,
+        timestamp: new Date().toISOString(),
+      };
+
+      context.log(`Returning ${depth.bids.length} bid and ${depth.asks.length} ask levels for ${symbol}`);
+
+      return {
+        status: 200,
+        jsonBody: response,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error getting market depth:', error);
+    return handleError(error);
+  }
+}
+
+app.http('getMarketDepth', {
+  methods: ['GET'],
+  route: 'v1/marketdata/depth',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: getMarketDepth,
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { getOrder } from './getOrder';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('getOrder', () => {
+  const orderId = '550e8400-e29b-41d4-a716-446655440010';
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { orderId },
+      query: new Map([['exchangeId', exchangeId]]),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue({
+        begin: vi.fn().mockResolvedValue(undefined),
+        commit: vi.fn().mockResolvedValue(undefined),
+        rollback: vi.fn().mockResolvedValue(undefined),
+        request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+      }),
+    } as any);
+  });
+
+  it('should return the order', async () => {
+    mockQuery.mockResolvedValueOnce({
+      recordset: [{
+        OrderId: orderId,
+        ExchangeId: exchangeId,
+        PortfolioId: '550e8400-e29b-41d4-a716-446655440001',
+        Symbol: 'AAPL',
+        Side: 'SELL',
+        OrderType: 'STOP',
+        Quantity: 25,
+        Price: null,
+        StopPrice: 140,
+        Status: 'PENDING',
+        FilledQuantity: 0,
+        AveragePrice: null,
+        Commission: 0,
+        CreatedAt: '2026-01-19T00:00:00.000Z',
+        UpdatedAt: '2026-01-19T00:00:00.000Z',
+      }],
+    });
+
+    const response = await getOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ orderId, side: 'SELL', orderType: 'STOP', stopPrice: 140 });
+    expect(database.setSessionContext).toHaveBeenCalledWith(expect.anything(), 'user-123', exchangeId);
+  });
+
+  it('should return 404 when the order is not visible', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await getOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 for an invalid orderId', async () => {
+    mockRequest = { ...mockRequest, params: { orderId: 'not-a-uuid' } } as unknown as HttpRequest;
+
+    const response = await getOrder(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+});
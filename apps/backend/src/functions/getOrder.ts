@@ -0,0 +1,93 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { GetOrderSchema } from '../types/transaction';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { OrderRecord, orderColumns, mapOrderRecord } from '../lib/orders';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/orders/{orderId}?exchangeId=<uuid>
+ *
+ * Retrieves a single order
+ * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * Returns:
+ * - 200: OrderResponse
+ * - 400: Invalid orderId or exchangeId
+ * - 401: Unauthorized (no valid authentication)
+ * - 404: Order not found (or not visible under RLS)
+ * - 500: Internal server error
+ */
+export async function getOrder(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting order ${request.params.orderId}`);
+
+    // 2. Validate route and query parameters with Zod
+    const validationResult = GetOrderSchema.safeParse({
+      orderId: request.params.orderId,
+      exchangeId: request.query.get('exchangeId') ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { orderId, exchangeId } = validationResult.data;
+
+    // 3. Query within a transaction so RLS session context and query share one connection
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const orderResult = await transaction.request()
+        .input('orderId', sql.UniqueIdentifier, orderId)
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .query<OrderRecord>(`
+          SELECT ${orderColumns()}
+          FROM [Trade].[Orders]
+          WHERE OrderId = @orderId AND ExchangeId = @exchangeId
+        `);
+
+      await transaction.commit();
+
+      if (orderResult.recordset.length === 0) {
+        return createNotFoundResponse('Order not found or you do not have access to it');
+      }
+
+      return {
+        status: 200,
+        jsonBody: mapOrderRecord(orderResult.recordset[0]),
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error retrieving order:', error);
+    return handleError(error);
+  }
+}
+
+app.http('getOrder', {
+  methods: ['GET'],
+  route: 'v1/orders/{orderId}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: getOrder,
+});
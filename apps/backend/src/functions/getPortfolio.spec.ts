@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { getPortfolio } from './getPortfolio';
+import * as auth from '../lib/auth';
+import * as cache from '../lib/cache';
+import * as database from '../lib/database';
+
+describe('getPortfolio', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const portfolioId = '550e8400-e29b-41d4-a716-446655440001';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { portfolioId },
+      query: new Map([['exchangeId', exchangeId]]),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should value positions at cached quotes and fall back to market data', async () => {
+    vi.mocked(cache.getQuote).mockImplementation(async (_exchangeId, symbol) =>
+      symbol === 'AAPL' ? { price: 160, timestamp: '2026-01-19T10:00:00.000Z' } : null
+    );
+
+    mockQuery
+      .mockResolvedValueOnce({
+        recordset: [{
+          PortfolioId: portfolioId,
+          ExchangeId: exchangeId,
+          Name: 'Main Portfolio',
+          CashBalance: 5000,
+          RealizedPnL: 310,
+          MarginStatus: 'OK',
+        }],
+      })
+      .mockResolvedValueOnce({
+        recordset: [
+          { PortfolioId: portfolioId, Symbol: 'AAPL', Quantity: 50, AveragePrice: 150, RealizedPnL: 250 },
+          { PortfolioId: portfolioId, Symbol: 'MSFT', Quantity: -10, AveragePrice: 300, RealizedPnL: 0 },
+        ],
+      })
+      .mockResolvedValueOnce({ recordset: [{ Symbol: 'MSFT', Close: 310 }] });
+
+    const response = await getPortfolio(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual({
+      portfolioId,
+      exchangeId,
+      name: 'Main Portfolio',
+      cashBalance: 5000,
+      totalValue: 9900, // 5000 + 50 * 160 - 10 * 310
+      unrealizedPnL: 400,
+      realizedPnL: 310, // Includes 60 from positions since closed
+      marginStatus: 'OK',
+      positions: [
+        {
+          symbol: 'AAPL',
+          quantity: 50,
+          averagePrice: 150,
+          currentPrice: 160,
+          unrealizedPnL: 500,
+          realizedPnL: 250,
+        },
+        {
+          symbol: 'MSFT',
+          quantity: -10,
+          averagePrice: 300,
+          currentPrice: 310,
+          unrealizedPnL: -100,
+          realizedPnL: 0,
+        },
+      ],
+    });
+    expect(database.setSessionContext).toHaveBeenCalledWith(expect.anything(), 'user-123', exchangeId);
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the portfolio is not visible', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await getPortfolio(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should require exchangeId', async () => {
+    mockRequest = { ...mockRequest, query: new Map() } as unknown as HttpRequest;
+
+    const response = await getPortfolio(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+});
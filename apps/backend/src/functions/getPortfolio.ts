@@ -0,0 +1,100 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { GetPortfolioSchema } from '../types/transaction';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { PortfolioRecord, portfolioColumns, valuePortfolios } from '../lib/portfolio';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/portfolios/{portfolioId}?exchangeId=<uuid>
+ *
+ * Retrieves a portfolio with its positions marked to market
+ * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * Positions are valued at the cached quote (falling back to the latest MarketData close);
+ * see lib/portfolio.ts for the valuation and P&L rules.
+ *
+ * Returns:
+ * - 200: PortfolioResponse
+ * - 400: Invalid portfolioId or exchangeId
+ * - 401: Unauthorized (no valid authentication)
+ * - 404: Portfolio not found (or not visible under RLS)
+ * - 500: Internal server error
+ */
+export async function getPortfolio(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting portfolio ${request.params.portfolioId}`);
+
+    // 2. Validate route and query parameters with Zod
+    const validationResult = GetPortfolioSchema.safeParse({
+      portfolioId: request.params.portfolioId,
+      exchangeId: request.query.get('exchangeId') ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { portfolioId, exchangeId } = validationResult.data;
+
+    // 3. Query within a transaction so RLS session context and queries share one connection
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const portfolioResult = await transaction.request()
+        .input('portfolioId', sql.UniqueIdentifier, portfolioId)
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .query<PortfolioRecord>(`
+          SELECT ${portfolioColumns()}
+          FROM [Trade].[Portfolios]
+          WHERE PortfolioId = @portfolioId AND ExchangeId = @exchangeId
+        `);
+
+      if (portfolioResult.recordset.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Portfolio not found or you do not have access to it');
+      }
+
+      // 4. Value positions at current prices
+      const [portfolio] = await valuePortfolios(transaction, exchangeId, portfolioResult.recordset);
+
+      await transaction.commit();
+
+      return {
+        status: 200,
+        jsonBody: portfolio,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error retrieving portfolio:', error);
+    return handleError(error);
+  }
+}
+
+app.http('getPortfolio', {
+  methods: ['GET'],
+  route: 'v1/portfolios/{portfolioId}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: getPortfolio,
+});
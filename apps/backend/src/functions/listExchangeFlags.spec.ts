@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/signalr-broadcast');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: 'NVarChar',
+  Bit: 'Bit',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { listExchangeFlags } from './listExchangeFlags';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('listExchangeFlags', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const activeExchange = {
+    ExchangeId: exchangeId,
+    Name: 'Test Exchange',
+    CreatedAt: '2026-01-01T00:00:00Z',
+    CreatedBy: 'user-123',
+  };
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId },
+      query: new Map(),
+      json: vi.fn().mockResolvedValue({ isEnabled: true }),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should list registry flags merged with stored overrides', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockResolvedValueOnce({
+        recordset: [
+          { FeatureName: 'advanced-charts', IsEnabled: true, UpdatedAt: '2026-02-01T00:00:00Z' },
+          { FeatureName: 'options-trading', IsEnabled: false, UpdatedAt: '2026-02-02T00:00:00Z' },
+        ],
+      });
+
+    const response = await listExchangeFlags(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(mockTransaction.commit).toHaveBeenCalled();
+
+    const flags = response.jsonBody as Array<Record<string, unknown>>;
+    expect(flags.map((flag) => flag.featureName)).toEqual([
+      'advanced-charts',
+      'margin-trading',
+      'real-time-data',
+      'options-trading',
+    ]);
+    expect(flags[0]).toMatchObject({ isEnabled: true, defaultEnabled: false, isOverridden: true, updatedAt: '2026-02-01T00:00:00Z' });
+    expect(flags[2]).toMatchObject({ isEnabled: true, defaultEnabled: true, isOverridden: false });
+    expect(flags[3]).toEqual({ featureName: 'options-trading', isEnabled: false, isOverridden: true, updatedAt: '2026-02-02T00:00:00Z' });
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'Analyst' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] });
+
+    const response = await listExchangeFlags(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await listExchangeFlags(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the exchange is archived', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [] });
+
+    const response = await listExchangeFlags(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 400 for an invalid exchangeId', async () => {
+    mockRequest = { ...mockRequest, params: { exchangeId: 'not-a-uuid' } } as unknown as HttpRequest;
+
+    const response = await listExchangeFlags(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should roll back and return 500 on database errors', async () => {
+    mockQuery.mockRejectedValueOnce(new Error('Connection lost'));
+
+    const response = await listExchangeFlags(mockRequest, mockContext);
+
+    expect(response.status).toBe(500);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeParamsSchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange } from '../lib/exchanges';
+import { buildFeatureFlagList, getFeatureFlagRecords } from '../lib/feature-flags';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/exchanges/{exchangeId}/flags
+ *
+ * Lists every registry feature flag with its effective value for the exchange
+ * Implements ADR-021: Feature Flag Engine, restricted to RiskManagers (ADR-002)
+ *
+ * Stored overrides for names outside the registry are listed after the registry flags.
+ *
+ * Returns:
+ * - 200: ExchangeFeatureFlagResponse[]
+ * - 400: Invalid exchangeId
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, archived, or caller is not a member
+ * - 500: Internal server error
+ */
+export async function listExchangeFlags(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting feature flags of exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameter with Zod
+    const paramsValidation = ExchangeParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+
+    // 3. Check the caller's role and read the overrides within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = callerRoles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      if (!exchange) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage feature flags');
+      }
+
+      const records = await getFeatureFlagRecords(transaction, exchangeId);
+
+      await transaction.commit();
+
+      // 4. Return registry flags merged with the stored overrides
+      return {
+        status: 200,
+        jsonBody: buildFeatureFlagList(records),
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error listing feature flags:', error);
+    return handleError(error);
+  }
+}
+
+app.http('listExchangeFlags', {
+  methods: ['GET'],
+  route: 'v1/exchanges/{exchangeId}/flags',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: listExchangeFlags,
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/signalr-broadcast');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: 'NVarChar',
+  Decimal: vi.fn(() => 'Decimal'),
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { listExchangeInstruments } from './listExchangeInstruments';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+import * as signalr from '../lib/signalr-broadcast';
+
+describe('listExchangeInstruments', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const activeExchange = {
+    ExchangeId: exchangeId,
+    Name: 'Test Exchange',
+    CreatedAt: '2026-01-01T00:00:00Z',
+    CreatedBy: 'user-123',
+  };
+  const listing = {
+    Symbol: 'AAPL',
+    CompanyName: 'Apple Inc.',
+    Sector: 'Technology',
+    AssetClass: 'EQUITY',
+    BasePrice: 150,
+    VolatilityMultiplier: 1,
+    TickSize: 0.01,
+    LotSize: 1,
+    PriceModel: null,
+    Beta: 1,
+    ListedAt: '2026-01-02T00:00:00Z',
+    ListedBy: 'user-123',
+  };
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId },
+      query: new Map(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should list the exchange\'s instruments for any member', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'Analyst' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockResolvedValueOnce({ recordset: [listing] });
+
+    const response = await listExchangeInstruments(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual([{
+      symbol: 'AAPL',
+      companyName: 'Apple Inc.',
+      sector: 'Technology',
+      assetClass: 'EQUITY',
+      basePrice: 150,
+      volatilityMultiplier: 1,
+      tickSize: 0.01,
+      lotSize: 1,
+      priceModel: null,
+      beta: 1,
+      listedAt: '2026-01-02T00:00:00Z',
+      listedBy: 'user-123',
+    }]);
+    expect(mockQuery.mock.calls[2][0]).toContain('i.IsActive = 1');
+  });
+
+  it('should return 404 when the exchange is archived', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [] });
+
+    const response = await listExchangeInstruments(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await listExchangeInstruments(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,91 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeParamsSchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange } from '../lib/exchanges';
+import { getListedInstruments, mapExchangeInstrumentRecord } from '../lib/exchange-instruments';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/exchanges/{exchangeId}/instruments
+ *
+ * Lists the instruments listed (tradable) on the exchange
+ * Open to every member of the exchange (ADR-002)
+ *
+ * Archived instruments are omitted even while their listing row remains.
+ *
+ * Returns:
+ * - 200: ExchangeInstrumentResponse[], by symbol
+ * - 400: Invalid exchangeId
+ * - 401: Unauthorized (no valid authentication)
+ * - 404: Exchange not found, archived, or caller is not a member
+ * - 500: Internal server error
+ */
+export async function listExchangeInstruments(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting instruments listed on exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameter with Zod
+    const paramsValidation = ExchangeParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+
+    // 3. Check membership and read the listings within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = callerRoles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      if (!exchange) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      const records = await getListedInstruments(transaction, exchangeId);
+
+      await transaction.commit();
+
+      // 4. Return the listed instruments
+      return {
+        status: 200,
+        jsonBody: records.map(mapExchangeInstrumentRecord),
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error listing exchange instruments:', error);
+    return handleError(error);
+  }
+}
+
+app.http('listExchangeInstruments', {
+  methods: ['GET'],
+  route: 'v1/exchanges/{exchangeId}/instruments',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: listExchangeInstruments,
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Int: 'Int',
+  Money: 'Money',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { listExchangeMembers } from './listExchangeMembers';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('listExchangeMembers', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const memberId = '550e8400-e29b-41d4-a716-446655440002';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId },
+      query: new Map([['limit', '10']]),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should return a page of role assignments', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Total: 2 }] })
+      .mockResolvedValueOnce({
+        recordset: [
+          { ExchangeId: exchangeId, UserId: 'user-123', Role: 'RiskManager', AssignedAt: '2026-01-19T10:00:00.000Z' },
+          { ExchangeId: exchangeId, UserId: memberId, Role: 'PortfolioManager', AssignedAt: '2026-01-19T11:00:00.000Z' },
+        ],
+      });
+
+    const response = await listExchangeMembers(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual({
+      items: [
+        { exchangeId, userId: 'user-123', role: 'RiskManager', assignedAt: '2026-01-19T10:00:00.000Z' },
+        { exchangeId, userId: memberId, role: 'PortfolioManager', assignedAt: '2026-01-19T11:00:00.000Z' },
+      ],
+      total: 2,
+      limit: 10,
+      offset: 0,
+    });
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] });
+
+    const response = await listExchangeMembers(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member of the exchange', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await listExchangeMembers(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should reject an invalid exchangeId', async () => {
+    mockRequest = { ...mockRequest, params: { exchangeId: 'not-a-uuid' } } as unknown as HttpRequest;
+
+    const response = await listExchangeMembers(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+});
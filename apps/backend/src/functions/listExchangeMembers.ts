@@ -0,0 +1,131 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { ExchangeParamsSchema, ExchangeRoleResponse, GetExchangeMembersQuerySchema } from '../types/exchange';
+import { PagedResponse } from '../types/transaction';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { ExchangeRoleRecord, getExchangeRoles, mapExchangeRoleRecord } from '../lib/exchange-roles';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/exchanges/{exchangeId}/members
+ *
+ * Lists the role assignments of an exchange (one item per member and role)
+ * Implements ADR-002: Exchange-scoped RBAC, restricted to RiskManagers
+ *
+ * Query Parameters (GetExchangeMembersQuerySchema):
+ * - limit (default 50, max 100), offset (default 0)
+ *
+ * Returns:
+ * - 200: PagedResponse<ExchangeRoleResponse>, oldest assignment first
+ * - 400: Invalid exchangeId or query parameters
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found (or caller is not a member)
+ * - 500: Internal server error
+ */
+export async function listExchangeMembers(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting members of exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route and query parameters with Zod
+    const paramsValidation = ExchangeParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const validationResult = GetExchangeMembersQuerySchema.safeParse(Object.fromEntries(request.query.entries()));
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+    const { limit, offset } = validationResult.data;
+
+    // 3. Query within a transaction so RLS session context and queries share one connection
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+
+      if (callerRoles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage exchange members');
+      }
+
+      const countResult = await transaction.request()
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .query<{ Total: number }>(`
+          SELECT COUNT(*) AS Total
+          FROM [Trade].[ExchangeRoles]
+          WHERE ExchangeId = @exchangeId
+        `);
+
+      const membersResult = await transaction.request()
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .input('limit', sql.Int, limit)
+        .input('offset', sql.Int, offset)
+        .query<ExchangeRoleRecord>(`
+          SELECT ExchangeId, UserId, Role, AssignedAt
+          FROM [Trade].[ExchangeRoles]
+          WHERE ExchangeId = @exchangeId
+          ORDER BY [AssignedAt] ASC, [UserId] ASC, [Role] ASC
+          OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+        `);
+
+      await transaction.commit();
+
+      const response: PagedResponse<ExchangeRoleResponse> = {
+        items: membersResult.recordset.map(mapExchangeRoleRecord),
+        total: countResult.recordset[0]?.Total ?? 0,
+        limit,
+        offset,
+      };
+
+      context.log(`Returning ${response.items.length} of ${response.total} role assignments for exchange ${exchangeId}`);
+
+      return {
+        status: 200,
+        jsonBody: response,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error listing exchange members:', error);
+    return handleError(error);
+  }
+}
+
+app.http('listExchangeMembers', {
+  methods: ['GET'],
+  route: 'v1/exchanges/{exchangeId}/members',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: listExchangeMembers,
+});
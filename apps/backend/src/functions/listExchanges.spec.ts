@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Int: 'Int',
+  Money: 'Money',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { listExchanges } from './listExchanges';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('listExchanges', () => {
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockInput: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: {},
+      query: new Map(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockInput = vi.fn().mockReturnThis();
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }),
+    } as any);
+  });
+
+  it('should return one item per exchange with the caller\'s roles', async () => {
+    mockQuery.mockResolvedValueOnce({
+      recordset: [
+        { ExchangeId: 'e1', Name: 'Alpha', CreatedAt: '2026-01-01T00:00:00.000Z', CreatedBy: 'user-123', Role: 'PortfolioManager' },
+        { ExchangeId: 'e1', Name: 'Alpha', CreatedAt: '2026-01-01T00:00:00.000Z', CreatedBy: 'user-123', Role: 'RiskManager' },
+        { ExchangeId: 'e2', Name: 'Beta', CreatedAt: '2026-02-01T00:00:00.000Z', CreatedBy: 'user-456', Role: 'Analyst' },
+      ],
+    });
+
+    const response = await listExchanges(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual([
+      { exchangeId: 'e1', name: 'Alpha', createdAt: '2026-01-01T00:00:00.000Z', createdBy: 'user-123', roles: ['PortfolioManager', 'RiskManager'] },
+      { exchangeId: 'e2', name: 'Beta', createdAt: '2026-02-01T00:00:00.000Z', createdBy: 'user-456', roles: ['Analyst'] },
+    ]);
+    expect(mockInput).toHaveBeenCalledWith('userId', 'UniqueIdentifier', 'user-123');
+  });
+
+  it('should only list active exchanges the caller is a member of', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await listExchanges(mockRequest, mockContext);
+
+    expect(response.jsonBody).toEqual([]);
+    const sqlText = mockQuery.mock.calls[0][0];
+    expect(sqlText).toContain('r.UserId = @userId');
+    expect(sqlText).toContain('e.IsActive = 1');
+  });
+
+  it('should return 401 when user is not authenticated', async () => {
+    vi.mocked(auth.requireAuthentication).mockImplementation(() => {
+      throw new Error('Unauthorized: No valid user principal found');
+    });
+
+    const response = await listExchanges(mockRequest, mockContext);
+
+    expect(response.status).toBe(401);
+  });
+});
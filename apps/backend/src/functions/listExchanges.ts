@@ -0,0 +1,75 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { ExchangeResponse, ExchangeRole } from '../types/exchange';
+import { getConnectionPool } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { ExchangeRecord, mapExchangeRecord } from '../lib/exchanges';
+import { handleError } from '../lib/error-handler';
+
+/**
+ * GET /api/v1/exchanges
+ *
+ * Lists the active exchanges the caller holds a role in, with the caller's roles
+ * Implements ADR-002: Exchange-scoped RBAC
+ *
+ * Archived exchanges are omitted. Exchanges and ExchangeRoles are not RLS-protected, so
+ * the membership join alone scopes the result and no session context is needed.
+ *
+ * Returns:
+ * - 200: ExchangeResponse[], oldest exchange first
+ * - 401: Unauthorized (no valid authentication)
+ * - 500: Internal server error
+ */
+export async function listExchanges(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting exchange list`);
+
+    // 2. Query exchanges joined with the caller's role assignments (one row per role)
+    const pool = await getConnectionPool();
+
+    const result = await pool.request()
+      .input('userId', sql.UniqueIdentifier, user.userId)
+      .query<ExchangeRecord & { Role: ExchangeRole }>(`
+        SELECT e.ExchangeId, e.Name, e.CreatedAt, e.CreatedBy, r.Role
+        FROM [Trade].[Exchanges] e
+        INNER JOIN [Trade].[ExchangeRoles] r
+          ON r.ExchangeId = e.ExchangeId AND r.UserId = @userId
+        WHERE e.IsActive = 1
+        ORDER BY e.CreatedAt, e.ExchangeId, r.Role
+      `);
+
+    // 3. Collapse role rows into one item per exchange
+    const exchanges = new Map<string, ExchangeResponse>();
+
+    for (const record of result.recordset) {
+      let exchange = exchanges.get(record.ExchangeId);
+
+      if (!exchange) {
+        exchange = { ...mapExchangeRecord(record), roles: [] };
+        exchanges.set(record.ExchangeId, exchange);
+      }
+
+      exchange.roles?.push(record.Role);
+    }
+
+    return {
+      status: 200,
+      jsonBody: Array.from(exchanges.values()),
+    };
+  } catch (error) {
+    context.error('Error listing exchanges:', error);
+    return handleError(error);
+  }
+}
+
+app.http('listExchanges', {
+  methods: ['GET'],
+  route: 'v1/exchanges',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: listExchanges,
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: 'NVarChar',
+  DateTimeOffset: 'DateTimeOffset',
+  Int: 'Int',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { listExecutions } from './listExecutions';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('listExecutions', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const portfolioId = '550e8400-e29b-41d4-a716-446655440001';
+
+  let mockContext: InvocationContext;
+  let mockInput: ReturnType<typeof vi.fn>;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  const requestWithQuery = (query: Record<string, string>) => ({
+    query: new Map(Object.entries(query)),
+    headers: { get: vi.fn() },
+  }) as unknown as HttpRequest;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockContext = {
+      log: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockInput = vi.fn().mockReturnThis();
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should return a page of executions filtered by portfolio, symbol and time', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Total: 3 }] })
+      .mockResolvedValueOnce({
+        recordset: [{
+          ExecutionId: 'execution-1',
+          OrderId: 'order-1',
+          ExchangeId: exchangeId,
+          PortfolioId: portfolioId,
+          Symbol: 'AAPL',
+          Side: 'BUY',
+          Quantity: 250,
+          Price: 150.25,
+          Commission: 0,
+          ExecutedAt: '2026-01-19T10:00:05.000Z',
+        }],
+      });
+
+    const response = await listExecutions(
+      requestWithQuery({
+        exchangeId,
+        portfolioId,
+        symbol: 'AAPL',
+        from: '2026-01-19T00:00:00.000Z',
+        to: '2026-01-20T00:00:00.000Z',
+        limit: '1',
+      }),
+      mockContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ total: 3, limit: 1, offset: 0 });
+    expect(response.jsonBody.items[0]).toMatchObject({ executionId: 'execution-1', quantity: 250, price: 150.25 });
+    expect(mockInput).toHaveBeenCalledWith('from', 'DateTimeOffset', '2026-01-19T00:00:00.000Z');
+    expect(mockInput).toHaveBeenCalledWith('to', 'DateTimeOffset', '2026-01-20T00:00:00.000Z');
+    expect(mockQuery.mock.calls[1][0]).toContain('ORDER BY [ExecutedAt] DESC');
+    expect(database.setSessionContext).toHaveBeenCalledWith(expect.anything(), 'user-123', exchangeId);
+  });
+
+  it('should reject a time range that ends before it starts', async () => {
+    const response = await listExecutions(
+      requestWithQuery({ exchangeId, from: '2026-01-20T00:00:00.000Z', to: '2026-01-19T00:00:00.000Z' }),
+      mockContext
+    );
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should require exchangeId', async () => {
+    const response = await listExecutions(requestWithQuery({ portfolioId }), mockContext);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should roll back and return 500 on database errors', async () => {
+    mockQuery.mockRejectedValueOnce(new Error('connection reset'));
+
+    const response = await listExecutions(requestWithQuery({ exchangeId }), mockContext);
+
+    expect(response.status).toBe(500);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import {
+  GetExecutionsQuerySchema,
+  ExecutionResponse,
+  ExecutionSortField,
+  PagedResponse,
+} from '../types/transaction';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { ExecutionRecord, executionColumns, mapExecutionRecord } from '../lib/executions';
+import {
+  createValidationErrorResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * Whitelisted ORDER BY columns for each sortBy value
+ * (sort input is never interpolated into SQL directly)
+ */
+const SORT_COLUMNS: Record<ExecutionSortField, string> = {
+  executedAt: '[ExecutedAt]',
+  symbol: '[Symbol]',
+  quantity: '[Quantity]',
+  price: '[Price]',
+};
+
+/**
+ * GET /api/v1/executions
+ *
+ * Lists individual fills from the executions ledger for compliance review and P&L reconstruction
+ * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * Query Parameters (GetExecutionsQuerySchema):
+ * - exchangeId (required), portfolioId, orderId, symbol
+ * - from / to (ISO 8601, bounds ExecutedAt)
+ * - limit (default 50, max 100), offset (default 0)
+ * - sortBy (executedAt | symbol | quantity | price), sortOrder (asc | desc)
+ *
+ * Returns:
+ * - 200: PagedResponse<ExecutionResponse> with total-count metadata
+ * - 400: Invalid query parameters
+ * - 401: Unauthorized (no valid authentication)
+ * - 500: Internal server error
+ */
+export async function listExecutions(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting execution list`);
+
+    // 2. Validate query parameters with Zod
+    const validationResult = GetExecutionsQuerySchema.safeParse(Object.fromEntries(request.query.entries()));
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const {
+      exchangeId, portfolioId, orderId, symbol, from, to, limit, offset, sortBy, sortOrder,
+    } = validationResult.data;
+
+    // 3. Query within a transaction so RLS session context and queries share one connection
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const filters = `
+        WHERE ExchangeId = @exchangeId
+          AND (@portfolioId IS NULL OR PortfolioId = @portfolioId)
+          AND (@orderId IS NULL OR OrderId = @orderId)
+          AND (@symbol IS NULL OR Symbol = @symbol)
+          AND (@from IS NULL OR ExecutedAt >= @from)
+          AND (@to IS NULL OR ExecutedAt < @to)
+      `;
+
+      const withFilters = (req: sql.Request) => req
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .input('portfolioId', sql.UniqueIdentifier, portfolioId ?? null)
+        .input('orderId', sql.UniqueIdentifier, orderId ?? null)
+        .input('symbol', sql.NVarChar, symbol ?? null)
+        .input('from', sql.DateTimeOffset, from ?? null)
+        .input('to', sql.DateTimeOffset, to ?? null);
+
+      const countResult = await withFilters(transaction.request())
+        .query<{ Total: number }>(`
+          SELECT COUNT(*) AS Total
+          FROM [Trade].[Executions]
+          ${filters}
+        `);
+
+      const executionsResult = await withFilters(transaction.request())
+        .input('limit', sql.Int, limit)
+        .input('offset', sql.Int, offset)
+        .query<ExecutionRecord>(`
+          SELECT ${executionColumns()}
+          FROM [Trade].[Executions]
+          ${filters}
+          ORDER BY ${SORT_COLUMNS[sortBy]} ${sortOrder === 'asc' ? 'ASC' : 'DESC'}, [ExecutionId] ASC
+          OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+        `);
+
+      await transaction.commit();
+
+      const response: PagedResponse<ExecutionResponse> = {
+        items: executionsResult.recordset.map(mapExecutionRecord),
+        total: countResult.recordset[0]?.Total ?? 0,
+        limit,
+        offset,
+      };
+
+      context.log(`Returning ${response.items.length} of ${response.total} executions for exchange ${exchangeId}`);
+
+      return {
+        status: 200,
+        jsonBody: response,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error listing executions:', error);
+    return handleError(error);
+  }
+}
+
+app.http('listExecutions', {
+  methods: ['GET'],
+  route: 'v1/executions',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: listExecutions,
+});
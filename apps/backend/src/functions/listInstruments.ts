@@ -0,0 +1,71 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { ListInstrumentsQuerySchema } from '../types/instrument';
+import { getConnectionPool } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { InstrumentRecord, instrumentColumns, mapInstrumentRecord } from '../lib/instruments';
+import { createValidationErrorResponse, handleError } from '../lib/error-handler';
+
+/**
+ * GET /api/v1/instruments?assetClass=<class>
+ *
+ * Lists active instruments from the global instrument master
+ * Open to every authenticated user (Instruments is shared and not RLS-protected)
+ *
+ * Returns:
+ * - 200: InstrumentResponse[], by symbol
+ * - 400: Invalid assetClass
+ * - 401: Unauthorized (no valid authentication)
+ * - 500: Internal server error
+ */
+export async function listInstruments(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting instrument list`);
+
+    // 2. Validate query parameters with Zod
+    const queryValidation = ListInstrumentsQuerySchema.safeParse(Object.fromEntries(request.query.entries()));
+
+    if (!queryValidation.success) {
+      return createValidationErrorResponse(queryValidation.error);
+    }
+
+    const { assetClass } = queryValidation.data;
+
+    // 3. Query active instruments
+    const pool = await getConnectionPool();
+    const dbRequest = pool.request();
+    let whereClause = 'WHERE IsActive = 1';
+
+    if (assetClass) {
+      dbRequest.input('assetClass', sql.NVarChar, assetClass);
+      whereClause += ' AND AssetClass = @assetClass';
+    }
+
+    const result = await dbRequest.query<InstrumentRecord>(`
+      SELECT ${instrumentColumns()}
+      FROM [Trade].[Instruments]
+      ${whereClause}
+      ORDER BY Symbol
+    `);
+
+    return {
+      status: 200,
+      jsonBody: result.recordset.map(mapInstrumentRecord),
+    };
+  } catch (error) {
+    context.error('Error listing instruments:', error);
+    return handleError(error);
+  }
+}
+
+app.http('listInstruments', {
+  methods: ['GET'],
+  route: 'v1/instruments',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: listInstruments,
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: 'NVarChar',
+  Int: 'Int',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { listOrders } from './listOrders';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('listOrders', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const portfolioId = '550e8400-e29b-41d4-a716-446655440001';
+
+  let mockContext: InvocationContext;
+  let mockInput: ReturnType<typeof vi.fn>;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  const requestWithQuery = (query: Record<string, string>) => ({
+    query: new Map(Object.entries(query)),
+    headers: { get: vi.fn() },
+  }) as unknown as HttpRequest;
+
+  const orderRecord = (orderId: string, symbol: string) => ({
+    OrderId: orderId,
+    ExchangeId: exchangeId,
+    PortfolioId: portfolioId,
+    Symbol: symbol,
+    Side: 'BUY',
+    OrderType: 'MARKET',
+    Quantity: 10,
+    Price: null,
+    StopPrice: null,
+    Status: 'FILLED',
+    FilledQuantity: 10,
+    AveragePrice: 101.25,
+    Commission: 0,
+    CreatedAt: '2026-01-19T00:00:00.000Z',
+    UpdatedAt: '2026-01-19T00:00:05.000Z',
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockInput = vi.fn().mockReturnThis();
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should return a page of orders with total-count metadata', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Total: 42 }] })
+      .mockResolvedValueOnce({ recordset: [orderRecord('order-1', 'AAPL'), orderRecord('order-2', 'MSFT')] });
+
+    const response = await listOrders(
+      requestWithQuery({ exchangeId, limit: '2', offset: '10' }),
+      mockContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ total: 42, limit: 2, offset: 10 });
+    expect(response.jsonBody.items).toHaveLength(2);
+    expect(response.jsonBody.items[0]).toMatchObject({ orderId: 'order-1', symbol: 'AAPL', averagePrice: 101.25 });
+    expect(database.setSessionContext).toHaveBeenCalledWith(expect.anything(), 'user-123', exchangeId);
+    expect(mockQuery.mock.calls[1][0]).toContain('ORDER BY [CreatedAt] DESC');
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should apply filters and the requested sort', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Total: 0 }] })
+      .mockResolvedValueOnce({ recordset: [] });
+
+    const response = await listOrders(
+      requestWithQuery({ exchangeId, portfolioId, status: 'PENDING', symbol: 'AAPL', sortBy: 'symbol', sortOrder: 'asc' }),
+      mockContext
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual({ items: [], total: 0, limit: 50, offset: 0 });
+    expect(mockInput).toHaveBeenCalledWith('portfolioId', 'UniqueIdentifier', portfolioId);
+    expect(mockInput).toHaveBeenCalledWith('status', 'NVarChar', 'PENDING');
+    expect(mockInput).toHaveBeenCalledWith('symbol', 'NVarChar', 'AAPL');
+    expect(mockQuery.mock.calls[1][0]).toContain('ORDER BY [Symbol] ASC');
+  });
+
+  it('should reject an unknown sort field', async () => {
+    const response = await listOrders(
+      requestWithQuery({ exchangeId, sortBy: 'price; DROP TABLE Orders' }),
+      mockContext
+    );
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should reject a limit above 100', async () => {
+    const response = await listOrders(requestWithQuery({ exchangeId, limit: '500' }), mockContext);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should require exchangeId', async () => {
+    const response = await listOrders(requestWithQuery({}), mockContext);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should roll back and return 500 on database errors', async () => {
+    mockQuery.mockRejectedValueOnce(new Error('connection reset'));
+
+    const response = await listOrders(requestWithQuery({ exchangeId }), mockContext);
+
+    expect(response.status).toBe(500);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+});
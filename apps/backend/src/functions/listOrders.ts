@@ -0,0 +1,132 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { GetOrderQuerySchema, OrderResponse, OrderSortField, PagedResponse } from '../types/transaction';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { OrderRecord, orderColumns, mapOrderRecord } from '../lib/orders';
+import {
+  createValidationErrorResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * Whitelisted ORDER BY columns for each sortBy value
+ * (sort input is never interpolated into SQL directly)
+ */
+const SORT_COLUMNS: Record<OrderSortField, string> = {
+  createdAt: '[CreatedAt]',
+  updatedAt: '[UpdatedAt]',
+  symbol: '[Symbol]',
+  quantity: '[Quantity]',
+  status: '[Status]',
+};
+
+/**
+ * GET /api/v1/orders
+ *
+ * Lists orders for an exchange with optional portfolio/status/symbol filters
+ * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * Query Parameters (GetOrderQuerySchema):
+ * - exchangeId (required), portfolioId, status, symbol
+ * - limit (default 50, max 100), offset (default 0)
+ * - sortBy (createdAt | updatedAt | symbol | quantity | status), sortOrder (asc | desc)
+ *
+ * Returns:
+ * - 200: PagedResponse<OrderResponse> with total-count metadata
+ * - 400: Invalid query parameters
+ * - 401: Unauthorized (no valid authentication)
+ * - 500: Internal server error
+ */
+export async function listOrders(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting order list`);
+
+    // 2. Validate query parameters with Zod
+    const validationResult = GetOrderQuerySchema.safeParse(Object.fromEntries(request.query.entries()));
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId, portfolioId, status, symbol, limit, offset, sortBy, sortOrder } = validationResult.data;
+
+    // 3. Query within a transaction so RLS session context and queries share one connection
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const filters = `
+        WHERE ExchangeId = @exchangeId
+          AND (@portfolioId IS NULL OR PortfolioId = @portfolioId)
+          AND (@status IS NULL OR Status = @status)
+          AND (@symbol IS NULL OR Symbol = @symbol)
+      `;
+
+      const withFilters = (req: sql.Request) => req
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .input('portfolioId', sql.UniqueIdentifier, portfolioId ?? null)
+        .input('status', sql.NVarChar, status ?? null)
+        .input('symbol', sql.NVarChar, symbol ?? null);
+
+      const countResult = await withFilters(transaction.request())
+        .query<{ Total: number }>(`
+          SELECT COUNT(*) AS Total
+          FROM [Trade].[Orders]
+          ${filters}
+        `);
+
+      const ordersResult = await withFilters(transaction.request())
+        .input('limit', sql.Int, limit)
+        .input('offset', sql.Int, offset)
+        .query<OrderRecord>(`
+          SELECT ${orderColumns()}
+          FROM [Trade].[Orders]
+          ${filters}
+          ORDER BY ${SORT_COLUMNS[sortBy]} ${sortOrder === 'asc' ? 'ASC' : 'DESC'}, [OrderId] ASC
+          OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+        `);
+
+      await transaction.commit();
+
+      const response: PagedResponse<OrderResponse> = {
+        items: ordersResult.recordset.map(mapOrderRecord),
+        total: countResult.recordset[0]?.Total ?? 0,
+        limit,
+        offset,
+      };
+
+      context.log(`Returning ${response.items.length} of ${response.total} orders for exchange ${exchangeId}`);
+
+      return {
+        status: 200,
+        jsonBody: response,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error listing orders:', error);
+    return handleError(error);
+  }
+}
+
+app.http('listOrders', {
+  methods: ['GET'],
+  route: 'v1/orders',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: listOrders,
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Int: 'Int',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { listPortfolios } from './listPortfolios';
+import * as auth from '../lib/auth';
+import * as cache from '../lib/cache';
+import * as database from '../lib/database';
+
+describe('listPortfolios', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+
+  let mockContext: InvocationContext;
+  let mockInput: ReturnType<typeof vi.fn>;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  const requestWithQuery = (query: Record<string, string>) => ({
+    query: new Map(Object.entries(query)),
+    headers: { get: vi.fn() },
+  }) as unknown as HttpRequest;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    vi.mocked(cache.getQuote).mockResolvedValue({ price: 110, timestamp: '2026-01-19T10:00:00.000Z' });
+
+    mockContext = {
+      log: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockInput = vi.fn().mockReturnThis();
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should return a page of valued portfolios', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Total: 2 }] })
+      .mockResolvedValueOnce({
+        recordset: [
+          { PortfolioId: 'portfolio-1', ExchangeId: exchangeId, Name: 'Alpha', CashBalance: 1000, RealizedPnL: 0, MarginStatus: 'OK' },
+          { PortfolioId: 'portfolio-2', ExchangeId: exchangeId, Name: 'Beta', CashBalance: 2000, RealizedPnL: -25, MarginStatus: 'MARGIN_CALL' },
+        ],
+      })
+      .mockResolvedValueOnce({
+        recordset: [{ PortfolioId: 'portfolio-2', Symbol: 'SPY', Quantity: -10, AveragePrice: 100, RealizedPnL: -25 }],
+      });
+
+    const response = await listPortfolios(requestWithQuery({ exchangeId, limit: '2' }), mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ total: 2, limit: 2, offset: 0 });
+    expect(response.jsonBody.items[0]).toMatchObject({ portfolioId: 'portfolio-1', totalValue: 1000, positions: [] });
+    expect(response.jsonBody.items[1]).toMatchObject({
+      portfolioId: 'portfolio-2',
+      totalValue: 900,
+      unrealizedPnL: -100,
+      realizedPnL: -25,
+      marginStatus: 'MARGIN_CALL',
+      positions: [{ symbol: 'SPY', currentPrice: 110, unrealizedPnL: -100 }],
+    });
+    expect(mockInput).toHaveBeenCalledWith('portfolioIds', 'NVarChar', JSON.stringify(['portfolio-1', 'portfolio-2']));
+  });
+
+  it('should skip position queries for an empty page', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Total: 0 }] })
+      .mockResolvedValueOnce({ recordset: [] });
+
+    const response = await listPortfolios(requestWithQuery({ exchangeId }), mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual({ items: [], total: 0, limit: 50, offset: 0 });
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('should require exchangeId', async () => {
+    const response = await listPortfolios(requestWithQuery({}), mockContext);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should roll back and return 500 on database errors', async () => {
+    mockQuery.mockRejectedValueOnce(new Error('connection reset'));
+
+    const response = await listPortfolios(requestWithQuery({ exchangeId }), mockContext);
+
+    expect(response.status).toBe(500);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { GetPortfoliosQuerySchema, PagedResponse, PortfolioResponse } from '../types/transaction';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { PortfolioRecord, portfolioColumns, valuePortfolios } from '../lib/portfolio';
+import {
+  createValidationErrorResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/portfolios?exchangeId=<uuid>
+ *
+ * Lists the portfolios visible to the caller in an exchange, with positions marked to market
+ * Implements ADR-007: Transaction API with HTTP Triggers and Zod validation
+ *
+ * Query Parameters (GetPortfoliosQuerySchema):
+ * - exchangeId (required)
+ * - limit (default 50, max 100), offset (default 0)
+ *
+ * Returns:
+ * - 200: PagedResponse<PortfolioResponse> with total-count metadata
+ * - 400: Invalid query parameters
+ * - 401: Unauthorized (no valid authentication)
+ * - 500: Internal server error
+ */
+export async function listPortfolios(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting portfolio list`);
+
+    // 2. Validate query parameters with Zod
+    const validationResult = GetPortfoliosQuerySchema.safeParse(Object.fromEntries(request.query.entries()));
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId, limit, offset } = validationResult.data;
+
+    // 3. Query within a transaction so RLS session context and queries share one connection
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const countResult = await transaction.request()
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .query<{ Total: number }>(`
+          SELECT COUNT(*) AS Total
+          FROM [Trade].[Portfolios]
+          WHERE ExchangeId = @exchangeId
+        `);
+
+      const portfoliosResult = await transaction.request()
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .input('limit', sql.Int, limit)
+        .input('offset', sql.Int, offset)
+        .query<PortfolioRecord>(`
+          SELECT ${portfolioColumns()}
+          FROM [Trade].[Portfolios]
+          WHERE ExchangeId = @exchangeId
+          ORDER BY [CreatedAt] ASC, [PortfolioId] ASC
+          OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY
+        `);
+
+      // 4. Value positions of the page at current prices
+      const items = await valuePortfolios(transaction, exchangeId, portfoliosResult.recordset);
+
+      await transaction.commit();
+
+      const response: PagedResponse<PortfolioResponse> = {
+        items,
+        total: countResult.recordset[0]?.Total ?? 0,
+        limit,
+        offset,
+      };
+
+      context.log(`Returning ${response.items.length} of ${response.total} portfolios for exchange ${exchangeId}`);
+
+      return {
+        status: 200,
+        jsonBody: response,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error listing portfolios:', error);
+    return handleError(error);
+  }
+}
+
+app.http('listPortfolios', {
+  methods: ['GET'],
+  route: 'v1/portfolios',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: listPortfolios,
+});
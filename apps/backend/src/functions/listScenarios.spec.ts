@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { listScenarios } from './listScenarios';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('listScenarios', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const activeExchange = {
+    ExchangeId: exchangeId,
+    Name: 'Test Exchange',
+    CreatedAt: '2026-01-01T00:00:00Z',
+    CreatedBy: 'user-123',
+  };
+  const scenario = {
+    ScenarioId: '660e8400-e29b-41d4-a716-446655440000',
+    ExchangeId: exchangeId,
+    Name: 'Tech selloff',
+    Timeline: JSON.stringify([{ type: 'GAP', atSeconds: 30, percent: -8, sector: 'Technology' }]),
+    Status: 'PAUSED',
+    ElapsedMs: 12500,
+    ResumedAt: null,
+    NextEventIndex: 0,
+    CreatedBy: 'user-123',
+    CreatedAt: '2026-01-02T00:00:00Z',
+  };
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId },
+      query: new Map(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should return the scenarios with their progress', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockResolvedValueOnce({ recordset: [scenario] });
+
+    const response = await listScenarios(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual([
+      expect.objectContaining({ name: 'Tech selloff', status: 'PAUSED', elapsedSeconds: 12.5 }),
+    ]);
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should return 400 for an invalid exchangeId', async () => {
+    mockRequest = { ...mockRequest, params: { exchangeId: 'not-a-uuid' } } as unknown as HttpRequest;
+
+    const response = await listScenarios(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'Analyst' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] });
+
+    const response = await listScenarios(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await listScenarios(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,96 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeParamsSchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange } from '../lib/exchanges';
+import { listScenarios as listScenarioRecords, mapScenarioRecord } from '../lib/scenarios';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * GET /api/v1/exchanges/{exchangeId}/scenarios
+ *
+ * Lists the exchange's market scenarios, newest first, with their progress
+ * Restricted to RiskManagers (ADR-002)
+ *
+ * Returns:
+ * - 200: ScenarioResponse[]
+ * - 400: Invalid exchangeId
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, archived, or caller is not a member
+ * - 500: Internal server error
+ */
+export async function listScenarios(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting scenarios of exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameter with Zod
+    const paramsValidation = ExchangeParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+
+    // 3. Check the caller's role and read the scenarios within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = callerRoles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      if (!exchange) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage market scenarios');
+      }
+
+      const records = await listScenarioRecords(transaction, exchangeId);
+
+      await transaction.commit();
+
+      // 4. Return the scenarios
+      return {
+        status: 200,
+        jsonBody: records.map((record) => mapScenarioRecord(record)),
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error listing scenarios:', error);
+    return handleError(error);
+  }
+}
+
+app.http('listScenarios', {
+  methods: ['GET'],
+  route: 'v1/exchanges/{exchangeId}/scenarios',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: listScenarios,
+});
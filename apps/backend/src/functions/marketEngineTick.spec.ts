@@ -5,6 +5,31 @@ vi.mock('../lib/database');
 vi.mock('../lib/cache', () => ({
   cacheQuote: vi.fn().mockResolvedValue(undefined),
   getQuote: vi.fn().mockResolvedValue(null),
+  cacheDepth: vi.fn().mockResolvedValue(undefined),
+  getDepth: vi.fn().mockResolvedValue(null),
+  nextDepthSequence: vi.fn().mockResolvedValue(1),
+}));
+vi.mock('../lib/signalr-broadcast');
+vi.mock('../lib/event-hub');
+vi.mock('../lib/scenarios');
+vi.mock('../lib/trading-halts');
+vi.mock('../lib/circuit-breakers', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../lib/circuit-breakers')>(),
+  checkCircuitBreaker: vi.fn().mockResolvedValue(null),
+}));
+vi.mock('../lib/market-sessions', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../lib/market-sessions')>(),
+  getMarketSessionPhase: vi.fn(),
+  advanceMarketSessionPhase: vi.fn(),
+}));
+vi.mock('../lib/matching', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../lib/matching')>();
+  return { ...actual, matchOrderQuantity: vi.fn(actual.matchOrderQuantity) };
+});
+vi.mock('../lib/market-depth', () => ({
+  DEPTH_FEED_LEVELS: 20,
+  getOrderBookDepth: vi.fn().mockResolvedValue({ bids: [], asks: [] }),
+  diffMarketDepth: vi.fn().mockReturnValue([]),
 }));
 vi.mock('mssql', () => ({
   default: {},
@@ -12,13 +37,10 @@ vi.mock('mssql', () => ({
   Request: vi.fn(),
   NVarChar: 'NVarChar',
   UniqueIdentifier: 'UniqueIdentifier',
-  Decimal: 'Decimal',
+  Decimal: vi.fn(() => 'Decimal'),
   BigInt: 'BigInt',
   DateTime2: 'DateTime2',
 }));
-vi.mock('./marketEngineTick', () => ({
-  marketEngineTick: vi.fn(),
-}));
 vi.mock('@azure/functions', () => ({
   Timer: vi.fn(),
   InvocationContext: vi.fn(),
@@ -28,6 +50,165 @@ vi.mock('@azure/functions', () => ({
 import { InvocationContext, Timer } from '@azure/functions';
 import { marketEngineTick } from './marketEngineTick';
 import * as database from '../lib/database';
+import * as tradingHalts from '../lib/trading-halts';
+import * as marketSessions from '../lib/market-sessions';
+import * as marketDepth from '../lib/market-depth';
+import * as cache from '../lib/cache';
+import * as matching from '../lib/matching';
+import * as signalrBroadcast from '../lib/signalr-broadcast';
+
+/**
+ * In-memory stand-in for the tables the matching path reads and writes
+ *
+ * Queries are routed by their SQL text. Writes made in a transaction are applied on commit
+ * and dropped on rollback, so tests see only what the engine committed.
+ */
+interface FakeOrder {
+  OrderId: string;
+  PortfolioId: string;
+  Side: 'BUY' | 'SELL' | 'SHORT' | 'COVER';
+  OrderType: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT';
+  Quantity: number;
+  Price: number | null;
+  StopPrice: number | null;
+  FilledQuantity: number;
+  AveragePrice: number | null;
+  StopTriggered: boolean;
+  Status: string;
+  PriorityAt: string;
+}
+
+interface FakeExecution {
+  orderId: string;
+  quantity: number;
+  price: number;
+}
+
+function createFakeDatabase(orders: Partial<FakeOrder>[], portfolios: Record<string, { cash: number; position: number }>) {
+  const state = {
+    close: 100,
+    orders: orders.map((order, index) => ({
+      PortfolioId: 'portfolio-1',
+      OrderType: 'LIMIT',
+      Price: null,
+      StopPrice: null,
+      FilledQuantity: 0,
+      AveragePrice: null,
+      StopTriggered: false,
+      Status: 'PENDING',
+      PriorityAt: new Date(Date.UTC(2026, 0, 19, 0, 0, index)).toISOString(),
+      ...order,
+    }) as FakeOrder),
+    portfolios,
+    executions: [] as FakeExecution[],
+    ticks: [] as { close: number; volume: number }[],
+    sessionTimeZone: null as string | null,
+    transactions: { committed: 0, rolledBack: 0 },
+  };
+  const orderById = (orderId: string) => state.orders.find((order) => order.OrderId === orderId) as FakeOrder;
+
+  const route = (text: string, inputs: Record<string, any>, writes: (() => void)[]): unknown[] => {
+    if (text.includes('FROM [Trade].[Exchanges]')) {
+      return [{ ExchangeId: '550e8400-e29b-41d4-a716-446655440000', Name: 'Test Exchange' }];
+    }
+    if (text.includes('FROM [Trade].[ExchangeConfigurations]')) {
+      return [{
+        MarketEngineEnabled: true, Volatility: 0.02, Commission: 0, AllowMargin: true, VolatilityIndex: 1,
+        SessionTimeZone: state.sessionTimeZone,
+      }];
+    }
+    if (text.includes('FROM [Trade].[ExchangeInstruments]')) {
+      return [{
+        Symbol: 'AAPL', Close: state.close, Volume: 10000, BasePrice: 100,
+        VolatilityMultiplier: 0, TickSize: 0.01, LotSize: 1,
+      }];
+    }
+    if (text.includes('FROM [Trade].[Orders] o')) {
+      return state.orders
+        .filter((order) => order.Status === 'PENDING' || order.Status === 'PARTIAL')
+        .sort((a, b) => a.PriorityAt.localeCompare(b.PriorityAt) || a.OrderId.localeCompare(b.OrderId))
+        .map((order) => ({ ...order }));
+    }
+    if (text.includes('FROM [Trade].[Orders] WITH (UPDLOCK, ROWLOCK)')) {
+      return [{ ...orderById(inputs.orderId) }];
+    }
+    if (text.includes('SELECT CashBalance, MarginStatus')) {
+      return [{ CashBalance: state.portfolios[inputs.portfolioId].cash, MarginStatus: 'OK' }];
+    }
+    if (text.includes('FROM [Trade].[Positions] WITH (UPDLOCK, ROWLOCK)')) {
+      return [{ Quantity: state.portfolios[inputs.portfolioId].position, AveragePrice: 90 }];
+    }
+    if (text.includes('UPDATE [Trade].[Orders]')) {
+      writes.push(() => Object.assign(orderById(inputs.orderId), text.includes('StopTriggered = 1')
+        ? { StopTriggered: true }
+        : text.includes("'REJECTED'")
+          ? { Status: 'REJECTED' }
+          : { FilledQuantity: inputs.filledQuantity, AveragePrice: inputs.averagePrice, Status: inputs.status }));
+    } else if (text.includes('MERGE [Trade].[Positions]')) {
+      writes.push(() => { state.portfolios[inputs.portfolioId].position += inputs.quantityChange; });
+    } else if (text.includes('UPDATE [Trade].[Portfolios]') && text.includes('@cashChange')) {
+      writes.push(() => { state.portfolios[inputs.portfolioId].cash += inputs.cashChange; });
+    } else if (text.includes('INSERT INTO [Trade].[MarketData]')) {
+      writes.push(() => state.ticks.push({ close: inputs.close, volume: inputs.volume }));
+    } else if (text.includes('INSERT INTO [Trade].[Executions]')) {
+      writes.push(() => state.executions.push({
+        orderId: inputs.executionOrderId,
+        quantity: inputs.executionQuantity,
+        price: inputs.executionPrice,
+      }));
+    }
+    return [];
+  };
+
+  const createRequest = (writes: (() => void)[]) => {
+    const inputs: Record<string, any> = {};
+    const request = {
+      input: (name: string, _type: unknown, value: unknown) => {
+        inputs[name] = value;
+        return request;
+      },
+      query: async (text: string) => ({ recordset: route(text, inputs, writes) }),
+    };
+    return request;
+  };
+
+  const pool = {
+    request: () => {
+      const writes: (() => void)[] = [];
+      const request = createRequest(writes);
+      return {
+        ...request,
+        input(name: string, type: unknown, value: unknown) {
+          request.input(name, type, value);
+          return this;
+        },
+        query: async (text: string) => {
+          const result = await request.query(text);
+          writes.splice(0).forEach((write) => write());
+          return result;
+        },
+      };
+    },
+    transaction: () => {
+      let writes: (() => void)[] = [];
+      return {
+        begin: vi.fn().mockResolvedValue(undefined),
+        request: () => createRequest(writes),
+        commit: vi.fn(async () => {
+          writes.forEach((write) => write());
+          writes = [];
+          state.transactions.committed++;
+        }),
+        rollback: vi.fn(async () => {
+          writes.splice(0);
+          state.transactions.rolledBack++;
+        }),
+      };
+    },
+  };
+
+  return { state, pool };
+}
 
 /**
  * marketEngineTick function tests
@@ -213,3 +394,223 @@ describe.skip('marketEngineTick', () => {
     );
   });
 });
+
+describe('marketEngineTick order matching', () => {
+  const mockTimer = { isPastDue: false } as Timer;
+  let mockContext: InvocationContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    vi.mocked(tradingHalts.releaseExpiredHalts).mockResolvedValue([]);
+    vi.mocked(marketSessions.getMarketSessionPhase).mockReturnValue('CONTINUOUS');
+    vi.mocked(marketSessions.advanceMarketSessionPhase).mockResolvedValue(undefined);
+  });
+
+  const runTick = async (db: ReturnType<typeof createFakeDatabase>) => {
+    vi.mocked(database.getConnectionPool).mockResolvedValue(db.pool as any);
+    await marketEngineTick(mockTimer, mockContext);
+  };
+
+  // The market maker quotes 99.95 / 100.05 around the unchanged price of 100
+  describe('crossing participants\' orders', () => {
+    it('should fill both sides of a cross in one transaction at the resting order\'s price', async () => {
+      const db = createFakeDatabase(
+        [
+          { OrderId: 'sell-1', PortfolioId: 'seller', Side: 'SELL', Quantity: 30, Price: 100 },
+          { OrderId: 'buy-1', PortfolioId: 'buyer', Side: 'BUY', Quantity: 30, Price: 101 },
+        ],
+        { buyer: { cash: 100000, position: 0 }, seller: { cash: 0, position: 50 } }
+      );
+
+      await runTick(db);
+
+      expect(db.state.executions).toEqual([
+        { orderId: 'buy-1', quantity: 30, price: 100 },
+        { orderId: 'sell-1', quantity: 30, price: 100 },
+      ]);
+      expect(db.state.transactions).toEqual({ committed: 1, rolledBack: 0 });
+      expect(db.state.portfolios).toEqual({ buyer: { cash: 97000, position: 30 }, seller: { cash: 3000, position: 20 } });
+    });
+
+    it('should roll back the buyer\'s fill when the seller cannot fill', async () => {
+      const db = createFakeDatabase(
+        [
+          { OrderId: 'sell-1', PortfolioId: 'seller', Side: 'SELL', Quantity: 30, Price: 100 },
+          { OrderId: 'buy-1', PortfolioId: 'buyer', Side: 'BUY', Quantity: 30, Price: 101 },
+        ],
+        { buyer: { cash: 100000, position: 0 }, seller: { cash: 0, position: 0 } }
+      );
+
+      await runTick(db);
+
+      // The buy limit then trades with the market maker's ask instead
+      expect(db.state.executions).toEqual([{ orderId: 'buy-1', quantity: 30, price: 101 }]);
+      expect(db.state.orders.find((order) => order.OrderId === 'sell-1')?.FilledQuantity).toBe(0);
+    });
+
+    it('should retry a cross at the quantity the seller can take', async () => {
+      const db = createFakeDatabase(
+        [
+          { OrderId: 'sell-1', PortfolioId: 'seller', Side: 'SELL', Quantity: 30, Price: 100 },
+          { OrderId: 'buy-1', PortfolioId: 'buyer', Side: 'BUY', Quantity: 30, Price: 101 },
+        ],
+        { buyer: { cash: 100000, position: 0 }, seller: { cash: 0, position: 10 } }
+      );
+
+      await runTick(db);
+
+      expect(db.state.executions).toEqual([
+        { orderId: 'buy-1', quantity: 10, price: 100 },
+        { orderId: 'sell-1', quantity: 10, price: 100 },
+        { orderId: 'buy-1', quantity: 20, price: 101 },
+      ]);
+      expect(db.state.portfolios.seller).toEqual({ cash: 1000, position: 0 });
+    });
+
+    it('should cross the resting order queued first by PriorityAt, then OrderId', async () => {
+      const db = createFakeDatabase(
+        [
+          { OrderId: 'sell-a', PortfolioId: 'seller', Side: 'SELL', Quantity: 10, Price: 100, PriorityAt: '2026-01-19T00:00:02.000Z' },
+          { OrderId: 'sell-c', PortfolioId: 'seller', Side: 'SELL', Quantity: 10, Price: 100, PriorityAt: '2026-01-19T00:00:01.000Z' },
+          { OrderId: 'sell-b', PortfolioId: 'seller', Side: 'SELL', Quantity: 10, Price: 100, PriorityAt: '2026-01-19T00:00:01.000Z' },
+          { OrderId: 'buy-1', PortfolioId: 'buyer', Side: 'BUY', Quantity: 10, Price: 101 },
+        ],
+        { buyer: { cash: 100000, position: 0 }, seller: { cash: 0, position: 50 } }
+      );
+
+      await runTick(db);
+
+      expect(db.state.executions).toEqual([
+        { orderId: 'buy-1', quantity: 10, price: 100 },
+        { orderId: 'sell-b', quantity: 10, price: 100 },
+      ]);
+    });
+
+    it('should not cross orders of the same portfolio', async () => {
+      const db = createFakeDatabase(
+        [
+          { OrderId: 'sell-1', PortfolioId: 'trader', Side: 'SELL', Quantity: 30, Price: 100 },
+          { OrderId: 'buy-1', PortfolioId: 'trader', Side: 'BUY', Quantity: 30, Price: 101 },
+        ],
+        { trader: { cash: 100000, position: 50 } }
+      );
+
+      await runTick(db);
+
+      // Only the buy limit marketable against the market maker's ask fills
+      expect(db.state.executions).toEqual([{ orderId: 'buy-1', quantity: 30, price: 101 }]);
+    });
+  });
+
+  describe('market maker fills', () => {
+    it('should leave the order\'s status as it is when there is nothing left to fill', async () => {
+      const db = createFakeDatabase(
+        [{ OrderId: 'buy-1', PortfolioId: 'buyer', Side: 'BUY', Quantity: 30, Price: 101 }],
+        { buyer: { cash: 100000, position: 0 } }
+      );
+      vi.mocked(matching.matchOrderQuantity).mockReturnValueOnce({
+        orderId: 'buy-1',
+        matchedQuantity: 0,
+        remainingQuantity: 30,
+        status: 'NO_MATCH',
+      });
+
+      await runTick(db);
+
+      expect(db.state.orders[0]).toMatchObject({ Status: 'PENDING', FilledQuantity: 0 });
+      expect(db.state.executions).toEqual([]);
+      expect(db.state.portfolios.buyer).toEqual({ cash: 100000, position: 0 });
+    });
+  });
+
+  describe('stop orders', () => {
+    it('should keep filling a triggered STOP after the price moves back through its stop', async () => {
+      const db = createFakeDatabase(
+        [{ OrderId: 'stop-1', PortfolioId: 'seller', Side: 'SELL', OrderType: 'STOP', Quantity: 4000, StopPrice: 100.5 }],
+        { seller: { cash: 0, position: 4000 } }
+      );
+
+      await runTick(db);
+      db.state.close = 101;
+      await runTick(db);
+
+      // The market maker's bid size (a quarter of the random tick volume) leaves it PARTIAL on the first tick
+      expect(db.state.executions.map((execution) => execution.price)).toEqual([99.95, 100.94]);
+      expect(db.state.orders[0]).toMatchObject({ StopTriggered: true, Status: 'FILLED', FilledQuantity: 4000 });
+    });
+  });
+
+  describe('depth feed', () => {
+    it('should number each depth update with the book\'s next sequence', async () => {
+      const db = createFakeDatabase([], {});
+      const change = { side: 'BID' as const, price: 99.5, quantity: 100, orderCount: 1 };
+      vi.mocked(marketDepth.diffMarketDepth).mockReturnValueOnce([change]);
+      vi.mocked(cache.nextDepthSequence).mockResolvedValueOnce(8);
+
+      await runTick(db);
+
+      expect(cache.cacheDepth).toHaveBeenCalledWith(expect.any(String), 'AAPL', { bids: [], asks: [] });
+      expect(signalrBroadcast.broadcastDepthUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ symbol: 'AAPL', changes: [change], sequence: 8 }),
+        mockContext
+      );
+    });
+
+    it('should not broadcast an update it could not number', async () => {
+      const db = createFakeDatabase([], {});
+      vi.mocked(marketDepth.diffMarketDepth).mockReturnValueOnce([
+        { side: 'BID', price: 99.5, quantity: 100, orderCount: 1 },
+      ]);
+      vi.mocked(cache.nextDepthSequence).mockRejectedValueOnce(new Error('Redis unavailable'));
+
+      await runTick(db);
+
+      expect(signalrBroadcast.broadcastDepthUpdate).not.toHaveBeenCalled();
+      expect(mockContext.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to publish depth for AAPL'));
+    });
+  });
+
+  describe('opening auction', () => {
+    const openingAuctionDatabase = (sellerPosition: number) => {
+      const db = createFakeDatabase(
+        [
+          { OrderId: 'sell-1', PortfolioId: 'seller', Side: 'SELL', Quantity: 30, Price: 99 },
+          { OrderId: 'buy-1', PortfolioId: 'buyer', Side: 'BUY', Quantity: 30, Price: 101 },
+        ],
+        { buyer: { cash: 100000, position: 0 }, seller: { cash: 0, position: sellerPosition } }
+      );
+      db.state.sessionTimeZone = 'America/New_York';
+      vi.mocked(marketSessions.advanceMarketSessionPhase).mockResolvedValue({ previousPhase: 'PRE_OPEN' });
+      return db;
+    };
+
+    it('should fill both sides of an auction cross and count its volume once', async () => {
+      const db = openingAuctionDatabase(50);
+
+      await runTick(db);
+
+      expect(db.state.executions).toEqual([
+        { orderId: 'buy-1', quantity: 30, price: 100 },
+        { orderId: 'sell-1', quantity: 30, price: 100 },
+      ]);
+      expect(db.state.ticks[0]).toEqual({ close: 100, volume: 30 });
+    });
+
+    it('should roll back the buyer\'s auction fill when the seller cannot fill', async () => {
+      const db = openingAuctionDatabase(0);
+
+      await runTick(db);
+
+      // Continuous trading then fills the buy limit from the market maker's ask
+      expect(db.state.ticks[0]).toEqual({ close: 100, volume: 0 });
+      expect(db.state.executions).toEqual([{ orderId: 'buy-1', quantity: 30, price: 101 }]);
+    });
+  });
+});
@@ -1,33 +1,51 @@
 import { app, InvocationContext, Timer } from '@azure/functions';
 import * as sql from 'mssql';
 import Decimal from 'decimal.js';
-import { MarketTickSchema, PriceUpdateEventSchema } from '../types/market-engine';
+import { MarketTick, MarketTickSchema, PriceUpdateEventSchema } from '../types/market-engine';
+import { OrderSide, OrderStatus, OrderType } from '../types/transaction';
 import { getConnectionPool } from '../lib/database';
-import { cacheQuote } from '../lib/cache';
-import { broadcastPriceUpdate } from '../lib/signalr-broadcast';
+import { cacheDepth, cacheQuote, getDepth, nextDepthSequence } from '../lib/cache';
+import {
+  broadcastExchangeConfigUpdated,
+  broadcastDepthUpdate,
+  broadcastMarketSession,
+  broadcastPriceUpdate,
+  broadcastTradingHalt,
+} from '../lib/signalr-broadcast';
 import { sendPriceUpdateToEventHub } from '../lib/event-hub';
-
-/**
- * Default starting price for newly simulated symbols when no explicit reference price
- * is available from configuration or the database.
- *
- * Rationale:
- * - 100 is a neutral, round reference level commonly used in financial simulations and
- *   academic literature for synthetic instruments and indices.
- * - It makes percentage-based reasoning straightforward (e.g., a 1% move is +1.00),
- *   which is useful when validating and debugging the market engine.
- *
- * Realism considerations:
- * - For large-cap equities and many ETFs, a price around 100 USD is within a realistic
- *   order of magnitude.
- * - For other asset classes (e.g., BTC at tens of thousands, micro-cap stocks below 5,
- *   some commodities quoted per contract), this is *not* intended to be realistic and
- *   should be overridden via exchange/asset configuration.
- *
- * This constant is therefore a *safety fallback only* and should not be treated as a
- * domain-accurate default for all assets.
- */
-const DEFAULT_INITIAL_PRICE = 100;
+import { CASH_PAYING_SIDES, getReservedCash, isOpenOrderStatus } from '../lib/orders';
+import { calculateAveragePrice, calculateTickLiquidity, matchOrderQuantity } from '../lib/matching';
+import { recordExecution } from '../lib/executions';
+import { roundToLot, roundToTick } from '../lib/instruments';
+import { simulatePrice, toPriceModelSettings } from '../lib/price-models';
+import { advanceSimulationStep, symbolRandomSource } from '../lib/simulation-seed';
+import { correlatedShock, drawMarketFactors, toCorrelationSettings } from '../lib/market-factors';
+import { applyDueScenarioEvents, gapMultiplier } from '../lib/scenarios';
+import { activeHaltCondition, haltTrading, mapTradingHaltEvent, releaseExpiredHalts } from '../lib/trading-halts';
+import { checkCircuitBreaker, checkLuldBand, toCircuitBreakerSettings } from '../lib/circuit-breakers';
+import {
+  advanceMarketSessionPhase,
+  getMarketSessionPhase,
+  sessionTransitionAuction,
+  toMarketSessionSchedule,
+} from '../lib/market-sessions';
+import { uncrossAuction } from '../lib/auctions';
+import { BookTrade, buildOrderBook, fillBookOrder, nextBookTrade, removeBookOrder } from '../lib/order-book';
+import { MarketMakerQuote, MarketMakerSettings, quoteMarket, toMarketMakerSettings } from '../lib/market-maker';
+import { DEPTH_FEED_LEVELS, diffMarketDepth, getOrderBookDepth } from '../lib/market-depth';
+import { CommissionSchedule, calculateFillCommission, toCommissionSchedule } from '../lib/commission';
+import { CostBasisLot, DEFAULT_COST_BASIS_METHOD, applyCostBasisFill } from '../lib/cost-basis';
+import { CostBasisMethod } from '../types/exchange';
+import { MarketAuctionType } from '../types/market-session';
+import {
+  MarginSettings,
+  calculateAvailableMargin,
+  calculateMarginSummary,
+  calculateShortRequirement,
+  getMarginPositions,
+  positionDirection,
+  toMarginSettings,
+} from '../lib/margin';
 
 /**
  * Default per-tick volatility used when an asset/exchange-specific volatility is not
@@ -52,18 +70,46 @@ const DEFAULT_INITIAL_PRICE = 100;
  *   and production configs should tune per symbol or per exchange.
  *
  * This value is intended as a generic fallback for environments where detailed
- * calibration is not yet available. For high-fidelity simulations, configure
- * symbol-specific volatility parameters instead of relying on this default.
+ * calibration is not yet available. Each instrument's VolatilityMultiplier scales the
+ * exchange volatility per symbol (e.g. crypto above FX).
  */
 const DEFAULT_VOLATILITY = 0.02;
 
+/**
+ * Default simulated volume for symbols whose latest tick has no volume.
+ *
+ * The volume random walk is multiplicative, so a symbol starting at zero volume would
+ * never trade any volume and, with liquidity-capped matching, never fill any orders.
+ * 10,000 units per tick keeps the default participation cap (2,500 units) large enough
+ * for typical training orders while still forcing block orders to be worked over
+ * several ticks.
+ */
+const DEFAULT_INITIAL_VOLUME = 10000;
+
+/**
+ * Default share of each tick's simulated volume that user orders may fill when the
+ * exchange has no MaxParticipationRate configured.
+ *
+ * Rationale:
+ * - Execution desks commonly cap participation at 10–25% of market volume to limit
+ *   market impact; 25% sits at the aggressive end of that range so small orders fill
+ *   immediately while large orders fill PARTIAL across ticks.
+ */
+const DEFAULT_PARTICIPATION_RATE = 0.25;
+
 /**
  * Market Engine Timer Trigger
  * 
  * Runs every 5 seconds to:
- * 1. Generate market price updates for active exchanges
- * 2. Match pending orders against current market prices
+ * 1. Generate market price updates for the instruments listed on active exchanges
+ * 2. Cross participants' open orders in each symbol's order book (price-time priority), then
+ *    match the rest against the market maker's bid/ask quote, capped by its quoted sizes
  * 3. Update order statuses and portfolio positions
+ * 4. Halt symbols whose price leaves their LULD band, and the whole exchange when its index
+ *    falls past the circuit breaker threshold (halt and resume events go to ticker:{exchangeId})
+ * 5. Follow each exchange's trading session: run the opening and closing auctions when the
+ *    session opens and closes, and only tick and match during continuous trading
+ * 6. Broadcast the price levels that changed in each symbol's order book (depth feed)
  * 
  * Implements ADR-007: Market Engine with Timer Triggers and Zod validation
  */
@@ -107,7 +153,13 @@ export async function marketEngineTick(
         const configResult = await pool.request()
           .input('exchangeId', sql.UniqueIdentifier, exchangeId)
           .query(`
-            SELECT TickIntervalMs, Volatility, MarketEngineEnabled
+            SELECT TickIntervalMs, Volatility, MarketEngineEnabled, MaxParticipationRate,
+                   Commission, CommissionModel, AllowMargin, InitialMargin, MaintenanceMargin,
+                   CostBasisMethod, PriceModel, Drift, JumpIntensity, JumpMean, JumpVolatility, MeanReversion,
+                   MarketCorrelation, SectorCorrelation, SimulationSeed, VolatilityIndex,
+                   LuldBand, LuldHaltSeconds, CircuitBreakerThreshold, CircuitBreakerHaltSeconds,
+                   SessionTimeZone, SessionOpenTime, SessionCloseTime, PreOpenMinutes, ClosingAuctionMinutes,
+                   SessionHolidays, MarketMakerSpreadBps
             FROM [Trade].[ExchangeConfigurations]
             WHERE ExchangeId = @exchangeId
           `);
@@ -118,8 +170,74 @@ export async function marketEngineTick(
         }
 
         const config = configResult.recordset[0];
+        const commissionSchedule = toCommissionSchedule(config);
+        const marginSettings = toMarginSettings(config);
+        const costBasisMethod: CostBasisMethod = config.CostBasisMethod ?? DEFAULT_COST_BASIS_METHOD;
+        const haltSettings = toCircuitBreakerSettings(config);
+        const participationRate = config.MaxParticipationRate ?? DEFAULT_PARTICIPATION_RATE;
+        const marketMakerSettings = toMarketMakerSettings(config);
+        // Seeded exchanges claim the next step so this tick's prices and volumes can be replayed
+        const simulation = config.SimulationSeed != null
+          ? await advanceSimulationStep(pool.request(), exchangeId)
+          : undefined;
+
+        // Apply the running scenario's due events (volatility regimes, halts and gaps)
+        const scenario = await applyDueScenarioEvents(pool, exchangeId);
+        const volatilityIndex = scenario?.volatilityIndex ?? config.VolatilityIndex ?? 1;
+
+        if (scenario?.volatilityIndex !== undefined) {
+          await broadcastExchangeConfigUpdated(
+            { exchangeId, updatedBy: scenario.createdBy, timestamp },
+            context
+          );
+        }
+
+        // Announce halts that started or ended since the last tick
+        const resumedHalts = [...(scenario?.resumed ?? []), ...await releaseExpiredHalts(pool.request(), exchangeId)];
+        for (const halt of resumedHalts) {
+          await broadcastTradingHalt(mapTradingHaltEvent(halt, 'RESUMED', timestamp), context);
+        }
+        for (const halt of scenario?.halted ?? []) {
+          await broadcastTradingHalt(mapTradingHaltEvent(halt, 'HALTED', timestamp), context);
+        }
+
+        // Move the trading session to its current phase; the run that opens or closes the
+        // session uncrosses the opening or closing auction
+        const schedule = toMarketSessionSchedule(config);
+        const phase = getMarketSessionPhase(schedule);
+        const transition = schedule.timeZone
+          ? await advanceMarketSessionPhase(pool.request(), exchangeId, phase)
+          : undefined;
+
+        if (transition) {
+          const auction = sessionTransitionAuction(transition.previousPhase, phase);
+          if (auction) {
+            await runAuction(
+              pool, exchangeId, auction, participationRate, volatilityIndex, marketMakerSettings,
+              commissionSchedule, marginSettings, costBasisMethod, timestamp, context
+            );
+          }
+          await broadcastMarketSession(
+            { exchangeId, phase, previousPhase: transition.previousPhase, auction: auction ?? null, timestamp },
+            context
+          );
+        }
+
+        // Prices only move and orders only match continuously between the auctions
+        if (phase !== 'CONTINUOUS') {
+          context.log(`Exchange ${exchangeId} is in session phase ${phase}, skipping price generation`);
+          continue;
+        }
+
+        // A market-wide circuit breaker halts every symbol before this tick's prices are generated
+        const circuitBreakerHalt = await checkCircuitBreaker(pool, exchangeId, haltSettings);
+        if (circuitBreakerHalt) {
+          context.warn(`Circuit breaker tripped on exchange ${exchangeId}`);
+          await broadcastTradingHalt(mapTradingHaltEvent(circuitBreakerHalt, 'HALTED', timestamp), context);
+        }
 
-        // Get all active symbols with their latest prices for this exchange
+        // Get the active, unhalted instruments listed on this exchange with their latest prices
+        // and LULD reference prices (average close over the last five minutes)
         // Optimized to reduce N+1 query problem by fetching all symbols and prices in one query
         const symbolsResult = await pool.request()
           .input('exchangeId', sql.UniqueIdentifier, exchangeId)
@@ -132,115 +250,139 @@ export async function marketEngineTick(
                 ROW_NUMBER() OVER (PARTITION BY Symbol ORDER BY Timestamp DESC) as rn
               FROM [Trade].[MarketData]
               WHERE ExchangeId = @exchangeId
+            ),
+            ReferencePrices AS (
+              SELECT Symbol, AVG(Close) AS ReferencePrice
+              FROM [Trade].[MarketData]
+              WHERE ExchangeId = @exchangeId AND Timestamp >= DATEADD(MINUTE, -5, SYSDATETIMEOFFSET())
+              GROUP BY Symbol
             )
-            SELECT Symbol, Close, Volume
-            FROM LatestPrices
-            WHERE rn = 1
+            SELECT i.Symbol, lp.Close, lp.Volume, i.BasePrice, i.VolatilityMultiplier, i.TickSize, i.LotSize,
+                   i.PriceModel, i.Sector, i.Beta, rp.ReferencePrice
+            FROM [Trade].[ExchangeInstruments] l
+            INNER JOIN [Trade].[Instruments] i ON i.Symbol = l.Symbol
+            LEFT JOIN LatestPrices lp ON lp.Symbol = i.Symbol AND lp.rn = 1
+            LEFT JOIN ReferencePrices rp ON rp.Symbol = i.Symbol
+            WHERE l.ExchangeId = @exchangeId AND i.IsActive = 1
+              AND NOT ${activeHaltCondition('l.ExchangeId', 'i.Symbol')}
           `);
 
+        // Draw the market and sector factors shared by this exchange's symbols
+        const correlation = toCorrelationSettings(config);
+        const factors = drawMarketFactors(
+          symbolsResult.recordset.map((symbolRow) => symbolRow.Sector),
+          (stream) => symbolRandomSource(simulation, stream)
+        );
+
         // 3. Generate price ticks for each symbol
         for (const symbolRow of symbolsResult.recordset) {
           const symbol = symbolRow.Symbol;
-          const lastPriceDb = symbolRow.Close || DEFAULT_INITIAL_PRICE;
-          const lastVolumeDb = symbolRow.Volume || 0;
+          // Symbols that have never ticked on this exchange start from the instrument's reference price
+          const lastPriceDb = symbolRow.Close || symbolRow.BasePrice;
+          const lastVolumeDb = symbolRow.Volume || DEFAULT_INITIAL_VOLUME;
 
           // Use Decimal.js for all financial calculations (ADR-006)
           const lastPrice = new Decimal(lastPriceDb);
           const lastVolume = new Decimal(lastVolumeDb);
+          const random = symbolRandomSource(simulation, symbol);
 
-          // Generate new price using random walk with volatility
-          const volatility = config.Volatility || DEFAULT_VOLATILITY;
-          const randomFactor = (Math.random() - 0.5) * 2; // -1 to 1
-          const change = new Decimal(randomFactor).times(volatility);
-          const newPrice = lastPrice.times(new Decimal(1).plus(change));
+          // Generate new price with the exchange's price model (or the instrument's override),
+          // volatility scaled by the volatility regime and per instrument, a shock correlated with
+          // the market and its sector and any scenario gap, rounded to the instrument's tick size
+          const volatility = new Decimal(config.Volatility || DEFAULT_VOLATILITY)
+            .times(volatilityIndex)
+            .times(symbolRow.VolatilityMultiplier ?? 1);
+          const gappedPrice = scenario?.gaps.length
+            ? lastPrice.times(gapMultiplier(scenario.gaps, { symbol, sector: symbolRow.Sector ?? null }))
+            : lastPrice;
+          const shock = correlatedShock(
+            factors,
+            { sector: symbolRow.Sector ?? null, beta: symbolRow.Beta ?? 1 },
+            correlation,
+            random
+          );
+          const simulatedPrice = simulatePrice(
+            {
+              price: gappedPrice.toNumber(),
+              volatility: volatility.toNumber(),
+              longRunPrice: symbolRow.BasePrice ?? lastPriceDb,
+              shock,
+            },
+            toPriceModelSettings(config, symbolRow.PriceModel),
+            random
+          );
+          // A price beyond the LULD band is capped at the band edge and halts the symbol
+          const luld = checkLuldBand(simulatedPrice, symbolRow.ReferencePrice ?? null, haltSettings.luldBand);
+          const newPrice = new Decimal(roundToTick(luld.price, symbolRow.TickSize ?? undefined));
 
           // Generate volume (random around last volume)
-          const volumeRandomFactor = (Math.random() - 0.5) * 0.5; // -0.25 to 0.25
+          const volumeRandomFactor = (random() - 0.5) * 0.5; // -0.25 to 0.25
           const volumeChange = new Decimal(1).plus(volumeRandomFactor);
-          const newVolume = Decimal.max(0, lastVolume.times(volumeChange));
+          const newVolume = new Decimal(
+            roundToLot(Decimal.max(0, lastVolume.times(volumeChange)).toNumber(), symbolRow.LotSize ?? undefined)
+          );
+
+          // A price beyond the LULD band halts the symbol before its orders are matched
+          if (luld.limit) {
+            const luldHalt = await haltTrading(pool.request(), {
+              exchangeId,
+              symbol,
+              reason: 'LULD',
+              durationSeconds: haltSettings.luldHaltSeconds,
+            });
+            context.warn(`LULD limit-${luld.limit.toLowerCase()} halt for ${symbol} at ${newPrice.toFixed(2)}`);
+            await broadcastTradingHalt(mapTradingHaltEvent(luldHalt, 'HALTED', timestamp), context);
+          }
+
+          // The market maker quotes around the new price, wider and thinner in volatile regimes
+          const simulatedVolume = Math.round(newVolume.toNumber());
+          const quote = quoteMarket(
+            newPrice.toNumber(),
+            calculateTickLiquidity(simulatedVolume, participationRate),
+            volatilityIndex,
+            marketMakerSettings,
+            symbolRow.TickSize ?? undefined,
+            symbolRow.LotSize ?? undefined
+          );
 
-          // Validate tick with Zod schema
+          // 4. Cross participants' open orders for this symbol, then match the rest against the
+          //    market maker's quote, capped by its quoted sizes (skipped while halted)
+          const trades = await matchOrders(
+            pool, exchangeId, symbol, newPrice.toNumber(), quote,
+            commissionSchedule, marginSettings, costBasisMethod, context
+          );
+
+          // Participants' trades print in the tick (the last one sets the close) and add to its volume
+          const tradePrices = trades.map((trade) => new Decimal(trade.price));
           const tickData = {
             exchangeId,
             symbol,
             timestamp,
             open: lastPrice.toNumber(),
-            high: Decimal.max(lastPrice, newPrice).toNumber(),
-            low: Decimal.min(lastPrice, newPrice).toNumber(),
-            close: newPrice.toNumber(),
-            volume: Math.round(newVolume.toNumber()),
+            high: Decimal.max(lastPrice, newPrice, ...tradePrices).toNumber(),
+            low: Decimal.min(lastPrice, newPrice, ...tradePrices).toNumber(),
+            close: (tradePrices[tradePrices.length - 1] ?? newPrice).toNumber(),
+            volume: trades
+              .reduce((volume, trade) => volume.plus(trade.quantity), new Decimal(simulatedVolume))
+              .round()
+              .toNumber(),
+            ...quote,
           };
 
-          const tickValidation = MarketTickSchema.safeParse(tickData);
-          if (!tickValidation.success) {
-            context.error(`Invalid tick data for ${symbol}:`, tickValidation.error);
+          // Validate and insert the new market tick
+          if (!await recordMarketTick(pool, tickData, context)) {
             continue;
           }
 
-          // Insert new market tick
-          await pool.request()
-            .input('exchangeId', sql.UniqueIdentifier, exchangeId)
-            .input('symbol', sql.NVarChar, symbol)
-            .input('timestamp', sql.DateTime2, timestamp)
-            .input('open', sql.Decimal(18, 8), tickData.open)
-            .input('high', sql.Decimal(18, 8), tickData.high)
-            .input('low', sql.Decimal(18, 8), tickData.low)
-            .input('close', sql.Decimal(18, 8), tickData.close)
-            .input('volume', sql.BigInt, tickData.volume)
-            .query(`
-              INSERT INTO [Trade].[MarketData] 
-              ([ExchangeId], [Symbol], [Timestamp], [Open], [High], [Low], [Close], [Volume])
-              VALUES (@exchangeId, @symbol, @timestamp, @open, @high, @low, @close, @volume)
-            `);
-
-          // 4. Match pending orders for this symbol
-          await matchOrders(pool, exchangeId, symbol, newPrice.toNumber(), context);
-
-          // Validate and log price update event (use Decimal.js for percentage calculations per ADR-006)
-          const priceChange = newPrice.minus(lastPrice);
-          const changePercent = priceChange.dividedBy(lastPrice).times(100);
-          
-          const priceUpdateData = {
-            exchangeId,
-            symbol,
-            price: newPrice.toNumber(),
-            change: priceChange.toNumber(),
-            changePercent: changePercent.toNumber(),
-            volume: tickData.volume,
-            timestamp,
-          };
-
-          const eventValidation = PriceUpdateEventSchema.safeParse(priceUpdateData);
-          if (eventValidation.success) {
-            context.log(`Price update for ${symbol}: ${newPrice.toFixed(2)} (${priceUpdateData.changePercent.toFixed(2)}%)`);
-            
-            // Cache the quote in Redis (ADR-008: QUOTE:{EXCHANGE_ID}:{SYMBOL})
-            try {
-              await cacheQuote(exchangeId, symbol, {
-                price: priceUpdateData.price,
-                timestamp: priceUpdateData.timestamp,
-                volume: priceUpdateData.volume,
-                change: priceUpdateData.change,
-                changePercent: priceUpdateData.changePercent,
-              });
-            } catch (cacheError) {
-              // Log but don't fail the tick if caching fails
-              context.warn(`Failed to cache quote for ${symbol}: ${cacheError}`);
-            }
-
-            // ADR-009: Event-Driven Architecture (Targeted Broadcast)
-            // 1. Broadcast to SignalR with MessagePack protocol and deadband filtering
-            await broadcastPriceUpdate(
-              priceUpdateData,
-              lastPrice.toNumber(),
-              context
-            );
-
-            // 2. Send to Event Hubs for downstream audit
-            await sendPriceUpdateToEventHub(priceUpdateData, context);
-          }
+          await publishPriceUpdate(
+            exchangeId, symbol, tickData.close, lastPrice.toNumber(), tickData.volume, quote, timestamp, context
+          );
+          await publishDepthUpdate(pool, exchangeId, symbol, timestamp, context);
         }
 
+        // 5. Re-evaluate maintenance margin at the new prices
+        await updateMarginCalls(pool, exchangeId, marginSettings, context);
+
         context.log(`Completed processing exchange ${exchangeId}`);
       } catch (error) {
         context.error(`Error processing exchange ${exchangeId}:`, error);
@@ -256,34 +398,537 @@ export async function marketEngineTick(
 }
 
 /**
- * Match pending orders against current market price with transaction isolation
+ * Uncross the opening or closing auction of each unhalted symbol listed on an exchange
+ *
+ * The MARKET and LIMIT orders collected during PRE_OPEN or CLOSING_AUCTION fill at the
+ * symbol's auction price (lib/auctions.ts), with the simulated market maker taking up to a
+ * tick's liquidity of the imbalance. Both sides of each cross between participants fill
+ * together (fillCross); a pair whose order cannot fill is skipped, and the order takes no
+ * further part in the auction. Stop orders wait for continuous trading. The auction
+ * price is recorded as a tick with the market maker's quote around it, so the closing
+ * auction sets the day's closing price.
  */
-async function matchOrders(
+async function runAuction(
+  pool: sql.ConnectionPool,
+  exchangeId: string,
+  auction: MarketAuctionType,
+  participationRate: number,
+  volatilityIndex: number,
+  marketMakerSettings: MarketMakerSettings,
+  commissionSchedule: CommissionSchedule,
+  marginSettings: MarginSettings,
+  costBasisMethod: CostBasisMethod,
+  timestamp: string,
+  context: InvocationContext
+): Promise<void> {
+  const symbolsResult = await pool.request()
+    .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+    .query(`
+      WITH LatestPrices AS (
+        SELECT Symbol, Close, Volume,
+               ROW_NUMBER() OVER (PARTITION BY Symbol ORDER BY Timestamp DESC) as rn
+        FROM [Trade].[MarketData]
+        WHERE ExchangeId = @exchangeId
+      )
+      SELECT i.Symbol, lp.Close, lp.Volume, i.BasePrice, i.TickSize, i.LotSize
+      FROM [Trade].[ExchangeInstruments] l
+      INNER JOIN [Trade].[Instruments] i ON i.Symbol = l.Symbol
+      LEFT JOIN LatestPrices lp ON lp.Symbol = i.Symbol AND lp.rn = 1
+      WHERE l.ExchangeId = @exchangeId AND i.IsActive = 1
+        AND NOT ${activeHaltCondition('l.ExchangeId', 'i.Symbol')}
+    `);
+
+  for (const symbolRow of symbolsResult.recordset) {
+    const symbol = symbolRow.Symbol;
+    const orders = (await getOpenOrders(pool, exchangeId, symbol))
+      .filter((order) => order.OrderType === 'MARKET' || order.OrderType === 'LIMIT');
+
+    if (orders.length === 0) {
+      continue;
+    }
+
+    const lastPrice = symbolRow.Close || symbolRow.BasePrice;
+    const liquidity = calculateTickLiquidity(symbolRow.Volume || DEFAULT_INITIAL_VOLUME, participationRate);
+    const result = uncrossAuction(
+      orders.map((order) => ({
+        orderId: order.OrderId,
+        isBuying: positionDirection(order.Side) === 1,
+        limitPrice: order.OrderType === 'LIMIT' ? order.Price : null,
+        quantity: new Decimal(order.Quantity).minus(order.FilledQuantity || 0).toNumber(),
+      })),
+      lastPrice,
+      liquidity
+    );
+
+    const ordersById = new Map(orders.map((order) => [order.OrderId, order]));
+    const unfilledOrderIds = new Set<string>();
+    let volume = new Decimal(0);
+
+    // Each cross counts once towards the volume, whichever side it is seen from
+    for (const trade of result.trades) {
+      if (unfilledOrderIds.has(trade.buyOrderId) || unfilledOrderIds.has(trade.sellOrderId)) {
+        continue;
+      }
+
+      const cross = await fillCross(
+        pool, exchangeId, symbol,
+        ordersById.get(trade.buyOrderId) as OpenOrderRow,
+        ordersById.get(trade.sellOrderId) as OpenOrderRow,
+        trade.quantity, result.price,
+        commissionSchedule, marginSettings, costBasisMethod, context
+      );
+      cross.unfilledOrderIds.forEach((orderId) => unfilledOrderIds.add(orderId));
+      volume = volume.plus(cross.quantity);
+    }
+
+    for (const fill of result.marketMakerFills) {
+      const matchedQuantity = await fillOrder(
+        pool, exchangeId, symbol, ordersById.get(fill.orderId) as OpenOrderRow,
+        { quantity: fill.quantity, price: result.price, triggerStop: false },
+        commissionSchedule, marginSettings, costBasisMethod, context
+      );
+      volume = volume.plus(matchedQuantity);
+    }
+
+    context.log(`${auction} auction for ${symbol}: ${volume.toString()} at ${result.price} (${result.crossedVolume} crossed)`);
+
+    const quote = quoteMarket(
+      result.price, liquidity, volatilityIndex, marketMakerSettings,
+      symbolRow.TickSize ?? undefined, symbolRow.LotSize ?? undefined
+    );
+
+    const tickData = {
+      exchangeId,
+      symbol,
+      timestamp,
+      open: lastPrice,
+      high: Math.max(lastPrice, result.price),
+      low: Math.min(lastPrice, result.price),
+      close: result.price,
+      volume: Math.round(volume.toNumber()),
+      ...quote,
+    };
+
+    if (await recordMarketTick(pool, tickData, context)) {
+      await publishPriceUpdate(exchangeId, symbol, result.price, lastPrice, tickData.volume, quote, timestamp, context);
+    }
+    await publishDepthUpdate(pool, exchangeId, symbol, timestamp, context);
+  }
+}
+
+/**
+ * Validate a market tick and insert it into [Trade].[MarketData]
+ *
+ * @returns false when the tick failed validation and was not recorded
+ */
+async function recordMarketTick(
+  pool: sql.ConnectionPool,
+  tickData: MarketTick,
+  context: InvocationContext
+): Promise<boolean> {
+  const tickValidation = MarketTickSchema.safeParse(tickData);
+  if (!tickValidation.success) {
+    context.error(`Invalid tick data for ${tickData.symbol}:`, tickValidation.error);
+    return false;
+  }
+
+  await pool.request()
+    .input('exchangeId', sql.UniqueIdentifier, tickData.exchangeId)
+    .input('symbol', sql.NVarChar, tickData.symbol)
+    .input('timestamp', sql.DateTime2, tickData.timestamp)
+    .input('open', sql.Decimal(18, 8), tickData.open)
+    .input('high', sql.Decimal(18, 8), tickData.high)
+    .input('low', sql.Decimal(18, 8), tickData.low)
+    .input('close', sql.Decimal(18, 8), tickData.close)
+    .input('volume', sql.BigInt, tickData.volume)
+    .input('bid', sql.Decimal(18, 8), tickData.bid)
+    .input('ask', sql.Decimal(18, 8), tickData.ask)
+    .input('bidSize', sql.BigInt, tickData.bidSize)
+    .input('askSize', sql.BigInt, tickData.askSize)
+    .query(`
+      INSERT INTO [Trade].[MarketData] 
+      ([ExchangeId], [Symbol], [Timestamp], [Open], [High], [Low], [Close], [Volume], [Bid], [Ask], [BidSize], [AskSize])
+      VALUES (@exchangeId, @symbol, @timestamp, @open, @high, @low, @close, @volume, @bid, @ask, @bidSize, @askSize)
+    `);
+
+  return true;
+}
+
+/**
+ * Cache, broadcast and audit a symbol's new price and the market maker's quote
+ */
+async function publishPriceUpdate(
+  exchangeId: string,
+  symbol: string,
+  price: number,
+  previousPrice: number,
+  volume: number,
+  quote: MarketMakerQuote,
+  timestamp: string,
+  context: InvocationContext
+): Promise<void> {
+  const newPrice = new Decimal(price);
+  const lastPrice = new Decimal(previousPrice);
+
+  // Validate and log price update event (use Decimal.js for percentage calculations per ADR-006)
+  const priceChange = newPrice.minus(lastPrice);
+  const changePercent = priceChange.dividedBy(lastPrice).times(100);
+
+  const priceUpdateData = {
+    exchangeId,
+    symbol,
+    price: newPrice.toNumber(),
+    change: priceChange.toNumber(),
+    changePercent: changePercent.toNumber(),
+    volume,
+    timestamp,
+    ...quote,
+  };
+
+  const eventValidation = PriceUpdateEventSchema.safeParse(priceUpdateData);
+  if (eventValidation.success) {
+    context.log(`Price update for ${symbol}: ${newPrice.toFixed(2)} (${priceUpdateData.changePercent.toFixed(2)}%)`);
+
+    // Cache the quote in Redis (ADR-008: QUOTE:{EXCHANGE_ID}:{SYMBOL})
+    try {
+      await cacheQuote(exchangeId, symbol, {
+        price: priceUpdateData.price,
+        timestamp: priceUpdateData.timestamp,
+        volume: priceUpdateData.volume,
+        change: priceUpdateData.change,
+        changePercent: priceUpdateData.changePercent,
+        bid: priceUpdateData.bid,
+        ask: priceUpdateData.ask,
+      });
+    } catch (cacheError) {
+      // Log but don't fail the tick if caching fails
+      context.warn(`Failed to cache quote for ${symbol}: ${cacheError}`);
+    }
+
+    // ADR-009: Event-Driven Architecture (Targeted Broadcast)
+    // 1. Broadcast to SignalR with MessagePack protocol and deadband filtering
+    await broadcastPriceUpdate(
+      priceUpdateData,
+      lastPrice.toNumber(),
+      context
+    );
+
+    // 2. Send to Event Hubs for downstream audit
+    await sendPriceUpdateToEventHub(priceUpdateData, context);
+  }
+}
+
+/**
+ * Broadcast the levels of a symbol's order book that changed since its depth was last published
+ *
+ * The published depth is kept in Redis (DEPTH:{EXCHANGE_ID}:{SYMBOL}) so every Function
+ * instance diffs against the same base; without it the whole book is sent as new levels.
+ */
+async function publishDepthUpdate(
   pool: sql.ConnectionPool,
   exchangeId: string,
   symbol: string,
-  currentPrice: number,
+  timestamp: string,
   context: InvocationContext
 ): Promise<void> {
-  const currentPriceDecimal = new Decimal(currentPrice);
-  
-  // Get all pending orders for this symbol
+  const depth = await getOrderBookDepth(pool.request(), exchangeId, symbol, DEPTH_FEED_LEVELS, null);
+  const changes = diffMarketDepth((await getDepth(exchangeId, symbol)) ?? { bids: [], asks: [] }, depth);
+
+  if (changes.length === 0) {
+    return;
+  }
+
+  let sequence: number;
+  try {
+    await cacheDepth(exchangeId, symbol, depth);
+    sequence = await nextDepthSequence(exchangeId, symbol);
+  } catch (cacheError) {
+    // Log but don't fail the tick; without a sequence clients cannot order the update, so it
+    // is not sent, and the next one is diffed against an older depth
+    context.warn(`Failed to publish depth for ${symbol}: ${cacheError}`);
+    return;
+  }
+
+  await broadcastDepthUpdate({ exchangeId, symbol, changes, sequence, timestamp }, context);
+}
+
+/**
+ * Whether a locked order row still matches the snapshot the matching decision was made on
+ */
+function isUnchangedOpenOrder(
+  snapshot: { Quantity: number; Price: number | null; StopPrice: number | null; FilledQuantity: number },
+  locked: {
+    Status: OrderStatus;
+    Quantity: number;
+    Price: number | null;
+    StopPrice: number | null;
+    FilledQuantity: number;
+  } | undefined
+): boolean {
+  if (!locked || !isOpenOrderStatus(locked.Status)) {
+    return false;
+  }
+
+  const sameValue = (a: number | null, b: number | null) =>
+    a === null || b === null ? a === b : new Decimal(a).equals(b);
+
+  return sameValue(snapshot.Quantity, locked.Quantity) &&
+    sameValue(snapshot.Price, locked.Price) &&
+    sameValue(snapshot.StopPrice, locked.StopPrice) &&
+    sameValue(snapshot.FilledQuantity || 0, locked.FilledQuantity || 0);
+}
+
+/**
+ * Open order fields used for matching
+ */
+interface OpenOrderRow {
+  OrderId: string;
+  PortfolioId: string;
+  Side: OrderSide;
+  OrderType: OrderType;
+  Quantity: number;
+  Price: number; // Set on LIMIT and STOP_LIMIT orders
+  StopPrice: number; // Set on STOP and STOP_LIMIT orders
+  FilledQuantity: number;
+  AveragePrice: number | null;
+  StopTriggered: boolean;
+}
+
+/**
+ * Get all open (PENDING and PARTIAL) orders for a symbol in time priority (none while the symbol is halted)
+ *
+ * PriorityAt is the order's place in the queue: its creation time, reset by amendments that
+ * lose priority. OrderId breaks ties between orders queued at the same instant.
+ */
+async function getOpenOrders(
+  pool: sql.ConnectionPool,
+  exchangeId: string,
+  symbol: string
+): Promise<OpenOrderRow[]> {
   // Note: StopTriggered field may not exist in older schemas, using ISNULL for backward compatibility
   const ordersResult = await pool.request()
     .input('exchangeId', sql.UniqueIdentifier, exchangeId)
     .input('symbol', sql.NVarChar, symbol)
-    .query(`
+    .query<OpenOrderRow>(`
       SELECT OrderId, PortfolioId, Side, OrderType, Quantity, Price, StopPrice, FilledQuantity, 
-             ISNULL(StopTriggered, 0) as StopTriggered
-      FROM [Trade].[Orders]
+             AveragePrice, ISNULL(StopTriggered, 0) as StopTriggered
+      FROM [Trade].[Orders] o
       WHERE ExchangeId = @exchangeId 
         AND Symbol = @symbol 
-        AND Status = 'PENDING'
+        AND Status IN ('PENDING', 'PARTIAL')
+        AND NOT ${activeHaltCondition('o.ExchangeId', 'o.Symbol')}
+      ORDER BY PriorityAt ASC, OrderId ASC
     `);
 
-  for (const order of ordersResult.recordset) {
+  return ordersResult.recordset;
+}
+
+/**
+ * Whether a stop order's stop price has been reached (buys at or above it, sells at or below it)
+ */
+function isStopTriggered(order: OpenOrderRow, price: number): boolean {
+  return positionDirection(order.Side) === 1 ? price >= order.StopPrice : price <= order.StopPrice;
+}
+
+/**
+ * Cross participants' open orders with each other in price-time priority
+ *
+ * MARKET and LIMIT orders, and stops triggered at the current price (STOP as MARKET,
+ * STOP_LIMIT as LIMIT), are booked (lib/order-book.ts), MARKET orders at the far side of the
+ * market maker's quote. A portfolio's orders never cross each other (the newer one skips the
+ * book for this tick and can still trade with the market maker). Both sides of a trade fill
+ * together (fillCross), and a side that cannot fill at all (cash, position or margin) leaves
+ * the book for this tick with its counterparty unfilled. Order snapshots are updated as
+ * trades commit, so market-maker matching only sees what is left.
+ *
+ * @returns The trades between participants
+ */
+async function crossOrderBook(
+  pool: sql.ConnectionPool,
+  exchangeId: string,
+  symbol: string,
+  orders: OpenOrderRow[],
+  currentPrice: number,
+  quote: MarketMakerQuote,
+  commissionSchedule: CommissionSchedule,
+  marginSettings: MarginSettings,
+  costBasisMethod: CostBasisMethod,
+  context: InvocationContext
+): Promise<BookTrade[]> {
+  const ordersById = new Map(orders.map((order) => [order.OrderId, order]));
+  const book = buildOrderBook(
+    orders
+      .filter((order) => order.OrderType === 'MARKET' || order.OrderType === 'LIMIT'
+        || order.StopTriggered || isStopTriggered(order, currentPrice))
+      .map((order) => ({
+        orderId: order.OrderId,
+        portfolioId: order.PortfolioId,
+        isBuying: positionDirection(order.Side) === 1,
+        limitPrice: order.OrderType === 'LIMIT' || order.OrderType === 'STOP_LIMIT' ? order.Price : null,
+        quantity: new Decimal(order.Quantity).minus(order.FilledQuantity || 0).toNumber(),
+      })),
+    quote
+  );
+  const trades: BookTrade[] = [];
+
+  // Fill both sides of a trade together and take what filled off the book
+  const fillTrade = async (trade: BookTrade): Promise<number> => {
+    const { quantity, unfilledOrderIds } = await fillCross(
+      pool, exchangeId, symbol,
+      ordersById.get(trade.buyOrderId) as OpenOrderRow,
+      ordersById.get(trade.sellOrderId) as OpenOrderRow,
+      trade.quantity, trade.price,
+      commissionSchedule, marginSettings, costBasisMethod, context
+    );
+
+    if (quantity > 0) {
+      fillBookOrder(book, trade.buyOrderId, quantity);
+      fillBookOrder(book, trade.sellOrderId, quantity);
+    }
+    unfilledOrderIds.forEach((orderId) => removeBookOrder(book, orderId));
+    return quantity;
+  };
+
+  for (let trade = nextBookTrade(book, quote); trade; trade = nextBookTrade(book, quote)) {
+    const quantity = await fillTrade(trade);
+    if (quantity > 0) {
+      trades.push({ ...trade, quantity });
+    }
+  }
+
+  if (trades.length > 0) {
+    context.log(`Crossed ${trades.length} trades between participants in ${symbol}`);
+  }
+
+  return trades;
+}
+
+/**
+ * Outcome of filling both sides of a cross
+ */
+interface CrossFill {
+  quantity: number; // Quantity both sides filled (0 when the cross was rolled back)
+  unfilledOrderIds: string[]; // Orders that could not fill at all
+}
+
+/**
+ * Fill both sides of a trade between participants in one transaction
+ *
+ * The buyer fills first, then the seller for the quantity the buyer got. When the seller
+ * can take less (position or margin) the pair is rolled back and retried at the seller's
+ * quantity; when either side cannot fill at all (cash, position or margin) or a fill fails,
+ * both are rolled back. Order snapshots are updated once the pair commits.
+ */
+async function fillCross(
+  pool: sql.ConnectionPool,
+  exchangeId: string,
+  symbol: string,
+  buyOrder: OpenOrderRow,
+  sellOrder: OpenOrderRow,
+  quantity: number,
+  price: number,
+  commissionSchedule: CommissionSchedule,
+  marginSettings: MarginSettings,
+  costBasisMethod: CostBasisMethod,
+  context: InvocationContext
+): Promise<CrossFill> {
+  const sideFill = (order: OpenOrderRow, sideQuantity: number): OrderFill => ({
+    quantity: sideQuantity,
+    price,
+    triggerStop: (order.OrderType === 'STOP' || order.OrderType === 'STOP_LIMIT') && !order.StopTriggered,
+  });
+
+  // Each retry is for less than the last, at what the seller could take
+  while (quantity > 0) {
+    const transaction = pool.transaction();
+
+    try {
+      await transaction.begin();
+
+      const buyFill = sideFill(buyOrder, quantity);
+      const boughtQuantity = await applyFill(
+        transaction, exchangeId, symbol, buyOrder, buyFill,
+        commissionSchedule, marginSettings, costBasisMethod, context
+      ) ?? 0;
+      const sellFill = sideFill(sellOrder, boughtQuantity);
+      const soldQuantity = boughtQuantity > 0
+        ? await applyFill(
+          transaction, exchangeId, symbol, sellOrder, sellFill,
+          commissionSchedule, marginSettings, costBasisMethod, context
+        ) ?? 0
+        : 0;
+
+      if (boughtQuantity > 0 && new Decimal(soldQuantity).equals(boughtQuantity)) {
+        await transaction.commit();
+        updateOrderSnapshot(buyOrder, buyFill, boughtQuantity);
+        updateOrderSnapshot(sellOrder, sellFill, soldQuantity);
+        return { quantity: soldQuantity, unfilledOrderIds: [] };
+      }
+
+      await transaction.rollback();
+
+      if (boughtQuantity === 0 || soldQuantity === 0) {
+        return { quantity: 0, unfilledOrderIds: [boughtQuantity === 0 ? buyOrder.OrderId : sellOrder.OrderId] };
+      }
+      quantity = soldQuantity;
+    } catch (error) {
+      await transaction.rollback();
+      context.error(`Error crossing orders ${buyOrder.OrderId} and ${sellOrder.OrderId}:`, error);
+      return { quantity: 0, unfilledOrderIds: [buyOrder.OrderId, sellOrder.OrderId] };
+    }
+  }
+
+  return { quantity: 0, unfilledOrderIds: [] };
+}
+
+/**
+ * Match open (PENDING and PARTIAL) orders with transaction isolation
+ *
+ * Participants' orders first cross each other in the symbol's order book (crossOrderBook).
+ * The rest trade with the market maker's quote in time priority: buys take the ask and
+ * sells hit the bid, so MARKET (and triggered STOP) orders pay the spread, and LIMIT orders
+ * fill at their limit once the far side reaches it. Stops trigger on the current price.
+ * Buys share the ask size and sells the bid size: each fill is capped at the quantity still
+ * quoted, so large orders fill PARTIAL over several ticks. Each fill is charged commission
+ * under the exchange's commission schedule.
+ *
+ * SELL and COVER fills are capped at the long or short position they close. SHORT fills
+ * require AllowMargin (otherwise the order is rejected) and enough equity for the
+ * initial margin of the fill. Every fill updates the position's average price and
+ * realized P&L under the exchange's cost basis method (AVERAGE or FIFO lots).
+ *
+ * @returns The trades between participants
+ */
+async function matchOrders(
+  pool: sql.ConnectionPool,
+  exchangeId: string,
+  symbol: string,
+  currentPrice: number,
+  quote: MarketMakerQuote,
+  commissionSchedule: CommissionSchedule,
+  marginSettings: MarginSettings,
+  costBasisMethod: CostBasisMethod,
+  context: InvocationContext
+): Promise<BookTrade[]> {
+  const orders = await getOpenOrders(pool, exchangeId, symbol);
+  const trades = await crossOrderBook(
+    pool, exchangeId, symbol, orders, currentPrice, quote,
+    commissionSchedule, marginSettings, costBasisMethod, context
+  );
+  const remainingSize = { ask: new Decimal(quote.askSize), bid: new Decimal(quote.bidSize) };
+  
+  for (const order of orders) {
+    // Completed by crossing other participants' orders
+    if (new Decimal(order.Quantity).minus(order.FilledQuantity || 0).lessThanOrEqualTo(0)) {
+      continue;
+    }
+
     let shouldFill = false;
     let needsStopTriggerUpdate = false;
+    // BUY and COVER trigger like buys and take the ask, SELL and SHORT like sells and hit the bid
+    const isBuying = positionDirection(order.Side) === 1;
+    const quoteSide = isBuying ? 'ask' : 'bid';
+    const quotePrice = quote[quoteSide];
 
     // Determine if order should be filled based on type (before starting transaction)
     switch (order.OrderType) {
@@ -291,18 +936,22 @@ async function matchOrders(
         shouldFill = true;
         break;
       case 'LIMIT':
-        shouldFill = (order.Side === 'BUY' && currentPrice <= order.Price) ||
-                     (order.Side === 'SELL' && currentPrice >= order.Price);
+        shouldFill = isBuying ? quotePrice <= order.Price : quotePrice >= order.Price;
         break;
-      case 'STOP':
-        shouldFill = (order.Side === 'BUY' && currentPrice >= order.StopPrice) ||
-                     (order.Side === 'SELL' && currentPrice <= order.StopPrice);
+      case 'STOP': {
+        // Once triggered, behave like a MARKET order until filled, even if the price moves back
+        const stopTriggered = order.StopTriggered || isStopTriggered(order, currentPrice);
+
+        if (stopTriggered && !order.StopTriggered) {
+          needsStopTriggerUpdate = true;
+        }
+
+        shouldFill = stopTriggered;
         break;
+      }
       case 'STOP_LIMIT': {
         // Two-step behavior: first trigger stop, then match as LIMIT
-        const stopTriggered = order.StopTriggered || 
-          (order.Side === 'BUY' && currentPrice >= order.StopPrice) ||
-          (order.Side === 'SELL' && currentPrice <= order.StopPrice);
+        const stopTriggered = order.StopTriggered || isStopTriggered(order, currentPrice);
 
         if (stopTriggered && !order.StopTriggered) {
           needsStopTriggerUpdate = true;
@@ -310,137 +959,454 @@ async function matchOrders(
 
         // Once triggered, behave exactly like a LIMIT order
         if (stopTriggered) {
-          shouldFill = (order.Side === 'BUY' && currentPrice <= order.Price) ||
-                       (order.Side === 'SELL' && currentPrice >= order.Price);
+          shouldFill = isBuying ? quotePrice <= order.Price : quotePrice >= order.Price;
         }
         break;
       }
     }
 
+    // Nothing left on this side of the quote; the order waits for the next tick
+    if (shouldFill && remainingSize[quoteSide].lessThanOrEqualTo(0)) {
+      shouldFill = false;
+    }
+
     // Only start transaction if we need to update something
     if (!shouldFill && !needsStopTriggerUpdate) {
       continue;
     }
 
-    // Use transaction to ensure atomic order fill + position + cash update
-    const transaction = pool.transaction();
-    
-    try {
-      await transaction.begin();
+    // Cap the fill at the size left on its side of the quote
+    const matchedQuantity = await fillOrder(
+      pool, exchangeId, symbol, order,
+      {
+        quantity: shouldFill ? remainingSize[quoteSide].toNumber() : undefined,
+        price: order.OrderType === 'MARKET' || order.OrderType === 'STOP' ? quotePrice : order.Price,
+        triggerStop: needsStopTriggerUpdate,
+      },
+      commissionSchedule, marginSettings, costBasisMethod, context
+    );
+    remainingSize[quoteSide] = remainingSize[quoteSide].minus(matchedQuantity);
+  }
+
+  return trades;
+}
+
+/**
+ * Fill an open order in its own transaction, or record its stop trigger
+ *
+ * @param fill - Quantity available to the order, its fill price and whether its stop has
+ *   just triggered (see applyFill)
+ * @returns The quantity filled (0 when the order was skipped or rejected); the order snapshot
+ *   is updated with the fill
+ */
+async function fillOrder(
+  pool: sql.ConnectionPool,
+  exchangeId: string,
+  symbol: string,
+  order: OpenOrderRow,
+  fill: OrderFill,
+  commissionSchedule: CommissionSchedule,
+  marginSettings: MarginSettings,
+  costBasisMethod: CostBasisMethod,
+  context: InvocationContext
+): Promise<number> {
+  // Use transaction to ensure atomic order fill + position + cash update
+  const transaction = pool.transaction();
+  
+  try {
+    await transaction.begin();
+
+    const matchedQuantity = await applyFill(
+      transaction, exchangeId, symbol, order, fill,
+      commissionSchedule, marginSettings, costBasisMethod, context
+    );
+
+    if (matchedQuantity === null) {
+      await transaction.rollback();
+      return 0;
+    }
+
+    await transaction.commit();
+    updateOrderSnapshot(order, fill, matchedQuantity);
+
+    return matchedQuantity;
+  } catch (error) {
+    await transaction.rollback();
+    context.error(`Error matching order ${order.OrderId}:`, error);
+    // Continue processing other orders
+    return 0;
+  }
+}
+
+/**
+ * A fill offered to an open order
+ */
+interface OrderFill {
+  quantity?: number; // Quantity available to the order (undefined = only record the stop trigger)
+  price: number;
+  triggerStop: boolean; // Whether the order's stop has just triggered
+}
+
+/**
+ * Apply a fill to an open order within the caller's transaction
+ *
+ * The order is re-read under an update lock and skipped when it was cancelled or amended
+ * since it was read. SELL and COVER fills are capped at the position they close; BUY and
+ * COVER fills need the cash, SHORT fills AllowMargin and the initial margin. The fill
+ * updates the order, the position's cost basis, cash and realized P&L, and the executions
+ * ledger. After committing, the caller updates the order snapshot (updateOrderSnapshot).
+ *
+ * @returns The quantity filled (0 when only a stop trigger or rejection was recorded, or nothing
+ *   was left to fill), or null when the order was skipped and the transaction should be rolled back
+ */
+async function applyFill(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  symbol: string,
+  order: OpenOrderRow,
+  fill: OrderFill,
+  commissionSchedule: CommissionSchedule,
+  marginSettings: MarginSettings,
+  costBasisMethod: CostBasisMethod,
+  context: InvocationContext
+): Promise<number | null> {
+  let matchedQuantity = 0;
+
+  // Re-read the order under an update lock so a concurrent cancel or amend
+  // (cancelOrder / amendOrder) cannot interleave with this fill. If the order
+  // changed since it was read, skip it; the next tick re-evaluates it.
+  const lockedOrderResult = await transaction.request()
+    .input('orderId', sql.UniqueIdentifier, order.OrderId)
+    .query(`
+      SELECT Status, Quantity, Price, StopPrice, FilledQuantity
+      FROM [Trade].[Orders] WITH (UPDLOCK, ROWLOCK)
+      WHERE OrderId = @orderId
+    `);
+
+  if (!isUnchangedOpenOrder(order, lockedOrderResult.recordset[0])) {
+    context.log(`Order ${order.OrderId} was cancelled or amended during matching, skipping`);
+    return null;
+  }
+
+  // Update stop trigger if needed
+  if (fill.triggerStop) {
+    await transaction.request()
+      .input('orderId', sql.UniqueIdentifier, order.OrderId)
+      .query(`
+        UPDATE [Trade].[Orders]
+        SET StopTriggered = 1,
+            UpdatedAt = GETUTCDATE()
+        WHERE OrderId = @orderId
+      `);
+  }
+
+  if (fill.quantity) {
+    // Use Decimal.js for all financial calculations (ADR-006)
+    const fillPriceDecimal = new Decimal(fill.price);
+
+    // Read the portfolio and position inside the transaction so closing orders are
+    // capped at what is actually held and shorts are checked against current equity
+    const portfolioResult = await transaction.request()
+      .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
+      .query(`
+        SELECT CashBalance, MarginStatus
+        FROM [Trade].[Portfolios]
+        WHERE PortfolioId = @portfolioId
+      `);
+
+    const positionResult = await transaction.request()
+      .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
+      .input('symbol', sql.NVarChar, symbol)
+      .query(`
+        SELECT Quantity, AveragePrice
+        FROM [Trade].[Positions] WITH (UPDLOCK, ROWLOCK)
+        WHERE PortfolioId = @portfolioId AND Symbol = @symbol
+      `);
+
+    const currentCashBalance = new Decimal(portfolioResult.recordset[0]?.CashBalance || 0);
+    const positionQuantity = new Decimal(positionResult.recordset[0]?.Quantity || 0);
+
+    // Shorts are rejected outright once margin trading is disabled on the exchange
+    if (order.Side === 'SHORT' && !marginSettings.allowMargin) {
+      await transaction.request()
+        .input('orderId', sql.UniqueIdentifier, order.OrderId)
+        .query(`
+          UPDATE [Trade].[Orders]
+          SET Status = 'REJECTED',
+              UpdatedAt = GETUTCDATE()
+          WHERE OrderId = @orderId
+        `);
+      context.log(`Order ${order.OrderId} rejected - short selling is not allowed on exchange ${exchangeId}`);
+      return 0;
+    }
+
+    let availableQuantity = new Decimal(fill.quantity);
+
+    if (order.Side === 'SELL' || order.Side === 'COVER') {
+      const heldQuantity = order.Side === 'SELL'
+        ? Decimal.max(0, positionQuantity)
+        : Decimal.max(0, positionQuantity.negated());
+
+      if (heldQuantity.isZero()) {
+        context.log(`Order ${order.OrderId} skipped - no ${order.Side === 'SELL' ? 'long' : 'short'} position in ${symbol} to close`);
+        return null;
+      }
+
+      availableQuantity = Decimal.min(availableQuantity, heldQuantity);
+    }
+
+    if (order.Side === 'SHORT' && positionQuantity.greaterThan(0)) {
+      context.log(`Order ${order.OrderId} skipped - portfolio is long ${symbol}`);
+      return null;
+    }
+
+    // Cap the fill at the liquidity left in this tick (and the position being closed)
+    const match = matchOrderQuantity(
+      order.OrderId,
+      order.Quantity,
+      order.FilledQuantity || 0,
+      fillPriceDecimal.toNumber(),
+      availableQuantity.toNumber()
+    );
+
+    // Nothing left to fill: NO_MATCH is not an order status, so the order is left as it is
+    if (match.status === 'NO_MATCH') {
+      context.log(`Order ${order.OrderId} skipped - nothing left to fill`);
+      return 0;
+    }
+
+    const fillQuantity = new Decimal(match.matchedQuantity);
+    matchedQuantity = match.matchedQuantity;
+    const newFilledQuantity = new Decimal(order.FilledQuantity || 0).plus(fillQuantity);
+    const averagePrice = calculateAveragePrice(
+      order.FilledQuantity || 0,
+      order.AveragePrice,
+      match.matchedQuantity,
+      fillPriceDecimal.toNumber()
+    );
+
+    const commission = new Decimal(calculateFillCommission(
+      commissionSchedule,
+      match.matchedQuantity,
+      fillPriceDecimal.toNumber(),
+      new Decimal(order.FilledQuantity || 0).isZero()
+    ));
+
+    // Calculate position and cash changes using Decimal.js (commission is always paid out of cash)
+    const positionMultiplier = positionDirection(order.Side);
+    const quantityChange = fillQuantity.times(positionMultiplier);
+    const cashChange = fillQuantity.times(fillPriceDecimal).times(-1 * positionMultiplier).minus(commission);
+
+    // Validate sufficient cash balance for BUY and COVER orders (including MARKET orders)
+    if (CASH_PAYING_SIDES.includes(order.Side)) {
+      const requiredCash = fillQuantity.times(fillPriceDecimal).plus(commission);
       
-      // Update stop trigger if needed
-      if (needsStopTriggerUpdate) {
-        await transaction.request()
-          .input('orderId', sql.UniqueIdentifier, order.OrderId)
-          .query(`
-            UPDATE [Trade].[Orders]
-            SET StopTriggered = 1,
-                UpdatedAt = GETUTCDATE()
-            WHERE OrderId = @orderId
-          `);
+      if (currentCashBalance.lessThan(requiredCash)) {
+        context.log(`Order ${order.OrderId} skipped - insufficient funds. Required: ${requiredCash.toFixed(2)}, Available: ${currentCashBalance.toFixed(2)}`);
+        return null;
       }
+    }
 
-      if (shouldFill) {
-        // Use Decimal.js for all financial calculations (ADR-006)
-        const fillPriceDecimal = order.OrderType === 'MARKET' 
-          ? currentPriceDecimal 
-          : new Decimal(order.Price || currentPrice);
-        
-        const orderQuantity = new Decimal(order.Quantity);
-        const filledQuantity = new Decimal(order.FilledQuantity || 0);
-        const remainingQuantity = orderQuantity.minus(filledQuantity);
-
-        // Calculate position and cash changes using Decimal.js
-        const positionMultiplier = order.Side === 'BUY' ? 1 : -1;
-        const quantityChange = remainingQuantity.times(positionMultiplier);
-        const cashChange = remainingQuantity.times(fillPriceDecimal).times(-1 * positionMultiplier);
-
-        // Validate sufficient cash balance for BUY orders (including MARKET orders)
-        if (order.Side === 'BUY') {
-          const portfolioResult = await transaction.request()
-            .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
-            .query(`
-              SELECT CashBalance
-              FROM [Trade].[Portfolios]
-              WHERE PortfolioId = @portfolioId
-            `);
-          
-          const currentCashBalance = new Decimal(portfolioResult.recordset[0]?.CashBalance || 0);
-          const requiredCash = remainingQuantity.times(fillPriceDecimal);
-          
-          if (currentCashBalance.lessThan(requiredCash)) {
-            context.log(`Order ${order.OrderId} skipped - insufficient funds. Required: ${requiredCash.toFixed(2)}, Available: ${currentCashBalance.toFixed(2)}`);
-            await transaction.rollback();
-            continue;
-          }
-        }
+    // Validate initial margin for SHORT orders (including MARKET orders)
+    if (order.Side === 'SHORT') {
+      if (portfolioResult.recordset[0]?.MarginStatus === 'MARGIN_CALL') {
+        context.log(`Order ${order.OrderId} skipped - portfolio is in a margin call`);
+        return null;
+      }
 
-        // Update order to filled
-        await transaction.request()
-          .input('orderId', sql.UniqueIdentifier, order.OrderId)
-          .input('filledQuantity', sql.Decimal(18, 8), orderQuantity.toNumber())
-          .input('averagePrice', sql.Decimal(18, 8), fillPriceDecimal.toNumber())
-          .input('status', sql.NVarChar, 'FILLED')
-          .query(`
-            UPDATE [Trade].[Orders]
-            SET FilledQuantity = @filledQuantity,
-                AveragePrice = @averagePrice,
-                Status = @status,
-                UpdatedAt = GETUTCDATE()
-            WHERE OrderId = @orderId
-          `);
+      const positions = await getMarginPositions(transaction.request(), exchangeId, order.PortfolioId);
+      const summary = calculateMarginSummary(currentCashBalance.toNumber(), positions, marginSettings);
+      const reservedCash = await getReservedCash(transaction.request(), order.PortfolioId);
+      const availableMargin = new Decimal(calculateAvailableMargin(summary, reservedCash.toNumber()));
+      const requiredMargin = new Decimal(
+        calculateShortRequirement(match.matchedQuantity, fillPriceDecimal.toNumber(), marginSettings)
+      ).plus(commission);
+
+      if (availableMargin.lessThan(requiredMargin)) {
+        context.log(`Order ${order.OrderId} skipped - insufficient margin. Required: ${requiredMargin.toFixed(2)}, Available: ${availableMargin.toFixed(2)}`);
+        return null;
+      }
+    }
 
-        // Update portfolio position with proper handling for position reversals
+    // Update order fill progress (FILLED once complete, PARTIAL until then)
+    await transaction.request()
+      .input('orderId', sql.UniqueIdentifier, order.OrderId)
+      .input('filledQuantity', sql.Decimal(18, 8), newFilledQuantity.toNumber())
+      .input('averagePrice', sql.Decimal(18, 8), averagePrice)
+      .input('status', sql.NVarChar, match.status)
+      .input('commission', sql.Decimal(18, 8), commission.toNumber())
+      .query(`
+        UPDATE [Trade].[Orders]
+        SET FilledQuantity = @filledQuantity,
+            AveragePrice = @averagePrice,
+            Status = @status,
+            Commission = ISNULL(Commission, 0) + @commission,
+            UpdatedAt = GETUTCDATE()
+        WHERE OrderId = @orderId
+      `);
+
+    // Apply the fill to the position's cost basis: reducing fills realize P&L, a fill
+    // that crosses zero closes the old side and opens the new side at the fill price
+    let lots: CostBasisLot[] = [];
+    if (costBasisMethod === 'FIFO') {
+      const lotsResult = await transaction.request()
+        .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
+        .input('symbol', sql.NVarChar, symbol)
+        .query(`
+          SELECT Quantity, Price
+          FROM [Trade].[PositionLots] WITH (UPDLOCK)
+          WHERE PortfolioId = @portfolioId AND Symbol = @symbol
+          ORDER BY LotId ASC
+        `);
+      lots = lotsResult.recordset.map((lot) => ({ quantity: lot.Quantity, price: lot.Price }));
+    }
+
+    const costBasis = applyCostBasisFill(
+      costBasisMethod,
+      {
+        quantity: positionQuantity.toNumber(),
+        averagePrice: positionResult.recordset[0]?.AveragePrice || 0,
+      },
+      lots,
+      quantityChange.toNumber(),
+      fillPriceDecimal.toNumber()
+    );
+
+    await transaction.request()
+      .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
+      .input('symbol', sql.NVarChar, symbol)
+      .input('quantityChange', sql.Decimal(18, 8), quantityChange.toNumber())
+      .input('averagePrice', sql.Decimal(18, 8), costBasis.averagePrice)
+      .input('realizedPnL', sql.Decimal(18, 8), costBasis.realizedPnL)
+      .query(`
+        MERGE [Trade].[Positions] AS target
+        USING (SELECT @portfolioId AS PortfolioId, @symbol AS Symbol) AS source
+        ON target.PortfolioId = source.PortfolioId AND target.Symbol = source.Symbol
+        WHEN MATCHED THEN
+          UPDATE SET 
+            Quantity = Quantity + @quantityChange,
+            AveragePrice = @averagePrice,
+            RealizedPnL = ISNULL(RealizedPnL, 0) + @realizedPnL,
+            UpdatedAt = GETUTCDATE()
+        WHEN NOT MATCHED THEN
+          INSERT (PortfolioId, Symbol, Quantity, AveragePrice, RealizedPnL)
+          VALUES (@portfolioId, @symbol, @quantityChange, @averagePrice, @realizedPnL);
+      `);
+
+    // FIFO: replace the position's lots with the lots left open by this fill (oldest first)
+    if (costBasisMethod === 'FIFO') {
+      await transaction.request()
+        .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
+        .input('symbol', sql.NVarChar, symbol)
+        .query(`
+          DELETE FROM [Trade].[PositionLots]
+          WHERE PortfolioId = @portfolioId AND Symbol = @symbol
+        `);
+
+      for (const lot of costBasis.lots) {
         await transaction.request()
           .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
           .input('symbol', sql.NVarChar, symbol)
-          .input('quantityChange', sql.Decimal(18, 8), quantityChange.toNumber())
-          .input('avgPrice', sql.Decimal(18, 8), fillPriceDecimal.toNumber())
+          .input('quantity', sql.Decimal(18, 8), lot.quantity)
+          .input('price', sql.Decimal(18, 8), lot.price)
           .query(`
-            MERGE [Trade].[Positions] AS target
-            USING (SELECT @portfolioId AS PortfolioId, @symbol AS Symbol) AS source
-            ON target.PortfolioId = source.PortfolioId AND target.Symbol = source.Symbol
-            WHEN MATCHED THEN
-              UPDATE SET 
-                Quantity = Quantity + @quantityChange,
-                AveragePrice = CASE 
-                  -- Position fully closed: reset average price to 0
-                  WHEN (Quantity + @quantityChange) = 0 THEN 0
-                  -- Position direction changes: Detect sign change explicitly using SIGN()
-                  -- If Quantity > 0 and (Quantity + @quantityChange) < 0, signs differ (long to short)
-                  -- If Quantity < 0 and (Quantity + @quantityChange) > 0, signs differ (short to long)
-                  -- Start new average at current trade price when crossing zero, but not on full closeout
-                  -- Using SIGN() is more robust than multiplication for edge cases near zero
-                  WHEN SIGN(Quantity) <> SIGN(Quantity + @quantityChange)
-                       AND (Quantity + @quantityChange) <> 0 THEN @avgPrice
-                  -- Scaling into existing position on same side: weighted average
-                  ELSE (AveragePrice * Quantity + @avgPrice * @quantityChange) / (Quantity + @quantityChange)
-                END,
-                UpdatedAt = GETUTCDATE()
-            WHEN NOT MATCHED THEN
-              INSERT (PortfolioId, Symbol, Quantity, AveragePrice)
-              VALUES (@portfolioId, @symbol, @quantityChange, @avgPrice);
+            INSERT INTO [Trade].[PositionLots] (PortfolioId, Symbol, Quantity, Price)
+            VALUES (@portfolioId, @symbol, @quantity, @price)
           `);
+      }
+    }
 
-        // Update portfolio cash balance
-        await transaction.request()
-          .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
-          .input('cashChange', sql.Decimal(18, 8), cashChange.toNumber())
-          .query(`
-            UPDATE [Trade].[Portfolios]
-            SET CashBalance = CashBalance + @cashChange,
-                UpdatedAt = GETUTCDATE()
-            WHERE PortfolioId = @portfolioId
-          `);
+    // Update portfolio cash balance and accumulated realized P&L
+    await transaction.request()
+      .input('portfolioId', sql.UniqueIdentifier, order.PortfolioId)
+      .input('cashChange', sql.Decimal(18, 8), cashChange.toNumber())
+      .input('realizedPnL', sql.Decimal(18, 8), costBasis.realizedPnL)
+      .query(`
+        UPDATE [Trade].[Portfolios]
+        SET CashBalance = CashBalance + @cashChange,
+            RealizedPnL = ISNULL(RealizedPnL, 0) + @realizedPnL,
+            UpdatedAt = GETUTCDATE()
+        WHERE PortfolioId = @portfolioId
+      `);
 
-        context.log(`Order ${order.OrderId} filled at ${fillPriceDecimal.toFixed(2)} for ${symbol}`);
-      }
+    // Record the fill in the executions ledger (same transaction as the updates above)
+    await recordExecution(transaction.request(), {
+      orderId: order.OrderId,
+      exchangeId,
+      portfolioId: order.PortfolioId,
+      symbol,
+      side: order.Side,
+      quantity: fillQuantity.toNumber(),
+      price: fillPriceDecimal.toNumber(),
+      commission: commission.toNumber(),
+    });
 
-      await transaction.commit();
-    } catch (error) {
-      await transaction.rollback();
-      context.error(`Error matching order ${order.OrderId}:`, error);
-      // Continue processing other orders
+    context.log(`Order ${order.OrderId} ${match.status === 'FILLED' ? 'filled' : 'partially filled'}: ${fillQuantity.toString()} ${symbol} at ${fillPriceDecimal.toFixed(2)}, ${match.remainingQuantity} remaining, commission ${commission.toFixed(2)}, realized P&L ${new Decimal(costBasis.realizedPnL).toFixed(2)}`);
+  }
+
+  return matchedQuantity;
+}
+
+/**
+ * Keep an order snapshot current once its fill has committed, so it can fill again in this tick
+ */
+function updateOrderSnapshot(order: OpenOrderRow, fill: OrderFill, matchedQuantity: number): void {
+  if (fill.triggerStop) {
+    order.StopTriggered = true;
+  }
+  if (matchedQuantity > 0) {
+    order.AveragePrice = calculateAveragePrice(order.FilledQuantity || 0, order.AveragePrice, matchedQuantity, fill.price);
+    order.FilledQuantity = new Decimal(order.FilledQuantity || 0).plus(matchedQuantity).toNumber();
+  }
+}
+
+/**
+ * Place portfolios whose equity fell below maintenance margin in MARGIN_CALL, and clear
+ * the margin call once equity recovers
+ *
+ * Only portfolios holding shorts (or already in a margin call) can change status, since
+ * margin requirements apply to short positions only.
+ */
+async function updateMarginCalls(
+  pool: sql.ConnectionPool,
+  exchangeId: string,
+  marginSettings: MarginSettings,
+  context: InvocationContext
+): Promise<void> {
+  const portfoliosResult = await pool.request()
+    .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+    .query(`
+      SELECT p.PortfolioId, p.CashBalance, p.MarginStatus
+      FROM [Trade].[Portfolios] p
+      WHERE p.ExchangeId = @exchangeId
+        AND (p.MarginStatus = 'MARGIN_CALL'
+             OR EXISTS (SELECT 1 FROM [Trade].[Positions] pos
+                        WHERE pos.PortfolioId = p.PortfolioId AND pos.Quantity < 0))
+    `);
+
+  for (const portfolio of portfoliosResult.recordset) {
+    const positions = await getMarginPositions(pool.request(), exchangeId, portfolio.PortfolioId);
+    const summary = calculateMarginSummary(portfolio.CashBalance, positions, marginSettings);
+
+    if (summary.status === portfolio.MarginStatus) {
+      continue;
+    }
+
+    await pool.request()
+      .input('portfolioId', sql.UniqueIdentifier, portfolio.PortfolioId)
+      .input('marginStatus', sql.NVarChar, summary.status)
+      .query(`
+        UPDATE [Trade].[Portfolios]
+        SET MarginStatus = @marginStatus,
+            MarginCallAt = CASE WHEN @marginStatus = 'MARGIN_CALL' THEN SYSDATETIMEOFFSET() ELSE NULL END,
+            UpdatedAt = GETUTCDATE()
+        WHERE PortfolioId = @portfolioId
+      `);
+
+    if (summary.status === 'MARGIN_CALL') {
+      context.warn(`Portfolio ${portfolio.PortfolioId} margin call: equity ${summary.equity.toFixed(2)} below maintenance requirement ${summary.maintenanceRequirement.toFixed(2)}`);
+    } else {
+      context.log(`Portfolio ${portfolio.PortfolioId} margin call cleared: equity ${summary.equity.toFixed(2)}`);
     }
   }
 }
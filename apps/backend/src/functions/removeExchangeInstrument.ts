@@ -0,0 +1,117 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeInstrumentParamsSchema } from '../types/instrument';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange } from '../lib/exchanges';
+import { delistInstrument } from '../lib/exchange-instruments';
+import { broadcastExchangeConfigUpdated } from '../lib/signalr-broadcast';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * DELETE /api/v1/exchanges/{exchangeId}/instruments/{symbol}
+ *
+ * Delists an instrument from the exchange
+ * Restricted to RiskManagers (ADR-002)
+ *
+ * New orders for the symbol are rejected and the market engine stops ticking it. Open
+ * (PENDING and PARTIAL) orders for the symbol are cancelled in the same transaction, which
+ * releases their reserved cash; filled quantity and positions are kept.
+ *
+ * Returns:
+ * - 204: Instrument delisted
+ * - 400: Invalid exchangeId or symbol
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, archived, or caller is not a member; or symbol not listed
+ * - 500: Internal server error
+ */
+export async function removeExchangeInstrument(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to delist ${request.params.symbol} from exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameters with Zod
+    const paramsValidation = ExchangeInstrumentParamsSchema.safeParse({
+      exchangeId: request.params.exchangeId,
+      symbol: request.params.symbol,
+    });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId, symbol } = paramsValidation.data;
+
+    // 3. Check the caller's role and remove the listing within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = callerRoles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      if (!exchange) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage exchange listings');
+      }
+
+      const { delisted, cancelledOrders } = await delistInstrument(transaction, exchangeId, symbol);
+
+      if (!delisted) {
+        await transaction.rollback();
+        return createNotFoundResponse(`Instrument ${symbol} is not listed on this exchange`);
+      }
+
+      await transaction.commit();
+
+      context.log(
+        `Instrument ${symbol} delisted from exchange ${exchangeId} by user ${user.userId} (${cancelledOrders} open orders cancelled)`
+      );
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+
+    // 4. Notify connected clients
+    await broadcastExchangeConfigUpdated(
+      { exchangeId, updatedBy: user.userId, timestamp: new Date().toISOString() },
+      context
+    );
+
+    return {
+      status: 204,
+    };
+  } catch (error) {
+    context.error('Error delisting instrument from exchange:', error);
+    return handleError(error);
+  }
+}
+
+app.http('removeExchangeInstrument', {
+  methods: ['DELETE'],
+  route: 'v1/exchanges/{exchangeId}/instruments/{symbol}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: removeExchangeInstrument,
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Int: 'Int',
+  Money: 'Money',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { removeExchangeMember } from './removeExchangeMember';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('removeExchangeMember', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const memberId = '550e8400-e29b-41d4-a716-446655440002';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId, userId: memberId },
+      query: new Map(),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should remove every role of the member', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }, { Role: 'Analyst' }] })
+      .mockResolvedValueOnce({ rowsAffected: [2] });
+
+    const response = await removeExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(204);
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should revoke only the requested role', async () => {
+    mockRequest = { ...mockRequest, query: new Map([['role', 'Analyst']]) } as unknown as HttpRequest;
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }, { Role: 'Analyst' }] })
+      .mockResolvedValueOnce({ rowsAffected: [1] });
+
+    const response = await removeExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(204);
+    expect(mockQuery).toHaveBeenCalledTimes(3); // No RiskManager count needed
+  });
+
+  it('should return 409 when removing the last RiskManager', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Total: 0 }] });
+
+    const response = await removeExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(409);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the member does not hold the role', async () => {
+    mockRequest = { ...mockRequest, query: new Map([['role', 'Analyst']]) } as unknown as HttpRequest;
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] });
+
+    const response = await removeExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] });
+
+    const response = await removeExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member of the exchange', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await removeExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+});
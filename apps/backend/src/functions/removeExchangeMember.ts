@@ -0,0 +1,129 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeMemberParamsSchema, RemoveExchangeMemberQuerySchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { countOtherRiskManagers, getExchangeRoles, revokeExchangeRoles } from '../lib/exchange-roles';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  createConflictResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * DELETE /api/v1/exchanges/{exchangeId}/members/{userId}?role=<role>
+ *
+ * Revokes one role from a member, or removes the member from the exchange when role is omitted
+ * Implements ADR-002: Exchange-scoped RBAC, restricted to RiskManagers
+ *
+ * The last RiskManager of an exchange cannot be removed. The member's portfolios are kept.
+ *
+ * Returns:
+ * - 204: Role(s) revoked
+ * - 400: Invalid exchangeId, userId or role
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, or the member does not hold the role
+ * - 409: Member is the last RiskManager
+ * - 500: Internal server error
+ */
+export async function removeExchangeMember(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to remove member ${request.params.userId} from exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route and query parameters with Zod
+    const paramsValidation = ExchangeMemberParamsSchema.safeParse({
+      exchangeId: request.params.exchangeId,
+      userId: request.params.userId,
+    });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const validationResult = RemoveExchangeMemberQuerySchema.safeParse(Object.fromEntries(request.query.entries()));
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId, userId } = paramsValidation.data;
+    const { role } = validationResult.data;
+
+    // 3. Check the caller's role and revoke within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+
+      if (callerRoles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage exchange members');
+      }
+
+      const memberRoles = await getExchangeRoles(transaction, exchangeId, userId);
+      const revokedRoles = role ? memberRoles.filter((memberRole) => memberRole === role) : memberRoles;
+
+      if (revokedRoles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse(
+          role
+            ? `User ${userId} does not hold the ${role} role in this exchange`
+            : `User ${userId} is not a member of this exchange`
+        );
+      }
+
+      // 4. Protect the last RiskManager
+      if (revokedRoles.includes('RiskManager')) {
+        const otherRiskManagers = await countOtherRiskManagers(transaction, exchangeId, userId);
+
+        if (otherRiskManagers === 0) {
+          await transaction.rollback();
+          return createConflictResponse('Cannot remove the last RiskManager of the exchange');
+        }
+      }
+
+      await revokeExchangeRoles(transaction, exchangeId, userId, revokedRoles);
+
+      await transaction.commit();
+
+      context.log(`User ${user.userId} revoked ${revokedRoles.join(', ')} from ${userId} in exchange ${exchangeId}`);
+
+      return {
+        status: 204,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error removing exchange member:', error);
+    return handleError(error);
+  }
+}
+
+app.http('removeExchangeMember', {
+  methods: ['DELETE'],
+  route: 'v1/exchanges/{exchangeId}/members/{userId}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: removeExchangeMember,
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/signalr-broadcast');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: 'NVarChar',
+  Bit: 'Bit',
+  TinyInt: 'TinyInt',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { setExchangeFlag } from './setExchangeFlag';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+import * as signalr from '../lib/signalr-broadcast';
+
+describe('setExchangeFlag', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const activeExchange = {
+    ExchangeId: exchangeId,
+    Name: 'Test Exchange',
+    CreatedAt: '2026-01-01T00:00:00Z',
+    CreatedBy: 'user-123',
+  };
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId, featureName: 'margin-trading' },
+      query: new Map(),
+      json: vi.fn().mockResolvedValue({ isEnabled: true }),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should store the override and notify clients', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockResolvedValueOnce({
+        recordset: [{ FeatureName: 'margin-trading', IsEnabled: true, UpdatedAt: '2026-02-01T00:00:00Z' }],
+      });
+
+    const response = await setExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual({
+      featureName: 'margin-trading',
+      description: expect.any(String),
+      defaultEnabled: false,
+      isEnabled: true,
+      isOverridden: true,
+      updatedAt: '2026-02-01T00:00:00Z',
+    });
+    expect(mockTransaction.commit).toHaveBeenCalled();
+    expect(signalr.broadcastExchangeConfigUpdated).toHaveBeenCalledWith(
+      expect.objectContaining({ exchangeId, updatedBy: 'user-123' }),
+      mockContext
+    );
+  });
+
+  it('should store role, user and percentage targeting', async () => {
+    const targetUserId = '660e8400-e29b-41d4-a716-446655440001';
+    vi.mocked(mockRequest.json).mockResolvedValueOnce({
+      isEnabled: true,
+      rolloutPercentage: 25,
+      targetRoles: ['PortfolioManager'],
+      targetUserIds: [targetUserId],
+    });
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockResolvedValueOnce({
+        recordset: [{
+          FeatureName: 'margin-trading',
+          IsEnabled: true,
+          RolloutPercentage: 25,
+          TargetRoles: '["PortfolioManager"]',
+          TargetUserIds: `["${targetUserId}"]`,
+          UpdatedAt: '2026-02-01T00:00:00Z',
+        }],
+      });
+
+    const response = await setExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({
+      rolloutPercentage: 25,
+      targetRoles: ['PortfolioManager'],
+      targetUserIds: [targetUserId],
+    });
+  });
+
+  it('should return 400 for a rollout percentage above 100', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValueOnce({ isEnabled: true, rolloutPercentage: 150 });
+
+    const response = await setExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for a flag missing from the registry', async () => {
+    mockRequest = { ...mockRequest, params: { exchangeId, featureName: 'margin-tradng' } } as unknown as HttpRequest;
+
+    const response = await setExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when isEnabled is not a boolean', async () => {
+    vi.mocked(mockRequest.json).mockResolvedValueOnce({ isEnabled: 'yes' });
+
+    const response = await setExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(database.getConnectionPool).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] });
+
+    const response = await setExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(signalr.broadcastExchangeConfigUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await setExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(signalr.broadcastExchangeConfigUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should roll back and return 500 on database errors', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [activeExchange] })
+      .mockRejectedValueOnce(new Error('Connection lost'));
+
+    const response = await setExchangeFlag(mockRequest, mockContext);
+
+    expect(response.status).toBe(500);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(signalr.broadcastExchangeConfigUpdated).not.toHaveBeenCalled();
+  });
+});
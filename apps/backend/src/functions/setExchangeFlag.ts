@@ -0,0 +1,136 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { z } from 'zod';
+import { FeatureFlagParamsSchema, SetFeatureFlagSchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { getActiveExchange } from '../lib/exchanges';
+import { isKnownFeatureFlag, mapFeatureFlag, setFeatureFlag } from '../lib/feature-flags';
+import { broadcastExchangeConfigUpdated } from '../lib/signalr-broadcast';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * PUT /api/v1/exchanges/{exchangeId}/flags/{featureName}
+ *
+ * Overrides a feature flag for the exchange
+ * Implements ADR-021: Feature Flag Engine, restricted to RiskManagers (ADR-002)
+ *
+ * Only names in FEATURE_FLAG_REGISTRY can be set, so a typo cannot create a flag no client
+ * reads. The body replaces the stored override, including its role, user and percentage
+ * targeting. After commit an ExchangeConfigUpdated event is pushed to ticker:{exchangeId} so
+ * connected FeatureService instances reload.
+ *
+ * Returns:
+ * - 200: ExchangeFeatureFlagResponse after the update
+ * - 400: Invalid exchangeId, unknown featureName, or invalid body
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, archived, or caller is not a member
+ * - 500: Internal server error
+ */
+export async function setExchangeFlag(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to set feature flag ${request.params.featureName} on exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameters and request body with Zod
+    const paramsValidation = FeatureFlagParamsSchema.safeParse({
+      exchangeId: request.params.exchangeId,
+      featureName: request.params.featureName,
+    });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const { exchangeId, featureName } = paramsValidation.data;
+
+    if (!isKnownFeatureFlag(featureName)) {
+      return createValidationErrorResponse(
+        new z.ZodError([
+          {
+            code: 'custom',
+            path: ['featureName'],
+            message: `Unknown feature flag: ${featureName}`,
+          },
+        ])
+      );
+    }
+
+    const body = await request.json();
+    const validationResult = SetFeatureFlagSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const flag = validationResult.data;
+
+    // 3. Check the caller's role and store the override within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+    let record;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+      const exchange = callerRoles.length > 0 ? await getActiveExchange(transaction, exchangeId) : undefined;
+
+      if (!exchange) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage feature flags');
+      }
+
+      record = await setFeatureFlag(transaction, exchangeId, featureName, flag);
+
+      await transaction.commit();
+
+      context.log(`Feature flag ${featureName} set to ${flag.isEnabled} on exchange ${exchangeId} by user ${user.userId}`);
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+
+    // 4. Notify connected clients
+    await broadcastExchangeConfigUpdated(
+      { exchangeId, updatedBy: user.userId, timestamp: new Date().toISOString() },
+      context
+    );
+
+    // 5. Return the flag
+    return {
+      status: 200,
+      jsonBody: mapFeatureFlag(featureName, record),
+    };
+  } catch (error) {
+    context.error('Error setting feature flag:', error);
+    return handleError(error);
+  }
+}
+
+app.http('setExchangeFlag', {
+  methods: ['PUT'],
+  route: 'v1/exchanges/{exchangeId}/flags/{featureName}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: setExchangeFlag,
+});
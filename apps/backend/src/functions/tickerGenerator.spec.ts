@@ -69,8 +69,9 @@ describe('tickerGenerator', () => {
   it('should successfully generate price ticks for active exchanges', async () => {
     // Mock Math.random to ensure a significant price change that passes deadband filter
     // Use a high volatility multiplier to ensure change > $0.01
-    // randomFactor = 0.3 - 0.5 = -0.2
-    // change = 450 * 0.01 * 4.5 * -0.2 = -4.05 (which is definitely > $0.01 threshold)
+    // Shock = z * (sqrt(0.3) + sqrt(0.7)) = -0.361 with z = sqrt(-2 ln 0.7) * cos(0.6 pi) = -0.261
+    // sigma = 0.01 * 4.5 = 0.045; price = 450 * exp(-sigma^2/2 + sigma * shock) = 442.29
+    // (which is definitely > $0.01 threshold)
     const mockRandom = vi.spyOn(Math, 'random').mockReturnValue(0.3);
 
     const validExchangeId = '550e8400-e29b-41d4-a716-446655440000'; // Valid UUID v4
@@ -143,6 +144,47 @@ describe('tickerGenerator', () => {
     expect(signalr.broadcastPriceUpdate).not.toHaveBeenCalled();
   });
 
+  it('should skip exchanges outside continuous trading', async () => {
+    const validExchangeId = '550e8400-e29b-41d4-a716-446655440001';
+    // A Saturday in New York
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-17T15:00:00Z'));
+
+    mockConnectionPool.query
+      .mockResolvedValueOnce({
+        recordset: [
+          {
+            ExchangeId: validExchangeId,
+            Name: 'Exchange Weekend',
+            VolatilityMultiplier: 1.0,
+            MarketEngineEnabled: 1,
+            SessionTimeZone: 'America/New_York',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        recordset: [
+          {
+            ExchangeId: validExchangeId,
+            Symbol: 'AAPL',
+            Close: 150.00,
+          },
+        ],
+      });
+
+    try {
+      await tickerGenerator(mockTimer, mockContext);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(mockContext.log).toHaveBeenCalledWith(
+      `Exchange ${validExchangeId} is in session phase CLOSED, skipping tick generation`
+    );
+    expect(cache.cacheQuote).not.toHaveBeenCalled();
+    expect(signalr.broadcastPriceUpdate).not.toHaveBeenCalled();
+  });
+
   it('should handle no active exchanges gracefully', async () => {
     mockConnectionPool.query.mockResolvedValueOnce({
       recordset: [],
@@ -175,6 +217,7 @@ describe('tickerGenerator', () => {
     await tickerGenerator(mockTimer, mockContext);
 
     expect(mockContext.log).toHaveBeenCalledWith('No symbols found for tick generation');
+    expect(mockConnectionPool.query.mock.calls[1][0]).toContain('INNER JOIN [Trade].[ExchangeInstruments] l ON l.ExchangeId = e.ExchangeId');
   });
 
   it('should use cached quote when available', async () => {
@@ -321,9 +364,9 @@ describe('tickerGenerator', () => {
 
   it('should apply deadband filter and skip insignificant price changes', async () => {
     // Mock Math.random to generate a very small change < $0.01
-    // randomFactor = 0.5 - 0.5 = 0
-    // change = 450 * 0.01 * 0 = 0 (which is < $0.01 threshold)
-    const mockRandom = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    // GBM shock z = sqrt(-2 ln 0.75) * cos(pi / 2) = 0, leaving only the -sigma^2/2 correction
+    // price = 50 * exp(-0.01^2 / 2) = 49.9975, which rounds back to 50.00 (change < $0.01 threshold)
+    const mockRandom = vi.spyOn(Math, 'random').mockReturnValue(0.25);
     const validExchangeId = '550e8400-e29b-41d4-a716-446655440005';
 
     mockConnectionPool.query
@@ -338,7 +381,7 @@ describe('tickerGenerator', () => {
         ],
       })
       .mockResolvedValueOnce({
-        recordset: [{ ExchangeId: validExchangeId, Symbol: 'SPY', Close: 450.0 }],
+        recordset: [{ ExchangeId: validExchangeId, Symbol: 'SPY', Close: 50.0 }],
       });
 
     await tickerGenerator(mockTimer, mockContext);
@@ -353,4 +396,242 @@ describe('tickerGenerator', () => {
     
     mockRandom.mockRestore();
   });
+
+  it('should seed from the instrument BasePrice and round to its TickSize', async () => {
+    // Every normal draw is z = sqrt(-2 ln 0.1) * cos(1.8 pi) = 1.736, so with the default market
+    // correlation (0.3) and no sector the shock is z * (sqrt(0.3) + sqrt(0.7)) = 2.403
+    // sigma = 0.01 * 1.0 * 0.5 = 0.005; price = 1.0845 * exp(-sigma^2/2 + sigma * shock) = 1.097611,
+    // rounded to 1.0976
+    const mockRandom = vi.spyOn(Math, 'random').mockReturnValue(0.9);
+    const validExchangeId = '550e8400-e29b-41d4-a716-446655440008';
+
+    mockConnectionPool.query
+      .mockResolvedValueOnce({
+        recordset: [
+          {
+            ExchangeId: validExchangeId,
+            Name: 'Exchange Alpha',
+            VolatilityMultiplier: 1.0,
+            MarketEngineEnabled: 1,
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        recordset: [{
+          ExchangeId: validExchangeId,
+          Symbol: 'EURUSD',
+          Close: null, // Never ticked on this exchange
+          BasePrice: 1.0845,
+          InstrumentVolatilityMultiplier: 0.5,
+          TickSize: 0.0001,
+        }],
+      });
+
+    await tickerGenerator(mockTimer, mockContext);
+
+    expect(signalr.broadcastPriceUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: 'EURUSD', price: 1.0976 }),
+      1.0845,
+      mockContext
+    );
+
+    mockRandom.mockRestore();
+  });
+
+  it('should scale the move by the instrument volatility multiplier', async () => {
+    // Shock = z * (sqrt(0.3) + sqrt(0.7)) = -0.361 with z = sqrt(-2 ln 0.7) * cos(0.6 pi) = -0.261
+    // sigma = 0.01 * 1.0 * 3.0 = 0.03; price = 100 * exp(-sigma^2/2 + sigma * shock) = 98.8773,
+    // rounded to 98.88 (change -1.12)
+    const mockRandom = vi.spyOn(Math, 'random').mockReturnValue(0.3);
+    const validExchangeId = '550e8400-e29b-41d4-a716-446655440009';
+
+    mockConnectionPool.query
+      .mockResolvedValueOnce({
+        recordset: [
+          {
+            ExchangeId: validExchangeId,
+            Name: 'Exchange Alpha',
+            VolatilityMultiplier: 1.0,
+            MarketEngineEnabled: 1,
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        recordset: [{
+          ExchangeId: validExchangeId,
+          Symbol: 'BTC',
+          Close: 100,
+          BasePrice: 65000,
+          InstrumentVolatilityMultiplier: 3.0,
+          TickSize: 0.01,
+        }],
+      });
+
+    await tickerGenerator(mockTimer, mockContext);
+
+    expect(signalr.broadcastPriceUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: 'BTC', price: 98.88, change: -1.12 }),
+      100,
+      mockContext
+    );
+
+    mockRandom.mockRestore();
+  });
+
+  it('should scale the move by the scenario volatility index and skip halted symbols', async () => {
+    // Same move as the instrument multiplier test: sigma = 0.01 * 1.0 * 3.0 (VolatilityIndex) = 0.03
+    const mockRandom = vi.spyOn(Math, 'random').mockReturnValue(0.3);
+    const validExchangeId = '550e8400-e29b-41d4-a716-446655440009';
+
+    mockConnectionPool.query
+      .mockResolvedValueOnce({
+        recordset: [
+          {
+            ExchangeId: validExchangeId,
+            Name: 'Exchange Alpha',
+            VolatilityMultiplier: 1.0,
+            VolatilityIndex: 3.0,
+            MarketEngineEnabled: 1,
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        recordset: [{ ExchangeId: validExchangeId, Symbol: 'AAPL', Close: 100, TickSize: 0.01 }],
+      });
+
+    await tickerGenerator(mockTimer, mockContext);
+
+    expect(mockConnectionPool.query.mock.calls[1][0]).toContain('[Trade].[TradingHalts]');
+    expect(signalr.broadcastPriceUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: 'AAPL', price: 98.88 }),
+      100,
+      mockContext
+    );
+
+    mockRandom.mockRestore();
+  });
+
+  it('should revert towards BasePrice when the instrument overrides the model with OU', async () => {
+    // Zero shock (see the deadband test): ln(price / 100) = ln(1.1) * exp(-0.05) with the default
+    // mean reversion of 0.05, so 110 moves to 109.49
+    const mockRandom = vi.spyOn(Math, 'random').mockReturnValue(0.25);
+    const validExchangeId = '550e8400-e29b-41d4-a716-446655440010';
+
+    mockConnectionPool.query
+      .mockResolvedValueOnce({
+        recordset: [
+          {
+            ExchangeId: validExchangeId,
+            Name: 'Exchange Alpha',
+            VolatilityMultiplier: 1.0,
+            MarketEngineEnabled: 1,
+            PriceModel: 'GBM',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        recordset: [{
+          ExchangeId: validExchangeId,
+          Symbol: 'EURUSD',
+          Close: 110,
+          BasePrice: 100,
+          InstrumentVolatilityMultiplier: 1.0,
+          TickSize: 0.01,
+          InstrumentPriceModel: 'OU',
+        }],
+      });
+
+    await tickerGenerator(mockTimer, mockContext);
+
+    expect(signalr.broadcastPriceUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: 'EURUSD', price: 109.49 }),
+      110,
+      mockContext
+    );
+    expect(mockConnectionPool.query.mock.calls[1][0]).toContain('i.PriceModel AS InstrumentPriceModel');
+
+    mockRandom.mockRestore();
+  });
+
+  it('should replay the same prices for a seeded exchange without using Math.random', async () => {
+    // Shocks come from the stream (seed 42, step 7, 'AAPL'), so every replay moves 100 to 100.78
+    const mockRandom = vi.spyOn(Math, 'random');
+    const validExchangeId = '550e8400-e29b-41d4-a716-446655440011';
+    const mockSeededRun = () => mockConnectionPool.query
+      .mockResolvedValueOnce({
+        recordset: [
+          {
+            ExchangeId: validExchangeId,
+            Name: 'Exchange Alpha',
+            VolatilityMultiplier: 2.0,
+            MarketEngineEnabled: 1,
+            PriceModel: 'GBM',
+            SimulationSeed: 42,
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        recordset: [{
+          ExchangeId: validExchangeId,
+          Symbol: 'AAPL',
+          Close: 100,
+          BasePrice: 100,
+          InstrumentVolatilityMultiplier: 1.0,
+          TickSize: 0.01,
+          InstrumentPriceModel: null,
+        }],
+      })
+      .mockResolvedValueOnce({ recordset: [{ SimulationSeed: 42, SimulationStep: 7 }] });
+
+    mockSeededRun();
+    await tickerGenerator(mockTimer, mockContext);
+    mockSeededRun();
+    await tickerGenerator(mockTimer, mockContext);
+
+    const broadcasts = vi.mocked(signalr.broadcastPriceUpdate).mock.calls;
+    expect(broadcasts).toHaveLength(2);
+    expect(broadcasts[0][0]).toMatchObject({ symbol: 'AAPL', price: 100.78 });
+    expect(broadcasts[1][0].price).toBe(broadcasts[0][0].price);
+    expect(mockConnectionPool.query.mock.calls[2][0]).toContain('SET SimulationStep = SimulationStep + 1');
+    expect(mockRandom).not.toHaveBeenCalled();
+
+    mockRandom.mockRestore();
+  });
+
+  it('should move related symbols together through the market factor', async () => {
+    const validExchangeId = '550e8400-e29b-41d4-a716-446655440012';
+    const instrument = { ExchangeId: validExchangeId, Close: 100, BasePrice: 100, InstrumentVolatilityMultiplier: 1.0, TickSize: 0.01 };
+
+    mockConnectionPool.query
+      .mockResolvedValueOnce({
+        recordset: [
+          {
+            ExchangeId: validExchangeId,
+            Name: 'Exchange Alpha',
+            VolatilityMultiplier: 2.0,
+            MarketEngineEnabled: 1,
+            MarketCorrelation: 1,
+            SectorCorrelation: 0,
+            SimulationSeed: 7,
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        recordset: [
+          { ...instrument, Symbol: 'AAPL', Sector: 'Technology', Beta: 1 },
+          { ...instrument, Symbol: 'XOM', Sector: 'Energy', Beta: 1 },
+          { ...instrument, Symbol: 'GLD', Sector: null, Beta: -1 },
+        ],
+      })
+      .mockResolvedValueOnce({ recordset: [{ SimulationSeed: 7, SimulationStep: 1 }] });
+
+    await tickerGenerator(mockTimer, mockContext);
+
+    const changes = new Map(
+      vi.mocked(signalr.broadcastPriceUpdate).mock.calls.map(([update]) => [update.symbol, update.change])
+    );
+    expect(changes.get('XOM')).toBe(changes.get('AAPL'));
+    expect(Math.sign(changes.get('GLD')!)).toBe(-Math.sign(changes.get('AAPL')!));
+    expect(mockConnectionPool.query.mock.calls[1][0]).toContain('i.Sector, i.Beta');
+  });
 });
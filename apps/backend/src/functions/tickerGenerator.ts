@@ -5,21 +5,28 @@ import { getConnectionPool } from '../lib/database';
 import { getQuote, cacheQuote } from '../lib/cache';
 import { broadcastPriceUpdate } from '../lib/signalr-broadcast';
 import { sendPriceUpdateToEventHub } from '../lib/event-hub';
+import { DEFAULT_TICK_SIZE, roundToTick } from '../lib/instruments';
+import { simulatePrice, toPriceModelSettings } from '../lib/price-models';
+import { advanceSimulationStep, symbolRandomSource } from '../lib/simulation-seed';
+import { correlatedShock, drawMarketFactors, toCorrelationSettings } from '../lib/market-factors';
+import { activeHaltCondition } from '../lib/trading-halts';
+import { getMarketSessionPhase, toMarketSessionSchedule } from '../lib/market-sessions';
+import { PriceModelType } from '../types/market-engine';
 
 /**
- * Default base price for symbols when no cached or database price is available
- * Per ADR-016: Use realistic base prices for common asset classes
+ * Active instrument listed on an exchange with its latest simulated price (NULL before the first tick)
  */
-const DEFAULT_BASE_PRICES: Record<string, number> = {
-  SPY: 450,
-  BTC: 65000,
-  ETH: 3500,
-  AAPL: 180,
-  GOOGL: 140,
-  MSFT: 380,
-  TSLA: 250,
-  DEFAULT: 100,
-};
+interface InstrumentPriceRow {
+  ExchangeId: string;
+  Symbol: string;
+  Close: number | null;
+  BasePrice: number;
+  InstrumentVolatilityMultiplier: number;
+  TickSize: number;
+  InstrumentPriceModel: PriceModelType | null;
+  Sector: string | null;
+  Beta: number;
+}
 
 /**
  * ADR-016: Multi-Exchange Ticker Generator
@@ -29,8 +36,18 @@ const DEFAULT_BASE_PRICES: Record<string, number> = {
  * 
  * Key Features:
  * - Multi-Exchange: Isolated markets per exchange with independent volatility regimes
- * - Regime Physics: Applies volatilityMultiplier to simulate different market conditions
- * - Deadband Filtering: Ignores price changes < $0.01 to optimize bandwidth/storage
+ * - Regime Physics: Applies volatilityMultiplier and the VolatilityIndex (set by scenarios) to
+ *   simulate different market conditions
+ * - Price Models: Moves prices with the exchange's stochastic model (GBM, Merton jump-diffusion
+ *   or Ornstein-Uhlenbeck), which the instrument may override
+ * - Correlated Shocks: Market and sector factors (weighted by Beta and the exchange's correlations)
+ *   move related symbols together
+ * - Seeded Replay: Exchanges with a SimulationSeed draw from a deterministic stream per run and symbol
+ * - Instrument Master: Ticks the active instruments listed on each exchange, seeded from BasePrice
+ *   and scaled by the instrument's VolatilityMultiplier, with prices rounded to its TickSize
+ * - Trading Halts: Halted symbols are not ticked, so their prices freeze until the halt ends
+ * - Market Sessions: Exchanges with a trading session only tick during continuous trading
+ * - Deadband Filtering: Ignores price changes smaller than one tick to optimize bandwidth/storage
  * - Fan-Out Pattern: Broadcasts to both SignalR (real-time UI) and Event Hub (audit)
  * - Group Targeting: SignalR messages sent to ticker:{ExchangeId} groups
  */
@@ -48,7 +65,12 @@ export async function tickerGenerator(
     const exchangesResult = await pool.request().query(`
       SELECT e.ExchangeId, e.Name, 
              ISNULL(ec.Volatility, 1.0) AS VolatilityMultiplier,
-             ISNULL(ec.MarketEngineEnabled, 1) AS MarketEngineEnabled
+             ISNULL(ec.VolatilityIndex, 1.0) AS VolatilityIndex,
+             ISNULL(ec.MarketEngineEnabled, 1) AS MarketEngineEnabled,
+             ec.PriceModel, ec.Drift, ec.JumpIntensity, ec.JumpMean, ec.JumpVolatility, ec.MeanReversion,
+             ec.MarketCorrelation, ec.SectorCorrelation, ec.SimulationSeed,
+             ec.SessionTimeZone, ec.SessionOpenTime, ec.SessionCloseTime, ec.PreOpenMinutes,
+             ec.ClosingAuctionMinutes, ec.SessionHolidays
       FROM [Trade].[Exchanges] e
       LEFT JOIN [Trade].[ExchangeConfigurations] ec 
         ON e.ExchangeId = ec.ExchangeId
@@ -62,9 +84,9 @@ export async function tickerGenerator(
 
     context.log(`Processing ${exchangesResult.recordset.length} active exchanges`);
 
-    // 2. Fetch all latest prices for all active exchanges and symbols in a single optimized query
-    // This reduces N×M queries to a single batch query for better performance
-    const pricesResult = await pool.request().query(`
+    // 2. Fetch the active, unhalted instruments listed on each active exchange with their latest prices in a
+    // single optimized query. This reduces N×M queries to a single batch query for better performance
+    const pricesResult = await pool.request().query<InstrumentPriceRow>(`
       WITH LatestPrices AS (
         SELECT 
           ExchangeId,
@@ -78,84 +100,131 @@ export async function tickerGenerator(
           WHERE IsActive = 1
         )
       )
-      SELECT ExchangeId, Symbol, Close
-      FROM LatestPrices
-      WHERE rn = 1
+      SELECT e.ExchangeId, i.Symbol, lp.Close, i.BasePrice,
+             i.VolatilityMultiplier AS InstrumentVolatilityMultiplier, i.TickSize,
+             i.PriceModel AS InstrumentPriceModel, i.Sector, i.Beta
+      FROM [Trade].[Exchanges] e
+      INNER JOIN [Trade].[ExchangeInstruments] l ON l.ExchangeId = e.ExchangeId
+      INNER JOIN [Trade].[Instruments] i ON i.Symbol = l.Symbol
+      LEFT JOIN LatestPrices lp
+        ON lp.ExchangeId = e.ExchangeId AND lp.Symbol = i.Symbol AND lp.rn = 1
+      WHERE e.IsActive = 1 AND i.IsActive = 1
+        AND NOT ${activeHaltCondition('e.ExchangeId', 'i.Symbol')}
     `);
 
-    // Build a map of exchange -> symbol -> price for quick lookup
-    const priceMap = new Map<string, Map<string, number>>();
-    for (const row of pricesResult.recordset) {
-      if (!priceMap.has(row.ExchangeId)) {
-        priceMap.set(row.ExchangeId, new Map());
-      }
-      priceMap.get(row.ExchangeId)!.set(row.Symbol, row.Close);
-    }
-
-    // Get all unique symbols
-    const symbols = Array.from(new Set(pricesResult.recordset.map((row: any) => row.Symbol as string)));
-    
-    if (symbols.length === 0) {
+    if (pricesResult.recordset.length === 0) {
       context.log('No symbols found for tick generation');
       return;
     }
 
+    // Build a map of exchange -> instruments for quick lookup
+    const instrumentMap = new Map<string, InstrumentPriceRow[]>();
+    for (const row of pricesResult.recordset) {
+      if (!instrumentMap.has(row.ExchangeId)) {
+        instrumentMap.set(row.ExchangeId, []);
+      }
+      instrumentMap.get(row.ExchangeId)!.push(row);
+    }
+
     // 3. Loop through Exchanges to generate Isolated Markets
     for (const exchange of exchangesResult.recordset) {
       const exchangeId = exchange.ExchangeId;
       const volatilityMultiplier = exchange.VolatilityMultiplier;
+      const volatilityIndex = exchange.VolatilityIndex ?? 1;
       
       if (!exchange.MarketEngineEnabled) {
         context.log(`Market engine disabled for exchange ${exchangeId}`);
         continue;
       }
 
+      // Prices only move during continuous trading (marketEngineTick runs the auctions)
+      const phase = getMarketSessionPhase(toMarketSessionSchedule(exchange));
+      if (phase !== 'CONTINUOUS') {
+        context.log(`Exchange ${exchangeId} is in session phase ${phase}, skipping tick generation`);
+        continue;
+      }
+
       context.log(`Generating ticks for exchange: ${exchange.Name} (volatility: ${volatilityMultiplier})`);
 
-      // Process each symbol for this exchange
-      for (const symbol of symbols) {
+      // Seeded exchanges claim the next step so this run's shocks can be replayed
+      const simulation = exchange.SimulationSeed != null
+        ? await advanceSimulationStep(pool.request(), exchangeId)
+        : undefined;
+      const instruments = instrumentMap.get(exchangeId) ?? [];
+
+      // Draw the market and sector factors shared by this exchange's symbols
+      const correlation = toCorrelationSettings(exchange);
+      const factors = drawMarketFactors(
+        instruments.map((instrument) => instrument.Sector),
+        (stream) => symbolRandomSource(simulation, stream)
+      );
+
+      // Process each instrument for this exchange
+      for (const instrument of instruments) {
+        const symbol = instrument.Symbol;
+
         try {
-          // Get current price from cache, priceMap, or defaults
+          // Get current price from cache, the latest tick, or the instrument's reference price
           let basePrice: number;
-          const cachedQuote = await getQuote(exchangeId, symbol as string);
+          const cachedQuote = await getQuote(exchangeId, symbol);
           
           if (cachedQuote?.price) {
             basePrice = cachedQuote.price;
           } else {
-            // Try to get from priceMap
-            const exchangePrices = priceMap.get(exchangeId);
-            basePrice = exchangePrices?.get(symbol as string) 
-              || (DEFAULT_BASE_PRICES as Record<string, number>)[symbol as string] 
-              || DEFAULT_BASE_PRICES.DEFAULT;
+            basePrice = instrument.Close || instrument.BasePrice;
           }
 
           // 4. Apply Regime Physics with volatility multiplier
           // ADR-006: Use Decimal.js for all financial calculations
           const basePriceDecimal = new Decimal(basePrice);
-          // Base volatility of 1% per tick (1 second interval).
+          const tickSize = new Decimal(instrument.TickSize ?? DEFAULT_TICK_SIZE);
+          // Base volatility (standard deviation of the log return) of 1% per tick (1 second interval).
           // NOTE: This is an intentionally exaggerated per-tick move for training simulations,
           // not a representation of real-world annualized volatility or market microstructure.
           // The volatilityMultiplier scales the per-tick move for different regime conditions, e.g.:
           // - Normal regime (1.0): baseline training volatility
           // - Crisis regime (4.5): amplified training volatility for stress scenarios
-          const volatility = new Decimal(0.01).times(volatilityMultiplier);
-          const randomFactor = new Decimal(Math.random() - 0.5); // -0.5 to 0.5
-          const change = basePriceDecimal.times(volatility).times(randomFactor);
+          // The VolatilityIndex (changed by scenario volatility regimes) scales it again,
+          // and the instrument's multiplier then scales it per symbol (e.g. crypto above equities).
+          // The price model turns it into the next price; OU reverts towards the instrument's BasePrice.
+          // Its shock is correlated with the market and the instrument's sector.
+          const volatility = new Decimal(0.01)
+            .times(volatilityMultiplier)
+            .times(volatilityIndex)
+            .times(instrument.InstrumentVolatilityMultiplier ?? 1);
+          const priceModel = toPriceModelSettings(exchange, instrument.InstrumentPriceModel);
+          const random = symbolRandomSource(simulation, symbol);
+          const shock = correlatedShock(
+            factors,
+            { sector: instrument.Sector ?? null, beta: instrument.Beta ?? 1 },
+            correlation,
+            random
+          );
+          const simulatedPrice = simulatePrice(
+            {
+              price: basePrice,
+              volatility: volatility.toNumber(),
+              longRunPrice: instrument.BasePrice ?? basePrice,
+              shock,
+            },
+            priceModel,
+            random
+          );
+          const newPrice = new Decimal(roundToTick(simulatedPrice, tickSize.toNumber()));
+          const change = newPrice.minus(basePriceDecimal);
           
-          // 5. DEADBAND FILTER: Ignore noise to save bandwidth/storage
-          const DEADBAND_THRESHOLD = new Decimal(0.01);
-          if (change.abs().lessThan(DEADBAND_THRESHOLD)) {
-            context.log(`Deadband filter: skipping ${symbol} on ${exchangeId} (change < $0.01)`);
+          // 5. DEADBAND FILTER: Ignore moves smaller than one tick to save bandwidth/storage
+          if (change.abs().lessThan(tickSize)) {
+            context.log(`Deadband filter: skipping ${symbol} on ${exchangeId} (change < ${tickSize.toString()})`);
             continue;
           }
 
-          const newPrice = basePriceDecimal.plus(change);
           const changePercent = change.dividedBy(basePriceDecimal).times(100);
 
           // Validate with Zod schema
           const priceUpdateData = {
             exchangeId,
-            symbol: symbol as string,
+            symbol,
             price: newPrice.toNumber(),
             change: change.toNumber(),
             changePercent: changePercent.toNumber(),
@@ -170,7 +239,7 @@ export async function tickerGenerator(
           }
 
           // Cache the updated quote in Redis
-          await cacheQuote(exchangeId, symbol as string, {
+          await cacheQuote(exchangeId, symbol, {
             price: priceUpdateData.price,
             timestamp: priceUpdateData.timestamp,
             change: priceUpdateData.change,
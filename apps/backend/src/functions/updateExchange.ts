@@ -0,0 +1,120 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import * as sql from 'mssql';
+import { ExchangeParamsSchema, ExchangeResponse, UpdateExchangeSchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { ExchangeRecord, mapExchangeRecord } from '../lib/exchanges';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * PUT /api/v1/exchanges/{exchangeId}
+ *
+ * Renames an exchange
+ * Implements ADR-002: Exchange-scoped RBAC, restricted to RiskManagers
+ *
+ * Returns:
+ * - 200: ExchangeResponse with the new name
+ * - 400: Invalid exchangeId or name
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, archived, or caller is not a member
+ * - 500: Internal server error
+ */
+export async function updateExchange(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to update exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameter and request body with Zod
+    const paramsValidation = ExchangeParamsSchema.safeParse({ exchangeId: request.params.exchangeId });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const body = await request.json();
+    const validationResult = UpdateExchangeSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId } = paramsValidation.data;
+    const { name } = validationResult.data;
+
+    // 3. Check the caller's role and rename within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+
+      if (callerRoles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can update the exchange');
+      }
+
+      const updateResult = await transaction.request()
+        .input('exchangeId', sql.UniqueIdentifier, exchangeId)
+        .input('name', sql.NVarChar, name)
+        .query<ExchangeRecord>(`
+          UPDATE [Trade].[Exchanges]
+          SET Name = @name
+          OUTPUT INSERTED.[ExchangeId], INSERTED.[Name], INSERTED.[CreatedAt], INSERTED.[CreatedBy]
+          WHERE ExchangeId = @exchangeId AND IsActive = 1
+        `);
+
+      if (updateResult.recordset.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      await transaction.commit();
+
+      context.log(`Exchange ${exchangeId} renamed by user ${user.userId}`);
+
+      // 4. Return the updated exchange
+      const response: ExchangeResponse = { ...mapExchangeRecord(updateResult.recordset[0]), roles: callerRoles };
+
+      return {
+        status: 200,
+        jsonBody: response,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error updating exchange:', error);
+    return handleError(error);
+  }
+}
+
+app.http('updateExchange', {
+  methods: ['PUT'],
+  route: 'v1/exchanges/{exchangeId}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: updateExchange,
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('../lib/signalr-broadcast');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Int: vi.fn(() => 'Int'),
+  Money: vi.fn(() => 'Money'),
+  Decimal: vi.fn(() => 'Decimal'),
+  Bit: vi.fn(() => 'Bit'),
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { updateExchangeConfig } from './updateExchangeConfig';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+import * as cache from '../lib/cache';
+import * as signalr from '../lib/signalr-broadcast';
+
+describe('updateExchangeConfig', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  const updatedRecord = {
+    VolatilityIndex: 2.0,
+    StartingCash: 10000000,
+    Commission: 5,
+    CommissionModel: 'BPS',
+    AllowMargin: true,
+    MaxPortfolioSize: 50,
+    DashboardLayout: '[]',
+    TickIntervalMs: 1000,
+    Volatility: 0.02,
+    MarketEngineEnabled: true,
+    PriceModel: 'GBM',
+    Drift: 0,
+    JumpIntensity: 0.01,
+    JumpMean: 0,
+    JumpVolatility: 0.05,
+    MeanReversion: 0.05,
+    MarketCorrelation: 0.3,
+    SectorCorrelation: 0.2,
+    SimulationSeed: null,
+    LuldBand: 0.1,
+    LuldHaltSeconds: 300,
+    CircuitBreakerThreshold: 0.07,
+    CircuitBreakerHaltSeconds: 900,
+    SessionTimeZone: null,
+    SessionOpenTime: '09:30',
+    SessionCloseTime: '16:00',
+    PreOpenMinutes: 30,
+    ClosingAuctionMinutes: 10,
+    SessionHolidays: '[]',
+    MarketMakerSpreadBps: 10,
+  };
+
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: {},
+      query: new Map([['exchangeId', exchangeId]]),
+      json: vi.fn().mockResolvedValue({ volatilityIndex: 2.0, tickIntervalMs: 1000 }),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should update the configuration, invalidate the cache and notify clients', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [updatedRecord] });
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toMatchObject({ volatilityIndex: 2, tickIntervalMs: 1000, initialAum: 10000000 });
+    expect(mockTransaction.commit).toHaveBeenCalled();
+    expect(cache.invalidateExchangeConfig).toHaveBeenCalledWith(exchangeId);
+    expect(signalr.broadcastExchangeConfigUpdated).toHaveBeenCalledWith(
+      expect.objectContaining({ exchangeId, updatedBy: 'user-123' }),
+      mockContext
+    );
+  });
+
+  it('should still succeed when cache invalidation fails', async () => {
+    vi.mocked(cache.invalidateExchangeConfig).mockRejectedValueOnce(new Error('Redis unavailable'));
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [updatedRecord] });
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(mockContext.warn).toHaveBeenCalled();
+    expect(signalr.broadcastExchangeConfigUpdated).toHaveBeenCalled();
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] });
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(cache.invalidateExchangeConfig).not.toHaveBeenCalled();
+    expect(signalr.broadcastExchangeConfigUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 404 when the exchange is archived', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [] });
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when tickIntervalMs is outside the market engine bounds', async () => {
+    mockRequest = { ...mockRequest, json: vi.fn().mockResolvedValue({ tickIntervalMs: 50 }) } as unknown as HttpRequest;
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+    expect(mockTransaction.begin).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 when volatility is outside the market engine bounds', async () => {
+    mockRequest = { ...mockRequest, json: vi.fn().mockResolvedValue({ volatility: 1.5 }) } as unknown as HttpRequest;
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 400 for an unknown price model', async () => {
+    mockRequest = { ...mockRequest, json: vi.fn().mockResolvedValue({ priceModel: 'HESTON' }) } as unknown as HttpRequest;
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 400 for an unknown session time zone or a close before the open', async () => {
+    for (const body of [
+      { sessionTimeZone: 'Mars/Olympus_Mons' },
+      { sessionOpenTime: '16:00', sessionCloseTime: '09:30' },
+    ]) {
+      mockRequest = { ...mockRequest, json: vi.fn().mockResolvedValue(body) } as unknown as HttpRequest;
+
+      const response = await updateExchangeConfig(mockRequest, mockContext);
+
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it('should return 400 when no field is sent', async () => {
+    mockRequest = { ...mockRequest, json: vi.fn().mockResolvedValue({}) } as unknown as HttpRequest;
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 400 when exchangeId is missing', async () => {
+    mockRequest = { ...mockRequest, query: new Map() } as unknown as HttpRequest;
+
+    const response = await updateExchangeConfig(mockRequest, mockContext);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,127 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeConfigQuerySchema, UpdateExchangeConfigSchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { invalidateExchangeConfig } from '../lib/cache';
+import { getExchangeRoles } from '../lib/exchange-roles';
+import { applyExchangeConfigChanges, mapExchangeConfigRecord } from '../lib/exchange-config';
+import { broadcastExchangeConfigUpdated } from '../lib/signalr-broadcast';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * PUT /api/v1/exchange/config?exchangeId=<uuid>
+ *
+ * Updates an exchange's simulation rules (partial update)
+ * Implements ADR-021: Feature Flag Engine, restricted to RiskManagers (ADR-002)
+ *
+ * After commit the cached configuration is invalidated (ADR-008) and an ExchangeConfigUpdated
+ * event is pushed to ticker:{exchangeId} so connected FeatureService instances reload.
+ *
+ * Returns:
+ * - 200: ExchangeConfig after the update
+ * - 400: Invalid exchangeId, or a field outside its bounds (UpdateExchangeConfigSchema)
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange not found, archived, or caller is not a member
+ * - 500: Internal server error
+ */
+export async function updateExchangeConfig(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to update configuration of exchange ${request.query.get('exchangeId')}`);
+
+    // 2. Validate query parameters and request body with Zod
+    const queryValidation = ExchangeConfigQuerySchema.safeParse(Object.fromEntries(request.query.entries()));
+
+    if (!queryValidation.success) {
+      return createValidationErrorResponse(queryValidation.error);
+    }
+
+    const body = await request.json();
+    const validationResult = UpdateExchangeConfigSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId } = queryValidation.data;
+
+    // 3. Check the caller's role and update within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+    let updated;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+
+      if (callerRoles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can update the exchange configuration');
+      }
+
+      updated = await applyExchangeConfigChanges(transaction, exchangeId, validationResult.data);
+
+      if (!updated) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or configuration not initialized');
+      }
+
+      await transaction.commit();
+
+      context.log(`Exchange ${exchangeId} configuration updated by user ${user.userId}: ${Object.keys(validationResult.data).join(', ')}`);
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+
+    // 4. Invalidate the cached configuration (ADR-008) and notify connected clients
+    try {
+      await invalidateExchangeConfig(exchangeId);
+    } catch (cacheError) {
+      // Log but don't fail the request: the cached entry expires within its TTL
+      context.warn(`Failed to invalidate exchange config: ${cacheError}`);
+    }
+
+    await broadcastExchangeConfigUpdated(
+      { exchangeId, updatedBy: user.userId, timestamp: new Date().toISOString() },
+      context
+    );
+
+    // 5. Return the updated configuration
+    return {
+      status: 200,
+      jsonBody: mapExchangeConfigRecord(updated),
+    };
+  } catch (error) {
+    context.error('Error updating exchange configuration:', error);
+    return handleError(error);
+  }
+}
+
+app.http('updateExchangeConfig', {
+  methods: ['PUT'],
+  route: 'v1/exchange/config',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: updateExchangeConfig,
+});
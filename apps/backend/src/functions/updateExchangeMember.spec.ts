@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock dependencies before imports
+vi.mock('../lib/auth');
+vi.mock('../lib/database');
+vi.mock('../lib/cache');
+vi.mock('mssql', () => ({
+  default: {},
+  UniqueIdentifier: 'UniqueIdentifier',
+  NVarChar: vi.fn(() => 'NVarChar'),
+  MAX: 'MAX',
+  Int: 'Int',
+  Money: 'Money',
+}));
+vi.mock('@azure/functions', () => ({
+  HttpRequest: vi.fn(),
+  InvocationContext: vi.fn(),
+  app: { http: vi.fn() },
+}));
+
+import { HttpRequest, InvocationContext } from '@azure/functions';
+import { updateExchangeMember } from './updateExchangeMember';
+import * as auth from '../lib/auth';
+import * as database from '../lib/database';
+
+describe('updateExchangeMember', () => {
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const memberId = '550e8400-e29b-41d4-a716-446655440002';
+
+  let mockRequest: HttpRequest;
+  let mockContext: InvocationContext;
+  let mockQuery: ReturnType<typeof vi.fn>;
+  let mockTransaction: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    vi.mocked(auth.requireAuthentication).mockReturnValue({
+      userId: 'user-123',
+      userDetails: 'Test User',
+      identityProvider: 'aad',
+      userRoles: [],
+    });
+
+    mockRequest = {
+      params: { exchangeId, userId: memberId },
+      json: vi.fn().mockResolvedValue({ role: 'Analyst' }),
+      headers: { get: vi.fn() },
+    } as unknown as HttpRequest;
+
+    mockContext = {
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    } as unknown as InvocationContext;
+
+    mockQuery = vi.fn();
+    mockTransaction = {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query: mockQuery }),
+    };
+
+    vi.mocked(database.getConnectionPool).mockResolvedValue({
+      transaction: vi.fn().mockReturnValue(mockTransaction),
+    } as any);
+  });
+
+  it('should replace the member\'s roles with the requested role', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] })
+      .mockResolvedValueOnce({ rowsAffected: [1] })
+      .mockResolvedValueOnce({ recordset: [{ AssignedAt: '2026-01-19T12:00:00.000Z' }] })
+      .mockResolvedValueOnce({
+        recordset: [{ ExchangeId: exchangeId, UserId: memberId, Role: 'Analyst', AssignedAt: '2026-01-19T12:00:00.000Z' }],
+      });
+
+    const response = await updateExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+    expect(response.jsonBody).toEqual({
+      exchangeId,
+      userId: memberId,
+      role: 'Analyst',
+      assignedAt: '2026-01-19T12:00:00.000Z',
+    });
+    expect(mockTransaction.commit).toHaveBeenCalled();
+  });
+
+  it('should return 409 when demoting the last RiskManager', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Total: 0 }] });
+
+    const response = await updateExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(409);
+    expect(response.jsonBody.detail).toContain('last RiskManager');
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(mockTransaction.commit).not.toHaveBeenCalled();
+  });
+
+  it('should allow demoting a RiskManager when another remains', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [{ Total: 1 }] })
+      .mockResolvedValueOnce({ rowsAffected: [1] })
+      .mockResolvedValueOnce({ recordset: [{ AssignedAt: '2026-01-19T12:00:00.000Z' }] })
+      .mockResolvedValueOnce({
+        recordset: [{ ExchangeId: exchangeId, UserId: memberId, Role: 'Analyst', AssignedAt: '2026-01-19T12:00:00.000Z' }],
+      });
+
+    const response = await updateExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should return 404 when the user is not a member', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ recordset: [{ Role: 'RiskManager' }] })
+      .mockResolvedValueOnce({ recordset: [] });
+
+    const response = await updateExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 403 when the caller is not a RiskManager', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [{ Role: 'PortfolioManager' }] });
+
+    const response = await updateExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(403);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should return 404 when the caller is not a member of the exchange', async () => {
+    mockQuery.mockResolvedValueOnce({ recordset: [] });
+
+    const response = await updateExchangeMember(mockRequest, mockContext);
+
+    expect(response.status).toBe(404);
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { ExchangeMemberParamsSchema, ExchangeRoleResponse, UpdateExchangeMemberSchema } from '../types/exchange';
+import { getConnectionPool, setSessionContext } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import {
+  ExchangeRoleRecord,
+  countOtherRiskManagers,
+  getExchangeRole,
+  getExchangeRoles,
+  grantExchangeRole,
+  mapExchangeRoleRecord,
+  revokeExchangeRoles,
+} from '../lib/exchange-roles';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  createConflictResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * PUT /api/v1/exchanges/{exchangeId}/members/{userId}
+ *
+ * Changes a member's role: the member ends up holding exactly the requested role
+ * Implements ADR-002: Exchange-scoped RBAC, restricted to RiskManagers
+ *
+ * The last RiskManager of an exchange cannot be demoted. Changing a member to
+ * PortfolioManager provisions their first portfolio (see lib/exchange-roles.ts).
+ *
+ * Returns:
+ * - 200: ExchangeRoleResponse for the member's role
+ * - 400: Invalid exchangeId, userId or role
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a RiskManager
+ * - 404: Exchange or member not found
+ * - 409: Member is the last RiskManager
+ * - 500: Internal server error
+ */
+export async function updateExchangeMember(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID)
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to change member ${request.params.userId} of exchange ${request.params.exchangeId}`);
+
+    // 2. Validate route parameters and request body with Zod
+    const paramsValidation = ExchangeMemberParamsSchema.safeParse({
+      exchangeId: request.params.exchangeId,
+      userId: request.params.userId,
+    });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const body = await request.json();
+    const validationResult = UpdateExchangeMemberSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { exchangeId, userId } = paramsValidation.data;
+    const { role } = validationResult.data;
+
+    // 3. Check the caller's role and replace the member's roles within one transaction
+    const pool = await getConnectionPool();
+    let transaction;
+
+    try {
+      transaction = pool.transaction();
+      await transaction.begin();
+
+      await setSessionContext(transaction.request(), user.userId, exchangeId);
+
+      const callerRoles = await getExchangeRoles(transaction, exchangeId, user.userId);
+
+      if (callerRoles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse('Exchange not found or you do not have access to it');
+      }
+
+      if (!callerRoles.includes('RiskManager')) {
+        await transaction.rollback();
+        return createForbiddenResponse('Only RiskManagers can manage exchange members');
+      }
+
+      const memberRoles = await getExchangeRoles(transaction, exchangeId, userId);
+
+      if (memberRoles.length === 0) {
+        await transaction.rollback();
+        return createNotFoundResponse(`User ${userId} is not a member of this exchange`);
+      }
+
+      // 4. Protect the last RiskManager
+      if (memberRoles.includes('RiskManager') && role !== 'RiskManager') {
+        const otherRiskManagers = await countOtherRiskManagers(transaction, exchangeId, userId);
+
+        if (otherRiskManagers === 0) {
+          await transaction.rollback();
+          return createConflictResponse('Cannot demote the last RiskManager of the exchange');
+        }
+      }
+
+      await revokeExchangeRoles(
+        transaction,
+        exchangeId,
+        userId,
+        memberRoles.filter((memberRole) => memberRole !== role)
+      );
+
+      const result = await grantExchangeRole(transaction, exchangeId, userId, role);
+
+      // Read back the assignment: an unchanged role keeps its original AssignedAt
+      const assignment = await getExchangeRole(transaction, exchangeId, userId, role);
+
+      await transaction.commit();
+
+      context.log(`User ${user.userId} changed ${userId} to ${role} in exchange ${exchangeId}`);
+
+      // 5. Return the member's role
+      const response: ExchangeRoleResponse = mapExchangeRoleRecord(assignment as ExchangeRoleRecord);
+
+      if (result.granted && result.portfolio?.status === 'CREATED') {
+        response.portfolioId = result.portfolio.portfolio.PortfolioId;
+      }
+
+      return {
+        status: 200,
+        jsonBody: response,
+      };
+    } catch (error) {
+      if (transaction) {
+        await transaction.rollback();
+      }
+      throw error;
+    }
+  } catch (error) {
+    context.error('Error updating exchange member:', error);
+    return handleError(error);
+  }
+}
+
+app.http('updateExchangeMember', {
+  methods: ['PUT'],
+  route: 'v1/exchanges/{exchangeId}/members/{userId}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: updateExchangeMember,
+});
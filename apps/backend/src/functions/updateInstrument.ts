@@ -0,0 +1,84 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { InstrumentParamsSchema, UpdateInstrumentSchema } from '../types/instrument';
+import { getConnectionPool } from '../lib/database';
+import { requireAuthentication } from '../lib/auth';
+import { INSTRUMENT_ADMIN_ROLE, applyInstrumentChanges, mapInstrumentRecord } from '../lib/instruments';
+import {
+  createValidationErrorResponse,
+  createNotFoundResponse,
+  createForbiddenResponse,
+  handleError,
+} from '../lib/error-handler';
+
+/**
+ * PUT /api/v1/instruments/{symbol}
+ *
+ * Updates an instrument's description and simulation parameters (partial update)
+ * Restricted to platform administrators (Static Web Apps `admin` role)
+ *
+ * New simulation parameters apply from the next tick of every exchange. Changing basePrice
+ * only affects exchanges that have not ticked the symbol yet.
+ *
+ * Returns:
+ * - 200: InstrumentResponse after the update
+ * - 400: Invalid symbol or a field outside its bounds (UpdateInstrumentSchema)
+ * - 401: Unauthorized (no valid authentication)
+ * - 403: Caller is not a platform administrator
+ * - 404: Instrument not found or archived
+ * - 500: Internal server error
+ */
+export async function updateInstrument(
+  request: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> {
+  try {
+    // 1. Authenticate user (Microsoft Entra ID) and check the platform role
+    const user = requireAuthentication(request);
+    context.log(`User ${user.userId} requesting to update instrument ${request.params.symbol}`);
+
+    if (!user.userRoles.includes(INSTRUMENT_ADMIN_ROLE)) {
+      return createForbiddenResponse('Only platform administrators can manage instruments');
+    }
+
+    // 2. Validate route parameter and request body with Zod
+    const paramsValidation = InstrumentParamsSchema.safeParse({ symbol: request.params.symbol });
+
+    if (!paramsValidation.success) {
+      return createValidationErrorResponse(paramsValidation.error);
+    }
+
+    const body = await request.json();
+    const validationResult = UpdateInstrumentSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return createValidationErrorResponse(validationResult.error);
+    }
+
+    const { symbol } = paramsValidation.data;
+
+    // 3. Apply the changes
+    const pool = await getConnectionPool();
+    const instrument = await applyInstrumentChanges(pool, symbol, validationResult.data);
+
+    if (!instrument) {
+      return createNotFoundResponse(`Instrument ${symbol} not found`);
+    }
+
+    context.log(`Instrument ${symbol} updated by user ${user.userId}: ${Object.keys(validationResult.data).join(', ')}`);
+
+    return {
+      status: 200,
+      jsonBody: mapInstrumentRecord(instrument),
+    };
+  } catch (error) {
+    context.error('Error updating instrument:', error);
+    return handleError(error);
+  }
+}
+
+app.http('updateInstrument', {
+  methods: ['PUT'],
+  route: 'v1/instruments/{symbol}',
+  authLevel: 'anonymous', // Authentication handled by Azure Static Web Apps / Entra ID
+  handler: updateInstrument,
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { uncrossAuction } from './auctions';
+
+describe('auctions', () => {
+  describe('uncrossAuction', () => {
+    it('should uncross at the price that executes the most volume', () => {
+      const result = uncrossAuction(
+        [
+          { orderId: 'b1', isBuying: true, limitPrice: 101, quantity: 100 },
+          { orderId: 'b2', isBuying: true, limitPrice: 99, quantity: 100 },
+          { orderId: 's1', isBuying: false, limitPrice: 98, quantity: 50 },
+          { orderId: 's2', isBuying: false, limitPrice: 100, quantity: 100 },
+        ],
+        100,
+        0
+      );
+
+      expect(result.price).toBe(100);
+      expect(result.crossedVolume).toBe(100);
+      expect(result.trades).toEqual([
+        { buyOrderId: 'b1', sellOrderId: 's1', quantity: 50 },
+        { buyOrderId: 'b1', sellOrderId: 's2', quantity: 50 },
+      ]);
+      expect(result.marketMakerFills).toEqual([]);
+    });
+
+    it('should fill MARKET orders first, then by price and time priority', () => {
+      const result = uncrossAuction(
+        [
+          { orderId: 'b1', isBuying: true, limitPrice: 100, quantity: 50 },
+          { orderId: 'b2', isBuying: true, limitPrice: 102, quantity: 50 },
+          { orderId: 'b3', isBuying: true, limitPrice: null, quantity: 50 },
+          { orderId: 's1', isBuying: false, limitPrice: 100, quantity: 100 },
+        ],
+        100,
+        0
+      );
+
+      expect(result.trades).toEqual([
+        { buyOrderId: 'b3', sellOrderId: 's1', quantity: 50 },
+        { buyOrderId: 'b2', sellOrderId: 's1', quantity: 50 },
+      ]);
+    });
+
+    it('should let the market maker absorb the imbalance up to its liquidity', () => {
+      const result = uncrossAuction(
+        [
+          { orderId: 'b1', isBuying: true, limitPrice: null, quantity: 300 },
+          { orderId: 's1', isBuying: false, limitPrice: null, quantity: 100 },
+        ],
+        50,
+        150
+      );
+
+      expect(result.price).toBe(50);
+      expect(result.crossedVolume).toBe(100);
+      expect(result.trades).toEqual([{ buyOrderId: 'b1', sellOrderId: 's1', quantity: 100 }]);
+      expect(result.marketMakerFills).toEqual([{ orderId: 'b1', quantity: 150 }]);
+    });
+
+    it('should print at the reference price when nothing crosses', () => {
+      const result = uncrossAuction(
+        [
+          { orderId: 'b1', isBuying: true, limitPrice: 95, quantity: 100 },
+          { orderId: 's1', isBuying: false, limitPrice: 105, quantity: 100 },
+        ],
+        100,
+        0
+      );
+
+      expect(result).toEqual({ price: 100, crossedVolume: 0, trades: [], marketMakerFills: [] });
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import Decimal from 'decimal.js';
+
+/**
+ * Call Auction Utilities
+ *
+ * Opening and closing auctions (lib/market-sessions.ts) uncross the orders collected during
+ * PRE_OPEN and CLOSING_AUCTION at a single price:
+ * 1. The auction price is the limit price (or the reference price) that executes the most
+ *    volume between participants; ties go to the smallest imbalance, then to the price
+ *    closest to the reference price (the symbol's last close)
+ * 2. Orders executable at that price (MARKET, buys limited at or above it, sells limited at
+ *    or below it) are filled in price priority (MARKET first), then time priority
+ * 3. The simulated market maker absorbs the imbalance left on one side, up to the tick's
+ *    liquidity, so market-on-close orders still complete when participants do not cross
+ * 4. The crossed volume is paired into buy/sell trades in that priority on both sides, so each
+ *    trade can fill both of its orders together; the rest of the allocations trade with the
+ *    market maker
+ *
+ * Every fill executes at the auction price. Uses Decimal.js for quantities (ADR-006).
+ */
+
+/**
+ * An open order taking part in an auction (in time priority, oldest first)
+ */
+export interface AuctionOrder {
+  orderId: string;
+  isBuying: boolean; // BUY and COVER buy, SELL and SHORT sell
+  limitPrice: number | null; // null for MARKET orders
+  quantity: number; // Quantity still to fill
+}
+
+/**
+ * An order's share of the auction volume
+ */
+export interface AuctionFill {
+  orderId: string;
+  quantity: number;
+}
+
+/**
+ * A trade between two participants at the auction price
+ */
+export interface AuctionTrade {
+  buyOrderId: string;
+  sellOrderId: string;
+  quantity: number;
+}
+
+/**
+ * Outcome of an auction
+ */
+export interface AuctionResult {
+  price: number;
+  crossedVolume: number; // Volume executed between participants
+  trades: AuctionTrade[]; // Crosses between participants in priority order
+  marketMakerFills: AuctionFill[]; // Allocations of the imbalance to the market maker
+}
+
+/**
+ * Whether an order is executable at a price
+ */
+function isExecutable(order: AuctionOrder, price: number): boolean {
+  if (order.limitPrice === null) {
+    return true;
+  }
+  return order.isBuying ? price <= order.limitPrice : price >= order.limitPrice;
+}
+
+/**
+ * Total quantity of the given orders executable at a price
+ */
+function executableQuantity(orders: AuctionOrder[], price: number) {
+  return orders
+    .filter((order) => isExecutable(order, price))
+    .reduce((sum, order) => sum.plus(order.quantity), new Decimal(0));
+}
+
+/**
+ * Allocate a side's volume to its executable orders in price, then time priority
+ */
+function allocate(orders: AuctionOrder[], price: number, volume: number): AuctionFill[] {
+  // MARKET orders first, then the most aggressive limits; sort is stable, so time priority holds
+  const queue = orders
+    .filter((order) => isExecutable(order, price))
+    .sort((a, b) => {
+      if (a.limitPrice === null || b.limitPrice === null) {
+        return (a.limitPrice === null ? 0 : 1) - (b.limitPrice === null ? 0 : 1);
+      }
+      return a.isBuying ? b.limitPrice - a.limitPrice : a.limitPrice - b.limitPrice;
+    });
+  const fills: AuctionFill[] = [];
+  let remaining = new Decimal(volume);
+
+  for (const order of queue) {
+    if (remaining.lessThanOrEqualTo(0)) {
+      break;
+    }
+    const quantity = Decimal.min(order.quantity, remaining);
+    fills.push({ orderId: order.orderId, quantity: quantity.toNumber() });
+    remaining = remaining.minus(quantity);
+  }
+
+  return fills;
+}
+
+/**
+ * Pair the crossed volume of both sides' allocations into trades, leaving the rest for the
+ * market maker
+ */
+function pairFills(
+  buyFills: AuctionFill[],
+  sellFills: AuctionFill[],
+  crossedVolume: number
+): Pick<AuctionResult, 'trades' | 'marketMakerFills'> {
+  const buys = buyFills.map((fill) => ({ ...fill, remaining: new Decimal(fill.quantity) }));
+  const sells = sellFills.map((fill) => ({ ...fill, remaining: new Decimal(fill.quantity) }));
+  const trades: AuctionTrade[] = [];
+  let crossed = new Decimal(crossedVolume);
+  let buyIndex = 0;
+  let sellIndex = 0;
+
+  while (crossed.greaterThan(0) && buyIndex < buys.length && sellIndex < sells.length) {
+    const buy = buys[buyIndex];
+    const sell = sells[sellIndex];
+    const quantity = Decimal.min(buy.remaining, sell.remaining, crossed);
+
+    trades.push({ buyOrderId: buy.orderId, sellOrderId: sell.orderId, quantity: quantity.toNumber() });
+    buy.remaining = buy.remaining.minus(quantity);
+    sell.remaining = sell.remaining.minus(quantity);
+    crossed = crossed.minus(quantity);
+
+    if (buy.remaining.lessThanOrEqualTo(0)) {
+      buyIndex++;
+    }
+    if (sell.remaining.lessThanOrEqualTo(0)) {
+      sellIndex++;
+    }
+  }
+
+  return {
+    trades,
+    marketMakerFills: [...buys, ...sells]
+      .filter((fill) => fill.remaining.greaterThan(0))
+      .map((fill) => ({ orderId: fill.orderId, quantity: fill.remaining.toNumber() })),
+  };
+}
+
+/**
+ * Uncross an auction at a single price
+ *
+ * @param orders - Open MARKET and LIMIT orders of the symbol, oldest first
+ * @param referencePrice - The symbol's last close (the price when nothing crosses)
+ * @param marketMakerLiquidity - Quantity the simulated market maker takes from the imbalance
+ */
+export function uncrossAuction(
+  orders: AuctionOrder[],
+  referencePrice: number,
+  marketMakerLiquidity: number
+): AuctionResult {
+  const buys = orders.filter((order) => order.isBuying);
+  const sells = orders.filter((order) => !order.isBuying);
+  const candidates = [
+    referencePrice,
+    ...orders.flatMap((order) => (order.limitPrice === null ? [] : [order.limitPrice])),
+  ];
+
+  let best: { price: number; volume: number; imbalance: number } | undefined;
+
+  for (const price of candidates) {
+    const demand = executableQuantity(buys, price);
+    const supply = executableQuantity(sells, price);
+    const volume = Decimal.min(demand, supply).toNumber();
+    const imbalance = demand.minus(supply).abs().toNumber();
+
+    const better = !best
+      || volume > best.volume
+      || (volume === best.volume && imbalance < best.imbalance)
+      || (volume === best.volume && imbalance === best.imbalance
+        && Math.abs(price - referencePrice) < Math.abs(best.price - referencePrice));
+
+    if (better) {
+      best = { price, volume, imbalance };
+    }
+  }
+
+  // Nothing crosses: the auction prints at the reference price
+  const price = best && best.volume > 0 ? best.price : referencePrice;
+  const crossedVolume = best && best.volume > 0 ? best.volume : 0;
+  const liquidity = Math.max(0, marketMakerLiquidity);
+  const demand = executableQuantity(buys, price);
+  const supply = executableQuantity(sells, price);
+
+  return {
+    price,
+    crossedVolume,
+    ...pairFills(
+      allocate(buys, price, Decimal.min(liquidity, demand.minus(crossedVolume)).plus(crossedVolume).toNumber()),
+      allocate(sells, price, Decimal.min(liquidity, supply.minus(crossedVolume)).plus(crossedVolume).toNumber()),
+      crossedVolume
+    ),
+  };
+}
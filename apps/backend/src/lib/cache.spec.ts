@@ -3,6 +3,10 @@ import {
   getRedisClient,
   cacheQuote,
   getQuote,
+  cacheDepth,
+  getDepth,
+  nextDepthSequence,
+  getDepthSequence,
   cacheExchangeConfig,
   getExchangeConfig,
   invalidateExchangeConfig,
@@ -15,6 +19,7 @@ const mockRedisInstance = {
   status: 'ready',
   setex: vi.fn().mockResolvedValue('OK'),
   get: vi.fn().mockResolvedValue(null),
+  incr: vi.fn().mockResolvedValue(1),
   del: vi.fn().mockResolvedValue(1),
   scanStream: vi.fn().mockReturnValue({
     [Symbol.asyncIterator]: async function* () {
@@ -31,6 +36,7 @@ vi.mock('ioredis', () => {
     status = mockRedisInstance.status;
     setex = mockRedisInstance.setex;
     get = mockRedisInstance.get;
+    incr = mockRedisInstance.incr;
     del = mockRedisInstance.del;
     scanStream = mockRedisInstance.scanStream;
     on = mockRedisInstance.on;
@@ -193,6 +199,46 @@ describe('cache', () => {
     });
   });
 
+  describe('cacheDepth and getDepth', () => {
+    const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
+    const depth = {
+      bids: [{ price: 149.5, quantity: 300, orderCount: 2, ownQuantity: 0 }],
+      asks: [],
+    };
+
+    it('should cache the published depth with correct key pattern and default TTL', async () => {
+      await cacheDepth(exchangeId, 'AAPL', depth);
+
+      expect(mockRedisInstance.setex).toHaveBeenCalledWith(`DEPTH:${exchangeId}:AAPL`, 300, JSON.stringify(depth));
+    });
+
+    it('should return the cached depth, or null when none was published', async () => {
+      mockRedisInstance.get.mockResolvedValueOnce(JSON.stringify(depth)).mockResolvedValueOnce(null);
+
+      expect(await getDepth(exchangeId, 'AAPL')).toEqual(depth);
+      expect(await getDepth(exchangeId, 'AAPL')).toBeNull();
+      expect(mockRedisInstance.get).toHaveBeenCalledWith(`DEPTH:${exchangeId}:AAPL`);
+    });
+  });
+
+  describe('nextDepthSequence and getDepthSequence', () => {
+    const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
+
+    it('should increment the book\'s sequence without a TTL', async () => {
+      mockRedisInstance.incr.mockResolvedValueOnce(42);
+
+      expect(await nextDepthSequence(exchangeId, 'AAPL')).toBe(42);
+      expect(mockRedisInstance.incr).toHaveBeenCalledWith(`DEPTH_SEQUENCE:${exchangeId}:AAPL`);
+    });
+
+    it('should return the last sequence, or 0 when none was published', async () => {
+      mockRedisInstance.get.mockResolvedValueOnce('42').mockResolvedValueOnce(null);
+
+      expect(await getDepthSequence(exchangeId, 'AAPL')).toBe(42);
+      expect(await getDepthSequence(exchangeId, 'AAPL')).toBe(0);
+    });
+  });
+
   describe('cacheExchangeConfig', () => {
     it('should cache exchange config with correct key pattern', async () => {
       const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
@@ -1,4 +1,6 @@
 import Redis from 'ioredis';
+import { CommissionModel } from '../types/exchange';
+import { MarketDepth } from '../types/market-depth';
 
 let redisClient: Redis | null = null;
 let connecting: Promise<Redis> | null = null;
@@ -10,6 +12,7 @@ let connecting: Promise<Redis> | null = null;
  * ADR-008: Caching Strategy
  * - Real-Time Quotes: QUOTE:{EXCHANGE_ID}:{SYMBOL}
  * - Exchange Config: CONFIG:{EXCHANGE_ID}
+ * - Published Market Depth: DEPTH:{EXCHANGE_ID}:{SYMBOL}
  * 
  * @returns Promise that resolves to Redis client when ready
  */
@@ -92,6 +95,8 @@ export async function cacheQuote(
     volume?: number;
     change?: number;
     changePercent?: number;
+    bid?: number;
+    ask?: number;
   },
   ttlSeconds: number = 60
 ): Promise<void> {
@@ -119,6 +124,8 @@ export async function getQuote(
   volume?: number;
   change?: number;
   changePercent?: number;
+  bid?: number;
+  ask?: number;
 } | null> {
   try {
     const client = await getRedisClient();
@@ -143,6 +150,99 @@ export async function getQuote(
   }
 }
 
+/**
+ * Cache the market depth last published for a symbol (the base of the next depth update)
+ * Key Pattern: DEPTH:{EXCHANGE_ID}:{SYMBOL}
+ * TTL: 300 seconds (a book published again after expiry is sent in full)
+ */
+export async function cacheDepth(
+  exchangeId: string,
+  symbol: string,
+  depth: MarketDepth,
+  ttlSeconds = 300
+): Promise<void> {
+  try {
+    const client = await getRedisClient();
+    const key = `DEPTH:${exchangeId}:${symbol}`;
+
+    await client.setex(key, ttlSeconds, JSON.stringify(depth));
+  } catch (error) {
+    const err = error as Error;
+    throw new Error(`Failed to cache depth for ${exchangeId}:${symbol}: ${err.message}`);
+  }
+}
+
+/**
+ * Get the market depth last published for a symbol
+ * Returns null if not found or expired
+ */
+export async function getDepth(
+  exchangeId: string,
+  symbol: string
+): Promise<MarketDepth | null> {
+  try {
+    const client = await getRedisClient();
+    const key = `DEPTH:${exchangeId}:${symbol}`;
+
+    const data = await client.get(key);
+
+    if (!data) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error(`Failed to parse cached depth for ${key}:`, error);
+      return null;
+    }
+  } catch (error) {
+    const err = error as Error;
+    console.error(`Failed to retrieve depth for ${exchangeId}:${symbol}: ${err.message}`);
+    return null;
+  }
+}
+
+/**
+ * Number the next depth update of a symbol's book
+ * Key Pattern: DEPTH_SEQUENCE:{EXCHANGE_ID}:{SYMBOL}
+ * No TTL: the sequence keeps increasing after the cached depth expires
+ */
+export async function nextDepthSequence(
+  exchangeId: string,
+  symbol: string
+): Promise<number> {
+  try {
+    const client = await getRedisClient();
+    const key = `DEPTH_SEQUENCE:${exchangeId}:${symbol}`;
+
+    return await client.incr(key);
+  } catch (error) {
+    const err = error as Error;
+    throw new Error(`Failed to number depth update for ${exchangeId}:${symbol}: ${err.message}`);
+  }
+}
+
+/**
+ * Get the sequence of the last depth update published for a symbol's book
+ * Returns 0 if none was published (or Redis is unavailable)
+ */
+export async function getDepthSequence(
+  exchangeId: string,
+  symbol: string
+): Promise<number> {
+  try {
+    const client = await getRedisClient();
+    const key = `DEPTH_SEQUENCE:${exchangeId}:${symbol}`;
+
+    return Number(await client.get(key)) || 0;
+  } catch (error) {
+    const err = error as Error;
+    console.error(`Failed to retrieve depth sequence for ${exchangeId}:${symbol}: ${err.message}`);
+    return 0;
+  }
+}
+
 /**
  * Cache exchange configuration
  * Key Pattern: CONFIG:{EXCHANGE_ID}
@@ -154,6 +254,7 @@ export async function cacheExchangeConfig(
     volatilityIndex?: number;
     startingCash?: number;
     commission?: number;
+    commissionModel?: CommissionModel;
     allowMargin?: boolean;
     maxPortfolioSize?: number;
     dashboardLayout?: string;
@@ -181,6 +282,7 @@ export async function getExchangeConfig(
   volatilityIndex?: number;
   startingCash?: number;
   commission?: number;
+  commissionModel?: CommissionModel;
   allowMargin?: boolean;
   maxPortfolioSize?: number;
   dashboardLayout?: string;
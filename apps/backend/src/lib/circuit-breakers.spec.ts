@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_CIRCUIT_BREAKER_SETTINGS,
+  calculateIndexReturn,
+  checkCircuitBreaker,
+  checkLuldBand,
+  toCircuitBreakerSettings,
+} from './circuit-breakers';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: vi.fn(() => 'nvarchar'),
+  Int: 'int',
+}));
+
+describe('circuit-breakers', () => {
+  describe('toCircuitBreakerSettings', () => {
+    it('should use the defaults when the exchange has no configuration', () => {
+      expect(toCircuitBreakerSettings(undefined)).toEqual(DEFAULT_CIRCUIT_BREAKER_SETTINGS);
+    });
+
+    it('should keep a NULL band or threshold, which disables the check', () => {
+      expect(toCircuitBreakerSettings({
+        LuldBand: null,
+        LuldHaltSeconds: 60,
+        CircuitBreakerThreshold: null,
+        CircuitBreakerHaltSeconds: 600,
+      })).toEqual({ luldBand: null, luldHaltSeconds: 60, circuitBreakerThreshold: null, circuitBreakerHaltSeconds: 600 });
+    });
+  });
+
+  describe('checkLuldBand', () => {
+    it('should leave prices inside the band unchanged', () => {
+      expect(checkLuldBand(105, 100, 0.1)).toEqual({ price: 105, limit: null });
+    });
+
+    it('should cap prices above the band at limit up', () => {
+      expect(checkLuldBand(112.5, 100, 0.1)).toEqual({ price: 110, limit: 'UP' });
+    });
+
+    it('should cap prices below the band at limit down', () => {
+      expect(checkLuldBand(85, 100, 0.1)).toEqual({ price: 90, limit: 'DOWN' });
+    });
+
+    it('should skip the check without a band or reference price', () => {
+      expect(checkLuldBand(150, 100, null)).toEqual({ price: 150, limit: null });
+      expect(checkLuldBand(150, null, 0.1)).toEqual({ price: 150, limit: null });
+    });
+  });
+
+  describe('calculateIndexReturn', () => {
+    it('should average the symbols\' returns since the open', () => {
+      expect(calculateIndexReturn([
+        { Symbol: 'AAPL', OpenPrice: 100, LastPrice: 90 },
+        { Symbol: 'MSFT', OpenPrice: 200, LastPrice: 192 },
+      ])).toBeCloseTo(-0.07, 10);
+    });
+
+    it('should return undefined when nothing has ticked today', () => {
+      expect(calculateIndexReturn([])).toBeUndefined();
+    });
+  });
+
+  describe('checkCircuitBreaker', () => {
+    const halt = { HaltId: 1, ExchangeId: 'e1', Symbol: null, Reason: 'CIRCUIT_BREAKER' };
+
+    function mockPool(query: ReturnType<typeof vi.fn>) {
+      const input = vi.fn().mockReturnThis();
+      return { pool: { request: () => ({ input, query }) }, input };
+    }
+
+    it('should halt the exchange when the index falls past the threshold', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({
+          recordset: [
+            { Symbol: 'AAPL', OpenPrice: 100, LastPrice: 92, TrippedToday: 0 },
+            { Symbol: 'MSFT', OpenPrice: 100, LastPrice: 93, TrippedToday: 0 },
+          ],
+        })
+        .mockResolvedValueOnce({ recordset: [halt] });
+      const { pool, input } = mockPool(query);
+
+      const result = await checkCircuitBreaker(pool as any, 'e1', DEFAULT_CIRCUIT_BREAKER_SETTINGS);
+
+      expect(result).toBe(halt);
+      expect(query.mock.calls[1][0]).toContain('INSERT INTO [Trade].[TradingHalts]');
+      expect(input).toHaveBeenCalledWith('haltReason', 'nvarchar', 'CIRCUIT_BREAKER');
+      expect(input).toHaveBeenCalledWith('haltDurationSeconds', 'int', 900);
+    });
+
+    it('should not halt above the threshold', async () => {
+      const query = vi.fn().mockResolvedValueOnce({
+        recordset: [{ Symbol: 'AAPL', OpenPrice: 100, LastPrice: 95, TrippedToday: 0 }],
+      });
+      const { pool } = mockPool(query);
+
+      expect(await checkCircuitBreaker(pool as any, 'e1', DEFAULT_CIRCUIT_BREAKER_SETTINGS)).toBeUndefined();
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should trip at most once per day', async () => {
+      const query = vi.fn().mockResolvedValueOnce({
+        recordset: [{ Symbol: 'AAPL', OpenPrice: 100, LastPrice: 80, TrippedToday: 1 }],
+      });
+      const { pool } = mockPool(query);
+
+      expect(await checkCircuitBreaker(pool as any, 'e1', DEFAULT_CIRCUIT_BREAKER_SETTINGS)).toBeUndefined();
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not query when the circuit breaker is disabled', async () => {
+      const query = vi.fn();
+      const { pool } = mockPool(query);
+
+      const settings = { ...DEFAULT_CIRCUIT_BREAKER_SETTINGS, circuitBreakerThreshold: null };
+
+      expect(await checkCircuitBreaker(pool as any, 'e1', settings)).toBeUndefined();
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
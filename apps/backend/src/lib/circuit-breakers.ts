@@ -0,0 +1,188 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import { TradingHaltRecord, haltTrading } from './trading-halts';
+
+/**
+ * Circuit Breaker Utilities
+ *
+ * Price-driven trading halts for the market engine (marketEngineTick), modeled on US equities:
+ * - Limit-up/limit-down (LULD): each symbol may only trade within LuldBand of its reference
+ *   price, the average close over the last five minutes. A tick beyond the band is capped at
+ *   the band edge and halts the symbol for LuldHaltSeconds; its orders are not matched.
+ * - Market-wide circuit breaker: when the exchange's equal-weighted index (the mean return of
+ *   its listed symbols since their first tick of the UTC day) has fallen by
+ *   CircuitBreakerThreshold, the whole exchange halts for CircuitBreakerHaltSeconds. Like the
+ *   7% Level 1 breaker it trips at most once per day.
+ *
+ * Halts are written to [Trade].[TradingHalts] (lib/trading-halts.ts) and end on their own.
+ */
+
+/**
+ * Halt settings of an exchange ([Trade].[ExchangeConfigurations])
+ */
+export interface CircuitBreakerSettings {
+  luldBand: number | null; // Share of the reference price a tick may move; null disables LULD
+  luldHaltSeconds: number;
+  circuitBreakerThreshold: number | null; // Index drop that halts the exchange; null disables it
+  circuitBreakerHaltSeconds: number;
+}
+
+/**
+ * Settings used when an exchange has no configuration row (match the column defaults)
+ */
+export const DEFAULT_CIRCUIT_BREAKER_SETTINGS: CircuitBreakerSettings = {
+  luldBand: 0.1,
+  luldHaltSeconds: 300,
+  circuitBreakerThreshold: 0.07,
+  circuitBreakerHaltSeconds: 900,
+};
+
+/**
+ * Outcome of checking a price against its LULD band
+ */
+export interface LuldCheck {
+  price: number; // The price, capped at the band edge when it left the band
+  limit: 'UP' | 'DOWN' | null; // The band edge that was breached
+}
+
+/**
+ * First and latest close of a listed symbol on the current UTC day
+ */
+export interface IndexConstituentPrice {
+  Symbol: string;
+  OpenPrice: number;
+  LastPrice: number;
+}
+
+/**
+ * Build halt settings from ExchangeConfigurations columns, falling back to defaults
+ * (a NULL band or threshold is kept: it disables that check)
+ */
+export function toCircuitBreakerSettings(
+  config: {
+    LuldBand?: number | null;
+    LuldHaltSeconds?: number | null;
+    CircuitBreakerThreshold?: number | null;
+    CircuitBreakerHaltSeconds?: number | null;
+  } | undefined
+): CircuitBreakerSettings {
+  return {
+    luldBand: config?.LuldBand === undefined ? DEFAULT_CIRCUIT_BREAKER_SETTINGS.luldBand : config.LuldBand,
+    luldHaltSeconds: config?.LuldHaltSeconds ?? DEFAULT_CIRCUIT_BREAKER_SETTINGS.luldHaltSeconds,
+    circuitBreakerThreshold: config?.CircuitBreakerThreshold === undefined
+      ? DEFAULT_CIRCUIT_BREAKER_SETTINGS.circuitBreakerThreshold
+      : config.CircuitBreakerThreshold,
+    circuitBreakerHaltSeconds: config?.CircuitBreakerHaltSeconds ?? DEFAULT_CIRCUIT_BREAKER_SETTINGS.circuitBreakerHaltSeconds,
+  };
+}
+
+/**
+ * Check a new price against its limit-up/limit-down band
+ *
+ * Uses Decimal.js for financial precision (ADR-006).
+ *
+ * @param price - Simulated price
+ * @param referencePrice - Average close over the last five minutes (null = no recent ticks)
+ * @param band - LuldBand (null = LULD disabled)
+ */
+export function checkLuldBand(price: number, referencePrice: number | null, band: number | null): LuldCheck {
+  if (band === null || referencePrice === null || referencePrice <= 0) {
+    return { price, limit: null };
+  }
+
+  const reference = new Decimal(referencePrice);
+  const upper = reference.times(new Decimal(1).plus(band));
+  const lower = reference.times(new Decimal(1).minus(band));
+
+  if (upper.lessThan(price)) {
+    return { price: upper.toNumber(), limit: 'UP' };
+  }
+  if (lower.greaterThan(price)) {
+    return { price: lower.toNumber(), limit: 'DOWN' };
+  }
+  return { price, limit: null };
+}
+
+/**
+ * Return of the equal-weighted index of the given symbols since the day's first ticks
+ *
+ * @returns The mean of each symbol's LastPrice / OpenPrice - 1 (e.g. -0.07), or undefined
+ *   when no symbol has ticked today
+ */
+export function calculateIndexReturn(prices: IndexConstituentPrice[]): number | undefined {
+  const constituents = prices.filter((price) => price.OpenPrice > 0);
+
+  if (constituents.length === 0) {
+    return undefined;
+  }
+
+  return constituents
+    .reduce((sum, price) => sum.plus(new Decimal(price.LastPrice).dividedBy(price.OpenPrice).minus(1)), new Decimal(0))
+    .dividedBy(constituents.length)
+    .toNumber();
+}
+
+/**
+ * Halt the whole exchange when its index has fallen past the circuit breaker threshold
+ *
+ * Runs before the tick's prices are generated, so a tripped breaker stops the tick: the
+ * engine skips halted symbols.
+ *
+ * @param pool - Connection pool (engine-level access, no RLS session context)
+ * @param exchangeId - Exchange being ticked
+ * @param settings - The exchange's halt settings
+ * @returns The exchange-wide halt, or undefined when the breaker did not trip
+ */
+export async function checkCircuitBreaker(
+  pool: sql.ConnectionPool,
+  exchangeId: string,
+  settings: CircuitBreakerSettings
+): Promise<TradingHaltRecord | undefined> {
+  if (settings.circuitBreakerThreshold === null) {
+    return undefined;
+  }
+
+  // Both queries only look at today (UTC): the day's first ticks open the index, and the
+  // breaker re-arms at midnight
+  const pricesResult = await pool.request()
+    .input('breakerExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<IndexConstituentPrice & { TrippedToday: number }>(`
+      WITH DayTicks AS (
+        SELECT md.Symbol, md.Close,
+               ROW_NUMBER() OVER (PARTITION BY md.Symbol ORDER BY md.Timestamp ASC) AS FirstRn,
+               ROW_NUMBER() OVER (PARTITION BY md.Symbol ORDER BY md.Timestamp DESC) AS LastRn
+        FROM [Trade].[MarketData] md
+        INNER JOIN [Trade].[ExchangeInstruments] l ON l.ExchangeId = md.ExchangeId AND l.Symbol = md.Symbol
+        WHERE md.ExchangeId = @breakerExchangeId
+          AND md.Timestamp >= CAST(CAST(SYSUTCDATETIME() AS DATE) AS DATETIMEOFFSET)
+      )
+      SELECT Symbol,
+             MAX(CASE WHEN FirstRn = 1 THEN Close END) AS OpenPrice,
+             MAX(CASE WHEN LastRn = 1 THEN Close END) AS LastPrice,
+             (SELECT COUNT(*) FROM [Trade].[TradingHalts]
+              WHERE ExchangeId = @breakerExchangeId AND Reason = 'CIRCUIT_BREAKER'
+                AND HaltedAt >= CAST(CAST(SYSUTCDATETIME() AS DATE) AS DATETIMEOFFSET)) AS TrippedToday
+      FROM DayTicks
+      WHERE FirstRn = 1 OR LastRn = 1
+      GROUP BY Symbol
+    `);
+
+  const prices = pricesResult.recordset;
+
+  if (prices.length === 0 || prices[0].TrippedToday > 0) {
+    return undefined;
+  }
+
+  const indexReturn = calculateIndexReturn(prices);
+
+  if (indexReturn === undefined || indexReturn > -settings.circuitBreakerThreshold) {
+    return undefined;
+  }
+
+  return haltTrading(pool.request(), {
+    exchangeId,
+    symbol: null,
+    reason: 'CIRCUIT_BREAKER',
+    durationSeconds: settings.circuitBreakerHaltSeconds,
+  });
+}
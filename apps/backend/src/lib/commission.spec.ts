@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  calculateFillCommission,
+  DEFAULT_COMMISSION_SCHEDULE,
+  estimateOrderCommission,
+  getCommissionSchedule,
+  toCommissionSchedule,
+} from './commission';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+}));
+
+describe('commission', () => {
+  describe('calculateFillCommission', () => {
+    it('should charge basis points on every fill', () => {
+      // 100 * 150 = 15,000 notional; 5 bps = 7.50
+      expect(calculateFillCommission({ model: 'BPS', rate: 5 }, 100, 150, true)).toBe(7.5);
+      expect(calculateFillCommission({ model: 'BPS', rate: 5 }, 100, 150, false)).toBe(7.5);
+    });
+
+    it('should round basis point commission to cents', () => {
+      // 3 * 33.33 = 99.99 notional; 10 bps = 0.09999
+      expect(calculateFillCommission({ model: 'BPS', rate: 10 }, 3, 33.33, true)).toBe(0.1);
+    });
+
+    it('should charge a flat commission once per order', () => {
+      expect(calculateFillCommission({ model: 'FLAT', rate: 4.95 }, 100, 150, true)).toBe(4.95);
+      expect(calculateFillCommission({ model: 'FLAT', rate: 4.95 }, 100, 150, false)).toBe(0);
+    });
+  });
+
+  describe('estimateOrderCommission', () => {
+    it('should estimate the commission of a complete fill', () => {
+      expect(estimateOrderCommission({ model: 'BPS', rate: 5 }, 1000, 150)).toBe(75);
+      expect(estimateOrderCommission({ model: 'FLAT', rate: 4.95 }, 1000, 150)).toBe(4.95);
+    });
+  });
+
+  describe('toCommissionSchedule', () => {
+    it('should fall back to defaults for missing configuration', () => {
+      expect(toCommissionSchedule(undefined)).toEqual(DEFAULT_COMMISSION_SCHEDULE);
+      expect(toCommissionSchedule({ Commission: 2.5, CommissionModel: null })).toEqual({ model: 'BPS', rate: 2.5 });
+    });
+  });
+
+  describe('getCommissionSchedule', () => {
+    it('should load the exchange schedule', async () => {
+      const request = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn().mockResolvedValue({ recordset: [{ Commission: 1, CommissionModel: 'FLAT' }] }),
+      } as any;
+
+      await expect(getCommissionSchedule(request, 'exchange-1')).resolves.toEqual({ model: 'FLAT', rate: 1 });
+      expect(request.input).toHaveBeenCalledWith('commissionExchangeId', 'uniqueidentifier', 'exchange-1');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import { CommissionModel } from '../types/exchange';
+
+/**
+ * Commission Utilities
+ *
+ * Per-exchange commission schedules charged on fills
+ * Implements ADR-006: Decimal.js for all financial calculations
+ *
+ * Models ([Trade].[ExchangeConfigurations].[CommissionModel]):
+ * - BPS: Commission is a rate in basis points charged on the notional of every fill
+ * - FLAT: Commission is a fixed amount per order, charged once on the order's first fill
+ */
+
+/**
+ * Commission settings of an exchange
+ */
+export interface CommissionSchedule {
+  model: CommissionModel;
+  rate: number;
+}
+
+/**
+ * Schedule used when an exchange has no configuration row (matches the schema defaults)
+ */
+export const DEFAULT_COMMISSION_SCHEDULE: CommissionSchedule = {
+  model: 'BPS',
+  rate: 5,
+};
+
+/**
+ * Commission charged on a single fill
+ *
+ * @param schedule - Exchange commission schedule
+ * @param quantity - Fill quantity
+ * @param price - Fill price
+ * @param isFirstFill - Whether this is the order's first fill (FLAT commission is charged once per order)
+ */
+export function calculateFillCommission(
+  schedule: CommissionSchedule,
+  quantity: number,
+  price: number,
+  isFirstFill: boolean
+): number {
+  if (schedule.model === 'FLAT') {
+    return isFirstFill ? new Decimal(schedule.rate).toNumber() : 0;
+  }
+
+  return new Decimal(quantity)
+    .times(price)
+    .times(schedule.rate)
+    .dividedBy(10000)
+    .toDecimalPlaces(2, Decimal.ROUND_HALF_UP)
+    .toNumber();
+}
+
+/**
+ * Commission an order will be charged if it fills completely at the given price
+ * (used for buying-power checks before any fill happens)
+ */
+export function estimateOrderCommission(
+  schedule: CommissionSchedule,
+  quantity: number,
+  price: number
+): number {
+  return calculateFillCommission(schedule, quantity, price, true);
+}
+
+/**
+ * Load the commission schedule of an exchange
+ *
+ * @param request - Request bound to the caller's connection or transaction
+ * @param exchangeId - Exchange whose schedule to load
+ */
+export async function getCommissionSchedule(
+  request: sql.Request,
+  exchangeId: string
+): Promise<CommissionSchedule> {
+  const result = await request
+    .input('commissionExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<{ Commission: number | null; CommissionModel: CommissionModel | null }>(`
+      SELECT Commission, CommissionModel
+      FROM [Trade].[ExchangeConfigurations]
+      WHERE ExchangeId = @commissionExchangeId
+    `);
+
+  return toCommissionSchedule(result.recordset[0]);
+}
+
+/**
+ * Build a commission schedule from ExchangeConfigurations columns, falling back to defaults
+ */
+export function toCommissionSchedule(
+  config: { Commission?: number | null; CommissionModel?: CommissionModel | null } | undefined
+): CommissionSchedule {
+  return {
+    model: config?.CommissionModel ?? DEFAULT_COMMISSION_SCHEDULE.model,
+    rate: config?.Commission ?? DEFAULT_COMMISSION_SCHEDULE.rate,
+  };
+}
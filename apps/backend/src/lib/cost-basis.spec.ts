@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyCostBasisFill,
+  applyFifoFill,
+  applyFill,
+  calculateLotAveragePrice,
+  reconcileLots,
+} from './cost-basis';
+
+describe('cost-basis', () => {
+  describe('applyFill', () => {
+    const flat = { quantity: 0, averagePrice: 0, realizedPnL: 0 };
+
+    it('should average the cost when adding to a position', () => {
+      const state = applyFill(applyFill(flat, 100, 10), 100, 12);
+      expect(state).toEqual({ quantity: 200, averagePrice: 11, realizedPnL: 0 });
+    });
+
+    it('should realize P&L when reducing a long and keep the average price', () => {
+      const state = applyFill({ quantity: 200, averagePrice: 11, realizedPnL: 0 }, -50, 15);
+      expect(state).toEqual({ quantity: 150, averagePrice: 11, realizedPnL: 200 });
+    });
+
+    it('should realize P&L when covering a short', () => {
+      const state = applyFill({ quantity: -100, averagePrice: 50, realizedPnL: 0 }, 100, 45);
+      expect(state).toEqual({ quantity: 0, averagePrice: 0, realizedPnL: 500 });
+    });
+
+    it('should open the new side at the fill price on a reversal', () => {
+      const state = applyFill({ quantity: 10, averagePrice: 100, realizedPnL: 5 }, -15, 90);
+      expect(state).toEqual({ quantity: -5, averagePrice: 90, realizedPnL: -95 });
+    });
+  });
+
+  describe('applyFifoFill', () => {
+    it('should close the oldest lots first', () => {
+      const result = applyFifoFill(
+        [{ quantity: 100, price: 10 }, { quantity: 100, price: 12 }],
+        -150,
+        15
+      );
+
+      expect(result).toEqual({
+        realizedPnL: 650, // 100 * 5 + 50 * 3
+        lots: [{ quantity: 50, price: 12 }],
+      });
+    });
+
+    it('should open a new lot when adding to a position', () => {
+      const result = applyFifoFill([{ quantity: -10, price: 50 }], -5, 48);
+
+      expect(result).toEqual({
+        realizedPnL: 0,
+        lots: [{ quantity: -10, price: 50 }, { quantity: -5, price: 48 }],
+      });
+    });
+
+    it('should open the remainder at the fill price on a reversal', () => {
+      const result = applyFifoFill([{ quantity: -10, price: 50 }], 15, 45);
+
+      expect(result).toEqual({
+        realizedPnL: 50,
+        lots: [{ quantity: 5, price: 45 }],
+      });
+    });
+
+    it('should avoid floating point drift on fractional prices', () => {
+      const result = applyFifoFill([{ quantity: 3, price: 0.1 }], -3, 0.3);
+
+      expect(result.realizedPnL).toBe(0.6);
+      expect(result.lots).toEqual([]);
+    });
+  });
+
+  describe('calculateLotAveragePrice', () => {
+    it('should weight lot prices by quantity', () => {
+      expect(calculateLotAveragePrice([{ quantity: -30, price: 10 }, { quantity: -10, price: 14 }])).toBe(11);
+    });
+
+    it('should return 0 with no open lots', () => {
+      expect(calculateLotAveragePrice([])).toBe(0);
+    });
+  });
+
+  describe('reconcileLots', () => {
+    it('should keep lots that add up to the position', () => {
+      const lots = [{ quantity: 5, price: 10 }, { quantity: 5, price: 11 }];
+      expect(reconcileLots(lots, { quantity: 10, averagePrice: 10.5 })).toBe(lots);
+    });
+
+    it('should replace missing or stale lots with the position at its average price', () => {
+      expect(reconcileLots([], { quantity: 20, averagePrice: 7 })).toEqual([{ quantity: 20, price: 7 }]);
+      expect(reconcileLots([{ quantity: 5, price: 10 }], { quantity: 0, averagePrice: 0 })).toEqual([]);
+    });
+  });
+
+  describe('applyCostBasisFill', () => {
+    const position = { quantity: 200, averagePrice: 11 };
+    const lots = [{ quantity: 100, price: 10 }, { quantity: 100, price: 12 }];
+
+    it('should realize against the average price under AVERAGE', () => {
+      expect(applyCostBasisFill('AVERAGE', position, lots, -100, 15)).toEqual({
+        quantity: 100,
+        averagePrice: 11,
+        realizedPnL: 400,
+        lots: [],
+      });
+    });
+
+    it('should realize against the oldest lots under FIFO and re-average the rest', () => {
+      expect(applyCostBasisFill('FIFO', position, lots, -100, 15)).toEqual({
+        quantity: 100,
+        averagePrice: 12,
+        realizedPnL: 500,
+        lots: [{ quantity: 100, price: 12 }],
+      });
+    });
+
+    it('should return only the P&L realized by the fill', () => {
+      const result = applyCostBasisFill('AVERAGE', { quantity: -10, averagePrice: 20 }, [], 10, 25);
+
+      expect(result).toMatchObject({ quantity: 0, averagePrice: 0, realizedPnL: -50 });
+    });
+  });
+});
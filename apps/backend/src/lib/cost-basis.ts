@@ -0,0 +1,214 @@
+import Decimal from 'decimal.js';
+import { CostBasisMethod } from '../types/exchange';
+
+/**
+ * Cost Basis Utilities
+ *
+ * Realized P&L and average price of a position after each fill
+ * Implements ADR-006: Decimal.js for all financial calculations
+ *
+ * Methods ([Trade].[ExchangeConfigurations].[CostBasisMethod]):
+ * - AVERAGE: Reducing fills realize (fill price - average price) on the closed quantity;
+ *   the average price only changes when adding to the position or reversing through zero
+ * - FIFO: Each opening fill is a lot ([Trade].[PositionLots]); reducing fills close the
+ *   oldest lots first and realize against each lot's own price. The position's average
+ *   price is the weighted average of its remaining lots.
+ *
+ * Realized P&L is price P&L only; commission is tracked separately on orders and executions.
+ */
+
+/**
+ * Method used when an exchange has no configuration row (matches the schema default)
+ */
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'AVERAGE';
+
+/**
+ * Running state of a position
+ */
+export interface PositionState {
+  quantity: number; // Negative for short positions
+  averagePrice: number;
+  realizedPnL: number;
+}
+
+/**
+ * An open FIFO lot (quantity is negative for short lots)
+ */
+export interface CostBasisLot {
+  quantity: number;
+  price: number;
+}
+
+/**
+ * Outcome of applying a fill under FIFO
+ */
+export interface FifoFillResult {
+  realizedPnL: number;
+  lots: CostBasisLot[]; // Open lots after the fill, oldest first
+}
+
+/**
+ * Apply a signed fill to an average-cost position
+ *
+ * A fill that crosses zero closes the old side and opens the new side at the fill price.
+ *
+ * @param state - Position before the fill
+ * @param quantityChange - Signed fill quantity (positive buys, negative sells)
+ * @param price - Fill price
+ */
+export function applyFill(state: PositionState, quantityChange: number, price: number): PositionState {
+  const quantity = new Decimal(state.quantity);
+  const change = new Decimal(quantityChange);
+  const newQuantity = quantity.plus(change);
+  const isReducing = !quantity.isZero() && quantity.isNegative() !== change.isNegative();
+
+  if (!isReducing) {
+    // Opening or adding: weighted average of existing and new quantity
+    const averagePrice = newQuantity.isZero()
+      ? new Decimal(0)
+      : quantity.times(state.averagePrice).plus(change.times(price)).dividedBy(newQuantity);
+
+    return {
+      quantity: newQuantity.toNumber(),
+      averagePrice: averagePrice.toNumber(),
+      realizedPnL: state.realizedPnL,
+    };
+  }
+
+  // Reducing: realize P&L on the closed quantity (signed by the side being closed)
+  const closedQuantity = Decimal.min(quantity.abs(), change.abs());
+  const direction = quantity.isNegative() ? -1 : 1;
+  const realized = new Decimal(price).minus(state.averagePrice).times(closedQuantity).times(direction);
+
+  let averagePrice = new Decimal(state.averagePrice);
+  if (newQuantity.isZero()) {
+    averagePrice = new Decimal(0);
+  } else if (newQuantity.isNegative() !== quantity.isNegative()) {
+    averagePrice = new Decimal(price);
+  }
+
+  return {
+    quantity: newQuantity.toNumber(),
+    averagePrice: averagePrice.toNumber(),
+    realizedPnL: new Decimal(state.realizedPnL).plus(realized).toNumber(),
+  };
+}
+
+/**
+ * Apply a signed fill to a position's FIFO lots
+ *
+ * @param lots - Open lots, oldest first (all on the same side)
+ * @param quantityChange - Signed fill quantity (positive buys, negative sells)
+ * @param price - Fill price
+ */
+export function applyFifoFill(lots: CostBasisLot[], quantityChange: number, price: number): FifoFillResult {
+  let remaining = new Decimal(quantityChange);
+  let realized = new Decimal(0);
+  const openLots: CostBasisLot[] = [];
+
+  for (const lot of lots) {
+    const lotQuantity = new Decimal(lot.quantity);
+
+    // Only fills on the opposite side of a lot close it
+    if (remaining.isZero() || lotQuantity.isNegative() === remaining.isNegative()) {
+      openLots.push(lot);
+      continue;
+    }
+
+    const closedQuantity = Decimal.min(lotQuantity.abs(), remaining.abs());
+    const direction = lotQuantity.isNegative() ? -1 : 1;
+    realized = realized.plus(new Decimal(price).minus(lot.price).times(closedQuantity).times(direction));
+    remaining = remaining.plus(closedQuantity.times(direction));
+
+    const lotRemaining = lotQuantity.minus(closedQuantity.times(direction));
+    if (!lotRemaining.isZero()) {
+      openLots.push({ quantity: lotRemaining.toNumber(), price: lot.price });
+    }
+  }
+
+  // Whatever the fill did not close opens a new lot at the fill price
+  if (!remaining.isZero()) {
+    openLots.push({ quantity: remaining.toNumber(), price });
+  }
+
+  return {
+    realizedPnL: realized.toNumber(),
+    lots: openLots,
+  };
+}
+
+/**
+ * Weighted average price of open lots (0 when there are none)
+ */
+export function calculateLotAveragePrice(lots: CostBasisLot[]): number {
+  const totalQuantity = lots.reduce((total, lot) => total.plus(lot.quantity), new Decimal(0));
+
+  if (totalQuantity.isZero()) {
+    return 0;
+  }
+
+  return lots
+    .reduce((total, lot) => total.plus(new Decimal(lot.quantity).times(lot.price)), new Decimal(0))
+    .dividedBy(totalQuantity)
+    .toNumber();
+}
+
+/**
+ * Lots to apply a FIFO fill against, reconciled with the position
+ *
+ * Positions traded while the exchange used AVERAGE have no lots (or stale ones); when the
+ * stored lots do not add up to the position, the position is treated as a single lot at
+ * its average price.
+ *
+ * @param lots - Stored open lots, oldest first
+ * @param position - Current position
+ */
+export function reconcileLots(
+  lots: CostBasisLot[],
+  position: Pick<PositionState, 'quantity' | 'averagePrice'>
+): CostBasisLot[] {
+  const lotQuantity = lots.reduce((total, lot) => total.plus(lot.quantity), new Decimal(0));
+
+  if (lotQuantity.equals(position.quantity)) {
+    return lots;
+  }
+
+  return new Decimal(position.quantity).isZero()
+    ? []
+    : [{ quantity: position.quantity, price: position.averagePrice }];
+}
+
+/**
+ * Position after a fill under the exchange's cost basis method
+ *
+ * @param method - Exchange cost basis method
+ * @param position - Position before the fill
+ * @param lots - Stored open lots, oldest first (ignored for AVERAGE)
+ * @param quantityChange - Signed fill quantity (positive buys, negative sells)
+ * @param price - Fill price
+ * @returns New quantity and average price, the P&L realized by this fill, and the open lots
+ *          to store (empty for AVERAGE)
+ */
+export function applyCostBasisFill(
+  method: CostBasisMethod,
+  position: Pick<PositionState, 'quantity' | 'averagePrice'>,
+  lots: CostBasisLot[],
+  quantityChange: number,
+  price: number
+): PositionState & { lots: CostBasisLot[] } {
+  if (method === 'FIFO') {
+    const result = applyFifoFill(reconcileLots(lots, position), quantityChange, price);
+
+    return {
+      quantity: new Decimal(position.quantity).plus(quantityChange).toNumber(),
+      averagePrice: calculateLotAveragePrice(result.lots),
+      realizedPnL: result.realizedPnL,
+      lots: result.lots,
+    };
+  }
+
+  return {
+    ...applyFill({ ...position, realizedPnL: 0 }, quantityChange, price),
+    lots: [],
+  };
+}
@@ -8,6 +8,9 @@ import {
   createForbiddenResponse,
   createNotFoundResponse,
   createInsufficientFundsResponse,
+  createInsufficientMarginResponse,
+  createTradingHaltedResponse,
+  createMarketClosedResponse,
   createServiceUnavailableResponse,
   createInternalErrorResponse,
   handleSqlError,
@@ -146,6 +149,50 @@ describe('error-handler', () => {
     });
   });
 
+  describe('createInsufficientMarginResponse', () => {
+    it('should create an insufficient margin response', () => {
+      const response = createInsufficientMarginResponse(
+        'Short requires initial margin $5,000, available $2,000.'
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.jsonBody).toMatchObject({
+        type: ErrorTypes.INSUFFICIENT_MARGIN,
+        title: ErrorTitles.INSUFFICIENT_MARGIN,
+        status: 400,
+        detail: 'Short requires initial margin $5,000, available $2,000.',
+      });
+    });
+  });
+
+  describe('createTradingHaltedResponse', () => {
+    it('should create a trading halted response', () => {
+      const response = createTradingHaltedResponse('Trading in AAPL is halted (LULD).');
+
+      expect(response.status).toBe(409);
+      expect(response.jsonBody).toMatchObject({
+        type: ErrorTypes.TRADING_HALTED,
+        title: ErrorTitles.TRADING_HALTED,
+        status: 409,
+        detail: 'Trading in AAPL is halted (LULD).',
+      });
+    });
+  });
+
+  describe('createMarketClosedResponse', () => {
+    it('should create a market closed response', () => {
+      const response = createMarketClosedResponse('The market is closed; orders are accepted from the pre-open.');
+
+      expect(response.status).toBe(409);
+      expect(response.jsonBody).toMatchObject({
+        type: ErrorTypes.MARKET_CLOSED,
+        title: ErrorTitles.MARKET_CLOSED,
+        status: 409,
+        detail: 'The market is closed; orders are accepted from the pre-open.',
+      });
+    });
+  });
+
   describe('createServiceUnavailableResponse', () => {
     it('should create a service unavailable response with default detail', () => {
       const response = createServiceUnavailableResponse();
@@ -143,6 +143,60 @@ export function createInsufficientFundsResponse(
   return createProblemDetailsResponse(problem);
 }
 
+/**
+ * Creates an insufficient margin error response
+ */
+export function createInsufficientMarginResponse(
+  detail: string,
+  instance?: string
+): HttpResponseInit {
+  const problem: ProblemDetails = {
+    type: ErrorTypes.INSUFFICIENT_MARGIN,
+    title: ErrorTitles.INSUFFICIENT_MARGIN,
+    status: 400,
+    detail,
+    instance,
+  };
+
+  return createProblemDetailsResponse(problem);
+}
+
+/**
+ * Creates a trading halted error response
+ */
+export function createTradingHaltedResponse(
+  detail: string,
+  instance?: string
+): HttpResponseInit {
+  const problem: ProblemDetails = {
+    type: ErrorTypes.TRADING_HALTED,
+    title: ErrorTitles.TRADING_HALTED,
+    status: 409,
+    detail,
+    instance,
+  };
+
+  return createProblemDetailsResponse(problem);
+}
+
+/**
+ * Creates a market closed error response
+ */
+export function createMarketClosedResponse(
+  detail: string,
+  instance?: string
+): HttpResponseInit {
+  const problem: ProblemDetails = {
+    type: ErrorTypes.MARKET_CLOSED,
+    title: ErrorTitles.MARKET_CLOSED,
+    status: 409,
+    detail,
+    instance,
+  };
+
+  return createProblemDetailsResponse(problem);
+}
+
 /**
  * Creates a service unavailable error response
  */
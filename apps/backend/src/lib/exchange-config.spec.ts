@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  Decimal: vi.fn(() => 'decimal'),
+  Money: vi.fn(() => 'money'),
+  NVarChar: vi.fn(() => 'nvarchar'),
+  Bit: vi.fn(() => 'bit'),
+  Int: vi.fn(() => 'int'),
+  MAX: 'max',
+}));
+
+import { DEFAULT_DASHBOARD_LAYOUT, ExchangeConfigRecord, applyExchangeConfigChanges, mapExchangeConfigRecord } from './exchange-config';
+
+describe('exchange-config', () => {
+  const record: ExchangeConfigRecord = {
+    VolatilityIndex: 1.5,
+    StartingCash: 5000000,
+    Commission: 2.5,
+    CommissionModel: 'FLAT',
+    AllowMargin: false,
+    MaxPortfolioSize: 20,
+    DashboardLayout: '["market-depth"]',
+    TickIntervalMs: 1000,
+    Volatility: 0.05,
+    MarketEngineEnabled: true,
+    PriceModel: 'MERTON',
+    Drift: 0.0001,
+    JumpIntensity: 0.02,
+    JumpMean: -0.05,
+    JumpVolatility: 0.1,
+    MeanReversion: 0.05,
+    MarketCorrelation: 0.3,
+    SectorCorrelation: 0.2,
+    SimulationSeed: 42,
+    LuldBand: 0.1,
+    LuldHaltSeconds: 300,
+    CircuitBreakerThreshold: null,
+    CircuitBreakerHaltSeconds: 900,
+    SessionTimeZone: 'America/New_York',
+    SessionOpenTime: '09:30',
+    SessionCloseTime: '16:00',
+    PreOpenMinutes: 30,
+    ClosingAuctionMinutes: 10,
+    SessionHolidays: '["2026-12-25"]',
+    MarketMakerSpreadBps: 10,
+  };
+
+  describe('mapExchangeConfigRecord', () => {
+    it('should map a record to ExchangeConfig', () => {
+      expect(mapExchangeConfigRecord(record)).toEqual({
+        initialAum: 5000000,
+        commissionBps: 2.5,
+        commissionModel: 'FLAT',
+        allowMargin: false,
+        volatilityIndex: 1.5,
+        dashboardLayout: ['market-depth'],
+        maxPortfolioSize: 20,
+        tickIntervalMs: 1000,
+        volatility: 0.05,
+        marketEngineEnabled: true,
+        priceModel: 'MERTON',
+        drift: 0.0001,
+        jumpIntensity: 0.02,
+        jumpMean: -0.05,
+        jumpVolatility: 0.1,
+        meanReversion: 0.05,
+        marketCorrelation: 0.3,
+        sectorCorrelation: 0.2,
+        simulationSeed: 42,
+        luldBand: 0.1,
+        luldHaltSeconds: 300,
+        circuitBreakerThreshold: null,
+        circuitBreakerHaltSeconds: 900,
+        sessionTimeZone: 'America/New_York',
+        sessionOpenTime: '09:30',
+        sessionCloseTime: '16:00',
+        preOpenMinutes: 30,
+        closingAuctionMinutes: 10,
+        sessionHolidays: ['2026-12-25'],
+        marketMakerSpreadBps: 10,
+      });
+    });
+
+    it('should fall back to the default layout when DashboardLayout is not JSON', () => {
+      const config = mapExchangeConfigRecord({ ...record, DashboardLayout: 'not-json' });
+
+      expect(config.dashboardLayout).toEqual(DEFAULT_DASHBOARD_LAYOUT);
+    });
+  });
+
+  describe('applyExchangeConfigChanges', () => {
+    let query: ReturnType<typeof vi.fn>;
+    let input: ReturnType<typeof vi.fn>;
+    let transaction: { request: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+
+      query = vi.fn();
+      input = vi.fn().mockReturnThis();
+      transaction = { request: vi.fn().mockReturnValue({ input, query }) };
+    });
+
+    it('should only set the columns that were sent', async () => {
+      query.mockResolvedValueOnce({ recordset: [record] });
+
+      const result = await applyExchangeConfigChanges(transaction as any, 'e1', {
+        initialAum: 5000000,
+        dashboardLayout: ['market-depth'],
+      });
+
+      expect(result).toBe(record);
+      const sqlText = query.mock.calls[0][0];
+      expect(sqlText).toContain('SET StartingCash = @configStartingCash, DashboardLayout = @configDashboardLayout');
+      expect(sqlText).not.toContain('VolatilityIndex =');
+      expect(sqlText).toContain('e.IsActive = 1');
+      expect(input).toHaveBeenCalledWith('configStartingCash', 'money', 5000000);
+      expect(input).toHaveBeenCalledWith('configDashboardLayout', 'nvarchar', '["market-depth"]');
+    });
+
+    it('should set price model parameters at their column precision', async () => {
+      query.mockResolvedValueOnce({ recordset: [record] });
+
+      await applyExchangeConfigChanges(transaction as any, 'e1', { priceModel: 'MERTON', jumpIntensity: 0.02 });
+
+      expect(query.mock.calls[0][0]).toContain('SET PriceModel = @configPriceModel, JumpIntensity = @configJumpIntensity');
+      expect(input).toHaveBeenCalledWith('configPriceModel', 'nvarchar', 'MERTON');
+      expect(input).toHaveBeenCalledWith('configJumpIntensity', 'decimal', 0.02);
+    });
+
+    it('should restart the seeded path when the simulation seed changes', async () => {
+      query.mockResolvedValueOnce({ recordset: [record] });
+
+      await applyExchangeConfigChanges(transaction as any, 'e1', { simulationSeed: 42 });
+
+      expect(query.mock.calls[0][0]).toContain('SET SimulationSeed = @configSimulationSeed, SimulationStep = 0');
+      expect(input).toHaveBeenCalledWith('configSimulationSeed', 'int', 42);
+    });
+
+    it('should restart the session cycle when the time zone changes', async () => {
+      query.mockResolvedValueOnce({ recordset: [record] });
+
+      await applyExchangeConfigChanges(transaction as any, 'e1', {
+        sessionTimeZone: 'Europe/London',
+        sessionHolidays: ['2026-12-25'],
+      });
+
+      expect(query.mock.calls[0][0]).toContain(
+        'SET SessionTimeZone = @configSessionTimeZone, SessionHolidays = @configSessionHolidays, SessionPhase = NULL'
+      );
+      expect(input).toHaveBeenCalledWith('configSessionHolidays', 'nvarchar', '["2026-12-25"]');
+    });
+
+    it('should return undefined when the exchange is missing or archived', async () => {
+      query.mockResolvedValueOnce({ recordset: [] });
+
+      expect(await applyExchangeConfigChanges(transaction as any, 'e1', { allowMargin: false })).toBeUndefined();
+    });
+  });
+});
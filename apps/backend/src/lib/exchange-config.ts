@@ -0,0 +1,209 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import { ExchangeConfig } from '@assetsim/shared/finance-models';
+import { CommissionModel, UpdateExchangeConfigRequest } from '../types/exchange';
+import { PriceModelType } from '../types/market-engine';
+
+/**
+ * Exchange Configuration Utilities
+ *
+ * Reads and writes [Trade].[ExchangeConfigurations] rows (ADR-021 exchange rules)
+ *
+ * Request fields use the ExchangeConfig names returned to clients; EXCHANGE_CONFIG_COLUMNS maps
+ * each one to its column so partial updates only touch the fields that were sent. Changing the
+ * simulation seed also resets SimulationStep, so the seeded path starts again, and changing the
+ * session time zone clears SessionPhase, so no auction runs on the first phase of the new schedule.
+ */
+
+/**
+ * Database record shape for [Trade].[ExchangeConfigurations]
+ */
+export interface ExchangeConfigRecord {
+  VolatilityIndex: number;
+  StartingCash: number;
+  Commission: number;
+  CommissionModel: CommissionModel;
+  AllowMargin: boolean;
+  MaxPortfolioSize: number;
+  DashboardLayout: string;
+  TickIntervalMs: number;
+  Volatility: number;
+  MarketEngineEnabled: boolean;
+  PriceModel: PriceModelType;
+  Drift: number;
+  JumpIntensity: number;
+  JumpMean: number;
+  JumpVolatility: number;
+  MeanReversion: number;
+  MarketCorrelation: number;
+  SectorCorrelation: number;
+  SimulationSeed: number | null;
+  LuldBand: number | null;
+  LuldHaltSeconds: number;
+  CircuitBreakerThreshold: number | null;
+  CircuitBreakerHaltSeconds: number;
+  SessionTimeZone: string | null;
+  SessionOpenTime: string;
+  SessionCloseTime: string;
+  PreOpenMinutes: number;
+  ClosingAuctionMinutes: number;
+  SessionHolidays: string;
+  MarketMakerSpreadBps: number;
+}
+
+/**
+ * Widgets shown when the stored DashboardLayout is not valid JSON
+ */
+export const DEFAULT_DASHBOARD_LAYOUT = ['market-status', 'holdings-blotter'];
+
+/**
+ * Column and SQL type for each updatable configuration field
+ * (types are resolved per request, matching the column precision)
+ */
+const EXCHANGE_CONFIG_COLUMNS: Record<
+  keyof UpdateExchangeConfigRequest,
+  { column: keyof ExchangeConfigRecord; type: () => sql.ISqlType }
+> = {
+  volatilityIndex: { column: 'VolatilityIndex', type: () => sql.Decimal(5, 2) },
+  initialAum: { column: 'StartingCash', type: () => sql.Money() },
+  commissionBps: { column: 'Commission', type: () => sql.Money() },
+  commissionModel: { column: 'CommissionModel', type: () => sql.NVarChar(10) },
+  allowMargin: { column: 'AllowMargin', type: () => sql.Bit() },
+  maxPortfolioSize: { column: 'MaxPortfolioSize', type: () => sql.Int() },
+  dashboardLayout: { column: 'DashboardLayout', type: () => sql.NVarChar(sql.MAX) },
+  tickIntervalMs: { column: 'TickIntervalMs', type: () => sql.Int() },
+  volatility: { column: 'Volatility', type: () => sql.Decimal(5, 4) },
+  marketEngineEnabled: { column: 'MarketEngineEnabled', type: () => sql.Bit() },
+  priceModel: { column: 'PriceModel', type: () => sql.NVarChar(10) },
+  drift: { column: 'Drift', type: () => sql.Decimal(9, 8) },
+  jumpIntensity: { column: 'JumpIntensity', type: () => sql.Decimal(5, 4) },
+  jumpMean: { column: 'JumpMean', type: () => sql.Decimal(5, 4) },
+  jumpVolatility: { column: 'JumpVolatility', type: () => sql.Decimal(5, 4) },
+  meanReversion: { column: 'MeanReversion', type: () => sql.Decimal(5, 4) },
+  marketCorrelation: { column: 'MarketCorrelation', type: () => sql.Decimal(5, 4) },
+  sectorCorrelation: { column: 'SectorCorrelation', type: () => sql.Decimal(5, 4) },
+  simulationSeed: { column: 'SimulationSeed', type: () => sql.Int() },
+  luldBand: { column: 'LuldBand', type: () => sql.Decimal(5, 4) },
+  luldHaltSeconds: { column: 'LuldHaltSeconds', type: () => sql.Int() },
+  circuitBreakerThreshold: { column: 'CircuitBreakerThreshold', type: () => sql.Decimal(5, 4) },
+  circuitBreakerHaltSeconds: { column: 'CircuitBreakerHaltSeconds', type: () => sql.Int() },
+  sessionTimeZone: { column: 'SessionTimeZone', type: () => sql.NVarChar(64) },
+  sessionOpenTime: { column: 'SessionOpenTime', type: () => sql.NVarChar(5) },
+  sessionCloseTime: { column: 'SessionCloseTime', type: () => sql.NVarChar(5) },
+  preOpenMinutes: { column: 'PreOpenMinutes', type: () => sql.Int() },
+  closingAuctionMinutes: { column: 'ClosingAuctionMinutes', type: () => sql.Int() },
+  sessionHolidays: { column: 'SessionHolidays', type: () => sql.NVarChar(sql.MAX) },
+  marketMakerSpreadBps: { column: 'MarketMakerSpreadBps', type: () => sql.Decimal(7, 2) },
+};
+
+const EXCHANGE_CONFIG_SELECT_COLUMNS = Object.values(EXCHANGE_CONFIG_COLUMNS)
+  .map(({ column }) => column);
+
+/**
+ * Map a database configuration record to the API response shape
+ *
+ * Uses Decimal.js for financial precision (ADR-006).
+ */
+export function mapExchangeConfigRecord(record: ExchangeConfigRecord): ExchangeConfig {
+  let dashboardLayout: string[];
+
+  try {
+    dashboardLayout = JSON.parse(record.DashboardLayout || '[]');
+  } catch {
+    dashboardLayout = DEFAULT_DASHBOARD_LAYOUT;
+  }
+
+  let sessionHolidays: string[];
+
+  try {
+    sessionHolidays = JSON.parse(record.SessionHolidays || '[]');
+  } catch {
+    sessionHolidays = [];
+  }
+
+  return {
+    initialAum: new Decimal(record.StartingCash).toNumber(),
+    commissionBps: new Decimal(record.Commission).toNumber(),
+    commissionModel: record.CommissionModel,
+    allowMargin: record.AllowMargin,
+    volatilityIndex: new Decimal(record.VolatilityIndex).toNumber(),
+    dashboardLayout,
+    maxPortfolioSize: record.MaxPortfolioSize,
+    tickIntervalMs: record.TickIntervalMs,
+    volatility: new Decimal(record.Volatility).toNumber(),
+    marketEngineEnabled: record.MarketEngineEnabled,
+    priceModel: record.PriceModel,
+    drift: new Decimal(record.Drift).toNumber(),
+    jumpIntensity: new Decimal(record.JumpIntensity).toNumber(),
+    jumpMean: new Decimal(record.JumpMean).toNumber(),
+    jumpVolatility: new Decimal(record.JumpVolatility).toNumber(),
+    meanReversion: new Decimal(record.MeanReversion).toNumber(),
+    marketCorrelation: new Decimal(record.MarketCorrelation).toNumber(),
+    sectorCorrelation: new Decimal(record.SectorCorrelation).toNumber(),
+    simulationSeed: record.SimulationSeed,
+    luldBand: record.LuldBand === null ? null : new Decimal(record.LuldBand).toNumber(),
+    luldHaltSeconds: record.LuldHaltSeconds,
+    circuitBreakerThreshold: record.CircuitBreakerThreshold === null
+      ? null
+      : new Decimal(record.CircuitBreakerThreshold).toNumber(),
+    circuitBreakerHaltSeconds: record.CircuitBreakerHaltSeconds,
+    sessionTimeZone: record.SessionTimeZone,
+    sessionOpenTime: record.SessionOpenTime,
+    sessionCloseTime: record.SessionCloseTime,
+    preOpenMinutes: record.PreOpenMinutes,
+    closingAuctionMinutes: record.ClosingAuctionMinutes,
+    sessionHolidays,
+    marketMakerSpreadBps: new Decimal(record.MarketMakerSpreadBps).toNumber(),
+  };
+}
+
+/**
+ * Apply a partial configuration update to an active exchange
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to update
+ * @param changes - Validated fields to change (undefined fields are left as they are)
+ * @returns The updated record, or undefined when the exchange does not exist or is archived
+ */
+export async function applyExchangeConfigChanges(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  changes: UpdateExchangeConfigRequest
+): Promise<ExchangeConfigRecord | undefined> {
+  const request = transaction.request()
+    .input('configExchangeId', sql.UniqueIdentifier, exchangeId);
+  const assignments: string[] = [];
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const { column, type } = EXCHANGE_CONFIG_COLUMNS[field as keyof UpdateExchangeConfigRequest];
+    const parameter = `config${column}`;
+
+    request.input(parameter, type(), Array.isArray(value) ? JSON.stringify(value) : value);
+    assignments.push(`${column} = @${parameter}`);
+  }
+
+  // A new (or cleared) seed replays its sequence from the first run
+  if (changes.simulationSeed !== undefined) {
+    assignments.push('SimulationStep = 0');
+  }
+
+  // A new (or cleared) time zone starts the session cycle again without running an auction
+  if (changes.sessionTimeZone !== undefined) {
+    assignments.push('SessionPhase = NULL');
+  }
+
+  const result = await request.query<ExchangeConfigRecord>(`
+    UPDATE ec
+    SET ${assignments.join(', ')}
+    OUTPUT ${EXCHANGE_CONFIG_SELECT_COLUMNS.map((column) => `INSERTED.${column}`).join(', ')}
+    FROM [Trade].[ExchangeConfigurations] ec
+    INNER JOIN [Trade].[Exchanges] e ON e.ExchangeId = ec.ExchangeId
+    WHERE ec.ExchangeId = @configExchangeId AND e.IsActive = 1
+  `);
+
+  return result.recordset[0];
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: 'nvarchar',
+  Decimal: vi.fn(() => 'decimal'),
+}));
+
+import {
+  delistInstrument,
+  isInstrumentListed,
+  listAllInstruments,
+  mapExchangeInstrumentRecord,
+} from './exchange-instruments';
+
+function mockTransaction(...results: unknown[]) {
+  const query = vi.fn();
+  results.forEach((result) => query.mockResolvedValueOnce(result));
+  const request = { input: vi.fn().mockReturnThis(), query };
+  return { transaction: { request: () => request } as any, request: request as any, query };
+}
+
+describe('exchange-instruments', () => {
+  describe('mapExchangeInstrumentRecord', () => {
+    it('should add listing details to the instrument response', () => {
+      expect(mapExchangeInstrumentRecord({
+        Symbol: 'BTC',
+        CompanyName: 'Bitcoin',
+        Sector: null,
+        AssetClass: 'CRYPTO',
+        BasePrice: 65000,
+        VolatilityMultiplier: 3,
+        TickSize: 0.5,
+        LotSize: 0.0001,
+        PriceModel: null,
+        Beta: 1.5,
+        ListedAt: '2026-01-02T00:00:00Z',
+        ListedBy: null,
+      })).toMatchObject({ symbol: 'BTC', tickSize: 0.5, listedAt: '2026-01-02T00:00:00Z', listedBy: null });
+    });
+  });
+
+  describe('isInstrumentListed', () => {
+    it('should require an active instrument listed on the exchange', async () => {
+      const { request, query } = mockTransaction({ recordset: [{ Listed: 1 }] });
+
+      expect(await isInstrumentListed(request, 'exchange-1', 'AAPL')).toBe(true);
+      expect(query.mock.calls[0][0]).toContain('l.ExchangeId = @listingExchangeId');
+      expect(query.mock.calls[0][0]).toContain('i.IsActive = 1');
+    });
+
+    it('should return false for unlisted symbols', async () => {
+      const { request } = mockTransaction({ recordset: [] });
+
+      expect(await isInstrumentListed(request, 'exchange-1', 'DELISTED')).toBe(false);
+    });
+  });
+
+  describe('listAllInstruments', () => {
+    it('should list every active instrument', async () => {
+      const { transaction, query } = mockTransaction({ rowsAffected: [10] });
+
+      expect(await listAllInstruments(transaction, 'exchange-1')).toBe(10);
+      expect(query.mock.calls[0][0]).toContain('WHERE IsActive = 1');
+    });
+  });
+
+  describe('delistInstrument', () => {
+    it('should cancel open orders for a delisted symbol', async () => {
+      const { transaction, query } = mockTransaction({ rowsAffected: [1] }, { rowsAffected: [3] });
+
+      expect(await delistInstrument(transaction, 'exchange-1', 'AAPL')).toEqual({ delisted: true, cancelledOrders: 3 });
+      expect(query.mock.calls[1][0]).toContain("Status IN ('PENDING', 'PARTIAL')");
+    });
+
+    it('should leave orders alone when the symbol was not listed', async () => {
+      const { transaction, query } = mockTransaction({ rowsAffected: [0] });
+
+      expect(await delistInstrument(transaction, 'exchange-1', 'AAPL')).toEqual({ delisted: false, cancelledOrders: 0 });
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
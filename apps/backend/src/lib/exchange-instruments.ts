@@ -0,0 +1,184 @@
+import * as sql from 'mssql';
+import { ExchangeInstrumentResponse } from '../types/instrument';
+import { InstrumentRecord, instrumentColumns, mapInstrumentRecord } from './instruments';
+
+/**
+ * Exchange Listing Utilities
+ *
+ * Reads and writes [Trade].[ExchangeInstruments], the symbols each exchange trades
+ *
+ * An exchange only accepts orders for, and only ticks, instruments listed on it that are
+ * still active in the instrument master. New exchanges list every active instrument; a
+ * RiskManager then lists or delists symbols. Delisting cancels the symbol's open orders,
+ * since they could never fill once the engine stops ticking it.
+ */
+
+/**
+ * Database record shape for a listing joined to its instrument
+ */
+export interface ExchangeInstrumentRecord extends InstrumentRecord {
+  ListedAt: string;
+  ListedBy: string | null;
+}
+
+const LISTING_COLUMNS = `${instrumentColumns('i.')}, l.ListedAt, l.ListedBy`;
+
+/**
+ * Map a listing record to the API response shape
+ */
+export function mapExchangeInstrumentRecord(record: ExchangeInstrumentRecord): ExchangeInstrumentResponse {
+  return {
+    ...mapInstrumentRecord(record),
+    listedAt: record.ListedAt,
+    listedBy: record.ListedBy,
+  };
+}
+
+/**
+ * Active instruments listed on an exchange, by symbol
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to read
+ */
+export async function getListedInstruments(
+  transaction: sql.Transaction,
+  exchangeId: string
+): Promise<ExchangeInstrumentRecord[]> {
+  const result = await transaction.request()
+    .input('listingExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<ExchangeInstrumentRecord>(`
+      SELECT ${LISTING_COLUMNS}
+      FROM [Trade].[ExchangeInstruments] l
+      INNER JOIN [Trade].[Instruments] i ON i.Symbol = l.Symbol
+      WHERE l.ExchangeId = @listingExchangeId AND i.IsActive = 1
+      ORDER BY i.Symbol
+    `);
+
+  return result.recordset;
+}
+
+/**
+ * Whether an active instrument is listed on an exchange
+ *
+ * @param request - Request with RLS session context set
+ * @param exchangeId - Exchange to check
+ * @param symbol - Symbol to check
+ */
+export async function isInstrumentListed(
+  request: sql.Request,
+  exchangeId: string,
+  symbol: string
+): Promise<boolean> {
+  const result = await request
+    .input('listingExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('listingSymbol', sql.NVarChar, symbol)
+    .query(`
+      SELECT 1 AS Listed
+      FROM [Trade].[ExchangeInstruments] l
+      INNER JOIN [Trade].[Instruments] i ON i.Symbol = l.Symbol
+      WHERE l.ExchangeId = @listingExchangeId AND l.Symbol = @listingSymbol AND i.IsActive = 1
+    `);
+
+  return result.recordset.length > 0;
+}
+
+/**
+ * List every active instrument on a new exchange
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange being created
+ * @returns Number of instruments listed
+ */
+export async function listAllInstruments(
+  transaction: sql.Transaction,
+  exchangeId: string
+): Promise<number> {
+  const result = await transaction.request()
+    .input('listingExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query(`
+      INSERT INTO [Trade].[ExchangeInstruments] (ExchangeId, Symbol)
+      SELECT @listingExchangeId, Symbol
+      FROM [Trade].[Instruments]
+      WHERE IsActive = 1
+    `);
+
+  return result.rowsAffected[0];
+}
+
+/**
+ * List an active instrument on an exchange (no-op when it is already listed)
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to update
+ * @param symbol - Symbol to list
+ * @param listedBy - Entra Object ID of the RiskManager
+ * @returns The listing, or undefined when the instrument does not exist or is archived
+ */
+export async function listInstrument(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  symbol: string,
+  listedBy: string
+): Promise<ExchangeInstrumentRecord | undefined> {
+  const result = await transaction.request()
+    .input('listingExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('listingSymbol', sql.NVarChar, symbol)
+    .input('listingListedBy', sql.UniqueIdentifier, listedBy)
+    .query<ExchangeInstrumentRecord>(`
+      MERGE [Trade].[ExchangeInstruments] WITH (HOLDLOCK) AS target
+      USING (
+        SELECT @listingExchangeId AS ExchangeId, Symbol
+        FROM [Trade].[Instruments]
+        WHERE Symbol = @listingSymbol AND IsActive = 1
+      ) AS source
+        ON target.ExchangeId = source.ExchangeId AND target.Symbol = source.Symbol
+      WHEN NOT MATCHED THEN
+        INSERT (ExchangeId, Symbol, ListedBy)
+        VALUES (source.ExchangeId, source.Symbol, @listingListedBy);
+
+      SELECT ${LISTING_COLUMNS}
+      FROM [Trade].[ExchangeInstruments] l
+      INNER JOIN [Trade].[Instruments] i ON i.Symbol = l.Symbol
+      WHERE l.ExchangeId = @listingExchangeId AND l.Symbol = @listingSymbol AND i.IsActive = 1;
+    `);
+
+  return result.recordset[0];
+}
+
+/**
+ * Delist a symbol and cancel its open orders on the exchange
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to update
+ * @param symbol - Symbol to delist
+ * @returns Whether a listing was removed, and how many open orders were cancelled
+ */
+export async function delistInstrument(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  symbol: string
+): Promise<{ delisted: boolean; cancelledOrders: number }> {
+  const deleteResult = await transaction.request()
+    .input('listingExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('listingSymbol', sql.NVarChar, symbol)
+    .query(`
+      DELETE FROM [Trade].[ExchangeInstruments]
+      WHERE ExchangeId = @listingExchangeId AND Symbol = @listingSymbol
+    `);
+
+  if (deleteResult.rowsAffected[0] === 0) {
+    return { delisted: false, cancelledOrders: 0 };
+  }
+
+  const cancelResult = await transaction.request()
+    .input('listingExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('listingSymbol', sql.NVarChar, symbol)
+    .query(`
+      UPDATE [Trade].[Orders]
+      SET Status = 'CANCELLED',
+          UpdatedAt = GETUTCDATE()
+      WHERE ExchangeId = @listingExchangeId AND Symbol = @listingSymbol AND Status IN ('PENDING', 'PARTIAL')
+    `);
+
+  return { delisted: true, cancelledOrders: cancelResult.rowsAffected[0] };
+}
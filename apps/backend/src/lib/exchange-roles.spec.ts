@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('./portfolio', () => ({
+  provisionPortfolio: vi.fn(),
+}));
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: vi.fn(() => 'nvarchar'),
+  MAX: 'max',
+}));
+
+import { countOtherRiskManagers, grantExchangeRole, revokeExchangeRoles } from './exchange-roles';
+import { provisionPortfolio } from './portfolio';
+
+describe('exchange-roles', () => {
+  let query: ReturnType<typeof vi.fn>;
+  let transaction: { request: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    query = vi.fn();
+    transaction = { request: vi.fn().mockReturnValue({ input: vi.fn().mockReturnThis(), query }) };
+  });
+
+  describe('grantExchangeRole', () => {
+    it('should provision a portfolio for a new PortfolioManager', async () => {
+      const provisioned = { status: 'CREATED' as const, portfolio: { PortfolioId: 'p1' } as any };
+      vi.mocked(provisionPortfolio).mockResolvedValue(provisioned);
+      query
+        .mockResolvedValueOnce({ recordset: [{ AssignedAt: '2026-01-19T10:00:00.000Z' }] })
+        .mockResolvedValueOnce({ recordset: [] });
+
+      const result = await grantExchangeRole(transaction as any, 'e1', 'u1', 'PortfolioManager');
+
+      expect(result).toEqual({ granted: true, assignedAt: '2026-01-19T10:00:00.000Z', portfolio: provisioned });
+      expect(provisionPortfolio).toHaveBeenCalledWith(transaction, 'e1', 'u1');
+    });
+
+    it('should not provision when the user already has a portfolio', async () => {
+      query
+        .mockResolvedValueOnce({ recordset: [{ AssignedAt: '2026-01-19T10:00:00.000Z' }] })
+        .mockResolvedValueOnce({ recordset: [{ PortfolioId: 'p1' }] });
+
+      const result = await grantExchangeRole(transaction as any, 'e1', 'u1', 'PortfolioManager');
+
+      expect(result).toEqual({ granted: true, assignedAt: '2026-01-19T10:00:00.000Z' });
+      expect(provisionPortfolio).not.toHaveBeenCalled();
+    });
+
+    it('should be a no-op when the role is already held', async () => {
+      query.mockResolvedValueOnce({ recordset: [] });
+
+      const result = await grantExchangeRole(transaction as any, 'e1', 'u1', 'PortfolioManager');
+
+      expect(result).toEqual({ granted: false });
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not provision portfolios for Analysts', async () => {
+      query.mockResolvedValueOnce({ recordset: [{ AssignedAt: '2026-01-19T10:00:00.000Z' }] });
+
+      await grantExchangeRole(transaction as any, 'e1', 'u1', 'Analyst');
+
+      expect(provisionPortfolio).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('countOtherRiskManagers', () => {
+    it('should count RiskManagers other than the member', async () => {
+      query.mockResolvedValueOnce({ recordset: [{ Total: 1 }] });
+
+      expect(await countOtherRiskManagers(transaction as any, 'e1', 'u1')).toBe(1);
+      expect(query.mock.calls[0][0]).toContain('UserId <> @riskUserId');
+    });
+  });
+
+  describe('revokeExchangeRoles', () => {
+    it('should delete the given roles', async () => {
+      query.mockResolvedValueOnce({ rowsAffected: [2] });
+
+      expect(await revokeExchangeRoles(transaction as any, 'e1', 'u1', ['RiskManager', 'Analyst'])).toBe(2);
+    });
+
+    it('should not query when there is nothing to revoke', async () => {
+      expect(await revokeExchangeRoles(transaction as any, 'e1', 'u1', [])).toBe(0);
+      expect(query).not.toHaveBeenCalled();
+    });
+  });
+});
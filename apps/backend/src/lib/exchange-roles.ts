@@ -0,0 +1,219 @@
+import * as sql from 'mssql';
+import { ExchangeRole, ExchangeRoleResponse } from '../types/exchange';
+import { ProvisionPortfolioResult, provisionPortfolio } from './portfolio';
+
+/**
+ * Exchange Role Utilities
+ *
+ * Reads and writes [Trade].[ExchangeRoles] memberships (ADR-002 RBAC)
+ *
+ * Granting PortfolioManager also provisions the user's first portfolio in the exchange,
+ * funded from StartingCash, so new traders can place orders straight away. An exchange
+ * must always keep at least one RiskManager; callers check countOtherRiskManagers before
+ * revoking the role.
+ */
+
+/**
+ * Database record shape for [Trade].[ExchangeRoles]
+ */
+export interface ExchangeRoleRecord {
+  ExchangeId: string;
+  UserId: string;
+  Role: ExchangeRole;
+  AssignedAt: string;
+}
+
+/**
+ * Outcome of granting a role
+ */
+export type GrantExchangeRoleResult =
+  | { granted: false } // The user already held the role
+  | {
+      granted: true;
+      assignedAt: string;
+      portfolio?: ProvisionPortfolioResult; // Set when a portfolio was provisioned (or could not be)
+    };
+
+/**
+ * Map a database role record to the API response shape
+ */
+export function mapExchangeRoleRecord(record: ExchangeRoleRecord): ExchangeRoleResponse {
+  return {
+    exchangeId: record.ExchangeId,
+    userId: record.UserId,
+    role: record.Role,
+    assignedAt: record.AssignedAt,
+  };
+}
+
+/**
+ * Roles a user holds in an exchange (empty when they are not a member)
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to check
+ * @param userId - Entra Object ID of the user
+ */
+export async function getExchangeRoles(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  userId: string
+): Promise<ExchangeRole[]> {
+  const result = await transaction.request()
+    .input('roleExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('roleUserId', sql.UniqueIdentifier, userId)
+    .query<{ Role: ExchangeRole }>(`
+      SELECT Role
+      FROM [Trade].[ExchangeRoles]
+      WHERE ExchangeId = @roleExchangeId AND UserId = @roleUserId
+    `);
+
+  return result.recordset.map((record) => record.Role);
+}
+
+/**
+ * A single role assignment (undefined when the user does not hold the role)
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to check
+ * @param userId - Entra Object ID of the user
+ * @param role - Role to look up
+ */
+export async function getExchangeRole(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  userId: string,
+  role: ExchangeRole
+): Promise<ExchangeRoleRecord | undefined> {
+  const result = await transaction.request()
+    .input('roleExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('roleUserId', sql.UniqueIdentifier, userId)
+    .input('roleName', sql.NVarChar, role)
+    .query<ExchangeRoleRecord>(`
+      SELECT ExchangeId, UserId, Role, AssignedAt
+      FROM [Trade].[ExchangeRoles]
+      WHERE ExchangeId = @roleExchangeId AND UserId = @roleUserId AND Role = @roleName
+    `);
+
+  return result.recordset[0];
+}
+
+/**
+ * Number of RiskManagers in an exchange other than the given user
+ *
+ * Locks the exchange's RiskManager rows (UPDLOCK, HOLDLOCK) for the rest of the transaction
+ * so two concurrent demotions cannot both see the other as the remaining RiskManager.
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to check
+ * @param userId - Entra Object ID of the member being demoted or removed
+ */
+export async function countOtherRiskManagers(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  userId: string
+): Promise<number> {
+  const result = await transaction.request()
+    .input('riskExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('riskUserId', sql.UniqueIdentifier, userId)
+    .query<{ Total: number }>(`
+      SELECT COUNT(*) AS Total
+      FROM [Trade].[ExchangeRoles] WITH (UPDLOCK, HOLDLOCK)
+      WHERE ExchangeId = @riskExchangeId AND Role = 'RiskManager' AND UserId <> @riskUserId
+    `);
+
+  return result.recordset[0].Total;
+}
+
+/**
+ * Grant a role to a user, provisioning a portfolio for new PortfolioManagers
+ *
+ * A portfolio is only provisioned when the user has none in the exchange. When the exchange
+ * has reached MaxPortfolioSize the role is still granted and the result reports LIMIT_REACHED.
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to grant the role in
+ * @param userId - Entra Object ID of the member
+ * @param role - Role to grant
+ */
+export async function grantExchangeRole(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  userId: string,
+  role: ExchangeRole
+): Promise<GrantExchangeRoleResult> {
+  const grantResult = await transaction.request()
+    .input('grantExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('grantUserId', sql.UniqueIdentifier, userId)
+    .input('grantRole', sql.NVarChar, role)
+    .query<{ AssignedAt: string }>(`
+      INSERT INTO [Trade].[ExchangeRoles] ([ExchangeId], [UserId], [Role])
+      OUTPUT INSERTED.[AssignedAt]
+      SELECT @grantExchangeId, @grantUserId, @grantRole
+      WHERE NOT EXISTS (
+        SELECT 1 FROM [Trade].[ExchangeRoles] WITH (UPDLOCK)
+        WHERE ExchangeId = @grantExchangeId AND UserId = @grantUserId AND Role = @grantRole
+      )
+    `);
+
+  if (grantResult.recordset.length === 0) {
+    return { granted: false };
+  }
+
+  const granted: GrantExchangeRoleResult = { granted: true, assignedAt: grantResult.recordset[0].AssignedAt };
+
+  if (role !== 'PortfolioManager') {
+    return granted;
+  }
+
+  const existingResult = await transaction.request()
+    .input('grantExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('grantUserId', sql.UniqueIdentifier, userId)
+    .query(`
+      SELECT TOP 1 PortfolioId
+      FROM [Trade].[Portfolios]
+      WHERE ExchangeId = @grantExchangeId AND UserId = @grantUserId
+    `);
+
+  if (existingResult.recordset.length > 0) {
+    return granted;
+  }
+
+  return {
+    ...granted,
+    portfolio: await provisionPortfolio(transaction, exchangeId, userId),
+  };
+}
+
+/**
+ * Revoke roles from a user
+ *
+ * Portfolios are kept so the member's trading history stays intact.
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to revoke the roles in
+ * @param userId - Entra Object ID of the member
+ * @param roles - Roles to revoke
+ * @returns Number of roles revoked
+ */
+export async function revokeExchangeRoles(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  userId: string,
+  roles: ExchangeRole[]
+): Promise<number> {
+  if (roles.length === 0) {
+    return 0;
+  }
+
+  const result = await transaction.request()
+    .input('revokeExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('revokeUserId', sql.UniqueIdentifier, userId)
+    .input('revokeRoles', sql.NVarChar(sql.MAX), JSON.stringify(roles))
+    .query(`
+      DELETE FROM [Trade].[ExchangeRoles]
+      WHERE ExchangeId = @revokeExchangeId AND UserId = @revokeUserId
+        AND Role IN (SELECT value FROM OPENJSON(@revokeRoles))
+    `);
+
+  return result.rowsAffected[0];
+}
@@ -0,0 +1,55 @@
+import * as sql from 'mssql';
+import { ExchangeResponse } from '../types/exchange';
+
+/**
+ * Exchange Utilities
+ *
+ * Reads [Trade].[Exchanges] records for the exchange CRUD endpoints
+ *
+ * Exchanges are never hard-deleted: archiving sets IsActive = 0, which stops the market
+ * engine and ticker generator for the venue while keeping its orders, executions and
+ * portfolios for audit. Archived exchanges are treated as not found by the API.
+ */
+
+/**
+ * Database record shape for [Trade].[Exchanges]
+ */
+export interface ExchangeRecord {
+  ExchangeId: string;
+  Name: string;
+  CreatedAt: string;
+  CreatedBy: string;
+}
+
+/**
+ * Map a database exchange record to the API response shape
+ */
+export function mapExchangeRecord(record: ExchangeRecord): ExchangeResponse {
+  return {
+    exchangeId: record.ExchangeId,
+    name: record.Name,
+    createdAt: record.CreatedAt,
+    createdBy: record.CreatedBy,
+  };
+}
+
+/**
+ * An active (not archived) exchange, or undefined when it does not exist or is archived
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to read
+ */
+export async function getActiveExchange(
+  transaction: sql.Transaction,
+  exchangeId: string
+): Promise<ExchangeRecord | undefined> {
+  const result = await transaction.request()
+    .input('activeExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<ExchangeRecord>(`
+      SELECT ExchangeId, Name, CreatedAt, CreatedBy
+      FROM [Trade].[Exchanges]
+      WHERE ExchangeId = @activeExchangeId AND IsActive = 1
+    `);
+
+  return result.recordset[0];
+}
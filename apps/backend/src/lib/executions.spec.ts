@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  executionColumns,
+  ExecutionRecord,
+  mapExecutionRecord,
+  recordExecution,
+} from './executions';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: 'nvarchar',
+  Decimal: vi.fn(() => 'decimal'),
+}));
+
+describe('executions', () => {
+  const record: ExecutionRecord = {
+    ExecutionId: 'execution-1',
+    OrderId: 'order-1',
+    ExchangeId: 'exchange-1',
+    PortfolioId: 'portfolio-1',
+    Symbol: 'AAPL',
+    Side: 'BUY',
+    Quantity: 250,
+    Price: 150.25,
+    Commission: 0,
+    ExecutedAt: '2026-01-19T00:00:05.000Z',
+  };
+
+  describe('executionColumns', () => {
+    it('should qualify columns with the given prefix', () => {
+      expect(executionColumns('INSERTED')).toContain('INSERTED.[ExecutionId]');
+      expect(executionColumns()).toMatch(/^\[ExecutionId\], /);
+    });
+  });
+
+  describe('mapExecutionRecord', () => {
+    it('should map database columns to the API response', () => {
+      expect(mapExecutionRecord(record)).toEqual({
+        executionId: 'execution-1',
+        orderId: 'order-1',
+        exchangeId: 'exchange-1',
+        portfolioId: 'portfolio-1',
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 250,
+        price: 150.25,
+        commission: 0,
+        executedAt: '2026-01-19T00:00:05.000Z',
+      });
+    });
+  });
+
+  describe('recordExecution', () => {
+    it('should insert the fill and return the stored row', async () => {
+      const input = vi.fn().mockReturnThis();
+      const query = vi.fn().mockResolvedValue({ recordset: [record] });
+      const request = { input, query } as any;
+
+      const result = await recordExecution(request, {
+        orderId: 'order-1',
+        exchangeId: 'exchange-1',
+        portfolioId: 'portfolio-1',
+        symbol: 'AAPL',
+        side: 'BUY',
+        quantity: 250,
+        price: 150.25,
+        commission: 0,
+      });
+
+      expect(result).toBe(record);
+      expect(input).toHaveBeenCalledWith('executionQuantity', 'decimal', 250);
+      expect(input).toHaveBeenCalledWith('executionPrice', 'decimal', 150.25);
+      expect(query.mock.calls[0][0]).toContain('INSERT INTO [Trade].[Executions]');
+    });
+  });
+});
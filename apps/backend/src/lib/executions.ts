@@ -0,0 +1,114 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import { ExecutionResponse, OrderSide } from '../types/transaction';
+
+/**
+ * Execution Utilities
+ *
+ * Shared helpers for the [Trade].[Executions] fill ledger
+ * Implements ADR-006: Decimal.js for all financial calculations
+ */
+
+/**
+ * Database record shape for [Trade].[Executions]
+ */
+export interface ExecutionRecord {
+  ExecutionId: string;
+  OrderId: string;
+  ExchangeId: string;
+  PortfolioId: string;
+  Symbol: string;
+  Side: OrderSide;
+  Quantity: number;
+  Price: number;
+  Commission: number;
+  ExecutedAt: string;
+}
+
+/**
+ * A single fill to append to the ledger
+ */
+export interface NewExecution {
+  orderId: string;
+  exchangeId: string;
+  portfolioId: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  commission: number;
+}
+
+/**
+ * Column list matching ExecutionRecord, for SELECT and OUTPUT clauses
+ *
+ * @param prefix - Table alias or pseudo-table (e.g. INSERTED) to qualify columns with
+ */
+export function executionColumns(prefix?: string): string {
+  const qualifier = prefix ? `${prefix}.` : '';
+  return [
+    'ExecutionId',
+    'OrderId',
+    'ExchangeId',
+    'PortfolioId',
+    'Symbol',
+    'Side',
+    'Quantity',
+    'Price',
+    'Commission',
+    'ExecutedAt',
+  ]
+    .map((column) => `${qualifier}[${column}]`)
+    .join(', ');
+}
+
+/**
+ * Map an execution database record to the API response shape (ADR-006)
+ */
+export function mapExecutionRecord(execution: ExecutionRecord): ExecutionResponse {
+  return {
+    executionId: execution.ExecutionId,
+    orderId: execution.OrderId,
+    exchangeId: execution.ExchangeId,
+    portfolioId: execution.PortfolioId,
+    symbol: execution.Symbol,
+    side: execution.Side,
+    quantity: new Decimal(execution.Quantity).toNumber(),
+    price: new Decimal(execution.Price).toNumber(),
+    commission: new Decimal(execution.Commission || 0).toNumber(),
+    executedAt: execution.ExecutedAt,
+  };
+}
+
+/**
+ * Append a fill to the executions ledger
+ *
+ * Must be called with a request bound to the same transaction that updates the order,
+ * position and cash balance, so the ledger never disagrees with them.
+ *
+ * @param request - Request bound to the fill's transaction
+ * @param execution - Fill to record
+ */
+export async function recordExecution(
+  request: sql.Request,
+  execution: NewExecution
+): Promise<ExecutionRecord> {
+  const result = await request
+    .input('executionOrderId', sql.UniqueIdentifier, execution.orderId)
+    .input('executionExchangeId', sql.UniqueIdentifier, execution.exchangeId)
+    .input('executionPortfolioId', sql.UniqueIdentifier, execution.portfolioId)
+    .input('executionSymbol', sql.NVarChar, execution.symbol)
+    .input('executionSide', sql.NVarChar, execution.side)
+    .input('executionQuantity', sql.Decimal(18, 8), execution.quantity)
+    .input('executionPrice', sql.Decimal(18, 8), execution.price)
+    .input('executionCommission', sql.Decimal(18, 8), execution.commission)
+    .query<ExecutionRecord>(`
+      INSERT INTO [Trade].[Executions]
+      ([OrderId], [ExchangeId], [PortfolioId], [Symbol], [Side], [Quantity], [Price], [Commission])
+      OUTPUT ${executionColumns('INSERTED')}
+      VALUES (@executionOrderId, @executionExchangeId, @executionPortfolioId, @executionSymbol,
+              @executionSide, @executionQuantity, @executionPrice, @executionCommission)
+    `);
+
+  return result.recordset[0];
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: 'nvarchar',
+  Bit: 'bit',
+  TinyInt: 'tinyint',
+}));
+
+import {
+  FEATURE_FLAG_REGISTRY,
+  FeatureFlagRecord,
+  buildFeatureFlagList,
+  evaluateFeatureFlag,
+  getDefaultFeatureFlags,
+  getRolloutBucket,
+  isKnownFeatureFlag,
+  mapFeatureFlag,
+  resolveFeatureFlags,
+  setFeatureFlag,
+} from './feature-flags';
+
+const userIds = Array.from({ length: 1000 }, (_, i) => `00000000-0000-4000-8000-${i.toString(16).padStart(12, '0')}`);
+
+function override(fields: Partial<FeatureFlagRecord>): FeatureFlagRecord {
+  return {
+    FeatureName: 'advanced-charts',
+    IsEnabled: true,
+    RolloutPercentage: null,
+    TargetRoles: null,
+    TargetUserIds: null,
+    UpdatedAt: '2026-02-01T00:00:00Z',
+    ...fields,
+  };
+}
+
+describe('feature-flags', () => {
+  describe('getDefaultFeatureFlags', () => {
+    it('should return every registry flag with its default', () => {
+      const defaults = getDefaultFeatureFlags();
+
+      expect(Object.keys(defaults)).toEqual(Object.keys(FEATURE_FLAG_REGISTRY));
+      expect(defaults['real-time-data']).toBe(true);
+      expect(defaults['margin-trading']).toBe(false);
+    });
+  });
+
+  describe('isKnownFeatureFlag', () => {
+    it('should only accept registry names', () => {
+      expect(isKnownFeatureFlag('advanced-charts')).toBe(true);
+      expect(isKnownFeatureFlag('enableAdvancedCharts')).toBe(false);
+      expect(isKnownFeatureFlag('toString')).toBe(false);
+    });
+  });
+
+  describe('mapFeatureFlag', () => {
+    it('should fall back to the registry default when no override is stored', () => {
+      expect(mapFeatureFlag('real-time-data')).toEqual({
+        featureName: 'real-time-data',
+        description: FEATURE_FLAG_REGISTRY['real-time-data'].description,
+        defaultEnabled: true,
+        isEnabled: true,
+        isOverridden: false,
+      });
+    });
+  });
+
+  describe('buildFeatureFlagList', () => {
+    it('should list registry flags before unknown overrides', () => {
+      const flags = buildFeatureFlagList([
+        override({ FeatureName: 'legacy-flag', IsEnabled: true }),
+        override({ FeatureName: 'real-time-data', IsEnabled: false }),
+      ]);
+
+      expect(flags.map((flag) => flag.featureName)).toEqual([
+        'advanced-charts',
+        'margin-trading',
+        'real-time-data',
+        'legacy-flag',
+      ]);
+      expect(flags[2]).toMatchObject({ isEnabled: false, isOverridden: true });
+    });
+  });
+
+  describe('getRolloutBucket', () => {
+    it('should be deterministic and case-insensitive in the user ID', () => {
+      const bucket = getRolloutBucket('advanced-charts', 'ABCDEF00-0000-4000-8000-000000000001');
+
+      expect(bucket).toBe(getRolloutBucket('advanced-charts', 'abcdef00-0000-4000-8000-000000000001'));
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(100);
+    });
+
+    it('should spread users roughly evenly across buckets', () => {
+      const inLowerHalf = userIds.filter((userId) => getRolloutBucket('advanced-charts', userId) < 50).length;
+
+      expect(inLowerHalf).toBeGreaterThan(430);
+      expect(inLowerHalf).toBeLessThan(570);
+    });
+  });
+
+  describe('evaluateFeatureFlag', () => {
+    const subject = { userId: userIds[0], roles: ['Analyst'] };
+
+    it('should follow IsEnabled when there is no targeting', () => {
+      expect(evaluateFeatureFlag(override({}), subject)).toBe(true);
+      expect(evaluateFeatureFlag(override({ IsEnabled: false }), subject)).toBe(false);
+    });
+
+    it('should keep a disabled flag off for targeted users', () => {
+      const record = override({ IsEnabled: false, TargetUserIds: JSON.stringify([subject.userId]) });
+
+      expect(evaluateFeatureFlag(record, subject)).toBe(false);
+    });
+
+    it('should only enable the flag for target roles', () => {
+      const record = override({ TargetRoles: '["PortfolioManager","RiskManager"]' });
+
+      expect(evaluateFeatureFlag(record, subject)).toBe(false);
+      expect(evaluateFeatureFlag(record, { ...subject, roles: ['Analyst', 'PortfolioManager'] })).toBe(true);
+    });
+
+    it('should enable the flag for target users regardless of role and rollout', () => {
+      const record = override({
+        RolloutPercentage: 0,
+        TargetRoles: '["RiskManager"]',
+        TargetUserIds: JSON.stringify([subject.userId.toUpperCase()]),
+      });
+
+      expect(evaluateFeatureFlag(record, subject)).toBe(true);
+      expect(evaluateFeatureFlag(record, { userId: userIds[1], roles: ['Analyst'] })).toBe(false);
+    });
+
+    it('should roll out to the requested share of users', () => {
+      const record = override({ RolloutPercentage: 20 });
+      const enabled = userIds.filter((userId) => evaluateFeatureFlag(record, { userId, roles: [] })).length;
+
+      expect(enabled).toBeGreaterThan(150);
+      expect(enabled).toBeLessThan(250);
+    });
+
+    it('should keep users enabled as the rollout grows', () => {
+      const at20 = userIds.filter((userId) => evaluateFeatureFlag(override({ RolloutPercentage: 20 }), { userId, roles: [] }));
+      const at50 = userIds.filter((userId) => evaluateFeatureFlag(override({ RolloutPercentage: 50 }), { userId, roles: [] }));
+
+      expect(at20.every((userId) => at50.includes(userId))).toBe(true);
+    });
+
+    it('should apply the rollout within the target roles', () => {
+      const record = override({ RolloutPercentage: 0, TargetRoles: '["Analyst"]' });
+
+      expect(evaluateFeatureFlag(record, subject)).toBe(false);
+      expect(evaluateFeatureFlag(override({ RolloutPercentage: 100, TargetRoles: '["Analyst"]' }), subject)).toBe(true);
+    });
+
+    it('should ignore malformed targeting JSON', () => {
+      expect(evaluateFeatureFlag(override({ TargetRoles: 'not json' }), subject)).toBe(true);
+    });
+  });
+
+  describe('resolveFeatureFlags', () => {
+    it('should resolve overrides for the caller on top of the registry defaults', () => {
+      const flags = resolveFeatureFlags(
+        [override({ FeatureName: 'margin-trading', TargetRoles: '["PortfolioManager"]' })],
+        { userId: userIds[0], roles: ['PortfolioManager'] }
+      );
+
+      expect(flags).toEqual({ 'advanced-charts': false, 'margin-trading': true, 'real-time-data': true });
+    });
+  });
+
+  describe('mapFeatureFlag targeting', () => {
+    it('should return targeting stored on the override', () => {
+      const response = mapFeatureFlag('margin-trading', override({
+        FeatureName: 'margin-trading',
+        RolloutPercentage: 10,
+        TargetRoles: '["PortfolioManager"]',
+      }));
+
+      expect(response).toMatchObject({ rolloutPercentage: 10, targetRoles: ['PortfolioManager'], isOverridden: true });
+      expect(response.targetUserIds).toBeUndefined();
+    });
+  });
+
+  describe('setFeatureFlag', () => {
+    it('should upsert the override and return the stored row', async () => {
+      const stored = override({ TargetRoles: '["Analyst"]' });
+      const mockInput = vi.fn().mockReturnThis();
+      const mockQuery = vi.fn().mockResolvedValue({ recordset: [stored] });
+      const transaction = { request: vi.fn().mockReturnValue({ input: mockInput, query: mockQuery }) };
+
+      const result = await setFeatureFlag(transaction as any, 'exchange-1', 'advanced-charts', {
+        isEnabled: true,
+        targetRoles: ['Analyst'],
+      });
+
+      expect(result).toEqual(stored);
+      expect(mockInput).toHaveBeenCalledWith('flagEnabled', 'bit', true);
+      expect(mockInput).toHaveBeenCalledWith('flagTargetRoles', 'nvarchar', '["Analyst"]');
+      expect(mockInput).toHaveBeenCalledWith('flagTargetUserIds', 'nvarchar', null);
+      expect(mockInput).toHaveBeenCalledWith('flagRollout', 'tinyint', null);
+      expect(mockQuery.mock.calls[0][0]).toContain('MERGE [Trade].[ExchangeFeatureFlags]');
+    });
+  });
+});
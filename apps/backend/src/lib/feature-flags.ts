@@ -0,0 +1,301 @@
+import * as sql from 'mssql';
+import { ExchangeFeatureFlags } from '@assetsim/shared/finance-models';
+import { ExchangeFeatureFlagResponse, ExchangeRole, SetFeatureFlagRequest } from '../types/exchange';
+
+/**
+ * Feature Flag Utilities
+ *
+ * Reads and writes [Trade].[ExchangeFeatureFlags] overrides (ADR-021 Feature Flag Engine)
+ *
+ * FEATURE_FLAG_REGISTRY lists the flags the platform knows about with their defaults. An
+ * exchange only stores a row when a RiskManager overrides a default; deleting the row
+ * reverts the flag to its default. Rows for names outside the registry are still returned
+ * so legacy overrides stay visible and can be cleaned up.
+ *
+ * An override can narrow an enabled flag to target roles or user IDs and to a percentage
+ * of users. getExchangeRules resolves each flag for the caller with evaluateFeatureFlag, so
+ * clients only ever see booleans. Rollout buckets hash the flag name with the user ID, so
+ * a user stays in (or out of) a rollout as the percentage grows, and different flags pick
+ * different cohorts.
+ */
+
+/**
+ * A known feature flag
+ */
+export interface FeatureFlagDefinition {
+  description: string;
+  defaultEnabled: boolean;
+}
+
+/**
+ * Known feature flags, keyed by the name clients pass to FeatureService.isEnabled()
+ */
+export const FEATURE_FLAG_REGISTRY: Record<string, FeatureFlagDefinition> = {
+  'advanced-charts': {
+    description: 'Technical indicators and drawing tools on price charts',
+    defaultEnabled: false,
+  },
+  'margin-trading': {
+    description: 'Margin and short selling controls in the order entry ticket',
+    defaultEnabled: false,
+  },
+  'real-time-data': {
+    description: 'Streaming SignalR quotes instead of polling',
+    defaultEnabled: true,
+  },
+};
+
+/**
+ * Database record shape for [Trade].[ExchangeFeatureFlags]
+ */
+export interface FeatureFlagRecord {
+  FeatureName: string;
+  IsEnabled: boolean;
+  RolloutPercentage: number | null;
+  TargetRoles: string | null; // JSON array of ExchangeRole
+  TargetUserIds: string | null; // JSON array of Entra Object IDs
+  UpdatedAt: string;
+}
+
+/**
+ * The caller a flag is resolved for
+ */
+export interface FeatureFlagSubject {
+  userId: string;
+  roles: string[];
+}
+
+/**
+ * Parse a JSON array column (NULL or malformed JSON means no targeting)
+ */
+function parseTargetList<T extends string>(value: string | null): T[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Rollout bucket (0-99) for a user and flag
+ *
+ * 32-bit FNV-1a over "featureName:userId", so the bucket is stable across requests and
+ * instances without storing assignments.
+ */
+export function getRolloutBucket(featureName: string, userId: string): number {
+  let hash = 0x811c9dc5;
+
+  for (const char of `${featureName}:${userId.toLowerCase()}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash % 100;
+}
+
+/**
+ * Resolve a stored override for one caller
+ *
+ * 1. A disabled flag is off for everyone
+ * 2. A user listed in TargetUserIds gets the flag regardless of the rollout
+ * 3. When targeting is set, other users need one of TargetRoles
+ * 4. Users left in scope get the flag when their bucket is below RolloutPercentage (NULL = 100)
+ */
+export function evaluateFeatureFlag(record: FeatureFlagRecord, subject: FeatureFlagSubject): boolean {
+  if (!record.IsEnabled) {
+    return false;
+  }
+
+  const targetUserIds = parseTargetList(record.TargetUserIds).map((userId) => userId.toLowerCase());
+  const targetRoles = parseTargetList(record.TargetRoles);
+
+  if (targetUserIds.includes(subject.userId.toLowerCase())) {
+    return true;
+  }
+
+  if ((targetRoles.length > 0 || targetUserIds.length > 0)
+    && !targetRoles.some((role) => subject.roles.includes(role))) {
+    return false;
+  }
+
+  if (record.RolloutPercentage === null || record.RolloutPercentage === undefined) {
+    return true;
+  }
+
+  return getRolloutBucket(record.FeatureName, subject.userId) < record.RolloutPercentage;
+}
+
+/**
+ * Registry defaults with the exchange's overrides resolved for one caller
+ */
+export function resolveFeatureFlags(records: FeatureFlagRecord[], subject: FeatureFlagSubject): ExchangeFeatureFlags {
+  const flags = getDefaultFeatureFlags();
+
+  for (const record of records) {
+    flags[record.FeatureName] = evaluateFeatureFlag(record, subject);
+  }
+
+  return flags;
+}
+
+/**
+ * Whether a flag name is in the registry
+ */
+export function isKnownFeatureFlag(featureName: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FEATURE_FLAG_REGISTRY, featureName);
+}
+
+/**
+ * Registry defaults as flag key-value pairs
+ */
+export function getDefaultFeatureFlags(): ExchangeFeatureFlags {
+  return Object.fromEntries(
+    Object.entries(FEATURE_FLAG_REGISTRY).map(([featureName, definition]) => [featureName, definition.defaultEnabled])
+  );
+}
+
+/**
+ * Map a flag to the API response shape (record is undefined when the default applies)
+ */
+export function mapFeatureFlag(featureName: string, record?: FeatureFlagRecord): ExchangeFeatureFlagResponse {
+  const definition = FEATURE_FLAG_REGISTRY[featureName];
+  const response: ExchangeFeatureFlagResponse = {
+    featureName,
+    isEnabled: record ? record.IsEnabled : definition?.defaultEnabled ?? false,
+    isOverridden: record !== undefined,
+  };
+
+  if (definition) {
+    response.description = definition.description;
+    response.defaultEnabled = definition.defaultEnabled;
+  }
+
+  if (record) {
+    const targetRoles = parseTargetList<ExchangeRole>(record.TargetRoles);
+    const targetUserIds = parseTargetList(record.TargetUserIds);
+
+    if (record.RolloutPercentage !== null && record.RolloutPercentage !== undefined) {
+      response.rolloutPercentage = record.RolloutPercentage;
+    }
+    if (targetRoles.length > 0) {
+      response.targetRoles = targetRoles;
+    }
+    if (targetUserIds.length > 0) {
+      response.targetUserIds = targetUserIds;
+    }
+    response.updatedAt = record.UpdatedAt;
+  }
+
+  return response;
+}
+
+/**
+ * Every registry flag plus any stored override, registry flags first
+ */
+export function buildFeatureFlagList(records: FeatureFlagRecord[]): ExchangeFeatureFlagResponse[] {
+  const overrides = new Map(records.map((record) => [record.FeatureName, record]));
+  const registryFlags = Object.keys(FEATURE_FLAG_REGISTRY)
+    .map((featureName) => mapFeatureFlag(featureName, overrides.get(featureName)));
+  const unknownFlags = records
+    .filter((record) => !isKnownFeatureFlag(record.FeatureName))
+    .map((record) => mapFeatureFlag(record.FeatureName, record));
+
+  return [...registryFlags, ...unknownFlags];
+}
+
+/**
+ * Stored overrides for an exchange, by name
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to read
+ */
+export async function getFeatureFlagRecords(
+  transaction: sql.Transaction,
+  exchangeId: string
+): Promise<FeatureFlagRecord[]> {
+  const result = await transaction.request()
+    .input('flagExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<FeatureFlagRecord>(`
+      SELECT FeatureName, IsEnabled, RolloutPercentage, TargetRoles, TargetUserIds, UpdatedAt
+      FROM [Trade].[ExchangeFeatureFlags]
+      WHERE ExchangeId = @flagExchangeId
+      ORDER BY FeatureName
+    `);
+
+  return result.recordset;
+}
+
+/**
+ * Insert or replace an override
+ *
+ * Targeting omitted from the request is cleared, so the stored row always matches the
+ * last request.
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to update
+ * @param featureName - Flag to set
+ * @param flag - Validated value and targeting
+ * @returns The stored override
+ */
+export async function setFeatureFlag(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  featureName: string,
+  flag: SetFeatureFlagRequest
+): Promise<FeatureFlagRecord> {
+  const result = await transaction.request()
+    .input('flagExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('flagName', sql.NVarChar, featureName)
+    .input('flagEnabled', sql.Bit, flag.isEnabled)
+    .input('flagRollout', sql.TinyInt, flag.rolloutPercentage ?? null)
+    .input('flagTargetRoles', sql.NVarChar, flag.targetRoles?.length ? JSON.stringify(flag.targetRoles) : null)
+    .input('flagTargetUserIds', sql.NVarChar, flag.targetUserIds?.length ? JSON.stringify(flag.targetUserIds) : null)
+    .query<FeatureFlagRecord>(`
+      MERGE [Trade].[ExchangeFeatureFlags] WITH (HOLDLOCK) AS target
+      USING (SELECT @flagExchangeId AS ExchangeId, @flagName AS FeatureName) AS source
+        ON target.ExchangeId = source.ExchangeId AND target.FeatureName = source.FeatureName
+      WHEN MATCHED THEN
+        UPDATE SET
+          IsEnabled = @flagEnabled,
+          RolloutPercentage = @flagRollout,
+          TargetRoles = @flagTargetRoles,
+          TargetUserIds = @flagTargetUserIds,
+          UpdatedAt = SYSDATETIMEOFFSET()
+      WHEN NOT MATCHED THEN
+        INSERT (ExchangeId, FeatureName, IsEnabled, RolloutPercentage, TargetRoles, TargetUserIds)
+        VALUES (@flagExchangeId, @flagName, @flagEnabled, @flagRollout, @flagTargetRoles, @flagTargetUserIds)
+      OUTPUT INSERTED.FeatureName, INSERTED.IsEnabled, INSERTED.RolloutPercentage,
+        INSERTED.TargetRoles, INSERTED.TargetUserIds, INSERTED.UpdatedAt;
+    `);
+
+  return result.recordset[0];
+}
+
+/**
+ * Delete an override so the flag reverts to its default
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to update
+ * @param featureName - Flag to reset
+ * @returns Number of overrides deleted (0 when the default already applied)
+ */
+export async function deleteFeatureFlag(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  featureName: string
+): Promise<number> {
+  const result = await transaction.request()
+    .input('flagExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('flagName', sql.NVarChar, featureName)
+    .query(`
+      DELETE FROM [Trade].[ExchangeFeatureFlags]
+      WHERE ExchangeId = @flagExchangeId AND FeatureName = @flagName
+    `);
+
+  return result.rowsAffected[0];
+}
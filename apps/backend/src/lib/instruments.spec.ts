@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('mssql', () => ({
+  NVarChar: vi.fn(() => 'nvarchar'),
+  Decimal: vi.fn(() => 'decimal'),
+}));
+
+import {
+  InstrumentRecord,
+  applyInstrumentChanges,
+  createInstrument,
+  instrumentColumns,
+  mapInstrumentRecord,
+  roundToLot,
+  roundToTick,
+} from './instruments';
+
+const record: InstrumentRecord = {
+  Symbol: 'EURUSD',
+  CompanyName: 'Euro / US Dollar',
+  Sector: null,
+  AssetClass: 'FX',
+  BasePrice: 1.0845,
+  VolatilityMultiplier: 0.5,
+  TickSize: 0.0001,
+  LotSize: 1000,
+  PriceModel: null,
+  Beta: 1,
+};
+
+function mockPool(recordset: InstrumentRecord[]) {
+  const query = vi.fn().mockResolvedValue({ recordset });
+  const input = vi.fn().mockReturnThis();
+  const pool = { request: () => ({ input, query }) };
+  return { pool: pool as any, input, query };
+}
+
+describe('instruments', () => {
+  describe('roundToTick', () => {
+    it('should round to the nearest tick', () => {
+      expect(roundToTick(101.234, 0.05)).toBe(101.25);
+      expect(roundToTick(1.08454, 0.0001)).toBe(1.0845);
+      expect(roundToTick(1.08455, 0.0001)).toBe(1.0846);
+    });
+
+    it('should default to cent ticks', () => {
+      expect(roundToTick(99.996)).toBe(100);
+    });
+
+    it('should never round a price below one tick', () => {
+      expect(roundToTick(0.001, 0.01)).toBe(0.01);
+      expect(roundToTick(-5, 0.5)).toBe(0.5);
+    });
+  });
+
+  describe('roundToLot', () => {
+    it('should round volume down to whole lots', () => {
+      expect(roundToLot(12345.6, 100)).toBe(12300);
+      expect(roundToLot(0.123456, 0.001)).toBe(0.123);
+    });
+
+    it('should default to single units and never go negative', () => {
+      expect(roundToLot(10.9)).toBe(10);
+      expect(roundToLot(-3)).toBe(0);
+    });
+  });
+
+  describe('mapInstrumentRecord', () => {
+    it('should map a record to the API response shape', () => {
+      expect(mapInstrumentRecord(record)).toEqual({
+        symbol: 'EURUSD',
+        companyName: 'Euro / US Dollar',
+        sector: null,
+        assetClass: 'FX',
+        basePrice: 1.0845,
+        volatilityMultiplier: 0.5,
+        tickSize: 0.0001,
+        lotSize: 1000,
+        priceModel: null,
+        beta: 1,
+      });
+    });
+  });
+
+  describe('instrumentColumns', () => {
+    it('should list every column with an optional prefix', () => {
+      expect(instrumentColumns()).toBe(
+        'Symbol, CompanyName, Sector, AssetClass, BasePrice, VolatilityMultiplier, TickSize, LotSize, PriceModel, Beta'
+      );
+      expect(instrumentColumns('INSERTED.')).toContain('INSERTED.LotSize');
+    });
+  });
+
+  describe('createInstrument', () => {
+    it('should insert or restore an archived instrument', async () => {
+      const { pool, input, query } = mockPool([record]);
+
+      const result = await createInstrument(pool, {
+        symbol: 'EURUSD',
+        companyName: 'Euro / US Dollar',
+        assetClass: 'FX',
+        basePrice: 1.0845,
+        volatilityMultiplier: 0.5,
+        tickSize: 0.0001,
+        lotSize: 1000,
+        priceModel: 'OU',
+        beta: 0.2,
+      });
+
+      expect(result).toBe(record);
+      expect(input).toHaveBeenCalledWith('instrumentPriceModel', 'nvarchar', 'OU');
+      expect(input).toHaveBeenCalledWith('instrumentSector', 'nvarchar', null);
+      expect(input).toHaveBeenCalledWith('instrumentTickSize', 'decimal', 0.0001);
+      expect(input).toHaveBeenCalledWith('instrumentBeta', 'decimal', 0.2);
+      expect(query.mock.calls[0][0]).toContain('WHEN MATCHED AND target.IsActive = 0');
+    });
+  });
+
+  describe('applyInstrumentChanges', () => {
+    it('should only set supplied fields on an active instrument', async () => {
+      const { pool, input, query } = mockPool([record]);
+
+      await applyInstrumentChanges(pool, 'EURUSD', { basePrice: 1.1, sector: null, lotSize: undefined });
+
+      expect(input).toHaveBeenCalledWith('instrumentBasePrice', 'decimal', 1.1);
+      expect(input).toHaveBeenCalledWith('instrumentSector', 'nvarchar', null);
+      const sqlText = query.mock.calls[0][0];
+      expect(sqlText).toContain('SET BasePrice = @instrumentBasePrice, Sector = @instrumentSector');
+      expect(sqlText).not.toContain('LotSize =');
+      expect(sqlText).toContain('IsActive = 1');
+    });
+
+    it('should return undefined when no active instrument matches', async () => {
+      const { pool } = mockPool([]);
+
+      expect(await applyInstrumentChanges(pool, 'GONE', { basePrice: 1 })).toBeUndefined();
+    });
+  });
+});
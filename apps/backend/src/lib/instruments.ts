@@ -0,0 +1,220 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import { PriceModelType } from '../types/market-engine';
+import {
+  AssetClass,
+  CreateInstrumentRequest,
+  InstrumentResponse,
+  UpdateInstrumentRequest,
+} from '../types/instrument';
+
+/**
+ * Instrument Master Utilities
+ *
+ * Reads and writes [Trade].[Instruments] and rounds simulated prices and volumes
+ *
+ * Instruments are global, so writes are limited to platform administrators (the Static Web
+ * Apps `admin` role) rather than an exchange RiskManager. Instruments are never hard-deleted
+ * because positions reference them: archiving sets IsActive = 0, which stops both generators
+ * from ticking the symbol.
+ */
+
+/**
+ * Static Web Apps role allowed to create, update and archive instruments
+ */
+export const INSTRUMENT_ADMIN_ROLE = 'admin';
+
+/**
+ * Tick and lot sizes used when a row predates the simulation columns (match the column defaults)
+ */
+export const DEFAULT_TICK_SIZE = 0.01;
+export const DEFAULT_LOT_SIZE = 1;
+
+/**
+ * Database record shape for [Trade].[Instruments]
+ */
+export interface InstrumentRecord {
+  Symbol: string;
+  CompanyName: string;
+  Sector: string | null;
+  AssetClass: AssetClass;
+  BasePrice: number;
+  VolatilityMultiplier: number;
+  TickSize: number;
+  LotSize: number;
+  PriceModel: PriceModelType | null;
+  Beta: number;
+}
+
+/**
+ * Column and SQL type for each updatable instrument field
+ * (types are resolved per request, matching the column precision)
+ */
+const INSTRUMENT_COLUMNS: Record<
+  keyof UpdateInstrumentRequest,
+  { column: keyof InstrumentRecord; type: () => sql.ISqlType }
+> = {
+  companyName: { column: 'CompanyName', type: () => sql.NVarChar(100) },
+  sector: { column: 'Sector', type: () => sql.NVarChar(50) },
+  assetClass: { column: 'AssetClass', type: () => sql.NVarChar(20) },
+  basePrice: { column: 'BasePrice', type: () => sql.Decimal(18, 8) },
+  volatilityMultiplier: { column: 'VolatilityMultiplier', type: () => sql.Decimal(6, 4) },
+  tickSize: { column: 'TickSize', type: () => sql.Decimal(18, 8) },
+  lotSize: { column: 'LotSize', type: () => sql.Decimal(18, 8) },
+  priceModel: { column: 'PriceModel', type: () => sql.NVarChar(10) },
+  beta: { column: 'Beta', type: () => sql.Decimal(6, 4) },
+};
+
+const INSTRUMENT_SELECT_COLUMNS: (keyof InstrumentRecord)[] = [
+  'Symbol',
+  ...Object.values(INSTRUMENT_COLUMNS).map(({ column }) => column),
+];
+
+/**
+ * Columns returned by instrument queries, optionally prefixed (e.g. 'INSERTED.')
+ */
+export function instrumentColumns(prefix = ''): string {
+  return INSTRUMENT_SELECT_COLUMNS.map((column) => `${prefix}${column}`).join(', ');
+}
+
+/**
+ * Map a database instrument record to the API response shape
+ *
+ * Uses Decimal.js for financial precision (ADR-006).
+ */
+export function mapInstrumentRecord(record: InstrumentRecord): InstrumentResponse {
+  return {
+    symbol: record.Symbol,
+    companyName: record.CompanyName,
+    sector: record.Sector,
+    assetClass: record.AssetClass,
+    basePrice: new Decimal(record.BasePrice).toNumber(),
+    volatilityMultiplier: new Decimal(record.VolatilityMultiplier).toNumber(),
+    tickSize: new Decimal(record.TickSize).toNumber(),
+    lotSize: new Decimal(record.LotSize).toNumber(),
+    priceModel: record.PriceModel ?? null,
+    beta: new Decimal(record.Beta).toNumber(),
+  };
+}
+
+/**
+ * An active (not archived) instrument, or undefined when it does not exist or is archived
+ */
+export async function getActiveInstrument(
+  pool: sql.ConnectionPool,
+  symbol: string
+): Promise<InstrumentRecord | undefined> {
+  const result = await pool.request()
+    .input('instrumentSymbol', sql.NVarChar, symbol)
+    .query<InstrumentRecord>(`
+      SELECT ${instrumentColumns()}
+      FROM [Trade].[Instruments]
+      WHERE Symbol = @instrumentSymbol AND IsActive = 1
+    `);
+
+  return result.recordset[0];
+}
+
+/**
+ * Insert an instrument, or restore an archived one with the new values
+ *
+ * @returns The stored record, or undefined when an active instrument already uses the symbol
+ */
+export async function createInstrument(
+  pool: sql.ConnectionPool,
+  instrument: CreateInstrumentRequest
+): Promise<InstrumentRecord | undefined> {
+  const result = await pool.request()
+    .input('instrumentSymbol', sql.NVarChar, instrument.symbol)
+    .input('instrumentCompanyName', INSTRUMENT_COLUMNS.companyName.type(), instrument.companyName)
+    .input('instrumentSector', INSTRUMENT_COLUMNS.sector.type(), instrument.sector ?? null)
+    .input('instrumentAssetClass', INSTRUMENT_COLUMNS.assetClass.type(), instrument.assetClass)
+    .input('instrumentBasePrice', INSTRUMENT_COLUMNS.basePrice.type(), instrument.basePrice)
+    .input('instrumentVolatilityMultiplier', INSTRUMENT_COLUMNS.volatilityMultiplier.type(), instrument.volatilityMultiplier)
+    .input('instrumentTickSize', INSTRUMENT_COLUMNS.tickSize.type(), instrument.tickSize)
+    .input('instrumentLotSize', INSTRUMENT_COLUMNS.lotSize.type(), instrument.lotSize)
+    .input('instrumentPriceModel', INSTRUMENT_COLUMNS.priceModel.type(), instrument.priceModel ?? null)
+    .input('instrumentBeta', INSTRUMENT_COLUMNS.beta.type(), instrument.beta)
+    .query<InstrumentRecord>(`
+      MERGE [Trade].[Instruments] WITH (HOLDLOCK) AS target
+      USING (SELECT @instrumentSymbol AS Symbol) AS source
+        ON target.Symbol = source.Symbol
+      WHEN MATCHED AND target.IsActive = 0 THEN
+        UPDATE SET
+          CompanyName = @instrumentCompanyName,
+          Sector = @instrumentSector,
+          AssetClass = @instrumentAssetClass,
+          BasePrice = @instrumentBasePrice,
+          VolatilityMultiplier = @instrumentVolatilityMultiplier,
+          TickSize = @instrumentTickSize,
+          LotSize = @instrumentLotSize,
+          PriceModel = @instrumentPriceModel,
+          Beta = @instrumentBeta,
+          IsActive = 1
+      WHEN NOT MATCHED THEN
+        INSERT (Symbol, CompanyName, Sector, AssetClass, BasePrice, VolatilityMultiplier, TickSize, LotSize, PriceModel,
+                Beta)
+        VALUES (@instrumentSymbol, @instrumentCompanyName, @instrumentSector, @instrumentAssetClass,
+                @instrumentBasePrice, @instrumentVolatilityMultiplier, @instrumentTickSize, @instrumentLotSize,
+                @instrumentPriceModel, @instrumentBeta)
+      OUTPUT ${instrumentColumns('INSERTED.')};
+    `);
+
+  return result.recordset[0];
+}
+
+/**
+ * Apply a partial update to an active instrument
+ *
+ * @param changes - Validated fields to change (undefined fields are left as they are)
+ * @returns The updated record, or undefined when the instrument does not exist or is archived
+ */
+export async function applyInstrumentChanges(
+  pool: sql.ConnectionPool,
+  symbol: string,
+  changes: UpdateInstrumentRequest
+): Promise<InstrumentRecord | undefined> {
+  const request = pool.request()
+    .input('instrumentSymbol', sql.NVarChar, symbol);
+  const assignments: string[] = [];
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const { column, type } = INSTRUMENT_COLUMNS[field as keyof UpdateInstrumentRequest];
+    const parameter = `instrument${column}`;
+
+    request.input(parameter, type(), value);
+    assignments.push(`${column} = @${parameter}`);
+  }
+
+  const result = await request.query<InstrumentRecord>(`
+    UPDATE [Trade].[Instruments]
+    SET ${assignments.join(', ')}
+    OUTPUT ${instrumentColumns('INSERTED.')}
+    WHERE Symbol = @instrumentSymbol AND IsActive = 1
+  `);
+
+  return result.recordset[0];
+}
+
+/**
+ * Round a simulated price to the nearest tick, never below one tick
+ *
+ * Uses Decimal.js for financial precision (ADR-006).
+ */
+export function roundToTick(price: number, tickSize: number = DEFAULT_TICK_SIZE): number {
+  const tick = new Decimal(tickSize);
+  return Decimal.max(tick, new Decimal(price).dividedBy(tick).toDecimalPlaces(0, Decimal.ROUND_HALF_UP).times(tick))
+    .toNumber();
+}
+
+/**
+ * Round a simulated volume down to whole lots
+ */
+export function roundToLot(volume: number, lotSize: number = DEFAULT_LOT_SIZE): number {
+  const lot = new Decimal(lotSize);
+  return Decimal.max(0, new Decimal(volume).dividedBy(lot).floor().times(lot)).toNumber();
+}
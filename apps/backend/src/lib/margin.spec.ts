@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  calculateAvailableMargin,
+  calculateMarginSummary,
+  calculateShortRequirement,
+  DEFAULT_MARGIN_SETTINGS,
+  getMarginPositions,
+  getMarginSettings,
+  MarginSettings,
+  positionDirection,
+  toMarginSettings,
+} from './margin';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+}));
+
+describe('margin', () => {
+  const settings: MarginSettings = {
+    allowMargin: true,
+    initialMargin: 0.5,
+    maintenanceMargin: 0.25,
+  };
+
+  describe('positionDirection', () => {
+    it('should add to the position for BUY and COVER and subtract for SELL and SHORT', () => {
+      expect(positionDirection('BUY')).toBe(1);
+      expect(positionDirection('COVER')).toBe(1);
+      expect(positionDirection('SELL')).toBe(-1);
+      expect(positionDirection('SHORT')).toBe(-1);
+    });
+  });
+
+  describe('toMarginSettings', () => {
+    it('should map configuration columns', () => {
+      expect(toMarginSettings({ AllowMargin: false, InitialMargin: 0.6, MaintenanceMargin: 0.3 })).toEqual({
+        allowMargin: false,
+        initialMargin: 0.6,
+        maintenanceMargin: 0.3,
+      });
+    });
+
+    it('should fall back to defaults for missing configuration', () => {
+      expect(toMarginSettings(undefined)).toEqual(DEFAULT_MARGIN_SETTINGS);
+      expect(toMarginSettings({ AllowMargin: null, InitialMargin: null })).toEqual(DEFAULT_MARGIN_SETTINGS);
+    });
+  });
+
+  describe('calculateMarginSummary', () => {
+    it('should apply requirements to short market value only', () => {
+      // Short 100 @ 50 opened with 10,000 cash: cash 15,000, equity 10,000
+      const summary = calculateMarginSummary(15000, [
+        { symbol: 'AAPL', quantity: 20, price: 100 },
+        { symbol: 'MSFT', quantity: -100, price: 50 },
+      ], settings);
+
+      expect(summary).toEqual({
+        equity: 12000,
+        shortMarketValue: 5000,
+        initialRequirement: 2500,
+        maintenanceRequirement: 1250,
+        status: 'OK',
+      });
+    });
+
+    it('should report MARGIN_CALL when equity falls below maintenance requirement', () => {
+      // Short 100 @ 50 with 2,500 equity, price rallies to 70: equity 500 < 1,750
+      const summary = calculateMarginSummary(7500, [
+        { symbol: 'MSFT', quantity: -100, price: 70 },
+      ], settings);
+
+      expect(summary.equity).toBe(500);
+      expect(summary.maintenanceRequirement).toBe(1750);
+      expect(summary.status).toBe('MARGIN_CALL');
+    });
+
+    it('should be OK with no positions', () => {
+      expect(calculateMarginSummary(1000, [], settings).status).toBe('OK');
+    });
+
+    it('should avoid floating point drift', () => {
+      const summary = calculateMarginSummary(0.1, [{ symbol: 'X', quantity: 1, price: 0.2 }], settings);
+      expect(summary.equity).toBe(0.3);
+    });
+  });
+
+  describe('calculateAvailableMargin', () => {
+    it('should subtract the initial requirement and reserved cash from equity', () => {
+      const summary = calculateMarginSummary(15000, [{ symbol: 'MSFT', quantity: -100, price: 50 }], settings);
+      expect(calculateAvailableMargin(summary, 1000)).toBe(6500);
+    });
+  });
+
+  describe('calculateShortRequirement', () => {
+    it('should apply the initial margin rate to the notional', () => {
+      expect(calculateShortRequirement(100, 50.5, settings)).toBe(2525);
+    });
+  });
+
+  describe('getMarginPositions', () => {
+    it('should map positions and fall back to zero for unpriced rows', async () => {
+      const request = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn().mockResolvedValue({
+          recordset: [
+            { Symbol: 'MSFT', Quantity: -100, Price: 52.5 },
+            { Symbol: 'NEW', Quantity: 10, Price: null },
+          ],
+        }),
+      };
+
+      const positions = await getMarginPositions(request as any, 'exchange-1', 'portfolio-1');
+
+      expect(positions).toEqual([
+        { symbol: 'MSFT', quantity: -100, price: 52.5 },
+        { symbol: 'NEW', quantity: 10, price: 0 },
+      ]);
+      expect(request.input).toHaveBeenCalledWith('marginPortfolioId', 'uniqueidentifier', 'portfolio-1');
+    });
+  });
+
+  describe('getMarginSettings', () => {
+    it('should load settings for the exchange', async () => {
+      const request = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn().mockResolvedValue({
+          recordset: [{ AllowMargin: false, InitialMargin: 0.5, MaintenanceMargin: 0.3 }],
+        }),
+      };
+
+      const result = await getMarginSettings(request as any, 'exchange-1');
+
+      expect(result).toEqual({ allowMargin: false, initialMargin: 0.5, maintenanceMargin: 0.3 });
+      expect(request.input).toHaveBeenCalledWith('marginSettingsExchangeId', 'uniqueidentifier', 'exchange-1');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import { MarginStatus, OrderSide } from '../types/transaction';
+
+/**
+ * Margin Utilities
+ *
+ * Short selling and margin requirements computed from exchange configuration
+ * Implements ADR-006: Decimal.js for all financial calculations
+ *
+ * Long positions are paid for in full (BUY requires cash), so margin requirements apply
+ * to short positions only:
+ * - Equity = CashBalance + market value of longs - market value of shorts
+ * - Initial requirement = short market value * InitialMargin (checked before opening shorts)
+ * - Maintenance requirement = short market value * MaintenanceMargin; a portfolio whose
+ *   equity falls below it is placed in MARGIN_CALL until equity recovers
+ */
+
+/**
+ * Margin settings of an exchange ([Trade].[ExchangeConfigurations])
+ */
+export interface MarginSettings {
+  allowMargin: boolean;
+  initialMargin: number;
+  maintenanceMargin: number;
+}
+
+/**
+ * Settings used when an exchange has no configuration row (matches the schema defaults)
+ *
+ * 50% initial / 25% maintenance mirror Regulation T and FINRA minimums for equities.
+ */
+export const DEFAULT_MARGIN_SETTINGS: MarginSettings = {
+  allowMargin: true,
+  initialMargin: 0.5,
+  maintenanceMargin: 0.25,
+};
+
+/**
+ * A position valued at a market price
+ */
+export interface MarginPosition {
+  symbol: string;
+  quantity: number; // Negative for short positions
+  price: number;
+}
+
+/**
+ * Margin figures of a portfolio
+ */
+export interface MarginSummary {
+  equity: number;
+  shortMarketValue: number;
+  initialRequirement: number;
+  maintenanceRequirement: number;
+  status: MarginStatus;
+}
+
+/**
+ * Signed position change of a fill: BUY and COVER add, SELL and SHORT subtract
+ */
+export function positionDirection(side: OrderSide): 1 | -1 {
+  return side === 'BUY' || side === 'COVER' ? 1 : -1;
+}
+
+/**
+ * Build margin settings from ExchangeConfigurations columns, falling back to defaults
+ */
+export function toMarginSettings(
+  config: {
+    AllowMargin?: boolean | null;
+    InitialMargin?: number | null;
+    MaintenanceMargin?: number | null;
+  } | undefined
+): MarginSettings {
+  return {
+    allowMargin: config?.AllowMargin ?? DEFAULT_MARGIN_SETTINGS.allowMargin,
+    initialMargin: config?.InitialMargin ?? DEFAULT_MARGIN_SETTINGS.initialMargin,
+    maintenanceMargin: config?.MaintenanceMargin ?? DEFAULT_MARGIN_SETTINGS.maintenanceMargin,
+  };
+}
+
+/**
+ * Calculate equity, requirements and margin status of a portfolio
+ *
+ * @param cashBalance - Portfolio cash (includes proceeds of short sales)
+ * @param positions - Open positions valued at current prices
+ * @param settings - Exchange margin settings
+ */
+export function calculateMarginSummary(
+  cashBalance: number,
+  positions: MarginPosition[],
+  settings: MarginSettings
+): MarginSummary {
+  let equity = new Decimal(cashBalance);
+  let shortMarketValue = new Decimal(0);
+
+  for (const position of positions) {
+    const marketValue = new Decimal(position.quantity).times(position.price);
+    equity = equity.plus(marketValue);
+
+    if (marketValue.isNegative()) {
+      shortMarketValue = shortMarketValue.plus(marketValue.abs());
+    }
+  }
+
+  const maintenanceRequirement = shortMarketValue.times(settings.maintenanceMargin);
+
+  return {
+    equity: equity.toNumber(),
+    shortMarketValue: shortMarketValue.toNumber(),
+    initialRequirement: shortMarketValue.times(settings.initialMargin).toNumber(),
+    maintenanceRequirement: maintenanceRequirement.toNumber(),
+    status: equity.lessThan(maintenanceRequirement) ? 'MARGIN_CALL' : 'OK',
+  };
+}
+
+/**
+ * Equity left to support new short positions: equity minus the initial requirement
+ * of existing shorts minus cash reserved by open BUY orders
+ */
+export function calculateAvailableMargin(summary: MarginSummary, reservedCash: number): number {
+  return new Decimal(summary.equity)
+    .minus(summary.initialRequirement)
+    .minus(reservedCash)
+    .toNumber();
+}
+
+/**
+ * Initial margin a new short of the given notional requires
+ */
+export function calculateShortRequirement(
+  quantity: number,
+  price: number,
+  settings: MarginSettings
+): number {
+  return new Decimal(quantity).times(price).times(settings.initialMargin).toNumber();
+}
+
+/**
+ * Load a portfolio's open positions valued at the latest tick price for each symbol
+ * (falls back to the position's average price when the symbol has no market data)
+ *
+ * @param request - Request bound to the caller's connection or transaction
+ * @param exchangeId - Exchange the portfolio belongs to
+ * @param portfolioId - Portfolio whose positions to load
+ */
+export async function getMarginPositions(
+  request: sql.Request,
+  exchangeId: string,
+  portfolioId: string
+): Promise<MarginPosition[]> {
+  const result = await request
+    .input('marginExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('marginPortfolioId', sql.UniqueIdentifier, portfolioId)
+    .query<{ Symbol: string; Quantity: number; Price: number | null }>(`
+      WITH LatestPrices AS (
+        SELECT Symbol, Close,
+               ROW_NUMBER() OVER (PARTITION BY Symbol ORDER BY Timestamp DESC) AS rn
+        FROM [Trade].[MarketData]
+        WHERE ExchangeId = @marginExchangeId
+      )
+      SELECT pos.Symbol, pos.Quantity, ISNULL(lp.Close, pos.AveragePrice) AS Price
+      FROM [Trade].[Positions] pos
+      LEFT JOIN LatestPrices lp ON lp.Symbol = pos.Symbol AND lp.rn = 1
+      WHERE pos.PortfolioId = @marginPortfolioId AND pos.Quantity <> 0
+    `);
+
+  return result.recordset.map((row) => ({
+    symbol: row.Symbol,
+    quantity: row.Quantity,
+    price: row.Price ?? 0,
+  }));
+}
+
+/**
+ * Load the margin settings of an exchange
+ *
+ * @param request - Request bound to the caller's connection or transaction
+ * @param exchangeId - Exchange whose settings to load
+ */
+export async function getMarginSettings(
+  request: sql.Request,
+  exchangeId: string
+): Promise<MarginSettings> {
+  const result = await request
+    .input('marginSettingsExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<{ AllowMargin: boolean | null; InitialMargin: number | null; MaintenanceMargin: number | null }>(`
+      SELECT AllowMargin, InitialMargin, MaintenanceMargin
+      FROM [Trade].[ExchangeConfigurations]
+      WHERE ExchangeId = @marginSettingsExchangeId
+    `);
+
+  return toMarginSettings(result.recordset[0]);
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { diffMarketDepth, getOrderBookDepth } from './market-depth';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: 'nvarchar',
+  Int: 'int',
+}));
+
+describe('market-depth', () => {
+  const level = (price: number, quantity: number, orderCount = 1) => ({ price, quantity, orderCount, ownQuantity: 0 });
+
+  describe('getOrderBookDepth', () => {
+    it('should aggregate resting limit orders by side and price, best first', async () => {
+      const request = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn().mockResolvedValue({
+          recordset: [
+            { BookSide: 'ASK', Price: 100.05, Quantity: 50, OrderCount: 1, OwnQuantity: 0 },
+            { BookSide: 'BID', Price: 99.95, Quantity: 120, OrderCount: 2, OwnQuantity: 20 },
+            { BookSide: 'BID', Price: 99.9, Quantity: 10, OrderCount: 1, OwnQuantity: 0 },
+          ],
+        }),
+      };
+
+      const depth = await getOrderBookDepth(request as never, 'exchange-1', 'AAPL', 20, null);
+
+      expect(depth).toEqual({
+        bids: [{ ...level(99.95, 120, 2), ownQuantity: 20 }, level(99.9, 10)],
+        asks: [level(100.05, 50)],
+      });
+      expect(request.input).toHaveBeenCalledWith('depthUserId', 'uniqueidentifier', null);
+      expect(request.query.mock.calls[0][0]).toContain("o.OrderType = 'LIMIT'");
+      expect(request.query.mock.calls[0][0]).toContain('WHERE Level <= @depthLevels');
+    });
+  });
+
+  describe('diffMarketDepth', () => {
+    it('should report new and resized levels', () => {
+      const previous = { bids: [level(99.95, 100)], asks: [level(100.05, 50)] };
+      const next = { bids: [level(99.95, 100), level(99.9, 30)], asks: [level(100.05, 80, 2)] };
+
+      expect(diffMarketDepth(previous, next)).toEqual([
+        { side: 'BID', price: 99.9, quantity: 30, orderCount: 1 },
+        { side: 'ASK', price: 100.05, quantity: 80, orderCount: 2 },
+      ]);
+    });
+
+    it('should remove levels that left the book with quantity 0', () => {
+      const previous = { bids: [level(99.95, 100)], asks: [level(100.05, 50)] };
+      const next = { bids: [level(99.95, 100)], asks: [] };
+
+      expect(diffMarketDepth(previous, next)).toEqual([
+        { side: 'ASK', price: 100.05, quantity: 0, orderCount: 0 },
+      ]);
+    });
+
+    it('should report nothing for an unchanged book', () => {
+      const depth = { bids: [level(99.95, 100)], asks: [level(100.05, 50)] };
+
+      expect(diffMarketDepth(depth, structuredClone(depth))).toEqual([]);
+    });
+  });
+});
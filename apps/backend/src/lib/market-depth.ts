@@ -0,0 +1,139 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import {
+  MAX_DEPTH_LEVELS,
+  MarketDepth,
+  MarketDepthLevel,
+  MarketDepthLevelChange,
+  MarketDepthSide,
+} from '../types/market-depth';
+
+/**
+ * Market Depth Utilities
+ *
+ * Aggregates a symbol's resting limit orders into Level 2 price levels (see
+ * types/market-depth.ts). GET /api/v1/marketdata/depth returns a snapshot with the caller's
+ * own size per level; after each tick the market engine diffs the book against the depth it
+ * last published (cached in Redis) and broadcasts only the levels that changed, numbered by a
+ * per-book sequence, so clients apply the updates numbered after a snapshot on top of it.
+ *
+ * Uses Decimal.js for quantities (ADR-006).
+ */
+
+/**
+ * Levels per side the market engine publishes in the depth feed (as many as a snapshot holds)
+ */
+export const DEPTH_FEED_LEVELS = MAX_DEPTH_LEVELS;
+
+/**
+ * Database row shape of an aggregated price level
+ */
+interface MarketDepthRecord {
+  BookSide: MarketDepthSide;
+  Price: number;
+  Quantity: number;
+  OrderCount: number;
+  OwnQuantity: number;
+}
+
+/**
+ * Get the best price levels on each side of a symbol's book
+ *
+ * @param request - Request to run the query on (RLS session context for users, none for the engine)
+ * @param exchangeId - Exchange of the book
+ * @param symbol - Symbol of the book
+ * @param levels - Price levels per side
+ * @param userId - User whose orders are counted as ownQuantity (null counts none)
+ */
+export async function getOrderBookDepth(
+  request: sql.Request,
+  exchangeId: string,
+  symbol: string,
+  levels: number,
+  userId: string | null
+): Promise<MarketDepth> {
+  const result = await request
+    .input('depthExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('depthSymbol', sql.NVarChar, symbol)
+    .input('depthLevels', sql.Int, levels)
+    .input('depthUserId', sql.UniqueIdentifier, userId)
+    .query<MarketDepthRecord>(`
+      WITH Levels AS (
+        SELECT CASE WHEN o.Side IN ('BUY', 'COVER') THEN 'BID' ELSE 'ASK' END AS BookSide,
+               o.Price,
+               SUM(o.Quantity - ISNULL(o.FilledQuantity, 0)) AS Quantity,
+               COUNT(*) AS OrderCount,
+               SUM(CASE WHEN p.UserId = @depthUserId THEN o.Quantity - ISNULL(o.FilledQuantity, 0) ELSE 0 END)
+                 AS OwnQuantity
+        FROM [Trade].[Orders] o
+        INNER JOIN [Trade].[Portfolios] p ON p.PortfolioId = o.PortfolioId
+        WHERE o.ExchangeId = @depthExchangeId
+          AND o.Symbol = @depthSymbol
+          AND o.Status IN ('PENDING', 'PARTIAL')
+          AND (o.OrderType = 'LIMIT' OR (o.OrderType = 'STOP_LIMIT' AND ISNULL(o.StopTriggered, 0) = 1))
+        GROUP BY CASE WHEN o.Side IN ('BUY', 'COVER') THEN 'BID' ELSE 'ASK' END, o.Price
+      ),
+      RankedLevels AS (
+        SELECT *, ROW_NUMBER() OVER (
+          PARTITION BY BookSide
+          ORDER BY CASE WHEN BookSide = 'BID' THEN -Price ELSE Price END
+        ) AS Level
+        FROM Levels
+      )
+      SELECT BookSide, Price, Quantity, OrderCount, OwnQuantity
+      FROM RankedLevels
+      WHERE Level <= @depthLevels
+      ORDER BY BookSide, Level
+    `);
+
+  return mapMarketDepthRecords(result.recordset);
+}
+
+/**
+ * Split aggregated level rows (best first per side) into bids and asks
+ */
+function mapMarketDepthRecords(records: MarketDepthRecord[]): MarketDepth {
+  const toLevel = (record: MarketDepthRecord): MarketDepthLevel => ({
+    price: new Decimal(record.Price).toNumber(),
+    quantity: new Decimal(record.Quantity).toNumber(),
+    orderCount: record.OrderCount,
+    ownQuantity: new Decimal(record.OwnQuantity).toNumber(),
+  });
+
+  return {
+    bids: records.filter((record) => record.BookSide === 'BID').map(toLevel),
+    asks: records.filter((record) => record.BookSide === 'ASK').map(toLevel),
+  };
+}
+
+/**
+ * Levels that differ between two depths of the same book
+ *
+ * @param previous - Depth last published
+ * @param next - Current depth
+ * @returns New or resized levels, and removed levels with quantity 0, bids first
+ */
+export function diffMarketDepth(previous: MarketDepth, next: MarketDepth): MarketDepthLevelChange[] {
+  const diffSide = (side: MarketDepthSide, before: MarketDepthLevel[], after: MarketDepthLevel[]) => {
+    const changes: MarketDepthLevelChange[] = [];
+
+    for (const level of after) {
+      const old = before.find((candidate) => new Decimal(candidate.price).equals(level.price));
+      if (!old || !new Decimal(old.quantity).equals(level.quantity) || old.orderCount !== level.orderCount) {
+        changes.push({ side, price: level.price, quantity: level.quantity, orderCount: level.orderCount });
+      }
+    }
+    for (const level of before) {
+      if (!after.some((candidate) => new Decimal(candidate.price).equals(level.price))) {
+        changes.push({ side, price: level.price, quantity: 0, orderCount: 0 });
+      }
+    }
+
+    return changes;
+  };
+
+  return [
+    ...diffSide('BID', previous.bids, next.bids),
+    ...diffSide('ASK', previous.asks, next.asks),
+  ];
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSeededRandom } from '@assetsim/shared/finance-models';
+import {
+  DEFAULT_CORRELATION_SETTINGS,
+  MARKET_FACTOR_STREAM,
+  correlatedShock,
+  drawMarketFactors,
+  factorLoadings,
+  sectorFactorStream,
+  toCorrelationSettings,
+} from './market-factors';
+
+const SAMPLES = 4000;
+
+function correlation(x: number[], y: number[]): number {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const meanX = mean(x);
+  const meanY = mean(y);
+  const covariance = mean(x.map((value, i) => (value - meanX) * (y[i] - meanY)));
+  const sd = (values: number[], m: number) => Math.sqrt(mean(values.map((value) => (value - m) ** 2)));
+
+  return covariance / (sd(x, meanX) * sd(y, meanY));
+}
+
+describe('market-factors', () => {
+  describe('toCorrelationSettings', () => {
+    it('should fall back to defaults when the exchange has no configuration', () => {
+      expect(toCorrelationSettings(undefined)).toEqual(DEFAULT_CORRELATION_SETTINGS);
+    });
+
+    it('should read the exchange columns', () => {
+      expect(toCorrelationSettings({ MarketCorrelation: 0.5, SectorCorrelation: 0 })).toEqual({
+        marketCorrelation: 0.5,
+        sectorCorrelation: 0,
+      });
+    });
+  });
+
+  describe('factorLoadings', () => {
+    const settings = { marketCorrelation: 0.3, sectorCorrelation: 0.2 };
+
+    it('should split a unit variance between the market, sector and own noise', () => {
+      const loadings = factorLoadings(1, 'Technology', settings);
+
+      expect(loadings.market).toBeCloseTo(Math.sqrt(0.3), 12);
+      expect(loadings.sector).toBeCloseTo(Math.sqrt(0.2), 12);
+      expect(loadings.idiosyncratic).toBeCloseTo(Math.sqrt(0.5), 12);
+    });
+
+    it('should have no sector loading without a sector', () => {
+      const loadings = factorLoadings(1, null, settings);
+
+      expect(loadings.sector).toBe(0);
+      expect(loadings.idiosyncratic).toBeCloseTo(Math.sqrt(0.7), 12);
+    });
+
+    it('should scale beta into the market loading, including negative betas', () => {
+      expect(factorLoadings(-1, null, settings).market).toBeCloseTo(-Math.sqrt(0.3), 12);
+      expect(factorLoadings(0, null, settings)).toEqual({ market: 0, sector: 0, idiosyncratic: 1 });
+    });
+
+    it('should scale the shared loadings down when they would exceed a unit variance', () => {
+      const loadings = factorLoadings(3, 'Technology', { marketCorrelation: 0.5, sectorCorrelation: 0.5 });
+
+      expect(loadings.market ** 2 + loadings.sector ** 2).toBeCloseTo(1, 12);
+      expect(loadings.market / loadings.sector).toBeCloseTo(3, 12);
+      expect(loadings.idiosyncratic).toBe(0);
+    });
+  });
+
+  describe('drawMarketFactors', () => {
+    it('should draw the market and each distinct sector from its named stream', () => {
+      const randomFor = vi.fn(() => () => 0.25);
+
+      const factors = drawMarketFactors(['Technology', null, 'Energy', 'Technology'], randomFor);
+
+      expect(randomFor.mock.calls.map(([stream]) => stream)).toEqual([
+        MARKET_FACTOR_STREAM,
+        sectorFactorStream('Technology'),
+        sectorFactorStream('Energy'),
+      ]);
+      expect([...factors.sectors.keys()]).toEqual(['Technology', 'Energy']);
+    });
+  });
+
+  describe('correlatedShock', () => {
+    it('should correlate symbols at the market correlation, plus the sector correlation within a sector', () => {
+      const settings = { marketCorrelation: 0.3, sectorCorrelation: 0.2 };
+      const shocks = { aapl: [] as number[], msft: [] as number[], xom: [] as number[] };
+
+      for (let step = 0; step < SAMPLES; step++) {
+        const factors = drawMarketFactors(['Technology', 'Energy'], (stream) => createSeededRandom(1, step, stream));
+        const shockFor = (symbol: string, sector: string) =>
+          correlatedShock(factors, { sector, beta: 1 }, settings, createSeededRandom(1, step, symbol));
+
+        shocks.aapl.push(shockFor('AAPL', 'Technology'));
+        shocks.msft.push(shockFor('MSFT', 'Technology'));
+        shocks.xom.push(shockFor('XOM', 'Energy'));
+      }
+
+      expect(Math.abs(correlation(shocks.aapl, shocks.msft) - 0.5)).toBeLessThan(0.05);
+      expect(Math.abs(correlation(shocks.aapl, shocks.xom) - 0.3)).toBeLessThan(0.05);
+
+      const variance = shocks.aapl.reduce((sum, value) => sum + value ** 2, 0) / SAMPLES;
+      expect(Math.abs(variance - 1)).toBeLessThan(0.1);
+    });
+
+    it('should move every symbol with the market when the market correlation is 1', () => {
+      const factors = { market: 1.5, sectors: new Map([['Technology', -2]]) };
+      const settings = { marketCorrelation: 1, sectorCorrelation: 0 };
+
+      expect(correlatedShock(factors, { sector: 'Technology', beta: 1 }, settings, Math.random)).toBeCloseTo(1.5, 12);
+      expect(correlatedShock(factors, { sector: null, beta: -1 }, settings, Math.random)).toBeCloseTo(-1.5, 12);
+    });
+  });
+});
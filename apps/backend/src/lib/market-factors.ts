@@ -0,0 +1,150 @@
+import { RandomSource, standardNormal } from './price-models';
+
+/**
+ * Market Factor Utilities
+ *
+ * Correlated price shocks for the market engine (marketEngineTick) and ticker generator
+ *
+ * Each symbol's standard normal shock combines shared factors with its own noise:
+ *   Z = a·F_market + b·F_sector + c·ε,  a = β·√ρm,  b = √ρs,  c = √(1 - a² - b²)
+ * where ρm and ρs are the exchange's MarketCorrelation and SectorCorrelation, β is the
+ * instrument's Beta and the sector factor is shared by instruments with the same Sector.
+ * Z stays a unit normal, so volatility and the price models are unchanged; two beta-1 symbols
+ * correlate at ρm, or ρm + ρs within a sector. Instruments without a sector have no sector
+ * factor, and the shared loadings are scaled down when a² + b² would exceed 1 (high betas).
+ *
+ * Factor draws are native floating point like standardNormal; they are dimensionless shocks.
+ */
+
+/**
+ * Correlation settings of an exchange ([Trade].[ExchangeConfigurations])
+ */
+export interface CorrelationSettings {
+  marketCorrelation: number; // ρm, shock variance share of the market factor (beta 1)
+  sectorCorrelation: number; // ρs, shock variance share of the sector factor
+}
+
+/**
+ * Settings used when an exchange has no configuration row (match the column defaults)
+ */
+export const DEFAULT_CORRELATION_SETTINGS: CorrelationSettings = {
+  marketCorrelation: 0.3,
+  sectorCorrelation: 0.2,
+};
+
+/**
+ * Random stream name of the market factor (symbols cannot contain '$', so streams never clash)
+ */
+export const MARKET_FACTOR_STREAM = '$MARKET';
+
+/**
+ * Random stream name of a sector factor
+ */
+export function sectorFactorStream(sector: string): string {
+  return `$SECTOR:${sector}`;
+}
+
+/**
+ * Weights of the market, sector and idiosyncratic parts of a symbol's shock
+ */
+export interface FactorLoadings {
+  market: number;
+  sector: number;
+  idiosyncratic: number;
+}
+
+/**
+ * Factor draws shared by every symbol of an exchange in one generator run
+ */
+export interface MarketFactors {
+  market: number;
+  sectors: Map<string, number>;
+}
+
+/**
+ * Build correlation settings from ExchangeConfigurations columns, falling back to defaults
+ */
+export function toCorrelationSettings(
+  config: { MarketCorrelation?: number | null; SectorCorrelation?: number | null } | undefined
+): CorrelationSettings {
+  return {
+    marketCorrelation: config?.MarketCorrelation ?? DEFAULT_CORRELATION_SETTINGS.marketCorrelation,
+    sectorCorrelation: config?.SectorCorrelation ?? DEFAULT_CORRELATION_SETTINGS.sectorCorrelation,
+  };
+}
+
+/**
+ * Factor loadings of an instrument
+ *
+ * @param beta - The instrument's market factor loading
+ * @param sector - The instrument's sector (null has no sector factor)
+ * @param settings - The exchange's correlation settings
+ */
+export function factorLoadings(
+  beta: number,
+  sector: string | null,
+  settings: CorrelationSettings
+): FactorLoadings {
+  let market = beta * Math.sqrt(settings.marketCorrelation);
+  let sectorLoading = sector ? Math.sqrt(settings.sectorCorrelation) : 0;
+  const shared = market ** 2 + sectorLoading ** 2;
+
+  if (shared > 1) {
+    // Keep the shock a unit normal: scale the shared loadings down and drop the own noise
+    const scale = 1 / Math.sqrt(shared);
+    market *= scale;
+    sectorLoading *= scale;
+  }
+
+  return {
+    market,
+    sector: sectorLoading,
+    idiosyncratic: Math.sqrt(Math.max(0, 1 - market ** 2 - sectorLoading ** 2)),
+  };
+}
+
+/**
+ * Draw the market factor and one factor per sector for a generator run
+ *
+ * @param sectors - Sectors of the symbols being ticked (duplicates and nulls are ignored)
+ * @param randomFor - Random source for a named factor stream
+ */
+export function drawMarketFactors(
+  sectors: Iterable<string | null>,
+  randomFor: (stream: string) => RandomSource
+): MarketFactors {
+  const factors: MarketFactors = {
+    market: standardNormal(randomFor(MARKET_FACTOR_STREAM)),
+    sectors: new Map(),
+  };
+
+  for (const sector of sectors) {
+    if (sector && !factors.sectors.has(sector)) {
+      factors.sectors.set(sector, standardNormal(randomFor(sectorFactorStream(sector))));
+    }
+  }
+
+  return factors;
+}
+
+/**
+ * Correlated standard normal shock of one symbol
+ *
+ * @param factors - The run's factor draws
+ * @param instrument - The instrument's sector and beta
+ * @param settings - The exchange's correlation settings
+ * @param random - The symbol's random source for its own noise
+ */
+export function correlatedShock(
+  factors: MarketFactors,
+  instrument: { sector: string | null; beta: number },
+  settings: CorrelationSettings,
+  random: RandomSource
+): number {
+  const loadings = factorLoadings(instrument.beta, instrument.sector, settings);
+  const sectorFactor = instrument.sector ? factors.sectors.get(instrument.sector) ?? 0 : 0;
+
+  return loadings.market * factors.market
+    + loadings.sector * sectorFactor
+    + loadings.idiosyncratic * standardNormal(random);
+}
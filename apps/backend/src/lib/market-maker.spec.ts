@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_MARKET_MAKER_SETTINGS, quoteMarket, toMarketMakerSettings } from './market-maker';
+
+describe('market-maker', () => {
+  describe('toMarketMakerSettings', () => {
+    it('should use the defaults when the exchange has no configuration', () => {
+      expect(toMarketMakerSettings(undefined)).toEqual(DEFAULT_MARKET_MAKER_SETTINGS);
+    });
+
+    it('should read the configured spread', () => {
+      expect(toMarketMakerSettings({ MarketMakerSpreadBps: 25 })).toEqual({ spreadBps: 25 });
+    });
+  });
+
+  describe('quoteMarket', () => {
+    it('should quote the configured spread around the price at VolatilityIndex 1.0', () => {
+      expect(quoteMarket(100, 2500, 1, { spreadBps: 10 })).toEqual({
+        bid: 99.95,
+        ask: 100.05,
+        bidSize: 2500,
+        askSize: 2500,
+      });
+    });
+
+    it('should widen the spread and thin the sizes as the VolatilityIndex rises', () => {
+      expect(quoteMarket(100, 2500, 2, { spreadBps: 10 })).toEqual({
+        bid: 99.9,
+        ask: 100.1,
+        bidSize: 1250,
+        askSize: 1250,
+      });
+    });
+
+    it('should narrow the spread in calm regimes without adding size', () => {
+      expect(quoteMarket(100, 2500, 0.5, { spreadBps: 10 })).toEqual({
+        bid: 99.97,
+        ask: 100.03,
+        bidSize: 2500,
+        askSize: 2500,
+      });
+    });
+
+    it('should round the quote outwards to the tick size and the sizes down to whole lots', () => {
+      expect(quoteMarket(100, 2550, 1, { spreadBps: 10 }, 0.25, 100)).toEqual({
+        bid: 99.75,
+        ask: 100.25,
+        bidSize: 2500,
+        askSize: 2500,
+      });
+    });
+
+    it('should keep the bid at least one tick and below the ask', () => {
+      const quote = quoteMarket(0.01, 100, 1, { spreadBps: 10 });
+
+      expect(quote.bid).toBe(0.01);
+      expect(quote.ask).toBe(0.02);
+    });
+  });
+});
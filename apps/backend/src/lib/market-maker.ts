@@ -0,0 +1,85 @@
+import Decimal from 'decimal.js';
+import { DEFAULT_LOT_SIZE, DEFAULT_TICK_SIZE, roundToLot } from './instruments';
+
+/**
+ * Market Maker Utilities
+ *
+ * The simulated market maker quotes every symbol on each market engine tick (marketEngineTick):
+ * - Spread: MarketMakerSpreadBps of the simulated price at VolatilityIndex 1.0, scaled with
+ *   the VolatilityIndex (a 2.0 crisis regime doubles it, a calm 0.5 halves it). The bid is
+ *   rounded down and the ask up to the instrument's tick size, at least one tick apart.
+ * - Size: the tick's liquidity (MaxParticipationRate of its simulated volume) on each side,
+ *   divided by a VolatilityIndex above 1.0 and rounded down to whole lots.
+ *
+ * Orders that do not cross other participants trade with the quote: MARKET orders fill at
+ * the far side (buys at the ask, sells at the bid), so crossing the spread has a cost.
+ * Implements ADR-006: Decimal.js for all financial calculations
+ */
+
+/**
+ * Market maker settings of an exchange ([Trade].[ExchangeConfigurations])
+ */
+export interface MarketMakerSettings {
+  spreadBps: number; // Bid/ask spread in basis points of the price at VolatilityIndex 1.0
+}
+
+/**
+ * Settings used when an exchange has no configuration row (match the column defaults)
+ */
+export const DEFAULT_MARKET_MAKER_SETTINGS: MarketMakerSettings = {
+  spreadBps: 10,
+};
+
+/**
+ * Two-sided quote of the market maker for one tick
+ */
+export interface MarketMakerQuote {
+  bid: number;
+  ask: number;
+  bidSize: number; // Quantity the market maker buys at the bid this tick
+  askSize: number; // Quantity the market maker sells at the ask this tick
+}
+
+/**
+ * Build market maker settings from ExchangeConfigurations columns, falling back to defaults
+ */
+export function toMarketMakerSettings(
+  config: { MarketMakerSpreadBps?: number | null } | undefined
+): MarketMakerSettings {
+  return {
+    spreadBps: config?.MarketMakerSpreadBps ?? DEFAULT_MARKET_MAKER_SETTINGS.spreadBps,
+  };
+}
+
+/**
+ * Quote a symbol around its simulated price
+ *
+ * @param price - Simulated price (the quote's mid)
+ * @param liquidity - The tick's liquidity (see calculateTickLiquidity)
+ * @param volatilityIndex - The exchange's volatility regime (1.0 = Normal)
+ * @param settings - The exchange's market maker settings
+ * @param tickSize - The instrument's tick size
+ * @param lotSize - The instrument's lot size
+ */
+export function quoteMarket(
+  price: number,
+  liquidity: number,
+  volatilityIndex: number,
+  settings: MarketMakerSettings,
+  tickSize: number = DEFAULT_TICK_SIZE,
+  lotSize: number = DEFAULT_LOT_SIZE
+): MarketMakerQuote {
+  const tick = new Decimal(tickSize);
+  const halfSpread = new Decimal(price).times(settings.spreadBps).dividedBy(10_000).times(volatilityIndex).dividedBy(2);
+
+  const bid = Decimal.max(tick, new Decimal(price).minus(halfSpread).dividedBy(tick).floor().times(tick));
+  const ask = Decimal.max(bid.plus(tick), new Decimal(price).plus(halfSpread).dividedBy(tick).ceil().times(tick));
+  const size = roundToLot(new Decimal(liquidity).dividedBy(Decimal.max(1, volatilityIndex)).floor().toNumber(), lotSize);
+
+  return {
+    bid: bid.toNumber(),
+    ask: ask.toNumber(),
+    bidSize: size,
+    askSize: size,
+  };
+}
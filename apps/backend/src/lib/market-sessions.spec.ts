@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_MARKET_SESSION_SCHEDULE,
+  advanceMarketSessionPhase,
+  getMarketSessionPhase,
+  getMarketSessionSchedule,
+  isOrderTypeAccepted,
+  sessionTransitionAuction,
+  toMarketSessionSchedule,
+} from './market-sessions';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: vi.fn(() => 'nvarchar'),
+}));
+
+describe('market-sessions', () => {
+  const schedule = {
+    ...DEFAULT_MARKET_SESSION_SCHEDULE,
+    timeZone: 'America/New_York',
+    holidays: ['2026-12-25'],
+  };
+
+  function mockRequest(recordset: unknown[]) {
+    const request = {
+      input: vi.fn().mockReturnThis(),
+      query: vi.fn().mockResolvedValue({ recordset }),
+    };
+    return request;
+  }
+
+  describe('toMarketSessionSchedule', () => {
+    it('should use the defaults when the exchange has no configuration', () => {
+      expect(toMarketSessionSchedule(undefined)).toEqual(DEFAULT_MARKET_SESSION_SCHEDULE);
+    });
+
+    it('should parse the holidays and fall back to none when they are not valid JSON', () => {
+      expect(toMarketSessionSchedule({ SessionHolidays: '["2026-12-25"]' }).holidays).toEqual(['2026-12-25']);
+      expect(toMarketSessionSchedule({ SessionHolidays: 'not json' }).holidays).toEqual([]);
+    });
+  });
+
+  describe('getMarketSessionSchedule', () => {
+    it('should read the exchange\'s schedule', async () => {
+      const request = mockRequest([{
+        SessionTimeZone: 'Europe/London',
+        SessionOpenTime: '08:00',
+        SessionCloseTime: '16:30',
+        PreOpenMinutes: 15,
+        ClosingAuctionMinutes: 5,
+        SessionHolidays: '[]',
+      }]);
+
+      expect(await getMarketSessionSchedule(request as any, 'e1')).toEqual({
+        timeZone: 'Europe/London',
+        openTime: '08:00',
+        closeTime: '16:30',
+        preOpenMinutes: 15,
+        closingAuctionMinutes: 5,
+        holidays: [],
+      });
+      expect(request.input).toHaveBeenCalledWith('sessionExchangeId', 'uniqueidentifier', 'e1');
+    });
+  });
+
+  describe('getMarketSessionPhase', () => {
+    it('should trade continuously without a time zone', () => {
+      expect(getMarketSessionPhase(DEFAULT_MARKET_SESSION_SCHEDULE, new Date('2026-10-17T03:00:00Z'))).toBe('CONTINUOUS');
+    });
+
+    it('should follow the local clock through the trading day', () => {
+      // 2026-10-19 is a Monday; New York is UTC-4
+      expect(getMarketSessionPhase(schedule, new Date('2026-10-19T12:59:00Z'))).toBe('CLOSED');
+      expect(getMarketSessionPhase(schedule, new Date('2026-10-19T13:00:00Z'))).toBe('PRE_OPEN');
+      expect(getMarketSessionPhase(schedule, new Date('2026-10-19T13:30:00Z'))).toBe('CONTINUOUS');
+      expect(getMarketSessionPhase(schedule, new Date('2026-10-19T19:50:00Z'))).toBe('CLOSING_AUCTION');
+      expect(getMarketSessionPhase(schedule, new Date('2026-10-19T20:00:00Z'))).toBe('CLOSED');
+    });
+
+    it('should stay closed on weekends and holidays', () => {
+      expect(getMarketSessionPhase(schedule, new Date('2026-10-17T15:00:00Z'))).toBe('CLOSED');
+      expect(getMarketSessionPhase(schedule, new Date('2026-12-25T15:00:00Z'))).toBe('CLOSED');
+    });
+  });
+
+  describe('isOrderTypeAccepted', () => {
+    it('should only accept MARKET and LIMIT orders during the auction phases', () => {
+      expect(isOrderTypeAccepted('PRE_OPEN', 'LIMIT')).toBe(true);
+      expect(isOrderTypeAccepted('CLOSING_AUCTION', 'STOP')).toBe(false);
+      expect(isOrderTypeAccepted('CONTINUOUS', 'STOP_LIMIT')).toBe(true);
+      expect(isOrderTypeAccepted('CLOSED', 'MARKET')).toBe(false);
+    });
+  });
+
+  describe('sessionTransitionAuction', () => {
+    it('should open with an auction when continuous trading starts', () => {
+      expect(sessionTransitionAuction('PRE_OPEN', 'CONTINUOUS')).toBe('OPENING');
+      expect(sessionTransitionAuction('CLOSED', 'CONTINUOUS')).toBe('OPENING');
+    });
+
+    it('should close with an auction when the session closes', () => {
+      expect(sessionTransitionAuction('CLOSING_AUCTION', 'CLOSED')).toBe('CLOSING');
+      expect(sessionTransitionAuction('CONTINUOUS', 'CLOSED')).toBe('CLOSING');
+    });
+
+    it('should not run an auction on other transitions', () => {
+      expect(sessionTransitionAuction('CLOSED', 'PRE_OPEN')).toBeUndefined();
+      expect(sessionTransitionAuction('CONTINUOUS', 'CLOSING_AUCTION')).toBeUndefined();
+      expect(sessionTransitionAuction(null, 'CONTINUOUS')).toBeUndefined();
+    });
+  });
+
+  describe('advanceMarketSessionPhase', () => {
+    it('should return the previous phase when the phase changes', async () => {
+      const request = mockRequest([{ PreviousPhase: 'PRE_OPEN' }]);
+
+      expect(await advanceMarketSessionPhase(request as any, 'e1', 'CONTINUOUS')).toEqual({ previousPhase: 'PRE_OPEN' });
+      expect(request.query.mock.calls[0][0]).toContain('OUTPUT DELETED.SessionPhase');
+      expect(request.input).toHaveBeenCalledWith('sessionPhase', 'nvarchar', 'CONTINUOUS');
+    });
+
+    it('should return undefined when the phase is unchanged', async () => {
+      const request = mockRequest([]);
+
+      expect(await advanceMarketSessionPhase(request as any, 'e1', 'CONTINUOUS')).toBeUndefined();
+    });
+  });
+});
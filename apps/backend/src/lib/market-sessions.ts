@@ -0,0 +1,217 @@
+import * as sql from 'mssql';
+import { OrderType } from '../types/transaction';
+import { MarketAuctionType, MarketSessionPhase } from '../types/market-session';
+
+/**
+ * Market Session Utilities
+ *
+ * Trading-day schedules of [Trade].[ExchangeConfigurations] (see types/market-session.ts)
+ *
+ * The phase is derived from the clock in the exchange's SessionTimeZone:
+ *   CLOSED → PRE_OPEN (open - PreOpenMinutes) → CONTINUOUS (open) →
+ *   CLOSING_AUCTION (close - ClosingAuctionMinutes) → CLOSED (close)
+ * Weekends and SessionHolidays stay CLOSED. The market engine records the phase it last
+ * applied in SessionPhase; the run that changes it runs the opening auction when CONTINUOUS
+ * starts and the closing auction when CLOSED starts (lib/auctions.ts).
+ */
+
+/**
+ * Trading-day schedule of an exchange
+ */
+export interface MarketSessionSchedule {
+  timeZone: string | null; // IANA time zone; null trades continuously, 24/7
+  openTime: string; // Local HH:mm
+  closeTime: string; // Local HH:mm
+  preOpenMinutes: number;
+  closingAuctionMinutes: number;
+  holidays: string[]; // Local YYYY-MM-DD dates
+}
+
+/**
+ * Schedule used when an exchange has no configuration row (match the column defaults)
+ */
+export const DEFAULT_MARKET_SESSION_SCHEDULE: MarketSessionSchedule = {
+  timeZone: null,
+  openTime: '09:30',
+  closeTime: '16:00',
+  preOpenMinutes: 30,
+  closingAuctionMinutes: 10,
+  holidays: [],
+};
+
+/**
+ * Order types createOrder accepts in each phase (auction phases collect MARKET and LIMIT
+ * orders only; stops need a continuous market to trigger)
+ */
+export const ORDER_TYPES_BY_PHASE: Record<MarketSessionPhase, OrderType[]> = {
+  CLOSED: [],
+  PRE_OPEN: ['MARKET', 'LIMIT'],
+  CONTINUOUS: ['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT'],
+  CLOSING_AUCTION: ['MARKET', 'LIMIT'],
+};
+
+const WEEKEND_DAYS = ['Sat', 'Sun'];
+
+/**
+ * Minutes after local midnight of an HH:mm time
+ */
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Build a session schedule from ExchangeConfigurations columns, falling back to defaults
+ */
+export function toMarketSessionSchedule(
+  config: {
+    SessionTimeZone?: string | null;
+    SessionOpenTime?: string | null;
+    SessionCloseTime?: string | null;
+    PreOpenMinutes?: number | null;
+    ClosingAuctionMinutes?: number | null;
+    SessionHolidays?: string | null;
+  } | undefined
+): MarketSessionSchedule {
+  let holidays: string[];
+
+  try {
+    holidays = JSON.parse(config?.SessionHolidays || '[]');
+  } catch {
+    holidays = DEFAULT_MARKET_SESSION_SCHEDULE.holidays;
+  }
+
+  return {
+    timeZone: config?.SessionTimeZone ?? DEFAULT_MARKET_SESSION_SCHEDULE.timeZone,
+    openTime: config?.SessionOpenTime ?? DEFAULT_MARKET_SESSION_SCHEDULE.openTime,
+    closeTime: config?.SessionCloseTime ?? DEFAULT_MARKET_SESSION_SCHEDULE.closeTime,
+    preOpenMinutes: config?.PreOpenMinutes ?? DEFAULT_MARKET_SESSION_SCHEDULE.preOpenMinutes,
+    closingAuctionMinutes: config?.ClosingAuctionMinutes ?? DEFAULT_MARKET_SESSION_SCHEDULE.closingAuctionMinutes,
+    holidays,
+  };
+}
+
+/**
+ * Get the session schedule of an exchange
+ *
+ * @param request - Request to run the query on
+ * @param exchangeId - Exchange to read
+ */
+export async function getMarketSessionSchedule(
+  request: sql.Request,
+  exchangeId: string
+): Promise<MarketSessionSchedule> {
+  const result = await request
+    .input('sessionExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query(`
+      SELECT SessionTimeZone, SessionOpenTime, SessionCloseTime, PreOpenMinutes, ClosingAuctionMinutes,
+             SessionHolidays
+      FROM [Trade].[ExchangeConfigurations]
+      WHERE ExchangeId = @sessionExchangeId
+    `);
+
+  return toMarketSessionSchedule(result.recordset[0]);
+}
+
+/**
+ * Phase of an exchange's session at a point in time
+ *
+ * @param schedule - The exchange's schedule
+ * @param now - Time to evaluate (defaults to now)
+ */
+export function getMarketSessionPhase(schedule: MarketSessionSchedule, now: Date = new Date()): MarketSessionPhase {
+  if (!schedule.timeZone) {
+    return 'CONTINUOUS';
+  }
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: schedule.timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  );
+  const localDate = `${parts.year}-${parts.month}-${parts.day}`;
+
+  if (WEEKEND_DAYS.includes(parts.weekday) || schedule.holidays.includes(localDate)) {
+    return 'CLOSED';
+  }
+
+  const minute = Number(parts.hour) * 60 + Number(parts.minute);
+  const open = minutesOfDay(schedule.openTime);
+  const close = minutesOfDay(schedule.closeTime);
+
+  if (minute < open - schedule.preOpenMinutes || minute >= close) {
+    return 'CLOSED';
+  }
+  if (minute < open) {
+    return 'PRE_OPEN';
+  }
+  return minute < close - schedule.closingAuctionMinutes ? 'CONTINUOUS' : 'CLOSING_AUCTION';
+}
+
+/**
+ * Whether createOrder accepts an order type in a phase
+ */
+export function isOrderTypeAccepted(phase: MarketSessionPhase, orderType: OrderType): boolean {
+  return ORDER_TYPES_BY_PHASE[phase].includes(orderType);
+}
+
+/**
+ * Auction run when the session moves from one phase to another
+ *
+ * @param previousPhase - Phase the engine last applied (null after a schedule change)
+ * @param phase - Phase the session has moved to
+ * @returns OPENING when continuous trading starts, CLOSING when the session closes, or
+ *   undefined when no auction is due
+ */
+export function sessionTransitionAuction(
+  previousPhase: MarketSessionPhase | null,
+  phase: MarketSessionPhase
+): MarketAuctionType | undefined {
+  if (phase === 'CONTINUOUS' && (previousPhase === 'PRE_OPEN' || previousPhase === 'CLOSED')) {
+    return 'OPENING';
+  }
+  if (phase === 'CLOSED' && (previousPhase === 'CONTINUOUS' || previousPhase === 'CLOSING_AUCTION')) {
+    return 'CLOSING';
+  }
+  return undefined;
+}
+
+/**
+ * Record the phase the engine is applying
+ *
+ * Only the run that changes SessionPhase gets the previous phase back, so a transition's
+ * auction runs once.
+ *
+ * @param request - Request without RLS session context (engine-level access)
+ * @param exchangeId - Exchange being ticked
+ * @param phase - Current phase
+ * @returns The previous phase, or undefined when the phase has not changed
+ */
+export async function advanceMarketSessionPhase(
+  request: sql.Request,
+  exchangeId: string,
+  phase: MarketSessionPhase
+): Promise<{ previousPhase: MarketSessionPhase | null } | undefined> {
+  const result = await request
+    .input('sessionExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('sessionPhase', sql.NVarChar(20), phase)
+    .query<{ PreviousPhase: MarketSessionPhase | null }>(`
+      UPDATE [Trade].[ExchangeConfigurations]
+      SET SessionPhase = @sessionPhase
+      OUTPUT DELETED.SessionPhase AS PreviousPhase
+      WHERE ExchangeId = @sessionExchangeId
+        AND (SessionPhase IS NULL OR SessionPhase <> @sessionPhase)
+    `);
+
+  const row = result.recordset[0];
+  return row ? { previousPhase: row.PreviousPhase } : undefined;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAveragePrice,
+  calculateTickLiquidity,
+  matchOrderQuantity,
+} from './matching';
+
+describe('matching', () => {
+  describe('calculateTickLiquidity', () => {
+    it('should cap liquidity at the participation share of tick volume', () => {
+      expect(calculateTickLiquidity(10000, 0.25)).toBe(2500);
+    });
+
+    it('should round down to whole units', () => {
+      expect(calculateTickLiquidity(333, 0.1)).toBe(33);
+    });
+
+    it('should never be negative', () => {
+      expect(calculateTickLiquidity(0, 0.25)).toBe(0);
+    });
+  });
+
+  describe('matchOrderQuantity', () => {
+    it('should fill the whole remainder when liquidity allows', () => {
+      expect(matchOrderQuantity('order-1', 100, 40, 150, 500)).toEqual({
+        orderId: 'order-1',
+        matchedQuantity: 60,
+        matchedPrice: 150,
+        remainingQuantity: 0,
+        status: 'FILLED',
+      });
+    });
+
+    it('should partially fill when liquidity is short', () => {
+      expect(matchOrderQuantity('order-1', 1000, 0, 150, 250)).toMatchObject({
+        matchedQuantity: 250,
+        remainingQuantity: 750,
+        status: 'PARTIAL',
+      });
+    });
+
+    it('should not match when no liquidity is left', () => {
+      const result = matchOrderQuantity('order-1', 1000, 250, 150, 0);
+
+      expect(result).toMatchObject({ matchedQuantity: 0, remainingQuantity: 750, status: 'NO_MATCH' });
+      expect(result.matchedPrice).toBeUndefined();
+    });
+  });
+
+  describe('calculateAveragePrice', () => {
+    it('should use the fill price for the first fill', () => {
+      expect(calculateAveragePrice(0, null, 100, 150.5)).toBe(150.5);
+    });
+
+    it('should volume-weight subsequent fills', () => {
+      // (300 * 100 + 100 * 104) / 400 = 101
+      expect(calculateAveragePrice(300, 100, 100, 104)).toBe(101);
+    });
+
+    it('should avoid binary floating point error', () => {
+      expect(calculateAveragePrice(1, 0.1, 1, 0.2)).toBe(0.15);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import Decimal from 'decimal.js';
+import { OrderMatchResult } from '../types/market-engine';
+
+/**
+ * Order Matching Utilities
+ *
+ * Liquidity-capped fill calculations for the market engine (marketEngineTick)
+ * Implements ADR-006: Decimal.js for all financial calculations
+ */
+
+/**
+ * Quantity the engine can fill across all orders for a symbol in one tick
+ *
+ * A desk cannot trade more than a share of the market's volume without moving it, so
+ * fills are capped at the tick's simulated volume times the exchange's participation rate.
+ * Rounded down to whole units.
+ *
+ * @param tickVolume - Simulated volume of the tick
+ * @param participationRate - Share of tick volume available to orders (0–1)
+ */
+export function calculateTickLiquidity(tickVolume: number, participationRate: number): number {
+  return Decimal.max(0, new Decimal(tickVolume).times(participationRate).floor()).toNumber();
+}
+
+/**
+ * Match the unfilled remainder of an order against the liquidity left in this tick
+ *
+ * @param orderId - Order being matched
+ * @param quantity - Total order quantity
+ * @param filledQuantity - Quantity filled by earlier ticks
+ * @param fillPrice - Execution price for this tick
+ * @param availableLiquidity - Quantity still available in this tick
+ */
+export function matchOrderQuantity(
+  orderId: string,
+  quantity: number,
+  filledQuantity: number,
+  fillPrice: number,
+  availableLiquidity: number
+): OrderMatchResult {
+  const remaining = Decimal.max(0, new Decimal(quantity).minus(filledQuantity || 0));
+  const matched = Decimal.max(0, Decimal.min(remaining, availableLiquidity));
+  const remainingAfterFill = remaining.minus(matched);
+
+  let status: OrderMatchResult['status'] = 'NO_MATCH';
+  if (matched.greaterThan(0)) {
+    status = remainingAfterFill.isZero() ? 'FILLED' : 'PARTIAL';
+  }
+
+  return {
+    orderId,
+    matchedQuantity: matched.toNumber(),
+    matchedPrice: matched.greaterThan(0) ? fillPrice : undefined,
+    remainingQuantity: remainingAfterFill.toNumber(),
+    status,
+  };
+}
+
+/**
+ * Volume-weighted average price of an order after adding a fill
+ *
+ * @param filledQuantity - Quantity filled before this fill
+ * @param averagePrice - Average price of earlier fills (ignored when nothing was filled)
+ * @param fillQuantity - Quantity of this fill
+ * @param fillPrice - Price of this fill
+ */
+export function calculateAveragePrice(
+  filledQuantity: number,
+  averagePrice: number | null | undefined,
+  fillQuantity: number,
+  fillPrice: number
+): number {
+  const previousQuantity = new Decimal(filledQuantity || 0);
+  const totalQuantity = previousQuantity.plus(fillQuantity);
+
+  if (totalQuantity.isZero()) {
+    return fillPrice;
+  }
+
+  const previousNotional = previousQuantity.isZero()
+    ? new Decimal(0)
+    : previousQuantity.times(averagePrice || 0);
+
+  return previousNotional
+    .plus(new Decimal(fillQuantity).times(fillPrice))
+    .dividedBy(totalQuantity)
+    .toNumber();
+}
@@ -80,6 +80,155 @@ describe('openapi-registry', () => {
       expect(spec.paths?.['/api/v1/exchanges']?.post?.tags).toContain('Exchanges');
     });
 
+    it('should have GET methods for order list and detail', () => {
+      const spec = generateOpenAPISpec();
+
+      expect(spec.paths?.['/api/v1/orders']?.get?.summary).toBe('List orders');
+      expect(spec.paths?.['/api/v1/orders']?.get?.parameters).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'sortBy', in: 'query' }),
+          expect.objectContaining({ name: 'limit', in: 'query' }),
+        ])
+      );
+      expect(spec.paths?.['/api/v1/orders/{orderId}']?.get?.summary).toBe('Get an order');
+      expect(spec.paths?.['/api/v1/orders/{orderId}']?.get?.responses?.['404']).toBeDefined();
+    });
+
+    it('should have GET method for /api/v1/executions', () => {
+      const spec = generateOpenAPISpec();
+
+      expect(spec.paths?.['/api/v1/executions']?.get?.summary).toBe('List executions');
+      expect(spec.paths?.['/api/v1/executions']?.get?.tags).toContain('Executions');
+      expect(spec.paths?.['/api/v1/executions']?.get?.parameters).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'from', in: 'query' }),
+          expect.objectContaining({ name: 'to', in: 'query' }),
+        ])
+      );
+    });
+
+    it('should have GET method for /api/v1/marketdata/depth', () => {
+      const spec = generateOpenAPISpec();
+
+      expect(spec.paths?.['/api/v1/marketdata/depth']?.get?.summary).toBe('Get market depth');
+      expect(spec.paths?.['/api/v1/marketdata/depth']?.get?.tags).toContain('Market Data');
+      expect(spec.paths?.['/api/v1/marketdata/depth']?.get?.parameters).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'symbol', in: 'query' }),
+          expect.objectContaining({ name: 'levels', in: 'query' }),
+        ])
+      );
+    });
+
+    it('should have GET methods for /api/v1/portfolios', () => {
+      const spec = generateOpenAPISpec();
+
+      expect(spec.paths?.['/api/v1/portfolios']?.get?.summary).toBe('List portfolios');
+      expect(spec.paths?.['/api/v1/portfolios']?.get?.tags).toContain('Portfolios');
+      expect(spec.paths?.['/api/v1/portfolios/{portfolioId}']?.get?.summary).toBe('Get a portfolio');
+      expect(spec.paths?.['/api/v1/portfolios/{portfolioId}']?.get?.responses?.['404']).toBeDefined();
+    });
+
+    it('should have exchange CRUD methods for /api/v1/exchanges', () => {
+      const spec = generateOpenAPISpec();
+      const exchangePath = spec.paths?.['/api/v1/exchanges/{exchangeId}'];
+
+      expect(spec.paths?.['/api/v1/exchanges']?.get?.summary).toBe('List exchanges');
+      expect(exchangePath?.get?.summary).toBe('Get an exchange');
+      expect(exchangePath?.put?.requestBody).toBeDefined();
+      expect(exchangePath?.delete?.responses?.['204']).toBeDefined();
+    });
+
+    it('should have member management methods for /api/v1/exchanges/{exchangeId}/members', () => {
+      const spec = generateOpenAPISpec();
+
+      expect(spec.paths?.['/api/v1/exchanges/{exchangeId}/members']?.get?.summary).toBe('List exchange members');
+      expect(spec.paths?.['/api/v1/exchanges/{exchangeId}/members']?.post?.responses?.['409']).toBeDefined();
+      expect(spec.paths?.['/api/v1/exchanges/{exchangeId}/members/{userId}']?.put?.responses?.['409']).toBeDefined();
+      expect(spec.paths?.['/api/v1/exchanges/{exchangeId}/members/{userId}']?.delete?.responses?.['204']).toBeDefined();
+    });
+
+    it('should have PUT method for /api/v1/exchange/config', () => {
+      const spec = generateOpenAPISpec();
+      const configPath = spec.paths?.['/api/v1/exchange/config'];
+
+      expect(configPath?.put?.summary).toBe('Update exchange configuration');
+      expect(configPath?.put?.requestBody).toBeDefined();
+      expect(configPath?.put?.responses?.['403']).toBeDefined();
+    });
+
+    it('should have feature flag paths under /api/v1/exchanges/{exchangeId}/flags', () => {
+      const spec = generateOpenAPISpec();
+      const flagPath = spec.paths?.['/api/v1/exchanges/{exchangeId}/flags/{featureName}'];
+
+      expect(spec.paths?.['/api/v1/exchanges/{exchangeId}/flags']?.get?.summary).toBe('List feature flags');
+      expect(flagPath?.put?.summary).toBe('Set a feature flag');
+      expect(flagPath?.put?.requestBody).toBeDefined();
+      expect(flagPath?.delete?.responses?.['204']).toBeDefined();
+    });
+
+    it('should have instrument paths under /api/v1/instruments', () => {
+      const spec = generateOpenAPISpec();
+      const instrumentPath = spec.paths?.['/api/v1/instruments/{symbol}'];
+
+      expect(spec.paths?.['/api/v1/instruments']?.get?.tags).toContain('Instruments');
+      expect(spec.paths?.['/api/v1/instruments']?.post?.responses?.['409']).toBeDefined();
+      expect(instrumentPath?.get?.summary).toBe('Get an instrument');
+      expect(instrumentPath?.put?.requestBody).toBeDefined();
+      expect(instrumentPath?.delete?.responses?.['204']).toBeDefined();
+    });
+
+    it('should document the price model on exchange configurations and instruments', () => {
+      const spec = generateOpenAPISpec();
+
+      expect(spec.components?.schemas?.PriceModelType).toMatchObject({ enum: ['GBM', 'MERTON', 'OU'] });
+      expect(spec.components?.schemas?.UpdateExchangeConfig).toMatchObject({
+        properties: expect.objectContaining({ priceModel: expect.anything(), jumpIntensity: expect.anything() }),
+      });
+      expect(spec.components?.schemas?.InstrumentResponse).toMatchObject({
+        properties: expect.objectContaining({ priceModel: expect.anything() }),
+      });
+    });
+
+    it('should have listing paths under /api/v1/exchanges/{exchangeId}/instruments', () => {
+      const spec = generateOpenAPISpec();
+      const listingPath = spec.paths?.['/api/v1/exchanges/{exchangeId}/instruments/{symbol}'];
+
+      expect(spec.paths?.['/api/v1/exchanges/{exchangeId}/instruments']?.get?.summary).toBe('List exchange instruments');
+      expect(listingPath?.put?.responses?.['200']).toBeDefined();
+      expect(listingPath?.delete?.responses?.['204']).toBeDefined();
+    });
+
+    it('should have scenario paths under /api/v1/exchanges/{exchangeId}/scenarios', () => {
+      const spec = generateOpenAPISpec();
+      const scenariosPath = spec.paths?.['/api/v1/exchanges/{exchangeId}/scenarios'];
+      const actionPath = spec.paths?.['/api/v1/exchanges/{exchangeId}/scenarios/{scenarioId}/{action}'];
+
+      expect(scenariosPath?.get?.tags).toContain('Scenarios');
+      expect(scenariosPath?.post?.responses?.['201']).toBeDefined();
+      expect(actionPath?.post?.responses?.['409']).toBeDefined();
+      expect(spec.components?.schemas?.ScenarioEvent).toBeDefined();
+    });
+
+    it('should have POST method for /api/v1/exchanges/{exchangeId}/portfolios', () => {
+      const spec = generateOpenAPISpec();
+
+      const path = spec.paths?.['/api/v1/exchanges/{exchangeId}/portfolios'];
+      expect(path?.post?.summary).toBe('Create a portfolio');
+      expect(path?.post?.responses?.['201']).toBeDefined();
+      expect(path?.post?.responses?.['409']).toBeDefined();
+    });
+
+    it('should have DELETE and PATCH methods for /api/v1/orders/{orderId}', () => {
+      const spec = generateOpenAPISpec();
+      const orderPath = spec.paths?.['/api/v1/orders/{orderId}'];
+
+      expect(orderPath?.delete?.summary).toBe('Cancel an order');
+      expect(orderPath?.patch?.summary).toBe('Amend an order');
+      expect(orderPath?.delete?.responses?.['409']).toBeDefined();
+      expect(orderPath?.patch?.requestBody).toBeDefined();
+    });
+
     it('should include error response schemas', () => {
       const spec = generateOpenAPISpec();
 
@@ -90,6 +239,7 @@ describe('openapi-registry', () => {
       expect(responses['400']).toBeDefined();
       expect(responses['401']).toBeDefined();
       expect(responses['403']).toBeDefined();
+      expect(responses['409']).toBeDefined();
       expect(responses['500']).toBeDefined();
     });
 
@@ -6,12 +6,47 @@ import {
   OrderTypeSchema,
   OrderStatusSchema,
   CancelOrderSchema,
+  AmendOrderSchema,
   GetOrderQuerySchema,
+  GetOrderSchema,
+  GetExecutionsQuerySchema,
   GetPortfolioSchema,
+  GetPortfoliosQuerySchema,
+  CreatePortfolioParamsSchema,
+  CreatePortfolioSchema,
+  MarginStatusSchema,
 } from '../types/transaction';
 import {
   CreateExchangeSchema,
+  UpdateExchangeSchema,
+  ExchangeRoleSchema,
+  ExchangeParamsSchema,
+  ExchangeMemberParamsSchema,
+  GetExchangeMembersQuerySchema,
+  AddExchangeMemberSchema,
+  UpdateExchangeMemberSchema,
+  RemoveExchangeMemberQuerySchema,
+  ExchangeConfigQuerySchema,
+  UpdateExchangeConfigSchema,
+  FeatureFlagParamsSchema,
+  SetFeatureFlagSchema,
 } from '../types/exchange';
+import {
+  AssetClassSchema,
+  InstrumentParamsSchema,
+  ExchangeInstrumentParamsSchema,
+  ListInstrumentsQuerySchema,
+  CreateInstrumentSchema,
+  UpdateInstrumentSchema,
+} from '../types/instrument';
+import { PriceModelTypeSchema } from '../types/market-engine';
+import { GetMarketDepthQuerySchema, MarketDepthSideSchema } from '../types/market-depth';
+import {
+  ScenarioEventSchema,
+  ScenarioStatusSchema,
+  ScenarioActionParamsSchema,
+  CreateScenarioSchema,
+} from '../types/scenario';
 
 /**
  * OpenAPI Registry for AssetSim Pro API
@@ -37,12 +72,27 @@ const ErrorResponseSchema = z.object({
 
 registry.register('ErrorResponse', ErrorResponseSchema);
 
+/**
+ * RFC 7807 error response entry for registerPath responses
+ */
+function errorResponse(description: string) {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: ErrorResponseSchema,
+      },
+    },
+  };
+}
+
 // Register order-related schemas
 registry.register('OrderSide', OrderSideSchema);
 registry.register('OrderType', OrderTypeSchema);
 registry.register('OrderStatus', OrderStatusSchema);
 registry.register('CreateOrder', CreateOrderSchema);
 registry.register('CancelOrder', CancelOrderSchema);
+registry.register('AmendOrder', AmendOrderSchema);
 registry.register('GetOrderQuery', GetOrderQuerySchema);
 
 // Order response schema
@@ -59,14 +109,75 @@ const OrderResponseSchema = z.object({
   status: OrderStatusSchema,
   filledQuantity: z.number(),
   averagePrice: z.number().optional(),
+  commission: z.number().describe('Total commission charged across the order\'s fills'),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
 
 registry.register('OrderResponse', OrderResponseSchema);
 
+// Paged order list response schema
+const OrderListResponseSchema = z.object({
+  items: z.array(OrderResponseSchema),
+  total: z.number().int().describe('Total number of orders matching the filters'),
+  limit: z.number().int(),
+  offset: z.number().int(),
+});
+
+registry.register('OrderListResponse', OrderListResponseSchema);
+
+// Execution (fill) response schemas
+registry.register('GetExecutionsQuery', GetExecutionsQuerySchema);
+
+const ExecutionResponseSchema = z.object({
+  executionId: z.string().uuid(),
+  orderId: z.string().uuid(),
+  exchangeId: z.string().uuid(),
+  portfolioId: z.string().uuid(),
+  symbol: z.string(),
+  side: OrderSideSchema,
+  quantity: z.number(),
+  price: z.number(),
+  commission: z.number(),
+  executedAt: z.string().datetime(),
+});
+
+const ExecutionListResponseSchema = z.object({
+  items: z.array(ExecutionResponseSchema),
+  total: z.number().int().describe('Total number of executions matching the filters'),
+  limit: z.number().int(),
+  offset: z.number().int(),
+});
+
+registry.register('ExecutionResponse', ExecutionResponseSchema);
+registry.register('ExecutionListResponse', ExecutionListResponseSchema);
+
+// Market depth (L2 order book) schemas
+registry.register('GetMarketDepthQuery', GetMarketDepthQuerySchema);
+registry.register('MarketDepthSide', MarketDepthSideSchema);
+
+const MarketDepthLevelSchema = z.object({
+  price: z.number(),
+  quantity: z.number().describe('Remaining quantity of the resting orders at this price'),
+  orderCount: z.number().int(),
+  ownQuantity: z.number().describe('Part of quantity from the caller\'s own orders'),
+});
+
+const MarketDepthSnapshotSchema = z.object({
+  exchangeId: z.string().uuid(),
+  symbol: z.string(),
+  bids: z.array(MarketDepthLevelSchema).describe('Buy levels, highest price first'),
+  asks: z.array(MarketDepthLevelSchema).describe('Sell levels, lowest price first'),
+  sequence: z.number().int().describe('Last DepthUpdate sequence reflected in the snapshot; apply only later updates'),
+  timestamp: z.string().datetime(),
+});
+
+registry.register('MarketDepthLevel', MarketDepthLevelSchema);
+registry.register('MarketDepthSnapshot', MarketDepthSnapshotSchema);
+
 // Register exchange-related schemas
 registry.register('CreateExchange', CreateExchangeSchema);
+registry.register('UpdateExchange', UpdateExchangeSchema);
 
 // Exchange response schema
 const ExchangeResponseSchema = z.object({
@@ -74,18 +185,140 @@ const ExchangeResponseSchema = z.object({
   name: z.string(),
   createdAt: z.string().datetime(),
   createdBy: z.string().uuid(),
+  roles: z.array(ExchangeRoleSchema).optional().describe('The caller\'s roles (list, get and update responses)'),
 });
 
+const ExchangeListResponseSchema = z.array(ExchangeResponseSchema);
+
 registry.register('ExchangeResponse', ExchangeResponseSchema);
 
+// Exchange membership schemas
+const ExchangeRoleResponseSchema = z.object({
+  exchangeId: z.string().uuid(),
+  userId: z.string().uuid(),
+  role: ExchangeRoleSchema,
+  assignedAt: z.string().datetime(),
+  portfolioId: z.string().uuid().optional().describe('Set when assigning PortfolioManager provisioned a portfolio'),
+});
+
+const ExchangeMemberListResponseSchema = z.object({
+  items: z.array(ExchangeRoleResponseSchema),
+  total: z.number().int().describe('Total number of role assignments in the exchange'),
+  limit: z.number().int(),
+  offset: z.number().int(),
+});
+
+registry.register('ExchangeRole', ExchangeRoleSchema);
+registry.register('ExchangeRoleResponse', ExchangeRoleResponseSchema);
+registry.register('ExchangeMemberListResponse', ExchangeMemberListResponseSchema);
+registry.register('AddExchangeMember', AddExchangeMemberSchema);
+registry.register('UpdateExchangeMember', UpdateExchangeMemberSchema);
+
+// Exchange configuration schemas (ADR-021)
+const ExchangeConfigResponseSchema = z.object({
+  initialAum: z.number().describe('StartingCash funded into new portfolios'),
+  commissionBps: z.number().describe('Basis points of notional (BPS) or amount per order (FLAT)'),
+  commissionModel: z.enum(['FLAT', 'BPS']),
+  allowMargin: z.boolean(),
+  volatilityIndex: z.number().describe('1.0 = Normal, 2.0 = High/Crisis'),
+  dashboardLayout: z.array(z.string()),
+  maxPortfolioSize: z.number().int(),
+  tickIntervalMs: z.number().int(),
+  volatility: z.number(),
+  marketEngineEnabled: z.boolean(),
+  priceModel: PriceModelTypeSchema,
+  drift: z.number().describe('Expected log return per tick (GBM, MERTON)'),
+  jumpIntensity: z.number().describe('Expected jumps per tick (MERTON)'),
+  jumpMean: z.number().describe('Mean log jump size (MERTON)'),
+  jumpVolatility: z.number().describe('Standard deviation of the log jump size (MERTON)'),
+  meanReversion: z.number().describe('Reversion speed towards the instrument BasePrice per tick (OU)'),
+  marketCorrelation: z.number().describe('Shock variance share of the market factor for a beta-1 symbol'),
+  sectorCorrelation: z.number().describe('Shock variance share of the sector factor'),
+  simulationSeed: z.number().int().nullable().describe('Seed for reproducible price paths (null = unseeded)'),
+  luldBand: z.number().nullable().describe('Limit-up/limit-down band around the 5-minute average price (null = disabled)'),
+  luldHaltSeconds: z.number().int().describe('Length of a LULD halt'),
+  circuitBreakerThreshold: z.number().nullable().describe('Index drop since the day\'s first ticks that halts the exchange (null = disabled)'),
+  circuitBreakerHaltSeconds: z.number().int().describe('Length of a market-wide circuit breaker halt'),
+  sessionTimeZone: z.string().nullable().describe('IANA time zone of the trading day (null = trades 24/7)'),
+  sessionOpenTime: z.string().describe('Local HH:mm of the opening auction'),
+  sessionCloseTime: z.string().describe('Local HH:mm of the closing auction'),
+  preOpenMinutes: z.number().int().describe('Minutes before the open that orders are collected for the opening auction'),
+  closingAuctionMinutes: z.number().int().describe('Minutes before the close that orders are collected for the closing auction'),
+  sessionHolidays: z.array(z.string()).describe('Local YYYY-MM-DD dates without a session'),
+  marketMakerSpreadBps: z.number().describe('Market maker bid/ask spread in basis points at VolatilityIndex 1.0'),
+});
+
+registry.register('UpdateExchangeConfig', UpdateExchangeConfigSchema);
+registry.register('ExchangeConfigResponse', ExchangeConfigResponseSchema);
+
+// Feature flag schemas (ADR-021)
+const ExchangeFeatureFlagResponseSchema = z.object({
+  featureName: z.string(),
+  description: z.string().optional().describe('Unset for stored flags missing from the registry'),
+  defaultEnabled: z.boolean().optional(),
+  isEnabled: z.boolean().describe('The override switch (before targeting), else the registry default'),
+  isOverridden: z.boolean(),
+  rolloutPercentage: z.number().int().optional().describe('Share of users in scope who get the flag (deterministic per user)'),
+  targetRoles: z.array(ExchangeRoleSchema).optional(),
+  targetUserIds: z.array(z.string().uuid()).optional().describe('Users who always get the flag'),
+  updatedAt: z.string().datetime().optional(),
+});
+
+registry.register('SetFeatureFlag', SetFeatureFlagSchema);
+registry.register('ExchangeFeatureFlagResponse', ExchangeFeatureFlagResponseSchema);
+
+// Instrument master schemas
+const InstrumentResponseSchema = z.object({
+  symbol: z.string(),
+  companyName: z.string(),
+  sector: z.string().nullable(),
+  assetClass: AssetClassSchema,
+  basePrice: z.number().describe('Reference price the simulation starts from'),
+  volatilityMultiplier: z.number().describe('Scales the exchange volatility for this symbol'),
+  tickSize: z.number().describe('Minimum price increment'),
+  lotSize: z.number().describe('Minimum volume increment'),
+  priceModel: PriceModelTypeSchema.nullable().describe('Overrides the exchange price model; null inherits it'),
+  beta: z.number().describe('Loading on the exchange market factor'),
+});
+
+registry.register('AssetClass', AssetClassSchema);
+registry.register('PriceModelType', PriceModelTypeSchema);
+registry.register('CreateInstrument', CreateInstrumentSchema);
+registry.register('UpdateInstrument', UpdateInstrumentSchema);
+const ExchangeInstrumentResponseSchema = InstrumentResponseSchema.extend({
+  listedAt: z.string().datetime(),
+  listedBy: z.string().uuid().nullable().describe('RiskManager who listed the symbol; null when listed at exchange creation'),
+});
+
+registry.register('InstrumentResponse', InstrumentResponseSchema);
+registry.register('ExchangeInstrumentResponse', ExchangeInstrumentResponseSchema);
+
+// Market scenario schemas
+const ScenarioResponseSchema = z.object({
+  scenarioId: z.string().uuid(),
+  exchangeId: z.string().uuid(),
+  name: z.string(),
+  status: ScenarioStatusSchema,
+  events: z.array(ScenarioEventSchema).describe('Timeline ordered by atSeconds'),
+  elapsedSeconds: z.number().describe('Running time so far (paused time excluded)'),
+  nextEventIndex: z.number().int().describe('Events before this index have been applied'),
+  createdAt: z.string().datetime(),
+  createdBy: z.string().uuid(),
+});
+
+registry.register('ScenarioEvent', ScenarioEventSchema);
+registry.register('ScenarioStatus', ScenarioStatusSchema);
+registry.register('CreateScenario', CreateScenarioSchema);
+registry.register('ScenarioResponse', ScenarioResponseSchema);
+
 // Portfolio response schemas
 const PositionResponseSchema = z.object({
   symbol: z.string(),
   quantity: z.number(),
   averagePrice: z.number(),
   currentPrice: z.number(),
-  unrealizedPnL: z.number(),
-  realizedPnL: z.number(),
+  unrealizedPnL: z.number().describe('Signed (currentPrice - averagePrice) * quantity'),
+  realizedPnL: z.number().describe('P&L locked in by reducing fills under the exchange cost basis method (AVERAGE or FIFO)'),
 });
 
 const PortfolioResponseSchema = z.object({
@@ -93,13 +326,26 @@ const PortfolioResponseSchema = z.object({
   exchangeId: z.string().uuid(),
   name: z.string(),
   cashBalance: z.number(),
-  totalValue: z.number(),
+  totalValue: z.number().describe('Cash balance plus signed market value of all positions'),
+  unrealizedPnL: z.number().describe('Sum of position unrealized P&L'),
+  realizedPnL: z.number().describe('Realized P&L accumulated across all positions, including closed ones'),
+  marginStatus: MarginStatusSchema,
   positions: z.array(PositionResponseSchema),
 });
 
+const PortfolioListResponseSchema = z.object({
+  items: z.array(PortfolioResponseSchema),
+  total: z.number().int().describe('Total number of portfolios visible to the caller'),
+  limit: z.number().int(),
+  offset: z.number().int(),
+});
+
 registry.register('PositionResponse', PositionResponseSchema);
 registry.register('PortfolioResponse', PortfolioResponseSchema);
+registry.register('PortfolioListResponse', PortfolioListResponseSchema);
 registry.register('GetPortfolio', GetPortfolioSchema);
+registry.register('GetPortfoliosQuery', GetPortfoliosQuerySchema);
+registry.register('CreatePortfolioRequest', CreatePortfolioSchema);
 
 // Register API endpoints
 
@@ -152,6 +398,14 @@ registry.registerPath({
         },
       },
     },
+    409: {
+      description: 'Trading halted or market closed - The symbol or the whole exchange is halted (scenario, LULD or circuit breaker), or the session phase does not accept the order type',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
     500: {
       description: 'Internal server error',
       content: {
@@ -164,6 +418,266 @@ registry.registerPath({
   security: [{ bearerAuth: [] }],
 });
 
+// GET /api/v1/orders
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/orders',
+  summary: 'List orders',
+  description: 'Lists orders visible to the caller in an exchange, with filters, sorting and total-count paging metadata',
+  tags: ['Orders'],
+  request: {
+    query: GetOrderQuerySchema,
+  },
+  responses: {
+    200: {
+      description: 'Page of orders',
+      content: {
+        'application/json': {
+          schema: OrderListResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/orders/{orderId}
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/orders/{orderId}',
+  summary: 'Get an order',
+  description: 'Retrieves a single order visible to the caller',
+  tags: ['Orders'],
+  request: {
+    params: GetOrderSchema.pick({ orderId: true }),
+    query: GetOrderSchema.pick({ exchangeId: true }),
+  },
+  responses: {
+    200: {
+      description: 'Order details',
+      content: {
+        'application/json': {
+          schema: OrderResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    404: errorResponse('Order not found'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// DELETE /api/v1/orders/{orderId}
+registry.registerPath({
+  method: 'delete',
+  path: '/api/v1/orders/{orderId}',
+  summary: 'Cancel an order',
+  description: 'Cancels the unfilled remainder of a PENDING or PARTIAL order and releases its reserved cash',
+  tags: ['Orders'],
+  request: {
+    params: z.object({ orderId: z.string().uuid() }),
+    query: z.object({ exchangeId: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      description: 'Order cancelled successfully',
+      content: {
+        'application/json': {
+          schema: OrderResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    404: errorResponse('Order not found'),
+    409: errorResponse('Order is already FILLED, CANCELLED or REJECTED'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// PATCH /api/v1/orders/{orderId}
+registry.registerPath({
+  method: 'patch',
+  path: '/api/v1/orders/{orderId}',
+  summary: 'Amend an order',
+  description: 'Replaces the quantity, limit price or stop price of a PENDING or PARTIAL order',
+  tags: ['Orders'],
+  request: {
+    params: z.object({ orderId: z.string().uuid() }),
+    body: {
+      content: {
+        'application/json': {
+          schema: AmendOrderSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Order amended successfully',
+      content: {
+        'application/json': {
+          schema: OrderResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error or insufficient funds'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    404: errorResponse('Order not found'),
+    409: errorResponse('Order is already FILLED, CANCELLED or REJECTED'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/executions
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/executions',
+  summary: 'List executions',
+  description: 'Lists individual fills from the executions ledger, filtered by portfolio, order, symbol and time',
+  tags: ['Executions'],
+  request: {
+    query: GetExecutionsQuerySchema,
+  },
+  responses: {
+    200: {
+      description: 'Page of executions',
+      content: {
+        'application/json': {
+          schema: ExecutionListResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/marketdata/depth
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/marketdata/depth',
+  summary: 'Get market depth',
+  description: 'Level 2 snapshot of a symbol\'s order book: resting limit orders aggregated by price, with the caller\'s own size per level. Incremental updates follow as DepthUpdate events on ticker:{exchangeId}',
+  tags: ['Market Data'],
+  request: {
+    query: GetMarketDepthQuerySchema,
+  },
+  responses: {
+    200: {
+      description: 'Market depth snapshot',
+      content: {
+        'application/json': {
+          schema: MarketDepthSnapshotSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/portfolios
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/portfolios',
+  summary: 'List portfolios',
+  description: 'Lists the portfolios visible to the caller in an exchange, with positions marked to market',
+  tags: ['Portfolios'],
+  request: {
+    query: GetPortfoliosQuerySchema,
+  },
+  responses: {
+    200: {
+      description: 'Page of portfolios',
+      content: {
+        'application/json': {
+          schema: PortfolioListResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// POST /api/v1/exchanges/{exchangeId}/portfolios
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/exchanges/{exchangeId}/portfolios',
+  summary: 'Create a portfolio',
+  description: 'Creates a portfolio for the caller funded with the exchange StartingCash, up to MaxPortfolioSize per exchange',
+  tags: ['Portfolios'],
+  request: {
+    params: CreatePortfolioParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreatePortfolioSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: 'Portfolio created',
+      content: {
+        'application/json': {
+          schema: PortfolioResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - Analysts cannot own portfolios'),
+    404: errorResponse('Exchange not found'),
+    409: errorResponse('Exchange has reached MaxPortfolioSize'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/portfolios/{portfolioId}
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/portfolios/{portfolioId}',
+  summary: 'Get a portfolio',
+  description: 'Retrieves a portfolio with its positions valued at the current quote',
+  tags: ['Portfolios'],
+  request: {
+    params: GetPortfolioSchema.pick({ portfolioId: true }),
+    query: GetPortfolioSchema.pick({ exchangeId: true }),
+  },
+  responses: {
+    200: {
+      description: 'Portfolio details',
+      content: {
+        'application/json': {
+          schema: PortfolioResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    404: errorResponse('Portfolio not found'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
 // POST /api/v1/exchanges
 registry.registerPath({
   method: 'post',
@@ -217,29 +731,698 @@ registry.registerPath({
   security: [{ bearerAuth: [] }],
 });
 
-/**
- * Generate OpenAPI v3 specification
- */
-export function generateOpenAPISpec() {
-  const generator = new OpenApiGeneratorV3(registry.definitions);
+// GET /api/v1/exchanges
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/exchanges',
+  summary: 'List exchanges',
+  description: 'Lists the active exchanges the caller holds a role in, with the caller\'s roles',
+  tags: ['Exchanges'],
+  responses: {
+    200: {
+      description: 'Exchanges the caller is a member of, oldest first',
+      content: {
+        'application/json': {
+          schema: ExchangeListResponseSchema,
+        },
+      },
+    },
+    401: errorResponse('Unauthorized - Authentication required'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
 
-  const document = generator.generateDocument({
-    openapi: '3.0.0',
-    info: {
-      title: 'AssetSim Pro API',
-      version: '1.0.0',
-      description: 'Enterprise-grade simulation platform API for Asset Management Firms, Hedge Funds, and Proprietary Trading Desks',
-      contact: {
-        name: 'AssetSim Pro Support',
-        url: 'https://assetsim.com',
+// GET /api/v1/exchanges/{exchangeId}
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/exchanges/{exchangeId}',
+  summary: 'Get an exchange',
+  description: 'Retrieves an active exchange with the caller\'s roles (any member)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeParamsSchema,
+  },
+  responses: {
+    200: {
+      description: 'Exchange details',
+      content: {
+        'application/json': {
+          schema: ExchangeResponseSchema,
+        },
       },
     },
-    servers: [
-      {
-        url: 'https://api.assetsim.com',
-        description: 'Production API',
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    404: errorResponse('Exchange not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// PUT /api/v1/exchanges/{exchangeId}
+registry.registerPath({
+  method: 'put',
+  path: '/api/v1/exchanges/{exchangeId}',
+  summary: 'Rename an exchange',
+  description: 'Renames an active exchange (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateExchangeSchema,
+        },
       },
-      {
+    },
+  },
+  responses: {
+    200: {
+      description: 'Exchange renamed',
+      content: {
+        'application/json': {
+          schema: ExchangeResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// DELETE /api/v1/exchanges/{exchangeId}
+registry.registerPath({
+  method: 'delete',
+  path: '/api/v1/exchanges/{exchangeId}',
+  summary: 'Archive an exchange',
+  description: 'Soft-deletes an exchange: stops its market engine and purges cached quotes; trading history is kept (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeParamsSchema,
+  },
+  responses: {
+    204: {
+      description: 'Exchange archived',
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found or already archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/exchanges/{exchangeId}/members
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/exchanges/{exchangeId}/members',
+  summary: 'List exchange members',
+  description: 'Lists the role assignments of an exchange (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeParamsSchema,
+    query: GetExchangeMembersQuerySchema,
+  },
+  responses: {
+    200: {
+      description: 'Page of role assignments',
+      content: {
+        'application/json': {
+          schema: ExchangeMemberListResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// POST /api/v1/exchanges/{exchangeId}/members
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/exchanges/{exchangeId}/members',
+  summary: 'Assign a role',
+  description: 'Assigns a role to a user, adding them to the exchange; PortfolioManagers get their first portfolio (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: AddExchangeMemberSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: 'Role assigned',
+      content: {
+        'application/json': {
+          schema: ExchangeRoleResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found'),
+    409: errorResponse('User already holds the role'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// PUT /api/v1/exchanges/{exchangeId}/members/{userId}
+registry.registerPath({
+  method: 'put',
+  path: '/api/v1/exchanges/{exchangeId}/members/{userId}',
+  summary: 'Change a member\'s role',
+  description: 'Replaces the member\'s roles with the requested role (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeMemberParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateExchangeMemberSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Role changed',
+      content: {
+        'application/json': {
+          schema: ExchangeRoleResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange or member not found'),
+    409: errorResponse('Cannot demote the last RiskManager'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// DELETE /api/v1/exchanges/{exchangeId}/members/{userId}
+registry.registerPath({
+  method: 'delete',
+  path: '/api/v1/exchanges/{exchangeId}/members/{userId}',
+  summary: 'Revoke a role',
+  description: 'Revokes one role, or removes the member when role is omitted (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeMemberParamsSchema,
+    query: RemoveExchangeMemberQuerySchema,
+  },
+  responses: {
+    204: {
+      description: 'Role(s) revoked',
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found or member does not hold the role'),
+    409: errorResponse('Cannot remove the last RiskManager'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// PUT /api/v1/exchange/config
+registry.registerPath({
+  method: 'put',
+  path: '/api/v1/exchange/config',
+  summary: 'Update exchange configuration',
+  description: 'Partially updates the exchange simulation rules, invalidates the cached configuration and notifies connected clients (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    query: ExchangeConfigQuerySchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateExchangeConfigSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Configuration after the update',
+      content: {
+        'application/json': {
+          schema: ExchangeConfigResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/exchanges/{exchangeId}/flags
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/exchanges/{exchangeId}/flags',
+  summary: 'List feature flags',
+  description: 'Lists every registry feature flag with its effective value, followed by stored overrides for unknown names (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeParamsSchema,
+  },
+  responses: {
+    200: {
+      description: 'Feature flags for the exchange',
+      content: {
+        'application/json': {
+          schema: z.array(ExchangeFeatureFlagResponseSchema),
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// PUT /api/v1/exchanges/{exchangeId}/flags/{featureName}
+registry.registerPath({
+  method: 'put',
+  path: '/api/v1/exchanges/{exchangeId}/flags/{featureName}',
+  summary: 'Set a feature flag',
+  description: 'Overrides a registry feature flag for the exchange, optionally targeted to roles, users or a percentage rollout, and notifies connected clients (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: FeatureFlagParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: SetFeatureFlagSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Feature flag after the update',
+      content: {
+        'application/json': {
+          schema: ExchangeFeatureFlagResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error or unknown feature flag'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// DELETE /api/v1/exchanges/{exchangeId}/flags/{featureName}
+registry.registerPath({
+  method: 'delete',
+  path: '/api/v1/exchanges/{exchangeId}/flags/{featureName}',
+  summary: 'Reset a feature flag',
+  description: 'Removes the override so the flag reverts to its registry default, and notifies connected clients (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: FeatureFlagParamsSchema,
+  },
+  responses: {
+    204: {
+      description: 'Override removed',
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found, archived, or no override stored'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/instruments
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/instruments',
+  summary: 'List instruments',
+  description: 'Lists active instruments from the global instrument master, by symbol',
+  tags: ['Instruments'],
+  request: {
+    query: ListInstrumentsQuerySchema,
+  },
+  responses: {
+    200: {
+      description: 'Active instruments',
+      content: {
+        'application/json': {
+          schema: z.array(InstrumentResponseSchema),
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// POST /api/v1/instruments
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/instruments',
+  summary: 'Create an instrument',
+  description: 'Adds an instrument to the instrument master, or restores an archived symbol with the new values (platform administrators only)',
+  tags: ['Instruments'],
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateInstrumentSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: 'Instrument created',
+      content: {
+        'application/json': {
+          schema: InstrumentResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - admin role required'),
+    409: errorResponse('An active instrument already uses the symbol'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/instruments/{symbol}
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/instruments/{symbol}',
+  summary: 'Get an instrument',
+  description: 'Returns an active instrument with its simulation parameters',
+  tags: ['Instruments'],
+  request: {
+    params: InstrumentParamsSchema,
+  },
+  responses: {
+    200: {
+      description: 'Instrument details',
+      content: {
+        'application/json': {
+          schema: InstrumentResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    404: errorResponse('Instrument not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// PUT /api/v1/instruments/{symbol}
+registry.registerPath({
+  method: 'put',
+  path: '/api/v1/instruments/{symbol}',
+  summary: 'Update an instrument',
+  description: 'Partially updates an active instrument; the generators pick up new parameters on their next tick (platform administrators only)',
+  tags: ['Instruments'],
+  request: {
+    params: InstrumentParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateInstrumentSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Instrument after the update',
+      content: {
+        'application/json': {
+          schema: InstrumentResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - admin role required'),
+    404: errorResponse('Instrument not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// DELETE /api/v1/instruments/{symbol}
+registry.registerPath({
+  method: 'delete',
+  path: '/api/v1/instruments/{symbol}',
+  summary: 'Archive an instrument',
+  description: 'Soft-deletes an instrument so it stops ticking; positions and history are kept (platform administrators only)',
+  tags: ['Instruments'],
+  request: {
+    params: InstrumentParamsSchema,
+  },
+  responses: {
+    204: {
+      description: 'Instrument archived',
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - admin role required'),
+    404: errorResponse('Instrument not found or already archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/exchanges/{exchangeId}/instruments
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/exchanges/{exchangeId}/instruments',
+  summary: 'List exchange instruments',
+  description: 'Lists the active instruments listed (tradable) on the exchange, by symbol',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeParamsSchema,
+  },
+  responses: {
+    200: {
+      description: 'Listed instruments',
+      content: {
+        'application/json': {
+          schema: z.array(ExchangeInstrumentResponseSchema),
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    404: errorResponse('Exchange not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// PUT /api/v1/exchanges/{exchangeId}/instruments/{symbol}
+registry.registerPath({
+  method: 'put',
+  path: '/api/v1/exchanges/{exchangeId}/instruments/{symbol}',
+  summary: 'List an instrument on an exchange',
+  description: 'Makes an instrument tradable on the exchange and ticked by the market engine; idempotent (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeInstrumentParamsSchema,
+  },
+  responses: {
+    200: {
+      description: 'The listing',
+      content: {
+        'application/json': {
+          schema: ExchangeInstrumentResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange or instrument not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// DELETE /api/v1/exchanges/{exchangeId}/instruments/{symbol}
+registry.registerPath({
+  method: 'delete',
+  path: '/api/v1/exchanges/{exchangeId}/instruments/{symbol}',
+  summary: 'Delist an instrument from an exchange',
+  description: 'Stops trading and ticking the symbol on the exchange and cancels its open orders (RiskManager only)',
+  tags: ['Exchanges'],
+  request: {
+    params: ExchangeInstrumentParamsSchema,
+  },
+  responses: {
+    204: {
+      description: 'Instrument delisted',
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found, archived, or symbol not listed'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/v1/exchanges/{exchangeId}/scenarios
+registry.registerPath({
+  method: 'get',
+  path: '/api/v1/exchanges/{exchangeId}/scenarios',
+  summary: 'List market scenarios',
+  description: 'Lists the exchange\'s market scenarios, newest first, with their progress (RiskManager only)',
+  tags: ['Scenarios'],
+  request: {
+    params: ExchangeParamsSchema,
+  },
+  responses: {
+    200: {
+      description: 'Scenarios of the exchange',
+      content: {
+        'application/json': {
+          schema: z.array(ScenarioResponseSchema),
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// POST /api/v1/exchanges/{exchangeId}/scenarios
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/exchanges/{exchangeId}/scenarios',
+  summary: 'Upload a market scenario',
+  description: 'Stores a READY timeline of volatility regimes, gap moves and trading halts for the market engine to apply once started (RiskManager only)',
+  tags: ['Scenarios'],
+  request: {
+    params: ExchangeParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateScenarioSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: 'Scenario created',
+      content: {
+        'application/json': {
+          schema: ScenarioResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange not found or archived'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// POST /api/v1/exchanges/{exchangeId}/scenarios/{scenarioId}/{action}
+registry.registerPath({
+  method: 'post',
+  path: '/api/v1/exchanges/{exchangeId}/scenarios/{scenarioId}/{action}',
+  summary: 'Start, pause or reset a market scenario',
+  description: 'start runs a READY scenario or continues a PAUSED one; pause stops its clock; reset rewinds it, lifts its halts and restores the exchange VolatilityIndex (RiskManager only)',
+  tags: ['Scenarios'],
+  request: {
+    params: ScenarioActionParamsSchema,
+  },
+  responses: {
+    200: {
+      description: 'Scenario after the transition',
+      content: {
+        'application/json': {
+          schema: ScenarioResponseSchema,
+        },
+      },
+    },
+    400: errorResponse('Validation error'),
+    401: errorResponse('Unauthorized - Authentication required'),
+    403: errorResponse('Forbidden - RiskManager role required'),
+    404: errorResponse('Exchange or scenario not found'),
+    409: errorResponse('Transition not allowed from the current status, or another scenario is in progress'),
+    500: errorResponse('Internal server error'),
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+/**
+ * Generate OpenAPI v3 specification
+ */
+export function generateOpenAPISpec() {
+  const generator = new OpenApiGeneratorV3(registry.definitions);
+
+  const document = generator.generateDocument({
+    openapi: '3.0.0',
+    info: {
+      title: 'AssetSim Pro API',
+      version: '1.0.0',
+      description: 'Enterprise-grade simulation platform API for Asset Management Firms, Hedge Funds, and Proprietary Trading Desks',
+      contact: {
+        name: 'AssetSim Pro Support',
+        url: 'https://assetsim.com',
+      },
+    },
+    servers: [
+      {
+        url: 'https://api.assetsim.com',
+        description: 'Production API',
+      },
+      {
         url: 'https://api-staging.assetsim.com',
         description: 'Staging API',
       },
@@ -253,9 +1436,29 @@ export function generateOpenAPISpec() {
         name: 'Orders',
         description: 'Order management endpoints',
       },
+      {
+        name: 'Executions',
+        description: 'Fill ledger for compliance review and P&L reconstruction',
+      },
+      {
+        name: 'Market Data',
+        description: 'Order book depth snapshots',
+      },
+      {
+        name: 'Portfolios',
+        description: 'Portfolio valuation and positions',
+      },
       {
         name: 'Exchanges',
-        description: 'Exchange (simulation venue) management',
+        description: 'Exchange (simulation venue), membership and configuration management',
+      },
+      {
+        name: 'Instruments',
+        description: 'Global instrument master and per-instrument simulation parameters',
+      },
+      {
+        name: 'Scenarios',
+        description: 'Scripted market scenarios: volatility regimes, gap moves and trading halts',
       },
     ],
   });
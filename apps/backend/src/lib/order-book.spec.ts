@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { buildOrderBook, fillBookOrder, nextBookTrade, removeBookOrder } from './order-book';
+
+describe('order-book', () => {
+  const QUOTE = { bid: 99.95, ask: 100.05 };
+
+  describe('buildOrderBook', () => {
+    it('should sort bids highest first and asks lowest first, keeping time priority', () => {
+      const book = buildOrderBook(
+        [
+          { orderId: 'b1', portfolioId: 'buyer', isBuying: true, limitPrice: 99, quantity: 10 },
+          { orderId: 's1', portfolioId: 'seller', isBuying: false, limitPrice: 102, quantity: 10 },
+          { orderId: 'b2', portfolioId: 'buyer', isBuying: true, limitPrice: 101, quantity: 10 },
+          { orderId: 'b3', portfolioId: 'buyer', isBuying: true, limitPrice: 99, quantity: 10 },
+          { orderId: 's2', portfolioId: 'seller', isBuying: false, limitPrice: 101, quantity: 10 },
+        ],
+        QUOTE
+      );
+
+      expect(book.bids.map((order) => order.orderId)).toEqual(['b2', 'b1', 'b3']);
+      expect(book.asks.map((order) => order.orderId)).toEqual(['s2', 's1']);
+    });
+
+    it('should rank MARKET orders at the far side of the quote, ahead of limits at that price', () => {
+      const book = buildOrderBook(
+        [
+          { orderId: 'b1', portfolioId: 'buyer', isBuying: true, limitPrice: 100.05, quantity: 10 },
+          { orderId: 'b2', portfolioId: 'buyer', isBuying: true, limitPrice: 101, quantity: 10 },
+          { orderId: 'b3', portfolioId: 'buyer', isBuying: true, limitPrice: null, quantity: 10 },
+          { orderId: 's1', portfolioId: 'seller', isBuying: false, limitPrice: 99.9, quantity: 10 },
+          { orderId: 's2', portfolioId: 'seller', isBuying: false, limitPrice: null, quantity: 10 },
+          { orderId: 's3', portfolioId: 'seller', isBuying: false, limitPrice: 100, quantity: 10 },
+        ],
+        QUOTE
+      );
+
+      expect(book.bids.map((order) => order.orderId)).toEqual(['b2', 'b3', 'b1']);
+      expect(book.asks.map((order) => order.orderId)).toEqual(['s1', 's2', 's3']);
+    });
+  });
+
+  describe('nextBookTrade', () => {
+    it('should cross at the resting order\'s price', () => {
+      const book = buildOrderBook(
+        [
+          { orderId: 's1', portfolioId: 'seller', isBuying: false, limitPrice: 99, quantity: 30 },
+          { orderId: 'b1', portfolioId: 'buyer', isBuying: true, limitPrice: 101, quantity: 50 },
+        ],
+        QUOTE
+      );
+
+      expect(nextBookTrade(book, QUOTE)).toEqual({ buyOrderId: 'b1', sellOrderId: 's1', price: 99, quantity: 30 });
+    });
+
+    it('should cross MARKET orders with each other at the resting order\'s side of the quote', () => {
+      const book = buildOrderBook(
+        [
+          { orderId: 'b1', portfolioId: 'buyer', isBuying: true, limitPrice: null, quantity: 10 },
+          { orderId: 's1', portfolioId: 'seller', isBuying: false, limitPrice: null, quantity: 10 },
+        ],
+        QUOTE
+      );
+
+      expect(nextBookTrade(book, QUOTE)?.price).toBe(100.05);
+    });
+
+    it('should not cross when the best bid is below the best ask', () => {
+      const book = buildOrderBook(
+        [
+          { orderId: 'b1', portfolioId: 'buyer', isBuying: true, limitPrice: null, quantity: 10 },
+          { orderId: 's1', portfolioId: 'seller', isBuying: false, limitPrice: 105, quantity: 10 },
+        ],
+        QUOTE
+      );
+
+      expect(nextBookTrade(book, QUOTE)).toBeUndefined();
+    });
+
+    it('should take the newer order of a self-cross out of the book and cross the older one with others', () => {
+      const book = buildOrderBook(
+        [
+          { orderId: 's1', portfolioId: 'trader', isBuying: false, limitPrice: 99, quantity: 30 },
+          { orderId: 'b1', portfolioId: 'trader', isBuying: true, limitPrice: 101, quantity: 30 },
+          { orderId: 'b2', portfolioId: 'buyer', isBuying: true, limitPrice: 100, quantity: 10 },
+        ],
+        QUOTE
+      );
+
+      expect(nextBookTrade(book, QUOTE)).toEqual({ buyOrderId: 'b2', sellOrderId: 's1', price: 99, quantity: 10 });
+      expect(book.bids.map((order) => order.orderId)).toEqual(['b2']);
+    });
+
+    it('should not cross when only the same portfolio is on the other side', () => {
+      const book = buildOrderBook(
+        [
+          { orderId: 'b1', portfolioId: 'trader', isBuying: true, limitPrice: null, quantity: 10 },
+          { orderId: 's1', portfolioId: 'trader', isBuying: false, limitPrice: 99, quantity: 10 },
+        ],
+        QUOTE
+      );
+
+      expect(nextBookTrade(book, QUOTE)).toBeUndefined();
+      expect(book.bids.map((order) => order.orderId)).toEqual(['b1']);
+      expect(book.asks).toEqual([]);
+    });
+  });
+
+  describe('fillBookOrder and removeBookOrder', () => {
+    it('should reduce orders by their fills and remove them once complete', () => {
+      const book = buildOrderBook(
+        [
+          { orderId: 'b1', portfolioId: 'buyer', isBuying: true, limitPrice: 100, quantity: 50 },
+          { orderId: 's1', portfolioId: 'seller', isBuying: false, limitPrice: 100, quantity: 30 },
+          { orderId: 's2', portfolioId: 'seller', isBuying: false, limitPrice: 100, quantity: 30 },
+        ],
+        QUOTE
+      );
+
+      fillBookOrder(book, 'b1', 30);
+      fillBookOrder(book, 's1', 30);
+
+      expect(book.bids).toEqual([expect.objectContaining({ orderId: 'b1', quantity: 20 })]);
+      expect(nextBookTrade(book, QUOTE)).toEqual({ buyOrderId: 'b1', sellOrderId: 's2', price: 100, quantity: 20 });
+
+      removeBookOrder(book, 's2');
+
+      expect(nextBookTrade(book, QUOTE)).toBeUndefined();
+    });
+  });
+});
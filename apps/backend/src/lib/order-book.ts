@@ -0,0 +1,150 @@
+import Decimal from 'decimal.js';
+import { MarketMakerQuote } from './market-maker';
+
+/**
+ * Central Limit Order Book Utilities
+ *
+ * In-process order book of one exchange symbol, rebuilt by the market engine
+ * (marketEngineTick) from the open orders on every tick, so every Function instance sees the
+ * same book without shared memory:
+ * 1. Bids are sorted by price, highest first, and asks lowest first; MARKET orders are priced
+ *    at the market maker's quote they would otherwise trade with (buys at the ask, sells at the
+ *    bid) and go ahead of limits at that price. Equal prices keep time priority (oldest first).
+ * 2. The best bid and ask cross while the bid is at or above the ask. The trade prints at the
+ *    price of the older (resting) order, or at that order's side of the quote when both are
+ *    MARKET orders.
+ * 3. Orders of the same portfolio never trade with each other (self-trade prevention): when
+ *    the best bid and ask belong to one portfolio, the newer of the two leaves the book for the
+ *    tick and the older one stays to cross with other participants.
+ * 4. Whatever does not cross between participants falls back to the simulated market maker.
+ *
+ * Uses Decimal.js for quantities (ADR-006).
+ */
+
+/**
+ * An open order in the book
+ */
+export interface BookOrder {
+  orderId: string;
+  portfolioId: string;
+  isBuying: boolean; // BUY and COVER buy, SELL and SHORT sell
+  limitPrice: number | null; // null for MARKET orders (and triggered STOP orders)
+  quantity: number; // Quantity still to fill
+}
+
+/**
+ * An order resting in the book with its time priority
+ */
+export interface RestingOrder extends BookOrder {
+  sequence: number; // Position in time priority (0 = oldest)
+}
+
+/**
+ * Order book of one symbol, best price first on each side
+ */
+export interface OrderBook {
+  bids: RestingOrder[];
+  asks: RestingOrder[];
+}
+
+/**
+ * A cross between the best bid and the best ask
+ */
+export interface BookTrade {
+  buyOrderId: string;
+  sellOrderId: string;
+  price: number;
+  quantity: number;
+}
+
+/**
+ * The market maker's prices MARKET orders compete at
+ */
+export type BookQuote = Pick<MarketMakerQuote, 'bid' | 'ask'>;
+
+/**
+ * Price an order competes at (MARKET orders at the far side of the quote)
+ */
+function bookPrice(order: BookOrder, quote: BookQuote): number {
+  return order.limitPrice ?? (order.isBuying ? quote.ask : quote.bid);
+}
+
+/**
+ * Build the book from open orders in time priority (oldest first)
+ *
+ * @param orders - Open orders of the symbol, oldest first
+ * @param quote - The market maker's quote, used to rank MARKET orders
+ */
+export function buildOrderBook(orders: BookOrder[], quote: BookQuote): OrderBook {
+  const resting = orders
+    .filter((order) => order.quantity > 0)
+    .map((order, sequence) => ({ ...order, sequence }));
+  const priority = (direction: 1 | -1) => (a: RestingOrder, b: RestingOrder) =>
+    direction * (bookPrice(a, quote) - bookPrice(b, quote))
+    || (a.limitPrice === null ? 0 : 1) - (b.limitPrice === null ? 0 : 1)
+    || a.sequence - b.sequence;
+
+  return {
+    bids: resting.filter((order) => order.isBuying).sort(priority(-1)),
+    asks: resting.filter((order) => !order.isBuying).sort(priority(1)),
+  };
+}
+
+/**
+ * The next trade between the best bid and the best ask
+ *
+ * Self-crosses are prevented by taking the newer order of a same-portfolio pair out of the book.
+ *
+ * @param book - The symbol's book
+ * @param quote - The market maker's quote
+ * @returns The cross, or undefined when the best bid is below the best ask (or a side is empty)
+ */
+export function nextBookTrade(book: OrderBook, quote: BookQuote): BookTrade | undefined {
+  let bid = book.bids[0];
+  let ask = book.asks[0];
+
+  while (bid && ask && bookPrice(bid, quote) >= bookPrice(ask, quote) && bid.portfolioId === ask.portfolioId) {
+    removeBookOrder(book, bid.sequence > ask.sequence ? bid.orderId : ask.orderId);
+    bid = book.bids[0];
+    ask = book.asks[0];
+  }
+
+  if (!bid || !ask || bookPrice(bid, quote) < bookPrice(ask, quote)) {
+    return undefined;
+  }
+
+  const resting = bid.sequence < ask.sequence ? bid : ask;
+  const aggressor = resting === bid ? ask : bid;
+
+  return {
+    buyOrderId: bid.orderId,
+    sellOrderId: ask.orderId,
+    price: resting.limitPrice ?? aggressor.limitPrice ?? bookPrice(resting, quote),
+    quantity: Decimal.min(bid.quantity, ask.quantity).toNumber(),
+  };
+}
+
+/**
+ * Reduce a booked order by a fill, removing it once nothing is left
+ */
+export function fillBookOrder(book: OrderBook, orderId: string, quantity: number): void {
+  for (const side of [book.bids, book.asks]) {
+    const index = side.findIndex((order) => order.orderId === orderId);
+    if (index >= 0) {
+      const remaining = new Decimal(side[index].quantity).minus(quantity);
+      if (remaining.lessThanOrEqualTo(0)) {
+        side.splice(index, 1);
+      } else {
+        side[index] = { ...side[index], quantity: remaining.toNumber() };
+      }
+    }
+  }
+}
+
+/**
+ * Take an order out of the book (e.g. when it cannot fill in this tick)
+ */
+export function removeBookOrder(book: OrderBook, orderId: string): void {
+  book.bids = book.bids.filter((order) => order.orderId !== orderId);
+  book.asks = book.asks.filter((order) => order.orderId !== orderId);
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  calculateReservedCash,
+  getOpenOrderQuantity,
+  getReservedCash,
+  isOpenOrderStatus,
+  mapOrderRecord,
+  orderColumns,
+  OrderRecord,
+} from './orders';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: 'nvarchar',
+}));
+
+describe('orders', () => {
+  const record: OrderRecord = {
+    OrderId: 'order-1',
+    ExchangeId: 'exchange-1',
+    PortfolioId: 'portfolio-1',
+    Symbol: 'AAPL',
+    Side: 'BUY',
+    OrderType: 'LIMIT',
+    Quantity: 100,
+    Price: 150.25,
+    StopPrice: null,
+    Status: 'PARTIAL',
+    FilledQuantity: 30,
+    AveragePrice: 150.1,
+    Commission: 7.52,
+    CreatedAt: '2026-01-19T00:00:00.000Z',
+    UpdatedAt: '2026-01-19T00:01:00.000Z',
+  };
+
+  describe('orderColumns', () => {
+    it('should qualify columns with the given prefix', () => {
+      expect(orderColumns('INSERTED')).toContain('INSERTED.[OrderId]');
+      expect(orderColumns()).toMatch(/^\[OrderId\], /);
+    });
+  });
+
+  describe('isOpenOrderStatus', () => {
+    it('should treat only PENDING and PARTIAL as open', () => {
+      expect(isOpenOrderStatus('PENDING')).toBe(true);
+      expect(isOpenOrderStatus('PARTIAL')).toBe(true);
+      expect(isOpenOrderStatus('FILLED')).toBe(false);
+      expect(isOpenOrderStatus('CANCELLED')).toBe(false);
+      expect(isOpenOrderStatus('REJECTED')).toBe(false);
+    });
+  });
+
+  describe('mapOrderRecord', () => {
+    it('should map database columns to the API response', () => {
+      expect(mapOrderRecord(record)).toEqual({
+        orderId: 'order-1',
+        exchangeId: 'exchange-1',
+        portfolioId: 'portfolio-1',
+        symbol: 'AAPL',
+        side: 'BUY',
+        orderType: 'LIMIT',
+        quantity: 100,
+        price: 150.25,
+        stopPrice: undefined,
+        status: 'PARTIAL',
+        filledQuantity: 30,
+        averagePrice: 150.1,
+        commission: 7.52,
+        createdAt: '2026-01-19T00:00:00.000Z',
+        updatedAt: '2026-01-19T00:01:00.000Z',
+      });
+    });
+  });
+
+  describe('calculateReservedCash', () => {
+    it('should reserve the unfilled notional of an open BUY order', () => {
+      expect(calculateReservedCash(record).toNumber()).toBe(10517.5);
+    });
+
+    it('should reserve the unfilled notional of an open COVER order', () => {
+      expect(calculateReservedCash({ ...record, Side: 'COVER' }).toNumber()).toBe(10517.5);
+    });
+
+    it('should reserve nothing for SELL, SHORT, unpriced or closed orders', () => {
+      expect(calculateReservedCash({ ...record, Side: 'SELL' }).toNumber()).toBe(0);
+      expect(calculateReservedCash({ ...record, Side: 'SHORT' }).toNumber()).toBe(0);
+      expect(calculateReservedCash({ ...record, Price: null }).toNumber()).toBe(0);
+      expect(calculateReservedCash({ ...record, Status: 'CANCELLED' }).toNumber()).toBe(0);
+    });
+  });
+
+  describe('getReservedCash', () => {
+    it('should exclude the given order and return the summed reservation', async () => {
+      const request = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn().mockResolvedValue({ recordset: [{ ReservedCash: 2500.5 }] }),
+      };
+
+      const reserved = await getReservedCash(request as any, 'portfolio-1', 'order-1');
+
+      expect(reserved.toNumber()).toBe(2500.5);
+      expect(request.input).toHaveBeenCalledWith('excludeOrderId', 'uniqueidentifier', 'order-1');
+    });
+
+    it('should default to zero when the portfolio has no open BUY orders', async () => {
+      const request = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn().mockResolvedValue({ recordset: [{ ReservedCash: null }] }),
+      };
+
+      const reserved = await getReservedCash(request as any, 'portfolio-1');
+
+      expect(reserved.toNumber()).toBe(0);
+      expect(request.input).toHaveBeenCalledWith('excludeOrderId', 'uniqueidentifier', null);
+    });
+  });
+
+  describe('getOpenOrderQuantity', () => {
+    it('should total the unfilled quantity of open orders on one side of a symbol', async () => {
+      const request = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn().mockResolvedValue({ recordset: [{ OpenQuantity: 40 }] }),
+      };
+
+      const open = await getOpenOrderQuantity(request as any, 'portfolio-1', 'AAPL', 'SELL');
+
+      expect(open.toNumber()).toBe(40);
+      expect(request.input).toHaveBeenCalledWith('openSymbol', 'nvarchar', 'AAPL');
+      expect(request.input).toHaveBeenCalledWith('openSide', 'nvarchar', 'SELL');
+      expect(request.input).toHaveBeenCalledWith('openExcludeOrderId', 'uniqueidentifier', null);
+    });
+
+    it('should leave out the given order', async () => {
+      const request = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn().mockResolvedValue({ recordset: [{ OpenQuantity: 10 }] }),
+      };
+
+      await getOpenOrderQuantity(request as any, 'portfolio-1', 'AAPL', 'SELL', 'order-1');
+
+      expect(request.input).toHaveBeenCalledWith('openExcludeOrderId', 'uniqueidentifier', 'order-1');
+    });
+  });
+});
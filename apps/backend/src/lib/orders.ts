@@ -0,0 +1,181 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import { OrderResponse, OrderSide, OrderStatus } from '../types/transaction';
+
+/**
+ * Order Utilities
+ *
+ * Shared helpers for the Transaction API order endpoints
+ * Implements ADR-006: Decimal.js for all financial calculations
+ */
+
+/**
+ * Order statuses that can still be amended, cancelled or matched
+ */
+export const OPEN_ORDER_STATUSES: readonly OrderStatus[] = ['PENDING', 'PARTIAL'];
+
+/**
+ * Database record shape for [Trade].[Orders]
+ */
+export interface OrderRecord {
+  OrderId: string;
+  ExchangeId: string;
+  PortfolioId: string;
+  Symbol: string;
+  Side: OrderResponse['side'];
+  OrderType: OrderResponse['orderType'];
+  Quantity: number;
+  Price: number | null;
+  StopPrice: number | null;
+  Status: OrderStatus;
+  FilledQuantity: number;
+  AveragePrice?: number | null;
+  Commission: number;
+  CreatedAt: string;
+  UpdatedAt: string;
+}
+
+/**
+ * Column list matching OrderRecord, for SELECT and OUTPUT clauses
+ *
+ * @param prefix - Table alias or pseudo-table (e.g. INSERTED) to qualify columns with
+ */
+export function orderColumns(prefix?: string): string {
+  const qualifier = prefix ? `${prefix}.` : '';
+  return [
+    'OrderId',
+    'ExchangeId',
+    'PortfolioId',
+    'Symbol',
+    'Side',
+    'OrderType',
+    'Quantity',
+    'Price',
+    'StopPrice',
+    'Status',
+    'FilledQuantity',
+    'AveragePrice',
+    'Commission',
+    'CreatedAt',
+    'UpdatedAt',
+  ]
+    .map((column) => `${qualifier}[${column}]`)
+    .join(', ');
+}
+
+/**
+ * Whether an order in the given status can still be modified
+ */
+export function isOpenOrderStatus(status: OrderStatus): boolean {
+  return OPEN_ORDER_STATUSES.includes(status);
+}
+
+/**
+ * Map an order database record to the API response shape (ADR-006)
+ */
+export function mapOrderRecord(order: OrderRecord): OrderResponse {
+  return {
+    orderId: order.OrderId,
+    exchangeId: order.ExchangeId,
+    portfolioId: order.PortfolioId,
+    symbol: order.Symbol,
+    side: order.Side,
+    orderType: order.OrderType,
+    quantity: new Decimal(order.Quantity).toNumber(),
+    price: order.Price ? new Decimal(order.Price).toNumber() : undefined,
+    stopPrice: order.StopPrice ? new Decimal(order.StopPrice).toNumber() : undefined,
+    status: order.Status,
+    filledQuantity: new Decimal(order.FilledQuantity).toNumber(),
+    averagePrice: order.AveragePrice ? new Decimal(order.AveragePrice).toNumber() : undefined,
+    commission: new Decimal(order.Commission || 0).toNumber(),
+    createdAt: order.CreatedAt,
+    updatedAt: order.UpdatedAt,
+  };
+}
+
+/**
+ * Sides whose fills pay cash (BUY opens or adds to a long, COVER buys back a short)
+ */
+export const CASH_PAYING_SIDES: readonly OrderSide[] = ['BUY', 'COVER'];
+
+/**
+ * Cash reserved by an order: the unfilled notional of an open BUY or COVER order with a limit price.
+ * MARKET and STOP orders have no known price and reserve nothing until they are matched.
+ */
+export function calculateReservedCash(
+  order: Pick<OrderRecord, 'Side' | 'Status' | 'Quantity' | 'FilledQuantity' | 'Price'>
+) {
+  if (!CASH_PAYING_SIDES.includes(order.Side) || !order.Price || !isOpenOrderStatus(order.Status)) {
+    return new Decimal(0);
+  }
+
+  const remainingQuantity = new Decimal(order.Quantity).minus(order.FilledQuantity || 0);
+  return Decimal.max(0, remainingQuantity).times(order.Price);
+}
+
+/**
+ * Total cash reserved by a portfolio's open BUY and COVER orders
+ *
+ * Cash is reserved implicitly: available cash is CashBalance minus the unfilled notional of
+ * open priced BUY and COVER orders, so cancelling or filling an order releases its reservation.
+ *
+ * @param request - Request bound to the caller's connection or transaction
+ * @param portfolioId - Portfolio whose reservations to total
+ * @param excludeOrderId - Order to leave out (e.g. the order being amended)
+ */
+export async function getReservedCash(
+  request: sql.Request,
+  portfolioId: string,
+  excludeOrderId?: string
+) {
+  const result = await request
+    .input('reservedPortfolioId', sql.UniqueIdentifier, portfolioId)
+    .input('excludeOrderId', sql.UniqueIdentifier, excludeOrderId ?? null)
+    .query<{ ReservedCash: number | null }>(`
+      SELECT ISNULL(SUM(([Quantity] - [FilledQuantity]) * [Price]), 0) AS ReservedCash
+      FROM [Trade].[Orders]
+      WHERE [PortfolioId] = @reservedPortfolioId
+        AND [Side] IN ('BUY', 'COVER')
+        AND [Status] IN ('PENDING', 'PARTIAL')
+        AND [Price] IS NOT NULL
+        AND (@excludeOrderId IS NULL OR [OrderId] <> @excludeOrderId)
+    `);
+
+  return new Decimal(result.recordset[0]?.ReservedCash ?? 0);
+}
+
+/**
+ * Unfilled quantity of a portfolio's open orders on one side of a symbol
+ *
+ * Used to stop SELL and COVER orders from together exceeding the position they close.
+ *
+ * @param request - Request bound to the caller's connection or transaction
+ * @param portfolioId - Portfolio whose orders to total
+ * @param symbol - Symbol of the orders
+ * @param side - Side of the orders
+ * @param excludeOrderId - Order to leave out (e.g. the one being amended)
+ */
+export async function getOpenOrderQuantity(
+  request: sql.Request,
+  portfolioId: string,
+  symbol: string,
+  side: OrderSide,
+  excludeOrderId?: string
+) {
+  const result = await request
+    .input('openPortfolioId', sql.UniqueIdentifier, portfolioId)
+    .input('openSymbol', sql.NVarChar, symbol)
+    .input('openSide', sql.NVarChar, side)
+    .input('openExcludeOrderId', sql.UniqueIdentifier, excludeOrderId ?? null)
+    .query<{ OpenQuantity: number | null }>(`
+      SELECT ISNULL(SUM([Quantity] - [FilledQuantity]), 0) AS OpenQuantity
+      FROM [Trade].[Orders]
+      WHERE [PortfolioId] = @openPortfolioId
+        AND [Symbol] = @openSymbol
+        AND [Side] = @openSide
+        AND [Status] IN ('PENDING', 'PARTIAL')
+        AND (@openExcludeOrderId IS NULL OR [OrderId] <> @openExcludeOrderId)
+    `);
+
+  return new Decimal(result.recordset[0]?.OpenQuantity ?? 0);
+}
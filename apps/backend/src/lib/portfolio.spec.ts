@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('./cache');
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: vi.fn(() => 'nvarchar'),
+  MAX: 'max',
+  Money: 'money',
+}));
+
+import {
+  DEFAULT_PORTFOLIO_NAME,
+  buildPortfolioResponse,
+  getCurrentPrices,
+  portfolioColumns,
+  provisionPortfolio,
+  valuePosition,
+} from './portfolio';
+import * as cache from './cache';
+
+describe('portfolio', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('portfolioColumns', () => {
+    it('should qualify columns with the given prefix', () => {
+      expect(portfolioColumns('INSERTED')).toContain('INSERTED.[CashBalance]');
+      expect(portfolioColumns()).toMatch(/^\[PortfolioId\], /);
+    });
+  });
+
+  describe('valuePosition', () => {
+    it('should compute signed unrealized P&L', () => {
+      expect(valuePosition({ Symbol: 'X', Quantity: -10, AveragePrice: 20, RealizedPnL: 3 }, 18.5)).toEqual({
+        symbol: 'X',
+        quantity: -10,
+        averagePrice: 20,
+        currentPrice: 18.5,
+        unrealizedPnL: 15,
+        realizedPnL: 3,
+      });
+    });
+  });
+
+  describe('buildPortfolioResponse', () => {
+    it('should fall back to the average price for unpriced symbols', () => {
+      const response = buildPortfolioResponse(
+        { PortfolioId: 'p1', ExchangeId: 'e1', Name: 'Main', CashBalance: 100, RealizedPnL: null, MarginStatus: null },
+        [{ PortfolioId: 'p1', Symbol: 'NEW', Quantity: 2, AveragePrice: 25, RealizedPnL: null }],
+        new Map()
+      );
+
+      expect(response.totalValue).toBe(150);
+      expect(response.marginStatus).toBe('OK');
+      expect(response.positions[0]).toMatchObject({ currentPrice: 25, unrealizedPnL: 0, realizedPnL: 0 });
+    });
+
+    it('should total unrealized P&L and report the portfolio realized P&L', () => {
+      const response = buildPortfolioResponse(
+        { PortfolioId: 'p1', ExchangeId: 'e1', Name: 'Main', CashBalance: 100, RealizedPnL: 42.5, MarginStatus: 'OK' },
+        [
+          { PortfolioId: 'p1', Symbol: 'A', Quantity: 10, AveragePrice: 10, RealizedPnL: 20 },
+          { PortfolioId: 'p1', Symbol: 'B', Quantity: -5, AveragePrice: 20, RealizedPnL: 0 },
+        ],
+        new Map([['A', 11], ['B', 21]])
+      );
+
+      expect(response.unrealizedPnL).toBe(5); // 10 * 1 - 5 * 1
+      expect(response.realizedPnL).toBe(42.5); // Includes positions closed since
+    });
+  });
+
+  describe('getCurrentPrices', () => {
+    it('should only query market data for symbols without a cached quote', async () => {
+      vi.mocked(cache.getQuote).mockImplementation(async (_exchangeId, symbol) =>
+        symbol === 'AAPL' ? { price: 150, timestamp: '2026-01-19T10:00:00.000Z' } : null
+      );
+      const request = {
+        input: vi.fn().mockReturnThis(),
+        query: vi.fn().mockResolvedValue({ recordset: [{ Symbol: 'MSFT', Close: 300 }] }),
+      };
+
+      const prices = await getCurrentPrices(request as any, 'e1', ['AAPL', 'MSFT']);
+
+      expect(prices).toEqual(new Map([['AAPL', 150], ['MSFT', 300]]));
+      expect(request.input).toHaveBeenCalledWith('priceSymbols', 'nvarchar', JSON.stringify(['MSFT']));
+    });
+
+    it('should not query the database when every symbol is cached', async () => {
+      vi.mocked(cache.getQuote).mockResolvedValue({ price: 1, timestamp: '2026-01-19T10:00:00.000Z' });
+      const request = { input: vi.fn().mockReturnThis(), query: vi.fn() };
+
+      await getCurrentPrices(request as any, 'e1', ['AAPL']);
+
+      expect(request.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('provisionPortfolio', () => {
+    const createTransaction = (...results: unknown[]) => {
+      const input = vi.fn().mockReturnThis();
+      const query = vi.fn();
+      results.forEach((result) => query.mockResolvedValueOnce(result));
+      return { input, query, transaction: { request: vi.fn().mockReturnValue({ input, query }) } };
+    };
+
+    it('should fund the portfolio from StartingCash', async () => {
+      const portfolio = { PortfolioId: 'p1', ExchangeId: 'e1', Name: DEFAULT_PORTFOLIO_NAME, CashBalance: 250000 };
+      const { input, transaction } = createTransaction(
+        { recordset: [{ StartingCash: 250000, MaxPortfolioSize: 2, PortfolioCount: 1 }] },
+        { recordset: [portfolio] }
+      );
+
+      const result = await provisionPortfolio(transaction as any, 'e1', 'u1');
+
+      expect(result).toEqual({ status: 'CREATED', portfolio });
+      expect(input).toHaveBeenCalledWith('provisionCash', 'money', 250000);
+      expect(input).toHaveBeenCalledWith('provisionName', expect.anything(), DEFAULT_PORTFOLIO_NAME);
+    });
+
+    it('should not insert once the exchange reaches MaxPortfolioSize', async () => {
+      const { query, transaction } = createTransaction(
+        { recordset: [{ StartingCash: 250000, MaxPortfolioSize: 2, PortfolioCount: 2 }] }
+      );
+
+      const result = await provisionPortfolio(transaction as any, 'e1', 'u1', 'Overflow');
+
+      expect(result).toEqual({ status: 'LIMIT_REACHED', maxPortfolioSize: 2 });
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a missing exchange configuration', async () => {
+      const { transaction } = createTransaction({ recordset: [] });
+
+      expect(await provisionPortfolio(transaction as any, 'e1', 'u1')).toEqual({ status: 'EXCHANGE_NOT_FOUND' });
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import { getQuote } from './cache';
+import { MarginStatus, PortfolioResponse, PositionResponse } from '../types/transaction';
+
+/**
+ * Portfolio Utilities
+ *
+ * Provisioning and mark-to-market valuation for the Portfolio API
+ * Implements ADR-006: Decimal.js for all financial calculations
+ *
+ * Positions are valued at the cached Redis quote (ADR-008: QUOTE:{EXCHANGE_ID}:{SYMBOL}),
+ * falling back to the latest [Trade].[MarketData] close and finally to the position's
+ * average price when the symbol has never ticked. Realized P&L is accumulated on each
+ * reducing fill by the market engine (see cost-basis.ts) and read as stored.
+ *
+ * New portfolios are funded from [Trade].[ExchangeConfigurations].[StartingCash], and an
+ * exchange holds at most MaxPortfolioSize portfolios.
+ */
+
+/**
+ * Name given to portfolios created without one (matches the schema default)
+ */
+export const DEFAULT_PORTFOLIO_NAME = 'Main Portfolio';
+
+/**
+ * Provisioning defaults when the configuration columns are NULL (match the schema defaults)
+ */
+const DEFAULT_STARTING_CASH = 10000000.00;
+const DEFAULT_MAX_PORTFOLIO_SIZE = 50;
+
+/**
+ * Database record shape for [Trade].[Portfolios]
+ */
+export interface PortfolioRecord {
+  PortfolioId: string;
+  ExchangeId: string;
+  Name: string;
+  CashBalance: number;
+  RealizedPnL: number | null;
+  MarginStatus: MarginStatus | null;
+}
+
+/**
+ * Database record shape for [Trade].[Positions]
+ */
+export interface PositionRecord {
+  PortfolioId: string;
+  Symbol: string;
+  Quantity: number;
+  AveragePrice: number;
+  RealizedPnL: number | null;
+}
+
+/**
+ * Outcome of provisioning a portfolio
+ */
+export type ProvisionPortfolioResult =
+  | { status: 'CREATED'; portfolio: PortfolioRecord }
+  | { status: 'LIMIT_REACHED'; maxPortfolioSize: number }
+  | { status: 'EXCHANGE_NOT_FOUND' };
+
+/**
+ * Column list matching PortfolioRecord, for SELECT and OUTPUT clauses
+ *
+ * @param prefix - Table alias or pseudo-table (e.g. INSERTED) to qualify columns with
+ */
+export function portfolioColumns(prefix?: string): string {
+  const qualifier = prefix ? `${prefix}.` : '';
+  return ['PortfolioId', 'ExchangeId', 'Name', 'CashBalance', 'RealizedPnL', 'MarginStatus']
+    .map((column) => `${qualifier}[${column}]`)
+    .join(', ');
+}
+
+/**
+ * Value a position at the current price (unrealized P&L is signed, so shorts gain as price falls)
+ */
+export function valuePosition(
+  position: Pick<PositionRecord, 'Symbol' | 'Quantity' | 'AveragePrice' | 'RealizedPnL'>,
+  currentPrice: number
+): PositionResponse {
+  const quantity = new Decimal(position.Quantity);
+  const averagePrice = new Decimal(position.AveragePrice || 0);
+
+  return {
+    symbol: position.Symbol,
+    quantity: quantity.toNumber(),
+    averagePrice: averagePrice.toNumber(),
+    currentPrice: new Decimal(currentPrice).toNumber(),
+    unrealizedPnL: quantity.times(new Decimal(currentPrice).minus(averagePrice)).toNumber(),
+    realizedPnL: new Decimal(position.RealizedPnL || 0).toNumber(),
+  };
+}
+
+/**
+ * Build the API response for a portfolio: cash plus positions valued at current prices
+ */
+export function buildPortfolioResponse(
+  portfolio: PortfolioRecord,
+  positions: PositionRecord[],
+  prices: Map<string, number>
+): PortfolioResponse {
+  const valued = positions.map((position) => valuePosition(
+    position,
+    prices.get(position.Symbol) ?? position.AveragePrice ?? 0
+  ));
+
+  const totalValue = valued.reduce(
+    (total, position) => total.plus(new Decimal(position.quantity).times(position.currentPrice)),
+    new Decimal(portfolio.CashBalance)
+  );
+  const unrealizedPnL = valued.reduce(
+    (total, position) => total.plus(position.unrealizedPnL),
+    new Decimal(0)
+  );
+
+  return {
+    portfolioId: portfolio.PortfolioId,
+    exchangeId: portfolio.ExchangeId,
+    name: portfolio.Name,
+    cashBalance: new Decimal(portfolio.CashBalance).toNumber(),
+    totalValue: totalValue.toNumber(),
+    unrealizedPnL: unrealizedPnL.toNumber(),
+    realizedPnL: new Decimal(portfolio.RealizedPnL || 0).toNumber(),
+    marginStatus: portfolio.MarginStatus ?? 'OK',
+    positions: valued,
+  };
+}
+
+/**
+ * Current prices for a set of symbols: Redis quotes first, then the latest MarketData close
+ *
+ * @param request - Request bound to the caller's connection or transaction
+ * @param exchangeId - Exchange the symbols trade on
+ * @param symbols - Symbols to price
+ */
+export async function getCurrentPrices(
+  request: sql.Request,
+  exchangeId: string,
+  symbols: string[]
+): Promise<Map<string, number>> {
+  const prices = new Map<string, number>();
+
+  for (const symbol of symbols) {
+    const quote = await getQuote(exchangeId, symbol);
+    if (quote) {
+      prices.set(symbol, quote.price);
+    }
+  }
+
+  const missing = symbols.filter((symbol) => !prices.has(symbol));
+  if (missing.length === 0) {
+    return prices;
+  }
+
+  const result = await request
+    .input('priceExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('priceSymbols', sql.NVarChar(sql.MAX), JSON.stringify(missing))
+    .query<{ Symbol: string; Close: number }>(`
+      WITH LatestPrices AS (
+        SELECT Symbol, Close,
+               ROW_NUMBER() OVER (PARTITION BY Symbol ORDER BY Timestamp DESC) AS rn
+        FROM [Trade].[MarketData]
+        WHERE ExchangeId = @priceExchangeId
+          AND Symbol IN (SELECT value FROM OPENJSON(@priceSymbols))
+      )
+      SELECT Symbol, Close
+      FROM LatestPrices
+      WHERE rn = 1
+    `);
+
+  for (const row of result.recordset) {
+    prices.set(row.Symbol, row.Close);
+  }
+
+  return prices;
+}
+
+/**
+ * Load positions for the given portfolios and value them at current prices
+ *
+ * All queries run on the caller's transaction so RLS session context applies.
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange the portfolios belong to
+ * @param portfolios - Portfolios to value
+ */
+export async function valuePortfolios(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  portfolios: PortfolioRecord[]
+): Promise<PortfolioResponse[]> {
+  if (portfolios.length === 0) {
+    return [];
+  }
+
+  const portfolioIds = JSON.stringify(portfolios.map((portfolio) => portfolio.PortfolioId));
+
+  const positionsResult = await transaction.request()
+    .input('portfolioIds', sql.NVarChar(sql.MAX), portfolioIds)
+    .query<PositionRecord>(`
+      SELECT PortfolioId, Symbol, Quantity, AveragePrice, RealizedPnL
+      FROM [Trade].[Positions]
+      WHERE PortfolioId IN (SELECT value FROM OPENJSON(@portfolioIds))
+      ORDER BY Symbol ASC
+    `);
+
+  const symbols = [...new Set(positionsResult.recordset.map((position) => position.Symbol))];
+  const prices = await getCurrentPrices(transaction.request(), exchangeId, symbols);
+
+  return portfolios.map((portfolio) => buildPortfolioResponse(
+    portfolio,
+    positionsResult.recordset.filter((position) => position.PortfolioId === portfolio.PortfolioId),
+    prices
+  ));
+}
+
+/**
+ * Create a portfolio funded with the exchange's starting cash
+ *
+ * The exchange configuration row is locked (UPDLOCK) for the rest of the transaction so
+ * concurrent provisioning cannot exceed MaxPortfolioSize.
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to create the portfolio in
+ * @param userId - Entra Object ID of the portfolio owner
+ * @param name - Portfolio name (defaults to DEFAULT_PORTFOLIO_NAME)
+ */
+export async function provisionPortfolio(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  userId: string,
+  name: string = DEFAULT_PORTFOLIO_NAME
+): Promise<ProvisionPortfolioResult> {
+  const configResult = await transaction.request()
+    .input('provisionExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<{ StartingCash: number | null; MaxPortfolioSize: number | null; PortfolioCount: number }>(`
+      SELECT ec.StartingCash, ec.MaxPortfolioSize,
+             (SELECT COUNT(*) FROM [Trade].[Portfolios] p WHERE p.ExchangeId = ec.ExchangeId) AS PortfolioCount
+      FROM [Trade].[ExchangeConfigurations] ec WITH (UPDLOCK, ROWLOCK)
+      WHERE ec.ExchangeId = @provisionExchangeId
+    `);
+
+  if (configResult.recordset.length === 0) {
+    return { status: 'EXCHANGE_NOT_FOUND' };
+  }
+
+  const config = configResult.recordset[0];
+  const maxPortfolioSize = config.MaxPortfolioSize ?? DEFAULT_MAX_PORTFOLIO_SIZE;
+
+  if (config.PortfolioCount >= maxPortfolioSize) {
+    return { status: 'LIMIT_REACHED', maxPortfolioSize };
+  }
+
+  const startingCash = new Decimal(config.StartingCash ?? DEFAULT_STARTING_CASH);
+
+  const insertResult = await transaction.request()
+    .input('provisionExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('provisionUserId', sql.UniqueIdentifier, userId)
+    .input('provisionName', sql.NVarChar, name)
+    .input('provisionCash', sql.Money, startingCash.toNumber())
+    .query<PortfolioRecord>(`
+      INSERT INTO [Trade].[Portfolios] ([ExchangeId], [UserId], [Name], [CashBalance])
+      OUTPUT ${portfolioColumns('INSERTED')}
+      VALUES (@provisionExchangeId, @provisionUserId, @provisionName, @provisionCash)
+    `);
+
+  return { status: 'CREATED', portfolio: insertResult.recordset[0] };
+}
@@ -0,0 +1,253 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_PRICE_MODEL_SETTINGS,
+  PriceModelSettings,
+  RandomSource,
+  geometricBrownianMotion,
+  mertonJumpDiffusion,
+  ornsteinUhlenbeck,
+  poisson,
+  simulatePrice,
+  standardNormal,
+  toPriceModelSettings,
+} from './price-models';
+
+const SAMPLES = 4000;
+
+/**
+ * Deterministic uniform source (mulberry32) so the statistics below are reproducible
+ */
+function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function moments(values: number[]) {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const centralMoment = (power: number) =>
+    values.reduce((sum, value) => sum + (value - mean) ** power, 0) / values.length;
+  const variance = centralMoment(2);
+
+  return {
+    mean,
+    variance,
+    sd: Math.sqrt(variance),
+    skewness: centralMoment(3) / variance ** 1.5,
+    excessKurtosis: centralMoment(4) / variance ** 2 - 3,
+  };
+}
+
+function logReturns(
+  settings: PriceModelSettings,
+  volatility: number,
+  random: RandomSource,
+  model = geometricBrownianMotion
+): number[] {
+  return Array.from({ length: SAMPLES }, () =>
+    Math.log(model.nextPrice({ price: 100, volatility, longRunPrice: 100 }, settings, random) / 100)
+  );
+}
+
+describe('price-models', () => {
+  describe('standardNormal', () => {
+    it('should draw from a unit normal distribution', () => {
+      const random = seededRandom(1);
+      const stats = moments(Array.from({ length: SAMPLES }, () => standardNormal(random)));
+
+      expect(Math.abs(stats.mean)).toBeLessThan(0.07);
+      expect(Math.abs(stats.variance - 1)).toBeLessThan(0.1);
+      expect(Math.abs(stats.skewness)).toBeLessThan(0.2);
+      expect(Math.abs(stats.excessKurtosis)).toBeLessThan(0.35);
+    });
+
+    it('should stay finite when the source returns 0', () => {
+      expect(Number.isFinite(standardNormal(() => 0))).toBe(true);
+    });
+  });
+
+  describe('poisson', () => {
+    it('should average the intensity', () => {
+      const random = seededRandom(2);
+      const stats = moments(Array.from({ length: SAMPLES }, () => poisson(0.5, random)));
+
+      expect(Math.abs(stats.mean - 0.5)).toBeLessThan(0.05);
+      expect(Math.abs(stats.variance - 0.5)).toBeLessThan(0.08);
+    });
+
+    it('should return no events without drawing for a zero intensity', () => {
+      const random = vi.fn(() => 0.5);
+
+      expect(poisson(0, random)).toBe(0);
+      expect(random).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('geometricBrownianMotion', () => {
+    it('should produce normal log returns with mean drift - sigma^2/2 and sd sigma', () => {
+      const settings = { ...DEFAULT_PRICE_MODEL_SETTINGS, drift: 0.005 };
+      const stats = moments(logReturns(settings, 0.02, seededRandom(3)));
+
+      expect(Math.abs(stats.mean - (0.005 - 0.02 ** 2 / 2))).toBeLessThan(0.0013);
+      expect(Math.abs(stats.sd - 0.02)).toBeLessThan(0.001);
+      expect(Math.abs(stats.skewness)).toBeLessThan(0.2);
+      expect(Math.abs(stats.excessKurtosis)).toBeLessThan(0.35);
+    });
+
+    it('should keep the expected price flat without drift', () => {
+      const random = seededRandom(4);
+      const grossReturns = logReturns(DEFAULT_PRICE_MODEL_SETTINGS, 0.02, random).map(Math.exp);
+
+      expect(Math.abs(moments(grossReturns).mean - 1)).toBeLessThan(0.0013);
+    });
+
+    it('should never reach zero, even at extreme volatility', () => {
+      const random = seededRandom(5);
+      let price = 100;
+
+      for (let i = 0; i < 1000; i++) {
+        price = geometricBrownianMotion.nextPrice(
+          { price, volatility: 0.5, longRunPrice: 100 },
+          DEFAULT_PRICE_MODEL_SETTINGS,
+          random
+        );
+        expect(price).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe('mertonJumpDiffusion', () => {
+    const jumpSettings: PriceModelSettings = {
+      ...DEFAULT_PRICE_MODEL_SETTINGS,
+      model: 'MERTON',
+      jumpIntensity: 0.1,
+      jumpMean: -0.05,
+      jumpVolatility: 0.1,
+    };
+
+    it('should produce fat-tailed, negatively skewed returns for downward jumps', () => {
+      const stats = moments(logReturns(jumpSettings, 0.01, seededRandom(6), mertonJumpDiffusion));
+
+      // Variance adds the jump component: sigma^2 + lambda * (m^2 + delta^2)
+      expect(Math.abs(stats.variance - (0.01 ** 2 + 0.1 * (0.05 ** 2 + 0.1 ** 2)))).toBeLessThan(0.0003);
+      expect(stats.excessKurtosis).toBeGreaterThan(3);
+      expect(stats.skewness).toBeLessThan(0);
+    });
+
+    it('should compensate the drift so jumps do not move the expected price', () => {
+      const random = seededRandom(7);
+      const grossReturns = logReturns(jumpSettings, 0.01, random, mertonJumpDiffusion).map(Math.exp);
+
+      expect(Math.abs(moments(grossReturns).mean - 1)).toBeLessThan(0.0025);
+    });
+
+    it('should match GBM when the jump intensity is zero', () => {
+      const settings = { ...jumpSettings, jumpIntensity: 0 };
+      const gbm = logReturns(settings, 0.02, seededRandom(8));
+      const merton = logReturns(settings, 0.02, seededRandom(8), mertonJumpDiffusion);
+
+      merton.forEach((value, i) => expect(value).toBeCloseTo(gbm[i], 12));
+    });
+  });
+
+  describe('ornsteinUhlenbeck', () => {
+    const ouSettings: PriceModelSettings = { ...DEFAULT_PRICE_MODEL_SETTINGS, model: 'OU', meanReversion: 0.1 };
+
+    it('should close the gap to the long-run price by e^-kappa per tick without a shock', () => {
+      // 0.25 gives a zero normal draw (cos(pi / 2) = 0)
+      const price = ornsteinUhlenbeck.nextPrice(
+        { price: 150, volatility: 0.02, longRunPrice: 100 },
+        ouSettings,
+        () => 0.25
+      );
+
+      expect(Math.log(price / 100)).toBeCloseTo(Math.log(1.5) * Math.exp(-0.1), 10);
+    });
+
+    it('should settle into the stationary distribution N(ln theta, sigma^2 / 2 kappa)', () => {
+      const random = seededRandom(9);
+      const logPrices: number[] = [];
+      let price = 150;
+
+      for (let i = 0; i < SAMPLES; i++) {
+        price = ornsteinUhlenbeck.nextPrice({ price, volatility: 0.02, longRunPrice: 100 }, ouSettings, random);
+        if (i >= 200) {
+          logPrices.push(Math.log(price)); // Skip the burn-in from the starting gap
+        }
+      }
+
+      const stats = moments(logPrices);
+
+      expect(Math.abs(stats.mean - Math.log(100))).toBeLessThan(0.015);
+      expect(Math.abs(stats.variance - 0.02 ** 2 / (2 * 0.1))).toBeLessThan(0.0006);
+    });
+  });
+
+  describe('toPriceModelSettings', () => {
+    it('should fall back to defaults when the exchange has no configuration', () => {
+      expect(toPriceModelSettings(undefined)).toEqual(DEFAULT_PRICE_MODEL_SETTINGS);
+    });
+
+    it('should read the exchange columns', () => {
+      expect(toPriceModelSettings({
+        PriceModel: 'MERTON',
+        Drift: 0.0001,
+        JumpIntensity: 0.2,
+        JumpMean: -0.1,
+        JumpVolatility: 0.15,
+        MeanReversion: 0.3,
+      })).toEqual({
+        model: 'MERTON',
+        drift: 0.0001,
+        jumpIntensity: 0.2,
+        jumpMean: -0.1,
+        jumpVolatility: 0.15,
+        meanReversion: 0.3,
+      });
+    });
+
+    it('should let the instrument override the exchange model', () => {
+      expect(toPriceModelSettings({ PriceModel: 'MERTON' }, 'OU').model).toBe('OU');
+      expect(toPriceModelSettings({ PriceModel: 'MERTON' }, null).model).toBe('MERTON');
+    });
+  });
+
+  describe('simulatePrice', () => {
+    it('should dispatch to the selected model', () => {
+      const step = { price: 150, volatility: 0.02, longRunPrice: 100 };
+      const ouSettings = { ...DEFAULT_PRICE_MODEL_SETTINGS, model: 'OU' as const };
+
+      expect(simulatePrice(step, ouSettings, seededRandom(10)))
+        .toBe(ornsteinUhlenbeck.nextPrice(step, ouSettings, seededRandom(10)));
+      expect(simulatePrice(step, DEFAULT_PRICE_MODEL_SETTINGS, seededRandom(10)))
+        .toBe(geometricBrownianMotion.nextPrice(step, DEFAULT_PRICE_MODEL_SETTINGS, seededRandom(10)));
+    });
+
+    it('should use a supplied shock instead of drawing one', () => {
+      const random = vi.fn(() => 0.5);
+      const step = { price: 100, volatility: 0.02, longRunPrice: 100, shock: 1 };
+
+      expect(simulatePrice(step, DEFAULT_PRICE_MODEL_SETTINGS, random)).toBeCloseTo(100 * Math.exp(-0.0002 + 0.02), 10);
+      expect(simulatePrice(step, { ...DEFAULT_PRICE_MODEL_SETTINGS, model: 'OU' }, random))
+        .toBeCloseTo(100 * Math.exp(0.02 * Math.sqrt((1 - Math.exp(-0.1)) / 0.1)), 10);
+      expect(random).not.toHaveBeenCalled();
+    });
+
+    it('should use Math.random by default', () => {
+      const mockRandom = vi.spyOn(Math, 'random').mockReturnValue(0.25);
+
+      // A zero shock leaves only the -sigma^2/2 correction
+      expect(simulatePrice({ price: 100, volatility: 0.02, longRunPrice: 100 }, DEFAULT_PRICE_MODEL_SETTINGS))
+        .toBeCloseTo(100 * Math.exp(-0.0002), 10);
+      expect(mockRandom).toHaveBeenCalled();
+
+      mockRandom.mockRestore();
+    });
+  });
+});
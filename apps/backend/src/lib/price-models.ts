@@ -0,0 +1,224 @@
+import Decimal from 'decimal.js';
+import { RandomSource } from '@assetsim/shared/finance-models';
+import { PriceModelType } from '../types/market-engine';
+
+/**
+ * Price Model Utilities
+ *
+ * Stochastic price processes for the market engine (marketEngineTick) and ticker generator
+ * Implements ADR-006: Decimal.js for all financial calculations
+ *
+ * Every model moves the log price, so simulated prices stay strictly positive:
+ * - GBM: ln(S'/S) = (μ - σ²/2) + σZ
+ * - MERTON: GBM plus N ~ Poisson(λ) jumps of size J ~ N(m, δ²), with the drift compensated by
+ *   λ(e^(m + δ²/2) - 1) so the expected price still grows at e^μ per tick
+ * - OU: x = ln S reverts towards ln θ (the instrument's BasePrice) at speed κ, using the exact
+ *   discretisation x' = ln θ + (x - ln θ)e^(-κ) + σ√((1 - e^(-2κ)) / 2κ) Z
+ *
+ * Parameters are per tick. The exchange selects the model and its parameters; an instrument
+ * may override the model (e.g. OU for an FX pair on a GBM exchange). Random numbers come from
+ * an injectable uniform source so tests can replay exact paths. The diffusion shock Z may be
+ * supplied by the caller, so correlated shocks (see market-factors.ts) drive every model.
+ */
+
+export type { RandomSource };
+
+/**
+ * Model selection and parameters for an exchange (see MarketEngineConfigSchema for bounds)
+ */
+export interface PriceModelSettings {
+  model: PriceModelType;
+  drift: number; // μ, expected log return per tick (GBM and MERTON)
+  jumpIntensity: number; // λ, expected jumps per tick (MERTON)
+  jumpMean: number; // m, mean log jump size (MERTON)
+  jumpVolatility: number; // δ, standard deviation of the log jump size (MERTON)
+  meanReversion: number; // κ, reversion speed per tick (OU)
+}
+
+/**
+ * State of one symbol for a single price step
+ */
+export interface PriceStep {
+  price: number; // Current price (> 0)
+  volatility: number; // σ, per-tick standard deviation of the log return
+  longRunPrice: number; // θ, the level OU reverts towards
+  shock?: number; // Z, the standard normal diffusion shock (drawn from the random source when omitted)
+}
+
+/**
+ * A stochastic price process
+ */
+export interface PriceModel {
+  /**
+   * Price one tick after step.price (unrounded; callers round to the instrument's tick size)
+   */
+  nextPrice(step: PriceStep, settings: PriceModelSettings, random: RandomSource): number;
+}
+
+/**
+ * Settings used when an exchange has no configuration row (match the column defaults)
+ */
+export const DEFAULT_PRICE_MODEL_SETTINGS: PriceModelSettings = {
+  model: 'GBM',
+  drift: 0,
+  jumpIntensity: 0.01,
+  jumpMean: 0,
+  jumpVolatility: 0.05,
+  meanReversion: 0.05,
+};
+
+/**
+ * Standard normal draw using the Box-Muller transform
+ *
+ * The draw is a dimensionless shock rather than a financial amount, so it uses native
+ * floating point; the models apply it to prices with Decimal.js.
+ */
+export function standardNormal(random: RandomSource): number {
+  const u1 = 1 - random(); // (0, 1], keeps the logarithm finite
+  const u2 = random();
+
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Poisson draw (Knuth's multiplication method, suited to the small per-tick intensities used here)
+ */
+export function poisson(lambda: number, random: RandomSource): number {
+  if (lambda <= 0) {
+    return 0;
+  }
+
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = random();
+
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+
+  return count;
+}
+
+/**
+ * The step's diffusion shock Z, or a fresh standard normal draw
+ */
+function diffusionShock(step: PriceStep, random: RandomSource): number {
+  return step.shock ?? standardNormal(random);
+}
+
+/**
+ * Diffusion part of the GBM log return: (μ - σ²/2) + σZ
+ */
+function diffusionLogReturn(step: PriceStep, drift: number, random: RandomSource) {
+  const sigma = new Decimal(step.volatility);
+
+  return new Decimal(drift)
+    .minus(sigma.pow(2).dividedBy(2))
+    .plus(sigma.times(diffusionShock(step, random)));
+}
+
+/**
+ * Geometric Brownian motion
+ */
+export const geometricBrownianMotion: PriceModel = {
+  nextPrice(step, settings, random) {
+    const logReturn = diffusionLogReturn(step, settings.drift, random);
+
+    return new Decimal(step.price).times(logReturn.exp()).toNumber();
+  },
+};
+
+/**
+ * Merton jump-diffusion: GBM plus compensated lognormal jumps
+ */
+export const mertonJumpDiffusion: PriceModel = {
+  nextPrice(step, settings, random) {
+    const jumpMean = new Decimal(settings.jumpMean);
+    const jumpVolatility = new Decimal(settings.jumpVolatility);
+    // κ = E[e^J] - 1, removed from the drift so jumps do not change the expected price
+    const expectedJump = jumpMean.plus(jumpVolatility.pow(2).dividedBy(2)).exp().minus(1);
+
+    let logReturn = diffusionLogReturn(step, settings.drift, random)
+      .minus(expectedJump.times(settings.jumpIntensity));
+
+    const jumps = poisson(settings.jumpIntensity, random);
+    for (let i = 0; i < jumps; i++) {
+      logReturn = logReturn.plus(jumpMean.plus(jumpVolatility.times(standardNormal(random))));
+    }
+
+    return new Decimal(step.price).times(logReturn.exp()).toNumber();
+  },
+};
+
+/**
+ * Exponential Ornstein-Uhlenbeck: the log price reverts towards ln(longRunPrice)
+ *
+ * The stationary distribution of ln S is N(ln θ, σ² / 2κ); drift is not used.
+ */
+export const ornsteinUhlenbeck: PriceModel = {
+  nextPrice(step, settings, random) {
+    const speed = new Decimal(settings.meanReversion);
+    const decay = speed.negated().exp();
+    const longRunLog = new Decimal(step.longRunPrice).ln();
+    const stepDeviation = new Decimal(step.volatility)
+      .times(new Decimal(1).minus(decay.pow(2)).dividedBy(speed.times(2)).sqrt());
+
+    const logPrice = longRunLog
+      .plus(new Decimal(step.price).ln().minus(longRunLog).times(decay))
+      .plus(stepDeviation.times(diffusionShock(step, random)));
+
+    return logPrice.exp().toNumber();
+  },
+};
+
+/**
+ * Registered price models by type
+ */
+export const PRICE_MODELS: Record<PriceModelType, PriceModel> = {
+  GBM: geometricBrownianMotion,
+  MERTON: mertonJumpDiffusion,
+  OU: ornsteinUhlenbeck,
+};
+
+/**
+ * Build price model settings from ExchangeConfigurations columns, falling back to defaults
+ *
+ * @param config - The exchange's configuration row (undefined when it has none)
+ * @param instrumentModel - The instrument's PriceModel override (NULL uses the exchange model)
+ */
+export function toPriceModelSettings(
+  config: {
+    PriceModel?: PriceModelType | null;
+    Drift?: number | null;
+    JumpIntensity?: number | null;
+    JumpMean?: number | null;
+    JumpVolatility?: number | null;
+    MeanReversion?: number | null;
+  } | undefined,
+  instrumentModel?: PriceModelType | null
+): PriceModelSettings {
+  return {
+    model: instrumentModel ?? config?.PriceModel ?? DEFAULT_PRICE_MODEL_SETTINGS.model,
+    drift: config?.Drift ?? DEFAULT_PRICE_MODEL_SETTINGS.drift,
+    jumpIntensity: config?.JumpIntensity ?? DEFAULT_PRICE_MODEL_SETTINGS.jumpIntensity,
+    jumpMean: config?.JumpMean ?? DEFAULT_PRICE_MODEL_SETTINGS.jumpMean,
+    jumpVolatility: config?.JumpVolatility ?? DEFAULT_PRICE_MODEL_SETTINGS.jumpVolatility,
+    meanReversion: config?.MeanReversion ?? DEFAULT_PRICE_MODEL_SETTINGS.meanReversion,
+  };
+}
+
+/**
+ * Simulate the next price of a symbol with the selected model
+ *
+ * @param step - Current price, per-tick volatility and OU anchor
+ * @param settings - Model selection and parameters
+ * @param random - Uniform random source (defaults to Math.random)
+ */
+export function simulatePrice(
+  step: PriceStep,
+  settings: PriceModelSettings,
+  random: RandomSource = Math.random
+): number {
+  return PRICE_MODELS[settings.model].nextPrice(step, settings, random);
+}
@@ -0,0 +1,297 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ScenarioRecord,
+  applyDueScenarioEvents,
+  createScenario,
+  gapMultiplier,
+  mapScenarioRecord,
+  parseTimeline,
+  sortTimeline,
+  transitionScenario,
+} from './scenarios';
+import { TradingHaltRecord } from './trading-halts';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: vi.fn(() => 'nvarchar'),
+  MAX: -1,
+  Decimal: vi.fn(() => 'decimal'),
+  Int: 'int',
+  Bit: 'bit',
+}));
+
+const record: ScenarioRecord = {
+  ScenarioId: 's1',
+  ExchangeId: 'e1',
+  Name: 'Flash crash',
+  Timeline: JSON.stringify([{ type: 'GAP', atSeconds: 10, percent: -8 }]),
+  Status: 'READY',
+  ElapsedMs: 0,
+  ResumedAt: null,
+  NextEventIndex: 0,
+  CreatedBy: 'user-123',
+  CreatedAt: '2026-01-01T00:00:00Z',
+};
+
+const halt: TradingHaltRecord = {
+  HaltId: 1,
+  ExchangeId: 'e1',
+  Symbol: 'AAPL',
+  Reason: 'SCENARIO',
+  ScenarioId: 's1',
+  HaltedAt: new Date('2026-01-01T00:00:05Z'),
+  ResumeAt: new Date('2026-01-01T00:00:35Z'),
+  ResumedAt: null,
+};
+
+function mockTransaction(query: ReturnType<typeof vi.fn>) {
+  const input = vi.fn().mockReturnThis();
+  return {
+    input,
+    transaction: {
+      begin: vi.fn().mockResolvedValue(undefined),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      request: vi.fn(() => ({ input, query })),
+    },
+  };
+}
+
+describe('scenarios', () => {
+  describe('sortTimeline', () => {
+    it('should order events by atSeconds, keeping the uploaded order of simultaneous events', () => {
+      const events = sortTimeline([
+        { type: 'RESUME', atSeconds: 60 },
+        { type: 'HALT', atSeconds: 0, symbol: 'AAPL' },
+        { type: 'GAP', atSeconds: 0, percent: -5, symbol: 'AAPL' },
+      ]);
+
+      expect(events.map((event) => event.type)).toEqual(['HALT', 'GAP', 'RESUME']);
+    });
+  });
+
+  describe('parseTimeline', () => {
+    it('should treat a malformed timeline as empty', () => {
+      expect(parseTimeline('not json')).toEqual([]);
+      expect(parseTimeline('{}')).toEqual([]);
+    });
+  });
+
+  describe('gapMultiplier', () => {
+    const gaps = [
+      { type: 'GAP' as const, atSeconds: 0, percent: -10, symbol: 'AAPL' },
+      { type: 'GAP' as const, atSeconds: 0, percent: 20, sector: 'Energy' },
+      { type: 'GAP' as const, atSeconds: 0, percent: 5 },
+    ];
+
+    it('should compound the gaps on the symbol, its sector and the whole market', () => {
+      expect(gapMultiplier(gaps, { symbol: 'AAPL', sector: 'Technology' })).toBeCloseTo(0.945, 12);
+      expect(gapMultiplier(gaps, { symbol: 'XOM', sector: 'Energy' })).toBeCloseTo(1.26, 12);
+      expect(gapMultiplier(gaps, { symbol: 'EURUSD', sector: null })).toBeCloseTo(1.05, 12);
+    });
+
+    it('should be 1 without gaps', () => {
+      expect(gapMultiplier([], { symbol: 'AAPL', sector: 'Technology' })).toBe(1);
+    });
+  });
+
+  describe('mapScenarioRecord', () => {
+    it('should count the current run of a RUNNING scenario', () => {
+      const running = { ...record, Status: 'RUNNING' as const, ElapsedMs: '4000', ResumedAt: '2026-01-01T00:01:00Z' };
+
+      const response = mapScenarioRecord(running, new Date('2026-01-01T00:01:02.500Z'));
+
+      expect(response).toMatchObject({ scenarioId: 's1', status: 'RUNNING', elapsedSeconds: 6.5 });
+      expect(response.events).toEqual([{ type: 'GAP', atSeconds: 10, percent: -8 }]);
+    });
+
+    it('should only count earlier runs of a PAUSED scenario', () => {
+      const paused = { ...record, Status: 'PAUSED' as const, ElapsedMs: 4000 };
+
+      expect(mapScenarioRecord(paused).elapsedSeconds).toBe(4);
+    });
+  });
+
+  describe('createScenario', () => {
+    it('should store the timeline ordered by atSeconds', async () => {
+      const query = vi.fn().mockResolvedValue({ recordset: [record] });
+      const { input, transaction } = mockTransaction(query);
+
+      await createScenario(transaction as any, 'e1', 'user-123', {
+        name: 'Flash crash',
+        events: [
+          { type: 'RESUME', atSeconds: 30 },
+          { type: 'HALT', atSeconds: 5 },
+        ],
+      });
+
+      const timeline = input.mock.calls.find(([name]) => name === 'scenarioTimeline')?.[2];
+      expect(JSON.parse(timeline).map((event: { atSeconds: number }) => event.atSeconds)).toEqual([5, 30]);
+      expect(query.mock.calls[0][0]).toContain('INSERT INTO [Trade].[MarketScenarios]');
+    });
+  });
+
+  describe('transitionScenario', () => {
+    it('should return NOT_FOUND for an unknown scenario', async () => {
+      const query = vi.fn().mockResolvedValueOnce({ recordset: [] });
+      const { transaction } = mockTransaction(query);
+
+      expect(await transitionScenario(transaction as any, 'e1', 's1', 'start')).toEqual({ status: 'NOT_FOUND' });
+    });
+
+    it('should start a READY scenario and remember the volatility regime it started from', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ recordset: [{ Status: 'READY', OtherInProgress: 0 }] })
+        .mockResolvedValueOnce({ recordset: [{ ...record, Status: 'RUNNING' }] });
+      const { transaction } = mockTransaction(query);
+
+      const result = await transitionScenario(transaction as any, 'e1', 's1', 'start');
+
+      expect(result).toMatchObject({ status: 'UPDATED', volatilityRestored: false });
+      expect(query.mock.calls[1][0]).toContain("Status = 'RUNNING', ResumedAt = SYSDATETIMEOFFSET()");
+      expect(query.mock.calls[1][0]).toContain('BaselineVolatilityIndex = ISNULL(BaselineVolatilityIndex');
+    });
+
+    it('should not start a scenario while another one is in progress', async () => {
+      const query = vi.fn().mockResolvedValueOnce({ recordset: [{ Status: 'READY', OtherInProgress: 1 }] });
+      const { transaction } = mockTransaction(query);
+
+      expect(await transitionScenario(transaction as any, 'e1', 's1', 'start')).toEqual({ status: 'ANOTHER_IN_PROGRESS' });
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not restart a COMPLETED scenario or pause one that is not running', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ recordset: [{ Status: 'COMPLETED', OtherInProgress: 0 }] })
+        .mockResolvedValueOnce({ recordset: [{ Status: 'PAUSED', OtherInProgress: 0 }] });
+      const { transaction } = mockTransaction(query);
+
+      expect(await transitionScenario(transaction as any, 'e1', 's1', 'start'))
+        .toEqual({ status: 'INVALID_STATE', current: 'COMPLETED' });
+      expect(await transitionScenario(transaction as any, 'e1', 's1', 'pause'))
+        .toEqual({ status: 'INVALID_STATE', current: 'PAUSED' });
+    });
+
+    it('should keep the running time when pausing', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ recordset: [{ Status: 'RUNNING', OtherInProgress: 0 }] })
+        .mockResolvedValueOnce({ recordset: [{ ...record, Status: 'PAUSED' }] });
+      const { transaction } = mockTransaction(query);
+
+      await transitionScenario(transaction as any, 'e1', 's1', 'pause');
+
+      expect(query.mock.calls[1][0]).toContain('ElapsedMs = ElapsedMs + DATEDIFF_BIG(MILLISECOND, ResumedAt, SYSDATETIMEOFFSET())');
+    });
+
+    it('should lift the halts and restore the volatility regime on reset', async () => {
+      const query = vi.fn()
+        .mockResolvedValueOnce({ recordset: [{ Status: 'COMPLETED', OtherInProgress: 0 }] })
+        .mockResolvedValueOnce({ recordset: [halt, halt], rowsAffected: [2] })
+        .mockResolvedValueOnce({ rowsAffected: [1] })
+        .mockResolvedValueOnce({ recordset: [record] });
+      const { transaction } = mockTransaction(query);
+
+      const result = await transitionScenario(transaction as any, 'e1', 's1', 'reset');
+
+      expect(result).toEqual({ status: 'UPDATED', scenario: record, volatilityRestored: true, resumedHalts: [halt, halt] });
+      expect(query.mock.calls[1][0]).toContain('UPDATE [Trade].[TradingHalts]');
+      expect(query.mock.calls[2][0]).toContain('SET VolatilityIndex = s.BaselineVolatilityIndex');
+      expect(query.mock.calls[3][0]).toContain("Status = 'READY'");
+    });
+  });
+
+  describe('applyDueScenarioEvents', () => {
+    const timeline = JSON.stringify([
+      { type: 'VOLATILITY_REGIME', atSeconds: 0, volatilityIndex: 2 },
+      { type: 'HALT', atSeconds: 5, symbol: 'AAPL', durationSeconds: 30 },
+      { type: 'GAP', atSeconds: 5, percent: -8, sector: 'Technology' },
+      { type: 'RESUME', atSeconds: 60 },
+    ]);
+
+    let query: ReturnType<typeof vi.fn>;
+    let mocks: ReturnType<typeof mockTransaction>;
+
+    beforeEach(() => {
+      query = vi.fn();
+      mocks = mockTransaction(query);
+    });
+
+    it('should do nothing when no scenario is running', async () => {
+      query.mockResolvedValueOnce({ recordset: [] });
+
+      const result = await applyDueScenarioEvents({ transaction: () => mocks.transaction } as any, 'e1');
+
+      expect(result).toBeUndefined();
+      expect(mocks.transaction.commit).toHaveBeenCalled();
+    });
+
+    it('should apply the events that are due and record the progress', async () => {
+      query
+        .mockResolvedValueOnce({
+          recordset: [{ ScenarioId: 's1', CreatedBy: 'user-123', Timeline: timeline, NextEventIndex: 1, RunningMs: '7200' }],
+        })
+        .mockResolvedValueOnce({ recordset: [halt], rowsAffected: [1] })
+        .mockResolvedValue({ rowsAffected: [1] });
+
+      const result = await applyDueScenarioEvents({ transaction: () => mocks.transaction } as any, 'e1');
+
+      expect(result).toEqual({
+        scenarioId: 's1',
+        createdBy: 'user-123',
+        gaps: [{ type: 'GAP', atSeconds: 5, percent: -8, sector: 'Technology' }],
+        halted: [halt],
+        resumed: [],
+        applied: 2,
+        completed: false,
+      });
+      expect(query.mock.calls[1][0]).toContain('INSERT INTO [Trade].[TradingHalts]');
+      expect(mocks.input).toHaveBeenCalledWith('haltSymbol', 'nvarchar', 'AAPL');
+      expect(mocks.input).toHaveBeenCalledWith('haltDurationSeconds', 'int', 30);
+      expect(mocks.input).toHaveBeenCalledWith('scenarioNextEventIndex', 'int', 3);
+      expect(mocks.input).toHaveBeenCalledWith('scenarioCompleted', 'bit', false);
+      expect(mocks.transaction.commit).toHaveBeenCalled();
+    });
+
+    it('should change the volatility regime and complete after the last event', async () => {
+      query
+        .mockResolvedValueOnce({
+          recordset: [{
+            ScenarioId: 's1',
+            CreatedBy: 'user-123',
+            Timeline: JSON.stringify([{ type: 'VOLATILITY_REGIME', atSeconds: 0, volatilityIndex: 2 }]),
+            NextEventIndex: 0,
+            RunningMs: 100,
+          }],
+        })
+        .mockResolvedValue({ rowsAffected: [1] });
+
+      const result = await applyDueScenarioEvents({ transaction: () => mocks.transaction } as any, 'e1');
+
+      expect(result).toMatchObject({ volatilityIndex: 2, applied: 1, completed: true });
+      expect(query.mock.calls[1][0]).toContain('SET VolatilityIndex = @scenarioVolatilityIndex');
+      expect(mocks.input).toHaveBeenCalledWith('scenarioCompleted', 'bit', true);
+    });
+
+    it('should not write progress before the next event is due', async () => {
+      query.mockResolvedValueOnce({
+        recordset: [{ ScenarioId: 's1', CreatedBy: 'user-123', Timeline: timeline, NextEventIndex: 3, RunningMs: 59999 }],
+      });
+
+      const result = await applyDueScenarioEvents({ transaction: () => mocks.transaction } as any, 'e1');
+
+      expect(result).toMatchObject({ applied: 0, gaps: [], completed: false });
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back when an event fails to apply', async () => {
+      query
+        .mockResolvedValueOnce({
+          recordset: [{ ScenarioId: 's1', CreatedBy: 'user-123', Timeline: timeline, NextEventIndex: 0, RunningMs: 0 }],
+        })
+        .mockRejectedValueOnce(new Error('deadlock'));
+
+      await expect(applyDueScenarioEvents({ transaction: () => mocks.transaction } as any, 'e1')).rejects.toThrow('deadlock');
+      expect(mocks.transaction.rollback).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,410 @@
+import * as sql from 'mssql';
+import Decimal from 'decimal.js';
+import {
+  CreateScenarioRequest,
+  ScenarioAction,
+  ScenarioEvent,
+  ScenarioResponse,
+  ScenarioStatus,
+} from '../types/scenario';
+import { TradingHaltRecord, haltTrading, resumeScenarioHalts } from './trading-halts';
+
+/**
+ * Market Scenario Utilities
+ *
+ * Reads and writes [Trade].[MarketScenarios] and applies their timelines
+ *
+ * A scenario's clock only runs while it is RUNNING: ElapsedMs holds the running time of
+ * earlier runs and ResumedAt marks the start of the current one, so pausing and starting
+ * again continues where it stopped. marketEngineTick calls applyDueScenarioEvents every tick
+ * to apply the events whose atSeconds has passed; the scenario is COMPLETED after its last
+ * event. Reset rewinds the clock, lifts the scenario's halts and restores the VolatilityIndex
+ * the exchange had before the scenario first started. Only one scenario per exchange can be
+ * RUNNING or PAUSED at a time.
+ */
+
+/**
+ * Database record shape for [Trade].[MarketScenarios]
+ */
+export interface ScenarioRecord {
+  ScenarioId: string;
+  ExchangeId: string;
+  Name: string;
+  Timeline: string; // JSON array of ScenarioEvent
+  Status: ScenarioStatus;
+  ElapsedMs: number | string; // BIGINT (mssql returns strings beyond 2^53)
+  ResumedAt: string | null;
+  NextEventIndex: number;
+  CreatedBy: string;
+  CreatedAt: string;
+}
+
+/**
+ * A GAP event due on this tick
+ */
+export type ScenarioGap = Extract<ScenarioEvent, { type: 'GAP' }>;
+
+/**
+ * What applying a running scenario's due events changed
+ */
+export interface ScenarioTickResult {
+  scenarioId: string;
+  createdBy: string;
+  gaps: ScenarioGap[];
+  volatilityIndex?: number; // Set when a VOLATILITY_REGIME event was applied
+  halted: TradingHaltRecord[]; // Placed by HALT events
+  resumed: TradingHaltRecord[]; // Lifted by RESUME events
+  applied: number;
+  completed: boolean;
+}
+
+/**
+ * Outcome of starting, pausing or resetting a scenario
+ */
+export type ScenarioTransitionResult =
+  | { status: 'UPDATED'; scenario: ScenarioRecord; volatilityRestored: boolean; resumedHalts: TradingHaltRecord[] }
+  | { status: 'NOT_FOUND' }
+  | { status: 'INVALID_STATE'; current: ScenarioStatus }
+  | { status: 'ANOTHER_IN_PROGRESS' };
+
+const SCENARIO_SELECT_COLUMNS: (keyof ScenarioRecord)[] = [
+  'ScenarioId',
+  'ExchangeId',
+  'Name',
+  'Timeline',
+  'Status',
+  'ElapsedMs',
+  'ResumedAt',
+  'NextEventIndex',
+  'CreatedBy',
+  'CreatedAt',
+];
+
+/**
+ * Columns returned by scenario queries, optionally prefixed (e.g. 'INSERTED.')
+ */
+export function scenarioColumns(prefix = ''): string {
+  return SCENARIO_SELECT_COLUMNS.map((column) => `${prefix}${column}`).join(', ');
+}
+
+/**
+ * Parse a stored timeline (malformed JSON is treated as an empty timeline)
+ */
+export function parseTimeline(timeline: string): ScenarioEvent[] {
+  try {
+    const parsed = JSON.parse(timeline);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Events ordered by atSeconds (events at the same time keep their uploaded order)
+ */
+export function sortTimeline(events: ScenarioEvent[]): ScenarioEvent[] {
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.atSeconds - b.event.atSeconds || a.index - b.index)
+    .map(({ event }) => event);
+}
+
+/**
+ * Running time of a scenario in milliseconds at the given time
+ */
+export function scenarioElapsedMs(record: ScenarioRecord, now: Date = new Date()): number {
+  const elapsed = Number(record.ElapsedMs);
+
+  if (record.Status !== 'RUNNING' || !record.ResumedAt) {
+    return elapsed;
+  }
+
+  return elapsed + Math.max(0, now.getTime() - new Date(record.ResumedAt).getTime());
+}
+
+/**
+ * Map a database scenario record to the API response shape
+ */
+export function mapScenarioRecord(record: ScenarioRecord, now: Date = new Date()): ScenarioResponse {
+  return {
+    scenarioId: record.ScenarioId,
+    exchangeId: record.ExchangeId,
+    name: record.Name,
+    status: record.Status,
+    events: parseTimeline(record.Timeline),
+    elapsedSeconds: new Decimal(scenarioElapsedMs(record, now)).dividedBy(1000).toDecimalPlaces(3).toNumber(),
+    nextEventIndex: record.NextEventIndex,
+    createdAt: record.CreatedAt,
+    createdBy: record.CreatedBy,
+  };
+}
+
+/**
+ * Price multiplier of the due gaps that apply to an instrument
+ *
+ * A gap without a symbol or sector applies to every symbol. Uses Decimal.js (ADR-006).
+ */
+export function gapMultiplier(gaps: ScenarioGap[], instrument: { symbol: string; sector: string | null }): number {
+  return gaps
+    .filter((gap) =>
+      gap.symbol ? gap.symbol === instrument.symbol : !gap.sector || gap.sector === instrument.sector
+    )
+    .reduce((multiplier, gap) => multiplier.times(new Decimal(1).plus(new Decimal(gap.percent).dividedBy(100))), new Decimal(1))
+    .toNumber();
+}
+
+/**
+ * Store a new READY scenario
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange the scenario runs on
+ * @param userId - Entra Object ID of the RiskManager
+ * @param scenario - Validated name and events
+ */
+export async function createScenario(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  userId: string,
+  scenario: CreateScenarioRequest
+): Promise<ScenarioRecord> {
+  const result = await transaction.request()
+    .input('scenarioExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('scenarioName', sql.NVarChar(100), scenario.name)
+    .input('scenarioTimeline', sql.NVarChar(sql.MAX), JSON.stringify(sortTimeline(scenario.events)))
+    .input('scenarioCreatedBy', sql.UniqueIdentifier, userId)
+    .query<ScenarioRecord>(`
+      INSERT INTO [Trade].[MarketScenarios] ([ExchangeId], [Name], [Timeline], [CreatedBy])
+      OUTPUT ${scenarioColumns('INSERTED.')}
+      VALUES (@scenarioExchangeId, @scenarioName, @scenarioTimeline, @scenarioCreatedBy)
+    `);
+
+  return result.recordset[0];
+}
+
+/**
+ * Scenarios of an exchange, newest first
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange to read
+ */
+export async function listScenarios(
+  transaction: sql.Transaction,
+  exchangeId: string
+): Promise<ScenarioRecord[]> {
+  const result = await transaction.request()
+    .input('scenarioExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<ScenarioRecord>(`
+      SELECT ${scenarioColumns()}
+      FROM [Trade].[MarketScenarios]
+      WHERE ExchangeId = @scenarioExchangeId
+      ORDER BY CreatedAt DESC
+    `);
+
+  return result.recordset;
+}
+
+/**
+ * Start (or continue), pause or reset a scenario
+ *
+ * - start: READY or PAUSED scenarios, when no other scenario of the exchange is in progress
+ * - pause: RUNNING scenarios; the running time so far is kept
+ * - reset: any scenario; lifts its halts and restores the exchange's VolatilityIndex
+ *
+ * @param transaction - Transaction with RLS session context set
+ * @param exchangeId - Exchange the scenario belongs to
+ * @param scenarioId - Scenario to change
+ * @param action - Requested transition
+ */
+export async function transitionScenario(
+  transaction: sql.Transaction,
+  exchangeId: string,
+  scenarioId: string,
+  action: ScenarioAction
+): Promise<ScenarioTransitionResult> {
+  const currentResult = await transaction.request()
+    .input('scenarioExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('scenarioId', sql.UniqueIdentifier, scenarioId)
+    .query<{ Status: ScenarioStatus; OtherInProgress: number }>(`
+      SELECT s.Status,
+             (SELECT COUNT(*) FROM [Trade].[MarketScenarios] o
+              WHERE o.ExchangeId = s.ExchangeId AND o.ScenarioId <> s.ScenarioId
+                AND o.Status IN ('RUNNING', 'PAUSED')) AS OtherInProgress
+      FROM [Trade].[MarketScenarios] s WITH (UPDLOCK, ROWLOCK)
+      WHERE s.ScenarioId = @scenarioId AND s.ExchangeId = @scenarioExchangeId
+    `);
+
+  const current = currentResult.recordset[0];
+
+  if (!current) {
+    return { status: 'NOT_FOUND' };
+  }
+
+  let assignments: string;
+  let volatilityRestored = false;
+  let resumedHalts: TradingHaltRecord[] = [];
+
+  switch (action) {
+    case 'start':
+      if (current.Status !== 'READY' && current.Status !== 'PAUSED') {
+        return { status: 'INVALID_STATE', current: current.Status };
+      }
+      if (current.OtherInProgress > 0) {
+        return { status: 'ANOTHER_IN_PROGRESS' };
+      }
+      assignments = `Status = 'RUNNING', ResumedAt = SYSDATETIMEOFFSET(),
+        BaselineVolatilityIndex = ISNULL(BaselineVolatilityIndex, (
+          SELECT VolatilityIndex FROM [Trade].[ExchangeConfigurations] WHERE ExchangeId = @scenarioExchangeId
+        ))`;
+      break;
+    case 'pause':
+      if (current.Status !== 'RUNNING') {
+        return { status: 'INVALID_STATE', current: current.Status };
+      }
+      assignments = `Status = 'PAUSED', ResumedAt = NULL,
+        ElapsedMs = ElapsedMs + DATEDIFF_BIG(MILLISECOND, ResumedAt, SYSDATETIMEOFFSET())`;
+      break;
+    case 'reset': {
+      resumedHalts = await resumeScenarioHalts(transaction.request(), scenarioId);
+
+      const restoreResult = await transaction.request()
+        .input('scenarioExchangeId', sql.UniqueIdentifier, exchangeId)
+        .input('scenarioId', sql.UniqueIdentifier, scenarioId)
+        .query(`
+          UPDATE ec
+          SET VolatilityIndex = s.BaselineVolatilityIndex
+          FROM [Trade].[ExchangeConfigurations] ec
+          INNER JOIN [Trade].[MarketScenarios] s ON s.ExchangeId = ec.ExchangeId
+          WHERE s.ScenarioId = @scenarioId AND ec.ExchangeId = @scenarioExchangeId
+            AND s.BaselineVolatilityIndex IS NOT NULL
+        `);
+
+      volatilityRestored = (restoreResult.rowsAffected[0] ?? 0) > 0;
+      assignments = `Status = 'READY', ResumedAt = NULL, ElapsedMs = 0, NextEventIndex = 0,
+        BaselineVolatilityIndex = NULL`;
+      break;
+    }
+  }
+
+  const updateResult = await transaction.request()
+    .input('scenarioExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('scenarioId', sql.UniqueIdentifier, scenarioId)
+    .query<ScenarioRecord>(`
+      UPDATE [Trade].[MarketScenarios]
+      SET ${assignments}
+      OUTPUT ${scenarioColumns('INSERTED.')}
+      WHERE ScenarioId = @scenarioId AND ExchangeId = @scenarioExchangeId
+    `);
+
+  return { status: 'UPDATED', scenario: updateResult.recordset[0], volatilityRestored, resumedHalts };
+}
+
+/**
+ * Apply the due events of the exchange's RUNNING scenario
+ *
+ * Volatility regimes and halts are written in one transaction with the scenario's progress,
+ * so an event is applied exactly once; gaps are returned for the caller to apply to this
+ * tick's prices.
+ *
+ * @param pool - Connection pool (engine-level access, no RLS session context)
+ * @param exchangeId - Exchange being ticked
+ * @returns What was applied, or undefined when no scenario is running
+ */
+export async function applyDueScenarioEvents(
+  pool: sql.ConnectionPool,
+  exchangeId: string
+): Promise<ScenarioTickResult | undefined> {
+  const transaction = pool.transaction();
+  await transaction.begin();
+
+  try {
+    const scenarioResult = await transaction.request()
+      .input('scenarioExchangeId', sql.UniqueIdentifier, exchangeId)
+      .query<{ ScenarioId: string; CreatedBy: string; Timeline: string; NextEventIndex: number; RunningMs: number | string }>(`
+        SELECT ScenarioId, CreatedBy, Timeline, NextEventIndex,
+               ElapsedMs + DATEDIFF_BIG(MILLISECOND, ResumedAt, SYSDATETIMEOFFSET()) AS RunningMs
+        FROM [Trade].[MarketScenarios] WITH (UPDLOCK, ROWLOCK)
+        WHERE ExchangeId = @scenarioExchangeId AND Status = 'RUNNING'
+      `);
+
+    const scenario = scenarioResult.recordset[0];
+
+    if (!scenario) {
+      await transaction.commit();
+      return undefined;
+    }
+
+    const events = parseTimeline(scenario.Timeline);
+    const runningMs = Number(scenario.RunningMs);
+    const result: ScenarioTickResult = {
+      scenarioId: scenario.ScenarioId,
+      createdBy: scenario.CreatedBy,
+      gaps: [],
+      halted: [],
+      resumed: [],
+      applied: 0,
+      completed: false,
+    };
+    let nextEventIndex = scenario.NextEventIndex;
+
+    while (nextEventIndex < events.length && events[nextEventIndex].atSeconds * 1000 <= runningMs) {
+      const event = events[nextEventIndex];
+
+      switch (event.type) {
+        case 'VOLATILITY_REGIME':
+          await transaction.request()
+            .input('scenarioExchangeId', sql.UniqueIdentifier, exchangeId)
+            .input('scenarioVolatilityIndex', sql.Decimal(5, 2), event.volatilityIndex)
+            .query(`
+              UPDATE [Trade].[ExchangeConfigurations]
+              SET VolatilityIndex = @scenarioVolatilityIndex
+              WHERE ExchangeId = @scenarioExchangeId
+            `);
+          result.volatilityIndex = event.volatilityIndex;
+          break;
+        case 'GAP':
+          result.gaps.push(event);
+          break;
+        case 'HALT':
+          result.halted.push(await haltTrading(transaction.request(), {
+            exchangeId,
+            symbol: event.symbol ?? null,
+            reason: 'SCENARIO',
+            scenarioId: scenario.ScenarioId,
+            durationSeconds: event.durationSeconds,
+          }));
+          break;
+        case 'RESUME':
+          result.resumed.push(...await resumeScenarioHalts(transaction.request(), scenario.ScenarioId, event.symbol));
+          break;
+      }
+
+      nextEventIndex++;
+      result.applied++;
+    }
+
+    if (result.applied > 0) {
+      result.completed = nextEventIndex >= events.length;
+
+      // A completed scenario stops its clock at the running time of its last tick
+      await transaction.request()
+        .input('scenarioId', sql.UniqueIdentifier, scenario.ScenarioId)
+        .input('scenarioNextEventIndex', sql.Int, nextEventIndex)
+        .input('scenarioCompleted', sql.Bit, result.completed)
+        .query(`
+          UPDATE [Trade].[MarketScenarios]
+          SET NextEventIndex = @scenarioNextEventIndex,
+              Status = CASE WHEN @scenarioCompleted = 1 THEN 'COMPLETED' ELSE Status END,
+              ElapsedMs = CASE WHEN @scenarioCompleted = 1
+                THEN ElapsedMs + DATEDIFF_BIG(MILLISECOND, ResumedAt, SYSDATETIMEOFFSET()) ELSE ElapsedMs END,
+              ResumedAt = CASE WHEN @scenarioCompleted = 1 THEN NULL ELSE ResumedAt END
+          WHERE ScenarioId = @scenarioId
+        `);
+    }
+
+    await transaction.commit();
+    return result;
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+}
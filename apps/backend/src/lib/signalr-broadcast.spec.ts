@@ -36,6 +36,10 @@ vi.mock('@msgpack/msgpack', () => ({
 import { 
   shouldBroadcastPriceUpdate,
   broadcastPriceUpdate,
+  broadcastExchangeConfigUpdated,
+  broadcastTradingHalt,
+  broadcastMarketSession,
+  broadcastDepthUpdate,
   addToTickerGroup,
   removeFromTickerGroup,
   resetSignalRClient,
@@ -43,6 +47,25 @@ import {
 import { PriceUpdateEvent } from '../types/market-engine';
 import * as telemetry from './telemetry';
 
+/**
+ * Read back a SignalR invocation sent to the group: strip the VarInt length prefix and
+ * decode the message with the mocked (JSON) MessagePack encoder
+ */
+function decodeInvocation(data: Buffer): unknown {
+  let length = 0;
+  let offset = 0;
+  let byte: number;
+
+  do {
+    byte = data[offset];
+    length |= (byte & 0x7f) << (7 * offset);
+    offset++;
+  } while (byte & 0x80);
+
+  expect(data.length - offset).toBe(length);
+  return JSON.parse(data.subarray(offset).toString());
+}
+
 describe('SignalR Broadcast Service', () => {
   let mockContext: InvocationContext;
 
@@ -177,6 +200,139 @@ describe('SignalR Broadcast Service', () => {
     });
   });
 
+  describe('broadcastExchangeConfigUpdated', () => {
+    const event = {
+      exchangeId: 'exchange-123',
+      updatedBy: 'user-123',
+      timestamp: '2026-01-19T10:00:00.000Z',
+    };
+
+    it('should broadcast the event to ticker:{ExchangeId}', async () => {
+      await broadcastExchangeConfigUpdated(event, mockContext);
+
+      expect(mockWebPubSubClient.group).toHaveBeenCalledWith('ticker:exchange-123');
+      expect(mockWebPubSubGroup.sendToAll).toHaveBeenCalledWith(expect.any(Buffer));
+    });
+
+    it('should invoke the client\'s ExchangeConfigUpdated handler with the event', async () => {
+      await broadcastExchangeConfigUpdated(event, mockContext);
+
+      const [data] = mockWebPubSubGroup.sendToAll.mock.calls[0];
+      expect(decodeInvocation(data)).toEqual([1, {}, null, 'ExchangeConfigUpdated', [event]]);
+    });
+
+    it('should handle broadcast errors gracefully', async () => {
+      mockWebPubSubGroup.sendToAll.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(broadcastExchangeConfigUpdated(event, mockContext)).resolves.toBeUndefined();
+
+      expect(mockContext.error).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to broadcast exchange configuration update')
+      );
+    });
+  });
+
+  describe('broadcastTradingHalt', () => {
+    const event = {
+      exchangeId: 'exchange-123',
+      symbol: 'AAPL',
+      status: 'HALTED' as const,
+      reason: 'LULD' as const,
+      haltedAt: '2026-01-19T10:00:00.000Z',
+      resumeAt: '2026-01-19T10:05:00.000Z',
+      timestamp: '2026-01-19T10:00:00.000Z',
+    };
+
+    it('should broadcast the event to ticker:{ExchangeId}', async () => {
+      await broadcastTradingHalt(event, mockContext);
+
+      expect(mockWebPubSubClient.group).toHaveBeenCalledWith('ticker:exchange-123');
+      expect(mockWebPubSubGroup.sendToAll).toHaveBeenCalledWith(expect.any(Buffer));
+    });
+
+    it('should invoke the client\'s TradingHalt handler with the event', async () => {
+      await broadcastTradingHalt(event, mockContext);
+
+      const [data] = mockWebPubSubGroup.sendToAll.mock.calls[0];
+      expect(decodeInvocation(data)).toEqual([1, {}, null, 'TradingHalt', [event]]);
+    });
+
+    it('should handle broadcast errors gracefully', async () => {
+      mockWebPubSubGroup.sendToAll.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(broadcastTradingHalt(event, mockContext)).resolves.toBeUndefined();
+
+      expect(mockContext.error).toHaveBeenCalledWith(expect.stringContaining('Failed to broadcast trading halt'));
+    });
+  });
+
+  describe('broadcastMarketSession', () => {
+    const event = {
+      exchangeId: 'exchange-123',
+      phase: 'CONTINUOUS' as const,
+      previousPhase: 'PRE_OPEN' as const,
+      auction: 'OPENING' as const,
+      timestamp: '2026-01-19T14:30:00.000Z',
+    };
+
+    it('should broadcast the event to ticker:{ExchangeId}', async () => {
+      await broadcastMarketSession(event, mockContext);
+
+      expect(mockWebPubSubClient.group).toHaveBeenCalledWith('ticker:exchange-123');
+      expect(mockWebPubSubGroup.sendToAll).toHaveBeenCalledWith(expect.any(Buffer));
+    });
+
+    it('should invoke the client\'s MarketSession handler with the event', async () => {
+      await broadcastMarketSession(event, mockContext);
+
+      const [data] = mockWebPubSubGroup.sendToAll.mock.calls[0];
+      expect(decodeInvocation(data)).toEqual([1, {}, null, 'MarketSession', [event]]);
+    });
+
+    it('should handle broadcast errors gracefully', async () => {
+      mockWebPubSubGroup.sendToAll.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(broadcastMarketSession(event, mockContext)).resolves.toBeUndefined();
+
+      expect(mockContext.error).toHaveBeenCalledWith(expect.stringContaining('Failed to broadcast market session'));
+    });
+  });
+
+  describe('broadcastDepthUpdate', () => {
+    const event = {
+      exchangeId: 'exchange-123',
+      symbol: 'AAPL',
+      changes: [
+        { side: 'BID' as const, price: 149.5, quantity: 300, orderCount: 2 },
+        { side: 'ASK' as const, price: 150.5, quantity: 0, orderCount: 0 },
+      ],
+      sequence: 7,
+      timestamp: '2026-01-19T14:30:00.000Z',
+    };
+
+    it('should broadcast the changed levels to ticker:{ExchangeId}', async () => {
+      await broadcastDepthUpdate(event, mockContext);
+
+      expect(mockWebPubSubClient.group).toHaveBeenCalledWith('ticker:exchange-123');
+      expect(mockWebPubSubGroup.sendToAll).toHaveBeenCalledWith(expect.any(Buffer));
+    });
+
+    it('should invoke the client\'s DepthUpdate handler with the changes', async () => {
+      await broadcastDepthUpdate(event, mockContext);
+
+      const [data] = mockWebPubSubGroup.sendToAll.mock.calls[0];
+      expect(decodeInvocation(data)).toEqual([1, {}, null, 'DepthUpdate', [event]]);
+    });
+
+    it('should handle broadcast errors gracefully', async () => {
+      mockWebPubSubGroup.sendToAll.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(broadcastDepthUpdate(event, mockContext)).resolves.toBeUndefined();
+
+      expect(mockContext.error).toHaveBeenCalledWith(expect.stringContaining('Failed to broadcast depth update'));
+    });
+  });
+
   describe('Group Management', () => {
     it('should add connection to ticker group', async () => {
       await addToTickerGroup('connection-123', 'exchange-456');
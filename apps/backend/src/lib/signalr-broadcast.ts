@@ -2,7 +2,10 @@ import { WebPubSubServiceClient } from '@azure/web-pubsub';
 import { encode } from '@msgpack/msgpack';
 import { InvocationContext } from '@azure/functions';
 import Decimal from 'decimal.js';
-import { PriceUpdateEvent } from '../types/market-engine';
+import { PriceUpdateEvent, TradingHaltEvent } from '../types/market-engine';
+import { MarketSessionEvent } from '../types/market-session';
+import { MarketDepthUpdateEvent } from '../types/market-depth';
+import { ExchangeConfigUpdatedEvent } from '../types/exchange';
 import {
   trackUpdateBroadcasted,
   trackBroadcastFailure,
@@ -129,6 +132,150 @@ export async function broadcastPriceUpdate(
   }
 }
 
+/**
+ * SignalR MessagePack hub protocol message type of an invocation
+ */
+const INVOCATION_MESSAGE_TYPE = 1;
+
+/**
+ * Frame an event as a SignalR MessagePack hub protocol invocation of a client method
+ * 
+ * Events sharing a ticker:{ExchangeId} group are told apart by their target, which the
+ * client's HubConnection routes to the handler registered with connection.on(target).
+ * The message is [1, headers, invocationId, target, arguments], prefixed with its length
+ * as a VarInt (7 bits per byte, low bits first).
+ * 
+ * @param target - Client method name, e.g. ExchangeConfigUpdated
+ * @param event - Event passed as the method's only argument
+ * @returns Length-prefixed MessagePack bytes
+ */
+function encodeInvocation(target: string, event: object): Buffer {
+  const message = encode([INVOCATION_MESSAGE_TYPE, {}, null, target, [event]]);
+  const lengthPrefix: number[] = [];
+  let remaining = message.length;
+
+  do {
+    const lowBits = remaining & 0x7f;
+    remaining >>>= 7;
+    lengthPrefix.push(remaining > 0 ? lowBits | 0x80 : lowBits);
+  } while (remaining > 0);
+
+  return Buffer.concat([Buffer.from(lengthPrefix), message]);
+}
+
+/**
+ * Broadcast an exchange configuration change to SignalR group using MessagePack
+ * 
+ * ADR-021: Connected FeatureService instances reload the exchange rules on receipt
+ * - Broadcasts to group ticker:{ExchangeId}, which every client of the exchange joins
+ * - Invokes the client's ExchangeConfigUpdated handler
+ * 
+ * @param event - Configuration change event
+ * @param context - Azure Functions context for logging
+ */
+export async function broadcastExchangeConfigUpdated(
+  event: ExchangeConfigUpdatedEvent,
+  context: InvocationContext
+): Promise<void> {
+  try {
+    const client = getSignalRClient();
+    const groupName = `ticker:${event.exchangeId}`;
+
+    await client.group(groupName).sendToAll(encodeInvocation('ExchangeConfigUpdated', event));
+
+    context.log(`Broadcast to ${groupName}: exchange configuration updated`);
+  } catch (error) {
+    const err = error as Error;
+    context.error(`Failed to broadcast exchange configuration update: ${err.message}`);
+
+    // Don't throw - the configuration is saved and clients pick it up on their next load
+  }
+}
+
+/**
+ * Broadcast a trading halt or resume to SignalR group using MessagePack
+ * 
+ * - Broadcasts to group ticker:{ExchangeId}; symbol is null for exchange-wide halts
+ * - Invokes the client's TradingHalt handler
+ * 
+ * @param event - Halt or resume event
+ * @param context - Azure Functions context for logging
+ */
+export async function broadcastTradingHalt(
+  event: TradingHaltEvent,
+  context: InvocationContext
+): Promise<void> {
+  try {
+    const client = getSignalRClient();
+    const groupName = `ticker:${event.exchangeId}`;
+
+    await client.group(groupName).sendToAll(encodeInvocation('TradingHalt', event));
+
+    context.log(`Broadcast to ${groupName}: ${event.symbol ?? 'exchange'} ${event.status} (${event.reason})`);
+  } catch (error) {
+    const err = error as Error;
+    context.error(`Failed to broadcast trading halt: ${err.message}`);
+
+    // Don't throw - the halt is stored and createOrder enforces it regardless
+  }
+}
+
+/**
+ * Broadcast a market session phase change to SignalR group using MessagePack
+ * 
+ * - Broadcasts to group ticker:{ExchangeId}; auction names the auction run on the transition
+ * - Invokes the client's MarketSession handler
+ * 
+ * @param event - Session phase change event
+ * @param context - Azure Functions context for logging
+ */
+export async function broadcastMarketSession(
+  event: MarketSessionEvent,
+  context: InvocationContext
+): Promise<void> {
+  try {
+    const client = getSignalRClient();
+    const groupName = `ticker:${event.exchangeId}`;
+
+    await client.group(groupName).sendToAll(encodeInvocation('MarketSession', event));
+
+    context.log(`Broadcast to ${groupName}: session ${event.previousPhase ?? 'none'} -> ${event.phase}`);
+  } catch (error) {
+    const err = error as Error;
+    context.error(`Failed to broadcast market session: ${err.message}`);
+
+    // Don't throw - the phase is stored and createOrder enforces it regardless
+  }
+}
+
+/**
+ * Broadcast the price levels that changed in a symbol's book to ticker:{ExchangeId}
+ *
+ * Clients apply the changes on top of a GET /api/v1/marketdata/depth snapshot; the update
+ * invokes the client's DepthUpdate handler.
+ *
+ * @param event - Changed levels (quantity 0 removes a level)
+ * @param context - Azure Functions context for logging
+ */
+export async function broadcastDepthUpdate(
+  event: MarketDepthUpdateEvent,
+  context: InvocationContext
+): Promise<void> {
+  try {
+    const client = getSignalRClient();
+    const groupName = `ticker:${event.exchangeId}`;
+
+    await client.group(groupName).sendToAll(encodeInvocation('DepthUpdate', event));
+
+    context.log(`Broadcast to ${groupName}: ${event.changes.length} depth changes for ${event.symbol}`);
+  } catch (error) {
+    const err = error as Error;
+    context.error(`Failed to broadcast depth update: ${err.message}`);
+
+    // Don't throw - clients resynchronize from the depth snapshot
+  }
+}
+
 /**
  * Add connection to SignalR group
  * Clients call this when they want to subscribe to a specific exchange's ticker
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSeededRandom } from '@assetsim/shared/finance-models';
+import { advanceSimulationStep, symbolRandomSource } from './simulation-seed';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+}));
+
+describe('simulation-seed', () => {
+  describe('advanceSimulationStep', () => {
+    it('should claim the next step of a seeded exchange', async () => {
+      const query = vi.fn().mockResolvedValue({ recordset: [{ SimulationSeed: 42, SimulationStep: '8' }] });
+      const input = vi.fn().mockReturnThis();
+
+      const result = await advanceSimulationStep({ input, query } as any, 'e1');
+
+      expect(result).toEqual({ seed: 42, step: 8 });
+      expect(input).toHaveBeenCalledWith('simulationExchangeId', 'uniqueidentifier', 'e1');
+      expect(query.mock.calls[0][0]).toContain('SET SimulationStep = SimulationStep + 1');
+      expect(query.mock.calls[0][0]).toContain('SimulationSeed IS NOT NULL');
+    });
+
+    it('should return undefined when the exchange is not seeded', async () => {
+      const query = vi.fn().mockResolvedValue({ recordset: [] });
+      const input = vi.fn().mockReturnThis();
+
+      expect(await advanceSimulationStep({ input, query } as any, 'e1')).toBeUndefined();
+    });
+  });
+
+  describe('symbolRandomSource', () => {
+    it('should draw from the stream for the seed, step and symbol', () => {
+      const random = symbolRandomSource({ seed: 42, step: 8 }, 'AAPL');
+      const expected = createSeededRandom(42, 8, 'AAPL');
+
+      expect([random(), random()]).toEqual([expected(), expected()]);
+    });
+
+    it('should fall back to Math.random for an unseeded exchange', () => {
+      expect(symbolRandomSource(undefined, 'AAPL')).toBe(Math.random);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import * as sql from 'mssql';
+import { RandomSource, createSeededRandom } from '@assetsim/shared/finance-models';
+
+/**
+ * Simulation Seed Utilities
+ *
+ * Reproducible market paths for exchanges with a SimulationSeed
+ *
+ * Timer-triggered generators keep no state between runs, so each run claims the next
+ * SimulationStep of a seeded exchange and draws every symbol's shocks from the stream
+ * (seed, step, symbol); shared market and sector factors use named streams the same way. The exchange ID is not part of the stream, so a second exchange
+ * created with the same seed and listings replays the same path for another cohort.
+ * Changing the seed restarts the step count (see applyExchangeConfigChanges).
+ */
+
+/**
+ * The seed and step claimed by one generator run
+ */
+export interface SimulationStep {
+  seed: number;
+  step: number;
+}
+
+/**
+ * Claim the next step of a seeded exchange
+ *
+ * @param request - Request without RLS session context (engine-level access)
+ * @param exchangeId - Exchange being ticked
+ * @returns The seed and claimed step, or undefined when the exchange is not seeded
+ */
+export async function advanceSimulationStep(
+  request: sql.Request,
+  exchangeId: string
+): Promise<SimulationStep | undefined> {
+  const result = await request
+    .input('simulationExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<{ SimulationSeed: number; SimulationStep: number }>(`
+      UPDATE [Trade].[ExchangeConfigurations]
+      SET SimulationStep = SimulationStep + 1
+      OUTPUT INSERTED.SimulationSeed, INSERTED.SimulationStep
+      WHERE ExchangeId = @simulationExchangeId AND SimulationSeed IS NOT NULL
+    `);
+
+  const row = result.recordset[0];
+  return row ? { seed: row.SimulationSeed, step: Number(row.SimulationStep) } : undefined;
+}
+
+/**
+ * Random source for one symbol (or factor stream) in a generator run
+ *
+ * @param simulation - The claimed step, or undefined for an unseeded exchange (Math.random)
+ * @param symbol - Symbol being ticked, or a factor stream name (see market-factors.ts)
+ */
+export function symbolRandomSource(simulation: SimulationStep | undefined, symbol: string): RandomSource {
+  return simulation ? createSeededRandom(simulation.seed, simulation.step, symbol) : Math.random;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  TradingHaltRecord,
+  activeHaltCondition,
+  getActiveHalt,
+  haltTrading,
+  mapTradingHaltEvent,
+  releaseExpiredHalts,
+  resumeScenarioHalts,
+} from './trading-halts';
+
+vi.mock('mssql', () => ({
+  UniqueIdentifier: 'uniqueidentifier',
+  NVarChar: vi.fn(() => 'nvarchar'),
+  Int: 'int',
+}));
+
+describe('trading-halts', () => {
+  const halt: TradingHaltRecord = {
+    HaltId: 7,
+    ExchangeId: 'e1',
+    Symbol: 'AAPL',
+    Reason: 'LULD',
+    ScenarioId: null,
+    HaltedAt: new Date('2026-01-19T10:00:00Z'),
+    ResumeAt: new Date('2026-01-19T10:05:00Z'),
+    ResumedAt: null,
+  };
+
+  describe('activeHaltCondition', () => {
+    it('should match symbol and exchange-wide halts that have not ended', () => {
+      const condition = activeHaltCondition('l.ExchangeId', 'i.Symbol');
+
+      expect(condition).toContain('h.ExchangeId = l.ExchangeId');
+      expect(condition).toContain('(h.Symbol IS NULL OR h.Symbol = i.Symbol)');
+      expect(condition).toContain('h.ResumedAt IS NULL');
+      expect(condition).toContain('h.ResumeAt > SYSDATETIMEOFFSET()');
+    });
+  });
+
+  describe('mapTradingHaltEvent', () => {
+    it('should map a halt record to a ticker event', () => {
+      expect(mapTradingHaltEvent(halt, 'HALTED', '2026-01-19T10:00:01.000Z')).toEqual({
+        exchangeId: 'e1',
+        symbol: 'AAPL',
+        status: 'HALTED',
+        reason: 'LULD',
+        haltedAt: '2026-01-19T10:00:00.000Z',
+        resumeAt: '2026-01-19T10:05:00.000Z',
+        timestamp: '2026-01-19T10:00:01.000Z',
+      });
+    });
+
+    it('should keep resumeAt null for halts without a scheduled end', () => {
+      expect(mapTradingHaltEvent({ ...halt, ResumeAt: null }, 'RESUMED').resumeAt).toBeNull();
+    });
+  });
+
+  describe('haltTrading', () => {
+    it('should halt until lifted when no duration is given', async () => {
+      const query = vi.fn().mockResolvedValue({ recordset: [halt], rowsAffected: [1] });
+      const input = vi.fn().mockReturnThis();
+
+      const result = await haltTrading(
+        { input, query } as any,
+        { exchangeId: 'e1', symbol: null, reason: 'SCENARIO', scenarioId: 's1' }
+      );
+
+      expect(result).toBe(halt);
+      expect(input).toHaveBeenCalledWith('haltSymbol', 'nvarchar', null);
+      expect(input).toHaveBeenCalledWith('haltDurationSeconds', 'int', null);
+      expect(query.mock.calls[0][0]).toContain('OUTPUT INSERTED.HaltId');
+      expect(query.mock.calls[0][0]).toContain('DATEADD(SECOND, @haltDurationSeconds, SYSDATETIMEOFFSET())');
+    });
+  });
+
+  describe('resumeScenarioHalts', () => {
+    it('should return the halts lifted', async () => {
+      const query = vi.fn().mockResolvedValue({ recordset: [halt, halt], rowsAffected: [2] });
+      const input = vi.fn().mockReturnThis();
+
+      expect(await resumeScenarioHalts({ input, query } as any, 's1', 'AAPL')).toEqual([halt, halt]);
+      expect(input).toHaveBeenCalledWith('haltSymbol', 'nvarchar', 'AAPL');
+    });
+  });
+
+  describe('releaseExpiredHalts', () => {
+    it('should record timed halts as resumed at their scheduled end', async () => {
+      const query = vi.fn().mockResolvedValue({ recordset: [halt], rowsAffected: [1] });
+      const input = vi.fn().mockReturnThis();
+
+      expect(await releaseExpiredHalts({ input, query } as any, 'e1')).toEqual([halt]);
+      expect(query.mock.calls[0][0]).toContain('SET ResumedAt = ResumeAt');
+      expect(query.mock.calls[0][0]).toContain('ResumeAt <= SYSDATETIMEOFFSET()');
+    });
+  });
+
+  describe('getActiveHalt', () => {
+    it('should return the halt covering the symbol', async () => {
+      const query = vi.fn().mockResolvedValue({ recordset: [halt] });
+      const input = vi.fn().mockReturnThis();
+
+      expect(await getActiveHalt({ input, query } as any, 'e1', 'AAPL')).toBe(halt);
+      expect(query.mock.calls[0][0]).toContain('(Symbol IS NULL OR Symbol = @haltSymbol)');
+    });
+
+    it('should return undefined when the symbol can trade', async () => {
+      const query = vi.fn().mockResolvedValue({ recordset: [] });
+      const input = vi.fn().mockReturnThis();
+
+      expect(await getActiveHalt({ input, query } as any, 'e1', 'AAPL')).toBeUndefined();
+    });
+  });
+});
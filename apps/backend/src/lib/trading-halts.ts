@@ -0,0 +1,210 @@
+import * as sql from 'mssql';
+import { TradingHaltEvent, TradingHaltReason } from '../types/market-engine';
+
+/**
+ * Trading Halt Utilities
+ *
+ * Reads and writes [Trade].[TradingHalts]
+ *
+ * A halt stops one symbol, or a whole exchange when Symbol is NULL. It is active from
+ * HaltedAt until its scheduled ResumeAt or until it is lifted early (ResumedAt). The market
+ * engine and ticker generator skip halted symbols, so their prices freeze and their open
+ * orders wait for the halt to end; createOrder rejects new orders while a halt is active.
+ *
+ * Halts are placed by scenarios (lib/scenarios.ts) and by the LULD bands and market-wide
+ * circuit breaker (lib/circuit-breakers.ts). Writes return the affected rows so the market
+ * engine can broadcast each halt and resume to ticker:{exchangeId}.
+ */
+
+/**
+ * Database record shape for [Trade].[TradingHalts]
+ */
+export interface TradingHaltRecord {
+  HaltId: number;
+  ExchangeId: string;
+  Symbol: string | null;
+  Reason: TradingHaltReason;
+  ScenarioId: string | null;
+  HaltedAt: Date;
+  ResumeAt: Date | null;
+  ResumedAt: Date | null;
+}
+
+const TRADING_HALT_COLUMNS: (keyof TradingHaltRecord)[] = [
+  'HaltId',
+  'ExchangeId',
+  'Symbol',
+  'Reason',
+  'ScenarioId',
+  'HaltedAt',
+  'ResumeAt',
+  'ResumedAt',
+];
+
+/**
+ * Halt columns for OUTPUT clauses and SELECTs
+ *
+ * @param prefix - Column prefix (e.g. 'INSERTED.')
+ */
+function haltColumns(prefix = ''): string {
+  return TRADING_HALT_COLUMNS.map((column) => `${prefix}${column}`).join(', ');
+}
+
+/**
+ * SQL condition that is true while a halt covers the given exchange and symbol columns
+ *
+ * @param exchangeColumn - Column holding the exchange ID (e.g. 'l.ExchangeId')
+ * @param symbolColumn - Column holding the symbol (e.g. 'i.Symbol')
+ */
+export function activeHaltCondition(exchangeColumn: string, symbolColumn: string): string {
+  return `EXISTS (
+    SELECT 1 FROM [Trade].[TradingHalts] h
+    WHERE h.ExchangeId = ${exchangeColumn}
+      AND (h.Symbol IS NULL OR h.Symbol = ${symbolColumn})
+      AND h.ResumedAt IS NULL
+      AND (h.ResumeAt IS NULL OR h.ResumeAt > SYSDATETIMEOFFSET())
+  )`;
+}
+
+/**
+ * Map a halt record to the event broadcast to ticker:{exchangeId}
+ *
+ * @param record - Halt that was placed or lifted
+ * @param status - HALTED when placed, RESUMED when lifted or expired
+ * @param timestamp - Time of the broadcast (defaults to now)
+ */
+export function mapTradingHaltEvent(
+  record: TradingHaltRecord,
+  status: TradingHaltEvent['status'],
+  timestamp: string = new Date().toISOString()
+): TradingHaltEvent {
+  return {
+    exchangeId: record.ExchangeId,
+    symbol: record.Symbol,
+    status,
+    reason: record.Reason,
+    haltedAt: new Date(record.HaltedAt).toISOString(),
+    resumeAt: record.ResumeAt ? new Date(record.ResumeAt).toISOString() : null,
+    timestamp,
+  };
+}
+
+/**
+ * Halt a symbol, or the whole exchange
+ *
+ * @param request - Request to run the insert on
+ * @param halt - Exchange, symbol (null = whole exchange), reason, placing scenario and
+ *   duration in seconds (undefined = until lifted)
+ * @returns The placed halt
+ */
+export async function haltTrading(
+  request: sql.Request,
+  halt: {
+    exchangeId: string;
+    symbol: string | null;
+    reason: TradingHaltReason;
+    scenarioId?: string;
+    durationSeconds?: number;
+  }
+): Promise<TradingHaltRecord> {
+  const result = await request
+    .input('haltExchangeId', sql.UniqueIdentifier, halt.exchangeId)
+    .input('haltSymbol', sql.NVarChar(10), halt.symbol)
+    .input('haltReason', sql.NVarChar(20), halt.reason)
+    .input('haltScenarioId', sql.UniqueIdentifier, halt.scenarioId ?? null)
+    .input('haltDurationSeconds', sql.Int, halt.durationSeconds ?? null)
+    .query<TradingHaltRecord>(`
+      INSERT INTO [Trade].[TradingHalts] ([ExchangeId], [Symbol], [Reason], [ScenarioId], [ResumeAt])
+      OUTPUT ${haltColumns('INSERTED.')}
+      VALUES (@haltExchangeId, @haltSymbol, @haltReason, @haltScenarioId,
+              DATEADD(SECOND, @haltDurationSeconds, SYSDATETIMEOFFSET()))
+    `);
+
+  return result.recordset[0];
+}
+
+/**
+ * Lift the active halts a scenario placed
+ *
+ * @param request - Request to run the update on
+ * @param scenarioId - Scenario whose halts are lifted
+ * @param symbol - Only lift this symbol's halts (undefined = every halt of the scenario)
+ * @returns The halts lifted
+ */
+export async function resumeScenarioHalts(
+  request: sql.Request,
+  scenarioId: string,
+  symbol?: string
+): Promise<TradingHaltRecord[]> {
+  const result = await request
+    .input('haltScenarioId', sql.UniqueIdentifier, scenarioId)
+    .input('haltSymbol', sql.NVarChar(10), symbol ?? null)
+    .query<TradingHaltRecord>(`
+      UPDATE [Trade].[TradingHalts]
+      SET ResumedAt = SYSDATETIMEOFFSET()
+      OUTPUT ${haltColumns('INSERTED.')}
+      WHERE ScenarioId = @haltScenarioId
+        AND (@haltSymbol IS NULL OR Symbol = @haltSymbol)
+        AND ResumedAt IS NULL
+        AND (ResumeAt IS NULL OR ResumeAt > SYSDATETIMEOFFSET())
+    `);
+
+  return result.recordset;
+}
+
+/**
+ * Mark the exchange's halts whose ResumeAt has passed as resumed
+ *
+ * Timed halts end on their own (activeHaltCondition stops matching them at ResumeAt); this
+ * records the resume once, at its scheduled time, so each one is broadcast exactly once.
+ *
+ * @param request - Request to run the update on
+ * @param exchangeId - Exchange being ticked
+ * @returns The halts that ended since the last call
+ */
+export async function releaseExpiredHalts(
+  request: sql.Request,
+  exchangeId: string
+): Promise<TradingHaltRecord[]> {
+  const result = await request
+    .input('haltExchangeId', sql.UniqueIdentifier, exchangeId)
+    .query<TradingHaltRecord>(`
+      UPDATE [Trade].[TradingHalts]
+      SET ResumedAt = ResumeAt
+      OUTPUT ${haltColumns('INSERTED.')}
+      WHERE ExchangeId = @haltExchangeId
+        AND ResumedAt IS NULL
+        AND ResumeAt <= SYSDATETIMEOFFSET()
+    `);
+
+  return result.recordset;
+}
+
+/**
+ * Find the active halt covering a symbol, preferring an exchange-wide halt
+ *
+ * @param request - Request to run the query on
+ * @param exchangeId - Exchange to check
+ * @param symbol - Symbol to check
+ * @returns The halt, or undefined when the symbol can trade
+ */
+export async function getActiveHalt(
+  request: sql.Request,
+  exchangeId: string,
+  symbol: string
+): Promise<TradingHaltRecord | undefined> {
+  const result = await request
+    .input('haltExchangeId', sql.UniqueIdentifier, exchangeId)
+    .input('haltSymbol', sql.NVarChar(10), symbol)
+    .query<TradingHaltRecord>(`
+      SELECT TOP 1 ${haltColumns()}
+      FROM [Trade].[TradingHalts]
+      WHERE ExchangeId = @haltExchangeId
+        AND (Symbol IS NULL OR Symbol = @haltSymbol)
+        AND ResumedAt IS NULL
+        AND (ResumeAt IS NULL OR ResumeAt > SYSDATETIMEOFFSET())
+      ORDER BY CASE WHEN Symbol IS NULL THEN 0 ELSE 1 END, HaltedAt DESC
+    `);
+
+  return result.recordset[0];
+}
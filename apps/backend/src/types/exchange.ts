@@ -1,23 +1,182 @@
 import { z } from 'zod';
+import { MarketEngineConfigSchema } from './market-engine';
+import {
+  ClosingAuctionMinutesSchema,
+  PreOpenMinutesSchema,
+  SessionHolidaysSchema,
+  SessionTimeSchema,
+  SessionTimeZoneSchema,
+} from './market-session';
 
 // Request schema for creating a new exchange
 export const CreateExchangeSchema = z.object({
   name: z.string().min(1).max(100),
+  simulationSeed: MarketEngineConfigSchema.shape.simulationSeed.optional(), // Seed the market before its first tick
 });
 
 export type CreateExchangeRequest = z.infer<typeof CreateExchangeSchema>;
 
+// Request schema for renaming an exchange
+export const UpdateExchangeSchema = z.object({
+  name: z.string().min(1).max(100),
+});
+
+export type UpdateExchangeRequest = z.infer<typeof UpdateExchangeSchema>;
+
+// Commission model: BPS = basis points of each fill's notional, FLAT = fixed amount per order
+export const CommissionModelSchema = z.enum(['FLAT', 'BPS']);
+export type CommissionModel = z.infer<typeof CommissionModelSchema>;
+
+// Cost basis method for realized P&L: AVERAGE = average cost, FIFO = oldest lots closed first
+export const CostBasisMethodSchema = z.enum(['AVERAGE', 'FIFO']);
+export type CostBasisMethod = z.infer<typeof CostBasisMethodSchema>;
+
+// Exchange roles (ADR-002): RiskManager = Admin, PortfolioManager = Trader, Analyst = Read-only
+export const ExchangeRoleSchema = z.enum(['RiskManager', 'PortfolioManager', 'Analyst']);
+export type ExchangeRole = z.infer<typeof ExchangeRoleSchema>;
+
+// Exchange and membership route params schemas
+export const ExchangeParamsSchema = z.object({
+  exchangeId: z.string().uuid(),
+});
+
+export const ExchangeMemberParamsSchema = z.object({
+  exchangeId: z.string().uuid(),
+  userId: z.string().uuid(), // Entra Object ID
+});
+
+// List members query params schema (same pagination defaults and limits as the order list)
+export const GetExchangeMembersQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+export type GetExchangeMembersQuery = z.infer<typeof GetExchangeMembersQuerySchema>;
+
+// Assign a role to a user (invites the user if they are not yet a member)
+export const AddExchangeMemberSchema = z.object({
+  userId: z.string().uuid(), // Entra Object ID
+  role: ExchangeRoleSchema,
+});
+
+export type AddExchangeMemberRequest = z.infer<typeof AddExchangeMemberSchema>;
+
+// Change a member's role: the member ends up holding exactly this role
+export const UpdateExchangeMemberSchema = z.object({
+  role: ExchangeRoleSchema,
+});
+
+export type UpdateExchangeMemberRequest = z.infer<typeof UpdateExchangeMemberSchema>;
+
+// Revoke query params schema: one role, or every role (removing the member) when omitted
+export const RemoveExchangeMemberQuerySchema = z.object({
+  role: ExchangeRoleSchema.optional(),
+});
+
+// Exchange configuration query params schema (same shape as GET /api/v1/exchange/rules)
+export const ExchangeConfigQuerySchema = z.object({
+  exchangeId: z.string().uuid('exchangeId must be a valid UUID'),
+});
+
+/**
+ * Partial update of an exchange's simulation rules (PUT /api/v1/exchange/config)
+ *
+ * Field names follow the ExchangeConfig returned by GET /api/v1/exchange/rules. Market engine
+ * settings reuse the bounds documented on MarketEngineConfigSchema; the remaining bounds keep
+ * values within their SQL column types.
+ */
+export const UpdateExchangeConfigSchema = z
+  .object({
+    volatilityIndex: z.number().min(0.1).max(10).optional(), // 1.0 = Normal, 2.0 = High/Crisis
+    initialAum: z.number().positive().max(1_000_000_000_000).optional(), // StartingCash for new portfolios
+    commissionBps: z.number().nonnegative().max(10000).optional(), // bps of notional (BPS) or amount per order (FLAT)
+    commissionModel: CommissionModelSchema.optional(),
+    allowMargin: z.boolean().optional(),
+    maxPortfolioSize: z.number().int().positive().max(1000).optional(),
+    dashboardLayout: z.array(z.string().min(1).max(50)).max(20).optional(), // Widget identifiers
+    tickIntervalMs: MarketEngineConfigSchema.shape.tickIntervalMs.optional(),
+    volatility: MarketEngineConfigSchema.shape.volatility.optional(),
+    marketEngineEnabled: MarketEngineConfigSchema.shape.enabled.optional(),
+    priceModel: MarketEngineConfigSchema.shape.priceModel.optional(),
+    drift: MarketEngineConfigSchema.shape.drift.optional(),
+    jumpIntensity: MarketEngineConfigSchema.shape.jumpIntensity.optional(),
+    jumpMean: MarketEngineConfigSchema.shape.jumpMean.optional(),
+    jumpVolatility: MarketEngineConfigSchema.shape.jumpVolatility.optional(),
+    meanReversion: MarketEngineConfigSchema.shape.meanReversion.optional(),
+    marketCorrelation: MarketEngineConfigSchema.shape.marketCorrelation.optional(),
+    sectorCorrelation: MarketEngineConfigSchema.shape.sectorCorrelation.optional(),
+    simulationSeed: MarketEngineConfigSchema.shape.simulationSeed.optional(), // Setting it (or null) restarts the seeded sequence
+    luldBand: MarketEngineConfigSchema.shape.luldBand.optional(),
+    luldHaltSeconds: MarketEngineConfigSchema.shape.luldHaltSeconds.optional(),
+    circuitBreakerThreshold: MarketEngineConfigSchema.shape.circuitBreakerThreshold.optional(),
+    circuitBreakerHaltSeconds: MarketEngineConfigSchema.shape.circuitBreakerHaltSeconds.optional(),
+    sessionTimeZone: SessionTimeZoneSchema.optional(), // null trades 24/7; changing it restarts the session cycle
+    sessionOpenTime: SessionTimeSchema.optional(),
+    sessionCloseTime: SessionTimeSchema.optional(),
+    preOpenMinutes: PreOpenMinutesSchema.optional(),
+    closingAuctionMinutes: ClosingAuctionMinutesSchema.optional(),
+    sessionHolidays: SessionHolidaysSchema.optional(),
+    marketMakerSpreadBps: MarketEngineConfigSchema.shape.marketMakerSpreadBps.optional(),
+  })
+  .refine((config) => Object.values(config).some((value) => value !== undefined), {
+    message: 'At least one configuration field is required',
+  })
+  .refine(
+    (config) => !config.sessionOpenTime || !config.sessionCloseTime || config.sessionOpenTime < config.sessionCloseTime,
+    { message: 'sessionCloseTime must be after sessionOpenTime', path: ['sessionCloseTime'] }
+  );
+
+export type UpdateExchangeConfigRequest = z.infer<typeof UpdateExchangeConfigSchema>;
+
+// Feature flag route params schema (matches the ExchangeFeatureFlags.FeatureName column)
+export const FeatureFlagParamsSchema = z.object({
+  exchangeId: z.string().uuid(),
+  featureName: z.string().min(1).max(100),
+});
+
+// Override a flag for one exchange (names must be in FEATURE_FLAG_REGISTRY)
+// Targeting only narrows an enabled flag; omitted fields clear any stored targeting
+export const SetFeatureFlagSchema = z.object({
+  isEnabled: z.boolean(),
+  rolloutPercentage: z.number().int().min(0).max(100).optional(), // Deterministic share of users in scope
+  targetRoles: z.array(ExchangeRoleSchema).max(3).optional(),
+  targetUserIds: z.array(z.string().uuid()).max(100).optional(), // Always enabled, bypassing roles and rollout
+});
+
+export type SetFeatureFlagRequest = z.infer<typeof SetFeatureFlagSchema>;
+
 // Response types
 export interface ExchangeResponse {
   exchangeId: string;
   name: string;
   createdAt: string;
   createdBy: string;
+  roles?: ExchangeRole[]; // The caller's roles, set by the list and get endpoints
 }
 
 export interface ExchangeRoleResponse {
   exchangeId: string;
   userId: string;
-  role: 'RiskManager' | 'PortfolioManager' | 'Analyst';
+  role: ExchangeRole;
   assignedAt: string;
+  portfolioId?: string; // Set when assigning PortfolioManager provisioned the member's first portfolio
+}
+
+export interface ExchangeFeatureFlagResponse {
+  featureName: string;
+  description?: string; // Unset for stored flags missing from the registry
+  defaultEnabled?: boolean;
+  isEnabled: boolean; // The override's switch (before targeting), else the registry default
+  isOverridden: boolean;
+  rolloutPercentage?: number; // Targeting fields are set only when stored on the override
+  targetRoles?: ExchangeRole[];
+  targetUserIds?: string[];
+  updatedAt?: string; // Set when isOverridden
+}
+
+// Pushed to ticker:{exchangeId} after a configuration or feature flag change so clients reload their rules
+export interface ExchangeConfigUpdatedEvent {
+  exchangeId: string;
+  updatedBy: string;
+  timestamp: string;
 }
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { PriceModelType, PriceModelTypeSchema } from './market-engine';
+
+/**
+ * Instrument Master Zod Schemas
+ * Implements ADR-007: Validation for the instrument CRUD endpoints
+ *
+ * Instruments are global (shared by every exchange). The simulation parameters scale how the
+ * market engine and ticker generator move each symbol: BasePrice seeds the first tick,
+ * volatilityMultiplier scales the exchange's volatility, priceModel overrides the exchange's
+ * price model (null inherits it), beta sets its loading on the exchange's market factor, and
+ * prices and volumes are rounded to tickSize and lotSize. The sector picks its sector factor.
+ */
+
+// Asset classes supported by the simulator
+export const AssetClassSchema = z.enum(['EQUITY', 'ETF', 'CRYPTO', 'FX', 'COMMODITY', 'INDEX']);
+export type AssetClass = z.infer<typeof AssetClassSchema>;
+
+// Ticker symbol (matches the Instruments.Symbol NVARCHAR(10) key)
+export const InstrumentSymbolSchema = z
+  .string()
+  .regex(/^[A-Z0-9.-]{1,10}$/, 'symbol must be 1-10 uppercase letters, digits, dots or dashes');
+
+export const InstrumentParamsSchema = z.object({
+  symbol: InstrumentSymbolSchema,
+});
+
+// Exchange listing route params (/exchanges/{exchangeId}/instruments/{symbol})
+export const ExchangeInstrumentParamsSchema = z.object({
+  exchangeId: z.string().uuid(),
+  symbol: InstrumentSymbolSchema,
+});
+
+// List query params schema
+export const ListInstrumentsQuerySchema = z.object({
+  assetClass: AssetClassSchema.optional(),
+});
+
+export type ListInstrumentsQuery = z.infer<typeof ListInstrumentsQuerySchema>;
+
+// Simulation parameter bounds, shared by create and update
+const instrumentFields = {
+  companyName: z.string().min(1).max(100),
+  sector: z.string().max(50).nullable(),
+  assetClass: AssetClassSchema,
+  basePrice: z.number().positive().max(1_000_000_000), // Reference price for the first simulated tick
+  volatilityMultiplier: z.number().min(0.01).max(20), // Scales the exchange volatility (1.0 = exchange default)
+  tickSize: z.number().positive().max(1000), // Minimum price increment
+  lotSize: z.number().positive().max(1_000_000), // Minimum volume increment
+  priceModel: PriceModelTypeSchema.nullable(), // Overrides the exchange's price model (null inherits it)
+  beta: z.number().min(-2).max(3), // Market factor loading (1.0 = moves with the market, negative = hedges it)
+};
+
+// Create (or restore an archived) instrument
+export const CreateInstrumentSchema = z
+  .object({
+    symbol: InstrumentSymbolSchema,
+    companyName: instrumentFields.companyName,
+    sector: instrumentFields.sector.optional(),
+    assetClass: instrumentFields.assetClass.default('EQUITY'),
+    basePrice: instrumentFields.basePrice,
+    volatilityMultiplier: instrumentFields.volatilityMultiplier.default(1),
+    tickSize: instrumentFields.tickSize.default(0.01),
+    lotSize: instrumentFields.lotSize.default(1),
+    priceModel: instrumentFields.priceModel.optional(),
+    beta: instrumentFields.beta.default(1),
+  })
+  .refine((instrument) => instrument.basePrice >= instrument.tickSize, {
+    message: 'basePrice must be at least one tickSize',
+    path: ['basePrice'],
+  });
+
+export type CreateInstrumentRequest = z.infer<typeof CreateInstrumentSchema>;
+
+// Partial update of an instrument (the symbol is the key and cannot change)
+export const UpdateInstrumentSchema = z
+  .object({
+    companyName: instrumentFields.companyName.optional(),
+    sector: instrumentFields.sector.optional(),
+    assetClass: instrumentFields.assetClass.optional(),
+    basePrice: instrumentFields.basePrice.optional(),
+    volatilityMultiplier: instrumentFields.volatilityMultiplier.optional(),
+    tickSize: instrumentFields.tickSize.optional(),
+    lotSize: instrumentFields.lotSize.optional(),
+    priceModel: instrumentFields.priceModel.optional(),
+    beta: instrumentFields.beta.optional(),
+  })
+  .refine((instrument) => Object.values(instrument).some((value) => value !== undefined), {
+    message: 'At least one instrument field is required',
+  });
+
+export type UpdateInstrumentRequest = z.infer<typeof UpdateInstrumentSchema>;
+
+// Response types
+export interface InstrumentResponse {
+  symbol: string;
+  companyName: string;
+  sector: string | null;
+  assetClass: AssetClass;
+  basePrice: number;
+  volatilityMultiplier: number;
+  tickSize: number;
+  lotSize: number;
+  priceModel: PriceModelType | null; // null uses the exchange's price model
+  beta: number;
+}
+
+// An instrument listed on an exchange
+export interface ExchangeInstrumentResponse extends InstrumentResponse {
+  listedAt: string;
+  listedBy: string | null; // NULL when listed by exchange creation or seeding
+}
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+/**
+ * Market Depth Zod Schemas
+ *
+ * Level 2 view of a symbol's order book (lib/market-depth.ts): participants' resting limit
+ * orders (LIMIT, and STOP_LIMIT once triggered) aggregated by price, best price first on
+ * each side. MARKET orders and untriggered stops do not rest in the book, and the market
+ * maker's quote travels with the price update instead.
+ */
+
+/**
+ * Most price levels per side a snapshot returns; the depth feed publishes this many, so
+ * updates cover every level a client can hold
+ */
+export const MAX_DEPTH_LEVELS = 20;
+
+export const MarketDepthSideSchema = z.enum(['BID', 'ASK']);
+export type MarketDepthSide = z.infer<typeof MarketDepthSideSchema>;
+
+// Market depth query schema (GET /api/v1/marketdata/depth)
+export const GetMarketDepthQuerySchema = z.object({
+  exchangeId: z.string().uuid(),
+  symbol: z.string().min(1).max(20),
+  levels: z.coerce.number().int().positive().max(MAX_DEPTH_LEVELS).default(10),
+});
+
+export type GetMarketDepthQuery = z.infer<typeof GetMarketDepthQuerySchema>;
+
+// Aggregated size resting at one price
+export interface MarketDepthLevel {
+  price: number;
+  quantity: number; // Remaining quantity of the orders at this price
+  orderCount: number;
+  ownQuantity: number; // Part of quantity from the requesting user's orders (0 in the depth feed)
+}
+
+// Both sides of a symbol's book, best price first
+export interface MarketDepth {
+  bids: MarketDepthLevel[];
+  asks: MarketDepthLevel[];
+}
+
+// Market depth snapshot response
+export interface MarketDepthSnapshot extends MarketDepth {
+  exchangeId: string;
+  symbol: string;
+  sequence: number; // Last depth update already reflected in the snapshot (0 = none yet)
+  timestamp: string;
+}
+
+// New size of a level since the last depth update (quantity 0 removes the level)
+export interface MarketDepthLevelChange {
+  side: MarketDepthSide;
+  price: number;
+  quantity: number;
+  orderCount: number;
+}
+
+// Pushed to ticker:{exchangeId} after a market engine tick changes a symbol's book
+export interface MarketDepthUpdateEvent {
+  exchangeId: string;
+  symbol: string;
+  changes: MarketDepthLevelChange[];
+  sequence: number; // Increases by one per update of the book; apply only updates above the snapshot's
+  timestamp: string;
+}
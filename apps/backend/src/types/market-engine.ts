@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { MAX_SIMULATION_SEED } from '@assetsim/shared/finance-models';
 
 /**
  * Market Engine Zod Schemas
@@ -15,10 +16,23 @@ export const MarketTickSchema = z.object({
   low: z.number().positive(),
   close: z.number().positive(),
   volume: z.number().nonnegative(),
+  bid: z.number().positive(), // Market maker quote at the close (lib/market-maker.ts)
+  ask: z.number().positive(),
+  bidSize: z.number().nonnegative(),
+  askSize: z.number().nonnegative(),
 });
 
 export type MarketTick = z.infer<typeof MarketTickSchema>;
 
+/**
+ * Stochastic price models used by the market engine and ticker generator (lib/price-models.ts)
+ * - GBM: geometric Brownian motion with drift, the default
+ * - MERTON: GBM plus lognormal jumps arriving as a Poisson process
+ * - OU: exponential Ornstein-Uhlenbeck, reverting towards the instrument's BasePrice
+ */
+export const PriceModelTypeSchema = z.enum(['GBM', 'MERTON', 'OU']);
+export type PriceModelType = z.infer<typeof PriceModelTypeSchema>;
+
 /**
  * Market engine configuration schema.
  *
@@ -43,6 +57,38 @@ export type MarketTick = z.infer<typeof MarketTickSchema>;
  *   - 1.0 (~100%) represents an extreme or crisis regime where prices can move dramatically
  *     between ticks (used in stress-testing and tail-risk training).
  *
+ * - Price model parameters are per tick, like volatility:
+ *   - drift (-0.01–0.01): expected log return per tick (GBM and MERTON)
+ *   - jumpIntensity (0–1): expected jumps per tick; 1 jump per tick is already a crash regime
+ *   - jumpMean (-0.5–0.5) and jumpVolatility (0–0.5): mean and standard deviation of the log
+ *     jump size, so a single jump stays within roughly -80%/+160%
+ *   - meanReversion (0.0001–1): OU reversion speed; 1 closes ~63% of the gap to BasePrice per tick
+ *
+ * - Correlation settings split each symbol's shock between shared factors and its own noise:
+ *   - marketCorrelation (0–1): share of a beta-1 symbol's shock variance driven by the market
+ *     factor, i.e. the correlation between two unrelated beta-1 symbols
+ *   - sectorCorrelation (0–1): share driven by the symbol's sector factor, so two beta-1 symbols
+ *     in the same sector correlate at marketCorrelation + sectorCorrelation
+ *   - 0 for both makes every symbol independent; loadings are scaled down when beta pushes the
+ *     shared share above 1
+ *
+ * - simulationSeed (0–2,147,483,647 or null)
+ *   - Makes the generators deterministic: the same seed replays the same shocks tick by tick,
+ *     so an instructor can rerun a market path. null draws from Math.random.
+ *
+ * - Trading halts (lib/circuit-breakers.ts):
+ *   - luldBand (0.01–0.5 or null): limit-up/limit-down band around a symbol's 5-minute average
+ *     price; a tick beyond it is capped at the band and halts the symbol. null disables LULD
+ *   - luldHaltSeconds (15–3600): length of a LULD halt (US equities pause for 5 minutes)
+ *   - circuitBreakerThreshold (0.01–0.5 or null): market-wide halt once the equal-weighted index
+ *     of listed symbols has fallen this far since the day's first ticks (at most once per day,
+ *     like the 7% Level 1 breaker). null disables it
+ *   - circuitBreakerHaltSeconds (60–86400): length of the market-wide halt (15 minutes in the US)
+ *
+ * - marketMakerSpreadBps (0.1–1000): bid/ask spread the market maker quotes at VolatilityIndex
+ *   1.0 (lib/market-maker.ts); a liquid large cap trades around 1–10 bps, 1000 bps (10%) is an
+ *   illiquid small cap in a crisis
+ *
  * These bounds are chosen as safe global limits for the simulator across asset classes and
  * exchanges. More specific behavior for particular markets or instruments should be modeled
  * by per-exchange or per-asset multipliers in the pricing logic, while this schema enforces
@@ -62,6 +108,20 @@ export const MarketEngineConfigSchema = z.object({
     .min(0.001)
     .max(1.0), // Dimensionless volatility scalar (0.001 ≈ 0.1% moves, 1.0 ≈ 100% extreme volatility)
   enabled: z.boolean(),
+  priceModel: PriceModelTypeSchema,
+  drift: z.number().min(-0.01).max(0.01),
+  jumpIntensity: z.number().min(0).max(1),
+  jumpMean: z.number().min(-0.5).max(0.5),
+  jumpVolatility: z.number().min(0).max(0.5),
+  meanReversion: z.number().min(0.0001).max(1),
+  marketCorrelation: z.number().min(0).max(1),
+  sectorCorrelation: z.number().min(0).max(1),
+  simulationSeed: z.number().int().min(0).max(MAX_SIMULATION_SEED).nullable(),
+  luldBand: z.number().min(0.01).max(0.5).nullable(),
+  luldHaltSeconds: z.number().int().min(15).max(3600),
+  circuitBreakerThreshold: z.number().min(0.01).max(0.5).nullable(),
+  circuitBreakerHaltSeconds: z.number().int().min(60).max(86_400),
+  marketMakerSpreadBps: z.number().min(0.1).max(1000),
 });
 
 export type MarketEngineConfig = z.infer<typeof MarketEngineConfigSchema>;
@@ -95,6 +155,31 @@ export const PriceUpdateEventSchema = z.object({
   changePercent: z.number(),
   volume: z.number().nonnegative(),
   timestamp: z.string().datetime(),
+  // Market maker quote; only the market engine quotes (ticker generator updates are price-only)
+  bid: z.number().positive().optional(),
+  ask: z.number().positive().optional(),
+  bidSize: z.number().nonnegative().optional(),
+  askSize: z.number().nonnegative().optional(),
 });
 
 export type PriceUpdateEvent = z.infer<typeof PriceUpdateEventSchema>;
+
+/**
+ * Why trading was halted
+ * - SCENARIO: a market scenario HALT event
+ * - LULD: a tick left the symbol's limit-up/limit-down band
+ * - CIRCUIT_BREAKER: market-wide halt after the exchange index fell past its threshold
+ */
+export const TradingHaltReasonSchema = z.enum(['SCENARIO', 'LULD', 'CIRCUIT_BREAKER']);
+export type TradingHaltReason = z.infer<typeof TradingHaltReasonSchema>;
+
+// Pushed to ticker:{exchangeId} when a symbol (or the whole exchange) halts or resumes
+export interface TradingHaltEvent {
+  exchangeId: string;
+  symbol: string | null; // null = whole exchange
+  status: 'HALTED' | 'RESUMED';
+  reason: TradingHaltReason;
+  haltedAt: string;
+  resumeAt: string | null; // Scheduled end of the halt (null = until lifted)
+  timestamp: string;
+}
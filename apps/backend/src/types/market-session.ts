@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+/**
+ * Market Session Zod Schemas
+ *
+ * An exchange with a SessionTimeZone trades Monday to Friday (local time), except on its
+ * SessionHolidays, through these phases (lib/market-sessions.ts):
+ * - CLOSED: no new orders; the market engine does not tick or match
+ * - PRE_OPEN: preOpenMinutes before the open; MARKET and LIMIT orders are collected
+ * - CONTINUOUS: from the open (after the opening auction) until the closing auction
+ * - CLOSING_AUCTION: closingAuctionMinutes before the close; MARKET and LIMIT orders are
+ *   collected for the closing auction, which sets the day's closing price
+ *
+ * The opening and closing call auctions uncross the collected orders at a single price when
+ * CONTINUOUS starts and when CLOSED starts. Exchanges without a time zone trade continuously.
+ */
+
+export const MarketSessionPhaseSchema = z.enum(['CLOSED', 'PRE_OPEN', 'CONTINUOUS', 'CLOSING_AUCTION']);
+export type MarketSessionPhase = z.infer<typeof MarketSessionPhaseSchema>;
+
+export const MarketAuctionTypeSchema = z.enum(['OPENING', 'CLOSING']);
+export type MarketAuctionType = z.infer<typeof MarketAuctionTypeSchema>;
+
+// IANA time zone (e.g. 'America/New_York'); null trades 24/7
+export const SessionTimeZoneSchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .refine((timeZone) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, 'Unknown time zone')
+  .nullable();
+
+// Local time of day (HH:mm, 24-hour)
+export const SessionTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm (24-hour)');
+
+// Local dates the exchange is closed (YYYY-MM-DD)
+export const SessionHolidaysSchema = z
+  .array(z.string().regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, 'Expected YYYY-MM-DD'))
+  .max(366);
+
+export const PreOpenMinutesSchema = z.number().int().min(0).max(240);
+export const ClosingAuctionMinutesSchema = z.number().int().min(0).max(60);
+
+// Pushed to ticker:{exchangeId} when the exchange's session moves to another phase
+export interface MarketSessionEvent {
+  exchangeId: string;
+  phase: MarketSessionPhase;
+  previousPhase: MarketSessionPhase | null; // null on the first phase after a schedule change
+  auction: MarketAuctionType | null; // Auction run on this transition
+  timestamp: string;
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { InstrumentSymbolSchema } from './instrument';
+
+/**
+ * Market Scenario Zod Schemas
+ * Implements ADR-007: Validation for the scenario endpoints
+ *
+ * A scenario is a timeline of events a RiskManager schedules for a session. atSeconds counts
+ * running time from the start (pausing stops the clock), and marketEngineTick applies each
+ * event on its first tick at or after that time:
+ * - VOLATILITY_REGIME: sets the exchange's VolatilityIndex (1.0 = Normal, 2.0 = High/Crisis)
+ * - GAP: moves the price of a symbol, a sector, or (with neither) every listed symbol by percent
+ * - HALT: halts a symbol, or the whole exchange without one, optionally for durationSeconds
+ * - RESUME: lifts the scenario's halts on a symbol, or all of them without one
+ */
+
+// Running time of an event (up to one day after the scenario starts)
+const atSeconds = z.number().int().min(0).max(86_400);
+
+export const ScenarioEventSchema = z
+  .discriminatedUnion('type', [
+    z.object({
+      type: z.literal('VOLATILITY_REGIME'),
+      atSeconds,
+      volatilityIndex: z.number().min(0.1).max(10), // Same bounds as UpdateExchangeConfigSchema
+    }),
+    z.object({
+      type: z.literal('GAP'),
+      atSeconds,
+      percent: z.number().gt(-100).max(1000).refine((percent) => percent !== 0, 'percent must not be 0'),
+      symbol: InstrumentSymbolSchema.optional(),
+      sector: z.string().min(1).max(50).optional(), // Matches Instruments.Sector
+    }),
+    z.object({
+      type: z.literal('HALT'),
+      atSeconds,
+      symbol: InstrumentSymbolSchema.optional(), // Omitted halts the whole exchange
+      durationSeconds: z.number().int().positive().max(86_400).optional(), // Omitted halts until a RESUME or reset
+    }),
+    z.object({
+      type: z.literal('RESUME'),
+      atSeconds,
+      symbol: InstrumentSymbolSchema.optional(), // Omitted lifts every halt the scenario placed
+    }),
+  ])
+  .refine((event) => event.type !== 'GAP' || !(event.symbol && event.sector), {
+    message: 'A GAP targets a symbol or a sector, not both',
+    path: ['sector'],
+  });
+
+export type ScenarioEvent = z.infer<typeof ScenarioEventSchema>;
+
+// Upload a scenario (events may be listed in any order; they are stored by atSeconds)
+export const CreateScenarioSchema = z.object({
+  name: z.string().min(1).max(100),
+  events: z.array(ScenarioEventSchema).min(1).max(500),
+});
+
+export type CreateScenarioRequest = z.infer<typeof CreateScenarioSchema>;
+
+export const ScenarioStatusSchema = z.enum(['READY', 'RUNNING', 'PAUSED', 'COMPLETED']);
+export type ScenarioStatus = z.infer<typeof ScenarioStatusSchema>;
+
+export const ScenarioActionSchema = z.enum(['start', 'pause', 'reset']);
+export type ScenarioAction = z.infer<typeof ScenarioActionSchema>;
+
+// Scenario control route params (/exchanges/{exchangeId}/scenarios/{scenarioId}/{action})
+export const ScenarioActionParamsSchema = z.object({
+  exchangeId: z.string().uuid(),
+  scenarioId: z.string().uuid(),
+  action: ScenarioActionSchema,
+});
+
+// Response types
+export interface ScenarioResponse {
+  scenarioId: string;
+  exchangeId: string;
+  name: string;
+  status: ScenarioStatus;
+  events: ScenarioEvent[];
+  elapsedSeconds: number; // Running time so far (excludes paused time)
+  nextEventIndex: number; // Events before this index have been applied
+  createdAt: string;
+  createdBy: string;
+}
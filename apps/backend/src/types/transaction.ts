@@ -5,10 +5,14 @@ import { z } from 'zod';
  * Implements ADR-007: Validation for Transaction API HTTP Triggers
  */
 
-// Order side enum
-export const OrderSideSchema = z.enum(['BUY', 'SELL']);
+// Order side enum (SHORT opens or adds to a short position, COVER buys it back)
+export const OrderSideSchema = z.enum(['BUY', 'SELL', 'SHORT', 'COVER']);
 export type OrderSide = z.infer<typeof OrderSideSchema>;
 
+// Portfolio margin status enum
+export const MarginStatusSchema = z.enum(['OK', 'MARGIN_CALL']);
+export type MarginStatus = z.infer<typeof MarginStatusSchema>;
+
 // Order type enum
 export const OrderTypeSchema = z.enum(['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT']);
 export type OrderType = z.infer<typeof OrderTypeSchema>;
@@ -81,6 +85,7 @@ export interface OrderResponse {
   status: OrderStatus;
   filledQuantity: number;
   averagePrice?: number;
+  commission: number; // Total commission charged across the order's fills
   createdAt: string;
   updatedAt: string;
 }
@@ -93,6 +98,27 @@ export const CancelOrderSchema = z.object({
 
 export type CancelOrderRequest = z.infer<typeof CancelOrderSchema>;
 
+// Amend (cancel/replace) order request schema
+// Fields left out keep their current values; order type compatibility is checked against the stored order
+export const AmendOrderSchema = z.object({
+  exchangeId: z.string().uuid(),
+  quantity: z.number().positive().optional(),
+  price: z.number().positive().optional(), // Only for LIMIT and STOP_LIMIT orders
+  stopPrice: z.number().positive().optional(), // Only for STOP and STOP_LIMIT orders
+}).refine(
+  (data) => data.quantity !== undefined || data.price !== undefined || data.stopPrice !== undefined,
+  { message: 'At least one of quantity, price or stopPrice must be provided' }
+);
+
+export type AmendOrderRequest = z.infer<typeof AmendOrderSchema>;
+
+// Order list sort field and direction enums
+export const OrderSortFieldSchema = z.enum(['createdAt', 'updatedAt', 'symbol', 'quantity', 'status']);
+export type OrderSortField = z.infer<typeof OrderSortFieldSchema>;
+
+export const SortOrderSchema = z.enum(['asc', 'desc']);
+export type SortOrder = z.infer<typeof SortOrderSchema>;
+
 /**
  * Get order query params schema
  * 
@@ -103,18 +129,81 @@ export type CancelOrderRequest = z.infer<typeof CancelOrderSchema>;
  *   who may have hundreds of orders, pagination is essential.)
  * - offset: 0 (Standard starting point for pagination)
  * - max limit: 100 (Maximum to prevent excessive load on database and API)
+ * 
+ * Sorting defaults to newest first (createdAt desc). limit and offset are coerced
+ * because they arrive as query string values.
  */
 export const GetOrderQuerySchema = z.object({
   exchangeId: z.string().uuid(),
   portfolioId: z.string().uuid().optional(),
   status: OrderStatusSchema.optional(),
   symbol: z.string().optional(),
-  limit: z.number().int().positive().max(100).default(50),
-  offset: z.number().int().nonnegative().default(0),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+  sortBy: OrderSortFieldSchema.default('createdAt'),
+  sortOrder: SortOrderSchema.default('desc'),
 });
 
 export type GetOrderQuery = z.infer<typeof GetOrderQuerySchema>;
 
+// Get single order params schema (exchangeId is required to set RLS session context)
+export const GetOrderSchema = z.object({
+  orderId: z.string().uuid(),
+  exchangeId: z.string().uuid(),
+});
+
+export type GetOrderRequest = z.infer<typeof GetOrderSchema>;
+
+// Paginated list response with total-count metadata
+export interface PagedResponse<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Execution list sort field enum
+export const ExecutionSortFieldSchema = z.enum(['executedAt', 'symbol', 'quantity', 'price']);
+export type ExecutionSortField = z.infer<typeof ExecutionSortFieldSchema>;
+
+/**
+ * Get executions query params schema
+ *
+ * Same pagination defaults and limits as GetOrderQuerySchema. from/to bound ExecutedAt
+ * (inclusive from, exclusive to). Sorting defaults to newest first (executedAt desc).
+ */
+export const GetExecutionsQuerySchema = z.object({
+  exchangeId: z.string().uuid(),
+  portfolioId: z.string().uuid().optional(),
+  orderId: z.string().uuid().optional(),
+  symbol: z.string().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+  sortBy: ExecutionSortFieldSchema.default('executedAt'),
+  sortOrder: SortOrderSchema.default('desc'),
+}).refine(
+  (data) => !data.from || !data.to || new Date(data.from) < new Date(data.to),
+  { message: 'from must be earlier than to', path: ['from'] }
+);
+
+export type GetExecutionsQuery = z.infer<typeof GetExecutionsQuerySchema>;
+
+// Execution (fill) response
+export interface ExecutionResponse {
+  executionId: string;
+  orderId: string;
+  exchangeId: string;
+  portfolioId: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  commission: number;
+  executedAt: string;
+}
+
 // Portfolio query schema
 export const GetPortfolioSchema = z.object({
   exchangeId: z.string().uuid(),
@@ -123,7 +212,37 @@ export const GetPortfolioSchema = z.object({
 
 export type GetPortfolioRequest = z.infer<typeof GetPortfolioSchema>;
 
-// Position response
+/**
+ * List portfolios query params schema
+ *
+ * Same pagination defaults and limits as GetOrderQuerySchema. Portfolios are returned
+ * oldest first; RLS limits the list to the portfolios the caller can see.
+ */
+export const GetPortfoliosQuerySchema = z.object({
+  exchangeId: z.string().uuid(),
+  limit: z.coerce.number().int().positive().max(100).default(50),
+  offset: z.coerce.number().int().nonnegative().default(0),
+});
+
+export type GetPortfoliosQuery = z.infer<typeof GetPortfoliosQuerySchema>;
+
+// Create portfolio route params schema
+export const CreatePortfolioParamsSchema = z.object({
+  exchangeId: z.string().uuid(),
+});
+
+/**
+ * Create portfolio request body schema
+ *
+ * The portfolio is funded from the exchange's StartingCash; name defaults to 'Main Portfolio'.
+ */
+export const CreatePortfolioSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export type CreatePortfolioRequest = z.infer<typeof CreatePortfolioSchema>;
+
+// Position response (valued at the current quote)
 export interface PositionResponse {
   symbol: string;
   quantity: number;
@@ -139,6 +258,9 @@ export interface PortfolioResponse {
   exchangeId: string;
   name: string;
   cashBalance: number;
-  totalValue: number;
+  totalValue: number; // cashBalance plus signed market value of all positions
+  unrealizedPnL: number; // Sum of position unrealizedPnL
+  realizedPnL: number; // Accumulated across all positions, including closed ones
+  marginStatus: MarginStatus;
   positions: PositionResponse[];
 }
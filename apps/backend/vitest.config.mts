@@ -7,6 +7,7 @@ export default defineConfig(() => ({
   resolve: {
     alias: {
       '@assetsim/shared/error-models': path.resolve(__dirname, '../../libs/shared/error-models/src/index.ts'),
+      '@assetsim/shared/finance-models': path.resolve(__dirname, '../../libs/shared/finance-models/src/index.ts'),
     },
   },
   test: {
@@ -7,7 +7,9 @@ CREATE TABLE [Trade].[Exchanges] (
     [ExchangeId] UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
     [Name] NVARCHAR(100) NOT NULL,
     [CreatedAt] DATETIMEOFFSET DEFAULT SYSDATETIMEOFFSET(),
-    [CreatedBy] UNIQUEIDENTIFIER NOT NULL -- Entra Object ID of creator
+    [CreatedBy] UNIQUEIDENTIFIER NOT NULL, -- Entra Object ID of creator
+    [IsActive] BIT NOT NULL DEFAULT 1, -- 0 = archived (soft-deleted): market engine stopped, history kept
+    [ArchivedAt] DATETIMEOFFSET NULL
 );
 GO
 
@@ -24,11 +26,41 @@ GO
 -- 3. Configuration (1:1 with Exchange)
 CREATE TABLE [Trade].[ExchangeConfigurations] (
     [ExchangeId] UNIQUEIDENTIFIER PRIMARY KEY FOREIGN KEY REFERENCES [Trade].[Exchanges]([ExchangeId]) ON DELETE CASCADE,
-    [VolatilityIndex] DECIMAL(5, 2) DEFAULT 1.0, -- 1.0 = Normal, 2.0 = High/Crisis
+    [VolatilityIndex] DECIMAL(5, 2) DEFAULT 1.0, -- Regime multiplier on per-tick volatility (1.0 = Normal, 2.0 = High/Crisis); scenarios change it
     [StartingCash] MONEY DEFAULT 10000000.00, -- Initial AUM
-    [Commission] MONEY DEFAULT 5.00, -- Institutional Commission per Trade
-    [AllowMargin] BIT DEFAULT 1,
+    [Commission] MONEY DEFAULT 5.00, -- Commission rate: bps of notional (BPS) or amount per order (FLAT)
+    [CommissionModel] NVARCHAR(10) NOT NULL DEFAULT 'BPS' CHECK ([CommissionModel] IN ('FLAT', 'BPS')),
+    [AllowMargin] BIT DEFAULT 1, -- SHORT orders are rejected when 0
+    [InitialMargin] DECIMAL(5, 4) DEFAULT 0.50, -- Equity required to open shorts, as a share of short market value
+    [MaintenanceMargin] DECIMAL(5, 4) DEFAULT 0.25, -- Equity below this share of short market value triggers a margin call
+    [CostBasisMethod] NVARCHAR(10) NOT NULL DEFAULT 'AVERAGE' CHECK ([CostBasisMethod] IN ('AVERAGE', 'FIFO')), -- How reducing fills realize P&L
     [MaxPortfolioSize] INT DEFAULT 50,
+    [MaxParticipationRate] DECIMAL(5, 4) DEFAULT 0.25, -- Share of each tick's volume available to fill orders
+    [TickIntervalMs] INT DEFAULT 5000, -- Market engine tick interval (100ms-60s, see MarketEngineConfigSchema)
+    [Volatility] DECIMAL(5, 4) DEFAULT 0.02, -- Market engine price-move scalar (0.001-1.0)
+    [MarketEngineEnabled] BIT DEFAULT 1, -- Market engine and ticker generator skip the exchange when 0
+    [PriceModel] NVARCHAR(10) NOT NULL DEFAULT 'GBM' CHECK ([PriceModel] IN ('GBM', 'MERTON', 'OU')), -- Stochastic price process (see lib/price-models.ts)
+    [Drift] DECIMAL(9, 8) DEFAULT 0, -- Expected log return per tick (GBM, MERTON)
+    [JumpIntensity] DECIMAL(5, 4) DEFAULT 0.01, -- Expected jumps per tick (MERTON)
+    [JumpMean] DECIMAL(5, 4) DEFAULT 0, -- Mean log jump size (MERTON)
+    [JumpVolatility] DECIMAL(5, 4) DEFAULT 0.05, -- Standard deviation of the log jump size (MERTON)
+    [MeanReversion] DECIMAL(5, 4) DEFAULT 0.05, -- Reversion speed towards the instrument's BasePrice per tick (OU)
+    [MarketCorrelation] DECIMAL(5, 4) DEFAULT 0.30 CHECK ([MarketCorrelation] BETWEEN 0 AND 1), -- Share of a beta-1 symbol's shock variance from the market factor
+    [SectorCorrelation] DECIMAL(5, 4) DEFAULT 0.20 CHECK ([SectorCorrelation] BETWEEN 0 AND 1), -- Share of shock variance from the symbol's sector factor
+    [SimulationSeed] INT NULL CHECK ([SimulationSeed] >= 0), -- Replays the same price path when set; NULL uses Math.random
+    [SimulationStep] BIGINT NOT NULL DEFAULT 0, -- Generator runs since the seed was set (keys each run's random stream)
+    [LuldBand] DECIMAL(5, 4) NULL DEFAULT 0.10 CHECK ([LuldBand] BETWEEN 0.01 AND 0.5), -- Limit-up/limit-down band around the 5-minute average price; NULL disables LULD halts
+    [LuldHaltSeconds] INT NOT NULL DEFAULT 300 CHECK ([LuldHaltSeconds] BETWEEN 15 AND 3600), -- Length of a LULD halt
+    [CircuitBreakerThreshold] DECIMAL(5, 4) NULL DEFAULT 0.07 CHECK ([CircuitBreakerThreshold] BETWEEN 0.01 AND 0.5), -- Index drop since the day's first ticks that halts the exchange; NULL disables it
+    [CircuitBreakerHaltSeconds] INT NOT NULL DEFAULT 900 CHECK ([CircuitBreakerHaltSeconds] BETWEEN 60 AND 86400), -- Length of a market-wide halt
+    [SessionTimeZone] NVARCHAR(64) NULL, -- IANA time zone of the trading day (see lib/market-sessions.ts); NULL trades 24/7
+    [SessionOpenTime] NVARCHAR(5) NOT NULL DEFAULT '09:30', -- Local HH:mm of the opening auction
+    [SessionCloseTime] NVARCHAR(5) NOT NULL DEFAULT '16:00', -- Local HH:mm of the closing auction
+    [PreOpenMinutes] INT NOT NULL DEFAULT 30 CHECK ([PreOpenMinutes] BETWEEN 0 AND 240), -- Orders are collected for the opening auction this long before the open
+    [ClosingAuctionMinutes] INT NOT NULL DEFAULT 10 CHECK ([ClosingAuctionMinutes] BETWEEN 0 AND 60), -- Continuous trading stops this long before the close
+    [SessionHolidays] NVARCHAR(MAX) NOT NULL CHECK (ISJSON([SessionHolidays]) = 1) DEFAULT '[]', -- JSON Array of local YYYY-MM-DD dates without a session
+    [SessionPhase] NVARCHAR(20) NULL CHECK ([SessionPhase] IN ('CLOSED', 'PRE_OPEN', 'CONTINUOUS', 'CLOSING_AUCTION')), -- Phase the market engine last applied (runs the auctions on change)
+    [MarketMakerSpreadBps] DECIMAL(7, 2) NOT NULL DEFAULT 10 CHECK ([MarketMakerSpreadBps] BETWEEN 0.1 AND 1000), -- Market maker bid/ask spread at VolatilityIndex 1.0 (see lib/market-maker.ts)
     [DashboardLayout] NVARCHAR(MAX) CHECK (ISJSON([DashboardLayout]) = 1) DEFAULT '[]' -- JSON Array of Widget IDs
 );
 GO
@@ -38,7 +70,14 @@ CREATE TABLE [Trade].[Instruments] (
     [Symbol] NVARCHAR(10) PRIMARY KEY,
     [CompanyName] NVARCHAR(100) NOT NULL,
     [Sector] NVARCHAR(50),
-    [BasePrice] DECIMAL(18, 2) NOT NULL -- Reference price for simulation start
+    [AssetClass] NVARCHAR(20) NOT NULL DEFAULT 'EQUITY' CHECK ([AssetClass] IN ('EQUITY', 'ETF', 'CRYPTO', 'FX', 'COMMODITY', 'INDEX')),
+    [BasePrice] DECIMAL(18, 8) NOT NULL, -- Reference price for simulation start
+    [VolatilityMultiplier] DECIMAL(6, 4) NOT NULL DEFAULT 1.0, -- Scales the exchange's per-tick volatility for this symbol
+    [TickSize] DECIMAL(18, 8) NOT NULL DEFAULT 0.01, -- Minimum price increment; simulated prices are rounded to it
+    [LotSize] DECIMAL(18, 8) NOT NULL DEFAULT 1, -- Minimum volume increment; simulated volume is rounded down to it
+    [PriceModel] NVARCHAR(10) NULL CHECK ([PriceModel] IN ('GBM', 'MERTON', 'OU')), -- Overrides the exchange's price model; NULL inherits it
+    [Beta] DECIMAL(6, 4) NOT NULL DEFAULT 1.0, -- Loading on the exchange's market factor (correlated price shocks)
+    [IsActive] BIT NOT NULL DEFAULT 1 -- Archived instruments stop ticking but stay referenced by positions
 );
 GO
 
@@ -47,7 +86,11 @@ CREATE TABLE [Trade].[Portfolios] (
     [PortfolioId] UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
     [ExchangeId] UNIQUEIDENTIFIER NOT NULL FOREIGN KEY REFERENCES [Trade].[Exchanges]([ExchangeId]),
     [UserId] UNIQUEIDENTIFIER NOT NULL, -- Entra Object ID (Portfolio Manager)
+    [Name] NVARCHAR(100) NOT NULL DEFAULT 'Main Portfolio',
     [CashBalance] MONEY NOT NULL,
+    [RealizedPnL] MONEY NOT NULL DEFAULT 0, -- Accumulated across all positions, including closed ones
+    [MarginStatus] NVARCHAR(20) NOT NULL DEFAULT 'OK' CHECK ([MarginStatus] IN ('OK', 'MARGIN_CALL')),
+    [MarginCallAt] DATETIMEOFFSET NULL, -- Set when the portfolio entered MARGIN_CALL
     [CreatedAt] DATETIMEOFFSET DEFAULT SYSDATETIMEOFFSET(),
     INDEX [IX_Portfolios_ExchangeId] ([ExchangeId]),
     INDEX [IX_Portfolios_UserId] ([UserId])
@@ -61,6 +104,7 @@ CREATE TABLE [Trade].[Positions] (
     [Symbol] NVARCHAR(10) NOT NULL FOREIGN KEY REFERENCES [Trade].[Instruments]([Symbol]),
     [Quantity] DECIMAL(18, 4) NOT NULL,
     [AverageCost] DECIMAL(18, 2) NOT NULL,
+    [RealizedPnL] DECIMAL(18, 8) NOT NULL DEFAULT 0, -- Accumulated on reducing fills under the exchange's CostBasisMethod
     INDEX [IX_Positions_PortfolioId] ([PortfolioId])
 );
 GO
@@ -77,7 +121,9 @@ CREATE TABLE [Trade].[Orders] (
     [Quantity] DECIMAL(18, 4) NOT NULL,
     [LimitPrice] DECIMAL(18, 2) NULL,
     [ExecutedPrice] DECIMAL(18, 2) NULL,
+    [Commission] DECIMAL(18, 8) NOT NULL DEFAULT 0, -- Total commission charged across the order's fills
     [Timestamp] DATETIMEOFFSET DEFAULT SYSDATETIMEOFFSET(),
+    [PriorityAt] DATETIME2(7) NOT NULL DEFAULT SYSUTCDATETIME(), -- Time priority in the order book; reset when an amendment loses priority
     INDEX [IX_Orders_Exchange_Status] ([ExchangeId], [Status]) INCLUDE ([Symbol])
 );
 GO
@@ -93,6 +139,10 @@ CREATE TABLE [Trade].[MarketData] (
     [Low] DECIMAL(18, 8) NOT NULL,
     [Close] DECIMAL(18, 8) NOT NULL,
     [Volume] BIGINT DEFAULT 0,
+    [Bid] DECIMAL(18, 8) NULL, -- Market maker quote at the close of the tick
+    [Ask] DECIMAL(18, 8) NULL,
+    [BidSize] BIGINT NULL,
+    [AskSize] BIGINT NULL,
     INDEX [IX_MarketData_Exchange_Symbol_Time] ([ExchangeId], [Symbol], [Timestamp])
 );
 GO
@@ -173,6 +223,9 @@ CREATE TABLE [Trade].[ExchangeFeatureFlags] (
     [ExchangeId] UNIQUEIDENTIFIER NOT NULL FOREIGN KEY REFERENCES [Trade].[Exchanges]([ExchangeId]) ON DELETE CASCADE,
     [FeatureName] NVARCHAR(100) NOT NULL,
     [IsEnabled] BIT NOT NULL DEFAULT 0,
+    [RolloutPercentage] TINYINT NULL CHECK ([RolloutPercentage] BETWEEN 0 AND 100), -- NULL = every user in scope
+    [TargetRoles] NVARCHAR(200) NULL, -- JSON array of ExchangeRole; NULL = no role targeting
+    [TargetUserIds] NVARCHAR(MAX) NULL, -- JSON array of Entra Object IDs, always enabled
     [UpdatedAt] DATETIMEOFFSET DEFAULT SYSDATETIMEOFFSET(),
     PRIMARY KEY ([ExchangeId], [FeatureName]),
     INDEX [IX_ExchangeFeatureFlags_ExchangeId] ([ExchangeId])
@@ -186,6 +239,110 @@ CREATE SECURITY POLICY [Security].[ExchangeFeatureFlagsPolicy]
     WITH (STATE = ON);
 GO
 
+-- 11. Executions (Fill Ledger: one row per fill, written in the matching transaction)
+CREATE TABLE [Trade].[Executions] (
+    [ExecutionId] UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    [OrderId] UNIQUEIDENTIFIER NOT NULL FOREIGN KEY REFERENCES [Trade].[Orders]([OrderId]),
+    [ExchangeId] UNIQUEIDENTIFIER NOT NULL FOREIGN KEY REFERENCES [Trade].[Exchanges]([ExchangeId]), -- Denormalized for RLS efficiency
+    [PortfolioId] UNIQUEIDENTIFIER NOT NULL FOREIGN KEY REFERENCES [Trade].[Portfolios]([PortfolioId]),
+    [Symbol] NVARCHAR(10) NOT NULL,
+    [Side] NVARCHAR(10) NOT NULL,
+    [Quantity] DECIMAL(18, 8) NOT NULL,
+    [Price] DECIMAL(18, 8) NOT NULL,
+    [Commission] DECIMAL(18, 8) NOT NULL DEFAULT 0,
+    [ExecutedAt] DATETIMEOFFSET NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    INDEX [IX_Executions_Exchange_Portfolio_Time] ([ExchangeId], [PortfolioId], [ExecutedAt]) INCLUDE ([Symbol]),
+    INDEX [IX_Executions_OrderId] ([OrderId])
+);
+GO
+
+-- 8. Apply RLS Policy to Executions (RLS Policy #8)
+CREATE SECURITY POLICY [Security].[ExecutionsPolicy]
+    ADD FILTER PREDICATE [Security].[fn_securitypredicate]([ExchangeId]) ON [Trade].[Executions],
+    ADD BLOCK PREDICATE [Security].[fn_securitypredicate]([ExchangeId]) ON [Trade].[Executions]
+    WITH (STATE = ON);
+GO
+
+-- 12. Position Lots (FIFO cost basis: open lots per position, oldest first by LotId)
+CREATE TABLE [Trade].[PositionLots] (
+    [LotId] BIGINT IDENTITY(1,1) PRIMARY KEY,
+    [PortfolioId] UNIQUEIDENTIFIER NOT NULL FOREIGN KEY REFERENCES [Trade].[Portfolios]([PortfolioId]),
+    [Symbol] NVARCHAR(10) NOT NULL,
+    [Quantity] DECIMAL(18, 8) NOT NULL, -- Negative for short lots
+    [Price] DECIMAL(18, 8) NOT NULL,
+    [OpenedAt] DATETIMEOFFSET NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    INDEX [IX_PositionLots_Portfolio_Symbol] ([PortfolioId], [Symbol], [LotId])
+);
+GO
+
+-- 13. Exchange Instruments (symbols listed on each exchange; only listed symbols are traded and ticked)
+CREATE TABLE [Trade].[ExchangeInstruments] (
+    [ExchangeId] UNIQUEIDENTIFIER NOT NULL FOREIGN KEY REFERENCES [Trade].[Exchanges]([ExchangeId]) ON DELETE CASCADE,
+    [Symbol] NVARCHAR(10) NOT NULL FOREIGN KEY REFERENCES [Trade].[Instruments]([Symbol]),
+    [ListedAt] DATETIMEOFFSET NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    [ListedBy] UNIQUEIDENTIFIER NULL, -- Entra Object ID of the RiskManager; NULL when listed at exchange creation
+    PRIMARY KEY ([ExchangeId], [Symbol])
+);
+GO
+
+-- 9. Apply RLS Policy to Exchange Instruments (RLS Policy #9)
+CREATE SECURITY POLICY [Security].[ExchangeInstrumentsPolicy]
+    ADD FILTER PREDICATE [Security].[fn_securitypredicate]([ExchangeId]) ON [Trade].[ExchangeInstruments],
+    ADD BLOCK PREDICATE [Security].[fn_securitypredicate]([ExchangeId]) ON [Trade].[ExchangeInstruments]
+    WITH (STATE = ON);
+GO
+
+-- 14. Market Scenarios (RiskManager timelines applied by the market engine)
+CREATE TABLE [Trade].[MarketScenarios] (
+    [ScenarioId] UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    [ExchangeId] UNIQUEIDENTIFIER NOT NULL FOREIGN KEY REFERENCES [Trade].[Exchanges]([ExchangeId]) ON DELETE CASCADE,
+    [Name] NVARCHAR(100) NOT NULL,
+    [Timeline] NVARCHAR(MAX) NOT NULL, -- JSON array of events ordered by atSeconds
+    [Status] NVARCHAR(20) NOT NULL DEFAULT 'READY' CHECK ([Status] IN ('READY', 'RUNNING', 'PAUSED', 'COMPLETED')),
+    [ElapsedMs] BIGINT NOT NULL DEFAULT 0, -- Running time accumulated before the current run (paused time excluded)
+    [ResumedAt] DATETIMEOFFSET NULL, -- When the current run started; NULL unless RUNNING
+    [NextEventIndex] INT NOT NULL DEFAULT 0, -- Events before this index have been applied
+    [BaselineVolatilityIndex] DECIMAL(5, 2) NULL, -- VolatilityIndex before the first start, restored by reset
+    [CreatedBy] UNIQUEIDENTIFIER NOT NULL, -- Entra Object ID of the RiskManager
+    [CreatedAt] DATETIMEOFFSET NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    INDEX [IX_MarketScenarios_ExchangeId] ([ExchangeId])
+);
+GO
+
+-- Only one scenario per exchange can be in progress (RUNNING or PAUSED)
+CREATE UNIQUE INDEX [UX_MarketScenarios_InProgress]
+    ON [Trade].[MarketScenarios] ([ExchangeId])
+    WHERE [Status] IN ('RUNNING', 'PAUSED');
+GO
+
+-- 10. Apply RLS Policy to Market Scenarios (RLS Policy #10)
+CREATE SECURITY POLICY [Security].[MarketScenariosPolicy]
+    ADD FILTER PREDICATE [Security].[fn_securitypredicate]([ExchangeId]) ON [Trade].[MarketScenarios],
+    ADD BLOCK PREDICATE [Security].[fn_securitypredicate]([ExchangeId]) ON [Trade].[MarketScenarios]
+    WITH (STATE = ON);
+GO
+
+-- 15. Trading Halts (halted symbols and exchanges are not ticked, matched or open to new orders)
+CREATE TABLE [Trade].[TradingHalts] (
+    [HaltId] BIGINT IDENTITY(1,1) PRIMARY KEY,
+    [ExchangeId] UNIQUEIDENTIFIER NOT NULL FOREIGN KEY REFERENCES [Trade].[Exchanges]([ExchangeId]) ON DELETE CASCADE,
+    [Symbol] NVARCHAR(10) NULL, -- NULL halts the whole exchange
+    [Reason] NVARCHAR(20) NOT NULL CHECK ([Reason] IN ('SCENARIO', 'LULD', 'CIRCUIT_BREAKER')),
+    [ScenarioId] UNIQUEIDENTIFIER NULL, -- Scenario that placed the halt
+    [HaltedAt] DATETIMEOFFSET NOT NULL DEFAULT SYSDATETIMEOFFSET(),
+    [ResumeAt] DATETIMEOFFSET NULL, -- Scheduled end; NULL until resumed
+    [ResumedAt] DATETIMEOFFSET NULL, -- Set when the halt is lifted early, or to ResumeAt once a timed halt has been released
+    INDEX [IX_TradingHalts_Exchange_Symbol] ([ExchangeId], [Symbol]) INCLUDE ([ResumeAt], [ResumedAt])
+);
+GO
+
+-- 11. Apply RLS Policy to Trading Halts (RLS Policy #11)
+CREATE SECURITY POLICY [Security].[TradingHaltsPolicy]
+    ADD FILTER PREDICATE [Security].[fn_securitypredicate]([ExchangeId]) ON [Trade].[TradingHalts],
+    ADD BLOCK PREDICATE [Security].[fn_securitypredicate]([ExchangeId]) ON [Trade].[TradingHalts]
+    WITH (STATE = ON);
+GO
+
 -- ADR-010: Data Retention & Lifecycle Management Stored Procedures
 
 -- Aggregate raw ticks into 1-minute OHLC candles
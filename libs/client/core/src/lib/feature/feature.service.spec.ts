@@ -1,13 +1,16 @@
 import { TestBed } from '@angular/core/testing';
 import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
 import { FeatureService } from './feature.service';
+import { Subject } from 'rxjs';
 import { LoggerService } from '../logger/logger.service';
-import { FeatureFlagResponse } from '@assetsim/shared/finance-models';
+import { SignalRService } from '../signalr/signalr.service';
+import { ExchangeConfigUpdatedEvent, FeatureFlagResponse } from '@assetsim/shared/finance-models';
 
 describe('FeatureService', () => {
   let service: FeatureService;
   let httpMock: HttpTestingController;
   let mockLogger: jest.Mocked<LoggerService>;
+  let exchangeConfigUpdated: Subject<ExchangeConfigUpdatedEvent>;
 
   const mockFeatureResponse: FeatureFlagResponse = {
     flags: {
@@ -32,11 +35,14 @@ describe('FeatureService', () => {
       logException: jest.fn()
     } as unknown as jest.Mocked<LoggerService>;
 
+    exchangeConfigUpdated = new Subject<ExchangeConfigUpdatedEvent>();
+
     TestBed.configureTestingModule({
       imports: [HttpClientTestingModule],
       providers: [
         FeatureService,
-        { provide: LoggerService, useValue: mockLogger }
+        { provide: LoggerService, useValue: mockLogger },
+        { provide: SignalRService, useValue: { exchangeConfigUpdated$: exchangeConfigUpdated.asObservable() } }
       ]
     });
 
@@ -272,6 +278,51 @@ describe('FeatureService', () => {
     });
   });
 
+  describe('Configuration Change Notifications', () => {
+    const mockExchangeId = '12345678-1234-1234-1234-123456789012';
+    const configUpdate = (exchangeId: string): ExchangeConfigUpdatedEvent => ({
+      exchangeId,
+      updatedBy: 'risk-manager',
+      timestamp: '2026-01-24T00:00:00Z'
+    });
+
+    beforeEach(async () => {
+      const loadPromise = service.loadFeatures(mockExchangeId);
+      httpMock.expectOne(`/api/v1/exchange/rules?exchangeId=${mockExchangeId}`).flush(mockFeatureResponse);
+      await loadPromise;
+    });
+
+    it('should reload rules when the loaded exchange configuration changes', async () => {
+      exchangeConfigUpdated.next(configUpdate(mockExchangeId));
+
+      const req = httpMock.expectOne(`/api/v1/exchange/rules?exchangeId=${mockExchangeId}`);
+      req.flush({
+        ...mockFeatureResponse,
+        configuration: { ...mockFeatureResponse.configuration, volatilityIndex: 2.0 }
+      });
+      await Promise.resolve();
+
+      expect(service.config().volatilityIndex).toBe(2.0);
+    });
+
+    it('should ignore configuration changes of other exchanges', () => {
+      exchangeConfigUpdated.next(configUpdate('87654321-4321-4321-4321-210987654321'));
+
+      httpMock.expectNone(() => true);
+    });
+
+    it('should keep the current rules when the reload fails', async () => {
+      exchangeConfigUpdated.next(configUpdate(mockExchangeId));
+
+      httpMock.expectOne(`/api/v1/exchange/rules?exchangeId=${mockExchangeId}`)
+        .flush('Server error', { status: 500, statusText: 'Internal Server Error' });
+      await Promise.resolve();
+
+      expect(service.config()).toEqual(mockFeatureResponse.configuration);
+      expect(mockLogger.logException).toHaveBeenCalled();
+    });
+  });
+
   describe('Edge Cases', () => {
     const mockExchangeId = '12345678-1234-1234-1234-123456789012';
 
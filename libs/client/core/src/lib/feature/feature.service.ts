@@ -1,8 +1,10 @@
-import { Injectable, inject, signal, computed } from '@angular/core';
-import { firstValueFrom, tap } from 'rxjs';
+import { Injectable, DestroyRef, inject, signal, computed } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { filter, firstValueFrom, tap } from 'rxjs';
 import { FeatureFlagResponse } from '@assetsim/shared/finance-models';
 import { FeatureFlagApiService } from '@assetsim/shared/api-client';
 import { LoggerService } from '../logger/logger.service';
+import { SignalRService } from '../signalr/signalr.service';
 
 /**
  * Feature Service
@@ -16,6 +18,7 @@ import { LoggerService } from '../logger/logger.service';
  * - Feature flag checking via isEnabled() method
  * - Exchange configuration access via config computed signal
  * - Event logging for configuration changes
+ * - Automatic reload when the loaded exchange's configuration changes (SignalR push)
  * 
  * Usage:
  * ```typescript
@@ -38,6 +41,13 @@ import { LoggerService } from '../logger/logger.service';
 export class FeatureService {
   private apiService = inject(FeatureFlagApiService);
   private logger = inject(LoggerService);
+  private signalR = inject(SignalRService);
+  private destroyRef = inject(DestroyRef);
+
+  /**
+   * Exchange whose rules were last loaded
+   */
+  #exchangeId: string | null = null;
 
   /**
    * Internal signal state for feature flags and configuration
@@ -66,6 +76,19 @@ export class FeatureService {
    */
   public readonly config = computed(() => this.#state().configuration);
 
+  constructor() {
+    // Reload when a Risk Manager changes the loaded exchange's configuration
+    this.signalR.exchangeConfigUpdated$
+      .pipe(
+        filter(event => event.exchangeId === this.#exchangeId),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(event => {
+        // loadFeatures logs failures; the previous rules stay in place until the next load
+        this.loadFeatures(event.exchangeId).catch(() => undefined);
+      });
+  }
+
   /**
    * Load features from API endpoint
    * Fetches feature flags and exchange configuration via FeatureFlagApiService
@@ -76,6 +99,8 @@ export class FeatureService {
    * @throws Error if API call fails
    */
   public async loadFeatures(exchangeId: string): Promise<FeatureFlagResponse> {
+    this.#exchangeId = exchangeId;
+
     try {
       const data = await firstValueFrom(
         this.apiService.getExchangeRules(exchangeId).pipe(
@@ -101,6 +126,9 @@ export class FeatureService {
   /**
    * Check if a feature flag is enabled
    * 
+   * Flags arrive already resolved for the signed-in user: role/user targeting and
+   * percentage rollouts are evaluated server-side by getExchangeRules.
+   * 
    * @param key - Feature flag key to check
    * @returns true if feature is enabled, false otherwise
    * 
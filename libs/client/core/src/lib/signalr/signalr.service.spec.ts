@@ -1,7 +1,13 @@
 import { TestBed } from '@angular/core/testing';
 import { SignalRService, SIGNALR_CONFIG, ConnectionState } from './signalr.service';
 import { LoggerService } from '../logger/logger.service';
-import { PriceUpdateEvent } from '@assetsim/shared/finance-models';
+import {
+  ExchangeConfigUpdatedEvent,
+  MarketDepthUpdateEvent,
+  MarketSessionEvent,
+  PriceUpdateEvent,
+  TradingHaltEvent,
+} from '@assetsim/shared/finance-models';
 import * as signalR from '@microsoft/signalr';
 
 // Mock SignalR
@@ -237,6 +243,133 @@ describe('SignalRService', () => {
       );
     });
 
+    it('should emit exchange configuration updates in production mode', async () => {
+      let configHandler: ((data: ExchangeConfigUpdatedEvent) => void) | undefined;
+
+      mockConnection.on.mockImplementation((event, handler) => {
+        if (event === 'ExchangeConfigUpdated') {
+          configHandler = handler;
+        }
+      });
+
+      const received: ExchangeConfigUpdatedEvent[] = [];
+      service.exchangeConfigUpdated$.subscribe(event => received.push(event));
+
+      await service.connect('prod-exchange');
+
+      const event: ExchangeConfigUpdatedEvent = {
+        exchangeId: 'prod-exchange',
+        updatedBy: 'risk-manager',
+        timestamp: '2026-01-24T00:00:00Z'
+      };
+
+      expect(configHandler).toBeDefined();
+      configHandler!(event);
+
+      expect(received).toEqual([event]);
+      expect(mockLoggerService.logEvent).toHaveBeenCalledWith(
+        'ExchangeConfigUpdated',
+        { exchangeId: 'prod-exchange', updatedBy: 'risk-manager' }
+      );
+    });
+
+    it('should emit trading halts in production mode', async () => {
+      let haltHandler: ((data: TradingHaltEvent) => void) | undefined;
+
+      mockConnection.on.mockImplementation((event, handler) => {
+        if (event === 'TradingHalt') {
+          haltHandler = handler;
+        }
+      });
+
+      const received: TradingHaltEvent[] = [];
+      service.tradingHalt$.subscribe(event => received.push(event));
+
+      await service.connect('prod-exchange');
+
+      const event: TradingHaltEvent = {
+        exchangeId: 'prod-exchange',
+        symbol: null,
+        status: 'HALTED',
+        reason: 'CIRCUIT_BREAKER',
+        haltedAt: '2026-01-24T14:30:00Z',
+        resumeAt: '2026-01-24T14:45:00Z',
+        timestamp: '2026-01-24T14:30:00Z'
+      };
+
+      expect(haltHandler).toBeDefined();
+      haltHandler!(event);
+
+      expect(received).toEqual([event]);
+      expect(mockLoggerService.logEvent).toHaveBeenCalledWith(
+        'TradingHalt',
+        { exchangeId: 'prod-exchange', symbol: 'ALL', status: 'HALTED', reason: 'CIRCUIT_BREAKER' }
+      );
+    });
+
+    it('should emit market session changes in production mode', async () => {
+      let sessionHandler: ((data: MarketSessionEvent) => void) | undefined;
+
+      mockConnection.on.mockImplementation((event, handler) => {
+        if (event === 'MarketSession') {
+          sessionHandler = handler;
+        }
+      });
+
+      const received: MarketSessionEvent[] = [];
+      service.marketSession$.subscribe(event => received.push(event));
+
+      await service.connect('prod-exchange');
+
+      const event: MarketSessionEvent = {
+        exchangeId: 'prod-exchange',
+        phase: 'CONTINUOUS',
+        previousPhase: 'PRE_OPEN',
+        auction: 'OPENING',
+        timestamp: '2026-01-26T14:30:00Z'
+      };
+
+      expect(sessionHandler).toBeDefined();
+      sessionHandler!(event);
+
+      expect(received).toEqual([event]);
+      expect(mockLoggerService.logEvent).toHaveBeenCalledWith(
+        'MarketSession',
+        { exchangeId: 'prod-exchange', phase: 'CONTINUOUS', auction: 'OPENING' }
+      );
+    });
+
+    it('should emit depth updates in production mode', async () => {
+      let depthHandler: ((data: MarketDepthUpdateEvent) => void) | undefined;
+
+      mockConnection.on.mockImplementation((event, handler) => {
+        if (event === 'DepthUpdate') {
+          depthHandler = handler;
+        }
+      });
+
+      const received: MarketDepthUpdateEvent[] = [];
+      service.depthUpdate$.subscribe(event => received.push(event));
+
+      await service.connect('prod-exchange');
+
+      const event: MarketDepthUpdateEvent = {
+        exchangeId: 'prod-exchange',
+        symbol: 'AAPL',
+        changes: [
+          { side: 'BID', price: 149.95, quantity: 300, orderCount: 2 },
+          { side: 'ASK', price: 150.05, quantity: 0, orderCount: 0 }
+        ],
+        sequence: 42,
+        timestamp: '2026-01-26T14:30:01Z'
+      };
+
+      expect(depthHandler).toBeDefined();
+      depthHandler!(event);
+
+      expect(received).toEqual([event]);
+    });
+
     it('should receive and process price updates in production mode', async () => {
       let priceUpdateHandler: ((data: PriceUpdateEvent) => void) | undefined;
       
@@ -452,6 +585,39 @@ describe('SignalRService', () => {
       const builderInstance = (signalR.HubConnectionBuilder as jest.Mock).mock.results[0].value;
       expect(builderInstance.withUrl).toHaveBeenCalledWith('/api');
     });
+
+    it('should replay the same emulated prices for the same seed', async () => {
+      jest.useFakeTimers();
+      TestBed.configureTestingModule({
+        providers: [
+          { provide: LoggerService, useValue: mockLoggerService },
+          { provide: SIGNALR_CONFIG, useValue: { emulationSeed: 42 } }
+        ]
+      });
+      service = TestBed.inject(SignalRService);
+      const randomSpy = jest.spyOn(Math, 'random');
+
+      const runPath = async () => {
+        await service.connect('test-exchange');
+        const path = [service.getPrice('AAPL')!.price];
+        for (let i = 0; i < 3; i++) {
+          jest.advanceTimersByTime(1000);
+          path.push(service.getPrice('AAPL')!.price);
+        }
+        await service.disconnect();
+        return path;
+      };
+
+      const firstPath = await runPath();
+      const secondPath = await runPath();
+
+      expect(secondPath).toEqual(firstPath);
+      expect(new Set(firstPath).size).toBe(4);
+      expect(randomSpy).not.toHaveBeenCalled();
+
+      randomSpy.mockRestore();
+      jest.useRealTimers();
+    });
   });
 
   describe('Helper Methods', () => {
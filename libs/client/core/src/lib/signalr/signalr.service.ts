@@ -1,7 +1,15 @@
 import { Injectable, signal, DestroyRef, inject, InjectionToken, Optional, Inject } from '@angular/core';
 import * as signalR from '@microsoft/signalr';
 import { MessagePackHubProtocol } from '@microsoft/signalr-protocol-msgpack';
-import { PriceUpdateEvent } from '@assetsim/shared/finance-models';
+import {
+  ExchangeConfigUpdatedEvent,
+  MarketDepthUpdateEvent,
+  MarketSessionEvent,
+  PriceUpdateEvent,
+  RandomSource,
+  TradingHaltEvent,
+  createSeededRandom,
+} from '@assetsim/shared/finance-models';
 import { LoggerService } from '../logger/logger.service';
 import { Subject, throttleTime } from 'rxjs';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
@@ -24,6 +32,13 @@ export interface SignalRConfig {
    * Default: false
    */
   enableProduction?: boolean;
+
+  /**
+   * Seed for emulation mode price paths
+   * When set, every connect replays the same prices (e.g. the exchange's simulationSeed)
+   * Default: undefined (Math.random)
+   */
+  emulationSeed?: number;
 }
 
 /**
@@ -52,6 +67,7 @@ export enum ConnectionState {
  * - MessagePack protocol for efficiency (matches backend)
  * - Automatic reconnection with exponential backoff
  * - Group-based subscription (ticker:{exchangeId})
+ * - Exchange configuration change notifications (ADR-021)
  * - Angular Signals for reactive state management
  * - Local development emulation (no cloud dependency)
  * - Proper cleanup on component destruction
@@ -99,6 +115,22 @@ export class SignalRService {
   // RxJS subject for throttling high-frequency price updates (ADR-006)
   private priceUpdateSubject = new Subject<PriceUpdateEvent>();
 
+  // Exchange configuration changes pushed by PUT /api/v1/exchange/config (not throttled)
+  private exchangeConfigUpdatedSubject = new Subject<ExchangeConfigUpdatedEvent>();
+  public readonly exchangeConfigUpdated$ = this.exchangeConfigUpdatedSubject.asObservable();
+
+  // Symbol and exchange-wide halts and resumes (LULD bands, circuit breakers, scenarios)
+  private tradingHaltSubject = new Subject<TradingHaltEvent>();
+  public readonly tradingHalt$ = this.tradingHaltSubject.asObservable();
+
+  // Trading session phase changes (opens, closes and call auctions)
+  private marketSessionSubject = new Subject<MarketSessionEvent>();
+  public readonly marketSession$ = this.marketSessionSubject.asObservable();
+
+  // Order book level changes after each market engine tick (apply on top of a depth snapshot)
+  private depthUpdateSubject = new Subject<MarketDepthUpdateEvent>();
+  public readonly depthUpdate$ = this.depthUpdateSubject.asObservable();
+
   // Emulation interval for local development
   private emulationInterval: ReturnType<typeof setInterval> | null = null;
   private emulationSymbols = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'TSLA'];
@@ -186,6 +218,10 @@ export class SignalRService {
       // Setup event handlers
       this.setupConnectionHandlers();
       this.setupPriceUpdateHandler();
+      this.setupExchangeConfigUpdatedHandler();
+      this.setupTradingHaltHandler();
+      this.setupMarketSessionHandler();
+      this.setupDepthUpdateHandler();
 
       // Start connection
       await this.connection.start();
@@ -272,23 +308,96 @@ export class SignalRService {
     });
   }
 
+  /**
+   * Setup exchange configuration change handler
+   * 
+   * Raised after a Risk Manager updates the exchange configuration so that
+   * FeatureService can reload the exchange rules.
+   */
+  private setupExchangeConfigUpdatedHandler(): void {
+    if (!this.connection) return;
+
+    this.connection.on('ExchangeConfigUpdated', (data: ExchangeConfigUpdatedEvent) => {
+      this.logger.logEvent('ExchangeConfigUpdated', {
+        exchangeId: data.exchangeId,
+        updatedBy: data.updatedBy
+      });
+      this.exchangeConfigUpdatedSubject.next(data);
+    });
+  }
+
+  /**
+   * Setup trading halt handler
+   * 
+   * Raised when a symbol or the whole exchange halts or resumes; orders for a
+   * halted symbol are rejected until it resumes.
+   */
+  private setupTradingHaltHandler(): void {
+    if (!this.connection) return;
+
+    this.connection.on('TradingHalt', (data: TradingHaltEvent) => {
+      this.logger.logEvent('TradingHalt', {
+        exchangeId: data.exchangeId,
+        symbol: data.symbol ?? 'ALL',
+        status: data.status,
+        reason: data.reason
+      });
+      this.tradingHaltSubject.next(data);
+    });
+  }
+
+  /**
+   * Setup market session handler
+   * 
+   * Raised when the exchange's session moves to another phase; outside CONTINUOUS
+   * only the auctions' MARKET and LIMIT orders are accepted (none while CLOSED).
+   */
+  private setupMarketSessionHandler(): void {
+    if (!this.connection) return;
+
+    this.connection.on('MarketSession', (data: MarketSessionEvent) => {
+      this.logger.logEvent('MarketSession', {
+        exchangeId: data.exchangeId,
+        phase: data.phase,
+        auction: data.auction ?? 'NONE'
+      });
+      this.marketSessionSubject.next(data);
+    });
+  }
+
+  /**
+   * Setup depth update handler
+   * 
+   * Raised when a market engine tick changes a symbol's order book. Changes carry absolute
+   * level sizes, so applying one twice is harmless; not logged as it fires every tick.
+   */
+  private setupDepthUpdateHandler(): void {
+    if (!this.connection) return;
+
+    this.connection.on('DepthUpdate', (data: MarketDepthUpdateEvent) => {
+      this.depthUpdateSubject.next(data);
+    });
+  }
+
   /**
    * Setup emulation mode for local development
    * Generates mock price updates every 1 second
    */
   private connectEmulation(exchangeId: string): void {
-    this.logger.logEvent('SignalREmulationMode', { exchangeId });
+    this.logger.logEvent('SignalREmulationMode', { exchangeId, seed: this.config.emulationSeed });
     
-    // Initialize with starting prices
+    // Initialize with starting prices (step 0 of a seeded path)
+    let step = 0;
     const prices = new Map<string, PriceUpdateEvent>();
     this.emulationSymbols.forEach(symbol => {
+      const random = this.emulationRandom(step, symbol);
       prices.set(symbol, {
         exchangeId,
         symbol,
-        price: 100 + Math.random() * 100, // Random start price 100-200
+        price: 100 + random() * 100, // Random start price 100-200
         change: 0,
         changePercent: 0,
-        volume: Math.floor(Math.random() * 1000000),
+        volume: Math.floor(random() * 1000000),
         timestamp: new Date().toISOString(),
       });
     });
@@ -300,14 +409,16 @@ export class SignalRService {
     // Generate updates every 1 second
     this.emulationInterval = setInterval(() => {
       const currentPrices = new Map(this.#latestPrices());
+      step++;
       
       this.emulationSymbols.forEach(symbol => {
         const currentPrice = currentPrices.get(symbol);
         if (!currentPrice) return;
+        const random = this.emulationRandom(step, symbol);
 
         // Random price movement: -2% to +2%
         // ADR-006: Use Decimal.js for all financial calculations
-        const changePercent = (Math.random() - 0.5) * 4; // -2 to +2
+        const changePercent = (random() - 0.5) * 4; // -2 to +2
         const priceDecimal = new Decimal(currentPrice.price);
         const changeDecimal = priceDecimal.times(changePercent).dividedBy(100);
         const newPriceDecimal = priceDecimal.plus(changeDecimal);
@@ -318,7 +429,7 @@ export class SignalRService {
           price: newPriceDecimal.toNumber(),
           change: changeDecimal.toNumber(),
           changePercent,
-          volume: currentPrice.volume + Math.floor(Math.random() * 10000),
+          volume: currentPrice.volume + Math.floor(random() * 10000),
           timestamp: new Date().toISOString(),
         };
 
@@ -329,6 +440,16 @@ export class SignalRService {
     }, 1000);
   }
 
+  /**
+   * Random source for one emulated symbol at a step
+   * Seeded streams are keyed by step and symbol, matching the backend generators
+   */
+  private emulationRandom(step: number, symbol: string): RandomSource {
+    return this.config.emulationSeed === undefined
+      ? Math.random
+      : createSeededRandom(this.config.emulationSeed, step, symbol);
+  }
+
   /**
    * Disconnect from SignalR and cleanup resources
    */
@@ -3,14 +3,57 @@ import { DashboardComponent } from './dashboard.component';
 import { MarketDepthComponent } from '../market-depth/market-depth.component';
 import { RiskMatrixComponent } from '../risk-matrix/risk-matrix.component';
 import { NewsTerminalComponent } from '../news-terminal/news-terminal.component';
-import { FeatureService } from '@assetsim/client/core';
+import { FeatureService, SignalRService } from '@assetsim/client/core';
+import { MarketDataApiService, MarketDepthSnapshot } from '@assetsim/shared/api-client';
+import { MarketDepthUpdateEvent, PriceUpdateEvent } from '@assetsim/shared/finance-models';
 import { signal, computed } from '@angular/core';
+import { provideAnimations } from '@angular/platform-browser/animations';
+import { Subject, of } from 'rxjs';
+
+const EXCHANGE_ID = '10000000-0000-0000-0000-000000000000';
+
+const DEPTH_SNAPSHOT: MarketDepthSnapshot = {
+  exchangeId: EXCHANGE_ID,
+  symbol: 'AAPL',
+  bids: [
+    { price: 149.95, quantity: 300, orderCount: 2, ownQuantity: 100 },
+    { price: 149.9, quantity: 150, orderCount: 1, ownQuantity: 0 }
+  ],
+  asks: [
+    { price: 150.05, quantity: 200, orderCount: 1, ownQuantity: 0 },
+    { price: 150.1, quantity: 600, orderCount: 3, ownQuantity: 0 }
+  ],
+  sequence: 41,
+  timestamp: '2026-01-26T14:30:00Z'
+};
+
+/**
+ * SignalRService and MarketDataApiService mocks for the market depth widget
+ */
+function createMarketDepthMocks() {
+  const depthUpdates = new Subject<MarketDepthUpdateEvent>();
+  const exchangeId = signal<string | null>(EXCHANGE_ID);
+
+  const signalR = {
+    currentExchangeId: exchangeId.asReadonly(),
+    latestPrices: signal(new Map<string, PriceUpdateEvent>([['MSFT', {} as PriceUpdateEvent]])).asReadonly(),
+    depthUpdate$: depthUpdates.asObservable()
+  } as unknown as SignalRService;
+
+  const marketDataApi = {
+    getMarketDepth: jest.fn().mockReturnValue(of(DEPTH_SNAPSHOT))
+  } as unknown as jest.Mocked<MarketDataApiService>;
+
+  return { depthUpdates, exchangeId, signalR, marketDataApi };
+}
 
 describe('DashboardComponent', () => {
   let component: DashboardComponent;
   let fixture: ComponentFixture<DashboardComponent>;
   let mockFeatureService: jest.Mocked<FeatureService>;
 
+  const depthMocks = createMarketDepthMocks();
+
   beforeEach(async () => {
     // Create mock FeatureService
     const mockState = signal({
@@ -34,7 +77,10 @@ describe('DashboardComponent', () => {
     await TestBed.configureTestingModule({
       imports: [DashboardComponent],
       providers: [
-        { provide: FeatureService, useValue: mockFeatureService }
+        provideAnimations(),
+        { provide: FeatureService, useValue: mockFeatureService },
+        { provide: SignalRService, useValue: depthMocks.signalR },
+        { provide: MarketDataApiService, useValue: depthMocks.marketDataApi }
       ]
     }).compileComponents();
 
@@ -72,15 +118,24 @@ describe('DashboardComponent', () => {
 describe('MarketDepthComponent', () => {
   let component: MarketDepthComponent;
   let fixture: ComponentFixture<MarketDepthComponent>;
+  let mocks: ReturnType<typeof createMarketDepthMocks>;
 
   beforeEach(async () => {
+    mocks = createMarketDepthMocks();
+
     await TestBed.configureTestingModule({
-      imports: [MarketDepthComponent]
+      imports: [MarketDepthComponent],
+      providers: [
+        provideAnimations(),
+        { provide: SignalRService, useValue: mocks.signalR },
+        { provide: MarketDataApiService, useValue: mocks.marketDataApi }
+      ]
     }).compileComponents();
 
     fixture = TestBed.createComponent(MarketDepthComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
+    await fixture.whenStable();
   });
 
   it('should create', () => {
@@ -91,6 +146,91 @@ describe('MarketDepthComponent', () => {
     const compiled = fixture.nativeElement as HTMLElement;
     expect(compiled.textContent).toContain('L2 Market Depth');
   });
+
+  it('should load a snapshot for the connected exchange', () => {
+    expect(mocks.marketDataApi.getMarketDepth).toHaveBeenCalledWith({
+      exchangeId: EXCHANGE_ID,
+      symbol: 'AAPL',
+      levels: 10
+    });
+  });
+
+  it('should ladder asks from the highest price down above the bids', () => {
+    expect(component.ladder().map(row => [row.side, row.price])).toEqual([
+      ['ASK', 150.1],
+      ['ASK', 150.05],
+      ['BID', 149.95],
+      ['BID', 149.9]
+    ]);
+  });
+
+  it('should highlight levels holding the user\'s own orders', () => {
+    const [, , ownBid, otherBid] = component.ladder();
+
+    expect(component.rowClass({ dataItem: ownBid, index: 2 })).toMatchObject({ 'own-level': true, 'best-bid': true });
+    expect(component.rowClass({ dataItem: otherBid, index: 3 })).toMatchObject({ 'own-level': false, 'best-bid': false });
+  });
+
+  it('should apply depth updates for the selected symbol', () => {
+    mocks.depthUpdates.next({
+      exchangeId: EXCHANGE_ID,
+      symbol: 'AAPL',
+      changes: [
+        { side: 'BID', price: 149.95, quantity: 50, orderCount: 1 },
+        { side: 'BID', price: 150, quantity: 100, orderCount: 1 },
+        { side: 'ASK', price: 150.05, quantity: 0, orderCount: 0 }
+      ],
+      sequence: 42,
+      timestamp: '2026-01-26T14:30:01Z'
+    });
+
+    expect(component.bids()).toEqual([
+      { price: 150, quantity: 100, orderCount: 1, ownQuantity: 0 },
+      { price: 149.95, quantity: 50, orderCount: 1, ownQuantity: 50 },
+      { price: 149.9, quantity: 150, orderCount: 1, ownQuantity: 0 }
+    ]);
+    expect(component.asks()).toEqual([{ price: 150.1, quantity: 600, orderCount: 3, ownQuantity: 0 }]);
+  });
+
+  it('should ignore depth updates for other symbols and those the snapshot already reflects', () => {
+    const change = { side: 'BID' as const, price: 149.95, quantity: 1, orderCount: 1 };
+
+    mocks.depthUpdates.next({ exchangeId: EXCHANGE_ID, symbol: 'MSFT', changes: [change], sequence: 42, timestamp: '2026-01-26T14:30:01Z' });
+    mocks.depthUpdates.next({ exchangeId: EXCHANGE_ID, symbol: 'AAPL', changes: [change], sequence: 41, timestamp: '2026-01-26T14:30:01Z' });
+
+    expect(component.bids()).toEqual(DEPTH_SNAPSHOT.bids);
+  });
+
+  it('should apply an update stamped before the snapshot when its sequence is newer', () => {
+    const change = { side: 'BID' as const, price: 149.95, quantity: 1, orderCount: 1 };
+
+    // The engine stamps an update when its tick starts, which can be before the snapshot was served
+    mocks.depthUpdates.next({ exchangeId: EXCHANGE_ID, symbol: 'AAPL', changes: [change], sequence: 42, timestamp: '2026-01-26T14:29:59Z' });
+
+    expect(component.bids()[0]).toEqual({ price: 149.95, quantity: 1, orderCount: 1, ownQuantity: 1 });
+  });
+
+  it('should offer symbols with live prices and reload on a symbol change', async () => {
+    expect(component.symbols()).toEqual(['AAPL', 'MSFT']);
+
+    component.selectedSymbol.set('MSFT');
+    fixture.detectChanges();
+    await fixture.whenStable();
+
+    expect(mocks.marketDataApi.getMarketDepth).toHaveBeenLastCalledWith({
+      exchangeId: EXCHANGE_ID,
+      symbol: 'MSFT',
+      levels: 10
+    });
+  });
+
+  it('should wait for an exchange connection', async () => {
+    mocks.exchangeId.set(null);
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.textContent).toContain('Connect to an exchange to view the order book');
+  });
 });
 
 describe('RiskMatrixComponent', () => {
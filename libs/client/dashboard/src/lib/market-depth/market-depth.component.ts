@@ -1,18 +1,103 @@
 /**
  * MarketDepthComponent Widget
  * Displays Level 2 market depth (order book)
+ *
+ * Features:
+ * - Kendo Grid price ladder: asks above bids, best prices meeting at the spread
+ * - Aggregated size and order count per price level, with a relative size bar
+ * - Highlights levels holding the user's own orders
+ * - Snapshot from GET /api/v1/marketdata/depth, kept current by SignalRService.depthUpdate$
  */
-import { Component } from '@angular/core';
+import { Component, DestroyRef, computed, effect, inject, input, linkedSignal, signal, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { GridModule, RowClassArgs } from '@progress/kendo-angular-grid';
+import { ButtonsModule } from '@progress/kendo-angular-buttons';
+import { DropDownsModule } from '@progress/kendo-angular-dropdowns';
+import { SignalRService } from '@assetsim/client/core';
+import { MarketDataApiService, MarketDepthLevel } from '@assetsim/shared/api-client';
+import { MarketDepthLevelChange, MarketDepthUpdateEvent } from '@assetsim/shared/finance-models';
+import { firstValueFrom } from 'rxjs';
+
+/**
+ * A price level on the ladder
+ */
+export interface MarketDepthRow extends MarketDepthLevel {
+  side: 'BID' | 'ASK';
+}
 
 @Component({
   selector: 'app-market-depth',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule, GridModule, ButtonsModule, DropDownsModule],
   template: `
     <div class="widget">
-      <h3 class="widget-title">L2 Market Depth</h3>
-      <p class="widget-content">Real-time order book visualization</p>
+      <div class="widget-header">
+        <h3 class="widget-title">L2 Market Depth</h3>
+        <div class="widget-controls">
+          <kendo-dropdownlist
+            [data]="symbols()"
+            [value]="selectedSymbol()"
+            (valueChange)="selectedSymbol.set($event)"
+            [style.width.px]="110">
+          </kendo-dropdownlist>
+          <button
+            kendoButton
+            [icon]="'refresh'"
+            [disabled]="!exchangeId()"
+            (click)="refreshDepth()">
+          </button>
+        </div>
+      </div>
+
+      @if (!exchangeId()) {
+        <p class="widget-content">Connect to an exchange to view the order book</p>
+      } @else if (errorMessage()) {
+        <p class="widget-content error-state">{{ errorMessage() }}</p>
+      } @else {
+        <kendo-grid
+          [data]="ladder()"
+          [loading]="isLoading()"
+          [rowClass]="rowClass"
+          [height]="360">
+
+          <kendo-grid-column field="orderCount" title="Orders" [width]="70">
+            <ng-template kendoGridCellTemplate let-dataItem>
+              {{ dataItem.orderCount | number }}
+            </ng-template>
+          </kendo-grid-column>
+
+          <kendo-grid-column field="quantity" title="Size">
+            <ng-template kendoGridCellTemplate let-dataItem>
+              <div class="size-cell">
+                <span class="size-bar" [style.width.%]="sizeShare(dataItem)"></span>
+                <span class="size-value">{{ dataItem.quantity | number }}</span>
+              </div>
+            </ng-template>
+          </kendo-grid-column>
+
+          <kendo-grid-column field="price" title="Price" [width]="100">
+            <ng-template kendoGridCellTemplate let-dataItem>
+              <span class="price" [class.bid]="dataItem.side === 'BID'" [class.ask]="dataItem.side === 'ASK'">
+                {{ dataItem.price | number:'1.2-4' }}
+              </span>
+            </ng-template>
+          </kendo-grid-column>
+
+          <kendo-grid-column field="ownQuantity" title="Mine" [width]="80">
+            <ng-template kendoGridCellTemplate let-dataItem>
+              @if (dataItem.ownQuantity > 0) {
+                {{ dataItem.ownQuantity | number }}
+              }
+            </ng-template>
+          </kendo-grid-column>
+
+          <ng-template kendoGridNoRecordsTemplate>
+            No resting orders for {{ selectedSymbol() }}
+          </ng-template>
+        </kendo-grid>
+      }
     </div>
   `,
   styles: [`
@@ -22,15 +107,240 @@ import { CommonModule } from '@angular/common';
       border-radius: 0.25rem;
       box-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.1);
     }
+    .widget-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 0.5rem;
+    }
     .widget-title {
       font-size: 1.125rem;
       font-weight: 600;
-      margin-bottom: 0.5rem;
+      margin: 0;
+    }
+    .widget-controls {
+      display: flex;
+      gap: 0.5rem;
+      align-items: center;
     }
     .widget-content {
       font-size: 0.875rem;
       color: #d1d5db;
     }
+    .error-state {
+      color: #f87171;
+    }
+    .size-cell {
+      position: relative;
+    }
+    .size-bar {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      left: 0;
+      opacity: 0.35;
+    }
+    .size-value {
+      position: relative;
+    }
+    .price {
+      font-family: monospace;
+      font-weight: 600;
+    }
+    .price.bid {
+      color: #34d399;
+    }
+    .price.ask {
+      color: #f87171;
+    }
+
+    /* Kendo Grid styling overrides */
+    :host .k-grid {
+      background-color: #1e293b;
+      color: #cbd5e1;
+      font-size: 0.875rem;
+    }
+
+    :host .k-grid-header .k-header {
+      background-color: #0f172a;
+      color: #cbd5e1;
+      border-color: #475569;
+    }
+
+    :host .k-grid td {
+      border-color: #475569;
+      padding: 0.25rem 0.5rem;
+    }
+
+    :host .k-grid tr.bid-level .size-bar {
+      background-color: #065f46;
+    }
+
+    :host .k-grid tr.ask-level .size-bar {
+      background-color: #991b1b;
+    }
+
+    :host .k-grid tr.best-bid td {
+      border-top: 2px solid #94a3b8;
+    }
+
+    :host .k-grid tr.own-level {
+      background-color: #1e3a8a;
+    }
   `]
 })
-export class MarketDepthComponent {}
+export class MarketDepthComponent {
+  private signalR = inject(SignalRService);
+  private marketDataApi = inject(MarketDataApiService);
+  private destroyRef = inject(DestroyRef);
+
+  /**
+   * Symbol shown until the user picks another one
+   */
+  symbol = input('AAPL');
+
+  /**
+   * Price levels requested per side (at most 20, the levels the depth feed publishes)
+   */
+  levels = input(10);
+
+  selectedSymbol = linkedSignal(() => this.symbol());
+  exchangeId = this.signalR.currentExchangeId;
+
+  // Symbols with live prices on the connected exchange
+  symbols = computed(() => [...new Set([this.selectedSymbol(), ...this.signalR.latestPrices().keys()])].sort());
+
+  // Both sides best price first, as returned by the snapshot
+  bids = signal<MarketDepthLevel[]>([]);
+  asks = signal<MarketDepthLevel[]>([]);
+
+  /**
+   * Ladder rows: asks from the highest price down, then bids from the best price down
+   */
+  ladder = computed<MarketDepthRow[]>(() => [
+    ...this.asks().map((level) => ({ ...level, side: 'ASK' as const })).reverse(),
+    ...this.bids().map((level) => ({ ...level, side: 'BID' as const })),
+  ]);
+
+  maxQuantity = computed(() => Math.max(0, ...this.ladder().map((row) => row.quantity)));
+
+  // State
+  isLoading = signal(false);
+  errorMessage = signal<string | null>(null);
+
+  // Depth updates numbered up to the snapshot's sequence are already reflected in it
+  private snapshotSequence = 0;
+
+  constructor() {
+    effect(() => {
+      const exchangeId = this.exchangeId();
+      const symbol = this.selectedSymbol();
+
+      if (exchangeId) {
+        untracked(() => void this.loadDepth(exchangeId, symbol));
+      }
+    });
+
+    this.signalR.depthUpdate$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((event) => this.applyDepthUpdate(event));
+  }
+
+  /**
+   * Load a depth snapshot for the selected symbol
+   */
+  async loadDepth(exchangeId: string, symbol: string): Promise<void> {
+    this.isLoading.set(true);
+    this.errorMessage.set(null);
+
+    try {
+      const snapshot = await firstValueFrom(
+        this.marketDataApi.getMarketDepth({ exchangeId, symbol, levels: this.levels() })
+      );
+
+      // Ignore a snapshot for a symbol the user has since switched away from
+      if (symbol !== this.selectedSymbol()) return;
+
+      this.bids.set(snapshot.bids);
+      this.asks.set(snapshot.asks);
+      this.snapshotSequence = snapshot.sequence;
+    } catch (error) {
+      this.bids.set([]);
+      this.asks.set([]);
+      this.errorMessage.set(`Failed to load market depth: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  /**
+   * Reload the snapshot, e.g. to pick up own order changes the depth feed does not carry
+   */
+  refreshDepth(): void {
+    const exchangeId = this.exchangeId();
+    if (exchangeId) {
+      void this.loadDepth(exchangeId, this.selectedSymbol());
+    }
+  }
+
+  /**
+   * Apply a depth update for the selected symbol on top of the snapshot
+   */
+  applyDepthUpdate(event: MarketDepthUpdateEvent): void {
+    if (event.exchangeId !== this.exchangeId() || event.symbol !== this.selectedSymbol()) return;
+    if (event.sequence <= this.snapshotSequence) return;
+
+    const changes = (side: 'BID' | 'ASK') => event.changes.filter((change) => change.side === side);
+
+    this.bids.update((levels) => this.applyChanges(levels, changes('BID'), (a, b) => b.price - a.price));
+    this.asks.update((levels) => this.applyChanges(levels, changes('ASK'), (a, b) => a.price - b.price));
+  }
+
+  /**
+   * Replace, add or remove levels on one side and keep it best price first
+   * Own size is not in the feed, so it is capped at the level's new size and dropped with the level
+   */
+  private applyChanges(
+    levels: MarketDepthLevel[],
+    changes: MarketDepthLevelChange[],
+    bestFirst: (a: MarketDepthLevel, b: MarketDepthLevel) => number
+  ): MarketDepthLevel[] {
+    if (changes.length === 0) return levels;
+
+    const byPrice = new Map(levels.map((level) => [level.price, level]));
+
+    for (const change of changes) {
+      if (change.quantity === 0) {
+        byPrice.delete(change.price);
+        continue;
+      }
+
+      const ownQuantity = Math.min(byPrice.get(change.price)?.ownQuantity ?? 0, change.quantity);
+      byPrice.set(change.price, { price: change.price, quantity: change.quantity, orderCount: change.orderCount, ownQuantity });
+    }
+
+    return [...byPrice.values()].sort(bestFirst).slice(0, this.levels());
+  }
+
+  /**
+   * Width of a level's size bar relative to the largest level on the ladder
+   */
+  sizeShare(row: MarketDepthRow): number {
+    const max = this.maxQuantity();
+    return max > 0 ? (row.quantity / max) * 100 : 0;
+  }
+
+  /**
+   * Grid row classes: side, the best bid under the spread, and levels with the user's orders
+   */
+  rowClass = ({ dataItem }: RowClassArgs) => {
+    const row = dataItem as MarketDepthRow;
+
+    return {
+      'bid-level': row.side === 'BID',
+      'ask-level': row.side === 'ASK',
+      'best-bid': row.side === 'BID' && row === this.ladder().find((candidate) => candidate.side === 'BID'),
+      'own-level': row.ownQuantity > 0,
+    };
+  };
+}
@@ -1,8 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { OrderEntryComponent } from './order-entry.component';
 import { OrderApiService } from '@assetsim/shared/api-client';
-import { SignalRService } from '@assetsim/client/core';
-import { signal } from '@angular/core';
+import { SignalRService, FeatureService } from '@assetsim/client/core';
+import { signal, computed } from '@angular/core';
 import { of } from 'rxjs';
 import { NO_ERRORS_SCHEMA } from '@angular/core';
 import { provideAnimations } from '@angular/platform-browser/animations';
@@ -15,6 +15,7 @@ describe('OrderEntryComponent', () => {
   let fixture: ComponentFixture<OrderEntryComponent>;
   let mockOrderApiService: Partial<OrderApiService>;
   let mockSignalRService: Partial<SignalRService>;
+  let allowMargin: ReturnType<typeof signal<boolean>>;
 
   beforeEach(async () => {
     // Create mocks
@@ -29,6 +30,7 @@ describe('OrderEntryComponent', () => {
         quantity: 100,
         status: 'PENDING' as const,
         filledQuantity: 0,
+        commission: 0,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
       }))
@@ -41,12 +43,24 @@ describe('OrderEntryComponent', () => {
       ]))
     };
 
+    allowMargin = signal(true);
+    const mockFeatureService: Partial<FeatureService> = {
+      config: computed(() => ({
+        initialAum: 10000000,
+        commissionBps: 5,
+        allowMargin: allowMargin(),
+        volatilityIndex: 1.0,
+        dashboardLayout: []
+      }))
+    };
+
     await TestBed.configureTestingModule({
       imports: [OrderEntryComponent],
       providers: [
         provideAnimations(),
         { provide: OrderApiService, useValue: mockOrderApiService },
-        { provide: SignalRService, useValue: mockSignalRService }
+        { provide: SignalRService, useValue: mockSignalRService },
+        { provide: FeatureService, useValue: mockFeatureService }
       ],
       schemas: [NO_ERRORS_SCHEMA] // Ignore Kendo UI component templates in tests
     }).compileComponents();
@@ -86,6 +100,14 @@ describe('OrderEntryComponent', () => {
     expect(currentPrice).toBe(178.50);
   });
 
+  it('should offer SHORT only when the exchange allows margin', () => {
+    expect(component.orderSides()).toEqual(['BUY', 'SELL', 'SHORT', 'COVER']);
+
+    allowMargin.set(false);
+
+    expect(component.orderSides()).toEqual(['BUY', 'SELL', 'COVER']);
+  });
+
   it('should validate form correctly', () => {
     // Valid MARKET order
     component.orderForm.set({
@@ -19,7 +19,7 @@ import { DropDownsModule } from '@progress/kendo-angular-dropdowns';
 import { InputsModule } from '@progress/kendo-angular-inputs';
 import { LabelModule } from '@progress/kendo-angular-label';
 import { OrderApiService } from '@assetsim/shared/api-client';
-import { SignalRService, LoggerService } from '@assetsim/client/core';
+import { SignalRService, LoggerService, FeatureService } from '@assetsim/client/core';
 import { firstValueFrom } from 'rxjs';
 import { 
   OrderSide, 
@@ -87,13 +87,13 @@ const DEFAULT_PORTFOLIO_ID = '11111111-1111-1111-1111-111111111111';
           }
         </div>
 
-        <!-- Side Selection (BUY/SELL) -->
+        <!-- Side Selection (BUY/SELL, SHORT/COVER when margin is allowed) -->
         <div class="form-group">
           <kendo-label text="Side">
             <kendo-dropdownlist
               [value]="orderForm().side"
               (valueChange)="updateForm('side', $event)"
-              [data]="orderSides"
+              [data]="orderSides()"
               [style.width.%]="100">
             </kendo-dropdownlist>
           </kendo-label>
@@ -254,6 +254,7 @@ export class OrderEntryComponent {
   private signalRService = inject(SignalRService);
   private destroyRef = inject(DestroyRef);
   private logger = inject(LoggerService);
+  private featureService = inject(FeatureService);
   private resetTimeoutId: number | null = null;
 
   /**
@@ -290,7 +291,12 @@ export class OrderEntryComponent {
   }
 
   // Dropdown options
-  orderSides: OrderSide[] = ['BUY', 'SELL'];
+  // SHORT is only offered when the exchange allows margin; COVER stays available to close existing shorts
+  orderSides = computed<OrderSide[]>(() =>
+    this.featureService.config().allowMargin
+      ? ['BUY', 'SELL', 'SHORT', 'COVER']
+      : ['BUY', 'SELL', 'COVER']
+  );
   orderTypes: OrderType[] = ['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT'];
 
   // State signals
@@ -32,6 +32,7 @@ describe('PositionBlotterComponent', () => {
       orderType: 'MARKET',
       quantity: 100,
       filledQuantity: 100,
+      commission: 0,
       averagePrice: 178.50,
       status: 'FILLED',
       createdAt: new Date().toISOString(),
@@ -47,6 +48,7 @@ describe('PositionBlotterComponent', () => {
       quantity: 50,
       price: 380.00,
       filledQuantity: 0,
+      commission: 0,
       status: 'PENDING',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
@@ -55,7 +57,7 @@ describe('PositionBlotterComponent', () => {
 
   beforeEach(async () => {
     mockOrderApiService = {
-      listOrders: jest.fn().mockReturnValue(of(mockOrders)),
+      listOrders: jest.fn().mockReturnValue(of({ items: mockOrders, total: 2, limit: 100, offset: 0 })),
       cancelOrder: jest.fn().mockReturnValue(of({ ...mockOrders[1], status: 'CANCELLED' }))
     };
 
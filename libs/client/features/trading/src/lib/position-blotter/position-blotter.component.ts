@@ -82,8 +82,8 @@ import { TRADING_STUB_CONFIG } from '../models/trading-config';
             <ng-template kendoGridCellTemplate let-dataItem>
               <span 
                 class="side-badge"
-                [class.buy]="dataItem.side === 'BUY'"
-                [class.sell]="dataItem.side === 'SELL'">
+                [class.buy]="dataItem.side === 'BUY' || dataItem.side === 'COVER'"
+                [class.sell]="dataItem.side === 'SELL' || dataItem.side === 'SHORT'">
                 {{ dataItem.side }}
               </span>
             </ng-template>
@@ -325,11 +325,13 @@ export class PositionBlotterComponent implements OnInit {
       const query = {
         exchangeId: this.stubConfig.exchangeId,
         limit: 100,
-        offset: 0
+        offset: 0,
+        sortBy: 'createdAt' as const,
+        sortOrder: 'desc' as const
       };
 
-      const orders = await firstValueFrom(this.orderApiService.listOrders(query));
-      this.orders.set(orders || []);
+      const page = await firstValueFrom(this.orderApiService.listOrders(query));
+      this.orders.set(page?.items || []);
       this.isStubMode.set(false); // Real data loaded
       this.updateGridView();
     } catch (error) {
@@ -362,6 +364,7 @@ export class PositionBlotterComponent implements OnInit {
         orderType: 'MARKET',
         quantity: 100,
         filledQuantity: 100,
+        commission: 8.93,
         averagePrice: 178.50,
         status: 'FILLED',
         createdAt: new Date(Date.now() - 3600000).toISOString(),
@@ -377,6 +380,7 @@ export class PositionBlotterComponent implements OnInit {
         quantity: 50,
         price: 380.00,
         filledQuantity: 25,
+        commission: 4.75,
         averagePrice: 379.75,
         status: 'PARTIAL',
         createdAt: new Date(Date.now() - 1800000).toISOString(),
@@ -392,6 +396,7 @@ export class PositionBlotterComponent implements OnInit {
         quantity: 75,
         price: 142.00,
         filledQuantity: 0,
+        commission: 0,
         status: 'PENDING',
         createdAt: new Date(Date.now() - 900000).toISOString(),
         updatedAt: new Date(Date.now() - 900000).toISOString()
@@ -405,6 +410,7 @@ export class PositionBlotterComponent implements OnInit {
         orderType: 'MARKET',
         quantity: 200,
         filledQuantity: 0,
+        commission: 0,
         status: 'CANCELLED',
         createdAt: new Date(Date.now() - 7200000).toISOString(),
         updatedAt: new Date(Date.now() - 7200000).toISOString()
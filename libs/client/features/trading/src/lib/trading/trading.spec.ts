@@ -3,6 +3,7 @@ import { Trading } from './trading';
 import { SignalRService, LoggerService } from '@assetsim/client/core';
 import { signal } from '@angular/core';
 import { NO_ERRORS_SCHEMA } from '@angular/core';
+import { EMPTY } from 'rxjs';
 import { TRADING_STUB_CONFIG, TradingStubConfig } from '../models/trading-config';
 
 /**
@@ -24,7 +25,9 @@ describe('Trading', () => {
       latestPrices: signal(new Map()),
       connectionState: signal('Disconnected' as any),
       currentExchangeId: signal(null),
-      connect: jest.fn().mockResolvedValue(undefined)
+      connect: jest.fn().mockResolvedValue(undefined),
+      // FeatureService (injected by the order entry widget) subscribes to configuration pushes
+      exchangeConfigUpdated$: EMPTY
     };
 
     // Create mock Logger service
@@ -1,8 +1,14 @@
 // Export services
 export * from './lib/base-api.service';
 export * from './lib/exchange-api.service';
+export * from './lib/exchange-members-api.service';
 export * from './lib/order-api.service';
+export * from './lib/execution-api.service';
+export * from './lib/portfolio-api.service';
 export * from './lib/feature-flag-api.service';
+export * from './lib/instrument-api.service';
+export * from './lib/scenario-api.service';
+export * from './lib/market-data-api.service';
 
 // Export models
 export * from './lib/models';
@@ -22,6 +22,10 @@ class TestableBaseApiService extends BaseApiService {
     return super.put<T>(url, body);
   }
 
+  public override patch<T>(url: string, body: unknown): Observable<T> {
+    return super.patch<T>(url, body);
+  }
+
   public override delete<T>(url: string): Observable<T> {
     return super.delete<T>(url);
   }
@@ -88,6 +92,20 @@ describe('BaseApiService', () => {
     req.flush(mockResponse);
   });
 
+  it('should make PATCH request with correct URL and body', () => {
+    const mockBody = { price: 101.5 };
+    const mockResponse = { id: '123', price: 101.5 };
+    
+    service.patch('/test', mockBody).subscribe(response => {
+      expect(response).toEqual(mockResponse);
+    });
+
+    const req = httpMock.expectOne('/api/v1/test');
+    expect(req.request.method).toBe('PATCH');
+    expect(req.request.body).toEqual(mockBody);
+    req.flush(mockResponse);
+  });
+
   it('should make DELETE request with correct URL', () => {
     service.delete('/test').subscribe();
 
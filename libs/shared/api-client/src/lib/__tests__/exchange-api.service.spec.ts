@@ -1,7 +1,7 @@
 import { TestBed } from '@angular/core/testing';
 import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
 import { ExchangeApiService } from '../exchange-api.service';
-import { CreateExchangeRequest, ExchangeResponse } from '../models/exchange.models';
+import { CreateExchangeRequest, ExchangeResponse, UpdateExchangeRequest } from '../models/exchange.models';
 
 describe('ExchangeApiService', () => {
   let service: ExchangeApiService;
@@ -74,7 +74,8 @@ describe('ExchangeApiService', () => {
           exchangeId: '123e4567-e89b-12d3-a456-426614174000',
           name: 'Exchange 1',
           createdAt: '2026-01-24T00:00:00Z',
-          createdBy: '456e4567-e89b-12d3-a456-426614174001'
+          createdBy: '456e4567-e89b-12d3-a456-426614174001',
+          roles: ['RiskManager']
         },
         {
           exchangeId: '223e4567-e89b-12d3-a456-426614174000',
@@ -98,7 +99,7 @@ describe('ExchangeApiService', () => {
   describe('updateExchange', () => {
     it('should update an exchange', () => {
       const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
-      const request: Partial<CreateExchangeRequest> = { name: 'Updated Exchange' };
+      const request: UpdateExchangeRequest = { name: 'Updated Exchange' };
       const mockResponse: ExchangeResponse = {
         exchangeId,
         name: 'Updated Exchange',
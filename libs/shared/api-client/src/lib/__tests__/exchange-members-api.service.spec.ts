@@ -0,0 +1,103 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { ExchangeMembersApiService } from '../exchange-members-api.service';
+import { ExchangeRoleResponse } from '../models/exchange.models';
+import { PagedResponse } from '../models/order.models';
+
+describe('ExchangeMembersApiService', () => {
+  let service: ExchangeMembersApiService;
+  let httpMock: HttpTestingController;
+
+  const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
+  const userId = '323e4567-e89b-12d3-a456-426614174000';
+  const member: ExchangeRoleResponse = {
+    exchangeId,
+    userId,
+    role: 'PortfolioManager',
+    assignedAt: '2026-01-19T10:00:00.000Z'
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [ExchangeMembersApiService]
+    });
+    service = TestBed.inject(ExchangeMembersApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('listMembers', () => {
+    it('should list members with paging parameters', () => {
+      const page: PagedResponse<ExchangeRoleResponse> = { items: [member], total: 1, limit: 10, offset: 0 };
+
+      service.listMembers(exchangeId, { limit: 10, offset: 0 }).subscribe(response => {
+        expect(response).toEqual(page);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/members?limit=10&offset=0`);
+      expect(req.request.method).toBe('GET');
+      req.flush(page);
+    });
+
+    it('should omit the query string without paging parameters', () => {
+      service.listMembers(exchangeId).subscribe();
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/members`);
+      req.flush({ items: [], total: 0, limit: 50, offset: 0 });
+    });
+  });
+
+  describe('addMember', () => {
+    it('should assign a role', () => {
+      const provisioned = { ...member, portfolioId: '223e4567-e89b-12d3-a456-426614174000' };
+
+      service.addMember(exchangeId, { userId, role: 'PortfolioManager' }).subscribe(response => {
+        expect(response.portfolioId).toBe(provisioned.portfolioId);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/members`);
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body).toEqual({ userId, role: 'PortfolioManager' });
+      req.flush(provisioned);
+    });
+  });
+
+  describe('updateMember', () => {
+    it('should change a member\'s role', () => {
+      service.updateMember(exchangeId, userId, { role: 'Analyst' }).subscribe(response => {
+        expect(response.role).toBe('Analyst');
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/members/${userId}`);
+      expect(req.request.method).toBe('PUT');
+      expect(req.request.body).toEqual({ role: 'Analyst' });
+      req.flush({ ...member, role: 'Analyst' });
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should revoke a single role', () => {
+      service.removeMember(exchangeId, userId, 'Analyst').subscribe();
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/members/${userId}?role=Analyst`);
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+    });
+
+    it('should remove the member when no role is given', () => {
+      service.removeMember(exchangeId, userId).subscribe();
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/members/${userId}`);
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+    });
+  });
+});
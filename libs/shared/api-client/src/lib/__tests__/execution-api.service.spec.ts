@@ -0,0 +1,96 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { ExecutionApiService } from '../execution-api.service';
+import { ExecutionResponse, ListExecutionsQuery } from '../models/execution.models';
+import { PagedResponse } from '../models/order.models';
+
+describe('ExecutionApiService', () => {
+  let service: ExecutionApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [ExecutionApiService]
+    });
+    service = TestBed.inject(ExecutionApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('listExecutions', () => {
+    it('should list executions with all filters', () => {
+      const query: ListExecutionsQuery = {
+        exchangeId: '123e4567-e89b-12d3-a456-426614174000',
+        portfolioId: '223e4567-e89b-12d3-a456-426614174000',
+        orderId: '323e4567-e89b-12d3-a456-426614174000',
+        symbol: 'AAPL',
+        from: '2026-01-24T00:00:00.000Z',
+        to: '2026-01-25T00:00:00.000Z',
+        limit: 20,
+        offset: 40,
+        sortBy: 'price',
+        sortOrder: 'asc'
+      };
+      const mockResponse: PagedResponse<ExecutionResponse> = {
+        items: [
+          {
+            executionId: '423e4567-e89b-12d3-a456-426614174000',
+            orderId: query.orderId as string,
+            exchangeId: query.exchangeId,
+            portfolioId: query.portfolioId as string,
+            symbol: 'AAPL',
+            side: 'BUY',
+            quantity: 250,
+            price: 150.25,
+            commission: 0,
+            executedAt: '2026-01-24T10:00:05Z'
+          }
+        ],
+        total: 41,
+        limit: 20,
+        offset: 40
+      };
+
+      service.listExecutions(query).subscribe(response => {
+        expect(response).toEqual(mockResponse);
+        expect(response.items[0].quantity).toBe(250);
+      });
+
+      const req = httpMock.expectOne((request) => {
+        return request.url.startsWith('/api/v1/executions?') &&
+               request.url.includes('exchangeId=123e4567-e89b-12d3-a456-426614174000') &&
+               request.url.includes('portfolioId=223e4567-e89b-12d3-a456-426614174000') &&
+               request.url.includes('orderId=323e4567-e89b-12d3-a456-426614174000') &&
+               request.url.includes('symbol=AAPL') &&
+               request.url.includes('from=2026-01-24T00%3A00%3A00.000Z') &&
+               request.url.includes('to=2026-01-25T00%3A00%3A00.000Z') &&
+               request.url.includes('limit=20') &&
+               request.url.includes('offset=40') &&
+               request.url.includes('sortBy=price') &&
+               request.url.includes('sortOrder=asc');
+      });
+      expect(req.request.method).toBe('GET');
+      req.flush(mockResponse);
+    });
+
+    it('should list executions with only required filter', () => {
+      const mockResponse: PagedResponse<ExecutionResponse> = { items: [], total: 0, limit: 50, offset: 0 };
+
+      service.listExecutions({ exchangeId: '123e4567-e89b-12d3-a456-426614174000' }).subscribe(response => {
+        expect(response.items.length).toBe(0);
+      });
+
+      const req = httpMock.expectOne('/api/v1/executions?exchangeId=123e4567-e89b-12d3-a456-426614174000');
+      expect(req.request.method).toBe('GET');
+      req.flush(mockResponse);
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { TestBed } from '@angular/core/testing';
 import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
 import { FeatureFlagApiService } from '../feature-flag-api.service';
-import { FeatureFlagResponse } from '@assetsim/shared/finance-models';
+import { ExchangeConfig, FeatureFlagResponse } from '@assetsim/shared/finance-models';
+import { ExchangeFeatureFlagResponse, UpdateExchangeConfigRequest } from '../models/exchange.models';
 
 describe('FeatureFlagApiService', () => {
   let service: FeatureFlagApiService;
@@ -79,42 +80,133 @@ describe('FeatureFlagApiService', () => {
     });
   });
 
-  describe('updateExchangeRules', () => {
-    it('should update exchange rules', () => {
+  describe('updateExchangeConfig', () => {
+    it('should update exchange configuration', () => {
       const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
-      const updateRequest: Partial<FeatureFlagResponse> = {
-        configuration: {
-          initialAum: 20000000,
-          commissionBps: 10,
-          allowMargin: false,
-          volatilityIndex: 1.5,
-          dashboardLayout: ['market-status']
-        }
+      const updateRequest: UpdateExchangeConfigRequest = {
+        initialAum: 20000000,
+        allowMargin: false,
+        tickIntervalMs: 1000
       };
-      const mockResponse: FeatureFlagResponse = {
-        flags: {
-          'enableAdvancedCharts': true,
-          'enableOptions': false
+      const mockResponse: ExchangeConfig = {
+        initialAum: 20000000,
+        commissionBps: 10,
+        commissionModel: 'BPS',
+        allowMargin: false,
+        volatilityIndex: 1.5,
+        dashboardLayout: ['market-status'],
+        maxPortfolioSize: 50,
+        tickIntervalMs: 1000,
+        volatility: 0.02,
+        marketEngineEnabled: true
+      };
+
+      service.updateExchangeConfig(exchangeId, updateRequest).subscribe(response => {
+        expect(response).toEqual(mockResponse);
+        expect(response.initialAum).toBe(20000000);
+        expect(response.allowMargin).toBe(false);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchange/config?exchangeId=${exchangeId}`);
+      expect(req.request.method).toBe('PUT');
+      expect(req.request.body).toEqual(updateRequest);
+      req.flush(mockResponse);
+    });
+  });
+
+  describe('listFlags', () => {
+    it('should list the exchange feature flags', () => {
+      const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
+      const mockResponse: ExchangeFeatureFlagResponse[] = [
+        {
+          featureName: 'advanced-charts',
+          description: 'Technical indicators and drawing tools on price charts',
+          defaultEnabled: false,
+          isEnabled: true,
+          isOverridden: true,
+          updatedAt: '2026-02-01T00:00:00Z'
         },
-        configuration: {
-          initialAum: 20000000,
-          commissionBps: 10,
-          allowMargin: false,
-          volatilityIndex: 1.5,
-          dashboardLayout: ['market-status']
+        {
+          featureName: 'real-time-data',
+          description: 'Streaming SignalR quotes instead of polling',
+          defaultEnabled: true,
+          isEnabled: true,
+          isOverridden: false
         }
+      ];
+
+      service.listFlags(exchangeId).subscribe(response => {
+        expect(response).toEqual(mockResponse);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/flags`);
+      expect(req.request.method).toBe('GET');
+      req.flush(mockResponse);
+    });
+  });
+
+  describe('setFlag', () => {
+    it('should override a feature flag', () => {
+      const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
+      const mockResponse: ExchangeFeatureFlagResponse = {
+        featureName: 'margin-trading',
+        description: 'Margin and short selling controls in the order entry ticket',
+        defaultEnabled: false,
+        isEnabled: true,
+        isOverridden: true,
+        updatedAt: '2026-02-01T00:00:00Z'
       };
 
-      service.updateExchangeRules(exchangeId, updateRequest).subscribe(response => {
+      service.setFlag(exchangeId, 'margin-trading', true).subscribe(response => {
         expect(response).toEqual(mockResponse);
-        expect(response.configuration.initialAum).toBe(20000000);
-        expect(response.configuration.allowMargin).toBe(false);
       });
 
-      const req = httpMock.expectOne(`/api/v1/exchange/rules?exchangeId=${exchangeId}`);
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/flags/margin-trading`);
       expect(req.request.method).toBe('PUT');
-      expect(req.request.body).toEqual(updateRequest);
+      expect(req.request.body).toEqual({ isEnabled: true });
       req.flush(mockResponse);
     });
+
+    it('should send role, user and percentage targeting', () => {
+      const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
+      const mockResponse: ExchangeFeatureFlagResponse = {
+        featureName: 'advanced-charts',
+        defaultEnabled: false,
+        isEnabled: true,
+        isOverridden: true,
+        rolloutPercentage: 25,
+        targetRoles: ['PortfolioManager'],
+        updatedAt: '2026-02-01T00:00:00Z'
+      };
+
+      service.setFlag(exchangeId, 'advanced-charts', true, {
+        rolloutPercentage: 25,
+        targetRoles: ['PortfolioManager']
+      }).subscribe(response => {
+        expect(response.rolloutPercentage).toBe(25);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/flags/advanced-charts`);
+      expect(req.request.body).toEqual({
+        isEnabled: true,
+        rolloutPercentage: 25,
+        targetRoles: ['PortfolioManager']
+      });
+      req.flush(mockResponse);
+    });
+  });
+
+  describe('deleteFlag', () => {
+    it('should remove a feature flag override', () => {
+      const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
+
+      service.deleteFlag(exchangeId, 'margin-trading').subscribe(response => {
+        expect(response).toBeNull();
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/flags/margin-trading`);
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+    });
   });
 });
@@ -0,0 +1,150 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { InstrumentApiService } from '../instrument-api.service';
+import { ExchangeInstrumentResponse, InstrumentResponse } from '../models/instrument.models';
+
+describe('InstrumentApiService', () => {
+  let service: InstrumentApiService;
+  let httpMock: HttpTestingController;
+
+  const instrument: InstrumentResponse = {
+    symbol: 'BTC',
+    companyName: 'Bitcoin',
+    sector: null,
+    assetClass: 'CRYPTO',
+    basePrice: 65000,
+    volatilityMultiplier: 3,
+    tickSize: 0.5,
+    lotSize: 0.0001,
+    priceModel: 'MERTON',
+    beta: 1.5
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [InstrumentApiService]
+    });
+    service = TestBed.inject(InstrumentApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('listInstruments', () => {
+    it('should list instruments filtered by asset class', () => {
+      service.listInstruments('CRYPTO').subscribe(response => {
+        expect(response).toEqual([instrument]);
+      });
+
+      const req = httpMock.expectOne('/api/v1/instruments?assetClass=CRYPTO');
+      expect(req.request.method).toBe('GET');
+      req.flush([instrument]);
+    });
+
+    it('should list all instruments without a filter', () => {
+      service.listInstruments().subscribe();
+
+      const req = httpMock.expectOne('/api/v1/instruments');
+      expect(req.request.method).toBe('GET');
+      req.flush([]);
+    });
+  });
+
+  describe('getInstrument', () => {
+    it('should get an instrument by symbol', () => {
+      service.getInstrument('BRK.B').subscribe(response => {
+        expect(response).toEqual(instrument);
+      });
+
+      const req = httpMock.expectOne('/api/v1/instruments/BRK.B');
+      expect(req.request.method).toBe('GET');
+      req.flush(instrument);
+    });
+  });
+
+  describe('createInstrument', () => {
+    it('should create an instrument', () => {
+      const request = { symbol: 'BTC', companyName: 'Bitcoin', assetClass: 'CRYPTO' as const, basePrice: 65000 };
+
+      service.createInstrument(request).subscribe(response => {
+        expect(response).toEqual(instrument);
+      });
+
+      const req = httpMock.expectOne('/api/v1/instruments');
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body).toEqual(request);
+      req.flush(instrument);
+    });
+  });
+
+  describe('updateInstrument', () => {
+    it('should update simulation parameters', () => {
+      service.updateInstrument('BTC', { volatilityMultiplier: 3, tickSize: 0.5 }).subscribe(response => {
+        expect(response).toEqual(instrument);
+      });
+
+      const req = httpMock.expectOne('/api/v1/instruments/BTC');
+      expect(req.request.method).toBe('PUT');
+      expect(req.request.body).toEqual({ volatilityMultiplier: 3, tickSize: 0.5 });
+      req.flush(instrument);
+    });
+  });
+
+  describe('deleteInstrument', () => {
+    it('should archive an instrument', () => {
+      service.deleteInstrument('BTC').subscribe(response => {
+        expect(response).toBeUndefined();
+      });
+
+      const req = httpMock.expectOne('/api/v1/instruments/BTC');
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+    });
+  });
+
+  describe('exchange listings', () => {
+    const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
+    const listing: ExchangeInstrumentResponse = {
+      ...instrument,
+      listedAt: '2026-01-02T00:00:00Z',
+      listedBy: null
+    };
+
+    it('should list the instruments on an exchange', () => {
+      service.listExchangeInstruments(exchangeId).subscribe(response => {
+        expect(response).toEqual([listing]);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/instruments`);
+      expect(req.request.method).toBe('GET');
+      req.flush([listing]);
+    });
+
+    it('should list an instrument on an exchange', () => {
+      service.addExchangeInstrument(exchangeId, 'BTC').subscribe(response => {
+        expect(response).toEqual(listing);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/instruments/BTC`);
+      expect(req.request.method).toBe('PUT');
+      req.flush(listing);
+    });
+
+    it('should delist an instrument from an exchange', () => {
+      service.removeExchangeInstrument(exchangeId, 'BTC').subscribe(response => {
+        expect(response).toBeUndefined();
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/instruments/BTC`);
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { MarketDataApiService } from '../market-data-api.service';
+import { MarketDepthSnapshot } from '../models/market-data.models';
+
+describe('MarketDataApiService', () => {
+  let service: MarketDataApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [MarketDataApiService]
+    });
+    service = TestBed.inject(MarketDataApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('getMarketDepth', () => {
+    it('should get a depth snapshot with the requested levels', () => {
+      const mockResponse: MarketDepthSnapshot = {
+        exchangeId: '123e4567-e89b-12d3-a456-426614174000',
+        symbol: 'AAPL',
+        bids: [{ price: 149.95, quantity: 300, orderCount: 2, ownQuantity: 100 }],
+        asks: [{ price: 150.05, quantity: 200, orderCount: 1, ownQuantity: 0 }],
+        sequence: 41,
+        timestamp: '2026-01-26T14:30:00Z'
+      };
+
+      service.getMarketDepth({ exchangeId: mockResponse.exchangeId, symbol: 'AAPL', levels: 20 }).subscribe(response => {
+        expect(response).toEqual(mockResponse);
+      });
+
+      const req = httpMock.expectOne(
+        '/api/v1/marketdata/depth?exchangeId=123e4567-e89b-12d3-a456-426614174000&symbol=AAPL&levels=20'
+      );
+      expect(req.request.method).toBe('GET');
+      req.flush(mockResponse);
+    });
+
+    it('should leave levels to the backend default', () => {
+      service.getMarketDepth({ exchangeId: '123e4567-e89b-12d3-a456-426614174000', symbol: 'MSFT' }).subscribe();
+
+      const req = httpMock.expectOne(
+        '/api/v1/marketdata/depth?exchangeId=123e4567-e89b-12d3-a456-426614174000&symbol=MSFT'
+      );
+      expect(req.request.method).toBe('GET');
+      req.flush({ bids: [], asks: [] });
+    });
+  });
+});
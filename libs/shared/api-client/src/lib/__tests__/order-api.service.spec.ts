@@ -1,7 +1,7 @@
 import { TestBed } from '@angular/core/testing';
 import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
 import { OrderApiService } from '../order-api.service';
-import { CreateOrderRequest, OrderResponse, ListOrdersQuery } from '../models/order.models';
+import { CreateOrderRequest, AmendOrderRequest, OrderResponse, ListOrdersQuery, PagedResponse } from '../models/order.models';
 
 describe('OrderApiService', () => {
   let service: OrderApiService;
@@ -46,6 +46,7 @@ describe('OrderApiService', () => {
         price: request.price,
         status: 'PENDING',
         filledQuantity: 0,
+        commission: 0,
         createdAt: '2026-01-24T00:00:00Z',
         updatedAt: '2026-01-24T00:00:00Z'
       };
@@ -81,6 +82,7 @@ describe('OrderApiService', () => {
         quantity: request.quantity,
         status: 'PENDING',
         filledQuantity: 0,
+        commission: 0,
         createdAt: '2026-01-24T00:00:00Z',
         updatedAt: '2026-01-24T00:00:00Z'
       };
@@ -112,18 +114,19 @@ describe('OrderApiService', () => {
         price: 150.50,
         status: 'FILLED',
         filledQuantity: 100,
+        commission: 7.52,
         averagePrice: 150.45,
         createdAt: '2026-01-24T00:00:00Z',
         updatedAt: '2026-01-24T00:05:00Z'
       };
 
-      service.getOrder(orderId).subscribe(response => {
+      service.getOrder(orderId, mockResponse.exchangeId).subscribe(response => {
         expect(response).toEqual(mockResponse);
         expect(response.orderId).toBe(orderId);
         expect(response.status).toBe('FILLED');
       });
 
-      const req = httpMock.expectOne(`/api/v1/orders/${orderId}`);
+      const req = httpMock.expectOne(`/api/v1/orders/${orderId}?exchangeId=${mockResponse.exchangeId}`);
       expect(req.request.method).toBe('GET');
       req.flush(mockResponse);
     });
@@ -137,10 +140,12 @@ describe('OrderApiService', () => {
         status: 'FILLED',
         symbol: 'AAPL',
         limit: 10,
-        offset: 0
+        offset: 0,
+        sortBy: 'symbol',
+        sortOrder: 'asc'
       };
-      const mockResponse: OrderResponse[] = [
-        {
+      const mockResponse: PagedResponse<OrderResponse> = {
+        items: [{
           orderId: '323e4567-e89b-12d3-a456-426614174000',
           exchangeId: query.exchangeId,
           portfolioId: '223e4567-e89b-12d3-a456-426614174000',
@@ -151,14 +156,19 @@ describe('OrderApiService', () => {
           price: 150.50,
           status: 'FILLED',
           filledQuantity: 100,
+          commission: 0,
           createdAt: '2026-01-24T00:00:00Z',
           updatedAt: '2026-01-24T00:05:00Z'
-        }
-      ];
+        }],
+        total: 11,
+        limit: 10,
+        offset: 0
+      };
 
       service.listOrders(query).subscribe(response => {
         expect(response).toEqual(mockResponse);
-        expect(response.length).toBe(1);
+        expect(response.items.length).toBe(1);
+        expect(response.total).toBe(11);
       });
 
       const req = httpMock.expectOne((request) => {
@@ -168,7 +178,9 @@ describe('OrderApiService', () => {
                request.url.includes('status=FILLED') &&
                request.url.includes('symbol=AAPL') &&
                request.url.includes('limit=10') &&
-               request.url.includes('offset=0');
+               request.url.includes('offset=0') &&
+               request.url.includes('sortBy=symbol') &&
+               request.url.includes('sortOrder=asc');
       });
       expect(req.request.method).toBe('GET');
       req.flush(mockResponse);
@@ -178,11 +190,11 @@ describe('OrderApiService', () => {
       const query: ListOrdersQuery = {
         exchangeId: '123e4567-e89b-12d3-a456-426614174000'
       };
-      const mockResponse: OrderResponse[] = [];
+      const mockResponse: PagedResponse<OrderResponse> = { items: [], total: 0, limit: 50, offset: 0 };
 
       service.listOrders(query).subscribe(response => {
         expect(response).toEqual(mockResponse);
-        expect(response.length).toBe(0);
+        expect(response.items.length).toBe(0);
       });
 
       const req = httpMock.expectOne((request) => {
@@ -190,13 +202,50 @@ describe('OrderApiService', () => {
                request.url.includes('exchangeId=123e4567-e89b-12d3-a456-426614174000') &&
                !request.url.includes('portfolioId') &&
                !request.url.includes('status') &&
-               !request.url.includes('symbol');
+               !request.url.includes('symbol') &&
+               !request.url.includes('sortBy');
       });
       expect(req.request.method).toBe('GET');
       req.flush(mockResponse);
     });
   });
 
+  describe('amendOrder', () => {
+    it('should amend an order', () => {
+      const orderId = '323e4567-e89b-12d3-a456-426614174000';
+      const request: AmendOrderRequest = {
+        exchangeId: '123e4567-e89b-12d3-a456-426614174000',
+        quantity: 150,
+        price: 149.75
+      };
+      const mockResponse: OrderResponse = {
+        orderId,
+        exchangeId: request.exchangeId,
+        portfolioId: '223e4567-e89b-12d3-a456-426614174000',
+        symbol: 'AAPL',
+        side: 'BUY',
+        orderType: 'LIMIT',
+        quantity: 150,
+        price: 149.75,
+        status: 'PENDING',
+        filledQuantity: 0,
+        commission: 0,
+        createdAt: '2026-01-24T00:00:00Z',
+        updatedAt: '2026-01-24T00:05:00Z'
+      };
+
+      service.amendOrder(orderId, request).subscribe(response => {
+        expect(response).toEqual(mockResponse);
+        expect(response.quantity).toBe(150);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/orders/${orderId}`);
+      expect(req.request.method).toBe('PATCH');
+      expect(req.request.body).toEqual(request);
+      req.flush(mockResponse);
+    });
+  });
+
   describe('cancelOrder', () => {
     it('should cancel an order', () => {
       const orderId = '323e4567-e89b-12d3-a456-426614174000';
@@ -212,6 +261,7 @@ describe('OrderApiService', () => {
         price: 150.50,
         status: 'CANCELLED',
         filledQuantity: 0,
+        commission: 0,
         createdAt: '2026-01-24T00:00:00Z',
         updatedAt: '2026-01-24T00:05:00Z'
       };
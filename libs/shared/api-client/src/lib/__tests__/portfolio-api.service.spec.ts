@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { PortfolioApiService } from '../portfolio-api.service';
+import { PortfolioResponse } from '../models/portfolio.models';
+import { PagedResponse } from '../models/order.models';
+
+describe('PortfolioApiService', () => {
+  let service: PortfolioApiService;
+  let httpMock: HttpTestingController;
+
+  const exchangeId = '123e4567-e89b-12d3-a456-426614174000';
+  const portfolio: PortfolioResponse = {
+    portfolioId: '223e4567-e89b-12d3-a456-426614174000',
+    exchangeId,
+    name: 'Main Portfolio',
+    cashBalance: 5000,
+    totalValue: 9900,
+    unrealizedPnL: 500,
+    realizedPnL: 250,
+    marginStatus: 'OK',
+    positions: [
+      {
+        symbol: 'AAPL',
+        quantity: 50,
+        averagePrice: 150,
+        currentPrice: 160,
+        unrealizedPnL: 500,
+        realizedPnL: 250
+      }
+    ]
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [PortfolioApiService]
+    });
+    service = TestBed.inject(PortfolioApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('createPortfolio', () => {
+    it('should post to the exchange portfolios endpoint', () => {
+      service.createPortfolio(exchangeId, { name: 'Growth' }).subscribe(response => {
+        expect(response).toEqual(portfolio);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/portfolios`);
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body).toEqual({ name: 'Growth' });
+      req.flush(portfolio);
+    });
+
+    it('should send an empty body when no name is given', () => {
+      service.createPortfolio(exchangeId).subscribe();
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/portfolios`);
+      expect(req.request.body).toEqual({});
+      req.flush(portfolio);
+    });
+  });
+
+  describe('getPortfolio', () => {
+    it('should get a portfolio by ID', () => {
+      service.getPortfolio(portfolio.portfolioId, exchangeId).subscribe(response => {
+        expect(response).toEqual(portfolio);
+        expect(response.positions[0].unrealizedPnL).toBe(500);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/portfolios/${portfolio.portfolioId}?exchangeId=${exchangeId}`);
+      expect(req.request.method).toBe('GET');
+      req.flush(portfolio);
+    });
+  });
+
+  describe('listPortfolios', () => {
+    it('should list portfolios with paging', () => {
+      const mockResponse: PagedResponse<PortfolioResponse> = { items: [portfolio], total: 3, limit: 1, offset: 2 };
+
+      service.listPortfolios({ exchangeId, limit: 1, offset: 2 }).subscribe(response => {
+        expect(response.total).toBe(3);
+        expect(response.items[0].name).toBe('Main Portfolio');
+      });
+
+      const req = httpMock.expectOne(`/api/v1/portfolios?exchangeId=${exchangeId}&limit=1&offset=2`);
+      expect(req.request.method).toBe('GET');
+      req.flush(mockResponse);
+    });
+  });
+});
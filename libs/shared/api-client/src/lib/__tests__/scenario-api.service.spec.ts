@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { ScenarioApiService } from '../scenario-api.service';
+import { ScenarioResponse } from '../models/scenario.models';
+
+describe('ScenarioApiService', () => {
+  let service: ScenarioApiService;
+  let httpMock: HttpTestingController;
+
+  const exchangeId = '550e8400-e29b-41d4-a716-446655440000';
+  const scenarioId = '660e8400-e29b-41d4-a716-446655440000';
+  const scenario: ScenarioResponse = {
+    scenarioId,
+    exchangeId,
+    name: 'Tech selloff',
+    status: 'READY',
+    events: [
+      { type: 'VOLATILITY_REGIME', atSeconds: 0, volatilityIndex: 2 },
+      { type: 'GAP', atSeconds: 30, percent: -8, sector: 'Technology' }
+    ],
+    elapsedSeconds: 0,
+    nextEventIndex: 0,
+    createdAt: '2026-01-02T00:00:00Z',
+    createdBy: 'user-123'
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [ScenarioApiService]
+    });
+    service = TestBed.inject(ScenarioApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('listScenarios', () => {
+    it('should list the exchange scenarios', () => {
+      service.listScenarios(exchangeId).subscribe(response => {
+        expect(response).toEqual([scenario]);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/scenarios`);
+      expect(req.request.method).toBe('GET');
+      req.flush([scenario]);
+    });
+  });
+
+  describe('createScenario', () => {
+    it('should upload the timeline', () => {
+      const request = { name: scenario.name, events: scenario.events };
+
+      service.createScenario(exchangeId, request).subscribe(response => {
+        expect(response).toEqual(scenario);
+      });
+
+      const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/scenarios`);
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body).toEqual(request);
+      req.flush(scenario);
+    });
+  });
+
+  describe('scenario control', () => {
+    it('should start, pause and reset through the action route', () => {
+      service.startScenario(exchangeId, scenarioId).subscribe();
+      service.pauseScenario(exchangeId, scenarioId).subscribe();
+      service.resetScenario(exchangeId, scenarioId).subscribe(response => {
+        expect(response.status).toBe('READY');
+      });
+
+      for (const action of ['start', 'pause', 'reset']) {
+        const req = httpMock.expectOne(`/api/v1/exchanges/${exchangeId}/scenarios/${scenarioId}/${action}`);
+        expect(req.request.method).toBe('POST');
+        req.flush(scenario);
+      }
+    });
+  });
+});
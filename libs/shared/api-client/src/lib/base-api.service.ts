@@ -37,6 +37,13 @@ export class BaseApiService {
     return this.http.put<T>(`${this.baseUrl}${url}`, body);
   }
 
+  /**
+   * Performs a PATCH request
+   */
+  protected patch<T>(url: string, body: unknown): Observable<T> {
+    return this.http.patch<T>(`${this.baseUrl}${url}`, body);
+  }
+
   /**
    * Performs a DELETE request
    */
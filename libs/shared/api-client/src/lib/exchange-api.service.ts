@@ -1,7 +1,7 @@
 import { Injectable } from '@angular/core';
 import { Observable } from 'rxjs';
 import { BaseApiService } from './base-api.service';
-import { CreateExchangeRequest, ExchangeResponse } from './models/exchange.models';
+import { CreateExchangeRequest, ExchangeResponse, UpdateExchangeRequest } from './models/exchange.models';
 
 /**
  * Exchange API Service
@@ -26,30 +26,30 @@ export class ExchangeApiService extends BaseApiService {
   }
 
   /**
-   * Get exchange by ID (to be implemented in backend)
+   * Get exchange by ID
    * 
    * GET /api/v1/exchanges/:id
    * 
    * @param exchangeId - UUID of the exchange
-   * @returns Observable of the exchange details
+   * @returns Observable of the exchange details, including the caller's roles
    */
   getExchange(exchangeId: string): Observable<ExchangeResponse> {
     return this.get<ExchangeResponse>(`/exchanges/${exchangeId}`);
   }
 
   /**
-   * List all exchanges for the current user (to be implemented in backend)
+   * List the active exchanges the current user holds a role in
    * 
    * GET /api/v1/exchanges
    * 
-   * @returns Observable of array of exchanges
+   * @returns Observable of array of exchanges, each including the caller's roles
    */
   listExchanges(): Observable<ExchangeResponse[]> {
     return this.get<ExchangeResponse[]>('/exchanges');
   }
 
   /**
-   * Update exchange (to be implemented in backend)
+   * Rename exchange (RiskManager only)
    * 
    * PUT /api/v1/exchanges/:id
    * 
@@ -57,12 +57,14 @@ export class ExchangeApiService extends BaseApiService {
    * @param request - Exchange update request
    * @returns Observable of the updated exchange
    */
-  updateExchange(exchangeId: string, request: Partial<CreateExchangeRequest>): Observable<ExchangeResponse> {
+  updateExchange(exchangeId: string, request: UpdateExchangeRequest): Observable<ExchangeResponse> {
     return this.put<ExchangeResponse>(`/exchanges/${exchangeId}`, request);
   }
 
   /**
-   * Delete exchange (to be implemented in backend)
+   * Archive (soft-delete) exchange (RiskManager only)
+   * 
+   * Stops the venue's market engine; orders, executions and portfolios are kept.
    * 
    * DELETE /api/v1/exchanges/:id
    * 
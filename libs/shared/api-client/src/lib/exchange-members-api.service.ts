@@ -0,0 +1,96 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { BaseApiService } from './base-api.service';
+import {
+  AddExchangeMemberRequest,
+  ExchangeRole,
+  ExchangeRoleResponse,
+  ListExchangeMembersQuery,
+  UpdateExchangeMemberRequest
+} from './models/exchange.models';
+import { PagedResponse } from './models/order.models';
+
+/**
+ * Exchange Members API Service
+ * 
+ * Provides typed API calls for exchange membership and role management.
+ * All endpoints require the RiskManager role in the exchange.
+ * Based on backend implementation in apps/backend/src/functions/listExchangeMembers.ts,
+ * addExchangeMember.ts, updateExchangeMember.ts and removeExchangeMember.ts
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ExchangeMembersApiService extends BaseApiService {
+  /**
+   * List the role assignments of an exchange
+   * 
+   * GET /api/v1/exchanges/:exchangeId/members
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param query - Optional paging parameters
+   * @returns Observable of a page of role assignments with the total count
+   */
+  listMembers(exchangeId: string, query: ListExchangeMembersQuery = {}): Observable<PagedResponse<ExchangeRoleResponse>> {
+    const params = new URLSearchParams();
+
+    if (query.limit !== undefined) {
+      params.append('limit', query.limit.toString());
+    }
+    if (query.offset !== undefined) {
+      params.append('offset', query.offset.toString());
+    }
+
+    const queryString = params.toString();
+    const url = queryString
+      ? `/exchanges/${exchangeId}/members?${queryString}`
+      : `/exchanges/${exchangeId}/members`;
+
+    return this.get<PagedResponse<ExchangeRoleResponse>>(url);
+  }
+
+  /**
+   * Assign a role to a user, adding them to the exchange if needed
+   * 
+   * POST /api/v1/exchanges/:exchangeId/members
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param request - User and role to assign
+   * @returns Observable of the role assignment (with portfolioId when a portfolio was provisioned)
+   */
+  addMember(exchangeId: string, request: AddExchangeMemberRequest): Observable<ExchangeRoleResponse> {
+    return this.post<ExchangeRoleResponse>(`/exchanges/${exchangeId}/members`, request);
+  }
+
+  /**
+   * Change a member's role
+   * 
+   * PUT /api/v1/exchanges/:exchangeId/members/:userId
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param userId - Entra Object ID of the member
+   * @param request - Role the member should hold
+   * @returns Observable of the member's role assignment
+   */
+  updateMember(exchangeId: string, userId: string, request: UpdateExchangeMemberRequest): Observable<ExchangeRoleResponse> {
+    return this.put<ExchangeRoleResponse>(`/exchanges/${exchangeId}/members/${userId}`, request);
+  }
+
+  /**
+   * Revoke a role, or remove the member from the exchange when no role is given
+   * 
+   * DELETE /api/v1/exchanges/:exchangeId/members/:userId
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param userId - Entra Object ID of the member
+   * @param role - Role to revoke (all roles when omitted)
+   * @returns Observable that completes when the role(s) are revoked
+   */
+  removeMember(exchangeId: string, userId: string, role?: ExchangeRole): Observable<void> {
+    const url = role
+      ? `/exchanges/${exchangeId}/members/${userId}?role=${role}`
+      : `/exchanges/${exchangeId}/members/${userId}`;
+
+    return this.delete<void>(url);
+  }
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { BaseApiService } from './base-api.service';
+import { ExecutionResponse, ListExecutionsQuery } from './models/execution.models';
+import { PagedResponse } from './models/order.models';
+
+/**
+ * Execution API Service
+ * 
+ * Provides typed API calls for the fills/executions ledger.
+ * Based on backend implementation in apps/backend/src/functions/listExecutions.ts
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ExecutionApiService extends BaseApiService {
+  /**
+   * List executions with optional filters, paging and sorting
+   * 
+   * GET /api/v1/executions
+   * 
+   * @param query - Query parameters for filtering, paging and sorting
+   * @returns Observable of a page of executions with the total count
+   */
+  listExecutions(query: ListExecutionsQuery): Observable<PagedResponse<ExecutionResponse>> {
+    const params = new URLSearchParams();
+
+    params.append('exchangeId', query.exchangeId);
+
+    if (query.portfolioId) {
+      params.append('portfolioId', query.portfolioId);
+    }
+    if (query.orderId) {
+      params.append('orderId', query.orderId);
+    }
+    if (query.symbol) {
+      params.append('symbol', query.symbol);
+    }
+    if (query.from) {
+      params.append('from', query.from);
+    }
+    if (query.to) {
+      params.append('to', query.to);
+    }
+    if (query.limit !== undefined) {
+      params.append('limit', query.limit.toString());
+    }
+    if (query.offset !== undefined) {
+      params.append('offset', query.offset.toString());
+    }
+    if (query.sortBy) {
+      params.append('sortBy', query.sortBy);
+    }
+    if (query.sortOrder) {
+      params.append('sortOrder', query.sortOrder);
+    }
+
+    return this.get<PagedResponse<ExecutionResponse>>(`/executions?${params.toString()}`);
+  }
+}
@@ -1,13 +1,21 @@
 import { Injectable } from '@angular/core';
 import { Observable } from 'rxjs';
-import { FeatureFlagResponse } from '@assetsim/shared/finance-models';
+import { ExchangeConfig, FeatureFlagResponse } from '@assetsim/shared/finance-models';
 import { BaseApiService } from './base-api.service';
+import {
+  ExchangeFeatureFlagResponse,
+  FeatureFlagTargeting,
+  SetFeatureFlagRequest,
+  UpdateExchangeConfigRequest,
+} from './models/exchange.models';
 
 /**
  * Feature Flag API Service
  * 
- * Provides typed API calls for fetching feature flags and exchange configuration.
+ * Provides typed API calls for fetching feature flags and exchange configuration,
+ * and for managing per-exchange flag overrides.
  * Based on backend implementation in apps/backend/src/functions/getExchangeRules.ts
+ * and the flag endpoints in listExchangeFlags.ts, setExchangeFlag.ts and deleteExchangeFlag.ts
  */
 @Injectable({
   providedIn: 'root'
@@ -29,15 +37,74 @@ export class FeatureFlagApiService extends BaseApiService {
   }
 
   /**
-   * Update exchange configuration (to be implemented in backend)
+   * Update exchange configuration (RiskManager only)
    * 
-   * PUT /api/v1/exchange/rules?exchangeId=<uuid>
+   * PUT /api/v1/exchange/config?exchangeId=<uuid>
+   * 
+   * Partial update of the exchange's simulation rules. Connected clients are notified
+   * via SignalR so FeatureService reloads the rules.
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param configuration - Fields to change
+   * @returns Observable of the full configuration after the update
+   */
+  updateExchangeConfig(exchangeId: string, configuration: UpdateExchangeConfigRequest): Observable<ExchangeConfig> {
+    return this.put<ExchangeConfig>(`/exchange/config?exchangeId=${exchangeId}`, configuration);
+  }
+
+  /**
+   * List feature flags for an exchange (RiskManager only)
+   * 
+   * GET /api/v1/exchanges/{exchangeId}/flags
+   * 
+   * Returns every known flag with its default and effective value, followed by
+   * stored overrides for names the backend registry does not know.
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @returns Observable of the exchange's feature flags
+   */
+  listFlags(exchangeId: string): Observable<ExchangeFeatureFlagResponse[]> {
+    return this.get<ExchangeFeatureFlagResponse[]>(`/exchanges/${exchangeId}/flags`);
+  }
+
+  /**
+   * Turn a feature flag on or off for an exchange (RiskManager only)
+   * 
+   * PUT /api/v1/exchanges/{exchangeId}/flags/{featureName}
+   * 
+   * Only flags in the backend registry can be set. The request replaces the stored
+   * override, so omitted targeting is cleared. Connected clients are notified via
+   * SignalR so FeatureService reloads the rules.
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param featureName - Registry flag name (e.g. 'advanced-charts')
+   * @param isEnabled - New value
+   * @param targeting - Optional role, user and percentage rollout targeting
+   * @returns Observable of the flag after the update
+   */
+  setFlag(
+    exchangeId: string,
+    featureName: string,
+    isEnabled: boolean,
+    targeting: FeatureFlagTargeting = {}
+  ): Observable<ExchangeFeatureFlagResponse> {
+    const request: SetFeatureFlagRequest = { ...targeting, isEnabled };
+    return this.put<ExchangeFeatureFlagResponse>(
+      `/exchanges/${exchangeId}/flags/${encodeURIComponent(featureName)}`,
+      request
+    );
+  }
+
+  /**
+   * Remove a feature flag override so the flag reverts to its default (RiskManager only)
+   * 
+   * DELETE /api/v1/exchanges/{exchangeId}/flags/{featureName}
    * 
    * @param exchangeId - UUID of the exchange
-   * @param configuration - Updated configuration
-   * @returns Observable of the updated feature flags and configuration
+   * @param featureName - Flag name
+   * @returns Observable that completes when the override is removed
    */
-  updateExchangeRules(exchangeId: string, configuration: Partial<FeatureFlagResponse>): Observable<FeatureFlagResponse> {
-    return this.put<FeatureFlagResponse>(`/exchange/rules?exchangeId=${exchangeId}`, configuration);
+  deleteFlag(exchangeId: string, featureName: string): Observable<void> {
+    return this.delete<void>(`/exchanges/${exchangeId}/flags/${encodeURIComponent(featureName)}`);
   }
 }
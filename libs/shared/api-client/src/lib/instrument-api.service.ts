@@ -0,0 +1,121 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { BaseApiService } from './base-api.service';
+import {
+  AssetClass,
+  CreateInstrumentRequest,
+  ExchangeInstrumentResponse,
+  InstrumentResponse,
+  UpdateInstrumentRequest,
+} from './models/instrument.models';
+
+/**
+ * Instrument API Service
+ * 
+ * Provides typed API calls for the global instrument master and per-exchange listings.
+ * Based on backend implementation in apps/backend/src/functions/*Instrument*.ts
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InstrumentApiService extends BaseApiService {
+  /**
+   * List active instruments, optionally by asset class
+   * 
+   * GET /api/v1/instruments
+   * 
+   * @param assetClass - Optional asset class filter
+   * @returns Observable of instruments, by symbol
+   */
+  listInstruments(assetClass?: AssetClass): Observable<InstrumentResponse[]> {
+    const query = assetClass ? `?assetClass=${assetClass}` : '';
+    return this.get<InstrumentResponse[]>(`/instruments${query}`);
+  }
+
+  /**
+   * Get an active instrument
+   * 
+   * GET /api/v1/instruments/:symbol
+   * 
+   * @param symbol - Instrument symbol
+   * @returns Observable of the instrument
+   */
+  getInstrument(symbol: string): Observable<InstrumentResponse> {
+    return this.get<InstrumentResponse>(`/instruments/${encodeURIComponent(symbol)}`);
+  }
+
+  /**
+   * Create an instrument, or restore an archived symbol (platform administrators only)
+   * 
+   * POST /api/v1/instruments
+   * 
+   * @param request - Instrument to create
+   * @returns Observable of the created instrument
+   */
+  createInstrument(request: CreateInstrumentRequest): Observable<InstrumentResponse> {
+    return this.post<InstrumentResponse>('/instruments', request);
+  }
+
+  /**
+   * Update an instrument's details or simulation parameters (platform administrators only)
+   * 
+   * PUT /api/v1/instruments/:symbol
+   * 
+   * @param symbol - Instrument symbol
+   * @param request - Fields to change
+   * @returns Observable of the updated instrument
+   */
+  updateInstrument(symbol: string, request: UpdateInstrumentRequest): Observable<InstrumentResponse> {
+    return this.put<InstrumentResponse>(`/instruments/${encodeURIComponent(symbol)}`, request);
+  }
+
+  /**
+   * Archive (soft-delete) an instrument so it stops ticking (platform administrators only)
+   * 
+   * DELETE /api/v1/instruments/:symbol
+   * 
+   * @param symbol - Instrument symbol
+   * @returns Observable of void
+   */
+  deleteInstrument(symbol: string): Observable<void> {
+    return this.delete<void>(`/instruments/${encodeURIComponent(symbol)}`);
+  }
+
+  /**
+   * List the instruments tradable on an exchange
+   * 
+   * GET /api/v1/exchanges/:id/instruments
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @returns Observable of listed instruments, by symbol
+   */
+  listExchangeInstruments(exchangeId: string): Observable<ExchangeInstrumentResponse[]> {
+    return this.get<ExchangeInstrumentResponse[]>(`/exchanges/${exchangeId}/instruments`);
+  }
+
+  /**
+   * List an instrument on an exchange (RiskManager only)
+   * 
+   * PUT /api/v1/exchanges/:id/instruments/:symbol
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param symbol - Instrument symbol
+   * @returns Observable of the listing
+   */
+  addExchangeInstrument(exchangeId: string, symbol: string): Observable<ExchangeInstrumentResponse> {
+    return this.put<ExchangeInstrumentResponse>(`/exchanges/${exchangeId}/instruments/${encodeURIComponent(symbol)}`, {});
+  }
+
+  /**
+   * Delist an instrument from an exchange, cancelling its open orders (RiskManager only)
+   * 
+   * DELETE /api/v1/exchanges/:id/instruments/:symbol
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param symbol - Instrument symbol
+   * @returns Observable of void
+   */
+  removeExchangeInstrument(exchangeId: string, symbol: string): Observable<void> {
+    return this.delete<void>(`/exchanges/${exchangeId}/instruments/${encodeURIComponent(symbol)}`);
+  }
+}
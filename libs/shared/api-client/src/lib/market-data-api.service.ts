@@ -0,0 +1,37 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { BaseApiService } from './base-api.service';
+import { GetMarketDepthQuery, MarketDepthSnapshot } from './models/market-data.models';
+
+/**
+ * Market Data API Service
+ * 
+ * Provides typed API calls for order book market data. Keep the snapshot current with
+ * SignalRService.depthUpdate$.
+ * Based on backend implementation in apps/backend/src/functions/getMarketDepth.ts
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MarketDataApiService extends BaseApiService {
+  /**
+   * Get a Level 2 snapshot of a symbol's order book
+   * 
+   * GET /api/v1/marketdata/depth
+   * 
+   * @param query - Exchange, symbol and price levels per side
+   * @returns Observable of aggregated bid and ask levels with the caller's own size
+   */
+  getMarketDepth(query: GetMarketDepthQuery): Observable<MarketDepthSnapshot> {
+    const params = new URLSearchParams();
+
+    params.append('exchangeId', query.exchangeId);
+    params.append('symbol', query.symbol);
+
+    if (query.levels !== undefined) {
+      params.append('levels', query.levels.toString());
+    }
+
+    return this.get<MarketDepthSnapshot>(`/marketdata/depth?${params.toString()}`);
+  }
+}
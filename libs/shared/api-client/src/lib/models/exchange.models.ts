@@ -5,6 +5,8 @@
  * and shared finance models in @assetsim/shared/finance-models
  */
 
+import { ExchangeConfig } from '@assetsim/shared/finance-models';
+
 /**
  * Request body for creating a new exchange
  */
@@ -12,6 +14,13 @@ export interface CreateExchangeRequest {
   name: string;
 }
 
+/**
+ * Request body for renaming an exchange
+ */
+export interface UpdateExchangeRequest {
+  name: string;
+}
+
 /**
  * Response from creating or retrieving an exchange
  */
@@ -20,4 +29,87 @@ export interface ExchangeResponse {
   name: string;
   createdAt: string;
   createdBy: string;
+  roles?: ExchangeRole[]; // The caller's roles (list, get and update responses)
+}
+
+/**
+ * Exchange-scoped role (ADR-002)
+ * RiskManager = Admin, PortfolioManager = Trader, Analyst = Read-only
+ */
+export type ExchangeRole = 'RiskManager' | 'PortfolioManager' | 'Analyst';
+
+/**
+ * A role assignment in an exchange (one per member and role)
+ */
+export interface ExchangeRoleResponse {
+  exchangeId: string;
+  userId: string;
+  role: ExchangeRole;
+  assignedAt: string;
+  portfolioId?: string; // Set when assigning PortfolioManager provisioned the member's first portfolio
+}
+
+/**
+ * Request body for assigning a role (adds the user to the exchange if needed)
+ */
+export interface AddExchangeMemberRequest {
+  userId: string;
+  role: ExchangeRole;
+}
+
+/**
+ * Request body for changing a member's role
+ * The member ends up holding exactly this role
+ */
+export interface UpdateExchangeMemberRequest {
+  role: ExchangeRole;
+}
+
+/**
+ * Query parameters for listing exchange members
+ */
+export interface ListExchangeMembersQuery {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Request body for updating exchange configuration (RiskManager only)
+ * Partial update: omitted fields keep their current value. Bounds are enforced by the
+ * backend UpdateExchangeConfigSchema (engine settings reuse MarketEngineConfigSchema).
+ */
+export type UpdateExchangeConfigRequest = Partial<Required<ExchangeConfig>>;
+
+/**
+ * A feature flag with its effective value for an exchange (RiskManager only)
+ */
+export interface ExchangeFeatureFlagResponse {
+  featureName: string;
+  description?: string; // Unset for stored flags missing from the backend flag registry
+  defaultEnabled?: boolean;
+  isEnabled: boolean; // The override's switch (before targeting), else the registry default
+  isOverridden: boolean;
+  rolloutPercentage?: number; // Targeting fields are set only when stored on the override
+  targetRoles?: ExchangeRole[];
+  targetUserIds?: string[];
+  updatedAt?: string; // Set when isOverridden
+}
+
+/**
+ * Optional targeting for a feature flag override
+ * Targeting only narrows an enabled flag: target users always get it, other users need one
+ * of targetRoles (when any targeting is set) and a rollout bucket below rolloutPercentage.
+ */
+export interface FeatureFlagTargeting {
+  rolloutPercentage?: number; // 0-100, deterministic per user
+  targetRoles?: ExchangeRole[];
+  targetUserIds?: string[];
+}
+
+/**
+ * Request body for overriding a feature flag
+ * Replaces the stored override: omitted targeting is cleared
+ */
+export interface SetFeatureFlagRequest extends FeatureFlagTargeting {
+  isEnabled: boolean;
 }
@@ -0,0 +1,45 @@
+/**
+ * Execution API Request and Response Models
+ * 
+ * These models align with backend types in apps/backend/src/types/transaction.ts
+ */
+
+import { OrderSide, SortOrder } from './order.models';
+
+/**
+ * Sortable execution list fields
+ */
+export type ExecutionSortField = 'executedAt' | 'symbol' | 'quantity' | 'price';
+
+/**
+ * A single fill from the executions ledger
+ */
+export interface ExecutionResponse {
+  executionId: string;
+  orderId: string;
+  exchangeId: string;
+  portfolioId: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  commission: number;
+  executedAt: string;
+}
+
+/**
+ * Query parameters for listing executions
+ * from/to are ISO 8601 timestamps bounding executedAt (inclusive from, exclusive to)
+ */
+export interface ListExecutionsQuery {
+  exchangeId: string;
+  portfolioId?: string;
+  orderId?: string;
+  symbol?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+  sortBy?: ExecutionSortField;
+  sortOrder?: SortOrder;
+}
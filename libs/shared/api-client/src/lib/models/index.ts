@@ -3,3 +3,8 @@
  */
 export * from './exchange.models';
 export * from './order.models';
+export * from './execution.models';
+export * from './portfolio.models';
+export * from './instrument.models';
+export * from './scenario.models';
+export * from './market-data.models';
@@ -0,0 +1,57 @@
+/**
+ * Instrument API Request and Response Models
+ * 
+ * These models align with backend types in apps/backend/src/types/instrument.ts
+ */
+
+import { PriceModelType } from '@assetsim/shared/finance-models';
+
+/**
+ * Instrument asset class
+ */
+export type AssetClass = 'EQUITY' | 'ETF' | 'CRYPTO' | 'FX' | 'COMMODITY' | 'INDEX';
+
+/**
+ * An instrument from the global instrument master with its simulation parameters
+ */
+export interface InstrumentResponse {
+  symbol: string;
+  companyName: string;
+  sector: string | null;
+  assetClass: AssetClass;
+  basePrice: number; // Starting price where the symbol has not ticked yet
+  volatilityMultiplier: number; // Scales the exchange volatility for this symbol
+  tickSize: number; // Minimum price increment
+  lotSize: number; // Minimum volume increment
+  priceModel: PriceModelType | null; // Overrides the exchange price model; null inherits it
+  beta: number; // Loading on the exchange's market factor
+}
+
+/**
+ * Create instrument request (omitted simulation parameters use the backend defaults)
+ */
+export interface CreateInstrumentRequest {
+  symbol: string;
+  companyName: string;
+  sector?: string | null;
+  assetClass?: AssetClass;
+  basePrice: number;
+  volatilityMultiplier?: number;
+  tickSize?: number;
+  lotSize?: number;
+  priceModel?: PriceModelType | null;
+  beta?: number;
+}
+
+/**
+ * Partial instrument update (at least one field)
+ */
+export type UpdateInstrumentRequest = Partial<Omit<CreateInstrumentRequest, 'symbol'>>;
+
+/**
+ * An instrument listed on an exchange
+ */
+export interface ExchangeInstrumentResponse extends InstrumentResponse {
+  listedAt: string;
+  listedBy: string | null; // null when listed at exchange creation
+}
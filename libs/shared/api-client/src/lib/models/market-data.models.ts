@@ -0,0 +1,37 @@
+/**
+ * Market Data API Request and Response Models
+ * 
+ * These models align with backend types in apps/backend/src/types/market-depth.ts
+ */
+
+/**
+ * Aggregated size resting at one price
+ */
+export interface MarketDepthLevel {
+  price: number;
+  quantity: number;
+  orderCount: number;
+  ownQuantity: number; // Part of quantity from the caller's own orders
+}
+
+/**
+ * Level 2 snapshot of a symbol's order book, best price first on each side
+ */
+export interface MarketDepthSnapshot {
+  exchangeId: string;
+  symbol: string;
+  bids: MarketDepthLevel[];
+  asks: MarketDepthLevel[];
+  sequence: number; // Last DepthUpdate already reflected in the snapshot (0 = none yet)
+  timestamp: string;
+}
+
+/**
+ * Query parameters for a market depth snapshot
+ * levels defaults to 10 per side (max 20, the levels the depth feed publishes)
+ */
+export interface GetMarketDepthQuery {
+  exchangeId: string;
+  symbol: string;
+  levels?: number;
+}
@@ -5,9 +5,9 @@
  */
 
 /**
- * Order side enum
+ * Order side enum (SHORT opens a short position, COVER buys it back)
  */
-export type OrderSide = 'BUY' | 'SELL';
+export type OrderSide = 'BUY' | 'SELL' | 'SHORT' | 'COVER';
 
 /**
  * Order type enum
@@ -33,6 +33,17 @@ export interface CreateOrderRequest {
   portfolioId: string;
 }
 
+/**
+ * Request body for amending an open order
+ * Omitted fields keep their current values
+ */
+export interface AmendOrderRequest {
+  exchangeId: string;
+  quantity?: number;
+  price?: number;
+  stopPrice?: number;
+}
+
 /**
  * Response from creating or retrieving an order
  */
@@ -49,12 +60,24 @@ export interface OrderResponse {
   status: OrderStatus;
   filledQuantity: number;
   averagePrice?: number;
+  commission: number; // Total commission charged across the order's fills
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Sortable order list fields
+ */
+export type OrderSortField = 'createdAt' | 'updatedAt' | 'symbol' | 'quantity' | 'status';
+
+/**
+ * Sort direction
+ */
+export type SortOrder = 'asc' | 'desc';
+
 /**
  * Query parameters for listing orders
+ * The backend defaults to limit 50, offset 0, sorted by createdAt desc
  */
 export interface ListOrdersQuery {
   exchangeId: string;
@@ -63,4 +86,16 @@ export interface ListOrdersQuery {
   symbol?: string;
   limit?: number;
   offset?: number;
+  sortBy?: OrderSortField;
+  sortOrder?: SortOrder;
+}
+
+/**
+ * Paginated list response with total-count metadata
+ */
+export interface PagedResponse<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
 }
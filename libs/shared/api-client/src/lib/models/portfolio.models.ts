@@ -0,0 +1,56 @@
+/**
+ * Portfolio API Response Models
+ * 
+ * These models align with backend types in apps/backend/src/types/transaction.ts
+ */
+
+/**
+ * Portfolio margin status (MARGIN_CALL blocks new short positions)
+ */
+export type MarginStatus = 'OK' | 'MARGIN_CALL';
+
+/**
+ * A position valued at the current quote
+ * quantity is negative for short positions; unrealizedPnL is signed accordingly
+ */
+export interface PositionResponse {
+  symbol: string;
+  quantity: number;
+  averagePrice: number;
+  currentPrice: number;
+  unrealizedPnL: number;
+  realizedPnL: number;
+}
+
+/**
+ * A portfolio with its positions marked to market
+ * totalValue is cashBalance plus the signed market value of all positions
+ */
+export interface PortfolioResponse {
+  portfolioId: string;
+  exchangeId: string;
+  name: string;
+  cashBalance: number;
+  totalValue: number;
+  unrealizedPnL: number;
+  realizedPnL: number; // Includes positions that have since been closed
+  marginStatus: MarginStatus;
+  positions: PositionResponse[];
+}
+
+/**
+ * Request body for creating a portfolio
+ * The portfolio is funded with the exchange's starting cash; name defaults to 'Main Portfolio'
+ */
+export interface CreatePortfolioRequest {
+  name?: string;
+}
+
+/**
+ * Query parameters for listing portfolios
+ */
+export interface ListPortfoliosQuery {
+  exchangeId: string;
+  limit?: number;
+  offset?: number;
+}
@@ -0,0 +1,42 @@
+/**
+ * Market Scenario API Request and Response Models
+ * 
+ * These models align with backend types in apps/backend/src/types/scenario.ts
+ */
+
+/**
+ * A scheduled scenario event; atSeconds counts running time from the start (pauses excluded)
+ */
+export type ScenarioEvent =
+  | { type: 'VOLATILITY_REGIME'; atSeconds: number; volatilityIndex: number }
+  | { type: 'GAP'; atSeconds: number; percent: number; symbol?: string; sector?: string } // Neither = every symbol
+  | { type: 'HALT'; atSeconds: number; symbol?: string; durationSeconds?: number } // No symbol = whole exchange
+  | { type: 'RESUME'; atSeconds: number; symbol?: string }; // No symbol = every halt of the scenario
+
+/**
+ * Scenario lifecycle status
+ */
+export type ScenarioStatus = 'READY' | 'RUNNING' | 'PAUSED' | 'COMPLETED';
+
+/**
+ * Upload scenario request (events may be in any order)
+ */
+export interface CreateScenarioRequest {
+  name: string;
+  events: ScenarioEvent[];
+}
+
+/**
+ * A market scenario with its progress
+ */
+export interface ScenarioResponse {
+  scenarioId: string;
+  exchangeId: string;
+  name: string;
+  status: ScenarioStatus;
+  events: ScenarioEvent[]; // Ordered by atSeconds
+  elapsedSeconds: number; // Running time so far (paused time excluded)
+  nextEventIndex: number; // Events before this index have been applied
+  createdAt: string;
+  createdBy: string;
+}
@@ -1,7 +1,7 @@
 import { Injectable } from '@angular/core';
 import { Observable } from 'rxjs';
 import { BaseApiService } from './base-api.service';
-import { CreateOrderRequest, OrderResponse, ListOrdersQuery } from './models/order.models';
+import { CreateOrderRequest, AmendOrderRequest, OrderResponse, ListOrdersQuery, PagedResponse } from './models/order.models';
 
 /**
  * Order API Service
@@ -26,26 +26,27 @@ export class OrderApiService extends BaseApiService {
   }
 
   /**
-   * Get order by ID (to be implemented in backend)
+   * Get order by ID
    * 
    * GET /api/v1/orders/:id
    * 
    * @param orderId - UUID of the order
+   * @param exchangeId - UUID of the exchange
    * @returns Observable of the order details
    */
-  getOrder(orderId: string): Observable<OrderResponse> {
-    return this.get<OrderResponse>(`/orders/${orderId}`);
+  getOrder(orderId: string, exchangeId: string): Observable<OrderResponse> {
+    return this.get<OrderResponse>(`/orders/${orderId}?exchangeId=${exchangeId}`);
   }
 
   /**
-   * List orders with optional filters (to be implemented in backend)
+   * List orders with optional filters, paging and sorting
    * 
    * GET /api/v1/orders
    * 
-   * @param query - Optional query parameters for filtering
-   * @returns Observable of array of orders
+   * @param query - Query parameters for filtering, paging and sorting
+   * @returns Observable of a page of orders with the total count
    */
-  listOrders(query: ListOrdersQuery): Observable<OrderResponse[]> {
+  listOrders(query: ListOrdersQuery): Observable<PagedResponse<OrderResponse>> {
     const params = new URLSearchParams();
     
     params.append('exchangeId', query.exchangeId);
@@ -65,12 +66,31 @@ export class OrderApiService extends BaseApiService {
     if (query.offset !== undefined) {
       params.append('offset', query.offset.toString());
     }
+    if (query.sortBy) {
+      params.append('sortBy', query.sortBy);
+    }
+    if (query.sortOrder) {
+      params.append('sortOrder', query.sortOrder);
+    }
+
+    return this.get<PagedResponse<OrderResponse>>(`/orders?${params.toString()}`);
+  }
 
-    return this.get<OrderResponse[]>(`/orders?${params.toString()}`);
+  /**
+   * Amend the quantity, limit price or stop price of a PENDING or PARTIAL order
+   * 
+   * PATCH /api/v1/orders/:id
+   * 
+   * @param orderId - UUID of the order to amend
+   * @param request - Fields to change
+   * @returns Observable of the amended order
+   */
+  amendOrder(orderId: string, request: AmendOrderRequest): Observable<OrderResponse> {
+    return this.patch<OrderResponse>(`/orders/${orderId}`, request);
   }
 
   /**
-   * Cancel an order (to be implemented in backend)
+   * Cancel a PENDING or PARTIAL order
    * 
    * DELETE /api/v1/orders/:id
    * 
@@ -0,0 +1,66 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { BaseApiService } from './base-api.service';
+import { CreatePortfolioRequest, ListPortfoliosQuery, PortfolioResponse } from './models/portfolio.models';
+import { PagedResponse } from './models/order.models';
+
+/**
+ * Portfolio API Service
+ * 
+ * Provides typed API calls for portfolio provisioning and valuation.
+ * Based on backend implementation in apps/backend/src/functions/createPortfolio.ts,
+ * getPortfolio.ts and listPortfolios.ts
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PortfolioApiService extends BaseApiService {
+  /**
+   * Create a portfolio for the current user, funded with the exchange's starting cash
+   * 
+   * POST /api/v1/exchanges/:exchangeId/portfolios
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param request - Optional portfolio name
+   * @returns Observable of the new portfolio (its portfolioId replaces the stub configuration)
+   */
+  createPortfolio(exchangeId: string, request: CreatePortfolioRequest = {}): Observable<PortfolioResponse> {
+    return this.post<PortfolioResponse>(`/exchanges/${exchangeId}/portfolios`, request);
+  }
+
+  /**
+   * Get a portfolio with positions marked to market
+   * 
+   * GET /api/v1/portfolios/:id
+   * 
+   * @param portfolioId - UUID of the portfolio
+   * @param exchangeId - UUID of the exchange
+   * @returns Observable of the portfolio details
+   */
+  getPortfolio(portfolioId: string, exchangeId: string): Observable<PortfolioResponse> {
+    return this.get<PortfolioResponse>(`/portfolios/${portfolioId}?exchangeId=${exchangeId}`);
+  }
+
+  /**
+   * List the portfolios visible to the caller in an exchange
+   * 
+   * GET /api/v1/portfolios
+   * 
+   * @param query - Exchange and paging parameters
+   * @returns Observable of a page of portfolios with the total count
+   */
+  listPortfolios(query: ListPortfoliosQuery): Observable<PagedResponse<PortfolioResponse>> {
+    const params = new URLSearchParams();
+
+    params.append('exchangeId', query.exchangeId);
+
+    if (query.limit !== undefined) {
+      params.append('limit', query.limit.toString());
+    }
+    if (query.offset !== undefined) {
+      params.append('offset', query.offset.toString());
+    }
+
+    return this.get<PagedResponse<PortfolioResponse>>(`/portfolios?${params.toString()}`);
+  }
+}
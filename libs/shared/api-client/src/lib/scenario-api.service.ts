@@ -0,0 +1,82 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { BaseApiService } from './base-api.service';
+import { CreateScenarioRequest, ScenarioResponse } from './models/scenario.models';
+
+/**
+ * Market Scenario API Service
+ * 
+ * Provides typed API calls for uploading and controlling market scenarios (RiskManager only).
+ * Based on backend implementation in apps/backend/src/functions/listScenarios.ts,
+ * createScenario.ts and controlScenario.ts
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ScenarioApiService extends BaseApiService {
+  /**
+   * List an exchange's scenarios, newest first
+   * 
+   * GET /api/v1/exchanges/{exchangeId}/scenarios
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @returns Observable of the scenarios with their progress
+   */
+  listScenarios(exchangeId: string): Observable<ScenarioResponse[]> {
+    return this.get<ScenarioResponse[]>(`/exchanges/${exchangeId}/scenarios`);
+  }
+
+  /**
+   * Upload a scenario
+   * 
+   * POST /api/v1/exchanges/{exchangeId}/scenarios
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param scenario - Name and timeline
+   * @returns Observable of the READY scenario
+   */
+  createScenario(exchangeId: string, scenario: CreateScenarioRequest): Observable<ScenarioResponse> {
+    return this.post<ScenarioResponse>(`/exchanges/${exchangeId}/scenarios`, scenario);
+  }
+
+  /**
+   * Start a READY scenario, or continue a PAUSED one
+   * 
+   * POST /api/v1/exchanges/{exchangeId}/scenarios/{scenarioId}/start
+   * 
+   * Fails with 409 while another scenario of the exchange is running or paused.
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param scenarioId - UUID of the scenario
+   * @returns Observable of the RUNNING scenario
+   */
+  startScenario(exchangeId: string, scenarioId: string): Observable<ScenarioResponse> {
+    return this.post<ScenarioResponse>(`/exchanges/${exchangeId}/scenarios/${scenarioId}/start`, {});
+  }
+
+  /**
+   * Pause a RUNNING scenario (its halts stay in force)
+   * 
+   * POST /api/v1/exchanges/{exchangeId}/scenarios/{scenarioId}/pause
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param scenarioId - UUID of the scenario
+   * @returns Observable of the PAUSED scenario
+   */
+  pauseScenario(exchangeId: string, scenarioId: string): Observable<ScenarioResponse> {
+    return this.post<ScenarioResponse>(`/exchanges/${exchangeId}/scenarios/${scenarioId}/pause`, {});
+  }
+
+  /**
+   * Reset a scenario to READY, lifting its halts and restoring the exchange's volatility regime
+   * 
+   * POST /api/v1/exchanges/{exchangeId}/scenarios/{scenarioId}/reset
+   * 
+   * @param exchangeId - UUID of the exchange
+   * @param scenarioId - UUID of the scenario
+   * @returns Observable of the READY scenario
+   */
+  resetScenario(exchangeId: string, scenarioId: string): Observable<ScenarioResponse> {
+    return this.post<ScenarioResponse>(`/exchanges/${exchangeId}/scenarios/${scenarioId}/reset`, {});
+  }
+}
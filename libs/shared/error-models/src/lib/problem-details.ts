@@ -74,6 +74,9 @@ export const ErrorTypes = {
   NOT_FOUND: 'https://assetsim.com/errors/not-found',
   CONFLICT: 'https://assetsim.com/errors/conflict',
   INSUFFICIENT_FUNDS: 'https://assetsim.com/errors/insufficient-funds',
+  INSUFFICIENT_MARGIN: 'https://assetsim.com/errors/insufficient-margin',
+  TRADING_HALTED: 'https://assetsim.com/errors/trading-halted',
+  MARKET_CLOSED: 'https://assetsim.com/errors/market-closed',
   SERVICE_UNAVAILABLE: 'https://assetsim.com/errors/service-unavailable',
   INTERNAL_ERROR: 'https://assetsim.com/errors/internal-error',
 } as const;
@@ -88,6 +91,9 @@ export const ErrorTitles = {
   NOT_FOUND: 'Not Found',
   CONFLICT: 'Conflict',
   INSUFFICIENT_FUNDS: 'Insufficient Funds',
+  INSUFFICIENT_MARGIN: 'Insufficient Margin',
+  TRADING_HALTED: 'Trading Halted',
+  MARKET_CLOSED: 'Market Closed',
   SERVICE_UNAVAILABLE: 'Service Unavailable',
   INTERNAL_ERROR: 'Internal Server Error',
 } as const;
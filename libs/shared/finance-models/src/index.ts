@@ -1 +1,2 @@
 export * from './lib/finance-models';
+export * from './lib/seeded-random';
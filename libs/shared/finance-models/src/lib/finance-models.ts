@@ -5,6 +5,18 @@
  * Defines types for exchange configuration and feature flags
  */
 
+/**
+ * Commission model
+ * BPS = basis points of each fill's notional, FLAT = fixed amount per order
+ */
+export type CommissionModel = 'FLAT' | 'BPS';
+
+/**
+ * Stochastic price model used by the market simulation
+ * GBM = geometric Brownian motion, MERTON = jump-diffusion, OU = mean-reverting
+ */
+export type PriceModelType = 'GBM' | 'MERTON' | 'OU';
+
 /**
  * Exchange Configuration Interface
  * Risk Managers configure simulation rules via ExchangeConfig
@@ -17,11 +29,18 @@ export interface ExchangeConfig {
   initialAum: number;
 
   /**
-   * Commission in basis points (1 bp = 0.01%)
+   * Commission rate: basis points of fill notional (1 bp = 0.01%) for the BPS model,
+   * or a fixed amount per order for the FLAT model
    * Default: 5 bps
    */
   commissionBps: number;
 
+  /**
+   * How commissionBps is applied to fills
+   * Default: 'BPS'
+   */
+  commissionModel?: CommissionModel;
+
   /**
    * Whether margin trading is allowed
    * Default: true
@@ -40,6 +59,153 @@ export interface ExchangeConfig {
    * Array of widget identifiers to display
    */
   dashboardLayout: string[];
+
+  /**
+   * Maximum number of portfolios in the exchange
+   * Default: 50
+   */
+  maxPortfolioSize?: number;
+
+  /**
+   * Market engine tick interval in milliseconds (100-60000)
+   */
+  tickIntervalMs?: number;
+
+  /**
+   * Market engine price-move scalar (0.001-1.0)
+   */
+  volatility?: number;
+
+  /**
+   * Whether the market engine generates prices and fills orders
+   */
+  marketEngineEnabled?: boolean;
+
+  /**
+   * Price model for the exchange's instruments (OU reverts towards each instrument's base price)
+   * Instruments may override it
+   * Default: 'GBM'
+   */
+  priceModel?: PriceModelType;
+
+  /**
+   * Expected log return per tick (-0.01-0.01)
+   * Default: 0
+   */
+  drift?: number;
+
+  /**
+   * Expected jumps per tick for the MERTON model (0-1)
+   * Default: 0.01
+   */
+  jumpIntensity?: number;
+
+  /**
+   * Mean log jump size for the MERTON model (-0.5-0.5)
+   * Default: 0
+   */
+  jumpMean?: number;
+
+  /**
+   * Standard deviation of the log jump size for the MERTON model (0-0.5)
+   * Default: 0.05
+   */
+  jumpVolatility?: number;
+
+  /**
+   * Reversion speed per tick for the OU model (0.0001-1)
+   * Default: 0.05
+   */
+  meanReversion?: number;
+
+  /**
+   * Share of a beta-1 symbol's shock variance driven by the market factor (0-1)
+   * Default: 0.3
+   */
+  marketCorrelation?: number;
+
+  /**
+   * Share of a symbol's shock variance driven by its sector factor (0-1)
+   * Default: 0.2
+   */
+  sectorCorrelation?: number;
+
+  /**
+   * Seed that makes the simulated price path reproducible (0-2147483647)
+   * null draws from Math.random
+   * Default: null
+   */
+  simulationSeed?: number | null;
+
+  /**
+   * Limit-up/limit-down band around a symbol's 5-minute average price (0.01-0.5)
+   * A tick beyond it is capped at the band and halts the symbol; null disables LULD
+   * Default: 0.1
+   */
+  luldBand?: number | null;
+
+  /**
+   * Length of a LULD halt in seconds (15-3600)
+   * Default: 300
+   */
+  luldHaltSeconds?: number;
+
+  /**
+   * Drop of the exchange's equal-weighted index since the day's first ticks that halts
+   * all trading (0.01-0.5, at most once per day); null disables the circuit breaker
+   * Default: 0.07
+   */
+  circuitBreakerThreshold?: number | null;
+
+  /**
+   * Length of a market-wide circuit breaker halt in seconds (60-86400)
+   * Default: 900
+   */
+  circuitBreakerHaltSeconds?: number;
+
+  /**
+   * IANA time zone of the exchange's trading day (e.g. 'America/New_York')
+   * null trades 24/7 without auctions
+   * Default: null
+   */
+  sessionTimeZone?: string | null;
+
+  /**
+   * Local time of the opening auction (HH:mm)
+   * Default: '09:30'
+   */
+  sessionOpenTime?: string;
+
+  /**
+   * Local time of the closing auction (HH:mm)
+   * Default: '16:00'
+   */
+  sessionCloseTime?: string;
+
+  /**
+   * Minutes before the open that orders are collected for the opening auction (0-240)
+   * Default: 30
+   */
+  preOpenMinutes?: number;
+
+  /**
+   * Minutes before the close that continuous trading stops for the closing auction (0-60)
+   * Default: 10
+   */
+  closingAuctionMinutes?: number;
+
+  /**
+   * Local dates (YYYY-MM-DD) without a session
+   * Default: []
+   */
+  sessionHolidays?: string[];
+
+  /**
+   * Market maker bid/ask spread in basis points at VolatilityIndex 1.0 (0.1-1000); the spread
+   * widens with the volatility index
+   * Default: 10
+   */
+  marketMakerSpreadBps?: number;
 }
 
 /**
@@ -104,6 +270,186 @@ export interface PriceUpdateEvent {
    * ISO 8601 timestamp
    */
   timestamp: string;
+
+  /**
+   * Market maker bid; market orders that sell fill here
+   * (absent on price-only updates from the ticker generator)
+   */
+  bid?: number;
+
+  /**
+   * Market maker ask; market orders that buy fill here
+   */
+  ask?: number;
+
+  /**
+   * Quantity the market maker buys at the bid this tick
+   */
+  bidSize?: number;
+
+  /**
+   * Quantity the market maker sells at the ask this tick
+   */
+  askSize?: number;
+}
+
+/**
+ * Exchange Config Updated Event
+ * Pushed to ticker:{exchangeId} after a Risk Manager changes the exchange configuration
+ * Matches backend ExchangeConfigUpdatedEvent from exchange.ts
+ */
+export interface ExchangeConfigUpdatedEvent {
+  /**
+   * Exchange whose configuration changed
+   */
+  exchangeId: string;
+
+  /**
+   * Entra Object ID of the Risk Manager who made the change
+   */
+  updatedBy: string;
+
+  /**
+   * ISO 8601 timestamp
+   */
+  timestamp: string;
+}
+
+/**
+ * Trading Halt Event
+ * Pushed to ticker:{exchangeId} when a symbol (or the whole exchange) halts or resumes
+ * Matches backend TradingHaltEvent from market-engine.ts
+ */
+export interface TradingHaltEvent {
+  /**
+   * Exchange the halt applies to
+   */
+  exchangeId: string;
+
+  /**
+   * Halted symbol; null halts the whole exchange
+   */
+  symbol: string | null;
+
+  /**
+   * HALTED when the halt starts, RESUMED when it ends
+   */
+  status: 'HALTED' | 'RESUMED';
+
+  /**
+   * SCENARIO (market scenario event), LULD (limit-up/limit-down band breach) or
+   * CIRCUIT_BREAKER (market-wide index drop)
+   */
+  reason: 'SCENARIO' | 'LULD' | 'CIRCUIT_BREAKER';
+
+  /**
+   * ISO 8601 timestamp the halt started
+   */
+  haltedAt: string;
+
+  /**
+   * ISO 8601 timestamp the halt is scheduled to end (null = until lifted)
+   */
+  resumeAt: string | null;
+
+  /**
+   * ISO 8601 timestamp
+   */
+  timestamp: string;
+}
+
+/**
+ * Market Session Event
+ * Pushed to ticker:{exchangeId} when an exchange's trading session moves to another phase
+ * Matches backend MarketSessionEvent from market-session.ts
+ */
+export interface MarketSessionEvent {
+  /**
+   * Exchange whose session changed
+   */
+  exchangeId: string;
+
+  /**
+   * Current phase: CLOSED (no orders), PRE_OPEN and CLOSING_AUCTION (MARKET and LIMIT orders
+   * are collected for the auctions) or CONTINUOUS
+   */
+  phase: 'CLOSED' | 'PRE_OPEN' | 'CONTINUOUS' | 'CLOSING_AUCTION';
+
+  /**
+   * Phase before the change (null on the first phase after a schedule change)
+   */
+  previousPhase: 'CLOSED' | 'PRE_OPEN' | 'CONTINUOUS' | 'CLOSING_AUCTION' | null;
+
+  /**
+   * OPENING or CLOSING when the change ran that call auction, otherwise null
+   */
+  auction: 'OPENING' | 'CLOSING' | null;
+
+  /**
+   * ISO 8601 timestamp
+   */
+  timestamp: string;
+}
+
+/**
+ * Market Depth Level Change
+ * New aggregated size of one price level in a symbol's order book
+ * Matches backend MarketDepthLevelChange from market-depth.ts
+ */
+export interface MarketDepthLevelChange {
+  /**
+   * Side of the book (BID for BUY and COVER orders, ASK for SELL and SHORT orders)
+   */
+  side: 'BID' | 'ASK';
+
+  /**
+   * Price of the level
+   */
+  price: number;
+
+  /**
+   * Remaining quantity resting at this price (0 removes the level)
+   */
+  quantity: number;
+
+  /**
+   * Number of orders resting at this price
+   */
+  orderCount: number;
+}
+
+/**
+ * Market Depth Update Event
+ * Pushed to ticker:{exchangeId} when a market engine tick changes a symbol's order book;
+ * apply on top of a GET /api/v1/marketdata/depth snapshot
+ * Matches backend MarketDepthUpdateEvent from market-depth.ts
+ */
+export interface MarketDepthUpdateEvent {
+  /**
+   * Exchange of the book
+   */
+  exchangeId: string;
+
+  /**
+   * Symbol of the book
+   */
+  symbol: string;
+
+  /**
+   * Levels that changed since the previous update
+   */
+  changes: MarketDepthLevelChange[];
+
+  /**
+   * Position in the book's update sequence (increases by one per update); apply only updates
+   * above the snapshot's sequence
+   */
+  sequence: number;
+
+  /**
+   * ISO 8601 timestamp
+   */
+  timestamp: string;
 }
 
 export function financeModels(): string {
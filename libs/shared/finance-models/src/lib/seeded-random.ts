@@ -0,0 +1,54 @@
+/**
+ * Seeded Random Numbers for AssetSim Pro
+ *
+ * Deterministic uniform random numbers shared by the backend generators and the client
+ * emulation, so a market path can be replayed from an exchange's simulation seed.
+ *
+ * Each stream is identified by the seed plus stream keys (e.g. the tick number and symbol),
+ * so a symbol's draws do not depend on which other symbols are listed or in what order
+ * they are processed.
+ */
+
+/**
+ * Uniform random numbers in [0, 1), interchangeable with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Largest seed accepted (seeds are stored as SQL INT)
+ */
+export const MAX_SIMULATION_SEED = 2_147_483_647;
+
+/**
+ * 32-bit FNV-1a hash of the seed and stream keys
+ */
+function hashStreamKey(seed: number, keys: ReadonlyArray<string | number>): number {
+  let hash = 0x811c9dc5;
+
+  for (const char of [seed, ...keys].join('\u001f')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic random source (mulberry32) for a seed and stream keys
+ *
+ * The same seed and keys always produce the same sequence.
+ *
+ * @param seed - Simulation seed (0 to MAX_SIMULATION_SEED)
+ * @param keys - Stream identifiers, e.g. the tick number and symbol
+ */
+export function createSeededRandom(seed: number, ...keys: Array<string | number>): RandomSource {
+  let state = hashStreamKey(seed, keys);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -238,7 +238,7 @@ async function seedLocalEnvironment() {
         .input('symbol', sql.NVarChar, instrument.symbol)
         .input('companyName', sql.NVarChar, instrument.companyName)
         .input('sector', sql.NVarChar, instrument.sector)
-        .input('basePrice', sql.Decimal(18, 2), instrument.basePrice)
+        .input('basePrice', sql.Decimal(18, 8), instrument.basePrice)
         .query(`
           MERGE [Trade].[Instruments] AS target
           USING (SELECT @symbol AS Symbol) AS source
@@ -255,6 +255,23 @@ async function seedLocalEnvironment() {
     }
     console.log(`✅ ${SAMPLE_INSTRUMENTS.length} instruments seeded\n`);
     
+    // List the sample instruments on the demo exchange (idempotent)
+    console.log('🏷️  Listing Sample Instruments on Demo Exchange...');
+    for (const instrument of SAMPLE_INSTRUMENTS) {
+      await pool.request()
+        .input('exchangeId', sql.UniqueIdentifier, DEMO_EXCHANGE_ID)
+        .input('symbol', sql.NVarChar, instrument.symbol)
+        .query(`
+          MERGE [Trade].[ExchangeInstruments] AS target
+          USING (SELECT @exchangeId AS ExchangeId, @symbol AS Symbol) AS source
+          ON target.ExchangeId = source.ExchangeId AND target.Symbol = source.Symbol
+          WHEN NOT MATCHED THEN
+            INSERT ([ExchangeId], [Symbol])
+            VALUES (@exchangeId, @symbol);
+        `);
+    }
+    console.log(`✅ ${SAMPLE_INSTRUMENTS.length} instruments listed\n`);
+    
     // 5. Seed Demo Portfolio (idempotent)
     console.log('💼 Seeding Demo Portfolio...');
     await pool.request()